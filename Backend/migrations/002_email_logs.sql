@@ -0,0 +1,23 @@
+-- AutoShip Email Logs Migration
+-- Version: 002
+-- Description: 新增邮件发送记录表，记录每一次发货/失败/退款邮件的发送尝试
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS email_logs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT,
+  email_type TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  status TEXT NOT NULL,
+  message_id TEXT,
+  error_message TEXT,
+  triggered_by TEXT DEFAULT 'system',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_logs_order_id ON email_logs(order_id);
+CREATE INDEX IF NOT EXISTS idx_email_logs_status ON email_logs(status);
+CREATE INDEX IF NOT EXISTS idx_email_logs_created_at ON email_logs(created_at);
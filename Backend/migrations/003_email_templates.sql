@@ -0,0 +1,19 @@
+-- AutoShip Email Templates Migration
+-- Version: 003
+-- Description: 新增邮件模板表，支持默认模板和商品级模板覆盖
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  product_id INTEGER,
+  email_type TEXT NOT NULL DEFAULT 'delivery',
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  is_active INTEGER DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_by TEXT,
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_templates_product_type ON email_templates(product_id, email_type);
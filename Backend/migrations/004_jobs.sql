@@ -0,0 +1,27 @@
+-- AutoShip Job Queue Migration
+-- Version: 004
+-- Description: 新增持久化任务表，支持重试退避、死信状态和订单+动作幂等键
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_type TEXT NOT NULL,
+  order_id TEXT,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  payload TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at DATETIME NOT NULL,
+  locked_at DATETIME,
+  locked_by TEXT,
+  last_error TEXT,
+  completed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_order_id ON jobs(order_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_job_type ON jobs(job_type);
@@ -0,0 +1,25 @@
+-- AutoShip Refunds Migration
+-- Version: 005
+-- Description: 新增退款记录表，记录网关退款请求号、金额、网关退款单号和状态，支持部分退款
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  refund_no TEXT NOT NULL UNIQUE,
+  order_id TEXT NOT NULL,
+  gateway TEXT NOT NULL,
+  amount REAL NOT NULL,
+  currency TEXT NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  gateway_refund_id TEXT,
+  error_message TEXT,
+  requested_by TEXT,
+  completed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status);
@@ -0,0 +1,38 @@
+-- AutoShip Payment Reconciliation Migration
+-- Version: 006
+-- Description: 新增支付状态对账批次和明细表，记录主动查询网关后一致、恢复和金额不一致的订单
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  status TEXT NOT NULL DEFAULT 'running',
+  triggered_by TEXT NOT NULL,
+  checked_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  recovered_count INTEGER NOT NULL DEFAULT 0,
+  mismatched_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  finished_at DATETIME
+);
+
+CREATE TABLE IF NOT EXISTS reconciliation_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER NOT NULL,
+  order_id TEXT NOT NULL,
+  gateway TEXT NOT NULL,
+  outcome TEXT NOT NULL,
+  local_status TEXT NOT NULL,
+  gateway_status TEXT,
+  local_amount REAL NOT NULL,
+  gateway_amount REAL,
+  currency TEXT NOT NULL,
+  message TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (run_id) REFERENCES reconciliation_runs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started_at ON reconciliation_runs(started_at);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_run_id ON reconciliation_items(run_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_order_id ON reconciliation_items(order_id);
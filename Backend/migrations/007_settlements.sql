@@ -0,0 +1,36 @@
+-- AutoShip Settlement Import Migration
+-- Version: 007
+-- Description: 新增网关结算文件导入记录和差异明细表，用于财务核对订单与网关账单
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS settlement_imports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  gateway TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  line_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  discrepancy_count INTEGER NOT NULL DEFAULT 0,
+  payment_amount REAL NOT NULL DEFAULT 0,
+  refund_amount REAL NOT NULL DEFAULT 0,
+  imported_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS settlement_discrepancies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  import_id INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  line_no INTEGER NOT NULL,
+  gateway_order_id TEXT,
+  transaction_id TEXT,
+  order_id TEXT,
+  local_amount REAL,
+  settled_amount REAL NOT NULL,
+  currency TEXT,
+  message TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (import_id) REFERENCES settlement_imports(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_imports_created_at ON settlement_imports(created_at);
+CREATE INDEX IF NOT EXISTS idx_settlement_discrepancies_import_id ON settlement_discrepancies(import_id);
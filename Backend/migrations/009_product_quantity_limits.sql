@@ -0,0 +1,7 @@
+-- AutoShip Product Quantity Limits Migration
+-- Version: 009
+-- Description: 商品新增单次购买数量上下限，支持一次购买多份（分配多条库存）
+-- Date: 2026-10-19
+
+ALTER TABLE products ADD COLUMN min_quantity INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE products ADD COLUMN max_quantity INTEGER;
@@ -0,0 +1,42 @@
+-- AutoShip Coupons Migration
+-- Version: 010
+-- Description: 新增优惠码和优惠码使用记录表，支持百分比/固定金额折扣、商品范围、使用次数限制和叠加规则
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  code TEXT NOT NULL UNIQUE,
+  description TEXT,
+  discount_type TEXT NOT NULL,
+  percent_off REAL,
+  amounts TEXT,
+  product_ids TEXT,
+  max_redemptions INTEGER,
+  max_redemptions_per_email INTEGER,
+  stackable INTEGER NOT NULL DEFAULT 0,
+  starts_at DATETIME,
+  expires_at DATETIME,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  coupon_id INTEGER NOT NULL,
+  order_id TEXT NOT NULL,
+  code TEXT NOT NULL,
+  email TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  discount_amount REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'applied',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  released_at DATETIME,
+  FOREIGN KEY (coupon_id) REFERENCES coupons(id),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_status ON coupon_redemptions(coupon_id, status);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_order_id ON coupon_redemptions(order_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_email ON coupon_redemptions(email);
@@ -0,0 +1,26 @@
+-- AutoShip Tax Rules Migration
+-- Version: 011
+-- Description: 新增税率规则表，按买家国家和商品税务分类计算 VAT，订单记录税前金额、税额和计税国家
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS tax_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  country TEXT NOT NULL,
+  tax_category TEXT,
+  name TEXT NOT NULL DEFAULT 'VAT',
+  rate REAL NOT NULL,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rules_country_category ON tax_rules(country, tax_category);
+
+ALTER TABLE products ADD COLUMN tax_category TEXT NOT NULL DEFAULT 'standard';
+
+ALTER TABLE orders ADD COLUMN net_amount REAL;
+ALTER TABLE orders ADD COLUMN tax_amount REAL;
+ALTER TABLE orders ADD COLUMN tax_country TEXT;
+
+ALTER TABLE order_items ADD COLUMN tax_rate REAL NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN tax_amount REAL NOT NULL DEFAULT 0;
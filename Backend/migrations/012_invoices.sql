@@ -0,0 +1,38 @@
+-- AutoShip Invoices Migration
+-- Version: 012
+-- Description: 新增发票表和发票编号计数器，已支付订单生成 PDF 发票，退款生成红字发票；订单记录发票抬头和买家税号
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  invoice_number TEXT NOT NULL UNIQUE,
+  type TEXT NOT NULL DEFAULT 'invoice',
+  order_id TEXT NOT NULL,
+  refund_id INTEGER,
+  original_invoice_id INTEGER,
+  file_id INTEGER,
+  buyer_email TEXT NOT NULL,
+  buyer_company TEXT,
+  buyer_tax_id TEXT,
+  currency TEXT NOT NULL,
+  net_amount REAL NOT NULL,
+  tax_amount REAL NOT NULL,
+  total_amount REAL NOT NULL,
+  issued_at DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (order_id) REFERENCES orders(id),
+  FOREIGN KEY (refund_id) REFERENCES refunds(id),
+  FOREIGN KEY (file_id) REFERENCES files(id)
+);
+
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  series TEXT PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_invoice ON invoices(order_id) WHERE type = 'invoice';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_refund_id ON invoices(refund_id) WHERE refund_id IS NOT NULL;
+
+ALTER TABLE orders ADD COLUMN buyer_company TEXT;
+ALTER TABLE orders ADD COLUMN buyer_tax_id TEXT;
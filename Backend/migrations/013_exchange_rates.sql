@@ -0,0 +1,16 @@
+-- AutoShip Exchange Rates Migration
+-- Version: 013
+-- Description: 新增汇率表，开启汇率模式后按基准货币价格和汇率推算未单独定价货币的售价
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  base_currency TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  rate REAL NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_pair ON exchange_rates(base_currency, currency);
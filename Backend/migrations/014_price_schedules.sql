@@ -0,0 +1,41 @@
+-- AutoShip Price Schedules Migration
+-- Version: 014
+-- Description: product_prices 新增划线原价和生效时间窗口，支持计划改价和限时促销（每种货币可有多条计划价格，常规价格仍唯一）
+-- Date: 2026-10-19
+
+-- SQLite 无法删除表级 UNIQUE 约束，需要重建 product_prices 表
+PRAGMA foreign_keys = OFF;
+
+BEGIN TRANSACTION;
+
+CREATE TABLE product_prices_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  product_id INTEGER NOT NULL,
+  currency TEXT NOT NULL,
+  price REAL NOT NULL,
+  compare_at_price REAL,
+  is_active INTEGER DEFAULT 1,
+  starts_at DATETIME,
+  ends_at DATETIME,
+  applied_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+);
+
+INSERT INTO product_prices_new (id, product_id, currency, price, is_active, created_at, updated_at)
+SELECT id, product_id, currency, price, is_active, created_at, updated_at FROM product_prices;
+
+DROP TABLE product_prices;
+
+ALTER TABLE product_prices_new RENAME TO product_prices;
+
+CREATE INDEX IF NOT EXISTS idx_product_prices_product ON product_prices(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_prices_currency ON product_prices(currency);
+CREATE INDEX IF NOT EXISTS idx_product_prices_active ON product_prices(is_active);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_prices_unique_currency ON product_prices(product_id, currency) WHERE starts_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_product_prices_schedule ON product_prices(starts_at, ends_at);
+
+COMMIT;
+
+PRAGMA foreign_keys = ON;
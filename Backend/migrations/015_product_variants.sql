@@ -0,0 +1,32 @@
+-- AutoShip Product Variants Migration
+-- Version: 015
+-- Description: 新增商品规格（如月付、年付、永久授权），规格有独立的价格、库存池和发货模板
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  product_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  template_text TEXT,
+  is_active INTEGER DEFAULT 1,
+  sort_order INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON product_variants(product_id, sort_order);
+
+-- 规格价格（variant_id 为空表示商品价格），每个商品规格每种货币只有一个常规价格
+ALTER TABLE product_prices ADD COLUMN variant_id INTEGER REFERENCES product_variants(id) ON DELETE CASCADE;
+DROP INDEX IF EXISTS idx_product_prices_unique_currency;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_prices_unique_currency ON product_prices(product_id, IFNULL(variant_id, 0), currency) WHERE starts_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_product_prices_variant ON product_prices(variant_id);
+
+-- 规格库存池
+ALTER TABLE inventory_text ADD COLUMN variant_id INTEGER REFERENCES product_variants(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_inventory_variant ON inventory_text(variant_id);
+
+-- 订单明细记录购买的规格
+ALTER TABLE order_items ADD COLUMN variant_id INTEGER REFERENCES product_variants(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN variant_name TEXT;
@@ -0,0 +1,21 @@
+-- AutoShip Product Images Migration
+-- Version: 017
+-- Description: 新增商品图片表，原图和缩略图保存在 files 表，按 sort_order 排序，第一张为封面
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS product_images (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  product_id INTEGER NOT NULL,
+  file_id INTEGER NOT NULL,
+  thumbnail_file_id INTEGER NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  alt_text TEXT,
+  sort_order INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+  FOREIGN KEY (file_id) REFERENCES files(id),
+  FOREIGN KEY (thumbnail_file_id) REFERENCES files(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product ON product_images(product_id, sort_order);
@@ -0,0 +1,8 @@
+-- AutoShip Delivery Files Migration
+-- Version: 018
+-- Description: 发货记录关联下载文件（files），按下载令牌查询发货记录
+-- Date: 2026-10-19
+
+ALTER TABLE deliveries ADD COLUMN file_id INTEGER REFERENCES files(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deliveries_download_token ON deliveries(download_token);
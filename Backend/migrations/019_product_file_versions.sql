@@ -0,0 +1,40 @@
+-- AutoShip Product File Versions Migration
+-- Version: 019
+-- Description: 下载类商品文件版本管理和分片上传会话；商品可选择保持购买时的版本或始终下载最新版本
+-- Date: 2026-10-19
+
+ALTER TABLE products ADD COLUMN file_version_policy TEXT NOT NULL DEFAULT 'purchased';
+
+CREATE TABLE IF NOT EXISTS product_file_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  product_id INTEGER NOT NULL,
+  file_id INTEGER NOT NULL,
+  version TEXT NOT NULL,
+  changelog TEXT,
+  is_current INTEGER DEFAULT 0,
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+  FOREIGN KEY (file_id) REFERENCES files(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_file_versions_unique ON product_file_versions(product_id, version);
+CREATE INDEX IF NOT EXISTS idx_product_file_versions_file ON product_file_versions(file_id);
+
+CREATE TABLE IF NOT EXISTS file_uploads (
+  id TEXT PRIMARY KEY,
+  product_id INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  chunk_size INTEGER NOT NULL,
+  total_chunks INTEGER NOT NULL,
+  received_chunks TEXT NOT NULL DEFAULT '[]',
+  version TEXT NOT NULL,
+  changelog TEXT,
+  checksum TEXT,
+  temp_path TEXT NOT NULL,
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+);
@@ -0,0 +1,6 @@
+-- AutoShip File Storage Drivers Migration
+-- Version: 020
+-- Description: 文件记录的存储驱动（本地磁盘或 S3 兼容存储），已有文件位于本地磁盘
+-- Date: 2026-10-19
+
+ALTER TABLE files ADD COLUMN storage_driver TEXT NOT NULL DEFAULT 'local';
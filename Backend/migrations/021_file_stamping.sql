@@ -0,0 +1,14 @@
+-- AutoShip File Stamping Migration
+-- Version: 021
+-- Description: 为每位买家生成带授权标记的文件副本（ZIP 内的授权文件、PDF 元数据），用于追踪泄露的文件
+-- Date: 2026-10-19
+
+ALTER TABLE products ADD COLUMN file_stamping INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE deliveries ADD COLUMN stamp_id TEXT;
+ALTER TABLE deliveries ADD COLUMN stamped_file_id INTEGER REFERENCES files(id) ON DELETE SET NULL;
+ALTER TABLE deliveries ADD COLUMN stamped_at DATETIME;
+
+ALTER TABLE files ADD COLUMN source_file_id INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deliveries_stamp_id ON deliveries(stamp_id);
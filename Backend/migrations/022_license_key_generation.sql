@@ -0,0 +1,11 @@
+-- AutoShip License Key Generation Migration
+-- Version: 022
+-- Description: 商品卡密来源（预置库存、自动生成或库存不足时生成），生成的卡密写入 inventory_text 并关联订单
+-- Date: 2026-10-19
+
+ALTER TABLE products ADD COLUMN key_source TEXT NOT NULL DEFAULT 'pool';
+ALTER TABLE products ADD COLUMN key_generator TEXT;
+ALTER TABLE products ADD COLUMN key_pattern TEXT;
+ALTER TABLE products ADD COLUMN license_valid_days INTEGER;
+
+ALTER TABLE inventory_text ADD COLUMN generator TEXT;
@@ -0,0 +1,12 @@
+-- AutoShip Delivery Order Items Migration
+-- Version: 023
+-- Description: 发货记录关联订单商品，混合发货商品的下载和卡密两条发货记录都能找到对应商品
+-- Date: 2026-10-19
+
+ALTER TABLE deliveries ADD COLUMN order_item_id INTEGER REFERENCES order_items(id) ON DELETE SET NULL;
+
+UPDATE deliveries
+SET order_item_id = (SELECT id FROM order_items WHERE order_items.delivery_id = deliveries.id)
+WHERE order_item_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deliveries_order_item_id ON deliveries(order_item_id);
@@ -0,0 +1,90 @@
+/**
+ * 文件存储迁移脚本
+ * 将 files 表中的有效文件迁移到另一个存储驱动，逐个校验 SHA-256 后更新记录
+ *
+ * 用法：
+ *   npm run storage:migrate -- --to s3 [--from local] [--delete-source] [--dry-run] [--limit 100]
+ */
+
+import 'dotenv/config'
+import { initializeDatabase } from '../src/db'
+import { storageService } from '../src/services/storage-service'
+
+// 颜色输出
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m'
+}
+
+function log(message: string, color: keyof typeof colors = 'reset') {
+  console.log(`${colors[color]}${message}${colors.reset}`)
+}
+
+function parseArgs(argv: string[]) {
+  const valueOf = (name: string) => {
+    const index = argv.indexOf(name)
+    return index >= 0 ? argv[index + 1] : undefined
+  }
+
+  return {
+    from: valueOf('--from'),
+    to: valueOf('--to'),
+    limit: valueOf('--limit') ? Number(valueOf('--limit')) : undefined,
+    deleteSource: argv.includes('--delete-source'),
+    dryRun: argv.includes('--dry-run')
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const drivers = storageService.list().map(driver => driver.name)
+
+  if (!args.to || !drivers.includes(args.to) || (args.from && !drivers.includes(args.from))) {
+    log(`用法: npm run storage:migrate -- --to <${drivers.join('|')}> [--from <driver>] [--delete-source] [--dry-run] [--limit N]`, 'yellow')
+    process.exit(1)
+  }
+
+  log('\n📦 文件存储迁移', 'cyan')
+  log('='.repeat(50), 'cyan')
+
+  if (!(await initializeDatabase())) {
+    log('❌ 数据库初始化失败', 'red')
+    process.exit(1)
+  }
+
+  const result = await storageService.migrateFiles({
+    from: args.from,
+    to: args.to,
+    limit: args.limit,
+    deleteSource: args.deleteSource,
+    dryRun: args.dryRun,
+    onProgress: (file, error) => {
+      if (error) {
+        log(`❌ #${file.id} ${file.filePath}: ${error}`, 'red')
+      } else {
+        log(`✅ #${file.id} ${file.filePath}`, 'green')
+      }
+    }
+  })
+
+  if (args.dryRun) {
+    log(`\n共有 ${result.total} 个文件待迁移到 ${args.to}（试运行，未做任何修改）`, 'yellow')
+    return
+  }
+
+  log(`\n迁移完成: ${result.migrated}/${result.total} 个文件已迁移到 ${args.to}`, result.failed.length ? 'yellow' : 'green')
+  if (result.failed.length > 0) {
+    log(`${result.failed.length} 个文件迁移失败，原文件未改动，可修复后重新运行`, 'red')
+    process.exit(1)
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    log(`❌ 迁移失败: ${error instanceof Error ? error.message : error}`, 'red')
+    process.exit(1)
+  })
@@ -40,6 +40,24 @@ export const PAYMENT_CONFIG = {
     RETRY_COUNT: Number(process.env.PAYMENT_CREEM_RETRY_COUNT) || 3,
     WEBHOOK_URL: `${BASE_URL}/webhooks/creem`,
   },
+  STRIPE: {
+    ENABLED: process.env.PAYMENT_STRIPE_ENABLED === 'true',
+    API_BASE: process.env.PAYMENT_STRIPE_API_BASE || 'https://api.stripe.com',
+    TIMEOUT: Number(process.env.PAYMENT_STRIPE_TIMEOUT) || 30000,
+    WEBHOOK_URL: `${BASE_URL}/webhooks/stripe`,
+  },
+  PAYPAL: {
+    ENABLED: process.env.PAYMENT_PAYPAL_ENABLED === 'true',
+    API_BASE: process.env.PAYMENT_PAYPAL_API_BASE || 'https://api-m.paypal.com',
+    TIMEOUT: Number(process.env.PAYMENT_PAYPAL_TIMEOUT) || 30000,
+    WEBHOOK_URL: `${BASE_URL}/webhooks/paypal`,
+  },
+  WECHAT: {
+    ENABLED: process.env.PAYMENT_WECHAT_ENABLED === 'true',
+    API_BASE: process.env.PAYMENT_WECHAT_API_BASE || 'https://api.mch.weixin.qq.com',
+    TIMEOUT: Number(process.env.PAYMENT_WECHAT_TIMEOUT) || 30000,
+    WEBHOOK_URL: `${BASE_URL}/webhooks/wechat`,
+  },
   COMMON: {
     WEBHOOK_TIMEOUT: Number(process.env.PAYMENT_WEBHOOK_TIMEOUT) || 30,
     AMOUNT_TOLERANCE: Number(process.env.PAYMENT_AMOUNT_TOLERANCE) || 0.01,
@@ -72,4 +90,7 @@ if (process.env.NODE_ENV !== 'test') {
   console.log('   💰 Alipay gateway:', PAYMENT_CONFIG.ALIPAY.GATEWAY_URL)
   console.log('   💳 Creem enabled:', PAYMENT_CONFIG.CREEM.ENABLED)
   console.log('   💳 Creem base URL:', PAYMENT_CONFIG.CREEM.BASE_URL)
+  console.log('   💳 Stripe enabled:', PAYMENT_CONFIG.STRIPE.ENABLED)
+  console.log('   💳 PayPal enabled:', PAYMENT_CONFIG.PAYPAL.ENABLED)
+  console.log('   💰 WeChat Pay enabled:', PAYMENT_CONFIG.WECHAT.ENABLED)
 }
@@ -106,6 +106,13 @@ async function ensureTablesExist() {
 async function checkTablesExist(): Promise<{ allTablesExist: boolean; missingTables: string[] }> {
   const requiredTables = [
     'products',
+    'categories',
+    'tags',
+    'product_tags',
+    'product_images',
+    'product_file_versions',
+    'file_uploads',
+    'product_variants',
     'product_prices',
     'orders',
     'deliveries',
@@ -121,7 +128,22 @@ async function checkTablesExist(): Promise<{ allTablesExist: boolean; missingTab
     'security_tokens',
     'admin_users',
     'admin_sessions',
-    'admin_audit_logs'
+    'admin_audit_logs',
+    'email_logs',
+    'email_templates',
+    'jobs',
+    'refunds',
+    'reconciliation_runs',
+    'reconciliation_items',
+    'settlement_imports',
+    'settlement_discrepancies',
+    'order_items',
+    'coupons',
+    'coupon_redemptions',
+    'tax_rules',
+    'invoices',
+    'invoice_sequences',
+    'exchange_rates'
   ]
 
   const missingTables: string[] = []
@@ -156,8 +178,70 @@ async function createAllTables() {
       delivery_type TEXT NOT NULL DEFAULT 'text',
       is_active INTEGER DEFAULT 1,
       sort_order INTEGER DEFAULT 0,
+      min_quantity INTEGER NOT NULL DEFAULT 1,
+      max_quantity INTEGER,
+      tax_category TEXT NOT NULL DEFAULT 'standard',
+      category_id INTEGER,
+      file_version_policy TEXT NOT NULL DEFAULT 'purchased',
+      file_stamping INTEGER NOT NULL DEFAULT 0,
+      key_source TEXT NOT NULL DEFAULT 'pool',
+      key_generator TEXT,
+      key_pattern TEXT,
+      license_valid_days INTEGER,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL
+    );
+  `)
+
+  // Categories 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS categories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      parent_id INTEGER,
+      name TEXT NOT NULL,
+      description TEXT,
+      is_active INTEGER DEFAULT 1,
+      sort_order INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (parent_id) REFERENCES categories(id)
+    );
+  `)
+
+  // Tags 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `)
+
+  // Product Tags 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS product_tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      product_id INTEGER NOT NULL,
+      tag_id INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+      FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+    );
+  `)
+
+  // Product Variants 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS product_variants (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      product_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      template_text TEXT,
+      is_active INTEGER DEFAULT 1,
+      sort_order INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
     );
   `)
 
@@ -166,13 +250,18 @@ async function createAllTables() {
     CREATE TABLE IF NOT EXISTS product_prices (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       product_id INTEGER NOT NULL,
+      variant_id INTEGER,
       currency TEXT NOT NULL,
       price REAL NOT NULL,
+      compare_at_price REAL,
       is_active INTEGER DEFAULT 1,
+      starts_at DATETIME,
+      ends_at DATETIME,
+      applied_at DATETIME,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
-      UNIQUE(product_id, currency)
+      FOREIGN KEY (variant_id) REFERENCES product_variants(id) ON DELETE CASCADE
     );
   `)
 
@@ -185,6 +274,11 @@ async function createAllTables() {
       gateway TEXT NOT NULL,
       amount REAL NOT NULL,
       currency TEXT NOT NULL,
+      net_amount REAL,
+      tax_amount REAL,
+      tax_country TEXT,
+      buyer_company TEXT,
+      buyer_tax_id TEXT,
       status TEXT NOT NULL DEFAULT 'pending',
       gateway_order_id TEXT,
       gateway_data TEXT,
@@ -205,6 +299,7 @@ async function createAllTables() {
     CREATE TABLE IF NOT EXISTS deliveries (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       order_id TEXT NOT NULL,
+      order_item_id INTEGER,
       delivery_type TEXT NOT NULL,
       content TEXT,
       download_url TEXT,
@@ -214,10 +309,17 @@ async function createAllTables() {
       max_downloads INTEGER DEFAULT 3,
       file_size INTEGER,
       file_name TEXT,
+      file_id INTEGER,
+      stamp_id TEXT,
+      stamped_file_id INTEGER,
+      stamped_at DATETIME,
       is_active INTEGER DEFAULT 1,
       delivery_method TEXT DEFAULT 'email',
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+      FOREIGN KEY (order_item_id) REFERENCES order_items(id) ON DELETE SET NULL,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE SET NULL,
+      FOREIGN KEY (stamped_file_id) REFERENCES files(id) ON DELETE SET NULL
     );
   `)
 
@@ -260,6 +362,7 @@ async function createAllTables() {
     CREATE TABLE IF NOT EXISTS inventory_text (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       product_id INTEGER NOT NULL,
+      variant_id INTEGER,
       content TEXT NOT NULL,
       batch_name TEXT,
       priority INTEGER DEFAULT 0,
@@ -268,9 +371,11 @@ async function createAllTables() {
       used_at DATETIME,
       expires_at DATETIME,
       metadata TEXT,
+      generator TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       created_by TEXT,
       FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+      FOREIGN KEY (variant_id) REFERENCES product_variants(id) ON DELETE CASCADE,
       FOREIGN KEY (used_order_id) REFERENCES orders(id)
     );
   `)
@@ -316,12 +421,69 @@ async function createAllTables() {
       file_size INTEGER NOT NULL,
       mime_type TEXT,
       checksum TEXT,
+      storage_driver TEXT NOT NULL DEFAULT 'local',
+      source_file_id INTEGER,
       is_active INTEGER DEFAULT 1,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       created_by TEXT
     );
   `)
 
+  // Product Images 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS product_images (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      product_id INTEGER NOT NULL,
+      file_id INTEGER NOT NULL,
+      thumbnail_file_id INTEGER NOT NULL,
+      width INTEGER NOT NULL,
+      height INTEGER NOT NULL,
+      alt_text TEXT,
+      sort_order INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+      FOREIGN KEY (file_id) REFERENCES files(id),
+      FOREIGN KEY (thumbnail_file_id) REFERENCES files(id)
+    );
+  `)
+
+  // Product File Versions 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS product_file_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      product_id INTEGER NOT NULL,
+      file_id INTEGER NOT NULL,
+      version TEXT NOT NULL,
+      changelog TEXT,
+      is_current INTEGER DEFAULT 0,
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+      FOREIGN KEY (file_id) REFERENCES files(id)
+    );
+  `)
+
+  // File Uploads 表（分片上传会话）
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS file_uploads (
+      id TEXT PRIMARY KEY,
+      product_id INTEGER NOT NULL,
+      file_name TEXT NOT NULL,
+      file_size INTEGER NOT NULL,
+      chunk_size INTEGER NOT NULL,
+      total_chunks INTEGER NOT NULL,
+      received_chunks TEXT NOT NULL DEFAULT '[]',
+      version TEXT NOT NULL,
+      changelog TEXT,
+      checksum TEXT,
+      temp_path TEXT NOT NULL,
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL,
+      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+    );
+  `)
+
   // Config 表
   await client.execute(`
     CREATE TABLE IF NOT EXISTS config (
@@ -478,6 +640,276 @@ async function createAllTables() {
     );
   `)
 
+  // Email Logs 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS email_logs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      order_id TEXT,
+      email_type TEXT NOT NULL,
+      recipient TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      transport TEXT NOT NULL,
+      status TEXT NOT NULL,
+      message_id TEXT,
+      error_message TEXT,
+      triggered_by TEXT DEFAULT 'system',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL
+    );
+  `)
+
+  // Email Templates 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS email_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      product_id INTEGER,
+      email_type TEXT NOT NULL DEFAULT 'delivery',
+      subject TEXT NOT NULL,
+      html_body TEXT NOT NULL,
+      is_active INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_by TEXT,
+      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+    );
+  `)
+
+  // Jobs 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_type TEXT NOT NULL,
+      order_id TEXT,
+      idempotency_key TEXT NOT NULL UNIQUE,
+      payload TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 5,
+      run_at DATETIME NOT NULL,
+      locked_at DATETIME,
+      locked_by TEXT,
+      last_error TEXT,
+      completed_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE SET NULL
+    );
+  `)
+
+  // Refunds 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS refunds (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      refund_no TEXT NOT NULL UNIQUE,
+      order_id TEXT NOT NULL,
+      gateway TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL,
+      reason TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      gateway_refund_id TEXT,
+      error_message TEXT,
+      requested_by TEXT,
+      completed_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+    );
+  `)
+
+  // Reconciliation 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS reconciliation_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      status TEXT NOT NULL DEFAULT 'running',
+      triggered_by TEXT NOT NULL,
+      checked_count INTEGER NOT NULL DEFAULT 0,
+      matched_count INTEGER NOT NULL DEFAULT 0,
+      recovered_count INTEGER NOT NULL DEFAULT 0,
+      mismatched_count INTEGER NOT NULL DEFAULT 0,
+      error_count INTEGER NOT NULL DEFAULT 0,
+      error_message TEXT,
+      started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      finished_at DATETIME
+    );
+  `)
+
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS reconciliation_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      order_id TEXT NOT NULL,
+      gateway TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      local_status TEXT NOT NULL,
+      gateway_status TEXT,
+      local_amount REAL NOT NULL,
+      gateway_amount REAL,
+      currency TEXT NOT NULL,
+      message TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (run_id) REFERENCES reconciliation_runs(id) ON DELETE CASCADE
+    );
+  `)
+
+  // Settlement 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS settlement_imports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      gateway TEXT NOT NULL,
+      file_name TEXT NOT NULL,
+      line_count INTEGER NOT NULL DEFAULT 0,
+      matched_count INTEGER NOT NULL DEFAULT 0,
+      discrepancy_count INTEGER NOT NULL DEFAULT 0,
+      payment_amount REAL NOT NULL DEFAULT 0,
+      refund_amount REAL NOT NULL DEFAULT 0,
+      imported_by TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `)
+
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS settlement_discrepancies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      import_id INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      line_no INTEGER NOT NULL,
+      gateway_order_id TEXT,
+      transaction_id TEXT,
+      order_id TEXT,
+      local_amount REAL,
+      settled_amount REAL NOT NULL,
+      currency TEXT,
+      message TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (import_id) REFERENCES settlement_imports(id) ON DELETE CASCADE
+    );
+  `)
+
+  // Order Items 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS order_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      order_id TEXT NOT NULL,
+      product_id INTEGER NOT NULL,
+      product_name TEXT NOT NULL,
+      variant_id INTEGER,
+      variant_name TEXT,
+      quantity INTEGER NOT NULL DEFAULT 1,
+      unit_price REAL NOT NULL,
+      currency TEXT NOT NULL,
+      tax_rate REAL NOT NULL DEFAULT 0,
+      tax_amount REAL NOT NULL DEFAULT 0,
+      delivery_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+      FOREIGN KEY (product_id) REFERENCES products(id),
+      FOREIGN KEY (variant_id) REFERENCES product_variants(id) ON DELETE SET NULL,
+      FOREIGN KEY (delivery_id) REFERENCES deliveries(id) ON DELETE SET NULL
+    );
+  `)
+
+  // Coupons 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS coupons (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      code TEXT NOT NULL UNIQUE,
+      description TEXT,
+      discount_type TEXT NOT NULL,
+      percent_off REAL,
+      amounts TEXT,
+      product_ids TEXT,
+      max_redemptions INTEGER,
+      max_redemptions_per_email INTEGER,
+      stackable INTEGER NOT NULL DEFAULT 0,
+      starts_at DATETIME,
+      expires_at DATETIME,
+      is_active INTEGER NOT NULL DEFAULT 1,
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `)
+
+  // Coupon Redemptions 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS coupon_redemptions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      coupon_id INTEGER NOT NULL,
+      order_id TEXT NOT NULL,
+      code TEXT NOT NULL,
+      email TEXT NOT NULL,
+      currency TEXT NOT NULL,
+      discount_amount REAL NOT NULL,
+      status TEXT NOT NULL DEFAULT 'applied',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      released_at DATETIME,
+      FOREIGN KEY (coupon_id) REFERENCES coupons(id),
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+    );
+  `)
+
+  // Tax Rules 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS tax_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      country TEXT NOT NULL,
+      tax_category TEXT,
+      name TEXT NOT NULL DEFAULT 'VAT',
+      rate REAL NOT NULL,
+      is_active INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `)
+
+  // Invoices 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS invoices (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      invoice_number TEXT NOT NULL UNIQUE,
+      type TEXT NOT NULL DEFAULT 'invoice',
+      order_id TEXT NOT NULL,
+      refund_id INTEGER,
+      original_invoice_id INTEGER,
+      file_id INTEGER,
+      buyer_email TEXT NOT NULL,
+      buyer_company TEXT,
+      buyer_tax_id TEXT,
+      currency TEXT NOT NULL,
+      net_amount REAL NOT NULL,
+      tax_amount REAL NOT NULL,
+      total_amount REAL NOT NULL,
+      issued_at DATETIME NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders(id),
+      FOREIGN KEY (refund_id) REFERENCES refunds(id),
+      FOREIGN KEY (file_id) REFERENCES files(id)
+    );
+  `)
+
+  // Invoice Sequences 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS invoice_sequences (
+      series TEXT PRIMARY KEY,
+      last_number INTEGER NOT NULL DEFAULT 0,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `)
+
+  // Exchange Rates 表
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      base_currency TEXT NOT NULL,
+      currency TEXT NOT NULL,
+      rate REAL NOT NULL,
+      source TEXT NOT NULL DEFAULT 'manual',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `)
+
   // 创建索引（用于性能优化）
   await createIndexes()
 }
@@ -503,21 +935,70 @@ async function createIndexes() {
     CREATE INDEX IF NOT EXISTS idx_products_sort_order ON products(sort_order);
   `)
 
+  // 商品分类筛选和按上架时间排序
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_products_category ON products(category_id, sort_order);
+  `)
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_products_created_at ON products(created_at);
+  `)
+
+  // Categories / Product Tags 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_categories_parent ON categories(parent_id, sort_order);
+  `)
+  await client.execute(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_product_tags_unique ON product_tags(product_id, tag_id);
+  `)
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_product_tags_tag ON product_tags(tag_id, product_id);
+  `)
+
+  // Product Images 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_product_images_product ON product_images(product_id, sort_order);
+  `)
+
+  // Product File Versions 索引
+  await client.execute(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_product_file_versions_unique ON product_file_versions(product_id, version);
+  `)
+
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_product_file_versions_file ON product_file_versions(file_id);
+  `)
+
+  // Product Variants 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_product_variants_product ON product_variants(product_id, sort_order);
+  `)
+
   // Product Prices 索引
   await client.execute(`
     CREATE INDEX IF NOT EXISTS idx_product_prices_product ON product_prices(product_id);
     CREATE INDEX IF NOT EXISTS idx_product_prices_currency ON product_prices(currency);
     CREATE INDEX IF NOT EXISTS idx_product_prices_active ON product_prices(is_active);
-    CREATE UNIQUE INDEX IF NOT EXISTS idx_product_prices_unique_currency ON product_prices(product_id, currency);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_product_prices_unique_currency ON product_prices(product_id, IFNULL(variant_id, 0), currency) WHERE starts_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_product_prices_variant ON product_prices(variant_id);
+    CREATE INDEX IF NOT EXISTS idx_product_prices_schedule ON product_prices(starts_at, ends_at);
   `)
 
   // Deliveries 索引
   await client.execute(`
     CREATE INDEX IF NOT EXISTS idx_deliveries_order_id ON deliveries(order_id);
+    CREATE INDEX IF NOT EXISTS idx_deliveries_order_item_id ON deliveries(order_item_id);
     CREATE INDEX IF NOT EXISTS idx_deliveries_type ON deliveries(delivery_type);
     CREATE INDEX IF NOT EXISTS idx_deliveries_active ON deliveries(is_active);
   `)
 
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_deliveries_download_token ON deliveries(download_token);
+  `)
+
+  await client.execute(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_deliveries_stamp_id ON deliveries(stamp_id);
+  `)
+
   // Downloads 索引
   await client.execute(`
     CREATE INDEX IF NOT EXISTS idx_downloads_delivery_id ON downloads(delivery_id);
@@ -528,6 +1009,7 @@ async function createIndexes() {
   // Inventory 索引
   await client.execute(`
     CREATE INDEX IF NOT EXISTS idx_inventory_product ON inventory_text(product_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_variant ON inventory_text(variant_id);
     CREATE INDEX IF NOT EXISTS idx_inventory_used ON inventory_text(is_used);
     CREATE INDEX IF NOT EXISTS idx_inventory_order ON inventory_text(used_order_id);
   `)
@@ -570,6 +1052,75 @@ async function createIndexes() {
     CREATE INDEX IF NOT EXISTS idx_admin_audit_created_at ON admin_audit_logs(created_at);
   `)
 
+  // Email Logs 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_email_logs_order_id ON email_logs(order_id);
+    CREATE INDEX IF NOT EXISTS idx_email_logs_status ON email_logs(status);
+    CREATE INDEX IF NOT EXISTS idx_email_logs_created_at ON email_logs(created_at);
+  `)
+
+  // Email Templates 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_email_templates_product_type ON email_templates(product_id, email_type);
+  `)
+
+  // Jobs 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+    CREATE INDEX IF NOT EXISTS idx_jobs_order_id ON jobs(order_id);
+    CREATE INDEX IF NOT EXISTS idx_jobs_job_type ON jobs(job_type);
+  `)
+
+  // Refunds 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+    CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status);
+  `)
+
+  // Reconciliation 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started_at ON reconciliation_runs(started_at);
+    CREATE INDEX IF NOT EXISTS idx_reconciliation_items_run_id ON reconciliation_items(run_id);
+    CREATE INDEX IF NOT EXISTS idx_reconciliation_items_order_id ON reconciliation_items(order_id);
+  `)
+
+  // Settlement 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_settlement_imports_created_at ON settlement_imports(created_at);
+    CREATE INDEX IF NOT EXISTS idx_settlement_discrepancies_import_id ON settlement_discrepancies(import_id);
+  `)
+
+  // Order Items 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+    CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON order_items(product_id);
+  `)
+
+  // Coupon Redemptions 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_status ON coupon_redemptions(coupon_id, status);
+    CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_order_id ON coupon_redemptions(order_id);
+    CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_email ON coupon_redemptions(email);
+  `)
+
+  // Tax Rules 索引
+  await client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_tax_rules_country_category ON tax_rules(country, tax_category);
+  `)
+
+  // Invoices 索引（每个订单只有一张发票，每笔退款只有一张红字发票）
+  await client.execute(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_invoice ON invoices(order_id) WHERE type = 'invoice';
+  `)
+  await client.execute(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_refund_id ON invoices(refund_id) WHERE refund_id IS NOT NULL;
+  `)
+
+  // Exchange Rates 索引（每对货币只有一条汇率）
+  await client.execute(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_pair ON exchange_rates(base_currency, currency);
+  `)
+
   console.log('✅ All indexes created successfully')
 }
 
@@ -980,12 +1531,13 @@ export class AdminAuditLogRepository extends BaseRepository<typeof schema.adminA
 
 // 保持原有的initDatabase函数以向后兼容
 export function initDatabase() {
-  initializeDatabase().then(success => {
+  return initializeDatabase().then(success => {
     if (success) {
       console.log('Database initialized successfully')
     } else {
       console.error('Database initialization failed')
     }
+    return success
   })
 }
 
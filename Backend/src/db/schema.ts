@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, integer, real, uniqueIndex, type AnySQLiteColumn } from 'drizzle-orm/sqlite-core'
 import { sql } from 'drizzle-orm'
 
 // Products - 商品信息表
@@ -10,6 +10,100 @@ export const products = sqliteTable('products', {
   deliveryType: text('delivery_type').notNull().default('text'), // text, download, hybrid
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
   sortOrder: integer('sort_order').default(0), // 排序字段
+  minQuantity: integer('min_quantity').notNull().default(1), // 单次最少购买数量
+  maxQuantity: integer('max_quantity'), // 单次最多购买数量（为空表示不限）
+  taxCategory: text('tax_category').notNull().default('standard'), // 税务分类（对应 tax_rules.tax_category）
+  categoryId: integer('category_id').references(() => categories.id, { onDelete: 'set null' }), // 商品分类
+  fileVersionPolicy: text('file_version_policy').notNull().default('purchased'), // 下载文件版本策略：purchased（购买时的版本）, latest（最新版本）
+  fileStamping: integer('file_stamping', { mode: 'boolean' }).notNull().default(false), // 是否为每位买家生成带授权信息的文件副本
+  keySource: text('key_source').notNull().default('pool'), // 卡密来源：pool（预置库存）, generator（自动生成）, pool_then_generator（库存不足时生成）
+  keyGenerator: text('key_generator'), // 卡密生成算法：uuid, pattern, signed_license
+  keyPattern: text('key_pattern'), // pattern 生成算法的格式，如 XXXX-XXXX-XXXX
+  licenseValidDays: integer('license_valid_days'), // 签名授权文件的有效天数（为空表示永久有效）
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+// Categories - 商品分类（parent_id 为空表示顶级分类）
+export const categories = sqliteTable('categories', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  parentId: integer('parent_id').references((): AnySQLiteColumn => categories.id),
+  name: text('name').notNull(),
+  description: text('description'),
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  sortOrder: integer('sort_order').default(0),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+// Tags - 商品标签
+export const tags = sqliteTable('tags', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+// Product tags - 商品与标签的关联
+export const productTags = sqliteTable('product_tags', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  tagId: integer('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+// Product images - 商品图片（原图和缩略图保存在 files 表，按 sort_order 排序，第一张为封面）
+export const productImages = sqliteTable('product_images', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  fileId: integer('file_id').notNull().references(() => files.id), // 原图
+  thumbnailFileId: integer('thumbnail_file_id').notNull().references(() => files.id), // 缩略图
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  altText: text('alt_text'), // 图片说明
+  sortOrder: integer('sort_order').default(0),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+// Product file versions - 下载类商品的文件版本（is_current 为当前发货版本）
+export const productFileVersions = sqliteTable('product_file_versions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  fileId: integer('file_id').notNull().references(() => files.id),
+  version: text('version').notNull(), // 版本号，如 1.2.0
+  changelog: text('changelog'), // 更新说明
+  isCurrent: integer('is_current', { mode: 'boolean' }).default(false), // 是否为当前发货版本
+  createdBy: text('created_by'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  productVersionUnique: uniqueIndex('idx_product_file_versions_unique').on(table.productId, table.version),
+}))
+
+// File uploads - 分片上传会话（全部分片上传完成后合并为商品文件版本）
+export const fileUploads = sqliteTable('file_uploads', {
+  id: text('id').primaryKey(), // 上传ID（UUID）
+  productId: integer('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  fileName: text('file_name').notNull(), // 原始文件名
+  fileSize: integer('file_size').notNull(), // 文件总大小（字节）
+  chunkSize: integer('chunk_size').notNull(), // 分片大小（字节）
+  totalChunks: integer('total_chunks').notNull(),
+  receivedChunks: text('received_chunks').notNull().default('[]'), // 已接收的分片序号（JSON数组）
+  version: text('version').notNull(),
+  changelog: text('changelog'),
+  checksum: text('checksum'), // 客户端提供的 SHA-256（合并后校验）
+  tempPath: text('temp_path').notNull(), // 临时文件路径
+  createdBy: text('created_by'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  expiresAt: text('expires_at').notNull(), // 过期后清理临时文件
+})
+
+// Product variants - 商品规格（如月付、年付、永久授权），各规格有独立的价格和库存
+export const productVariants = sqliteTable('product_variants', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // 规格名称，如「1个月」「永久」
+  templateText: text('template_text'), // 规格发货模板（为空时使用商品模板）
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  sortOrder: integer('sort_order').default(0),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
 })
@@ -18,14 +112,21 @@ export const products = sqliteTable('products', {
 export const productPrices = sqliteTable('product_prices', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   productId: integer('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: integer('variant_id').references(() => productVariants.id, { onDelete: 'cascade' }), // 规格价格（为空表示商品价格）
   currency: text('currency').notNull(), // CNY, USD, EUR, JPY
   price: real('price').notNull(),
+  compareAtPrice: real('compare_at_price'), // 划线原价（为空时促销期间以常规价格作为原价）
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  startsAt: text('starts_at'), // 计划价格生效时间，为空表示常规价格
+  endsAt: text('ends_at'), // 促销结束时间，为空表示到期后永久改价
+  appliedAt: text('applied_at'), // 计划价格被调度器应用的时间
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
 }, (table) => ({
-  // 确保每个商品每种货币只有一个价格
-  uniqueProductCurrency: uniqueIndex('unique_product_currency').on(table.productId, table.currency),
+  // 确保每个商品（规格）每种货币只有一个常规价格（计划价格不受限制）
+  uniqueProductCurrency: uniqueIndex('unique_product_currency')
+    .on(table.productId, sql`IFNULL(${table.variantId}, 0)`, table.currency)
+    .where(sql`starts_at IS NULL`),
 }))
 
 // Orders - 订单记录表
@@ -34,8 +135,13 @@ export const orders = sqliteTable('orders', {
   productId: integer('product_id').notNull().references(() => products.id),
   email: text('email').notNull(),
   gateway: text('gateway').notNull(), // alipay, creem, stripe
-  amount: real('amount').notNull(),
+  amount: real('amount').notNull(), // 应付金额（含税）
   currency: text('currency').notNull(), // CNY, USD, EUR, JPY
+  netAmount: real('net_amount'), // 税前金额（已扣除优惠）
+  taxAmount: real('tax_amount'), // 税额
+  taxCountry: text('tax_country'), // 计税的买家国家（ISO 3166-1 二位代码）
+  buyerCompany: text('buyer_company'), // 发票抬头（公司名称）
+  buyerTaxId: text('buyer_tax_id'), // 买家税号
   status: text('status').notNull().default('pending'), // pending, paid, refunded, failed, cancelled, delivered
   gatewayOrderId: text('gateway_order_id'), // 第三方支付订单ID
   gatewayData: text('gateway_data'), // 支付网关返回的额外数据（JSON格式）
@@ -62,6 +168,7 @@ export const orders = sqliteTable('orders', {
 export const deliveries = sqliteTable('deliveries', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  orderItemId: integer('order_item_id'), // 对应的订单商品（混合发货的商品有下载和卡密两条发货记录）
   deliveryType: text('delivery_type').notNull(), // text, download, hybrid
   content: text('content'), // 文本内容（卡密、许可证等）
   downloadUrl: text('download_url'), // 完整的下载URL
@@ -71,6 +178,10 @@ export const deliveries = sqliteTable('deliveries', {
   maxDownloads: integer('max_downloads').default(3), // 最大下载次数
   fileSize: integer('file_size'), // 文件大小（字节）
   fileName: text('file_name'), // 文件名
+  fileId: integer('file_id').references(() => files.id, { onDelete: 'set null' }), // 下载的文件
+  stampId: text('stamp_id'), // 文件授权标记（首次下载时生成，用于追踪泄露的文件）
+  stampedFileId: integer('stamped_file_id').references(() => files.id, { onDelete: 'set null' }), // 带授权标记的文件副本
+  stampedAt: text('stamped_at'), // 生成副本的时间
   isActive: integer('is_active', { mode: 'boolean' }).default(true), // 是否有效（退款后会失效）
   deliveryMethod: text('delivery_method').default('email'), // email, api, manual
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
@@ -117,6 +228,7 @@ export const paymentsRaw = sqliteTable('payments_raw', {
 export const inventoryText = sqliteTable('inventory_text', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   productId: integer('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: integer('variant_id').references(() => productVariants.id, { onDelete: 'cascade' }), // 所属规格的库存池
   content: text('content').notNull(),
   batchName: text('batch_name'), // 批次名称（用于库存管理）
   priority: integer('priority').default(0), // 优先级，数字越大优先级越高
@@ -125,6 +237,7 @@ export const inventoryText = sqliteTable('inventory_text', {
   usedAt: text('used_at'), // 使用时间
   expiresAt: text('expires_at'), // 过期时间
   metadata: text('metadata'), // 额外元数据（JSON格式）
+  generator: text('generator'), // 自动生成的卡密使用的算法（预置库存为空）
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   createdBy: text('created_by'), // 创建者
 })
@@ -165,6 +278,8 @@ export const files = sqliteTable('files', {
   fileSize: integer('file_size').notNull(), // 文件大小（字节）
   mimeType: text('mime_type'), // MIME类型
   checksum: text('checksum'), // 文件校验和
+  storageDriver: text('storage_driver').notNull().default('local'), // 存储驱动：local, s3
+  sourceFileId: integer('source_file_id'), // 带授权标记的副本对应的原文件
   isActive: integer('is_active', { mode: 'boolean' }).default(true), // 是否有效
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   createdBy: text('created_by'), // 创建者
@@ -278,6 +393,20 @@ export const securityTokens = sqliteTable('security_tokens', {
 // Types - TypeScript 类型定义
 export type Product = typeof products.$inferSelect
 export type NewProduct = typeof products.$inferInsert
+export type Category = typeof categories.$inferSelect
+export type NewCategory = typeof categories.$inferInsert
+export type Tag = typeof tags.$inferSelect
+export type NewTag = typeof tags.$inferInsert
+export type ProductTag = typeof productTags.$inferSelect
+export type NewProductTag = typeof productTags.$inferInsert
+export type ProductImage = typeof productImages.$inferSelect
+export type NewProductImage = typeof productImages.$inferInsert
+export type ProductFileVersion = typeof productFileVersions.$inferSelect
+export type NewProductFileVersion = typeof productFileVersions.$inferInsert
+export type FileUpload = typeof fileUploads.$inferSelect
+export type NewFileUpload = typeof fileUploads.$inferInsert
+export type ProductVariant = typeof productVariants.$inferSelect
+export type NewProductVariant = typeof productVariants.$inferInsert
 export type ProductPrice = typeof productPrices.$inferSelect
 export type NewProductPrice = typeof productPrices.$inferInsert
 export type Order = typeof orders.$inferSelect
@@ -312,6 +441,23 @@ export const DeliveryType = {
   HYBRID: 'hybrid',
 } as const
 
+export const FileVersionPolicy = {
+  PURCHASED: 'purchased', // 保持购买时的版本
+  LATEST: 'latest', // 始终下载当前版本
+} as const
+
+export const KeySource = {
+  POOL: 'pool', // 只从预置库存分配
+  GENERATOR: 'generator', // 始终自动生成
+  POOL_THEN_GENERATOR: 'pool_then_generator', // 优先分配库存，库存不足时自动生成
+} as const
+
+export const KeyGenerator = {
+  UUID: 'uuid', // UUID v4
+  PATTERN: 'pattern', // 按格式生成，如 XXXX-XXXX-XXXX
+  SIGNED_LICENSE: 'signed_license', // Ed25519 签名的离线授权文件
+} as const
+
 export const OrderStatus = {
   PENDING: 'pending',
   PAID: 'paid',
@@ -325,6 +471,8 @@ export const Gateway = {
   ALIPAY: 'alipay',
   CREEM: 'creem',
   STRIPE: 'stripe',
+  PAYPAL: 'paypal',
+  WECHAT: 'wechat',
 } as const
 
 export const Currency = {
@@ -527,6 +675,40 @@ export const AdminEventType = {
   PRODUCT_DELETE: 'product_delete',
   ORDER_RESEND: 'order_resend',
   ORDER_REFUND: 'order_refund',
+  EMAIL_TEMPLATE_UPDATE: 'email_template_update',
+  JOB_RETRY: 'job_retry',
+  JOB_CANCEL: 'job_cancel',
+  GATEWAY_CONFIG_UPDATE: 'gateway_config_update',
+  RECONCILIATION_RUN: 'reconciliation_run',
+  SETTLEMENT_IMPORT: 'settlement_import',
+  COUPON_CREATE: 'coupon_create',
+  COUPON_UPDATE: 'coupon_update',
+  COUPON_DELETE: 'coupon_delete',
+  TAX_RULE_CREATE: 'tax_rule_create',
+  TAX_RULE_UPDATE: 'tax_rule_update',
+  TAX_RULE_DELETE: 'tax_rule_delete',
+  EXCHANGE_RATE_UPDATE: 'exchange_rate_update',
+  EXCHANGE_RATE_DELETE: 'exchange_rate_delete',
+  EXCHANGE_RATE_IMPORT: 'exchange_rate_import',
+  FX_SETTINGS_UPDATE: 'fx_settings_update',
+  PRICE_SCHEDULE_CREATE: 'price_schedule_create',
+  PRICE_SCHEDULE_CANCEL: 'price_schedule_cancel',
+  PRODUCT_VARIANT_CREATE: 'product_variant_create',
+  PRODUCT_VARIANT_UPDATE: 'product_variant_update',
+  PRODUCT_VARIANT_DELETE: 'product_variant_delete',
+  CATEGORY_CREATE: 'category_create',
+  CATEGORY_UPDATE: 'category_update',
+  CATEGORY_DELETE: 'category_delete',
+  TAG_CREATE: 'tag_create',
+  TAG_DELETE: 'tag_delete',
+  PRODUCT_IMAGE_UPLOAD: 'product_image_upload',
+  PRODUCT_IMAGE_UPDATE: 'product_image_update',
+  PRODUCT_IMAGE_DELETE: 'product_image_delete',
+  PRODUCT_FILE_UPLOAD: 'product_file_upload',
+  PRODUCT_FILE_UPDATE: 'product_file_update',
+  PRODUCT_FILE_DELETE: 'product_file_delete',
+  FILE_TRACE: 'file_trace',
+  KEY_SOURCE_UPDATE: 'key_source_update',
 } as const
 
 export const AdminEventCategory = {
@@ -537,4 +719,355 @@ export const AdminEventCategory = {
   ORDER_MANAGEMENT: 'order_management',
   INVENTORY_MANAGEMENT: 'inventory_management',
   SYSTEM_CONFIG: 'system_config',
-} as const
\ No newline at end of file
+} as const
+// Email logs - 邮件发送记录表（每次发送尝试一条记录）
+export const emailLogs = sqliteTable('email_logs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: text('order_id').references(() => orders.id, { onDelete: 'set null' }), // 关联订单ID
+  emailType: text('email_type').notNull(), // delivery, failure, refund
+  recipient: text('recipient').notNull(), // 收件人
+  subject: text('subject').notNull(), // 邮件主题
+  transport: text('transport').notNull(), // resend, smtp, file
+  status: text('status').notNull(), // sent, failed
+  messageId: text('message_id'), // 发送通道返回的消息ID
+  errorMessage: text('error_message'), // 失败原因
+  triggeredBy: text('triggered_by').default('system'), // system, webhook, admin:<username>
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type EmailLog = typeof emailLogs.$inferSelect
+export type NewEmailLog = typeof emailLogs.$inferInsert
+
+export const EmailType = {
+  DELIVERY: 'delivery',
+  FAILURE: 'failure',
+  REFUND: 'refund',
+} as const
+
+export const EmailTransportType = {
+  RESEND: 'resend',
+  SMTP: 'smtp',
+  FILE: 'file',
+} as const
+
+export const EmailStatus = {
+  SENT: 'sent',
+  FAILED: 'failed',
+} as const
+
+// Email templates - 邮件模板表（product_id 为空表示默认模板）
+export const emailTemplates = sqliteTable('email_templates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  productId: integer('product_id').references(() => products.id, { onDelete: 'cascade' }), // 为空表示默认模板
+  emailType: text('email_type').notNull().default('delivery'), // delivery, failure, refund
+  subject: text('subject').notNull(), // 邮件主题（支持变量）
+  htmlBody: text('html_body').notNull(), // HTML正文（支持变量）
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedBy: text('updated_by'), // 更新者
+})
+
+export type EmailTemplate = typeof emailTemplates.$inferSelect
+export type NewEmailTemplate = typeof emailTemplates.$inferInsert
+
+// Jobs - 持久化任务队列（发货、邮件、外部通知等异步任务）
+export const jobs = sqliteTable('jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  jobType: text('job_type').notNull(), // order.deliver, email.delivery, email.failure, email.refund, notification.order_event
+  orderId: text('order_id').references(() => orders.id, { onDelete: 'set null' }), // 关联订单ID
+  idempotencyKey: text('idempotency_key').notNull().unique(), // 幂等键（订单ID + 动作）
+  payload: text('payload'), // JSON 任务参数
+  status: text('status').notNull().default('pending'), // pending, running, succeeded, dead, cancelled
+  attempts: integer('attempts').notNull().default(0), // 已执行次数
+  maxAttempts: integer('max_attempts').notNull().default(5), // 最大执行次数，超过后进入死信状态
+  runAt: text('run_at').notNull(), // 下次可执行时间
+  lockedAt: text('locked_at'), // 被 worker 领取的时间
+  lockedBy: text('locked_by'), // 领取任务的 worker 标识
+  lastError: text('last_error'), // 最近一次失败原因
+  completedAt: text('completed_at'), // 完成时间
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type Job = typeof jobs.$inferSelect
+export type NewJob = typeof jobs.$inferInsert
+
+export const JobType = {
+  ORDER_DELIVER: 'order.deliver',
+  EMAIL_DELIVERY: 'email.delivery',
+  EMAIL_FAILURE: 'email.failure',
+  EMAIL_REFUND: 'email.refund',
+  ORDER_NOTIFICATION: 'notification.order_event',
+  INVOICE_ISSUE: 'invoice.issue',
+  INVOICE_CREDIT_NOTE: 'invoice.credit_note',
+  REFUND_FINALIZE: 'refund.finalize',
+} as const
+
+export const JobStatus = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  SUCCEEDED: 'succeeded',
+  DEAD: 'dead',
+  CANCELLED: 'cancelled',
+} as const
+
+// Refunds - 退款记录表（支持部分退款，每次退款请求一条记录）
+export const refunds = sqliteTable('refunds', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  refundNo: text('refund_no').notNull().unique(), // 退款请求号（传给网关作为幂等键，如支付宝 out_request_no）
+  orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }), // 关联订单ID
+  gateway: text('gateway').notNull(), // 支付网关
+  amount: real('amount').notNull(), // 退款金额
+  currency: text('currency').notNull(), // 货币
+  reason: text('reason'), // 退款原因
+  status: text('status').notNull().default('pending'), // pending, succeeded, failed
+  gatewayRefundId: text('gateway_refund_id'), // 网关退款单号
+  errorMessage: text('error_message'), // 失败原因
+  requestedBy: text('requested_by'), // 发起退款的管理员
+  completedAt: text('completed_at'), // 退款完成时间
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type Refund = typeof refunds.$inferSelect
+export type NewRefund = typeof refunds.$inferInsert
+
+export const RefundStatus = {
+  PENDING: 'pending',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+} as const
+
+// Reconciliation runs - 支付状态对账批次（对账报告）
+export const reconciliationRuns = sqliteTable('reconciliation_runs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  status: text('status').notNull().default('running'), // running, completed, failed
+  triggeredBy: text('triggered_by').notNull(), // scheduler 或管理员用户名
+  checkedCount: integer('checked_count').notNull().default(0), // 本次查询的订单数
+  matchedCount: integer('matched_count').notNull().default(0), // 网关状态与本地一致
+  recoveredCount: integer('recovered_count').notNull().default(0), // 按网关状态更新了订单
+  mismatchedCount: integer('mismatched_count').notNull().default(0), // 金额或币种不一致，未更新
+  errorCount: integer('error_count').notNull().default(0), // 查询或更新失败
+  errorMessage: text('error_message'),
+  startedAt: text('started_at').default(sql`CURRENT_TIMESTAMP`),
+  finishedAt: text('finished_at'),
+})
+
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect
+export type NewReconciliationRun = typeof reconciliationRuns.$inferInsert
+
+// Reconciliation items - 对账明细（每个订单一条）
+export const reconciliationItems = sqliteTable('reconciliation_items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  runId: integer('run_id').notNull().references(() => reconciliationRuns.id, { onDelete: 'cascade' }),
+  orderId: text('order_id').notNull(),
+  gateway: text('gateway').notNull(),
+  outcome: text('outcome').notNull(), // matched, recovered, mismatched, error
+  localStatus: text('local_status').notNull(),
+  gatewayStatus: text('gateway_status'), // 网关返回的原始交易状态
+  localAmount: real('local_amount').notNull(),
+  gatewayAmount: real('gateway_amount'),
+  currency: text('currency').notNull(),
+  message: text('message'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type ReconciliationItem = typeof reconciliationItems.$inferSelect
+export type NewReconciliationItem = typeof reconciliationItems.$inferInsert
+
+export const ReconciliationRunStatus = {
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const
+
+export const ReconciliationOutcome = {
+  MATCHED: 'matched',
+  RECOVERED: 'recovered',
+  MISMATCHED: 'mismatched',
+  ERROR: 'error',
+} as const
+
+// Settlement imports - 网关结算/账单文件导入记录
+export const settlementImports = sqliteTable('settlement_imports', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  gateway: text('gateway').notNull(), // alipay, creem
+  fileName: text('file_name').notNull(),
+  lineCount: integer('line_count').notNull().default(0), // 解析出的明细行数
+  matchedCount: integer('matched_count').notNull().default(0), // 与本地记录一致的行数
+  discrepancyCount: integer('discrepancy_count').notNull().default(0),
+  paymentAmount: real('payment_amount').notNull().default(0), // 收款合计
+  refundAmount: real('refund_amount').notNull().default(0), // 退款合计
+  importedBy: text('imported_by').notNull(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type SettlementImport = typeof settlementImports.$inferSelect
+export type NewSettlementImport = typeof settlementImports.$inferInsert
+
+// Settlement discrepancies - 结算文件与本地订单的差异明细
+export const settlementDiscrepancies = sqliteTable('settlement_discrepancies', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  importId: integer('import_id').notNull().references(() => settlementImports.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // missing_order, amount_mismatch, status_mismatch, duplicate, refund_not_reflected
+  lineNo: integer('line_no').notNull(), // 结算文件中的行号
+  gatewayOrderId: text('gateway_order_id'),
+  transactionId: text('transaction_id'),
+  orderId: text('order_id'), // 匹配到的本地订单
+  localAmount: real('local_amount'),
+  settledAmount: real('settled_amount').notNull(),
+  currency: text('currency'),
+  message: text('message').notNull(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type SettlementDiscrepancy = typeof settlementDiscrepancies.$inferSelect
+export type NewSettlementDiscrepancy = typeof settlementDiscrepancies.$inferInsert
+
+export const SettlementDiscrepancyType = {
+  MISSING_ORDER: 'missing_order',
+  AMOUNT_MISMATCH: 'amount_mismatch',
+  STATUS_MISMATCH: 'status_mismatch',
+  DUPLICATE: 'duplicate',
+  REFUND_NOT_REFLECTED: 'refund_not_reflected',
+} as const
+
+// Order items - 订单商品明细表（购物车订单每个商品一行）
+export const orderItems = sqliteTable('order_items', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  productId: integer('product_id').notNull().references(() => products.id),
+  productName: text('product_name').notNull(), // 下单时的商品名称
+  variantId: integer('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  variantName: text('variant_name'), // 下单时的规格名称
+  quantity: integer('quantity').notNull().default(1),
+  unitPrice: real('unit_price').notNull(),
+  currency: text('currency').notNull(), // 与订单货币一致
+  taxRate: real('tax_rate').notNull().default(0), // 适用税率（百分比）
+  taxAmount: real('tax_amount').notNull().default(0), // 该商品的税额
+  deliveryId: integer('delivery_id').references(() => deliveries.id, { onDelete: 'set null' }), // 该商品的发货记录
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type OrderItem = typeof orderItems.$inferSelect
+export type NewOrderItem = typeof orderItems.$inferInsert
+
+// Coupons - 优惠码
+export const coupons = sqliteTable('coupons', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  code: text('code').notNull().unique(), // 统一存储为大写
+  description: text('description'),
+  discountType: text('discount_type').notNull(), // percentage, fixed
+  percentOff: real('percent_off'), // 百分比折扣（1-100）
+  amounts: text('amounts'), // 固定金额折扣，按货币设置的 JSON，如 {"CNY":10,"USD":1.5}
+  productIds: text('product_ids'), // 适用商品ID的 JSON 数组，为空表示全部商品
+  maxRedemptions: integer('max_redemptions'), // 总使用次数上限
+  maxRedemptionsPerEmail: integer('max_redemptions_per_email'), // 每个邮箱使用次数上限
+  stackable: integer('stackable', { mode: 'boolean' }).notNull().default(false), // 是否可与其他可叠加优惠码同时使用
+  startsAt: text('starts_at'),
+  expiresAt: text('expires_at'),
+  isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdBy: text('created_by'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type Coupon = typeof coupons.$inferSelect
+export type NewCoupon = typeof coupons.$inferInsert
+
+export const CouponDiscountType = {
+  PERCENTAGE: 'percentage',
+  FIXED: 'fixed',
+} as const
+
+// Coupon redemptions - 订单使用优惠码的记录（订单取消/退款后释放）
+export const couponRedemptions = sqliteTable('coupon_redemptions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  couponId: integer('coupon_id').notNull().references(() => coupons.id),
+  orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  code: text('code').notNull(),
+  email: text('email').notNull(),
+  currency: text('currency').notNull(),
+  discountAmount: real('discount_amount').notNull(),
+  status: text('status').notNull().default('applied'), // applied, released
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  releasedAt: text('released_at'),
+})
+
+export type CouponRedemption = typeof couponRedemptions.$inferSelect
+export type NewCouponRedemption = typeof couponRedemptions.$inferInsert
+
+export const CouponRedemptionStatus = {
+  APPLIED: 'applied',
+  RELEASED: 'released',
+} as const
+
+// Tax rules - 按买家国家和商品税务分类设置的税率（VAT/GST 等）
+export const taxRules = sqliteTable('tax_rules', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  country: text('country').notNull(), // ISO 3166-1 二位代码，如 DE、FR
+  taxCategory: text('tax_category'), // 为空表示该国家的默认税率
+  name: text('name').notNull().default('VAT'), // 税种名称，展示在订单和发票上
+  rate: real('rate').notNull(), // 税率（百分比，如 19 表示 19%）
+  isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type TaxRule = typeof taxRules.$inferSelect
+export type NewTaxRule = typeof taxRules.$inferInsert
+
+// Invoices - 订单发票和退款红字发票（编号连续且不重复使用）
+export const invoices = sqliteTable('invoices', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  invoiceNumber: text('invoice_number').notNull().unique(), // 发票编号，如 INV-000001
+  type: text('type').notNull().default('invoice'), // invoice, credit_note
+  orderId: text('order_id').notNull().references(() => orders.id),
+  refundId: integer('refund_id').references(() => refunds.id), // 红字发票对应的退款
+  originalInvoiceId: integer('original_invoice_id'), // 红字发票冲销的原发票
+  fileId: integer('file_id').references(() => files.id), // 生成的 PDF 文件
+  buyerEmail: text('buyer_email').notNull(),
+  buyerCompany: text('buyer_company'),
+  buyerTaxId: text('buyer_tax_id'),
+  currency: text('currency').notNull(),
+  netAmount: real('net_amount').notNull(), // 红字发票为负数
+  taxAmount: real('tax_amount').notNull(),
+  totalAmount: real('total_amount').notNull(),
+  issuedAt: text('issued_at').notNull(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type Invoice = typeof invoices.$inferSelect
+export type NewInvoice = typeof invoices.$inferInsert
+
+export const InvoiceType = {
+  INVOICE: 'invoice',
+  CREDIT_NOTE: 'credit_note',
+} as const
+
+// Invoice sequences - 发票编号计数器，编号分配后即使发票作废也不会回收
+export const invoiceSequences = sqliteTable('invoice_sequences', {
+  series: text('series').primaryKey(), // invoice, credit_note
+  lastNumber: integer('last_number').notNull().default(0),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+// Exchange rates - 汇率表（1 单位基准货币 = rate 单位目标货币），用于按基准货币价格推算其他货币售价
+export const exchangeRates = sqliteTable('exchange_rates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  baseCurrency: text('base_currency').notNull(),
+  currency: text('currency').notNull(),
+  rate: real('rate').notNull(),
+  source: text('source').notNull().default('manual'), // manual, file
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+})
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect
+export type NewExchangeRate = typeof exchangeRates.$inferInsert
+
+export const ExchangeRateSource = {
+  MANUAL: 'manual',
+  FILE: 'file',
+} as const
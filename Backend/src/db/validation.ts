@@ -16,6 +16,10 @@ export const productSchema = z.object({
   deliveryType: z.enum(['text', 'download', 'hybrid']),
   isActive: z.boolean().default(true),
   sortOrder: z.number().int().min(0).default(0),
+  minQuantity: z.number().int().min(1).optional(),
+  maxQuantity: z.number().int().min(1).nullable().optional(),
+  taxCategory: z.string().min(1).max(50).optional(),
+  categoryId: z.number().int().positive().nullable().optional(),
 })
 
 export const productUpdateSchema = productSchema.partial()
@@ -61,8 +65,6 @@ export const orderCreateSchema = orderSchema.omit({
 
 export const orderUpdateSchema = orderSchema.partial().omit({
   id: true,
-  createdAt: true,
-  updatedAt: true,
 })
 
 // 发货记录验证模式
@@ -82,9 +84,7 @@ export const deliverySchema = z.object({
 })
 
 export const deliveryUpdateSchema = deliverySchema.partial().omit({
-  id: true,
   orderId: true,
-  createdAt: true,
 })
 
 // 下载日志验证模式
@@ -113,10 +113,8 @@ export const paymentRawSchema = z.object({
 })
 
 export const paymentRawUpdateSchema = paymentRawSchema.partial().omit({
-  id: true,
   gateway: true,
   payload: true,
-  createdAt: true,
 })
 
 // 库存文本验证模式
@@ -134,9 +132,7 @@ export const inventoryTextSchema = z.object({
 })
 
 export const inventoryTextUpdateSchema = inventoryTextSchema.partial().omit({
-  id: true,
   productId: true,
-  createdAt: true,
 })
 
 // 系统设置验证模式
@@ -151,7 +147,6 @@ export const settingSchema = z.object({
 
 export const settingUpdateSchema = settingSchema.partial().omit({
   key: true,
-  updatedAt: true,
 })
 
 // 管理员日志验证模式
@@ -199,10 +194,17 @@ export const orderQuerySchema = paginationSchema.extend({
   search: z.string().optional(),
 })
 
+// 商品列表排序：default 按后台排序，price 按当前货币最低价，popular 按已售数量
+export const PRODUCT_SORTS = ['default', 'price_asc', 'price_desc', 'newest', 'popular'] as const
+
 export const productQuerySchema = paginationSchema.extend({
   isActive: z.coerce.boolean().optional(),
   deliveryType: z.nativeEnum(DeliveryType).optional(),
   search: z.string().optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  tag: z.string().trim().min(1).optional(),
+  sort: z.enum(PRODUCT_SORTS).default('default'),
+  currency: z.nativeEnum(Currency).optional(),
 })
 
 // API响应验证模式
@@ -24,8 +24,24 @@ import adminAuthRoutes from './routes/admin-auth'
 import adminProductRoutes from './routes/admin-products'
 import adminInventoryRoutes from './routes/admin-inventory'
 import adminOrderRoutes from './routes/admin-orders'
+import adminEmailTemplateRoutes from './routes/admin-email-templates'
+import adminJobRoutes from './routes/admin-jobs'
+import adminPaymentGatewayRoutes from './routes/admin-payment-gateways'
+import adminReconciliationRoutes from './routes/admin-reconciliation'
+import adminSettlementRoutes from './routes/admin-settlements'
+import adminCouponRoutes from './routes/admin-coupons'
+import adminTaxRoutes from './routes/admin-tax'
+import adminExchangeRateRoutes from './routes/admin-exchange-rates'
+import adminCatalogRoutes from './routes/admin-catalog'
+import adminProductFileRoutes from './routes/admin-product-files'
+import adminLicenseKeyRoutes from './routes/admin-license-keys'
 import productRoutes from './routes/products'
+import downloadRoutes from './routes/downloads'
 import { initDatabase } from './db'
+import { jobQueueService } from './services/job-queue-service'
+import { reconciliationService } from './services/reconciliation-service'
+import { maintenanceService } from './services/maintenance-service'
+import { registerJobHandlers } from './services/job-handlers'
 
 const app = new Hono()
 
@@ -54,6 +70,7 @@ app.get('/api/health', (c) => c.json({ status: 'ok' }))
 app.route('/api/v1/checkout', checkoutRoutes)
 app.route('/api/v1/orders', orderRoutes)
 app.route('/api/v1/products', productRoutes)
+app.route('/api/v1/downloads', downloadRoutes)
 
 // Webhook routes (without /api prefix for third-party integrations)
 app.route('/webhooks', webhookRoutes)
@@ -63,10 +80,29 @@ app.route('/api/v1/admin/auth', adminAuthRoutes)
 app.route('/api/v1/admin', adminProductRoutes)
 app.route('/api/v1/admin', adminInventoryRoutes)
 app.route('/api/v1/admin', adminOrderRoutes)
+app.route('/api/v1/admin', adminEmailTemplateRoutes)
+app.route('/api/v1/admin', adminJobRoutes)
+app.route('/api/v1/admin', adminPaymentGatewayRoutes)
+app.route('/api/v1/admin', adminReconciliationRoutes)
+app.route('/api/v1/admin', adminSettlementRoutes)
+app.route('/api/v1/admin', adminCouponRoutes)
+app.route('/api/v1/admin', adminTaxRoutes)
+app.route('/api/v1/admin', adminExchangeRateRoutes)
+app.route('/api/v1/admin', adminCatalogRoutes)
+app.route('/api/v1/admin', adminProductFileRoutes)
+app.route('/api/v1/admin', adminLicenseKeyRoutes)
 
 // Initialize database
 console.log('Initializing database...')
-initDatabase()
+registerJobHandlers()
+initDatabase().then(success => {
+  // 数据库就绪后启动任务队列 worker、支付对账和维护调度器
+  if (success) {
+    jobQueueService.start().catch(error => console.error('Failed to start job worker:', error))
+    reconciliationService.start()
+    maintenanceService.scheduleMaintenanceTasks().catch(error => console.error('Failed to start maintenance scheduler:', error))
+  }
+})
 
 const port = Number(process.env.PORT) || 3100
 
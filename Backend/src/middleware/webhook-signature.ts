@@ -1,46 +1,39 @@
 import { Context, Next } from 'hono'
-import crypto from 'crypto'
 import { db, schema } from '../db'
 import { eq, and, lt } from 'drizzle-orm'
 import { auditService } from '../services/audit-service'
 import { securityService } from '../services/security-service'
+import { gatewayRegistry, type GatewayPlugin } from '../services/gateways'
 
 /**
  * Webhook签名验证中间件
- * 支持支付宝RSA2和Creem HMAC签名验证
+ * 按路径最后一段匹配注册表中的网关插件，由插件完成验签；非网关回调路径直接放行
  */
 export function webhookSignatureValidator() {
   return async (c: Context, next: Next) => {
+    const plugin = gatewayRegistry.get(c.req.path.split('/').pop() || '')
+    if (!plugin) {
+      await next()
+      return
+    }
+
     try {
-      const gateway = c.req.path.includes('alipay') ? 'alipay' : 'creem'
+      const gateway = plugin.id
       const payload = await c.req.text()
-      const headers: Record<string, string> = {
-        'alipay-signature': c.req.header('alipay-signature') || '',
-        'signature': c.req.header('signature') || '',
-        'x-creem-signature': c.req.header('x-creem-signature') || '',
-        'creem-signature': c.req.header('creem-signature') || ''
-      }
+      const headers = c.req.header()
 
       // 记录原始webhook数据
       await logWebhookPayload(gateway, payload, headers)
 
-      // 根据不同的支付网关选择验证方式
-      let isValidSignature = false
-      let signatureMethod = 'unknown'
-
-      if (gateway === 'alipay') {
-        const result = await verifyAlipaySignature(payload, headers)
-        isValidSignature = result.isValid
-        signatureMethod = result.method
-      } else if (gateway === 'creem') {
-        const result = await verifyCreemSignature(payload, headers)
-        isValidSignature = result.isValid
-        signatureMethod = result.method
-      }
+      // 由网关插件验证签名
+      const verification = await plugin.webhook.verify(payload, headers)
+      const isValidSignature = verification.isValid
+      const signatureMethod = verification.method
 
       // 检查是否已经处理过（幂等性）
-      const gatewayOrderId = extractGatewayOrderId(payload, gateway)
-      if (gatewayOrderId) {
+      // 退款通知与支付通知共用网关订单号，由退款服务按退款请求号去重
+      const gatewayOrderId = verification.gatewayOrderId
+      if (gatewayOrderId && !(await isRefundNotification(plugin, payload, headers))) {
         const isProcessed = await checkWebhookProcessed(gateway, gatewayOrderId)
         if (isProcessed) {
           await auditService.logAuditEvent({
@@ -81,7 +74,7 @@ export function webhookSignatureValidator() {
       }
 
       // 验证时间戳（防止重放攻击）
-      const timestamp = extractTimestamp(payload, gateway)
+      const timestamp = verification.timestamp
       if (timestamp) {
         const now = Date.now()
         const timeDiff = Math.abs(now - timestamp * 1000)
@@ -154,70 +147,17 @@ export function webhookSignatureValidator() {
 }
 
 /**
- * 验证支付宝RSA2签名
+ * 判断是否为网关退款通知
  */
-async function verifyAlipaySignature(payload: string, headers: Record<string, string>): Promise<{ isValid: boolean; method: string }> {
-  try {
-    const alipayPublicKey = process.env.ALIPAY_PUBLIC_KEY
-    if (!alipayPublicKey) {
-      console.error('Alipay public key not configured')
-      return { isValid: false, method: 'rsa2_missing_key' }
-    }
-
-    // 从header中获取签名
-    const signature = headers['alipay-signature'] || headers['signature']
-    if (!signature) {
-      return { isValid: false, method: 'rsa2_missing_signature' }
-    }
-
-    // 从payload中提取待签名字符串
-    const params = new URLSearchParams(payload)
-    const signData = Object.keys(params)
-      .sort()
-      .filter(key => key !== 'sign' && key !== 'sign_type')
-      .map(key => `${key}=${params.get(key)}`)
-      .join('&')
-
-    // 验证RSA2签名
-    const verifier = crypto.createVerify('RSA-SHA256')
-    verifier.update(signData, 'utf8')
-    const isValid = verifier.verify(alipayPublicKey, signature, 'base64')
-
-    return { isValid, method: 'rsa2_sha256' }
-  } catch (error) {
-    console.error('Alipay signature verification error:', error)
-    return { isValid: false, method: 'rsa2_error' }
+async function isRefundNotification(plugin: GatewayPlugin, rawBody: string, headers: Record<string, string>): Promise<boolean> {
+  if (!plugin.webhook.extractRefund) {
+    return false
   }
-}
 
-/**
- * 验证Creem HMAC签名
- */
-async function verifyCreemSignature(payload: string, headers: Record<string, string>): Promise<{ isValid: boolean; method: string }> {
   try {
-    const creemSecret = process.env.CREEM_WEBHOOK_SECRET
-    if (!creemSecret) {
-      console.error('Creem webhook secret not configured')
-      return { isValid: false, method: 'hmac_missing_secret' }
-    }
-
-    const signature = headers['x-creem-signature'] || headers['creem-signature'] || headers['signature']
-    if (!signature) {
-      return { isValid: false, method: 'hmac_missing_signature' }
-    }
-
-    // 验证HMAC签名
-    const expectedSignature = crypto
-      .createHmac('sha256', creemSecret)
-      .update(payload, 'utf8')
-      .digest('hex')
-
-    const isValid = crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))
-
-    return { isValid, method: 'hmac_sha256' }
-  } catch (error) {
-    console.error('Creem signature verification error:', error)
-    return { isValid: false, method: 'hmac_error' }
+    return plugin.webhook.extractRefund(await plugin.webhook.parse(rawBody, headers)) !== null
+  } catch {
+    return false
   }
 }
 
@@ -260,44 +200,6 @@ async function checkWebhookProcessed(gateway: string, gatewayOrderId: string): P
   }
 }
 
-/**
- * 从payload中提取订单ID
- */
-function extractGatewayOrderId(payload: string, gateway: string): string | null {
-  try {
-    const data = typeof payload === 'string' ? JSON.parse(payload) : payload
-
-    if (gateway === 'alipay') {
-      return data.trade_no || data.out_trade_no
-    } else if (gateway === 'creem') {
-      return data.payment_id || data.order_id || data.id
-    }
-
-    return null
-  } catch (error) {
-    return null
-  }
-}
-
-/**
- * 从payload中提取时间戳
- */
-function extractTimestamp(payload: string, gateway: string): number | null {
-  try {
-    const data = typeof payload === 'string' ? JSON.parse(payload) : payload
-
-    if (gateway === 'alipay') {
-      return data.timestamp ? parseInt(data.timestamp) : null
-    } else if (gateway === 'creem') {
-      return data.timestamp || data.created_at ? new Date(data.timestamp || data.created_at).getTime() / 1000 : null
-    }
-
-    return null
-  } catch (error) {
-    return null
-  }
-}
-
 /**
  * 更新webhook签名验证状态
  */
@@ -0,0 +1,232 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { catalogService } from '../services/catalog-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP, sanitizeForLog } from '../utils/auth'
+import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 商品分类验证模式（parentId 为空表示顶级分类）
+const categorySchema = z.object({
+  name: z.string().trim().min(1, '分类名称不能为空').max(100, '分类名称过长'),
+  parentId: z.number().int().positive().nullable().optional(),
+  description: z.string().max(500, '分类描述过长').nullable().optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+})
+
+// 标签验证模式
+const tagSchema = z.object({
+  name: z.string().trim().min(1, '标签名称不能为空').max(50, '标签名称过长'),
+})
+
+/**
+ * 获取分类树（含各分类商品数）
+ */
+app.get('/categories', adminAuth, async (c) => {
+  try {
+    const categories = await catalogService.getCategoryTree()
+
+    return successResponse(c, { categories })
+  } catch (error) {
+    console.error('获取商品分类失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取商品分类失败')
+  }
+})
+
+/**
+ * 创建分类
+ */
+app.post('/categories', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = categorySchema.parse(await c.req.json())
+    const category = await catalogService.createCategory(body)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 创建了商品分类「${sanitizeForLog(category.name)}」`, {
+      eventType: AdminEventType.CATEGORY_CREATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { categoryId: category.id, name: category.name, parentId: category.parentId },
+    })
+
+    return successResponse(c, { category })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '上级分类不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('创建商品分类失败:', error)
+    return errors.INTERNAL_ERROR(c, '创建商品分类失败')
+  }
+})
+
+/**
+ * 更新分类
+ */
+app.put('/categories/:id', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const categoryId = parseInt(c.req.param('id'))
+    if (isNaN(categoryId)) {
+      return errors.INVALID_REQUEST(c, '无效的分类ID')
+    }
+
+    const body = categorySchema.partial().parse(await c.req.json())
+    const category = await catalogService.updateCategory(categoryId, body)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品分类「${sanitizeForLog(category.name)}」`, {
+      eventType: AdminEventType.CATEGORY_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { categoryId, changes: Object.keys(body) },
+    })
+
+    return successResponse(c, { category })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '分类不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('更新商品分类失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新商品分类失败')
+  }
+})
+
+/**
+ * 删除分类（分类下的商品变为未分类）
+ */
+app.delete('/categories/:id', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const categoryId = parseInt(c.req.param('id'))
+    if (isNaN(categoryId)) {
+      return errors.INVALID_REQUEST(c, '无效的分类ID')
+    }
+
+    await catalogService.deleteCategory(categoryId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 删除了商品分类 ${categoryId}`, {
+      eventType: AdminEventType.CATEGORY_DELETE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { categoryId },
+    })
+
+    return successResponse(c, { deleted: true })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '分类不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('删除商品分类失败:', error)
+    return errors.INTERNAL_ERROR(c, '删除商品分类失败')
+  }
+})
+
+/**
+ * 获取标签列表（含各标签商品数）
+ */
+app.get('/tags', adminAuth, async (c) => {
+  try {
+    const tags = await catalogService.listTags()
+
+    return successResponse(c, { tags })
+  } catch (error) {
+    console.error('获取商品标签失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取商品标签失败')
+  }
+})
+
+/**
+ * 创建标签
+ */
+app.post('/tags', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const { name } = tagSchema.parse(await c.req.json())
+    const tag = await catalogService.createTag(name)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 创建了商品标签「${sanitizeForLog(tag.name)}」`, {
+      eventType: AdminEventType.TAG_CREATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { tagId: tag.id, name: tag.name },
+    })
+
+    return successResponse(c, { tag })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('创建商品标签失败:', error)
+    return errors.INTERNAL_ERROR(c, '创建商品标签失败')
+  }
+})
+
+/**
+ * 删除标签（同时从商品上移除）
+ */
+app.delete('/tags/:id', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const tagId = parseInt(c.req.param('id'))
+    if (isNaN(tagId)) {
+      return errors.INVALID_REQUEST(c, '无效的标签ID')
+    }
+
+    await catalogService.deleteTag(tagId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 删除了商品标签 ${tagId}`, {
+      eventType: AdminEventType.TAG_DELETE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { tagId },
+    })
+
+    return successResponse(c, { deleted: true })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '标签不存在')
+    }
+
+    console.error('删除商品标签失败:', error)
+    return errors.INTERNAL_ERROR(c, '删除商品标签失败')
+  }
+})
+
+export default app
@@ -0,0 +1,284 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { couponService } from '../services/coupon-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 分页验证模式
+const pageQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+// 报表时间范围验证模式
+const reportQuerySchema = z.object({
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+})
+
+const dateTimeSchema = z.string().refine(value => !isNaN(Date.parse(value)), { message: '时间格式无效' })
+
+// 优惠码验证模式（创建和更新使用同一模式）
+const couponSchema = z.object({
+  code: z.string().trim().min(2, '优惠码至少2个字符').max(64, '优惠码过长')
+    .regex(/^[A-Za-z0-9_-]+$/, '优惠码只能包含字母、数字、下划线和横线'),
+  description: z.string().max(500, '描述过长').nullable().optional(),
+  discountType: z.enum(['percentage', 'fixed']),
+  percentOff: z.number().gt(0, '折扣比例必须大于0').max(100, '折扣比例不能超过100').nullable().optional(),
+  amounts: z.record(z.string().regex(/^[A-Z]{3}$/, '无效的货币代码'), z.number().positive('优惠金额必须大于0')).nullable().optional(),
+  productIds: z.array(z.number().int().positive()).nullable().optional(),
+  maxRedemptions: z.number().int().min(1, '使用次数上限至少为1').nullable().optional(),
+  maxRedemptionsPerEmail: z.number().int().min(1, '每个邮箱使用次数上限至少为1').nullable().optional(),
+  stackable: z.boolean().optional(),
+  startsAt: dateTimeSchema.nullable().optional(),
+  expiresAt: dateTimeSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+})
+  .refine(data => data.discountType !== 'percentage' || data.percentOff != null, {
+    message: '百分比折扣需要设置折扣比例',
+    path: ['percentOff'],
+  })
+  .refine(data => data.discountType !== 'fixed' || Object.keys(data.amounts || {}).length > 0, {
+    message: '固定金额折扣至少需要设置一种货币的优惠金额',
+    path: ['amounts'],
+  })
+  .refine(data => !data.startsAt || !data.expiresAt || Date.parse(data.startsAt) < Date.parse(data.expiresAt), {
+    message: '结束时间必须晚于开始时间',
+    path: ['expiresAt'],
+  })
+
+/**
+ * 获取优惠码列表
+ */
+app.get('/coupons', adminAuth, async (c) => {
+  try {
+    const query = pageQuerySchema.parse({
+      page: c.req.query('page'),
+      limit: c.req.query('limit'),
+    })
+
+    const { coupons, total } = await couponService.listCoupons(query.page, query.limit)
+
+    return successResponse(c, {
+      coupons,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '查询参数无效', error.issues)
+    }
+
+    console.error('获取优惠码列表失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取优惠码列表失败')
+  }
+})
+
+/**
+ * 优惠码使用报表
+ */
+app.get('/coupons/report', adminAuth, async (c) => {
+  try {
+    const query = reportQuerySchema.parse({
+      startDate: c.req.query('startDate'),
+      endDate: c.req.query('endDate'),
+    })
+
+    const report = await couponService.getUsageReport(query)
+
+    return successResponse(c, { report })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '查询参数无效', error.issues)
+    }
+
+    console.error('获取优惠码使用报表失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取优惠码使用报表失败')
+  }
+})
+
+/**
+ * 获取优惠码详情
+ */
+app.get('/coupons/:id', adminAuth, async (c) => {
+  try {
+    const couponId = parseInt(c.req.param('id'))
+    if (isNaN(couponId)) {
+      return errors.INVALID_REQUEST(c, '无效的优惠码ID')
+    }
+
+    const coupon = await couponService.getCoupon(couponId)
+    if (!coupon) {
+      return errors.NOT_FOUND(c, '优惠码不存在')
+    }
+
+    return successResponse(c, { coupon })
+  } catch (error) {
+    console.error('获取优惠码详情失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取优惠码详情失败')
+  }
+})
+
+/**
+ * 获取优惠码使用记录
+ */
+app.get('/coupons/:id/redemptions', adminAuth, async (c) => {
+  try {
+    const couponId = parseInt(c.req.param('id'))
+    if (isNaN(couponId)) {
+      return errors.INVALID_REQUEST(c, '无效的优惠码ID')
+    }
+
+    const query = pageQuerySchema.parse({
+      page: c.req.query('page'),
+      limit: c.req.query('limit'),
+    })
+
+    const { redemptions, total } = await couponService.listRedemptions(couponId, query.page, query.limit)
+
+    return successResponse(c, {
+      redemptions,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '查询参数无效', error.issues)
+    }
+
+    console.error('获取优惠码使用记录失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取优惠码使用记录失败')
+  }
+})
+
+/**
+ * 创建优惠码
+ */
+app.post('/coupons', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = couponSchema.parse(await c.req.json())
+    const coupon = await couponService.createCoupon(body, admin.username)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 创建了优惠码 ${coupon.code}`, {
+      eventType: AdminEventType.COUPON_CREATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        couponId: coupon.id,
+        code: coupon.code,
+        discountType: coupon.discountType,
+      },
+    })
+
+    return successResponse(c, { coupon })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('创建优惠码失败:', error)
+    return errors.INTERNAL_ERROR(c, '创建优惠码失败')
+  }
+})
+
+/**
+ * 更新优惠码
+ */
+app.put('/coupons/:id', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const couponId = parseInt(c.req.param('id'))
+    if (isNaN(couponId)) {
+      return errors.INVALID_REQUEST(c, '无效的优惠码ID')
+    }
+
+    const body = couponSchema.parse(await c.req.json())
+    const coupon = await couponService.updateCoupon(couponId, body)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了优惠码 ${coupon.code}`, {
+      eventType: AdminEventType.COUPON_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        couponId,
+        code: coupon.code,
+        isActive: coupon.isActive,
+      },
+    })
+
+    return successResponse(c, { coupon })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '优惠码不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('更新优惠码失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新优惠码失败')
+  }
+})
+
+/**
+ * 删除优惠码（已被使用过的优惠码改为停用）
+ */
+app.delete('/coupons/:id', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const couponId = parseInt(c.req.param('id'))
+    if (isNaN(couponId)) {
+      return errors.INVALID_REQUEST(c, '无效的优惠码ID')
+    }
+
+    const result = await couponService.deleteCoupon(couponId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} ${result.deleted ? '删除' : '停用'}了优惠码 ${couponId}`, {
+      eventType: AdminEventType.COUPON_DELETE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        couponId,
+        ...result,
+      },
+    })
+
+    return successResponse(c, result)
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '优惠码不存在')
+    }
+
+    console.error('删除优惠码失败:', error)
+    return errors.INTERNAL_ERROR(c, '删除优惠码失败')
+  }
+})
+
+export default app
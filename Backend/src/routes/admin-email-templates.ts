@@ -0,0 +1,267 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { productService } from '../services/product-service'
+import { emailTemplateService, TEMPLATE_VARIABLES, BUILTIN_TEMPLATES } from '../services/email-template-service'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+const emailTypeSchema = z.enum(['delivery', 'failure', 'refund'])
+
+// 模板保存验证模式
+const templateSchema = z.object({
+  emailType: emailTypeSchema.default('delivery'),
+  subject: z.string().min(1, '邮件主题不能为空').max(255, '邮件主题过长'),
+  htmlBody: z.string().min(1, '邮件正文不能为空').max(100000, '邮件正文过长'),
+  isActive: z.boolean().optional(),
+})
+
+// 模板预览验证模式
+const previewSchema = z.object({
+  emailType: emailTypeSchema.default('delivery'),
+  orderId: z.string().min(1).optional(),
+  productId: z.number().int().positive().optional(),
+  currency: z.enum(['CNY', 'USD', 'EUR', 'JPY']).optional(),
+  subject: z.string().max(255).optional(),
+  htmlBody: z.string().max(100000).optional(),
+})
+
+/**
+ * 获取模板列表及可用变量
+ */
+app.get('/email-templates', adminAuth, async (c) => {
+  try {
+    const templates = await emailTemplateService.listTemplates()
+
+    return successResponse(c, {
+      templates,
+      variables: TEMPLATE_VARIABLES,
+      builtin: BUILTIN_TEMPLATES,
+    })
+  } catch (error) {
+    console.error('获取邮件模板失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取邮件模板失败')
+  }
+})
+
+/**
+ * 获取默认模板
+ */
+app.get('/email-templates/default', adminAuth, async (c) => {
+  try {
+    const emailType = emailTypeSchema.parse(c.req.query('emailType') || 'delivery')
+    const template = await emailTemplateService.getTemplate(emailType, null)
+
+    return successResponse(c, { template })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '邮件类型无效', error.issues)
+    }
+
+    console.error('获取默认邮件模板失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取默认邮件模板失败')
+  }
+})
+
+/**
+ * 保存默认模板
+ */
+app.put('/email-templates/default', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = await c.req.json()
+    const data = templateSchema.parse(body)
+
+    const template = await emailTemplateService.saveTemplate(null, data.emailType, data, admin.username)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了默认邮件模板`, {
+      eventType: AdminEventType.EMAIL_TEMPLATE_UPDATE,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: {
+        templateId: template.id,
+        emailType: data.emailType,
+      },
+    })
+
+    return successResponse(c, { template })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '输入数据无效', error.issues)
+    }
+
+    console.error('保存默认邮件模板失败:', error)
+    return errors.INTERNAL_ERROR(c, '保存默认邮件模板失败')
+  }
+})
+
+/**
+ * 渲染模板预览
+ * 可传入未保存的 subject/htmlBody，按真实订单（orderId）或示例数据渲染
+ */
+app.post('/email-templates/preview', adminAuth, async (c) => {
+  try {
+    const body = await c.req.json()
+    const data = previewSchema.parse(body)
+
+    const hasDraft = data.subject !== undefined || data.htmlBody !== undefined
+    const base = hasDraft ? await emailTemplateService.getTemplate(data.emailType, data.productId) : null
+
+    const preview = await emailTemplateService.preview({
+      emailType: data.emailType,
+      orderId: data.orderId,
+      productId: data.productId,
+      currency: data.currency,
+      template: hasDraft
+        ? {
+          subject: data.subject ?? base.subject,
+          htmlBody: data.htmlBody ?? base.htmlBody,
+        }
+        : undefined,
+    })
+
+    return successResponse(c, preview)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '输入数据无效', error.issues)
+    }
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return errors.ORDER_NOT_FOUND(c)
+    }
+
+    console.error('渲染邮件模板预览失败:', error)
+    return errors.INTERNAL_ERROR(c, '渲染邮件模板预览失败')
+  }
+})
+
+/**
+ * 获取商品邮件模板
+ * 返回当前生效模板以及商品自定义模板（如果有）
+ */
+app.get('/products/:id/email-template', adminAuth, async (c) => {
+  try {
+    const productId = parseInt(c.req.param('id'))
+
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const product = await productService.getProductById(productId)
+    if (!product) {
+      return errors.PRODUCT_NOT_FOUND(c)
+    }
+
+    const emailType = emailTypeSchema.parse(c.req.query('emailType') || 'delivery')
+    const override = await emailTemplateService.findTemplate(productId, emailType)
+    const effective = await emailTemplateService.getTemplate(emailType, productId)
+
+    return successResponse(c, {
+      productId,
+      emailType,
+      override,
+      effective,
+      variables: TEMPLATE_VARIABLES,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '邮件类型无效', error.issues)
+    }
+
+    console.error('获取商品邮件模板失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取商品邮件模板失败')
+  }
+})
+
+/**
+ * 保存商品邮件模板
+ */
+app.put('/products/:id/email-template', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const product = await productService.getProductById(productId)
+    if (!product) {
+      return errors.PRODUCT_NOT_FOUND(c)
+    }
+
+    const body = await c.req.json()
+    const data = templateSchema.parse(body)
+
+    const template = await emailTemplateService.saveTemplate(productId, data.emailType, data, admin.username)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品 ${product.name} 的邮件模板`, {
+      eventType: AdminEventType.EMAIL_TEMPLATE_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        productId,
+        templateId: template.id,
+        emailType: data.emailType,
+      },
+    })
+
+    return successResponse(c, { template })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '输入数据无效', error.issues)
+    }
+
+    console.error('保存商品邮件模板失败:', error)
+    return errors.INTERNAL_ERROR(c, '保存商品邮件模板失败')
+  }
+})
+
+/**
+ * 删除商品邮件模板（恢复使用默认模板）
+ */
+app.delete('/products/:id/email-template', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const emailType = emailTypeSchema.parse(c.req.query('emailType') || 'delivery')
+    const deleted = await emailTemplateService.deleteTemplate(productId, emailType)
+
+    if (!deleted) {
+      return errors.NOT_FOUND(c, '该商品没有自定义邮件模板')
+    }
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 删除了商品 ${productId} 的邮件模板`, {
+      eventType: AdminEventType.EMAIL_TEMPLATE_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        productId,
+        emailType,
+      },
+    })
+
+    return successResponse(c, { productId, emailType, deleted })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '邮件类型无效', error.issues)
+    }
+
+    console.error('删除商品邮件模板失败:', error)
+    return errors.INTERNAL_ERROR(c, '删除商品邮件模板失败')
+  }
+})
+
+export default app
@@ -0,0 +1,188 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { exchangeRateService, ROUNDING_RULES, SUPPORTED_CURRENCIES, type RoundingRule } from '../services/exchange-rate-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+const currencySchema = z.string().trim().toUpperCase()
+  .refine(currency => SUPPORTED_CURRENCIES.includes(currency), '不支持的货币')
+
+const roundingRuleSchema = z.enum(ROUNDING_RULES as [RoundingRule, ...RoundingRule[]])
+
+// 汇率模式设置验证模式（rounding 的 key 为货币代码或 default）
+const fxSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  baseCurrency: currencySchema.optional(),
+  rounding: z.record(z.string(), roundingRuleSchema).optional(),
+})
+
+const exchangeRateSchema = z.object({
+  currency: currencySchema,
+  rate: z.number().positive('汇率必须大于 0'),
+})
+
+// 导入内容为空时读取服务器上的汇率文件
+const importSchema = z.object({
+  content: z.string().max(100000, '汇率文件过大').optional(),
+})
+
+/**
+ * 获取汇率模式设置和汇率列表
+ */
+app.get('/exchange-rates', adminAuth, async (c) => {
+  try {
+    const [settings, rates] = await Promise.all([
+      exchangeRateService.getSettings(),
+      exchangeRateService.listRates(),
+    ])
+
+    return successResponse(c, { settings, rates, currencies: SUPPORTED_CURRENCIES })
+  } catch (error) {
+    console.error('获取汇率失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取汇率失败')
+  }
+})
+
+/**
+ * 更新汇率模式设置
+ */
+app.put('/exchange-rates/settings', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = fxSettingsSchema.parse(await c.req.json())
+    const settings = await exchangeRateService.updateSettings(body, admin.username)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了汇率模式设置`, {
+      eventType: AdminEventType.FX_SETTINGS_UPDATE,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: body,
+    })
+
+    return successResponse(c, { settings })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('更新汇率模式设置失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新汇率模式设置失败')
+  }
+})
+
+/**
+ * 设置汇率（已存在时覆盖）
+ */
+app.post('/exchange-rates', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = exchangeRateSchema.parse(await c.req.json())
+    const rate = await exchangeRateService.setRate(body.currency, body.rate)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 设置了汇率 ${rate.baseCurrency}/${rate.currency}`, {
+      eventType: AdminEventType.EXCHANGE_RATE_UPDATE,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: {
+        baseCurrency: rate.baseCurrency,
+        currency: rate.currency,
+        rate: rate.rate,
+      },
+    })
+
+    return successResponse(c, { rate })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('设置汇率失败:', error)
+    return errors.INTERNAL_ERROR(c, '设置汇率失败')
+  }
+})
+
+/**
+ * 从文件导入汇率
+ */
+app.post('/exchange-rates/import', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = importSchema.parse(await c.req.json().catch(() => ({})))
+    const result = await exchangeRateService.importRates(body.content)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 导入了 ${result.imported.length} 条汇率`, {
+      eventType: AdminEventType.EXCHANGE_RATE_IMPORT,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: {
+        baseCurrency: result.baseCurrency,
+        currencies: result.imported.map(rate => rate.currency),
+        fromServerFile: body.content === undefined,
+      },
+    })
+
+    return successResponse(c, { imported: result.imported.length, rates: result.imported })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('导入汇率失败:', error)
+    return errors.INTERNAL_ERROR(c, '导入汇率失败')
+  }
+})
+
+/**
+ * 删除汇率
+ */
+app.delete('/exchange-rates/:id', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const rateId = parseInt(c.req.param('id'))
+    if (isNaN(rateId)) {
+      return errors.INVALID_REQUEST(c, '无效的汇率ID')
+    }
+
+    await exchangeRateService.deleteRate(rateId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 删除了汇率 ${rateId}`, {
+      eventType: AdminEventType.EXCHANGE_RATE_DELETE,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: { rateId },
+    })
+
+    return successResponse(c, { deleted: true })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '汇率不存在')
+    }
+
+    console.error('删除汇率失败:', error)
+    return errors.INTERNAL_ERROR(c, '删除汇率失败')
+  }
+})
+
+export default app
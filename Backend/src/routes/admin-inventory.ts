@@ -2,6 +2,7 @@ import { Hono } from 'hono'
 import { z } from 'zod'
 import { productService } from '../services/product-service'
 import { inventoryService } from '../services/inventory-service'
+import { productVariantService } from '../services/product-variant-service'
 import { adminAuth } from '../middleware/admin-jwt-auth'
 import { getClientIP, sanitizeForLog } from '../utils/auth'
 import { successResponse, errors } from '../utils/response'
@@ -13,6 +14,7 @@ const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
 // 库存导入验证模式
 const importInventorySchema = z.object({
   productId: z.number().int().positive(),
+  variantId: z.number().int().positive().optional(), // 导入到指定规格的库存池
   content: z.string().min(1),
   batchName: z.string().optional(),
   priority: z.number().int().min(0).max(100).optional(),
@@ -156,6 +158,7 @@ app.get('/inventory/:productId', adminAuth, async (c) => {
     const page = parseInt(c.req.query('page') || '1')
     const limit = parseInt(c.req.query('limit') || '50')
     const status = c.req.query('status') || 'all'
+    const variantId = c.req.query('variantId') ? parseInt(c.req.query('variantId')!) : undefined
 
     if (!productId || isNaN(productId)) {
       return errors.INVALID_REQUEST(c, '无效的商品ID')
@@ -173,6 +176,7 @@ app.get('/inventory/:productId', adminAuth, async (c) => {
       limit,
       offset: (page - 1) * limit,
       productId,
+      variantId,
     }
 
     if (status !== 'all') {
@@ -184,7 +188,7 @@ app.get('/inventory/:productId', adminAuth, async (c) => {
     const { items, pagination } = inventoryResult
 
     // 获取库存统计
-    const stats = await inventoryService.getInventoryStats(productId)
+    const stats = await inventoryService.getInventoryStats(productId, variantId)
 
     return successResponse(c, {
       product: {
@@ -218,7 +222,7 @@ app.post('/inventory/import', adminAuth, async (c) => {
   try {
     const admin = c.get('admin')
     const body = await c.req.json()
-    const { productId, content, batchName, priority } = importInventorySchema.parse(body)
+    const { productId, variantId, content, batchName, priority } = importInventorySchema.parse(body)
 
     // 验证商品是否存在
     const product = await productService.getProductById(productId)
@@ -226,10 +230,15 @@ app.post('/inventory/import', adminAuth, async (c) => {
       return errors.PRODUCT_NOT_FOUND(c)
     }
 
+    if (variantId && !await productVariantService.getVariant(productId, variantId)) {
+      return errors.NOT_FOUND(c, '规格不存在')
+    }
+
     const importResult = await inventoryService.importInventory(productId, content, {
       batchName: batchName || `import_${Date.now()}`,
       createdBy: admin.username,
       priority: priority || 0,
+      variantId,
     })
 
     // 统计结果
@@ -267,13 +276,14 @@ app.post('/inventory', adminAuth, async (c) => {
   try {
     const admin = c.get('admin')
     const body = await c.req.json()
-    const { productId, content, batchName, priority } = importInventorySchema.parse(body)
+    const { productId, variantId, content, batchName, priority } = importInventorySchema.parse(body)
 
     const lines = content.split('\n').filter(line => line.trim().length > 0)
 
     console.log('➕ [库存管理] 开始添加库存', {
       admin: admin.username,
       productId,
+      variantId,
       linesCount: lines.length,
       batchName: batchName || `manual_${Date.now()}`,
       priority: priority || 0,
@@ -286,6 +296,10 @@ app.post('/inventory', adminAuth, async (c) => {
       return errors.PRODUCT_NOT_FOUND(c)
     }
 
+    if (variantId && !await productVariantService.getVariant(productId, variantId)) {
+      return errors.NOT_FOUND(c, '规格不存在')
+    }
+
     if (lines.length === 0) {
       return errors.INVALID_REQUEST(c, '没有有效的库存内容')
     }
@@ -294,6 +308,7 @@ app.post('/inventory', adminAuth, async (c) => {
       batchName: batchName || `manual_${Date.now()}`,
       createdBy: admin.username,
       priority: priority || 0,
+      variantId,
     })
 
     console.log('✅ [库存管理] 添加库存成功', {
@@ -0,0 +1,165 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { jobQueueService } from '../services/job-queue-service'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory, JobStatus } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 任务筛选验证模式
+const jobQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(Object.values(JobStatus) as [string, ...string[]]).optional(),
+  jobType: z.string().optional(),
+  orderId: z.string().optional(),
+})
+
+/**
+ * 解析任务ID
+ */
+function parseJobId(value: string): number | null {
+  const id = parseInt(value)
+  return isNaN(id) ? null : id
+}
+
+/**
+ * 获取任务列表（包含分页、筛选和状态统计）
+ */
+app.get('/jobs', adminAuth, async (c) => {
+  try {
+    const query = jobQuerySchema.parse({
+      page: c.req.query('page'),
+      limit: c.req.query('limit'),
+      status: c.req.query('status'),
+      jobType: c.req.query('jobType'),
+      orderId: c.req.query('orderId'),
+    })
+
+    const { jobs, total } = await jobQueueService.listJobs(query)
+    const stats = await jobQueueService.getStats()
+
+    return successResponse(c, {
+      jobs,
+      stats,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '查询参数无效', error.issues)
+    }
+
+    console.error('获取任务列表失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取任务列表失败')
+  }
+})
+
+/**
+ * 获取任务详情
+ */
+app.get('/jobs/:id', adminAuth, async (c) => {
+  try {
+    const jobId = parseJobId(c.req.param('id'))
+    if (jobId === null) {
+      return errors.INVALID_REQUEST(c, '无效的任务ID')
+    }
+
+    const job = await jobQueueService.getJob(jobId)
+    if (!job) {
+      return errors.NOT_FOUND(c, '任务不存在')
+    }
+
+    return successResponse(c, { job })
+  } catch (error) {
+    console.error('获取任务详情失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取任务详情失败')
+  }
+})
+
+/**
+ * 重试任务（死信、已取消或等待重试的任务立即重新执行）
+ */
+app.post('/jobs/:id/retry', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const jobId = parseJobId(c.req.param('id'))
+    if (jobId === null) {
+      return errors.INVALID_REQUEST(c, '无效的任务ID')
+    }
+
+    const job = await jobQueueService.retryJob(jobId)
+    if (!job) {
+      return errors.NOT_FOUND(c, '任务不存在')
+    }
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 重试了任务 ${jobId}`, {
+      eventType: AdminEventType.JOB_RETRY,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: {
+        jobId,
+        jobType: job.jobType,
+        orderId: job.orderId,
+      },
+    })
+
+    return successResponse(c, { job })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('cannot be retried')) {
+      return errors.INVALID_REQUEST(c, '当前状态的任务不能重试')
+    }
+
+    console.error('重试任务失败:', error)
+    return errors.INTERNAL_ERROR(c, '重试任务失败')
+  }
+})
+
+/**
+ * 取消任务（仅限尚未执行或等待重试的任务）
+ */
+app.post('/jobs/:id/cancel', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const jobId = parseJobId(c.req.param('id'))
+    if (jobId === null) {
+      return errors.INVALID_REQUEST(c, '无效的任务ID')
+    }
+
+    const job = await jobQueueService.cancelJob(jobId)
+    if (!job) {
+      return errors.NOT_FOUND(c, '任务不存在')
+    }
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 取消了任务 ${jobId}`, {
+      eventType: AdminEventType.JOB_CANCEL,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: {
+        jobId,
+        jobType: job.jobType,
+        orderId: job.orderId,
+      },
+    })
+
+    return successResponse(c, { job })
+  } catch (error) {
+    if (error instanceof Error && (error.message.includes('cannot be cancelled') || error.message.includes('picked up'))) {
+      return errors.INVALID_REQUEST(c, '只能取消等待执行的任务')
+    }
+
+    console.error('取消任务失败:', error)
+    return errors.INTERNAL_ERROR(c, '取消任务失败')
+  }
+})
+
+export default app
@@ -0,0 +1,112 @@
+import { Hono, type Context } from 'hono'
+import { z } from 'zod'
+import { licenseKeyService } from '../services/license-key-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory, KeyGenerator, KeySource } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 卡密来源验证模式
+const keySourceSchema = z.object({
+  keySource: z.enum([KeySource.POOL, KeySource.GENERATOR, KeySource.POOL_THEN_GENERATOR]),
+  keyGenerator: z.enum([KeyGenerator.UUID, KeyGenerator.PATTERN, KeyGenerator.SIGNED_LICENSE]).nullable().default(null),
+  keyPattern: z.string().trim().nullable().default(null),
+  licenseValidDays: z.number().int().positive('有效天数必须为正整数').max(36500).nullable().default(null),
+})
+
+// 离线授权文件校验模式
+const verifySchema = z.object({
+  license: z.string().min(1, '请粘贴授权文件内容').max(20000, '授权文件过长'),
+})
+
+/**
+ * 卡密接口的错误响应
+ */
+function keyErrorResponse(c: Context, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+  }
+
+  if (error instanceof NotFoundError) {
+    return errors.PRODUCT_NOT_FOUND(c)
+  }
+
+  if (error instanceof BusinessLogicError) {
+    return errors.INVALID_REQUEST(c, error.message, { code: error.code })
+  }
+
+  console.error(`${message}:`, error)
+  return errors.INTERNAL_ERROR(c, message)
+}
+
+/**
+ * 获取商品的卡密来源设置
+ */
+app.get('/products/:id/key-source', adminAuth, async (c) => {
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    return successResponse(c, await licenseKeyService.getKeySource(productId))
+  } catch (error) {
+    return keyErrorResponse(c, error, '获取卡密来源失败')
+  }
+})
+
+/**
+ * 更新商品的卡密来源：预置库存、自动生成，或库存不足时自动生成
+ */
+app.put('/products/:id/key-source', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const settings = await licenseKeyService.setKeySource(productId, keySourceSchema.parse(await c.req.json()))
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品 ${productId} 的卡密来源`, {
+      eventType: AdminEventType.KEY_SOURCE_UPDATE,
+      eventCategory: AdminEventCategory.INVENTORY_MANAGEMENT,
+      details: { productId, ...settings },
+    })
+
+    return successResponse(c, settings)
+  } catch (error) {
+    return keyErrorResponse(c, error, '更新卡密来源失败')
+  }
+})
+
+/**
+ * 离线授权文件的签名公钥（PEM），嵌入到客户端中用于离线校验
+ */
+app.get('/license-keys/public-key', adminAuth, async (c) => {
+  try {
+    return successResponse(c, { algorithm: 'Ed25519', publicKey: await licenseKeyService.getPublicKey() })
+  } catch (error) {
+    return keyErrorResponse(c, error, '获取签名公钥失败')
+  }
+})
+
+/**
+ * 校验离线授权文件的签名和有效期，返回其中的授权信息
+ */
+app.post('/license-keys/verify', adminAuth, async (c) => {
+  try {
+    const { license } = verifySchema.parse(await c.req.json())
+    return successResponse(c, await licenseKeyService.verifyLicense(license))
+  } catch (error) {
+    return keyErrorResponse(c, error, '校验授权文件失败')
+  }
+})
+
+export default app
@@ -2,6 +2,9 @@ import { Hono } from 'hono'
 import { z } from 'zod'
 import { orderService } from '../services/order-service'
 import { orderStateService } from '../services/order-state-service'
+import { transactionService } from '../services/transaction-service'
+import { refundService } from '../services/refund-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
 import { paymentGatewayManager } from '../services/payment-gateway-service'
 import { verifyToken, getClientIP } from '../utils/auth'
 import { AdminEventType, AdminEventCategory } from '../db/schema'
@@ -25,6 +28,7 @@ const orderQuerySchema = z.object({
 // 退款验证模式
 const refundSchema = z.object({
   reason: z.string().min(1, '退款原因不能为空').max(500, '退款原因不能超过500字符'),
+  amount: z.number().positive('退款金额必须大于0').optional(), // 不传时退还剩余可退金额
 })
 
 /**
@@ -186,8 +190,19 @@ app.post('/orders/:orderId/resend', requireAdminAuth, async (c) => {
       }, 400)
     }
 
-    // TODO: 调用订单状态服务重新发送邮件
-    // 临时实现：直接返回成功
+    if (!orderDetails.delivery) {
+      return c.json({
+        success: false,
+        error: '该订单还没有发货记录，无法重发邮件',
+      }, 400)
+    }
+
+    // 刷新下载链接并重新发送发货邮件
+    const result = await transactionService.resendDelivery(orderId, {
+      adminEmail: admin.email,
+      triggeredBy: `admin:${admin.username}`,
+    })
+
     console.log(`管理员 ${admin.username} 在 ${clientIP} 重发了订单 ${orderId} 的发货邮件`, {
       eventType: AdminEventType.ORDER_RESEND,
       eventCategory: AdminEventCategory.ORDER_MANAGEMENT,
@@ -195,15 +210,25 @@ app.post('/orders/:orderId/resend', requireAdminAuth, async (c) => {
         orderId,
         email: order.email,
         status: order.status,
+        emailSent: result.email.success,
+        emailLogId: result.email.logId,
       },
     })
 
+    if (!result.email.success) {
+      return c.json({
+        success: false,
+        error: `邮件发送失败：${result.email.error}`,
+      }, 502)
+    }
+
     return c.json({
       success: true,
       message: '邮件重发成功',
       data: {
         orderId,
         email: order.email,
+        messageId: result.email.messageId,
         resendAt: new Date().toISOString(),
       },
     })
@@ -217,7 +242,43 @@ app.post('/orders/:orderId/resend', requireAdminAuth, async (c) => {
 })
 
 /**
- * 执行订单退款
+ * 获取订单退款记录
+ */
+app.get('/orders/:orderId/refunds', requireAdminAuth, async (c) => {
+  const orderId = c.req.param('orderId')
+
+  try {
+    const order = await orderService.getOrderById(orderId)
+    if (!order) {
+      return c.json({
+        success: false,
+        error: '订单不存在',
+      }, 404)
+    }
+
+    const [refunds, refundableAmount] = await Promise.all([
+      refundService.getRefundsByOrderId(orderId),
+      refundService.getRefundableAmount(orderId),
+    ])
+
+    return c.json({
+      success: true,
+      data: {
+        refunds,
+        refundableAmount,
+      },
+    })
+  } catch (error) {
+    console.error('获取退款记录失败:', error)
+    return c.json({
+      success: false,
+      error: '获取退款记录失败，请稍后重试',
+    }, 500)
+  }
+})
+
+/**
+ * 执行订单退款（通过支付网关退款，支持部分退款）
  */
 app.post('/orders/:orderId/refund', requireAdminAuth, async (c) => {
   const admin = c.get('admin')
@@ -235,52 +296,41 @@ app.post('/orders/:orderId/refund', requireAdminAuth, async (c) => {
 
     // 解析请求体
     const body = await c.req.json()
-    const { reason } = refundSchema.parse(body)
+    const { reason, amount } = refundSchema.parse(body)
 
-    // 获取订单详情
-    const orderDetails = await orderService.getOrderWithDetails(orderId)
-    if (!orderDetails || !orderDetails.order) {
-      return c.json({
-        success: false,
-        error: '订单不存在',
-      }, 404)
-    }
-
-    const order = orderDetails.order
-
-    // 检查订单状态
-    if (order.status !== 'paid' && order.status !== 'delivered') {
-      return c.json({
-        success: false,
-        error: '只有已支付或已发货的订单才能退款',
-      }, 400)
-    }
+    const refund = await refundService.requestRefund({
+      orderId,
+      amount,
+      reason,
+      requestedBy: admin.username,
+    })
 
-    // TODO: 调用支付网关服务执行退款
-    // 临时实现：直接返回成功
     console.log(`管理员 ${admin.username} 在 ${clientIP} 执行了订单 ${orderId} 的退款操作`, {
       eventType: AdminEventType.ORDER_REFUND,
       eventCategory: AdminEventCategory.ORDER_MANAGEMENT,
       details: {
         orderId,
-        email: order.email,
-        amount: order.amount,
-        currency: order.currency,
-        gateway: order.gateway,
+        refundNo: refund.refundNo,
+        amount: refund.amount,
+        currency: refund.currency,
+        gateway: refund.gateway,
+        status: refund.status,
         reason,
       },
     })
 
+    if (refund.status === 'failed') {
+      return c.json({
+        success: false,
+        error: `支付网关退款失败：${refund.errorMessage}`,
+        data: refund,
+      }, 502)
+    }
+
     return c.json({
       success: true,
-      message: '退款操作成功',
-      data: {
-        orderId,
-        amount: order.amount,
-        currency: order.currency,
-        gateway: order.gateway,
-        refundAt: new Date().toISOString(),
-      },
+      message: refund.status === 'succeeded' ? '退款成功' : '退款已提交，等待支付网关处理',
+      data: refund,
     })
   } catch (error) {
     console.error('退款操作失败:', error)
@@ -293,6 +343,20 @@ app.post('/orders/:orderId/refund', requireAdminAuth, async (c) => {
       }, 400)
     }
 
+    if (error instanceof NotFoundError) {
+      return c.json({
+        success: false,
+        error: '订单不存在',
+      }, 404)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return c.json({
+        success: false,
+        error: error.message,
+      }, 400)
+    }
+
     return c.json({
       success: false,
       error: '退款操作失败，请稍后重试',
@@ -0,0 +1,90 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { gatewayRegistry, type GatewayPlugin } from '../services/gateways'
+import { paymentGatewayManager } from '../services/payment-gateway-service'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import { CONFIG } from '../config/api'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 配置更新请求验证模式（字段由网关插件的配置 schema 校验）
+const gatewayConfigUpdateSchema = z.object({
+  values: z.record(z.string(), z.unknown()),
+})
+
+/**
+ * 组装网关信息和当前配置（敏感字段不回显）
+ */
+async function describeGateway(plugin: GatewayPlugin) {
+  const { values, configuredSecrets } = await gatewayRegistry.getConfigValues(plugin)
+
+  return {
+    id: plugin.id,
+    displayName: plugin.displayName,
+    supportedCurrencies: plugin.supportedCurrencies,
+    recommendedCurrency: plugin.recommendedCurrency,
+    webhookUrl: `${CONFIG.API.BASE_URL}/webhooks/${plugin.id}`,
+    fields: gatewayRegistry.describeConfig(plugin),
+    values,
+    configuredSecrets,
+  }
+}
+
+/**
+ * 获取支付网关列表及配置表单
+ */
+app.get('/payment-gateways', adminAuth, async (c) => {
+  try {
+    const gateways = await Promise.all(gatewayRegistry.list().map(describeGateway))
+
+    return successResponse(c, { gateways })
+  } catch (error) {
+    console.error('获取支付网关配置失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取支付网关配置失败')
+  }
+})
+
+/**
+ * 更新支付网关配置（敏感字段留空表示保持原值）
+ */
+app.put('/payment-gateways/:id/config', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const plugin = gatewayRegistry.get(c.req.param('id'))
+    if (!plugin) {
+      return errors.NOT_FOUND(c, '支付网关不存在')
+    }
+
+    const body = gatewayConfigUpdateSchema.parse(await c.req.json())
+    const updatedFields = await gatewayRegistry.updateConfig(plugin, body.values, admin.username)
+
+    // 丢弃网关实例中缓存的旧配置
+    paymentGatewayManager.reloadGateway(plugin.id)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了支付网关 ${plugin.id} 的配置`, {
+      eventType: AdminEventType.GATEWAY_CONFIG_UPDATE,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: {
+        gateway: plugin.id,
+        updatedFields,
+      },
+    })
+
+    return successResponse(c, { gateway: await describeGateway(plugin) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '网关配置无效', error.issues)
+    }
+
+    console.error('更新支付网关配置失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新支付网关配置失败')
+  }
+})
+
+export default app
@@ -0,0 +1,350 @@
+import { Hono, type Context } from 'hono'
+import { z } from 'zod'
+import { productFileService } from '../services/product-file-service'
+import { fileStampService } from '../services/file-stamp-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP, sanitizeForLog } from '../utils/auth'
+import { AdminEventType, AdminEventCategory, FileVersionPolicy } from '../db/schema'
+import { STAMP_ID_PATTERN } from '../utils/file-stamp'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 文件版本信息验证模式
+const versionSchema = z.object({
+  version: z.string().trim().min(1, '请填写版本号').max(50, '版本号过长'),
+  changelog: z.string().max(2000, '更新说明过长').nullable().optional(),
+})
+
+// 分片上传会话验证模式
+const createUploadSchema = versionSchema.extend({
+  fileName: z.string().trim().min(1, '文件名不能为空').max(255, '文件名过长'),
+  fileSize: z.number().int().positive('文件大小无效'),
+  mimeType: z.string().max(100).optional(),
+  checksum: z.string().regex(/^[a-fA-F0-9]{64}$/, '校验和必须为 SHA-256').nullable().optional(),
+})
+
+// 当前发货版本验证模式
+const currentVersionSchema = z.object({
+  versionId: z.number().int().positive(),
+})
+
+// 版本策略验证模式
+const versionPolicySchema = z.object({
+  policy: z.enum([FileVersionPolicy.PURCHASED, FileVersionPolicy.LATEST]),
+})
+
+// 授权标记开关验证模式
+const stampingSchema = z.object({
+  enabled: z.boolean(),
+})
+
+// 按授权编号追踪验证模式
+const traceSchema = z.object({
+  stampId: z.string().trim().toUpperCase().regex(new RegExp(`^${STAMP_ID_PATTERN.source}$`), '授权编号格式无效'),
+})
+
+/**
+ * 文件接口的错误响应
+ */
+function fileErrorResponse(c: Context, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+  }
+
+  if (error instanceof NotFoundError) {
+    return error.resource === 'Product' ? errors.PRODUCT_NOT_FOUND(c) : errors.NOT_FOUND(c, '文件版本或上传任务不存在')
+  }
+
+  if (error instanceof BusinessLogicError) {
+    return errors.INVALID_REQUEST(c, error.message, { code: error.code })
+  }
+
+  console.error(`${message}:`, error)
+  return errors.INTERNAL_ERROR(c, message)
+}
+
+function parseProductId(c: Context): number {
+  return parseInt(c.req.param('id'))
+}
+
+/**
+ * 获取商品文件版本和版本策略
+ */
+app.get('/products/:id/files', adminAuth, async (c) => {
+  try {
+    const productId = parseProductId(c)
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    return successResponse(c, await productFileService.listVersions(productId))
+  } catch (error) {
+    return fileErrorResponse(c, error, '获取商品文件失败')
+  }
+})
+
+/**
+ * 直接上传商品文件（multipart/form-data，字段 file、version 和可选的 changelog）
+ */
+app.post('/products/:id/files', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseProductId(c)
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const body = await c.req.parseBody()
+    const file = body.file
+    if (!(file instanceof File)) {
+      return errors.INVALID_REQUEST(c, '请选择要上传的文件')
+    }
+
+    const input = versionSchema.parse({
+      version: body.version,
+      changelog: typeof body.changelog === 'string' ? body.changelog : null,
+    })
+    const version = await productFileService.uploadFile(productId, {
+      ...input,
+      content: Buffer.from(await file.arrayBuffer()),
+      originalName: file.name || 'file',
+      mimeType: file.type || undefined,
+      createdBy: admin.username,
+    })
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 为商品 ${productId} 上传了文件「${sanitizeForLog(file.name)}」版本 ${sanitizeForLog(version.version)}`, {
+      eventType: AdminEventType.PRODUCT_FILE_UPLOAD,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, versionId: version.id, size: version.fileSize, checksum: version.checksum },
+    })
+
+    return successResponse(c, { version })
+  } catch (error) {
+    return fileErrorResponse(c, error, '上传商品文件失败')
+  }
+})
+
+/**
+ * 创建分片上传任务
+ */
+app.post('/products/:id/files/uploads', adminAuth, async (c) => {
+  const admin = c.get('admin')
+
+  try {
+    const productId = parseProductId(c)
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const input = createUploadSchema.parse(await c.req.json())
+    const upload = await productFileService.createUpload(productId, { ...input, createdBy: admin.username })
+
+    return successResponse(c, { upload })
+  } catch (error) {
+    return fileErrorResponse(c, error, '创建上传任务失败')
+  }
+})
+
+/**
+ * 获取分片上传进度（断点续传时查询已上传的分片）
+ */
+app.get('/products/:id/files/uploads/:uploadId', adminAuth, async (c) => {
+  try {
+    const upload = await productFileService.getUpload(parseProductId(c), c.req.param('uploadId'))
+
+    return successResponse(c, { upload })
+  } catch (error) {
+    return fileErrorResponse(c, error, '获取上传进度失败')
+  }
+})
+
+/**
+ * 上传分片（请求体为分片的原始字节）
+ */
+app.put('/products/:id/files/uploads/:uploadId/chunks/:index', adminAuth, async (c) => {
+  try {
+    const index = parseInt(c.req.param('index'))
+    const content = Buffer.from(await c.req.arrayBuffer())
+    const upload = await productFileService.writeChunk(parseProductId(c), c.req.param('uploadId'), index, content)
+
+    return successResponse(c, { upload })
+  } catch (error) {
+    return fileErrorResponse(c, error, '上传分片失败')
+  }
+})
+
+/**
+ * 完成分片上传，校验后登记为新版本
+ */
+app.post('/products/:id/files/uploads/:uploadId/complete', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseProductId(c)
+    const version = await productFileService.completeUpload(productId, c.req.param('uploadId'))
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 为商品 ${productId} 上传了文件「${sanitizeForLog(version.fileName)}」版本 ${sanitizeForLog(version.version)}`, {
+      eventType: AdminEventType.PRODUCT_FILE_UPLOAD,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, versionId: version.id, size: version.fileSize, checksum: version.checksum, chunked: true },
+    })
+
+    return successResponse(c, { version })
+  } catch (error) {
+    return fileErrorResponse(c, error, '完成文件上传失败')
+  }
+})
+
+/**
+ * 取消分片上传
+ */
+app.delete('/products/:id/files/uploads/:uploadId', adminAuth, async (c) => {
+  try {
+    await productFileService.abortUpload(parseProductId(c), c.req.param('uploadId'))
+
+    return successResponse(c, { deleted: true })
+  } catch (error) {
+    return fileErrorResponse(c, error, '取消上传失败')
+  }
+})
+
+/**
+ * 设置新订单发货的文件版本
+ */
+app.put('/products/:id/files/current', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseProductId(c)
+    const { versionId } = currentVersionSchema.parse(await c.req.json())
+    await productFileService.setCurrentVersion(productId, versionId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 将商品 ${productId} 的发货文件切换为版本 ${versionId}`, {
+      eventType: AdminEventType.PRODUCT_FILE_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, versionId },
+    })
+
+    return successResponse(c, await productFileService.listVersions(productId))
+  } catch (error) {
+    return fileErrorResponse(c, error, '设置发货版本失败')
+  }
+})
+
+/**
+ * 设置已购买客户的文件版本策略（purchased / latest）
+ */
+app.put('/products/:id/files/policy', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseProductId(c)
+    const { policy } = versionPolicySchema.parse(await c.req.json())
+    await productFileService.setVersionPolicy(productId, policy)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 将商品 ${productId} 的文件版本策略设置为 ${policy}`, {
+      eventType: AdminEventType.PRODUCT_FILE_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, policy },
+    })
+
+    return successResponse(c, await productFileService.listVersions(productId))
+  } catch (error) {
+    return fileErrorResponse(c, error, '设置版本策略失败')
+  }
+})
+
+/**
+ * 开启或关闭买家专属文件副本（ZIP 内的授权文件、PDF 元数据）
+ */
+app.put('/products/:id/files/stamping', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseProductId(c)
+    const { enabled } = stampingSchema.parse(await c.req.json())
+    await productFileService.setStamping(productId, enabled)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} ${enabled ? '开启' : '关闭'}了商品 ${productId} 的文件授权标记`, {
+      eventType: AdminEventType.PRODUCT_FILE_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, stamping: enabled },
+    })
+
+    return successResponse(c, await productFileService.listVersions(productId))
+  } catch (error) {
+    return fileErrorResponse(c, error, '设置文件授权标记失败')
+  }
+})
+
+/**
+ * 追踪泄露的文件：上传文件（multipart/form-data，字段 file）或提交授权编号（{"stampId": "AS-..."}），返回对应的订单
+ */
+app.post('/files/trace', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    let result: Awaited<ReturnType<typeof fileStampService.traceContent>>
+    if (c.req.header('Content-Type')?.includes('multipart/form-data')) {
+      const body = await c.req.parseBody()
+      const file = body.file
+      if (!(file instanceof File)) {
+        return errors.INVALID_REQUEST(c, '请选择要追踪的文件')
+      }
+      result = await fileStampService.traceContent(Buffer.from(await file.arrayBuffer()))
+    } else {
+      const { stampId } = traceSchema.parse(await c.req.json())
+      result = { stampIds: [stampId], matches: await fileStampService.traceStampIds([stampId]) }
+    }
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 追踪了泄露文件，找到 ${result.matches.length} 个订单`, {
+      eventType: AdminEventType.FILE_TRACE,
+      eventCategory: AdminEventCategory.ORDER_MANAGEMENT,
+      details: { stampIds: result.stampIds, orderIds: result.matches.map(match => match.order.id) },
+    })
+
+    return successResponse(c, result)
+  } catch (error) {
+    return fileErrorResponse(c, error, '追踪文件失败')
+  }
+})
+
+/**
+ * 删除文件版本（当前版本和已发货的版本不能删除）
+ */
+app.delete('/products/:id/files/:versionId', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseProductId(c)
+    const versionId = parseInt(c.req.param('versionId'))
+    if (isNaN(productId) || isNaN(versionId)) {
+      return errors.INVALID_REQUEST(c, '无效的ID')
+    }
+
+    await productFileService.deleteVersion(productId, versionId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 删除了商品 ${productId} 的文件版本 ${versionId}`, {
+      eventType: AdminEventType.PRODUCT_FILE_DELETE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, versionId },
+    })
+
+    return successResponse(c, { deleted: true })
+  } catch (error) {
+    return fileErrorResponse(c, error, '删除文件版本失败')
+  }
+})
+
+export default app
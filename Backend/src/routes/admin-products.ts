@@ -2,9 +2,15 @@ import { Hono } from 'hono'
 import { z } from 'zod'
 import { productService } from '../services/product-service'
 import { inventoryService } from '../services/inventory-service'
+import { DEFAULT_TAX_CATEGORY } from '../services/tax-service'
+import { priceScheduleService } from '../services/price-schedule-service'
+import { productVariantService } from '../services/product-variant-service'
+import { catalogService } from '../services/catalog-service'
+import { productImageService } from '../services/product-image-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
 import { adminAuth } from '../middleware/admin-jwt-auth'
 import { getClientIP, sanitizeForLog } from '../utils/auth'
-import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { AdminEventType, AdminEventCategory, KeySource } from '../db/schema'
 import { validateProduct, validateProductPrice } from '../db/validation'
 import { successResponse, errors } from '../utils/response'
 import type { AppContext, AdminUser } from '../types/admin'
@@ -20,11 +26,69 @@ const updatePriceSchema = z.object({
   })),
 })
 
+// 计划价格验证模式：设置 endsAt 为限时促销，不设置为永久改价
+const schedulePriceSchema = z.object({
+  variantId: z.number().int().positive().nullable().optional(),
+  currency: z.string().trim().toUpperCase(),
+  price: z.number().positive('价格必须大于 0'),
+  compareAtPrice: z.number().positive().nullable().optional(),
+  startsAt: z.string().min(1, '请设置开始时间'),
+  endsAt: z.string().min(1).nullable().optional(),
+})
+
+// 商品规格验证模式
+const variantSchema = z.object({
+  name: z.string().trim().min(1, '规格名称不能为空').max(100, '规格名称过长'),
+  templateText: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+})
+
+// 创建规格验证模式（可同时设置价格）
+const createVariantSchema = variantSchema.extend({
+  prices: updatePriceSchema.shape.prices.optional(),
+})
+
 // 商品状态更新验证模式
 const updateProductStatusSchema = z.object({
   isActive: z.boolean(),
 })
 
+// 购买数量限制：maxQuantity 为空表示不限
+const isValidQuantityRange = (data: { minQuantity?: number; maxQuantity?: number | null }) =>
+  data.maxQuantity == null || data.maxQuantity >= (data.minQuantity ?? 1)
+const quantityRangeError = { message: '最多购买数量不能小于最少购买数量', path: ['maxQuantity'] }
+
+// 购买数量限制更新验证模式
+const updateQuantityLimitsSchema = z.object({
+  minQuantity: z.number().int().min(1, '最少购买数量至少为1'),
+  maxQuantity: z.number().int().min(1, '最多购买数量至少为1').nullable(),
+}).refine(isValidQuantityRange, quantityRangeError)
+
+// 税务分类（与 tax_rules.tax_category 对应）
+const taxCategorySchema = z.string().trim().toLowerCase().min(1, '税务分类不能为空').max(50, '税务分类过长')
+  .regex(/^[a-z0-9_-]+$/, '税务分类只能包含字母、数字、下划线和横线')
+
+// 税务分类更新验证模式
+const updateTaxCategorySchema = z.object({
+  taxCategory: taxCategorySchema,
+})
+
+// 商品分类和标签（categoryId 为空表示未分类）
+const productCatalogSchema = z.object({
+  categoryId: z.number().int().positive().nullable(),
+  tags: z.array(z.string().max(50, '标签名称过长')).max(20, '标签不能超过20个'),
+})
+
+// 商品图片说明和排序验证模式
+const imageUpdateSchema = z.object({
+  altText: z.string().max(255, '图片说明过长').nullable(),
+})
+
+const imageOrderSchema = z.object({
+  imageIds: z.array(z.number().int().positive()).min(1, '图片列表不能为空'),
+})
+
 // 批量状态更新验证模式
 const batchUpdateStatusSchema = z.object({
   productIds: z.array(z.number().int().positive()).min(1, '至少需要选择一个商品'),
@@ -42,7 +106,12 @@ const createProductWithPricesSchema = z.object({
     price: z.number().positive('价格必须大于0'),
     isActive: z.boolean().optional(),
   })).min(1, '至少需要设置一个价格'),
-})
+  minQuantity: z.number().int().min(1, '最少购买数量至少为1').optional(),
+  maxQuantity: z.number().int().min(1, '最多购买数量至少为1').nullable().optional(),
+  taxCategory: taxCategorySchema.optional(),
+  categoryId: productCatalogSchema.shape.categoryId.optional(),
+  tags: productCatalogSchema.shape.tags.optional(),
+}).refine(isValidQuantityRange, quantityRangeError)
 
 
 /**
@@ -56,6 +125,10 @@ app.post('/products', adminAuth, async (c) => {
     const body = await c.req.json()
     const validatedData = createProductWithPricesSchema.parse(body)
 
+    if (validatedData.categoryId && !(await catalogService.getCategory(validatedData.categoryId))) {
+      return c.json({ success: false, error: '分类不存在' }, 400)
+    }
+
     // 创建商品基本信息
     const productData = {
       name: validatedData.name,
@@ -64,11 +137,19 @@ app.post('/products', adminAuth, async (c) => {
       templateText: validatedData.templateText || '',
       isActive: true,
       sortOrder: 0,
+      minQuantity: validatedData.minQuantity ?? 1,
+      maxQuantity: validatedData.maxQuantity ?? null,
+      taxCategory: validatedData.taxCategory ?? DEFAULT_TAX_CATEGORY,
+      categoryId: validatedData.categoryId ?? null,
     }
 
     // 创建商品
     const newProduct = await productService.createProduct(productData)
 
+    if (validatedData.tags && validatedData.tags.length > 0) {
+      await catalogService.setProductTags(newProduct.id, validatedData.tags)
+    }
+
     // 设置商品价格
     const pricePromises = validatedData.prices.map(async (priceData) => {
       return productService.addProductPrice(newProduct.id, {
@@ -128,6 +209,8 @@ app.get('/products', adminAuth, async (c) => {
     const limit = parseInt(c.req.query('limit') || '20')
     const search = c.req.query('search') || ''
     const isActive = c.req.query('isActive')
+    const categoryId = c.req.query('categoryId')
+    const tag = c.req.query('tag')
 
     // 构建查询条件
     const query: any = {
@@ -144,6 +227,14 @@ app.get('/products', adminAuth, async (c) => {
       query.isActive = isActive === 'true'
     }
 
+    if (categoryId) {
+      query.categoryId = categoryId
+    }
+
+    if (tag) {
+      query.tag = tag
+    }
+
     // 获取商品列表（包含价格信息，已优化：使用 JOIN 避免 N+1 查询）
     const productsResult = await productService.queryProducts(query, true)
     const { products, pagination } = productsResult
@@ -173,6 +264,10 @@ app.get('/products', adminAuth, async (c) => {
       pagination,
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '查询参数无效', error.issues)
+    }
+
     console.error('获取商品列表失败:', error)
     return errors.INTERNAL_ERROR(c, '获取商品列表失败')
   }
@@ -200,12 +295,18 @@ app.get('/products/:id', adminAuth, async (c) => {
 
     // 获取库存信息
     const inventoryStats = await inventoryService.getProductInventoryStats(productId)
+    const [productTags, images] = await Promise.all([
+      catalogService.getProductTags([productId]),
+      productImageService.listImages(productId),
+    ])
 
     return c.json({
       success: true,
       data: {
         ...product,
         prices,
+        tags: productTags.get(productId) || [],
+        images,
         inventory: inventoryStats,
         inventoryStatus: getInventoryStatus(inventoryStats.available),
       },
@@ -352,6 +453,31 @@ app.get('/inventory/low-stock', adminAuth, async (c) => {
     const lowStockProducts = []
 
     for (const product of products) {
+      // 始终自动生成卡密的商品不会缺货
+      if (product.keySource === KeySource.GENERATOR) {
+        continue
+      }
+
+      // 有规格的商品按规格库存池分别预警
+      const variants = await productVariantService.listVariants(product.id, true)
+      if (variants.length > 0) {
+        const variantStats = await inventoryService.getVariantInventoryStats(product.id)
+        for (const variant of variants) {
+          const stats = variantStats.get(variant.id) || { total: 0, used: 0, available: 0, expired: 0, usageRate: 0 }
+          const status = getInventoryStatus(stats.available)
+
+          if (status === '库存紧张' || status === '已售罄') {
+            lowStockProducts.push({
+              ...product,
+              variant: { id: variant.id, name: variant.name },
+              inventory: stats,
+              inventoryStatus: status,
+            })
+          }
+        }
+        continue
+      }
+
       const stats = await inventoryService.getProductInventoryStats(product.id)
       const status = getInventoryStatus(stats.available)
 
@@ -448,6 +574,674 @@ app.patch('/products/:id/status', adminAuth, async (c) => {
   }
 })
 
+/**
+ * 更新商品购买数量限制
+ */
+app.patch('/products/:id/quantity-limits', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    const body = await c.req.json()
+    const { minQuantity, maxQuantity } = updateQuantityLimitsSchema.parse(body)
+
+    if (isNaN(productId)) {
+      return c.json({ error: '无效的商品ID' }, 400)
+    }
+
+    // 验证商品是否存在
+    const product = await productService.getProductById(productId)
+    if (!product) {
+      return c.json({ error: '商品不存在' }, 404)
+    }
+
+    await productService.updateProduct(productId, {
+      minQuantity,
+      maxQuantity,
+      updatedAt: new Date(),
+    })
+
+    // 记录管理员操作日志
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品 ${product.name} 的购买数量限制`, {
+      eventType: AdminEventType.PRODUCT_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        productId,
+        productName: product.name,
+        oldLimits: { minQuantity: product.minQuantity, maxQuantity: product.maxQuantity },
+        newLimits: { minQuantity, maxQuantity },
+      },
+    })
+
+    return c.json({
+      success: true,
+      message: '购买数量限制更新成功',
+      data: {
+        productId,
+        minQuantity,
+        maxQuantity,
+      },
+    })
+  } catch (error) {
+    console.error('更新购买数量限制失败:', error)
+
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: '输入数据无效',
+        details: error.issues,
+      }, 400)
+    }
+
+    return c.json({
+      success: false,
+      error: '更新购买数量限制失败',
+    }, 500)
+  }
+})
+
+/**
+ * 更新商品税务分类
+ */
+app.patch('/products/:id/tax-category', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    const body = await c.req.json()
+    const { taxCategory } = updateTaxCategorySchema.parse(body)
+
+    if (isNaN(productId)) {
+      return c.json({ error: '无效的商品ID' }, 400)
+    }
+
+    // 验证商品是否存在
+    const product = await productService.getProductById(productId)
+    if (!product) {
+      return c.json({ error: '商品不存在' }, 404)
+    }
+
+    await productService.updateProduct(productId, {
+      taxCategory,
+      updatedAt: new Date(),
+    })
+
+    // 记录管理员操作日志
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品 ${product.name} 的税务分类`, {
+      eventType: AdminEventType.PRODUCT_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        productId,
+        productName: product.name,
+        oldTaxCategory: product.taxCategory,
+        newTaxCategory: taxCategory,
+      },
+    })
+
+    return c.json({
+      success: true,
+      message: '税务分类更新成功',
+      data: {
+        productId,
+        taxCategory,
+      },
+    })
+  } catch (error) {
+    console.error('更新税务分类失败:', error)
+
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: '输入数据无效',
+        details: error.issues,
+      }, 400)
+    }
+
+    return c.json({
+      success: false,
+      error: '更新税务分类失败',
+    }, 500)
+  }
+})
+
+/**
+ * 更新商品分类和标签
+ */
+app.patch('/products/:id/catalog', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const { categoryId, tags } = productCatalogSchema.parse(await c.req.json())
+
+    const product = await productService.getProductById(productId)
+    if (!product) {
+      return errors.PRODUCT_NOT_FOUND(c)
+    }
+
+    await catalogService.setProductCategory(productId, categoryId)
+    const productTags = await catalogService.setProductTags(productId, tags)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品 ${product.name} 的分类和标签`, {
+      eventType: AdminEventType.PRODUCT_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        productId,
+        oldCategoryId: product.categoryId,
+        newCategoryId: categoryId,
+        tags: productTags,
+      },
+    })
+
+    return successResponse(c, {
+      productId,
+      categoryId,
+      tags: productTags,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '分类不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('更新商品分类和标签失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新商品分类和标签失败')
+  }
+})
+
+/**
+ * 获取商品价格变更记录（即将生效和历史的计划价格）
+ */
+app.get('/products/:id/price-schedule', adminAuth, async (c) => {
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const [prices, schedule] = await Promise.all([
+      productService.getProductPrices(productId, false),
+      priceScheduleService.listSchedule(productId),
+    ])
+
+    return successResponse(c, { prices, schedule })
+  } catch (error) {
+    console.error('获取价格变更记录失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取价格变更记录失败')
+  }
+})
+
+/**
+ * 创建计划价格（限时促销或定时改价）
+ */
+app.post('/products/:id/price-schedule', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const body = schedulePriceSchema.parse(await c.req.json())
+    const schedule = await priceScheduleService.schedulePrice(productId, body)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 为商品 ${productId} 创建了计划价格`, {
+      eventType: AdminEventType.PRICE_SCHEDULE_CREATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: {
+        productId,
+        scheduleId: schedule.id,
+        currency: schedule.currency,
+        price: schedule.price,
+        startsAt: schedule.startsAt,
+        endsAt: schedule.endsAt,
+      },
+    })
+
+    return successResponse(c, { schedule })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.PRODUCT_NOT_FOUND(c)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('创建计划价格失败:', error)
+    return errors.INTERNAL_ERROR(c, '创建计划价格失败')
+  }
+})
+
+/**
+ * 取消计划价格（未生效的删除，进行中的促销立即结束）
+ */
+app.delete('/products/:id/price-schedule/:scheduleId', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    const scheduleId = parseInt(c.req.param('scheduleId'))
+    if (isNaN(productId) || isNaN(scheduleId)) {
+      return errors.INVALID_REQUEST(c, '无效的ID')
+    }
+
+    const schedule = await priceScheduleService.cancelSchedule(productId, scheduleId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 取消了商品 ${productId} 的计划价格 ${scheduleId}`, {
+      eventType: AdminEventType.PRICE_SCHEDULE_CANCEL,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, scheduleId, endedEarly: schedule !== null },
+    })
+
+    return successResponse(c, { schedule })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '计划价格不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('取消计划价格失败:', error)
+    return errors.INTERNAL_ERROR(c, '取消计划价格失败')
+  }
+})
+
+/**
+ * 获取商品规格列表（含各规格价格和库存）
+ */
+app.get('/products/:id/variants', adminAuth, async (c) => {
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const [variants, inventoryStats] = await Promise.all([
+      productVariantService.listVariants(productId),
+      inventoryService.getVariantInventoryStats(productId),
+    ])
+
+    const variantsWithDetails = await Promise.all(variants.map(async (variant) => {
+      const stats = inventoryStats.get(variant.id) || { total: 0, used: 0, available: 0 }
+      return {
+        ...variant,
+        prices: await productVariantService.getVariantPrices(variant.id),
+        inventory: {
+          available: stats.available,
+          total: stats.total,
+          used: stats.used,
+        },
+        inventoryStatus: getInventoryStatus(stats.available),
+      }
+    }))
+
+    return successResponse(c, { variants: variantsWithDetails })
+  } catch (error) {
+    console.error('获取商品规格失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取商品规格失败')
+  }
+})
+
+/**
+ * 创建商品规格
+ */
+app.post('/products/:id/variants', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const { prices, ...input } = createVariantSchema.parse(await c.req.json())
+    const variant = await productVariantService.createVariant(productId, input, prices)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 为商品 ${productId} 创建了规格「${sanitizeForLog(variant.name)}」`, {
+      eventType: AdminEventType.PRODUCT_VARIANT_CREATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, variantId: variant.id, name: variant.name },
+    })
+
+    return successResponse(c, { variant })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.PRODUCT_NOT_FOUND(c)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('创建商品规格失败:', error)
+    return errors.INTERNAL_ERROR(c, '创建商品规格失败')
+  }
+})
+
+/**
+ * 更新商品规格
+ */
+app.put('/products/:id/variants/:variantId', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    const variantId = parseInt(c.req.param('variantId'))
+    if (isNaN(productId) || isNaN(variantId)) {
+      return errors.INVALID_REQUEST(c, '无效的ID')
+    }
+
+    const input = variantSchema.partial().parse(await c.req.json())
+    const variant = await productVariantService.updateVariant(productId, variantId, input)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品 ${productId} 的规格 ${variantId}`, {
+      eventType: AdminEventType.PRODUCT_VARIANT_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, variantId, changes: Object.keys(input) },
+    })
+
+    return successResponse(c, { variant })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '规格不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('更新商品规格失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新商品规格失败')
+  }
+})
+
+/**
+ * 设置规格价格
+ */
+app.put('/products/:id/variants/:variantId/prices', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    const variantId = parseInt(c.req.param('variantId'))
+    if (isNaN(productId) || isNaN(variantId)) {
+      return errors.INVALID_REQUEST(c, '无效的ID')
+    }
+
+    const { prices } = updatePriceSchema.parse(await c.req.json())
+    const updated = await productVariantService.setVariantPrices(productId, variantId, prices)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品 ${productId} 规格 ${variantId} 的价格`, {
+      eventType: AdminEventType.PRODUCT_VARIANT_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, variantId, prices },
+    })
+
+    return successResponse(c, { prices: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '规格不存在')
+    }
+
+    console.error('更新规格价格失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新规格价格失败')
+  }
+})
+
+/**
+ * 删除商品规格（已有订单的规格只能停用）
+ */
+app.delete('/products/:id/variants/:variantId', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    const variantId = parseInt(c.req.param('variantId'))
+    if (isNaN(productId) || isNaN(variantId)) {
+      return errors.INVALID_REQUEST(c, '无效的ID')
+    }
+
+    await productVariantService.deleteVariant(productId, variantId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 删除了商品 ${productId} 的规格 ${variantId}`, {
+      eventType: AdminEventType.PRODUCT_VARIANT_DELETE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, variantId },
+    })
+
+    return successResponse(c, { deleted: true })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '规格不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('删除商品规格失败:', error)
+    return errors.INTERNAL_ERROR(c, '删除商品规格失败')
+  }
+})
+
+/**
+ * 获取商品图片（按排序，第一张为封面）
+ */
+app.get('/products/:id/images', adminAuth, async (c) => {
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const images = await productImageService.listImages(productId)
+
+    return successResponse(c, { images })
+  } catch (error) {
+    console.error('获取商品图片失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取商品图片失败')
+  }
+})
+
+/**
+ * 上传商品图片（multipart/form-data，字段 file 和可选的 altText）
+ */
+app.post('/products/:id/images', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const body = await c.req.parseBody()
+    const file = body.file
+    if (!(file instanceof File)) {
+      return errors.INVALID_REQUEST(c, '请选择要上传的图片')
+    }
+
+    const image = await productImageService.uploadImage(productId, {
+      content: Buffer.from(await file.arrayBuffer()),
+      originalName: file.name || 'image',
+      altText: typeof body.altText === 'string' ? body.altText.slice(0, 255) : null,
+      createdBy: admin.username,
+    })
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 为商品 ${productId} 上传了图片「${sanitizeForLog(file.name)}」`, {
+      eventType: AdminEventType.PRODUCT_IMAGE_UPLOAD,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, imageId: image.id, size: file.size },
+    })
+
+    return successResponse(c, { image })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.PRODUCT_NOT_FOUND(c)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('上传商品图片失败:', error)
+    return errors.INTERNAL_ERROR(c, '上传商品图片失败')
+  }
+})
+
+/**
+ * 调整商品图片顺序（第一张为封面）
+ */
+app.put('/products/:id/images/order', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    if (isNaN(productId)) {
+      return errors.INVALID_REQUEST(c, '无效的商品ID')
+    }
+
+    const { imageIds } = imageOrderSchema.parse(await c.req.json())
+    const images = await productImageService.reorderImages(productId, imageIds)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 调整了商品 ${productId} 的图片顺序`, {
+      eventType: AdminEventType.PRODUCT_IMAGE_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, imageIds },
+    })
+
+    return successResponse(c, { images })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.PRODUCT_NOT_FOUND(c)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('调整商品图片顺序失败:', error)
+    return errors.INTERNAL_ERROR(c, '调整商品图片顺序失败')
+  }
+})
+
+/**
+ * 更新商品图片说明
+ */
+app.patch('/products/:id/images/:imageId', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    const imageId = parseInt(c.req.param('imageId'))
+    if (isNaN(productId) || isNaN(imageId)) {
+      return errors.INVALID_REQUEST(c, '无效的ID')
+    }
+
+    const input = imageUpdateSchema.parse(await c.req.json())
+    const image = await productImageService.updateImage(productId, imageId, input)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了商品 ${productId} 的图片 ${imageId}`, {
+      eventType: AdminEventType.PRODUCT_IMAGE_UPDATE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, imageId },
+    })
+
+    return successResponse(c, { image })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '图片不存在')
+    }
+
+    console.error('更新商品图片失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新商品图片失败')
+  }
+})
+
+/**
+ * 删除商品图片
+ */
+app.delete('/products/:id/images/:imageId', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const productId = parseInt(c.req.param('id'))
+    const imageId = parseInt(c.req.param('imageId'))
+    if (isNaN(productId) || isNaN(imageId)) {
+      return errors.INVALID_REQUEST(c, '无效的ID')
+    }
+
+    await productImageService.deleteImage(productId, imageId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 删除了商品 ${productId} 的图片 ${imageId}`, {
+      eventType: AdminEventType.PRODUCT_IMAGE_DELETE,
+      eventCategory: AdminEventCategory.PRODUCT_MANAGEMENT,
+      details: { productId, imageId },
+    })
+
+    return successResponse(c, { deleted: true })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '图片不存在')
+    }
+
+    console.error('删除商品图片失败:', error)
+    return errors.INTERNAL_ERROR(c, '删除商品图片失败')
+  }
+})
+
 /**
  * 批量更新商品状态
  */
@@ -0,0 +1,113 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { reconciliationService } from '../services/reconciliation-service'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 对账批次分页验证模式
+const runQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+// 手动对账请求验证模式
+const runRequestSchema = z.object({
+  minAgeMinutes: z.number().int().min(0).max(24 * 60).optional(),
+})
+
+/**
+ * 获取对账批次列表
+ */
+app.get('/reconciliation/runs', adminAuth, async (c) => {
+  try {
+    const query = runQuerySchema.parse({
+      page: c.req.query('page'),
+      limit: c.req.query('limit'),
+    })
+
+    const { runs, total } = await reconciliationService.listRuns(query.page, query.limit)
+
+    return successResponse(c, {
+      runs,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '查询参数无效', error.issues)
+    }
+
+    console.error('获取对账记录失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取对账记录失败')
+  }
+})
+
+/**
+ * 获取对账报告（批次汇总和逐单明细）
+ */
+app.get('/reconciliation/runs/:id', adminAuth, async (c) => {
+  try {
+    const runId = parseInt(c.req.param('id'))
+    if (isNaN(runId)) {
+      return errors.INVALID_REQUEST(c, '无效的对账批次ID')
+    }
+
+    const report = await reconciliationService.getRun(runId)
+    if (!report) {
+      return errors.NOT_FOUND(c, '对账批次不存在')
+    }
+
+    return successResponse(c, report)
+  } catch (error) {
+    console.error('获取对账报告失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取对账报告失败')
+  }
+})
+
+/**
+ * 立即执行一次对账
+ */
+app.post('/reconciliation/runs', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = runRequestSchema.parse(await c.req.json().catch(() => ({})))
+
+    const run = await reconciliationService.runReconciliation(admin.username, body)
+    if (!run) {
+      return errors.INVALID_REQUEST(c, '对账正在进行中，请稍后再试')
+    }
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 执行了支付对账`, {
+      eventType: AdminEventType.RECONCILIATION_RUN,
+      eventCategory: AdminEventCategory.ORDER_MANAGEMENT,
+      details: {
+        runId: run.id,
+        checked: run.checkedCount,
+        recovered: run.recoveredCount,
+        mismatched: run.mismatchedCount,
+      },
+    })
+
+    return successResponse(c, { run })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    console.error('执行对账失败:', error)
+    return errors.INTERNAL_ERROR(c, '执行对账失败')
+  }
+})
+
+export default app
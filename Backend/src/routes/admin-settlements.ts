@@ -0,0 +1,150 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { settlementService } from '../services/settlement-service'
+import { BusinessLogicError } from '../services/error-handler'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 结算文件大小上限（按字符计）
+const MAX_SETTLEMENT_FILE_LENGTH = 5 * 1024 * 1024
+
+// 导入记录分页验证模式
+const importQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+// 结算文件导入验证模式
+const importRequestSchema = z.object({
+  gateway: z.enum(['alipay', 'creem']),
+  fileName: z.string().min(1).max(255),
+  content: z.string().min(1, '结算文件内容不能为空').max(MAX_SETTLEMENT_FILE_LENGTH, '结算文件过大'),
+})
+
+/**
+ * 获取结算文件导入记录
+ */
+app.get('/settlements', adminAuth, async (c) => {
+  try {
+    const query = importQuerySchema.parse({
+      page: c.req.query('page'),
+      limit: c.req.query('limit'),
+    })
+
+    const { imports, total } = await settlementService.listImports(query.page, query.limit)
+
+    return successResponse(c, {
+      imports,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '查询参数无效', error.issues)
+    }
+
+    console.error('获取结算导入记录失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取结算导入记录失败')
+  }
+})
+
+/**
+ * 导入网关结算文件并核对
+ */
+app.post('/settlements/import', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = importRequestSchema.parse(await c.req.json())
+
+    const settlement = await settlementService.importSettlement({
+      ...body,
+      importedBy: admin.username,
+    })
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 导入了结算文件`, {
+      eventType: AdminEventType.SETTLEMENT_IMPORT,
+      eventCategory: AdminEventCategory.ORDER_MANAGEMENT,
+      details: {
+        importId: settlement.id,
+        gateway: settlement.gateway,
+        fileName: settlement.fileName,
+        lineCount: settlement.lineCount,
+        discrepancyCount: settlement.discrepancyCount,
+      },
+    })
+
+    return successResponse(c, { settlement })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('导入结算文件失败:', error)
+    return errors.INTERNAL_ERROR(c, '导入结算文件失败')
+  }
+})
+
+/**
+ * 获取导入记录及差异明细
+ */
+app.get('/settlements/:id', adminAuth, async (c) => {
+  try {
+    const importId = parseInt(c.req.param('id'))
+    if (isNaN(importId)) {
+      return errors.INVALID_REQUEST(c, '无效的导入记录ID')
+    }
+
+    const result = await settlementService.getImport(importId)
+    if (!result) {
+      return errors.NOT_FOUND(c, '导入记录不存在')
+    }
+
+    return successResponse(c, result)
+  } catch (error) {
+    console.error('获取结算差异失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取结算差异失败')
+  }
+})
+
+/**
+ * 下载差异报告（CSV）
+ */
+app.get('/settlements/:id/report', adminAuth, async (c) => {
+  try {
+    const importId = parseInt(c.req.param('id'))
+    if (isNaN(importId)) {
+      return errors.INVALID_REQUEST(c, '无效的导入记录ID')
+    }
+
+    const report = await settlementService.exportDiscrepancyReport(importId)
+    if (!report) {
+      return errors.NOT_FOUND(c, '导入记录不存在')
+    }
+
+    // 加 BOM 以便 Excel 正确识别中文
+    return c.body(`﻿${report.data}`, 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${report.filename}"`,
+    })
+  } catch (error) {
+    console.error('导出结算差异报告失败:', error)
+    return errors.INTERNAL_ERROR(c, '导出结算差异报告失败')
+  }
+})
+
+export default app
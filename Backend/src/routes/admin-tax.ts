@@ -0,0 +1,151 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { taxService } from '../services/tax-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
+import { adminAuth } from '../middleware/admin-jwt-auth'
+import { getClientIP } from '../utils/auth'
+import { AdminEventType, AdminEventCategory } from '../db/schema'
+import { successResponse, errors } from '../utils/response'
+import type { AdminUser } from '../types/admin'
+
+const app = new Hono<{ Variables: { admin: AdminUser; sessionId: string } }>()
+
+// 税率规则验证模式（taxCategory 为空表示该国家的默认税率）
+const taxRuleSchema = z.object({
+  country: z.string().trim().regex(/^[A-Za-z]{2}$/, '国家代码必须为两位字母'),
+  taxCategory: z.string().trim().max(50, '税务分类过长')
+    .regex(/^[A-Za-z0-9_-]*$/, '税务分类只能包含字母、数字、下划线和横线').nullable().optional(),
+  name: z.string().trim().max(50, '税种名称过长').optional(),
+  rate: z.number().min(0, '税率不能为负数').max(100, '税率不能超过100'),
+  isActive: z.boolean().optional(),
+})
+
+/**
+ * 获取税率规则列表
+ */
+app.get('/tax-rules', adminAuth, async (c) => {
+  try {
+    const rules = await taxService.listRules()
+
+    return successResponse(c, { rules })
+  } catch (error) {
+    console.error('获取税率规则失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取税率规则失败')
+  }
+})
+
+/**
+ * 创建税率规则
+ */
+app.post('/tax-rules', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const body = taxRuleSchema.parse(await c.req.json())
+    const rule = await taxService.createRule(body)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 创建了税率规则 ${rule.country}/${rule.taxCategory ?? '默认'}`, {
+      eventType: AdminEventType.TAX_RULE_CREATE,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: {
+        ruleId: rule.id,
+        country: rule.country,
+        taxCategory: rule.taxCategory,
+        rate: rule.rate,
+      },
+    })
+
+    return successResponse(c, { rule })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('创建税率规则失败:', error)
+    return errors.INTERNAL_ERROR(c, '创建税率规则失败')
+  }
+})
+
+/**
+ * 更新税率规则
+ */
+app.put('/tax-rules/:id', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const ruleId = parseInt(c.req.param('id'))
+    if (isNaN(ruleId)) {
+      return errors.INVALID_REQUEST(c, '无效的税率规则ID')
+    }
+
+    const body = taxRuleSchema.parse(await c.req.json())
+    const rule = await taxService.updateRule(ruleId, body)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 更新了税率规则 ${rule.country}/${rule.taxCategory ?? '默认'}`, {
+      eventType: AdminEventType.TAX_RULE_UPDATE,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: {
+        ruleId,
+        rate: rule.rate,
+        isActive: rule.isActive,
+      },
+    })
+
+    return successResponse(c, { rule })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '请求参数无效', error.issues)
+    }
+
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '税率规则不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      return errors.INVALID_REQUEST(c, error.message)
+    }
+
+    console.error('更新税率规则失败:', error)
+    return errors.INTERNAL_ERROR(c, '更新税率规则失败')
+  }
+})
+
+/**
+ * 删除税率规则
+ */
+app.delete('/tax-rules/:id', adminAuth, async (c) => {
+  const admin = c.get('admin')
+  const clientIP = getClientIP(c.req)
+
+  try {
+    const ruleId = parseInt(c.req.param('id'))
+    if (isNaN(ruleId)) {
+      return errors.INVALID_REQUEST(c, '无效的税率规则ID')
+    }
+
+    await taxService.deleteRule(ruleId)
+
+    console.log(`管理员 ${admin.username} 在 ${clientIP} 删除了税率规则 ${ruleId}`, {
+      eventType: AdminEventType.TAX_RULE_DELETE,
+      eventCategory: AdminEventCategory.SYSTEM_CONFIG,
+      details: { ruleId },
+    })
+
+    return successResponse(c, { deleted: true })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '税率规则不存在')
+    }
+
+    console.error('删除税率规则失败:', error)
+    return errors.INTERNAL_ERROR(c, '删除税率规则失败')
+  }
+})
+
+export default app
@@ -1,12 +1,18 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { zValidator } from '@hono/zod-validator'
 import { z } from 'zod'
-import { db } from '../db'
-import { products, productPrices, orders } from '../db/schema'
+import { db, withTransaction } from '../db'
+import { products, productPrices, orders, orderItems } from '../db/schema'
 import { eq, and } from 'drizzle-orm'
 import { paymentService } from '../services/payment-service'
-import { Gateway } from '../types/orders'
+import { Gateway, type GatewayType } from '../types/orders'
+import { gatewayRegistry } from '../services/gateways'
 import { CONFIG } from '../config/api'
+import { couponService, MAX_COUPONS_PER_ORDER } from '../services/coupon-service'
+import { pricingService, type OrderPricing } from '../services/pricing-service'
+import { exchangeRateService } from '../services/exchange-rate-service'
+import { BusinessLogicError } from '../services/error-handler'
+import { getClientCountry } from '../utils/auth'
 
 const app = new Hono()
 
@@ -34,110 +40,220 @@ function getBeijingTimeString(): string {
   return beijingTime.toISOString().replace('Z', '+08:00')
 }
 
-// 订单创建请求的验证 schema
+// 购物车限制
+const MAX_CART_ITEMS = 20
+const MAX_ITEM_QUANTITY = 99
+
+const quantitySchema = z.number().int().min(1, '购买数量至少为1').max(MAX_ITEM_QUANTITY, `单个商品最多购买${MAX_ITEM_QUANTITY}件`)
+
+const couponCodesSchema = z.array(z.string().trim().min(1, '优惠码不能为空').max(64, '优惠码过长'))
+  .max(MAX_COUPONS_PER_ORDER, `每笔订单最多使用${MAX_COUPONS_PER_ORDER}个优惠码`)
+
+// 规格ID（有规格的商品必填）
+const variantIdSchema = z.coerce.number().int().positive('规格ID格式不正确').optional()
+
+// 下单商品的验证 schema（价格由服务端计算，客户端只提交商品、规格和数量）
+const checkoutItemsSchema = z.array(z.object({
+  productId: z.coerce.number().int().positive('商品ID格式不正确'),
+  variantId: variantIdSchema,
+  quantity: quantitySchema,
+}))
+  .min(1, '购物车不能为空')
+  .max(MAX_CART_ITEMS, `购物车最多包含${MAX_CART_ITEMS}种商品`)
+  .refine((items) => new Set(items.map(item => `${item.productId}:${item.variantId ?? ''}`)).size === items.length, {
+    message: '购物车中存在重复商品'
+  })
+
+const currencySchema = z.enum(['CNY', 'USD', 'EUR', 'JPY'], {
+  message: '不支持的货币类型'
+})
+
+// 买家国家（用于计税），未填写时根据客户端IP识别
+const countrySchema = z.string().trim().regex(/^[A-Za-z]{2}$/, '国家代码格式不正确').optional()
+
+// 报价请求的验证 schema
+const quoteSchema = z.object({
+  items: checkoutItemsSchema,
+  currency: currencySchema,
+  email: z.string().email('请输入有效的邮箱地址').optional(),
+  couponCodes: couponCodesSchema.optional(),
+  country: countrySchema,
+})
+
+// 订单创建请求的验证 schema（需回传报价令牌）
 const createOrderSchema = z.object({
   productId: z.string().min(1, '商品ID不能为空'),
   productName: z.string().min(1, '商品名称不能为空'),
-  price: z.number().positive('价格必须大于0'),
-  currency: z.enum(['CNY', 'USD']).refine((val) => ['CNY', 'USD'].includes(val), {
-    message: '不支持的货币类型'
-  }),
+  variantId: variantIdSchema,
+  currency: currencySchema,
   email: z.string().email('请输入有效的邮箱地址'),
-  gateway: z.enum(['alipay', 'creem', 'paypal']).refine((val) => ['alipay', 'creem', 'paypal'].includes(val), {
+  gateway: z.enum(gatewayRegistry.ids() as [GatewayType, ...GatewayType[]], {
     message: '不支持的支付网关'
   }),
+  quantity: quantitySchema.optional(),
+  couponCodes: couponCodesSchema.optional(),
+  country: countrySchema,
+  buyerCompany: z.string().trim().max(200, '发票抬头过长').optional(), // 发票抬头
+  buyerTaxId: z.string().trim().max(50, '税号过长').optional(),
+  quoteToken: z.string().min(1, '缺少订单报价，请刷新页面重试'),
+})
+
+// 购物车订单创建请求的验证 schema（所有商品使用同一货币）
+const createCartOrderSchema = createOrderSchema.pick({ currency: true, email: true, gateway: true, couponCodes: true, country: true, buyerCompany: true, buyerTaxId: true, quoteToken: true }).extend({
+  items: checkoutItemsSchema,
 })
 
 /**
- * 创建订单API端点
- * POST /api/v1/checkout/create
+ * 计价相关业务错误的响应（错误信息可直接展示给用户）
+ */
+function pricingErrorResponse(c: Context, error: BusinessLogicError) {
+  return c.json({
+    success: false,
+    error: error.message,
+    code: error.code
+  }, error.code === 'PRODUCT_NOT_FOUND' ? 404 : 400)
+}
+
+/**
+ * 获取签名报价（订单金额由服务端计算，下单时回传 quoteToken）
+ * POST /api/v1/checkout/quote
  */
-app.post('/create', zValidator('json', createOrderSchema), async (c) => {
+app.post('/quote', zValidator('json', quoteSchema), async (c) => {
   try {
     const data = c.req.valid('json')
+    const quote = await pricingService.createQuote({
+      ...data,
+      country: data.country ?? getClientCountry(c.req),
+    })
 
-    // 1. 验证商品是否存在且有效
-    const product = await db
-      .select()
-      .from(products)
-      .where(eq(products.id, parseInt(data.productId)))
-      .limit(1)
-
-    if (!product || product.length === 0) {
-      return c.json({
-        success: false,
-        error: '商品不存在'
-      }, 404)
+    return c.json({
+      success: true,
+      data: {
+        quoteToken: quote.quoteToken,
+        expiresAt: quote.expiresAt,
+        currency: quote.currency,
+        items: quote.lines.map(line => ({
+          ...line,
+          productId: String(line.productId),
+          lineTotal: Math.round(line.unitPrice * line.quantity * 100) / 100,
+        })),
+        subtotal: quote.subtotal,
+        discountAmount: quote.discountAmount,
+        netAmount: quote.netAmount,
+        taxAmount: quote.taxAmount,
+        taxCountry: quote.taxCountry,
+        total: quote.total,
+        coupons: quote.applied.map(({ coupon, discountAmount }) => ({ code: coupon.code, discountAmount })),
+      }
+    })
+  } catch (error) {
+    if (error instanceof BusinessLogicError) {
+      return pricingErrorResponse(c, error)
     }
 
-    const productData = product[0]
-    if (!productData.isActive) {
-      return c.json({
-        success: false,
-        error: '商品已下架'
-      }, 400)
-    }
+    console.error('获取订单报价失败:', error)
+    return c.json({
+      success: false,
+      error: '服务器内部错误，请稍后重试'
+    }, 500)
+  }
+})
 
-    // 2. 验证商品价格是否匹配（可选的安全检查）
-    const productPrice = await db
-      .select()
-      .from(productPrices)
-      .where(and(
-        eq(productPrices.productId, parseInt(data.productId)),
-        eq(productPrices.currency, data.currency)
-      ))
-      .limit(1)
+/**
+ * 创建订单API端点
+ * POST /api/v1/checkout/create
+ * 支持单个商品（productId/price）或购物车（items）两种请求格式
+ */
+app.post('/create', zValidator('json', z.union([createCartOrderSchema, createOrderSchema])), async (c) => {
+  try {
+    const data = c.req.valid('json')
+    const requestedItems = 'items' in data
+      ? data.items
+      : [{ productId: parseInt(data.productId), variantId: data.variantId, quantity: data.quantity ?? 1 }]
 
-    // 如果找到了对应的价格记录，进行价格验证
-    if (productPrice.length > 0) {
-      const expectedPrice = productPrice[0].price
-      // 允许小的价格差异（考虑汇率波动或前端计算误差）
-      const priceDiff = Math.abs(expectedPrice - data.price)
-      const maxDiff = expectedPrice * 0.05 // 允许5%的差异
-
-      if (priceDiff > maxDiff) {
-        return c.json({
-          success: false,
-          error: '商品价格不匹配，请刷新页面重试'
-        }, 400)
+    // 1-3. 校验报价并按当前售价重新计价（商品、数量、价格和优惠码）
+    let pricing: OrderPricing
+    try {
+      pricing = await pricingService.verifyQuote(data.quoteToken, {
+        items: requestedItems,
+        currency: data.currency,
+        email: data.email,
+        couponCodes: data.couponCodes,
+        country: data.country ?? getClientCountry(c.req),
+      })
+    } catch (error) {
+      if (error instanceof BusinessLogicError) {
+        return pricingErrorResponse(c, error)
       }
+      throw error
     }
+    const orderLines = pricing.lines
+    const amount = pricing.total
 
-    // 3. 生成业务订单ID（北京时间）
+    // 4. 生成业务订单ID（北京时间）
     const orderId = generateOrderId()
 
-    // 4. 获取北京时间
+    // 5. 获取北京时间
     const beijingTime = getBeijingTimeString()
 
-    // 5. 创建订单记录
+    // 6. 在同一事务中创建订单、商品明细和优惠码使用记录（orders.productId 记录第一个商品）
     const newOrder = {
       id: orderId,
-      productId: parseInt(data.productId),
+      productId: orderLines[0].productId,
       email: data.email.toLowerCase(),
       gateway: data.gateway,
-      amount: data.price,
+      amount,
       currency: data.currency,
+      netAmount: pricing.netAmount,
+      taxAmount: pricing.taxAmount,
+      taxCountry: pricing.taxCountry,
+      buyerCompany: data.buyerCompany || null,
+      buyerTaxId: data.buyerTaxId || null,
       status: 'pending' as const,
       createdAt: beijingTime,
       updatedAt: beijingTime,
     }
 
-    await db.insert(orders).values(newOrder)
+    try {
+      await withTransaction(async (tx) => {
+        await tx.insert(orders).values(newOrder)
+        await tx.insert(orderItems).values(orderLines.map(line => ({
+          ...line,
+          orderId,
+          currency: data.currency,
+          createdAt: beijingTime,
+        })))
+        await couponService.recordRedemptions(orderId, data.email, data.currency, pricing.applied, tx)
+      })
+    } catch (error) {
+      // 并发下单使优惠码超出使用次数上限时事务回滚，订单不会创建
+      if (error instanceof BusinessLogicError) {
+        return pricingErrorResponse(c, error)
+      }
+      throw error
+    }
 
-    // 6. 返回订单信息
+    // 7. 返回订单信息
     const orderResponse = {
       id: orderId,
-      productId: data.productId,
+      productId: String(orderLines[0].productId),
       email: data.email,
       gateway: data.gateway,
-      amount: data.price,
+      amount,
+      subtotal: pricing.subtotal,
+      discountAmount: pricing.discountAmount,
+      netAmount: pricing.netAmount,
+      taxAmount: pricing.taxAmount,
+      taxCountry: pricing.taxCountry,
       currency: data.currency,
       status: 'pending' as const,
+      items: orderLines.map(line => ({ ...line, productId: String(line.productId) })),
+      coupons: pricing.applied.map(({ coupon, discountAmount }) => ({ code: coupon.code, discountAmount })),
       createdAt: beijingTime,
       updatedAt: beijingTime,
     }
 
-    // 7. 生成支付链接
+    // 8. 生成支付链接
     try {
       const paymentLink = await paymentService.createPayment(orderId, {
         returnUrl: `${CONFIG.API.FRONTEND_URL}/payment/${orderId}`,
@@ -316,7 +432,9 @@ app.get('/payments/gateways', async (c) => {
     // 构建货币到网关的映射关系
     const currencyGatewayMap: Record<string, string[]> = {
       CNY: [],
-      USD: []
+      USD: [],
+      EUR: [],
+      JPY: []
     }
 
     gateways.forEach(gateway => {
@@ -334,7 +452,9 @@ app.get('/payments/gateways', async (c) => {
         gateways,  // 直接返回 GatewayInfo[] 格式
         currencyGatewayMap: {
           CNY: currencyGatewayMap.CNY || [],
-          USD: currencyGatewayMap.USD || []
+          USD: currencyGatewayMap.USD || [],
+          EUR: currencyGatewayMap.EUR || [],
+          JPY: currencyGatewayMap.JPY || []
         }
       }
     })
@@ -351,4 +471,28 @@ app.get('/payments/gateways', async (c) => {
   }
 })
 
+/**
+ * 获取汇率（前端金额换算展示使用，下单金额仍以报价为准）
+ * GET /api/v1/checkout/exchange-rates
+ */
+app.get('/exchange-rates', async (c) => {
+  try {
+    const rates = await exchangeRateService.getPublicRates()
+
+    return c.json({
+      success: true,
+      data: rates
+    })
+  } catch (error) {
+    console.error('获取汇率失败:', error)
+    return c.json({
+      success: false,
+      error: {
+        code: 'EXCHANGE_RATES_QUERY_FAILED',
+        message: '获取汇率失败'
+      }
+    }, 500)
+  }
+})
+
 export default app
\ No newline at end of file
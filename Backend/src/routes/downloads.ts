@@ -0,0 +1,81 @@
+import { Hono } from 'hono'
+import { zValidator } from '@hono/zod-validator'
+import { z } from 'zod'
+import { downloadService, contentDisposition } from '../services/download-service'
+import { BusinessLogicError, NotFoundError } from '../services/error-handler'
+import { errorResponse, errors } from '../utils/response'
+import { getClientIP } from '../utils/auth'
+
+const app = new Hono()
+
+/**
+ * 下载令牌参数验证模式（发货记录令牌或下载 JWT）
+ */
+const downloadParamsSchema = z.object({
+  token: z.string().min(16).max(2048).regex(/^[A-Za-z0-9_.-]+$/, '无效的下载令牌'),
+})
+
+/**
+ * 下载错误对应的 HTTP 状态码
+ */
+const DOWNLOAD_ERROR_STATUS: Record<string, number> = {
+  DOWNLOAD_REVOKED: 410,
+  DOWNLOAD_EXPIRED: 410,
+  DOWNLOAD_LIMIT_EXCEEDED: 403,
+  RANGE_NOT_SATISFIABLE: 416,
+}
+
+/**
+ * 下载已购买的文件（支持 Range 断点续传；文件在 S3 等支持预签名的存储中时重定向到预签名地址）
+ * GET /api/v1/downloads/:token
+ */
+app.get('/:token', zValidator('param', downloadParamsSchema), async (c) => {
+  try {
+    const download = await downloadService.openDownload(c.req.valid('param').token, {
+      range: c.req.header('Range'),
+      ifRange: c.req.header('If-Range'),
+      ipAddress: getClientIP(c.req),
+      userAgent: c.req.header('User-Agent'),
+      referer: c.req.header('Referer'),
+    })
+
+    if (download.redirectUrl) {
+      c.header('Cache-Control', 'private, no-store')
+      return c.redirect(download.redirectUrl, 302)
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': download.mimeType,
+      'Content-Disposition': contentDisposition(download.fileName),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-store',
+      ...(download.checksum ? { ETag: `"${download.checksum}"` } : {}),
+    }
+
+    if (download.range) {
+      const { start, end } = download.range
+      headers['Content-Range'] = `bytes ${start}-${end}/${download.fileSize}`
+      headers['Content-Length'] = String(end - start + 1)
+      return c.body(download.stream, 206, headers)
+    }
+
+    headers['Content-Length'] = String(download.fileSize)
+    return c.body(download.stream, 200, headers)
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '下载链接不存在')
+    }
+
+    if (error instanceof BusinessLogicError) {
+      if (error.code === 'RANGE_NOT_SATISFIABLE') {
+        c.header('Content-Range', `bytes */${error.context?.fileSize ?? 0}`)
+      }
+      return errorResponse(c, error.code, error.message, DOWNLOAD_ERROR_STATUS[error.code] ?? 400)
+    }
+
+    console.error('文件下载失败:', error)
+    return errors.INTERNAL_ERROR(c, '文件下载失败')
+  }
+})
+
+export default app
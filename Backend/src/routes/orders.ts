@@ -1,6 +1,10 @@
 import { Hono } from 'hono'
 import { zValidator } from '@hono/zod-validator'
 import { orderService } from '../services/order-service'
+import { inventoryService } from '../services/inventory-service'
+import { couponService } from '../services/coupon-service'
+import { invoiceService } from '../services/invoice-service'
+import { BusinessLogicError } from '../services/error-handler'
 import {
   createOrderSchema,
   orderQuerySchema,
@@ -15,6 +19,7 @@ import {
   OrderStatusType
 } from '../types/orders'
 import { withTransaction } from '../db'
+import { OrderStatus } from '../db/schema'
 
 const app = new Hono()
 
@@ -166,6 +171,26 @@ app.get('/:id', async (c) => {
     }
 
     const { order, product } = orderWithDetails
+    const items = await orderService.getOrderItems(orderId)
+    const redemptions = await couponService.getOrderRedemptions(orderId)
+    const invoices = await invoiceService.listOrderInvoices(orderId)
+
+    // 已发货订单返回发货内容，购买多份时逐条列出分配的卡密
+    let delivery = undefined
+    if (order.status === OrderStatus.DELIVERED) {
+      const contents = (await orderService.getOrderDeliveries(orderId))
+        .map(item => item.content)
+        .filter(Boolean)
+
+      if (contents.length > 0) {
+        const codes = (await inventoryService.getInventoryByOrder(orderId)).map(item => item.content)
+        delivery = {
+          type: 'text' as const,
+          content: contents.join('\n'),
+          codes,
+        }
+      }
+    }
 
     // 转换数据库字段为前端期望的字段名
     return c.json({
@@ -176,8 +201,32 @@ app.get('/:id', async (c) => {
         productName: product?.name || '数字商品',
         email: order.email,
         price: order.amount,
+        netAmount: order.netAmount,
+        taxAmount: order.taxAmount,
+        taxCountry: order.taxCountry,
         currency: order.currency,
         status: order.status,
+        items: items.map(item => ({
+          productId: item.productId,
+          productName: item.productName,
+          variantId: item.variantId,
+          variantName: item.variantName,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          taxRate: item.taxRate,
+          taxAmount: item.taxAmount,
+        })),
+        coupons: redemptions.map(redemption => ({
+          code: redemption.code,
+          discountAmount: redemption.discountAmount,
+        })),
+        invoices: invoices.map(invoice => ({
+          invoiceNumber: invoice.invoiceNumber,
+          type: invoice.type,
+          totalAmount: invoice.totalAmount,
+          issuedAt: invoice.issuedAt,
+        })),
+        delivery,
         createdAt: order.createdAt,
         updatedAt: order.updatedAt,
       }
@@ -195,6 +244,89 @@ app.get('/:id', async (c) => {
   }
 })
 
+/**
+ * 下载订单发票 PDF（访问控制与订单详情一致，订单支付后首次访问时开具）
+ * GET /api/v1/orders/:id/invoice
+ */
+app.get('/:id/invoice', async (c) => {
+  try {
+    const orderId = c.req.param('id')
+    const order = await orderService.getOrderById(orderId)
+
+    if (!order) {
+      return c.json({
+        success: false,
+        error: {
+          code: 'ORDER_NOT_FOUND',
+          message: '订单不存在'
+        }
+      }, 404)
+    }
+
+    const document = await invoiceService.getDocument(await invoiceService.getOrCreateInvoice(orderId))
+
+    return c.body(new Uint8Array(document.content), 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${document.filename}"`,
+    })
+  } catch (error) {
+    if (error instanceof BusinessLogicError) {
+      return c.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, 400)
+    }
+
+    console.error('获取订单发票失败:', error)
+    return c.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: '服务器内部错误'
+      }
+    }, 500)
+  }
+})
+
+/**
+ * 按编号下载订单的发票或红字发票 PDF
+ * GET /api/v1/orders/:id/invoices/:invoiceNumber
+ */
+app.get('/:id/invoices/:invoiceNumber', async (c) => {
+  try {
+    const invoice = await invoiceService.getInvoiceByNumber(c.req.param('id'), c.req.param('invoiceNumber'))
+
+    if (!invoice) {
+      return c.json({
+        success: false,
+        error: {
+          code: 'INVOICE_NOT_FOUND',
+          message: '发票不存在'
+        }
+      }, 404)
+    }
+
+    const document = await invoiceService.getDocument(invoice)
+
+    return c.body(new Uint8Array(document.content), 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${document.filename}"`,
+    })
+  } catch (error) {
+    console.error('获取发票失败:', error)
+    return c.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: '服务器内部错误'
+      }
+    }, 500)
+  }
+})
+
 /**
  * 获取订单列表（支持筛选和分页）
  * GET /api/v1/orders
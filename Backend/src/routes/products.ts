@@ -1,8 +1,14 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { zValidator } from '@hono/zod-validator'
 import { z } from 'zod'
 import { productService } from '../services/product-service'
 import { inventoryService } from '../services/inventory-service'
+import { exchangeRateService, type FxContext } from '../services/exchange-rate-service'
+import { priceScheduleService } from '../services/price-schedule-service'
+import { productVariantService } from '../services/product-variant-service'
+import { catalogService } from '../services/catalog-service'
+import { productImageService, type ImageVariant } from '../services/product-image-service'
+import { NotFoundError } from '../services/error-handler'
 import { successResponse, errors } from '../utils/response'
 
 const app = new Hono()
@@ -14,6 +20,13 @@ const productParamsSchema = z.object({
   id: z.string().regex(/^\d+$/, '无效的商品ID').transform(Number),
 })
 
+/**
+ * 商品图片ID参数验证模式
+ */
+const imageParamsSchema = z.object({
+  imageId: z.string().regex(/^\d+$/, '无效的图片ID').transform(Number),
+})
+
 /**
  * 计算库存状态
  */
@@ -30,13 +43,45 @@ function getInventoryStatus(count: number): string {
 }
 
 /**
- * 获取激活的商品列表
- * GET /api/v1/products
+ * 获取商品启用的规格（含各规格当前价格和库存），没有规格的商品返回空数组
+ */
+async function getStorefrontVariants(productId: number, fxContext: FxContext) {
+  const variants = await productVariantService.listVariants(productId, true)
+  if (variants.length === 0) {
+    return []
+  }
+
+  const inventoryStats = await inventoryService.getVariantInventoryStats(productId)
+  return await Promise.all(variants.map(async (variant) => {
+    const prices = await priceScheduleService.getEffectivePrices(productId, variant.id)
+    const stats = inventoryStats.get(variant.id) || { available: 0, total: 0, used: 0 }
+
+    return {
+      id: variant.id,
+      name: variant.name,
+      prices: exchangeRateService.withDerivedPrices(prices, fxContext),
+      inventory: {
+        available: stats.available,
+        total: stats.total,
+        used: stats.used,
+      },
+      inventoryStatus: getInventoryStatus(stats.available),
+    }
+  }))
+}
+
+/**
+ * 获取激活的商品列表（支持按分类/标签筛选、搜索和排序）
+ * GET /api/v1/products?categoryId=1&tag=xxx&search=xxx&sort=price_asc&currency=CNY&page=1&limit=20
  */
 app.get('/', async (c) => {
   try {
-    // 获取激活状态的商品（已优化：避免 N+1 查询）
-    const products = await productService.getActiveProducts()
+    const { page, limit, search, categoryId, tag, sort, currency } = c.req.query()
+    const { products, pagination } = await productService.queryStorefrontProducts({
+      page, limit, search, categoryId, tag, sort, currency,
+    })
+    // 未单独定价的货币按汇率推算价格
+    const fxContext = await exchangeRateService.getContext()
 
     // 为每个商品获取库存统计（每个商品1次查询，而不是2次）
     const productsWithInventory = await Promise.all(
@@ -53,7 +98,11 @@ app.get('/', async (c) => {
             name: product.name,
             description: product.description || '',
             deliveryType: product.deliveryType,
-            prices: product.prices || [],
+            prices: exchangeRateService.withDerivedPrices(product.prices || [], fxContext),
+            variants: await getStorefrontVariants(product.id, fxContext),
+            categoryId: product.categoryId,
+            tags: product.tags,
+            coverImage: product.coverImage,
             inventory: {
               available: inventoryStats.available,
               total: inventoryStats.total,
@@ -72,7 +121,10 @@ app.get('/', async (c) => {
             name: product.name,
             description: product.description || '',
             deliveryType: product.deliveryType,
-            prices: product.prices || [],
+            prices: exchangeRateService.withDerivedPrices(product.prices || [], fxContext),
+            categoryId: product.categoryId,
+            tags: product.tags,
+            coverImage: product.coverImage,
             inventory: {
               available: 0,
               total: 0,
@@ -89,14 +141,83 @@ app.get('/', async (c) => {
 
     return successResponse(c, {
       products: productsWithInventory,
-      total: productsWithInventory.length,
+      total: pagination.total,
+      pagination,
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errors.VALIDATION_ERROR(c, '查询参数无效', error.issues)
+    }
+
     console.error('获取商品列表失败:', error)
     return errors.INTERNAL_ERROR(c, '获取商品列表失败，请稍后重试')
   }
 })
 
+/**
+ * 获取商品分类树和标签（只包含启用的分类和有上架商品的标签）
+ * GET /api/v1/products/catalog
+ */
+app.get('/catalog', async (c) => {
+  try {
+    const [categories, tags] = await Promise.all([
+      catalogService.getCategoryTree(true),
+      catalogService.listTags(true),
+    ])
+
+    return successResponse(c, {
+      categories,
+      tags: tags.map(tag => ({ id: tag.id, name: tag.name, productCount: tag.productCount })),
+    })
+  } catch (error) {
+    console.error('获取商品分类失败:', error)
+    return errors.INTERNAL_ERROR(c, '获取商品分类失败，请稍后重试')
+  }
+})
+
+/**
+ * 输出商品图片（原图或缩略图），图片内容不变，可长期缓存
+ */
+async function sendImage(c: Context, imageId: number, variant: ImageVariant) {
+  try {
+    const file = await productImageService.getImageFile(imageId, variant)
+    const etag = file.checksum ? `"${file.checksum}"` : undefined
+
+    if (etag && c.req.header('If-None-Match') === etag) {
+      return c.body(null, 304)
+    }
+
+    return c.body(new Uint8Array(file.content), 200, {
+      'Content-Type': file.mimeType,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      ...(etag ? { ETag: etag } : {}),
+    })
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errors.NOT_FOUND(c, '图片不存在')
+    }
+
+    console.error(`获取商品图片 ${imageId} 失败:`, error)
+    return errors.INTERNAL_ERROR(c, '获取商品图片失败')
+  }
+}
+
+/**
+ * 获取商品图片原图
+ * GET /api/v1/products/images/:imageId
+ */
+app.get('/images/:imageId', zValidator('param', imageParamsSchema), async (c) => {
+  return sendImage(c, c.req.valid('param').imageId, 'original')
+})
+
+/**
+ * 获取商品图片缩略图
+ * GET /api/v1/products/images/:imageId/thumbnail
+ */
+app.get('/images/:imageId/thumbnail', zValidator('param', imageParamsSchema), async (c) => {
+  return sendImage(c, c.req.valid('param').imageId, 'thumbnail')
+})
+
 /**
  * 获取单个商品详情
  * GET /api/v1/products/:id
@@ -118,8 +239,14 @@ app.get('/:id', zValidator('param', productParamsSchema), async (c) => {
     }
 
     try {
-      // 获取商品价格
-      const prices = await productService.getProductPrices(id, true)
+      // 获取商品当前生效的价格（促销期间为促销价）
+      const prices = await priceScheduleService.getEffectivePrices(id)
+      const fxContext = await exchangeRateService.getContext()
+      const [category, productTags, images] = await Promise.all([
+        product.categoryId ? catalogService.getCategory(product.categoryId) : null,
+        catalogService.getProductTags([id]),
+        productImageService.listImages(id),
+      ])
 
       // 获取库存统计
       const inventoryStats = await inventoryService.getProductInventoryStats(id)
@@ -133,17 +260,19 @@ app.get('/:id', zValidator('param', productParamsSchema), async (c) => {
         description: product.description || '',
         deliveryType: product.deliveryType,
         templateText: product.templateText || '',
-        prices: prices.map(price => ({
-          currency: price.currency,
-          price: price.price,
-          isActive: price.isActive,
-        })),
+        prices: exchangeRateService.withDerivedPrices(prices, fxContext),
+        variants: await getStorefrontVariants(id, fxContext),
+        category: category?.isActive ? { id: category.id, name: category.name } : null,
+        tags: productTags.get(id) || [],
+        images,
         inventory: {
           available: inventoryStats.available,
           total: inventoryStats.total,
           used: inventoryStats.used,
         },
         inventoryStatus,
+        minQuantity: product.minQuantity,
+        maxQuantity: product.maxQuantity,
         isActive: product.isActive,
         createdAt: product.createdAt,
         updatedAt: product.updatedAt,
@@ -165,6 +294,8 @@ app.get('/:id', zValidator('param', productParamsSchema), async (c) => {
           used: 0,
         },
         inventoryStatus: '库存未知',
+        minQuantity: product.minQuantity,
+        maxQuantity: product.maxQuantity,
         isActive: product.isActive,
         createdAt: product.createdAt,
         updatedAt: product.updatedAt,
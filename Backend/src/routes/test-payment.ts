@@ -3,7 +3,7 @@ import { zValidator } from '@hono/zod-validator'
 import { z } from 'zod'
 import { db } from '../db'
 import { products, productPrices, orders } from '../db/schema'
-import { eq } from 'drizzle-orm'
+import { and, eq, isNull } from 'drizzle-orm'
 import { transactionService } from '../services/transaction-service'
 import { successResponse, errors } from '../utils/response'
 import { OrderStatus, Gateway, Currency } from '../db/schema'
@@ -52,7 +52,7 @@ app.post('/payment-success', zValidator('json', testPaymentSchema), async (c) =>
     // 3. 查找商品价格
     const productPrice = await db.select()
       .from(productPrices)
-      .where(eq(productPrices.productId, productId))
+      .where(and(eq(productPrices.productId, productId), isNull(productPrices.variantId), isNull(productPrices.startsAt)))
       .limit(1)
 
     if (productPrice.length === 0) {
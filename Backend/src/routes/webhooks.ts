@@ -1,5 +1,6 @@
 import { Hono } from 'hono'
 import { webhookProcessingService } from '../services/webhook-processing-service'
+import { gatewayRegistry } from '../services/gateways'
 import { Gateway, type GatewayType } from '../types/orders'
 import {
   webhookSignatureValidator,
@@ -26,152 +27,6 @@ app.use('*', rateLimit({
 }))
 app.use('*', webhookSignatureValidator())
 
-/**
- * 支付宝支付回调
- * POST /webhooks/alipay
- *
- * 支付宝异步通知格式：
- * - POST请求
- * - 参数在请求体中（application/x-www-form-urlencoded）
- * - 包含签名字段
- */
-app.post('/alipay', async (c) => {
-  try {
-    // 解析请求体
-    const contentType = c.req.header('content-type') || ''
-
-    if (contentType.includes('application/json')) {
-      // JSON格式
-      const payload = await c.req.json()
-      console.log('Received Alipay webhook (JSON):', JSON.stringify(payload, null, 2))
-
-      // 使用新的Webhook处理服务
-      const clientIP = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown'
-      const result = await webhookProcessingService.processAlipayWebhook(
-        payload,
-        (() => {
-        const headers: Record<string, string> = {}
-        for (const [key, value] of c.req.raw.headers.entries()) {
-          headers[key] = value
-        }
-        return headers
-      })(),
-        clientIP
-      )
-
-      // 返回响应
-      if (result.success) {
-        // 支付宝要求返回'success'字符串表示成功接收
-        return c.text('success', 200)
-      } else {
-        console.error('Alipay webhook processing failed:', result.message)
-        return c.text('failure', 400)
-      }
-    } else if (contentType.includes('application/x-www-form-urlencoded')) {
-      // 表单格式（支付宝默认）
-      const formData = await c.req.formData()
-      const payload: Record<string, string> = {}
-
-      // 转换FormData为普通对象
-      for (const [key, value] of formData.entries()) {
-        payload[key] = value.toString()
-      }
-
-      console.log('Received Alipay webhook (form):', JSON.stringify(payload, null, 2))
-
-      // 使用新的Webhook处理服务
-      const clientIP = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown'
-      const result = await webhookProcessingService.processAlipayWebhook(
-        payload,
-        (() => {
-        const headers: Record<string, string> = {}
-        for (const [key, value] of c.req.raw.headers.entries()) {
-          headers[key] = value
-        }
-        return headers
-      })(),
-        clientIP
-      )
-
-      // 返回响应
-      if (result.success) {
-        return c.text('success', 200)
-      } else {
-        console.error('Alipay webhook processing failed:', result.message)
-        return c.text('failure', 400)
-      }
-    } else {
-      console.error('Unsupported content type:', contentType)
-      return c.text('failure', 400)
-    }
-
-  } catch (error) {
-    console.error('Alipay webhook error:', error)
-
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-
-    // 支付宝回调失败时返回failure
-    return c.text('failure', 500)
-  }
-})
-
-/**
- * Creem支付回调
- * POST /webhooks/creem
- *
- * Creem异步通知格式：
- * - POST请求
- * - 参数在请求体中（application/json）
- * - 包含签名字段
- */
-app.post('/creem', async (c) => {
-  try {
-    // Creem通常使用JSON格式
-    const payload = await c.req.json()
-
-    console.log('Received Creem webhook:', JSON.stringify(payload, null, 2))
-
-    // 使用新的Webhook处理服务
-    const clientIP = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown'
-    const result = await webhookProcessingService.processCreemWebhook(
-      payload,
-      (() => {
-        const headers: Record<string, string> = {}
-        for (const [key, value] of c.req.raw.headers.entries()) {
-          headers[key] = value
-        }
-        return headers
-      })(),
-      clientIP
-    )
-
-    // 返回响应
-    if (result.success) {
-      // Creem通常返回JSON格式的响应
-      return c.json({
-        status: 'success',
-        message: 'Webhook processed successfully',
-        orderId: result.orderId
-      }, 200)
-    } else {
-      console.error('Creem webhook processing failed:', result.message)
-      return c.json({
-        status: 'failure',
-        message: result.message
-      }, 400)
-    }
-
-  } catch (error) {
-    console.error('Creem webhook error:', error)
-
-    // Creem回调失败时返回错误JSON
-    return c.json({
-      status: 'failure',
-      message: 'Internal server error'
-    }, 500)
-  }
-})
-
 /**
  * Webhook健康检查
  * GET /webhooks/health
@@ -181,7 +36,7 @@ app.post('/creem', async (c) => {
 app.get('/health', async (c) => {
   try {
     // 检查Webhook处理服务是否正常
-    const gateways = ['alipay', 'creem']
+    const gateways = gatewayRegistry.ids()
 
     return c.json({
       status: 'healthy',
@@ -294,6 +149,56 @@ app.post('/test/:gateway', async (c) => {
   }
 })
 
+/**
+ * 支付网关回调
+ * POST /webhooks/:gateway
+ *
+ * 由注册表中的网关插件负责解析原始请求体、验签和构造网关要求的应答，
+ * 签名基于原始请求体，处理过程中不能重新序列化
+ */
+app.post('/:gateway', async (c) => {
+  const plugin = gatewayRegistry.get(c.req.param('gateway'))
+  if (!plugin) {
+    return c.json({
+      success: false,
+      error: 'Unsupported gateway'
+    }, 404)
+  }
+
+  try {
+    const rawBody = await c.req.text()
+
+    const clientIP = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown'
+    const result = await webhookProcessingService.processGatewayWebhook(
+      plugin.id,
+      rawBody,
+      (() => {
+        const headers: Record<string, string> = {}
+        for (const [key, value] of c.req.raw.headers.entries()) {
+          headers[key] = value
+        }
+        return headers
+      })(),
+      clientIP
+    )
+
+    if (!result.success) {
+      console.error(`${plugin.displayName} webhook processing failed:`, result.message)
+    }
+
+    return plugin.webhook.respond(c, result)
+
+  } catch (error) {
+    console.error(`${plugin.displayName} webhook error:`, error)
+
+    return plugin.webhook.respond(c, {
+      success: false,
+      message: 'Internal server error',
+      processed: false
+    }, 500)
+  }
+})
+
 /**
  * 记录Webhook访问日志
  * 中间件函数
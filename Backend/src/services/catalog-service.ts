@@ -0,0 +1,371 @@
+import { db, schema, withTransaction } from '../db'
+import { asc, count, eq, inArray, sql } from 'drizzle-orm'
+import { type Category, type Tag } from '../db/schema'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+
+/**
+ * 创建/更新分类的参数
+ */
+export interface CategoryInput {
+  name: string
+  parentId?: number | null
+  description?: string | null
+  isActive?: boolean
+  sortOrder?: number
+}
+
+/**
+ * 分类树节点（productCount 包含子分类下的商品）
+ */
+export interface CategoryNode extends Category {
+  productCount: number
+  children: CategoryNode[]
+}
+
+/**
+ * 标签及使用该标签的商品数
+ */
+export interface TagWithCount extends Tag {
+  productCount: number
+}
+
+/**
+ * 把分类列表组装成树，父分类不在列表中（如已停用）的分类及其子分类不返回
+ */
+export function buildCategoryTree(categories: Category[], productCounts: Map<number, number> = new Map()): CategoryNode[] {
+  const nodes = new Map<number, CategoryNode>()
+  for (const category of categories) {
+    nodes.set(category.id, { ...category, productCount: productCounts.get(category.id) || 0, children: [] })
+  }
+
+  const roots: CategoryNode[] = []
+  for (const node of nodes.values()) {
+    if (node.parentId == null) {
+      roots.push(node)
+    } else {
+      nodes.get(node.parentId)?.children.push(node)
+    }
+  }
+
+  const bySortOrder = (a: CategoryNode, b: CategoryNode) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.id - b.id
+  const finalize = (node: CategoryNode): number => {
+    node.children.sort(bySortOrder)
+    node.productCount += node.children.reduce((sum, child) => sum + finalize(child), 0)
+    return node.productCount
+  }
+  roots.sort(bySortOrder).forEach(finalize)
+
+  return roots
+}
+
+/**
+ * 获取分类及其所有子孙分类的 ID
+ */
+export function collectCategoryIds(categories: Array<Pick<Category, 'id' | 'parentId'>>, rootId: number): number[] {
+  const ids = [rootId]
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i] && !ids.includes(category.id)) {
+        ids.push(category.id)
+      }
+    }
+  }
+  return ids
+}
+
+/**
+ * 标签名去除首尾空格、合并连续空白，忽略大小写去重
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  const result = new Map<string, string>()
+  for (const name of names) {
+    const normalized = name.trim().replace(/\s+/g, ' ')
+    if (!normalized) continue
+    if (normalized.length > 50) {
+      throw new BusinessLogicError(`标签「${normalized}」过长`, 'TAG_INVALID')
+    }
+    if (!result.has(normalized.toLowerCase())) {
+      result.set(normalized.toLowerCase(), normalized)
+    }
+  }
+  return Array.from(result.values())
+}
+
+/**
+ * 商品分类和标签服务
+ * 分类支持多级（parent_id），商品属于一个分类；标签与商品多对多，设置商品标签时自动创建新标签
+ */
+export class CatalogService {
+  /**
+   * 获取分类列表（按排序）
+   */
+  async listCategories(activeOnly = false): Promise<Category[]> {
+    return await db.select()
+      .from(schema.categories)
+      .where(activeOnly ? eq(schema.categories.isActive, true) : undefined)
+      .orderBy(asc(schema.categories.sortOrder), asc(schema.categories.id))
+  }
+
+  /**
+   * 获取分类树（含商品数，activeOnly 时只统计上架商品）
+   */
+  async getCategoryTree(activeOnly = false): Promise<CategoryNode[]> {
+    const [categories, counts] = await Promise.all([
+      this.listCategories(activeOnly),
+      db.select({ categoryId: schema.products.categoryId, count: count() })
+        .from(schema.products)
+        .where(activeOnly ? eq(schema.products.isActive, true) : undefined)
+        .groupBy(schema.products.categoryId),
+    ])
+
+    const productCounts = new Map<number, number>()
+    for (const row of counts) {
+      if (row.categoryId != null) {
+        productCounts.set(row.categoryId, row.count)
+      }
+    }
+
+    return buildCategoryTree(categories, productCounts)
+  }
+
+  /**
+   * 获取分类
+   */
+  async getCategory(categoryId: number): Promise<Category | null> {
+    const [category] = await db.select()
+      .from(schema.categories)
+      .where(eq(schema.categories.id, categoryId))
+      .limit(1)
+
+    return category || null
+  }
+
+  /**
+   * 获取分类及其所有子分类的 ID（按分类筛选商品时包含子分类）
+   */
+  async getCategoryIdsWithDescendants(categoryId: number): Promise<number[]> {
+    const categories = await db.select({ id: schema.categories.id, parentId: schema.categories.parentId })
+      .from(schema.categories)
+
+    return collectCategoryIds(categories, categoryId)
+  }
+
+  /**
+   * 创建分类
+   */
+  async createCategory(input: CategoryInput): Promise<Category> {
+    const name = this.normalizeCategoryName(input.name)
+    if (input.parentId != null) {
+      await this.requireCategory(input.parentId)
+    }
+
+    const [category] = await db.insert(schema.categories)
+      .values({
+        name,
+        parentId: input.parentId ?? null,
+        description: input.description || null,
+        isActive: input.isActive !== false,
+        sortOrder: input.sortOrder ?? 0,
+      })
+      .returning()
+
+    return category
+  }
+
+  /**
+   * 更新分类（不能把分类移动到自身或其子分类下）
+   */
+  async updateCategory(categoryId: number, input: Partial<CategoryInput>): Promise<Category> {
+    await this.requireCategory(categoryId)
+
+    if (input.parentId != null) {
+      await this.requireCategory(input.parentId)
+      const descendants = await this.getCategoryIdsWithDescendants(categoryId)
+      if (descendants.includes(input.parentId)) {
+        throw new BusinessLogicError('不能把分类移动到自身或其子分类下', 'CATEGORY_INVALID', { categoryId, parentId: input.parentId })
+      }
+    }
+
+    const [updated] = await db.update(schema.categories)
+      .set({
+        ...(input.name !== undefined ? { name: this.normalizeCategoryName(input.name) } : {}),
+        ...(input.parentId !== undefined ? { parentId: input.parentId } : {}),
+        ...(input.description !== undefined ? { description: input.description || null } : {}),
+        ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+        ...(input.sortOrder !== undefined ? { sortOrder: input.sortOrder } : {}),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(schema.categories.id, categoryId))
+      .returning()
+
+    return updated
+  }
+
+  /**
+   * 删除分类（有子分类时不能删除，分类下的商品变为未分类）
+   */
+  async deleteCategory(categoryId: number): Promise<void> {
+    await this.requireCategory(categoryId)
+
+    const [children] = await db.select({ count: count() })
+      .from(schema.categories)
+      .where(eq(schema.categories.parentId, categoryId))
+    if (children.count > 0) {
+      throw new BusinessLogicError('请先删除或移动该分类下的子分类', 'CATEGORY_IN_USE', { categoryId })
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.update(schema.products)
+        .set({ categoryId: null })
+        .where(eq(schema.products.categoryId, categoryId))
+      await tx.delete(schema.categories).where(eq(schema.categories.id, categoryId))
+    })
+  }
+
+  /**
+   * 设置商品分类（为空表示未分类）
+   */
+  async setProductCategory(productId: number, categoryId: number | null): Promise<void> {
+    if (categoryId != null) {
+      await this.requireCategory(categoryId)
+    }
+
+    await db.update(schema.products)
+      .set({ categoryId, updatedAt: new Date().toISOString() })
+      .where(eq(schema.products.id, productId))
+  }
+
+  /**
+   * 获取标签列表（含商品数，activeOnly 时只统计上架商品并忽略没有商品的标签）
+   */
+  async listTags(activeOnly = false): Promise<TagWithCount[]> {
+    const rows = await db.select({ tag: schema.tags, productId: schema.productTags.productId })
+      .from(schema.tags)
+      .leftJoin(schema.productTags, eq(schema.productTags.tagId, schema.tags.id))
+      .leftJoin(schema.products, eq(schema.products.id, schema.productTags.productId))
+      .where(activeOnly ? eq(schema.products.isActive, true) : undefined)
+      .orderBy(asc(schema.tags.name))
+
+    const tags = new Map<number, TagWithCount>()
+    for (const row of rows) {
+      const tag = tags.get(row.tag.id) || { ...row.tag, productCount: 0 }
+      if (row.productId != null) {
+        tag.productCount++
+      }
+      tags.set(row.tag.id, tag)
+    }
+
+    return Array.from(tags.values())
+  }
+
+  /**
+   * 创建标签
+   */
+  async createTag(name: string): Promise<Tag> {
+    const [normalized] = normalizeTagNames([name])
+    if (!normalized) {
+      throw new BusinessLogicError('标签名称不能为空', 'TAG_INVALID')
+    }
+
+    const existing = await this.findTags([normalized])
+    if (existing.length > 0) {
+      throw new BusinessLogicError(`标签「${normalized}」已存在`, 'TAG_EXISTS')
+    }
+
+    const [tag] = await db.insert(schema.tags).values({ name: normalized }).returning()
+    return tag
+  }
+
+  /**
+   * 删除标签（同时移除商品上的该标签）
+   */
+  async deleteTag(tagId: number): Promise<void> {
+    const [tag] = await db.select().from(schema.tags).where(eq(schema.tags.id, tagId)).limit(1)
+    if (!tag) {
+      throw new NotFoundError('Tag', tagId)
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.delete(schema.productTags).where(eq(schema.productTags.tagId, tagId))
+      await tx.delete(schema.tags).where(eq(schema.tags.id, tagId))
+    })
+  }
+
+  /**
+   * 批量获取商品的标签名（按商品ID分组）
+   */
+  async getProductTags(productIds: number[]): Promise<Map<number, string[]>> {
+    const result = new Map<number, string[]>()
+    if (productIds.length === 0) {
+      return result
+    }
+
+    const rows = await db.select({ productId: schema.productTags.productId, name: schema.tags.name })
+      .from(schema.productTags)
+      .innerJoin(schema.tags, eq(schema.tags.id, schema.productTags.tagId))
+      .where(inArray(schema.productTags.productId, productIds))
+      .orderBy(asc(schema.tags.name))
+
+    for (const row of rows) {
+      result.set(row.productId, [...(result.get(row.productId) || []), row.name])
+    }
+    return result
+  }
+
+  /**
+   * 设置商品标签（替换原有标签，不存在的标签自动创建）
+   */
+  async setProductTags(productId: number, names: string[]): Promise<string[]> {
+    const normalized = normalizeTagNames(names)
+    const existing = await this.findTags(normalized)
+
+    return await withTransaction(async (tx) => {
+      const existingNames = new Set(existing.map(tag => tag.name.toLowerCase()))
+      const missing = normalized.filter(name => !existingNames.has(name.toLowerCase()))
+      const created = missing.length > 0
+        ? await tx.insert(schema.tags).values(missing.map(name => ({ name }))).returning()
+        : []
+      const tags: Tag[] = [...existing, ...created]
+
+      await tx.delete(schema.productTags).where(eq(schema.productTags.productId, productId))
+      if (tags.length > 0) {
+        await tx.insert(schema.productTags).values(tags.map(tag => ({ productId, tagId: tag.id })))
+      }
+
+      return tags.map(tag => tag.name).sort()
+    })
+  }
+
+  /**
+   * 按名称查找标签（忽略大小写）
+   */
+  private async findTags(names: string[]): Promise<Tag[]> {
+    if (names.length === 0) {
+      return []
+    }
+
+    return await db.select()
+      .from(schema.tags)
+      .where(inArray(sql`lower(${schema.tags.name})`, names.map(name => name.toLowerCase())))
+  }
+
+  private async requireCategory(categoryId: number): Promise<Category> {
+    const category = await this.getCategory(categoryId)
+    if (!category) {
+      throw new NotFoundError('Category', categoryId)
+    }
+    return category
+  }
+
+  private normalizeCategoryName(name: string): string {
+    const trimmed = name.trim()
+    if (!trimmed) {
+      throw new BusinessLogicError('分类名称不能为空', 'CATEGORY_INVALID')
+    }
+    return trimmed
+  }
+}
+
+export const catalogService = new CatalogService()
+
+export default catalogService
@@ -661,7 +661,7 @@ export class ConfigService {
    * 初始化默认配置
    */
   async initializeDefaultConfigs(): Promise<void> {
-    const defaultConfigs = {
+    const defaultConfigs: Record<string, Record<string, { value: any; dataType?: 'string' | 'number' | 'boolean' | 'json'; encrypted?: boolean }>> = {
       security: {
         'jwt_secret': { value: process.env.JWT_SECRET || securityService.generateSecureToken(64), encrypted: true },
         'admin_session_timeout': { value: 3600, dataType: 'number' },
@@ -671,6 +671,24 @@ export class ConfigService {
       payment: {
         'alipay_enabled': { value: false, dataType: 'boolean' },
         'creem_enabled': { value: false, dataType: 'boolean' },
+        'stripe_enabled': { value: false, dataType: 'boolean' },
+        'stripe_secret_key': { value: '', encrypted: true },
+        'stripe_webhook_secret': { value: '', encrypted: true },
+        'stripe_api_base': { value: 'https://api.stripe.com' },
+        'stripe_webhook_tolerance': { value: 300, dataType: 'number' },
+        'paypal_enabled': { value: false, dataType: 'boolean' },
+        'paypal_client_id': { value: '' },
+        'paypal_client_secret': { value: '', encrypted: true },
+        'paypal_webhook_id': { value: '' },
+        'paypal_api_base': { value: 'https://api-m.paypal.com' },
+        'wechat_enabled': { value: false, dataType: 'boolean' },
+        'wechat_app_id': { value: '' },
+        'wechat_mch_id': { value: '' },
+        'wechat_serial_no': { value: '' },
+        'wechat_private_key': { value: '', encrypted: true },
+        'wechat_api_v3_key': { value: '', encrypted: true },
+        'wechat_platform_public_key': { value: '' },
+        'wechat_api_base': { value: 'https://api.mch.weixin.qq.com' },
         'webhook_timeout': { value: 30, dataType: 'number' },
         'amount_tolerance': { value: 0.01, dataType: 'number' },
       },
@@ -680,10 +698,61 @@ export class ConfigService {
         'download_timeout': { value: 300, dataType: 'number' },
       },
       email: {
+        'transport': { value: 'resend' },
         'resend_api_key': { value: '', encrypted: true },
         'from_email': { value: 'noreply@example.com' },
         'from_name': { value: 'AutoShip' },
+        'smtp_host': { value: '' },
+        'smtp_port': { value: 587, dataType: 'number' },
+        'smtp_secure': { value: false, dataType: 'boolean' },
+        'smtp_user': { value: '' },
+        'smtp_password': { value: '', encrypted: true },
+        'smtp_allow_insecure_auth': { value: false, dataType: 'boolean' },
         'smtp_timeout': { value: 30, dataType: 'number' },
+        'outbox_dir': { value: './temp/outbox' },
+      },
+      invoice: {
+        'seller_name': { value: 'AutoShip' },
+        'seller_address': { value: '' },
+        'seller_tax_id': { value: '' },
+        'seller_email': { value: '' },
+        'number_prefix': { value: 'INV' },
+        'credit_note_prefix': { value: 'CN' },
+        'storage_dir': { value: './storage/invoices' },
+      },
+      media: {
+        'storage_dir': { value: './storage/media' },
+        'max_image_size': { value: 5 * 1024 * 1024, dataType: 'number' },
+        'thumbnail_size': { value: 400, dataType: 'number' },
+        'max_images_per_product': { value: 20, dataType: 'number' },
+      },
+      files: {
+        'storage_dir': { value: './storage/files' },
+        'max_file_size': { value: 2 * 1024 * 1024 * 1024, dataType: 'number' },
+        'chunk_size': { value: 8 * 1024 * 1024, dataType: 'number' },
+        'upload_expiry_hours': { value: 24, dataType: 'number' },
+      },
+      storage: {
+        'driver': { value: 'local' },
+        'presign_downloads': { value: true, dataType: 'boolean' },
+        'presign_expires': { value: 300, dataType: 'number' },
+        's3_endpoint': { value: '' },
+        's3_region': { value: 'us-east-1' },
+        's3_bucket': { value: '' },
+        's3_access_key_id': { value: '' },
+        's3_secret_access_key': { value: '', encrypted: true },
+        's3_force_path_style': { value: true, dataType: 'boolean' },
+      },
+      fx: {
+        'enabled': { value: false, dataType: 'boolean' },
+        'base_currency': { value: 'CNY' },
+        'rounding': { value: '{"default":"none","JPY":"integer"}', dataType: 'json' },
+        'rates_file': { value: './data/exchange-rates.json' },
+      },
+      notification: {
+        'webhook_url': { value: '' },
+        'webhook_secret': { value: '', encrypted: true },
+        'webhook_timeout': { value: 10, dataType: 'number' },
       }
     }
 
@@ -0,0 +1,558 @@
+import { db, schema } from '../db'
+import { and, asc, count, desc, eq, gte, lte, sql } from 'drizzle-orm'
+import {
+  CouponDiscountType,
+  CouponRedemptionStatus,
+  OrderStatus,
+  type Coupon,
+  type CouponRedemption,
+  type NewCoupon,
+} from '../db/schema'
+import { auditService } from './audit-service'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+
+/**
+ * 参与优惠计算的订单行（单价为服务端价格）
+ */
+export interface CouponLine {
+  productId: number
+  quantity: number
+  unitPrice: number
+}
+
+/**
+ * 已通过校验的优惠码及其优惠金额
+ */
+export interface AppliedCoupon {
+  coupon: Coupon
+  discountAmount: number
+}
+
+/**
+ * 管理端创建/更新优惠码参数
+ */
+export interface CouponInput {
+  code: string
+  description?: string | null
+  discountType: 'percentage' | 'fixed'
+  percentOff?: number | null
+  amounts?: Record<string, number> | null
+  productIds?: number[] | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerEmail?: number | null
+  stackable?: boolean
+  startsAt?: string | null
+  expiresAt?: string | null
+  isActive?: boolean
+}
+
+/**
+ * 管理端展示的优惠码（JSON 字段已解析）
+ */
+export type CouponView = Omit<Coupon, 'amounts' | 'productIds'> & {
+  amounts: Record<string, number> | null
+  productIds: number[] | null
+  redemptionCount?: number
+}
+
+/**
+ * 优惠码使用报表行
+ */
+export interface CouponUsageReportRow {
+  couponId: number
+  code: string
+  isActive: boolean
+  appliedCount: number // 当前有效的使用次数
+  releasedCount: number // 因订单取消/退款释放的次数
+  uniqueEmails: number
+  discountByCurrency: Record<string, number> // 有效使用的优惠总额
+}
+
+// 订单进入这些状态后释放优惠码使用次数
+const RELEASE_ORDER_STATUSES: string[] = [OrderStatus.CANCELLED, OrderStatus.FAILED, OrderStatus.REFUNDED]
+
+// 单笔订单最多使用的优惠码数量
+export const MAX_COUPONS_PER_ORDER = 5
+
+/**
+ * 优惠码统一转为大写，忽略首尾空格
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) {
+    return null
+  }
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return null
+  }
+}
+
+function toCouponView(coupon: Coupon): CouponView {
+  return {
+    ...coupon,
+    amounts: parseJson<Record<string, number>>(coupon.amounts),
+    productIds: parseJson<number[]>(coupon.productIds),
+  }
+}
+
+function toCouponValues(input: Partial<CouponInput>): Partial<NewCoupon> {
+  const values: Partial<NewCoupon> = {}
+
+  if (input.code !== undefined) values.code = normalizeCouponCode(input.code)
+  if (input.description !== undefined) values.description = input.description
+  if (input.discountType !== undefined) values.discountType = input.discountType
+  if (input.percentOff !== undefined) values.percentOff = input.percentOff
+  if (input.amounts !== undefined) values.amounts = input.amounts ? JSON.stringify(input.amounts) : null
+  if (input.productIds !== undefined) {
+    values.productIds = input.productIds && input.productIds.length > 0 ? JSON.stringify(input.productIds) : null
+  }
+  if (input.maxRedemptions !== undefined) values.maxRedemptions = input.maxRedemptions
+  if (input.maxRedemptionsPerEmail !== undefined) values.maxRedemptionsPerEmail = input.maxRedemptionsPerEmail
+  if (input.stackable !== undefined) values.stackable = input.stackable
+  if (input.startsAt !== undefined) values.startsAt = input.startsAt
+  if (input.expiresAt !== undefined) values.expiresAt = input.expiresAt
+  if (input.isActive !== undefined) values.isActive = input.isActive
+
+  return values
+}
+
+// 优惠码服务类
+export class CouponService {
+  /**
+   * 校验优惠码并计算优惠金额
+   * 任一优惠码不可用时抛出 BusinessLogicError，错误信息可直接展示给用户
+   */
+  async applyCoupons(params: {
+    codes: string[]
+    email: string
+    currency: string
+    lines: CouponLine[]
+  }): Promise<{ subtotal: number; discountAmount: number; total: number; applied: AppliedCoupon[] }> {
+    const codes = params.codes.map(normalizeCouponCode).filter(Boolean)
+    const subtotalCents = params.lines.reduce((sum, line) => sum + toCents(line.unitPrice) * line.quantity, 0)
+
+    if (codes.length === 0) {
+      return { subtotal: subtotalCents / 100, discountAmount: 0, total: subtotalCents / 100, applied: [] }
+    }
+
+    if (new Set(codes).size !== codes.length) {
+      throw new BusinessLogicError('优惠码不能重复使用', 'COUPON_DUPLICATE')
+    }
+    if (codes.length > MAX_COUPONS_PER_ORDER) {
+      throw new BusinessLogicError(`每笔订单最多使用${MAX_COUPONS_PER_ORDER}个优惠码`, 'COUPON_TOO_MANY')
+    }
+
+    const coupons: Coupon[] = []
+    for (const code of codes) {
+      const [coupon] = await db.select()
+        .from(schema.coupons)
+        .where(eq(schema.coupons.code, code))
+        .limit(1)
+
+      if (!coupon) {
+        throw new BusinessLogicError(`优惠码 ${code} 不存在`, 'COUPON_NOT_FOUND')
+      }
+      coupons.push(coupon)
+    }
+
+    // 叠加规则：多个优惠码时每个都必须允许叠加
+    if (coupons.length > 1) {
+      const exclusive = coupons.find(coupon => !coupon.stackable)
+      if (exclusive) {
+        throw new BusinessLogicError(`优惠码 ${exclusive.code} 不能与其他优惠码同时使用`, 'COUPON_NOT_STACKABLE')
+      }
+    }
+
+    const applied: AppliedCoupon[] = []
+    let discountCents = 0
+
+    for (const coupon of coupons) {
+      await this.assertRedeemable(coupon, params.email)
+      const couponCents = this.computeDiscount(coupon, params.currency, params.lines)
+      discountCents += couponCents
+      applied.push({ coupon, discountAmount: couponCents / 100 })
+    }
+
+    if (discountCents >= subtotalCents) {
+      throw new BusinessLogicError('优惠后订单金额必须大于0', 'COUPON_TOTAL_INVALID')
+    }
+
+    return {
+      subtotal: subtotalCents / 100,
+      discountAmount: discountCents / 100,
+      total: (subtotalCents - discountCents) / 100,
+      applied,
+    }
+  }
+
+  /**
+   * 记录订单使用的优惠码（计入使用次数）
+   * 传入 tx 时与订单写入处于同一事务；写入后复核使用次数，并发下单超出上限时抛出错误使事务回滚
+   */
+  async recordRedemptions(orderId: string, email: string, currency: string, applied: AppliedCoupon[], tx: any = db): Promise<void> {
+    if (applied.length === 0) {
+      return
+    }
+
+    await tx.insert(schema.couponRedemptions).values(applied.map(({ coupon, discountAmount }) => ({
+      couponId: coupon.id,
+      orderId,
+      code: coupon.code,
+      email: email.toLowerCase(),
+      currency,
+      discountAmount,
+      status: CouponRedemptionStatus.APPLIED,
+    })))
+
+    // 并发下单可能同时通过 applyCoupons 的次数检查：写入后在同一事务内复核，超出上限的后提交订单失败
+    for (const { coupon } of applied) {
+      if (coupon.maxRedemptions != null && await this.countRedemptions(coupon.id, undefined, tx) > coupon.maxRedemptions) {
+        throw new BusinessLogicError(`优惠码 ${coupon.code} 已达到使用次数上限`, 'COUPON_USAGE_LIMIT')
+      }
+      if (coupon.maxRedemptionsPerEmail != null &&
+        await this.countRedemptions(coupon.id, email, tx) > coupon.maxRedemptionsPerEmail) {
+        throw new BusinessLogicError(`该邮箱使用优惠码 ${coupon.code} 的次数已达上限`, 'COUPON_EMAIL_LIMIT')
+      }
+    }
+
+    console.log(`[Coupon] Order ${orderId} redeemed ${applied.map(item => item.coupon.code).join(', ')}`)
+  }
+
+  /**
+   * 订单取消、支付失败或全额退款后释放优惠码使用次数
+   */
+  async releaseForOrderStatus(orderId: string, status: string): Promise<number> {
+    if (!RELEASE_ORDER_STATUSES.includes(status)) {
+      return 0
+    }
+    return this.releaseRedemptions(orderId, status)
+  }
+
+  /**
+   * 释放订单的优惠码使用记录
+   */
+  async releaseRedemptions(orderId: string, reason: string): Promise<number> {
+    const released = await db.update(schema.couponRedemptions)
+      .set({
+        status: CouponRedemptionStatus.RELEASED,
+        releasedAt: new Date().toISOString(),
+      })
+      .where(and(
+        eq(schema.couponRedemptions.orderId, orderId),
+        eq(schema.couponRedemptions.status, CouponRedemptionStatus.APPLIED)
+      ))
+      .returning()
+
+    if (released.length > 0) {
+      console.log(`[Coupon] Released ${released.length} redemption(s) for order ${orderId} (${reason})`)
+
+      await auditService.logAuditEvent({
+        action: 'coupon_released',
+        resourceType: 'order',
+        resourceId: orderId,
+        success: true,
+        metadata: {
+          reason,
+          codes: released.map(item => item.code),
+        },
+      })
+    }
+
+    return released.length
+  }
+
+  /**
+   * 获取订单的优惠码使用记录
+   */
+  async getOrderRedemptions(orderId: string): Promise<CouponRedemption[]> {
+    return db.select()
+      .from(schema.couponRedemptions)
+      .where(eq(schema.couponRedemptions.orderId, orderId))
+      .orderBy(asc(schema.couponRedemptions.id))
+  }
+
+  /**
+   * 分页获取优惠码列表（含当前有效使用次数）
+   */
+  async listCoupons(page = 1, limit = 20): Promise<{ coupons: CouponView[]; total: number }> {
+    const offset = (page - 1) * limit
+
+    const rows = await db.select()
+      .from(schema.coupons)
+      .orderBy(desc(schema.coupons.createdAt), desc(schema.coupons.id))
+      .limit(limit)
+      .offset(offset)
+
+    const [{ total }] = await db.select({ total: count() }).from(schema.coupons)
+
+    const coupons = await Promise.all(rows.map(async (coupon) => ({
+      ...toCouponView(coupon),
+      redemptionCount: await this.countRedemptions(coupon.id),
+    })))
+
+    return { coupons, total }
+  }
+
+  /**
+   * 获取优惠码详情
+   */
+  async getCoupon(couponId: number): Promise<CouponView | null> {
+    const [coupon] = await db.select()
+      .from(schema.coupons)
+      .where(eq(schema.coupons.id, couponId))
+      .limit(1)
+
+    if (!coupon) {
+      return null
+    }
+
+    return {
+      ...toCouponView(coupon),
+      redemptionCount: await this.countRedemptions(coupon.id),
+    }
+  }
+
+  /**
+   * 创建优惠码
+   */
+  async createCoupon(input: CouponInput, createdBy: string): Promise<CouponView> {
+    const code = normalizeCouponCode(input.code)
+    await this.assertCodeAvailable(code)
+
+    const [coupon] = await db.insert(schema.coupons)
+      .values({
+        ...toCouponValues(input),
+        code,
+        discountType: input.discountType,
+        createdBy,
+      } as NewCoupon)
+      .returning()
+
+    await auditService.logAuditEvent({
+      action: 'coupon_created',
+      resourceType: 'coupon',
+      resourceId: String(coupon.id),
+      success: true,
+      metadata: { code, createdBy },
+    })
+
+    return toCouponView(coupon)
+  }
+
+  /**
+   * 更新优惠码（已产生的使用记录不受影响）
+   */
+  async updateCoupon(couponId: number, input: Partial<CouponInput>): Promise<CouponView> {
+    const existing = await this.getCoupon(couponId)
+    if (!existing) {
+      throw new NotFoundError('Coupon', couponId)
+    }
+
+    if (input.code !== undefined && normalizeCouponCode(input.code) !== existing.code) {
+      await this.assertCodeAvailable(normalizeCouponCode(input.code))
+    }
+
+    const [coupon] = await db.update(schema.coupons)
+      .set({
+        ...toCouponValues(input),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(schema.coupons.id, couponId))
+      .returning()
+
+    return toCouponView(coupon)
+  }
+
+  /**
+   * 删除优惠码，已有使用记录时改为停用以保留报表数据
+   */
+  async deleteCoupon(couponId: number): Promise<{ deleted: boolean; deactivated: boolean }> {
+    const existing = await this.getCoupon(couponId)
+    if (!existing) {
+      throw new NotFoundError('Coupon', couponId)
+    }
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(schema.couponRedemptions)
+      .where(eq(schema.couponRedemptions.couponId, couponId))
+
+    if (total > 0) {
+      await db.update(schema.coupons)
+        .set({ isActive: false, updatedAt: new Date().toISOString() })
+        .where(eq(schema.coupons.id, couponId))
+      return { deleted: false, deactivated: true }
+    }
+
+    await db.delete(schema.coupons).where(eq(schema.coupons.id, couponId))
+    return { deleted: true, deactivated: false }
+  }
+
+  /**
+   * 分页获取优惠码使用记录
+   */
+  async listRedemptions(couponId: number, page = 1, limit = 20): Promise<{ redemptions: CouponRedemption[]; total: number }> {
+    const redemptions = await db.select()
+      .from(schema.couponRedemptions)
+      .where(eq(schema.couponRedemptions.couponId, couponId))
+      .orderBy(desc(schema.couponRedemptions.id))
+      .limit(limit)
+      .offset((page - 1) * limit)
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(schema.couponRedemptions)
+      .where(eq(schema.couponRedemptions.couponId, couponId))
+
+    return { redemptions, total }
+  }
+
+  /**
+   * 优惠码使用报表（按使用时间筛选）
+   */
+  async getUsageReport(options: { startDate?: string; endDate?: string } = {}): Promise<CouponUsageReportRow[]> {
+    const conditions = []
+    if (options.startDate) {
+      conditions.push(gte(schema.couponRedemptions.createdAt, options.startDate))
+    }
+    if (options.endDate) {
+      conditions.push(lte(schema.couponRedemptions.createdAt, options.endDate))
+    }
+
+    const stats = await db.select({
+      couponId: schema.couponRedemptions.couponId,
+      status: schema.couponRedemptions.status,
+      currency: schema.couponRedemptions.currency,
+      redemptions: count(),
+      discountTotal: sql<number>`COALESCE(SUM(${schema.couponRedemptions.discountAmount}), 0)`,
+    })
+      .from(schema.couponRedemptions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(schema.couponRedemptions.couponId, schema.couponRedemptions.status, schema.couponRedemptions.currency)
+
+    const emails = await db.select({
+      couponId: schema.couponRedemptions.couponId,
+      uniqueEmails: sql<number>`COUNT(DISTINCT ${schema.couponRedemptions.email})`,
+    })
+      .from(schema.couponRedemptions)
+      .where(and(eq(schema.couponRedemptions.status, CouponRedemptionStatus.APPLIED), ...conditions))
+      .groupBy(schema.couponRedemptions.couponId)
+
+    const coupons = await db.select().from(schema.coupons).orderBy(asc(schema.coupons.code))
+
+    return coupons.map((coupon) => {
+      const row: CouponUsageReportRow = {
+        couponId: coupon.id,
+        code: coupon.code,
+        isActive: coupon.isActive,
+        appliedCount: 0,
+        releasedCount: 0,
+        uniqueEmails: emails.find(item => item.couponId === coupon.id)?.uniqueEmails || 0,
+        discountByCurrency: {},
+      }
+
+      for (const stat of stats.filter(item => item.couponId === coupon.id)) {
+        if (stat.status === CouponRedemptionStatus.APPLIED) {
+          row.appliedCount += stat.redemptions
+          row.discountByCurrency[stat.currency] = toCents(Number(stat.discountTotal)) / 100
+        } else {
+          row.releasedCount += stat.redemptions
+        }
+      }
+
+      return row
+    })
+  }
+
+  /**
+   * 校验优惠码当前是否可被该邮箱使用
+   */
+  private async assertRedeemable(coupon: Coupon, email: string): Promise<void> {
+    const now = Date.now()
+
+    if (!coupon.isActive) {
+      throw new BusinessLogicError(`优惠码 ${coupon.code} 已停用`, 'COUPON_INACTIVE')
+    }
+    if (coupon.startsAt && new Date(coupon.startsAt).getTime() > now) {
+      throw new BusinessLogicError(`优惠码 ${coupon.code} 尚未生效`, 'COUPON_NOT_STARTED')
+    }
+    if (coupon.expiresAt && new Date(coupon.expiresAt).getTime() <= now) {
+      throw new BusinessLogicError(`优惠码 ${coupon.code} 已过期`, 'COUPON_EXPIRED')
+    }
+
+    if (coupon.maxRedemptions != null && await this.countRedemptions(coupon.id) >= coupon.maxRedemptions) {
+      throw new BusinessLogicError(`优惠码 ${coupon.code} 已达到使用次数上限`, 'COUPON_USAGE_LIMIT')
+    }
+    if (coupon.maxRedemptionsPerEmail != null &&
+      await this.countRedemptions(coupon.id, email) >= coupon.maxRedemptionsPerEmail) {
+      throw new BusinessLogicError(`该邮箱使用优惠码 ${coupon.code} 的次数已达上限`, 'COUPON_EMAIL_LIMIT')
+    }
+  }
+
+  /**
+   * 计算单个优惠码的优惠金额（分），只作用于适用商品
+   */
+  private computeDiscount(coupon: Coupon, currency: string, lines: CouponLine[]): number {
+    const productIds = parseJson<number[]>(coupon.productIds)
+    const eligibleCents = lines
+      .filter(line => !productIds || productIds.includes(line.productId))
+      .reduce((sum, line) => sum + toCents(line.unitPrice) * line.quantity, 0)
+
+    if (eligibleCents === 0) {
+      throw new BusinessLogicError(`优惠码 ${coupon.code} 不适用于所选商品`, 'COUPON_NOT_APPLICABLE')
+    }
+
+    if (coupon.discountType === CouponDiscountType.PERCENTAGE) {
+      return Math.round(eligibleCents * (coupon.percentOff || 0) / 100)
+    }
+
+    const amount = parseJson<Record<string, number>>(coupon.amounts)?.[currency]
+    if (!amount) {
+      throw new BusinessLogicError(`优惠码 ${coupon.code} 不支持 ${currency} 货币`, 'COUPON_CURRENCY_UNSUPPORTED')
+    }
+
+    return Math.min(toCents(amount), eligibleCents)
+  }
+
+  /**
+   * 统计有效使用次数（可按邮箱筛选）
+   */
+  private async countRedemptions(couponId: number, email?: string, tx: any = db): Promise<number> {
+    const conditions = [
+      eq(schema.couponRedemptions.couponId, couponId),
+      eq(schema.couponRedemptions.status, CouponRedemptionStatus.APPLIED),
+    ]
+    if (email) {
+      conditions.push(eq(schema.couponRedemptions.email, email.toLowerCase()))
+    }
+
+    const [{ total }] = await tx.select({ total: count() })
+      .from(schema.couponRedemptions)
+      .where(and(...conditions))
+
+    return total
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    const [existing] = await db.select({ id: schema.coupons.id })
+      .from(schema.coupons)
+      .where(eq(schema.coupons.code, code))
+      .limit(1)
+
+    if (existing) {
+      throw new BusinessLogicError(`优惠码 ${code} 已存在`, 'COUPON_CODE_EXISTS')
+    }
+  }
+}
+
+// 创建全局优惠码服务实例
+export const couponService = new CouponService()
+
+export default couponService
@@ -0,0 +1,370 @@
+import type { Readable } from 'stream'
+import { db, schema } from '../db'
+import { and, eq, sql, sum } from 'drizzle-orm'
+import { OrderStatus, type Delivery, type File } from '../db/schema'
+import { tokenService } from './token-service'
+import { productFileService } from './product-file-service'
+import { storageService } from './storage-service'
+import { fileStampService } from './file-stamp-service'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+
+/**
+ * 下载记录状态
+ */
+export const DownloadStatus = {
+  SUCCESS: 'success',
+  FAILED: 'failed',
+  PARTIAL: 'partial',
+  REDIRECTED: 'redirected',
+} as const
+
+export type DownloadStatusType = typeof DownloadStatus[keyof typeof DownloadStatus]
+
+/**
+ * 下载请求信息（用于 Range 续传和下载日志）
+ */
+export interface DownloadRequest {
+  range?: string
+  ifRange?: string
+  ipAddress?: string
+  userAgent?: string
+  referer?: string
+}
+
+/**
+ * 字节范围（闭区间）
+ */
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+/**
+ * 可输出的下载内容（存储驱动支持预签名时只返回 redirectUrl）
+ */
+export interface DownloadContent {
+  stream?: ReadableStream<Uint8Array>
+  redirectUrl?: string
+  fileName: string
+  mimeType: string
+  fileSize: number
+  checksum: string | null
+  range: ByteRange | null
+}
+
+/**
+ * 生成 Content-Disposition（非 ASCII 文件名使用 RFC 5987 编码）
+ */
+export function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
+
+/**
+ * 解析单段 Range 请求头（bytes=start-end / bytes=start- / bytes=-suffix）
+ * 无法解析或多段范围时返回 null（按完整文件输出），范围超出文件大小时抛出错误
+ */
+export function parseRangeHeader(header: string | undefined, fileSize: number): ByteRange | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null
+  }
+
+  let start: number
+  let end: number
+  if (match[1] === '') {
+    // 后缀范围：最后 N 个字节
+    start = Math.max(0, fileSize - Number(match[2]))
+    end = fileSize - 1
+  } else {
+    start = Number(match[1])
+    end = match[2] === '' ? fileSize - 1 : Math.min(Number(match[2]), fileSize - 1)
+  }
+
+  if (start >= fileSize || end < start) {
+    throw new BusinessLogicError('请求的范围无效', 'RANGE_NOT_SATISFIABLE', { fileSize })
+  }
+
+  return { start, end }
+}
+
+/**
+ * 文件下载服务
+ * 通过发货记录的下载令牌（或 TokenService 签发的 JWT）校验下载权限，按 Range 流式输出文件并记录下载日志
+ */
+export class DownloadService {
+  /**
+   * 校验下载令牌并打开文件流
+   * 从第 0 字节开始的请求计为一次下载，续传请求不计次数但受已下载字节总量限制
+   * 存储驱动支持预签名时每次请求计一次下载并返回短时效的预签名地址，续传由存储服务直接处理
+   */
+  async openDownload(token: string, request: DownloadRequest = {}): Promise<DownloadContent> {
+    const startedAt = Date.now()
+    const delivery = await this.resolveDelivery(token, request)
+
+    let file: File
+    let fileName: string
+    let redirectUrl: string | null
+    let range: ByteRange | null = null
+    let source: Readable | undefined
+    try {
+      await this.assertDeliveryUsable(delivery)
+      file = await this.requireFile(delivery)
+      fileName = (file.id === delivery.fileId && delivery.fileName) || file.originalName
+      // 商品开启授权标记时下载买家专属副本（首次下载时生成）
+      file = await fileStampService.getDeliveryFile(delivery, file)
+      redirectUrl = await storageService.getDownloadUrl(file, contentDisposition(fileName))
+
+      if (redirectUrl) {
+        await this.consumeDownload(delivery)
+      } else {
+        // If-Range 与当前文件不一致时忽略 Range，重新下载完整文件
+        const etag = file.checksum ? `"${file.checksum}"` : null
+        const rangeHeader = request.ifRange && request.ifRange !== etag ? undefined : request.range
+        range = parseRangeHeader(rangeHeader, file.fileSize)
+
+        if (range && range.start > 0) {
+          await this.assertResumeAllowed(delivery, file)
+        } else {
+          await this.consumeDownload(delivery)
+        }
+        source = await storageService.forFile(file).createReadStream(file.filePath, range)
+      }
+    } catch (error) {
+      await this.recordDownload(delivery.id, request, DownloadStatus.FAILED, 0, Date.now() - startedAt)
+      throw error
+    }
+
+    const content = {
+      fileName,
+      mimeType: file.mimeType || 'application/octet-stream',
+      fileSize: file.fileSize,
+      checksum: file.checksum,
+      range,
+    }
+
+    if (redirectUrl) {
+      await this.recordDownload(delivery.id, request, DownloadStatus.REDIRECTED, 0, Date.now() - startedAt)
+      return { ...content, redirectUrl }
+    }
+
+    const expectedBytes = range ? range.end - range.start + 1 : file.fileSize
+    const stream = this.createFileStream(source, file.filePath, (bytes, failed) => {
+      const status = failed ? DownloadStatus.FAILED : bytes < expectedBytes ? DownloadStatus.PARTIAL : DownloadStatus.SUCCESS
+      void this.recordDownload(delivery.id, request, status, bytes, Date.now() - startedAt)
+    })
+
+    return { ...content, stream }
+  }
+
+  /**
+   * 失效订单的全部下载链接（退款时调用），同时撤销该订单签发的下载 JWT
+   * 传入 tx 时在退款事务中执行
+   */
+  async revokeOrderDownloads(orderId: string, revokedBy = 'system', tx: any = db): Promise<void> {
+    const deliveries: { id: number }[] = await tx.update(schema.deliveries)
+      .set({ isActive: false })
+      .where(eq(schema.deliveries.orderId, orderId))
+      .returning({ id: schema.deliveries.id })
+
+    if (deliveries.length === 0) {
+      return
+    }
+
+    await tx.update(schema.securityTokens)
+      .set({ isActive: false, revokedAt: new Date().toISOString(), revokedBy })
+      .where(and(
+        eq(schema.securityTokens.tokenType, 'download'),
+        eq(schema.securityTokens.isActive, true),
+        sql`json_extract(${schema.securityTokens.metadata}, '$.associatedId') = ${orderId}`
+      ))
+
+    console.log(`[Download] Revoked ${deliveries.length} download link(s) for order ${orderId}`)
+  }
+
+  /**
+   * 按令牌查找发货记录：JWT 先经 TokenService 校验签名、撤销状态和使用次数
+   */
+  private async resolveDelivery(token: string, request: DownloadRequest): Promise<Delivery> {
+    let condition = eq(schema.deliveries.downloadToken, token)
+
+    if (token.split('.').length === 3) {
+      const result = await tokenService.verifyDownloadToken(token, request.ipAddress, request.userAgent)
+      if (!result.isValid || !result.deliveryId) {
+        throw new BusinessLogicError(
+          result.isExpired ? '下载链接已过期' : '下载链接无效或已被撤销',
+          result.isExpired ? 'DOWNLOAD_EXPIRED' : 'DOWNLOAD_REVOKED'
+        )
+      }
+      condition = eq(schema.deliveries.id, result.deliveryId)
+    }
+
+    const [delivery] = await db.select()
+      .from(schema.deliveries)
+      .where(condition)
+      .limit(1)
+
+    if (!delivery) {
+      throw new NotFoundError('Delivery')
+    }
+    return delivery
+  }
+
+  /**
+   * 校验发货记录状态：退款失效、订单已退款、链接过期
+   */
+  private async assertDeliveryUsable(delivery: Delivery): Promise<void> {
+    if (!delivery.isActive) {
+      throw new BusinessLogicError('下载链接已失效', 'DOWNLOAD_REVOKED', { deliveryId: delivery.id })
+    }
+
+    const [order] = await db.select({ status: schema.orders.status })
+      .from(schema.orders)
+      .where(eq(schema.orders.id, delivery.orderId))
+      .limit(1)
+    if (!order || order.status === OrderStatus.REFUNDED) {
+      throw new BusinessLogicError('下载链接已失效', 'DOWNLOAD_REVOKED', { deliveryId: delivery.id })
+    }
+
+    if (delivery.expiresAt && new Date(delivery.expiresAt) < new Date()) {
+      throw new BusinessLogicError('下载链接已过期', 'DOWNLOAD_EXPIRED', { deliveryId: delivery.id })
+    }
+  }
+
+  /**
+   * 获取发货记录应下载的文件（按商品的版本策略解析）
+   */
+  private async requireFile(delivery: Delivery): Promise<File> {
+    const fileId = await productFileService.resolveDeliveryFileId(delivery)
+    if (!fileId) {
+      throw new NotFoundError('File')
+    }
+
+    const [file] = await db.select()
+      .from(schema.files)
+      .where(and(eq(schema.files.id, fileId), eq(schema.files.isActive, true)))
+      .limit(1)
+    if (!file) {
+      throw new NotFoundError('File', fileId)
+    }
+
+    let stat: { size: number } | null
+    try {
+      stat = await storageService.forFile(file).stat(file.filePath)
+    } catch (error) {
+      console.warn(`[Download] Failed to stat file for delivery ${delivery.id}: ${file.filePath}`, error)
+      stat = null
+    }
+    if (!stat) {
+      console.warn(`[Download] File missing for delivery ${delivery.id}: ${file.filePath}`)
+      throw new NotFoundError('File', fileId)
+    }
+    return file
+  }
+
+  /**
+   * 计一次下载（条件更新，避免并发请求超出次数限制）
+   */
+  private async consumeDownload(delivery: Delivery): Promise<void> {
+    const maxDownloads = delivery.maxDownloads ?? 0
+    const [updated] = await db.update(schema.deliveries)
+      .set({ downloadCount: sql`COALESCE(${schema.deliveries.downloadCount}, 0) + 1` })
+      .where(and(
+        eq(schema.deliveries.id, delivery.id),
+        sql`COALESCE(${schema.deliveries.downloadCount}, 0) < ${maxDownloads}`
+      ))
+      .returning({ id: schema.deliveries.id })
+
+    if (!updated) {
+      throw new BusinessLogicError('下载次数已用完', 'DOWNLOAD_LIMIT_EXCEEDED', { deliveryId: delivery.id, maxDownloads })
+    }
+  }
+
+  /**
+   * 续传请求：必须已开始过下载，且累计输出字节不超过允许的下载次数 × 文件大小
+   */
+  private async assertResumeAllowed(delivery: Delivery, file: File): Promise<void> {
+    const [served] = await db.select({ bytes: sum(schema.downloads.bytesDownloaded) })
+      .from(schema.downloads)
+      .where(eq(schema.downloads.deliveryId, delivery.id))
+
+    const maxBytes = (delivery.maxDownloads ?? 0) * file.fileSize
+    if (!delivery.downloadCount || Number(served?.bytes ?? 0) >= maxBytes) {
+      throw new BusinessLogicError('下载次数已用完', 'DOWNLOAD_LIMIT_EXCEEDED', { deliveryId: delivery.id })
+    }
+  }
+
+  /**
+   * 包装存储驱动的读取流，统计实际输出的字节数，输出结束、中断或出错时回调
+   */
+  private createFileStream(
+    source: Readable,
+    filePath: string,
+    onFinish: (bytes: number, failed: boolean) => void
+  ): ReadableStream<Uint8Array> {
+    const iterator = source[Symbol.asyncIterator]()
+    let bytes = 0
+    let finished = false
+
+    const finish = (failed: boolean) => {
+      if (!finished) {
+        finished = true
+        onFinish(bytes, failed)
+      }
+    }
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await iterator.next()
+          if (done) {
+            controller.close()
+            finish(false)
+            return
+          }
+          bytes += value.length
+          controller.enqueue(new Uint8Array(value))
+        } catch (error) {
+          console.error(`[Download] Failed to read ${filePath}:`, error)
+          finish(true)
+          controller.error(error)
+        }
+      },
+      cancel() {
+        // 客户端中断下载
+        source.destroy()
+        finish(false)
+      },
+    })
+  }
+
+  /**
+   * 写入下载日志（失败不影响下载）
+   */
+  private async recordDownload(
+    deliveryId: number,
+    request: DownloadRequest,
+    status: DownloadStatusType,
+    bytesDownloaded: number,
+    downloadTimeMs: number
+  ): Promise<void> {
+    try {
+      await db.insert(schema.downloads).values({
+        deliveryId,
+        ipAddress: request.ipAddress,
+        userAgent: request.userAgent,
+        referer: request.referer,
+        downloadStatus: status,
+        bytesDownloaded,
+        downloadTimeMs,
+        downloadedAt: new Date().toISOString(),
+      })
+    } catch (error) {
+      console.error(`[Download] Failed to record download for delivery ${deliveryId}:`, error)
+    }
+  }
+}
+
+export const downloadService = new DownloadService()
+
+export default downloadService
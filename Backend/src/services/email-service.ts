@@ -0,0 +1,729 @@
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import fs from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { db, schema } from '../db'
+import { eq, and, desc } from 'drizzle-orm'
+import { configService } from './config-service'
+import { auditService } from './audit-service'
+import { emailTemplateService } from './email-template-service'
+import { invoiceService } from './invoice-service'
+import { EmailType, EmailTransportType, EmailStatus } from '../db/schema'
+
+// ==============================================
+// 类型定义
+// ==============================================
+
+export type EmailTypeValue = typeof EmailType[keyof typeof EmailType]
+export type EmailTransportName = typeof EmailTransportType[keyof typeof EmailTransportType]
+
+/**
+ * 邮件附件
+ */
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+  contentType?: string
+}
+
+/**
+ * 待发送邮件
+ */
+export interface EmailMessage {
+  from: string
+  to: string
+  subject: string
+  html: string
+  text?: string
+  attachments?: EmailAttachment[]
+}
+
+/**
+ * 发送通道返回结果
+ */
+export interface EmailSendResult {
+  messageId?: string
+}
+
+/**
+ * 邮件发送通道接口
+ */
+export interface EmailTransport {
+  readonly name: EmailTransportName
+  send(message: EmailMessage): Promise<EmailSendResult>
+}
+
+/**
+ * 订单邮件发送选项
+ */
+export interface OrderEmailOptions {
+  triggeredBy?: string
+  reason?: string
+}
+
+/**
+ * 订单邮件发送结果
+ */
+export interface OrderEmailOutcome {
+  success: boolean
+  logId?: number
+  messageId?: string
+  error?: string
+}
+
+// ==============================================
+// MIME 构建
+// ==============================================
+
+/**
+ * 按 RFC 2047 编码邮件头
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+/**
+ * base64 编码并按 76 字符折行
+ */
+function encodeBody(content: string | Buffer): string {
+  const base64 = Buffer.isBuffer(content)
+    ? content.toString('base64')
+    : Buffer.from(content, 'utf8').toString('base64')
+  return base64.replace(/.{1,76}/g, '$&\r\n').trimEnd()
+}
+
+/**
+ * 从 "Name <addr>" 中提取邮箱地址
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return (match ? match[1] : value).trim()
+}
+
+/**
+ * HTML 转纯文本（用于 text/plain 备用正文）
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/h\d|\/li|\/tr)\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * 构建完整的 MIME 邮件（SMTP 与本地发件箱共用）
+ */
+export function buildMimeMessage(message: EmailMessage, messageId: string): string {
+  const alternativeBoundary = `alt_${randomUUID().replace(/-/g, '')}`
+  const mixedBoundary = `mixed_${randomUUID().replace(/-/g, '')}`
+  const hasAttachments = (message.attachments?.length || 0) > 0
+
+  const headers = [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+  ]
+
+  const alternative = [
+    `--${alternativeBoundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text || htmlToText(message.html)),
+    `--${alternativeBoundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${alternativeBoundary}--`,
+  ]
+
+  if (!hasAttachments) {
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+      '',
+      ...alternative,
+      '',
+    ].join('\r\n')
+  }
+
+  const parts = [
+    `--${mixedBoundary}`,
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    '',
+    ...alternative,
+  ]
+
+  for (const attachment of message.attachments) {
+    parts.push(
+      `--${mixedBoundary}`,
+      `Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${encodeHeader(attachment.filename)}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${encodeHeader(attachment.filename)}"`,
+      '',
+      encodeBody(attachment.content)
+    )
+  }
+
+  parts.push(`--${mixedBoundary}--`)
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    '',
+    ...parts,
+    '',
+  ].join('\r\n')
+}
+
+function generateMessageId(from: string): string {
+  const domain = extractAddress(from).split('@')[1] || 'autoship.local'
+  return `${randomUUID()}@${domain}`
+}
+
+// ==============================================
+// Resend 通道
+// ==============================================
+
+export interface ResendTransportOptions {
+  apiKey: string
+  baseUrl?: string
+  timeout?: number
+}
+
+/**
+ * Resend HTTP API 发送通道
+ */
+export class ResendTransport implements EmailTransport {
+  readonly name = EmailTransportType.RESEND
+
+  constructor(private options: ResendTransportOptions) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    if (!this.options.apiKey) {
+      throw new Error('Resend API key is not configured')
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.options.timeout || 30000)
+
+    try {
+      const response = await fetch(`${this.options.baseUrl || 'https://api.resend.com'}/emails`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text || htmlToText(message.html),
+          attachments: message.attachments?.map(attachment => ({
+            filename: attachment.filename,
+            content: attachment.content.toString('base64')
+          }))
+        }),
+        signal: controller.signal
+      })
+
+      const body: any = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(`Resend API error ${response.status}: ${body?.message || response.statusText}`)
+      }
+
+      return { messageId: body?.id }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+// ==============================================
+// SMTP 通道
+// ==============================================
+
+export interface SmtpTransportOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+  allowInsecureAuth?: boolean // 允许在未加密的连接上登录（仅限内网测试服务器）
+  timeout?: number
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+/**
+ * 最小化 SMTP 会话（EHLO / STARTTLS / AUTH LOGIN / DATA）
+ */
+class SmtpSession {
+  private socket: net.Socket
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private timeout: number) {}
+
+  connect(host: string, port: number, secure: boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve())
+        : net.connect({ host, port }, () => resolve())
+
+      socket.once('error', reject)
+      this.attach(socket)
+    })
+  }
+
+  /**
+   * STARTTLS 后升级为加密连接
+   */
+  upgrade(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data')
+      const secureSocket = tls.connect({ socket: this.socket, servername: host }, () => resolve())
+      secureSocket.once('error', reject)
+      this.attach(secureSocket)
+    })
+  }
+
+  async command(line: string, expected: number | number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected)
+  }
+
+  async expect(expected: number | number[]): Promise<SmtpReply> {
+    const reply = await this.nextReply()
+    const codes = Array.isArray(expected) ? expected : [expected]
+
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.text}`)
+    }
+
+    return reply
+  }
+
+  close(): void {
+    this.socket?.destroy()
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket
+    socket.setTimeout(this.timeout, () => this.fail(new Error('SMTP connection timed out')))
+    socket.on('error', error => this.fail(error))
+    socket.on('data', chunk => this.onData(chunk.toString('utf8')))
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk
+
+    let index: number
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(index + 1)
+      this.lines.push(line)
+
+      // "250-..." 为多行回复的中间行，"250 ..." 为最后一行
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = {
+          code: parseInt(line.slice(0, 3), 10),
+          text: this.lines.map(l => l.slice(4)).join('\n')
+        }
+        this.lines = []
+
+        if (this.waiter) {
+          const { resolve } = this.waiter
+          this.waiter = null
+          resolve(reply)
+        } else {
+          this.replies.push(reply)
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = error
+    if (this.waiter) {
+      const { reject } = this.waiter
+      this.waiter = null
+      reject(error)
+    }
+    this.socket?.destroy()
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    if (this.replies.length > 0) {
+      return Promise.resolve(this.replies.shift())
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure)
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject }
+    })
+  }
+}
+
+/**
+ * SMTP 发送通道
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = EmailTransportType.SMTP
+
+  constructor(private options: SmtpTransportOptions) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { host, port, secure, user, password } = this.options
+
+    if (!host) {
+      throw new Error('SMTP host is not configured')
+    }
+
+    const messageId = generateMessageId(message.from)
+    const session = new SmtpSession(this.options.timeout || 30000)
+    const clientName = os.hostname() || 'localhost'
+
+    try {
+      await session.connect(host, port, secure)
+      await session.expect(220)
+
+      const ehlo = await session.command(`EHLO ${clientName}`, 250)
+      let encrypted = secure
+
+      if (!secure && /STARTTLS/i.test(ehlo.text)) {
+        await session.command('STARTTLS', 220)
+        await session.upgrade(host)
+        await session.command(`EHLO ${clientName}`, 250)
+        encrypted = true
+      }
+
+      // 服务器不支持 STARTTLS 时不在明文连接上发送账号密码
+      if (user && !encrypted && !this.options.allowInsecureAuth) {
+        throw new Error('SMTP server does not support STARTTLS, refusing to send credentials over an unencrypted connection')
+      }
+
+      if (user) {
+        await session.command('AUTH LOGIN', 334)
+        await session.command(Buffer.from(user).toString('base64'), 334)
+        await session.command(Buffer.from(password || '').toString('base64'), 235)
+      }
+
+      await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, 250)
+      await session.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251])
+      await session.command('DATA', 354)
+
+      // 行首的 "." 需要转义（dot-stuffing）
+      const raw = buildMimeMessage(message, messageId).replace(/^\./gm, '..')
+      await session.command(`${raw}\r\n.`, 250)
+      await session.command('QUIT', 221).catch(() => undefined)
+
+      return { messageId }
+    } finally {
+      session.close()
+    }
+  }
+}
+
+// ==============================================
+// 本地发件箱通道
+// ==============================================
+
+/**
+ * 将邮件写入本地目录（.eml），用于开发和测试环境
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = EmailTransportType.FILE
+
+  constructor(private outboxDir: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = generateMessageId(message.from)
+    const fileName = `${Date.now()}_${messageId.split('@')[0]}.eml`
+
+    await fs.mkdir(this.outboxDir, { recursive: true })
+    await fs.writeFile(path.join(this.outboxDir, fileName), buildMimeMessage(message, messageId), 'utf8')
+
+    return { messageId }
+  }
+}
+
+// ==============================================
+// 邮件服务
+// ==============================================
+
+/**
+ * 邮件服务
+ * 负责选择发送通道、生成订单邮件并记录每次发送尝试
+ */
+export class EmailService {
+  private transportOverride: EmailTransport | null = null
+
+  /**
+   * 指定发送通道（测试或临时切换时使用）
+   */
+  setTransport(transport: EmailTransport | null): void {
+    this.transportOverride = transport
+  }
+
+  /**
+   * 根据 email.transport 配置创建发送通道
+   */
+  async getTransport(): Promise<EmailTransport> {
+    if (this.transportOverride) {
+      return this.transportOverride
+    }
+
+    const transport = await configService.getConfig('email', 'transport', EmailTransportType.RESEND)
+    const timeoutSeconds = Number(await configService.getConfig('email', 'smtp_timeout', 30))
+
+    switch (transport) {
+      case EmailTransportType.SMTP: {
+        const secure = await configService.getConfig('email', 'smtp_secure', false)
+        const allowInsecureAuth = await configService.getConfig('email', 'smtp_allow_insecure_auth', false)
+        return new SmtpTransport({
+          host: await configService.getConfig('email', 'smtp_host', ''),
+          port: Number(await configService.getConfig('email', 'smtp_port', 587)),
+          secure: secure === true || secure === 'true',
+          user: await configService.getConfig('email', 'smtp_user', ''),
+          password: await configService.getConfig('email', 'smtp_password', '', { includeEncrypted: true }),
+          allowInsecureAuth: allowInsecureAuth === true || allowInsecureAuth === 'true',
+          timeout: timeoutSeconds * 1000
+        })
+      }
+      case EmailTransportType.FILE:
+        return new FileTransport(await configService.getConfig('email', 'outbox_dir', './temp/outbox'))
+      case EmailTransportType.RESEND:
+        return new ResendTransport({
+          apiKey: await configService.getConfig('email', 'resend_api_key', '', { includeEncrypted: true }),
+          timeout: timeoutSeconds * 1000
+        })
+      default:
+        throw new Error(`Unsupported email transport: ${transport}`)
+    }
+  }
+
+  /**
+   * 发送发货邮件
+   */
+  async sendDeliveryEmail(orderId: string, options: OrderEmailOptions = {}): Promise<OrderEmailOutcome> {
+    return this.sendOrderEmail(orderId, EmailType.DELIVERY, options)
+  }
+
+  /**
+   * 发送支付失败通知
+   */
+  async sendFailureEmail(orderId: string, options: OrderEmailOptions = {}): Promise<OrderEmailOutcome> {
+    return this.sendOrderEmail(orderId, EmailType.FAILURE, options)
+  }
+
+  /**
+   * 发送退款通知
+   */
+  async sendRefundEmail(orderId: string, options: OrderEmailOptions = {}): Promise<OrderEmailOutcome> {
+    return this.sendOrderEmail(orderId, EmailType.REFUND, options)
+  }
+
+  /**
+   * 发送订单邮件
+   * 模板渲染或发送失败不会抛出异常，结果写入 email_logs 并返回
+   */
+  async sendOrderEmail(
+    orderId: string,
+    emailType: EmailTypeValue,
+    options: OrderEmailOptions = {}
+  ): Promise<OrderEmailOutcome> {
+    const [row] = await db.select({
+      order: schema.orders,
+      product: schema.products
+    })
+      .from(schema.orders)
+      .leftJoin(schema.products, eq(schema.orders.productId, schema.products.id))
+      .where(eq(schema.orders.id, orderId))
+      .limit(1)
+
+    if (!row) {
+      return { success: false, error: `Order ${orderId} not found` }
+    }
+
+    const deliveries = emailType === EmailType.DELIVERY
+      ? await db.select()
+        .from(schema.deliveries)
+        .where(and(
+          eq(schema.deliveries.orderId, orderId),
+          eq(schema.deliveries.isActive, true)
+        ))
+      : []
+
+    const context = { orderId, emailType, triggeredBy: options.triggeredBy }
+
+    let from: string
+    let subject: string
+    let html: string
+    try {
+      from = await this.getFromAddress()
+      ;({ subject, html } = await emailTemplateService.renderForOrder(
+        emailType,
+        row.order,
+        row.product,
+        deliveries,
+        options.reason ? { reason: options.reason } : {}
+      ))
+    } catch (error) {
+      const errorMessage = `邮件模板渲染失败: ${error instanceof Error ? error.message : 'Unknown error'}`
+      const logId = await this.recordAttempt(
+        { from: '', to: row.order.email, subject: '', html: '' },
+        context,
+        'unknown',
+        EmailStatus.FAILED,
+        undefined,
+        errorMessage
+      )
+
+      console.error(`[Email] Failed to render ${emailType} email for order ${orderId}:`, error)
+      return { success: false, logId, error: errorMessage }
+    }
+
+    // 发货邮件附带发票 PDF，生成失败时仍发送邮件
+    const attachments: EmailAttachment[] = []
+    if (emailType === EmailType.DELIVERY) {
+      try {
+        const document = await invoiceService.getDocument(await invoiceService.getOrCreateInvoice(orderId))
+        attachments.push({ filename: document.filename, content: document.content, contentType: 'application/pdf' })
+      } catch (error) {
+        console.error(`[Email] Failed to attach invoice for order ${orderId}:`, error)
+      }
+    }
+
+    return this.deliver({
+      from,
+      to: row.order.email,
+      subject,
+      html,
+      attachments: attachments.length > 0 ? attachments : undefined
+    }, context)
+  }
+
+  /**
+   * 查询订单的邮件发送记录
+   */
+  async getEmailLogs(orderId: string) {
+    return db.select()
+      .from(schema.emailLogs)
+      .where(eq(schema.emailLogs.orderId, orderId))
+      .orderBy(desc(schema.emailLogs.createdAt))
+  }
+
+  /**
+   * 通过发送通道投递并记录发送尝试
+   */
+  async deliver(
+    message: EmailMessage,
+    context: { orderId?: string; emailType: EmailTypeValue; triggeredBy?: string }
+  ): Promise<OrderEmailOutcome> {
+    let transportName: string = 'unknown'
+
+    try {
+      const transport = await this.getTransport()
+      transportName = transport.name
+
+      const result = await transport.send(message)
+      const logId = await this.recordAttempt(message, context, transportName, EmailStatus.SENT, result.messageId)
+
+      console.log(`[Email] ${context.emailType} email sent to ${message.to} via ${transportName}`, {
+        orderId: context.orderId,
+        messageId: result.messageId
+      })
+
+      return { success: true, logId, messageId: result.messageId }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      const logId = await this.recordAttempt(message, context, transportName, EmailStatus.FAILED, undefined, errorMessage)
+
+      console.error(`[Email] Failed to send ${context.emailType} email to ${message.to}:`, errorMessage)
+
+      await auditService.logAuditEvent({
+        action: 'email_send_failed',
+        resourceType: 'order',
+        resourceId: context.orderId,
+        success: false,
+        userEmail: message.to,
+        errorMessage,
+        metadata: {
+          emailType: context.emailType,
+          transport: transportName
+        }
+      })
+
+      return { success: false, logId, error: errorMessage }
+    }
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async getFromAddress(): Promise<string> {
+    const fromEmail = await configService.getConfig('email', 'from_email', 'noreply@example.com')
+    const fromName = await configService.getConfig('email', 'from_name', 'AutoShip')
+    return fromName ? `${fromName} <${fromEmail}>` : fromEmail
+  }
+
+  private async recordAttempt(
+    message: EmailMessage,
+    context: { orderId?: string; emailType: EmailTypeValue; triggeredBy?: string },
+    transport: string,
+    status: string,
+    messageId?: string,
+    errorMessage?: string
+  ): Promise<number | undefined> {
+    try {
+      const [log] = await db.insert(schema.emailLogs)
+        .values({
+          orderId: context.orderId,
+          emailType: context.emailType,
+          recipient: message.to,
+          subject: message.subject,
+          transport,
+          status,
+          messageId,
+          errorMessage,
+          triggeredBy: context.triggeredBy || 'system',
+          createdAt: new Date().toISOString()
+        })
+        .returning()
+
+      return log?.id
+    } catch (error) {
+      console.error('[Email] Failed to record email attempt:', error)
+      return undefined
+    }
+  }
+}
+
+// 创建并导出邮件服务实例
+export const emailService = new EmailService()
+
+export default emailService
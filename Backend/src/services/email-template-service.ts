@@ -0,0 +1,429 @@
+import { db, schema } from '../db'
+import { and, eq, isNull, asc } from 'drizzle-orm'
+import { CONFIG } from '../config/api'
+import { EmailType } from '../db/schema'
+import type { Order, Product, Delivery, EmailTemplate } from '../db/schema'
+import type { EmailTypeValue } from './email-service'
+
+/**
+ * 模板可用变量
+ */
+export const TEMPLATE_VARIABLES = [
+  'orderId',
+  'productName',
+  'email',
+  'price',
+  'content',
+  'downloadUrl',
+  'expiresAt',
+  'orderUrl',
+  'reason',
+] as const
+
+export type TemplateVariableName = typeof TEMPLATE_VARIABLES[number]
+export type TemplateVariables = Partial<Record<TemplateVariableName, string>>
+
+/**
+ * 模板内容
+ */
+export interface TemplateContent {
+  subject: string
+  htmlBody: string
+}
+
+/**
+ * 解析后的模板（含来源）
+ */
+export interface ResolvedTemplate extends TemplateContent {
+  id?: number
+  productId?: number | null
+  emailType: EmailTypeValue
+  source: 'product' | 'default' | 'builtin'
+}
+
+/**
+ * 渲染结果
+ */
+export interface RenderedEmail {
+  subject: string
+  html: string
+}
+
+/**
+ * 内置模板（数据库中没有默认模板时使用）
+ */
+export const BUILTIN_TEMPLATES: Record<EmailTypeValue, TemplateContent> = {
+  [EmailType.DELIVERY]: {
+    subject: '您的订单已发货 - {{productName}}',
+    htmlBody: [
+      '<p>感谢您的购买！订单 <strong>{{orderId}}</strong>（{{productName}}，{{price}}）已发货。</p>',
+      '{{#content}}<pre style="background:#f5f5f5;padding:12px;white-space:pre-wrap">{{content}}</pre>{{/content}}',
+      '{{#downloadUrl}}<p><a href="{{downloadUrl}}">点击下载</a>{{#expiresAt}}（有效期至 {{expiresAt}}）{{/expiresAt}}</p>{{/downloadUrl}}',
+      '<p><a href="{{orderUrl}}">查看订单</a></p>',
+    ].join('\n'),
+  },
+  [EmailType.FAILURE]: {
+    subject: '订单支付失败 - {{orderId}}',
+    htmlBody: [
+      '<p>您的订单 <strong>{{orderId}}</strong>（{{productName}}）支付未成功。</p>',
+      '<p>如已扣款，款项将原路退回；您也可以重新下单。</p>',
+      '<p><a href="{{orderUrl}}">查看订单</a></p>',
+    ].join('\n'),
+  },
+  [EmailType.REFUND]: {
+    subject: '订单已退款 - {{orderId}}',
+    htmlBody: [
+      '<p>您的订单 <strong>{{orderId}}</strong>（{{productName}}）已退款，金额 {{price}}。</p>',
+      '{{#reason}}<p>退款原因：{{reason}}</p>{{/reason}}',
+      '<p>该订单的发货内容和下载链接已失效。</p>',
+      '<p><a href="{{orderUrl}}">查看订单</a></p>',
+    ].join('\n'),
+  },
+}
+
+/**
+ * HTML 转义
+ */
+function escapeHtml(value: string): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * 按币种选择展示语言（CNY 使用中文格式，其余使用英文格式）
+ */
+function getLocale(currency: string): string {
+  return currency === 'CNY' ? 'zh-CN' : 'en-US'
+}
+
+/**
+ * 本地化价格，例如 ¥99.00 / $9.99
+ */
+export function formatPrice(amount: number, currency: string): string {
+  try {
+    // 日元没有小数位
+    const fractionDigits = currency === 'JPY' ? 0 : 2
+    return new Intl.NumberFormat(getLocale(currency), {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount)
+  } catch (error) {
+    return `${amount} ${currency}`
+  }
+}
+
+/**
+ * 本地化时间
+ */
+export function formatDateTime(value: string | undefined, currency: string): string {
+  if (!value) return ''
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return value
+  return date.toLocaleString(getLocale(currency), {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * 邮件模板服务
+ * 管理默认模板和商品级模板，并负责变量替换
+ */
+export class EmailTemplateService {
+  /**
+   * 获取生效的模板：商品模板 -> 默认模板 -> 内置模板
+   */
+  async getTemplate(emailType: EmailTypeValue, productId?: number | null): Promise<ResolvedTemplate> {
+    if (productId) {
+      const productTemplate = await this.findTemplate(productId, emailType)
+      if (productTemplate?.isActive) {
+        return this.toResolved(productTemplate, 'product')
+      }
+    }
+
+    const defaultTemplate = await this.findTemplate(null, emailType)
+    if (defaultTemplate?.isActive) {
+      return this.toResolved(defaultTemplate, 'default')
+    }
+
+    return {
+      ...BUILTIN_TEMPLATES[emailType],
+      emailType,
+      productId: null,
+      source: 'builtin'
+    }
+  }
+
+  /**
+   * 查询指定商品（或默认）的模板记录
+   */
+  async findTemplate(productId: number | null, emailType: EmailTypeValue): Promise<EmailTemplate | null> {
+    const [template] = await db.select()
+      .from(schema.emailTemplates)
+      .where(and(
+        productId ? eq(schema.emailTemplates.productId, productId) : isNull(schema.emailTemplates.productId),
+        eq(schema.emailTemplates.emailType, emailType)
+      ))
+      .limit(1)
+
+    return template || null
+  }
+
+  /**
+   * 列出所有模板
+   */
+  async listTemplates(): Promise<EmailTemplate[]> {
+    return db.select()
+      .from(schema.emailTemplates)
+      .orderBy(asc(schema.emailTemplates.productId), asc(schema.emailTemplates.emailType))
+  }
+
+  /**
+   * 保存模板（productId 为 null 时保存默认模板）
+   */
+  async saveTemplate(
+    productId: number | null,
+    emailType: EmailTypeValue,
+    data: TemplateContent & { isActive?: boolean },
+    updatedBy?: string
+  ): Promise<EmailTemplate> {
+    const now = new Date().toISOString()
+    const existing = await this.findTemplate(productId, emailType)
+
+    if (existing) {
+      const [updated] = await db.update(schema.emailTemplates)
+        .set({
+          subject: data.subject,
+          htmlBody: data.htmlBody,
+          isActive: data.isActive !== false,
+          updatedAt: now,
+          updatedBy
+        })
+        .where(eq(schema.emailTemplates.id, existing.id))
+        .returning()
+
+      return updated
+    }
+
+    const [created] = await db.insert(schema.emailTemplates)
+      .values({
+        productId,
+        emailType,
+        subject: data.subject,
+        htmlBody: data.htmlBody,
+        isActive: data.isActive !== false,
+        createdAt: now,
+        updatedAt: now,
+        updatedBy
+      })
+      .returning()
+
+    return created
+  }
+
+  /**
+   * 删除商品模板（恢复使用默认模板）
+   */
+  async deleteTemplate(productId: number | null, emailType: EmailTypeValue): Promise<boolean> {
+    const existing = await this.findTemplate(productId, emailType)
+    if (!existing) {
+      return false
+    }
+
+    await db.delete(schema.emailTemplates)
+      .where(eq(schema.emailTemplates.id, existing.id))
+
+    return true
+  }
+
+  /**
+   * 替换模板变量
+   * {{#name}}...{{/name}} 仅在变量非空时保留；主题按纯文本替换，正文中的变量值会做 HTML 转义
+   */
+  render(template: TemplateContent, variables: TemplateVariables): RenderedEmail {
+    const sectionPattern = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g
+
+    const replace = (source: string, escape: boolean) => {
+      // 由外向内展开条件块，直到没有剩余的条件块
+      let result = source
+      let previous: string
+      do {
+        previous = result
+        result = previous.replace(sectionPattern, (_match, name: string, inner: string) =>
+          variables[name as TemplateVariableName] ? inner : ''
+        )
+      } while (result !== previous)
+
+      return result.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+        const value = variables[name as TemplateVariableName] ?? ''
+        return escape ? escapeHtml(value) : value
+      })
+    }
+
+    return {
+      subject: replace(template.subject, false),
+      html: replace(template.htmlBody, true)
+    }
+  }
+
+  /**
+   * 从订单数据生成模板变量
+   */
+  buildVariables(
+    order: Order,
+    product: Product | null,
+    deliveries: Delivery[],
+    extra: TemplateVariables = {}
+  ): TemplateVariables {
+    const download = deliveries.find(delivery => delivery.downloadToken || delivery.downloadUrl)
+
+    return {
+      orderId: order.id,
+      productName: product?.name || `#${order.productId}`,
+      email: order.email,
+      price: formatPrice(order.amount, order.currency),
+      content: deliveries
+        .filter(delivery => delivery.content)
+        .map(delivery => delivery.content)
+        .join('\n'),
+      downloadUrl: download
+        ? download.downloadUrl || `${CONFIG.API.BASE_URL}/api/v1/downloads/${download.downloadToken}`
+        : '',
+      expiresAt: formatDateTime(download?.expiresAt, order.currency),
+      orderUrl: `${CONFIG.API.FRONTEND_URL}/orders/${order.id}`,
+      ...extra
+    }
+  }
+
+  /**
+   * 生成示例变量（没有真实订单时用于预览）
+   */
+  buildSampleVariables(product: Product | null, currency: string, price?: number): TemplateVariables {
+    const orderId = 'ORDER20260101120000ABCD'
+    const amount = price ?? (currency === 'CNY' ? 99 : 9.99)
+
+    return {
+      orderId,
+      productName: product?.name || '示例商品',
+      email: 'buyer@example.com',
+      price: formatPrice(amount, currency),
+      content: product?.templateText || 'XXXX-XXXX-XXXX-XXXX',
+      downloadUrl: `${CONFIG.API.BASE_URL}/api/v1/downloads/sample-token`,
+      expiresAt: formatDateTime(new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString(), currency),
+      orderUrl: `${CONFIG.API.FRONTEND_URL}/orders/${orderId}`,
+      reason: '示例退款原因'
+    }
+  }
+
+  /**
+   * 渲染订单邮件
+   */
+  async renderForOrder(
+    emailType: EmailTypeValue,
+    order: Order,
+    product: Product | null,
+    deliveries: Delivery[],
+    extra: TemplateVariables = {}
+  ): Promise<RenderedEmail> {
+    const template = await this.getTemplate(emailType, order.productId)
+    return this.render(template, this.buildVariables(order, product, deliveries, extra))
+  }
+
+  /**
+   * 预览模板
+   * 指定 orderId 时使用真实订单数据，否则使用示例数据；未传入模板内容时使用当前生效模板
+   */
+  async preview(options: {
+    emailType: EmailTypeValue
+    orderId?: string
+    productId?: number
+    currency?: string
+    template?: TemplateContent
+  }): Promise<RenderedEmail & { variables: TemplateVariables; source: ResolvedTemplate['source'] | 'draft' }> {
+    let variables: TemplateVariables
+    let productId = options.productId
+
+    if (options.orderId) {
+      const [row] = await db.select({
+        order: schema.orders,
+        product: schema.products
+      })
+        .from(schema.orders)
+        .leftJoin(schema.products, eq(schema.orders.productId, schema.products.id))
+        .where(eq(schema.orders.id, options.orderId))
+        .limit(1)
+
+      if (!row) {
+        throw new Error(`Order ${options.orderId} not found`)
+      }
+
+      const deliveries = await db.select()
+        .from(schema.deliveries)
+        .where(eq(schema.deliveries.orderId, options.orderId))
+
+      variables = this.buildVariables(row.order, row.product, deliveries)
+      productId = productId || row.order.productId
+    } else {
+      const currency = options.currency || 'CNY'
+      let product: Product | null = null
+      let price: number | undefined
+
+      if (productId) {
+        const [productRow] = await db.select()
+          .from(schema.products)
+          .where(eq(schema.products.id, productId))
+          .limit(1)
+        product = productRow || null
+
+        const [priceRow] = await db.select()
+          .from(schema.productPrices)
+          .where(and(
+            eq(schema.productPrices.productId, productId),
+            eq(schema.productPrices.currency, currency),
+            isNull(schema.productPrices.variantId),
+            isNull(schema.productPrices.startsAt)
+          ))
+          .limit(1)
+        price = priceRow?.price
+      }
+
+      variables = this.buildSampleVariables(product, currency, price)
+    }
+
+    const resolved = options.template ? null : await this.getTemplate(options.emailType, productId)
+    const rendered = this.render(options.template || resolved, variables)
+
+    return {
+      ...rendered,
+      variables,
+      source: resolved ? resolved.source : 'draft'
+    }
+  }
+
+  // ==================== 私有方法 ====================
+
+  private toResolved(template: EmailTemplate, source: 'product' | 'default'): ResolvedTemplate {
+    return {
+      id: template.id,
+      productId: template.productId,
+      emailType: template.emailType as EmailTypeValue,
+      subject: template.subject,
+      htmlBody: template.htmlBody,
+      source
+    }
+  }
+}
+
+// 创建并导出邮件模板服务实例
+export const emailTemplateService = new EmailTemplateService()
+
+export default emailTemplateService
@@ -0,0 +1,347 @@
+import fs from 'fs/promises'
+import { db, schema } from '../db'
+import { asc, eq } from 'drizzle-orm'
+import { Currency, ExchangeRateSource, type ExchangeRate } from '../db/schema'
+import { configService } from './config-service'
+import { priceScheduleService } from './price-schedule-service'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+
+/**
+ * 推算价格的取整规则
+ * - none: 保留两位小数
+ * - integer: 取整到元
+ * - charm: 向上取到 .99 结尾（如 13.86 -> 13.99，8.26 -> 8.99）
+ */
+export type RoundingRule = 'none' | 'integer' | 'charm'
+
+export const ROUNDING_RULES: RoundingRule[] = ['none', 'integer', 'charm']
+
+export const SUPPORTED_CURRENCIES: string[] = Object.values(Currency)
+
+/**
+ * 汇率模式设置（来自 fx 配置分组）
+ */
+export interface FxSettings {
+  enabled: boolean
+  baseCurrency: string
+  rounding: Record<string, RoundingRule> // 按货币设置取整规则，default 为其他货币的规则
+  ratesFile: string // 服务器上的汇率文件路径
+}
+
+/**
+ * 商品价格（derived 表示由基准货币价格按汇率推算）
+ */
+export interface PriceEntry {
+  currency: string
+  price: number
+  isActive: boolean
+  compareAtPrice?: number // 划线原价
+  saleEndsAt?: string // 促销结束时间
+  derived?: boolean
+}
+
+/**
+ * 推算价格所需的设置和汇率，批量处理商品列表时只查询一次
+ */
+export interface FxContext {
+  settings: FxSettings
+  rates: Map<string, number>
+}
+
+/**
+ * 公开的汇率信息，前端用于金额换算展示
+ */
+export interface PublicRates {
+  enabled: boolean
+  baseCurrency: string
+  rates: Record<string, number>
+  updatedAt: string | null
+}
+
+const DEFAULT_ROUNDING: Record<string, RoundingRule> = { default: 'none', JPY: 'integer' }
+
+/**
+ * 按取整规则处理金额
+ */
+export function roundPrice(amount: number, rule: RoundingRule): number {
+  switch (rule) {
+    case 'integer':
+      return Math.max(1, Math.round(amount))
+    case 'charm':
+      // 按分计算后向上取到下一个 .99，不会低于推算金额
+      return (Math.ceil((Math.round(amount * 100) + 1) / 100) * 100 - 1) / 100
+    default:
+      return Math.round(amount * 100) / 100
+  }
+}
+
+/**
+ * 汇率服务
+ * 开启汇率模式后，商品没有单独定价的货币按基准货币价格 × 汇率推算售价；单独设置的 product_prices 始终优先
+ */
+export class ExchangeRateService {
+  /**
+   * 获取汇率模式设置
+   */
+  async getSettings(): Promise<FxSettings> {
+    const [enabled, baseCurrency, rounding, ratesFile] = await Promise.all([
+      configService.getConfig('fx', 'enabled', false),
+      configService.getConfig('fx', 'base_currency', Currency.CNY),
+      configService.getConfig('fx', 'rounding', DEFAULT_ROUNDING),
+      configService.getConfig('fx', 'rates_file', './data/exchange-rates.json'),
+    ])
+
+    // 来自环境变量的配置为字符串
+    return {
+      enabled: enabled === true || enabled === 'true',
+      baseCurrency,
+      rounding: { ...DEFAULT_ROUNDING, ...(typeof rounding === 'string' ? JSON.parse(rounding) : rounding) },
+      ratesFile,
+    }
+  }
+
+  /**
+   * 更新汇率模式设置
+   */
+  async updateSettings(input: Partial<Omit<FxSettings, 'ratesFile'>>, updatedBy: string): Promise<FxSettings> {
+    if (input.baseCurrency !== undefined) {
+      this.assertCurrency(input.baseCurrency)
+      await configService.setConfig('fx', 'base_currency', input.baseCurrency, { dataType: 'string', updatedBy })
+    }
+    if (input.rounding !== undefined) {
+      for (const rule of Object.values(input.rounding)) {
+        if (!ROUNDING_RULES.includes(rule)) {
+          throw new BusinessLogicError(`不支持的取整规则: ${rule}`, 'FX_ROUNDING_INVALID')
+        }
+      }
+      await configService.setConfig('fx', 'rounding', JSON.stringify(input.rounding), { dataType: 'json', updatedBy })
+    }
+    if (input.enabled !== undefined) {
+      // 配置值以文本存储，布尔值按 'true' / 'false' 写入
+      await configService.setConfig('fx', 'enabled', String(input.enabled), { dataType: 'boolean', updatedBy })
+    }
+
+    return await this.getSettings()
+  }
+
+  /**
+   * 获取当前基准货币的汇率列表
+   */
+  async listRates(): Promise<ExchangeRate[]> {
+    const { baseCurrency } = await this.getSettings()
+
+    return await db.select()
+      .from(schema.exchangeRates)
+      .where(eq(schema.exchangeRates.baseCurrency, baseCurrency))
+      .orderBy(asc(schema.exchangeRates.currency))
+  }
+
+  /**
+   * 设置当前基准货币到目标货币的汇率（已存在时覆盖）
+   */
+  async setRate(currency: string, rate: number, source: string = ExchangeRateSource.MANUAL): Promise<ExchangeRate> {
+    const { baseCurrency } = await this.getSettings()
+    this.assertCurrency(currency)
+    if (currency === baseCurrency) {
+      throw new BusinessLogicError('不能设置基准货币自身的汇率', 'FX_RATE_BASE_CURRENCY')
+    }
+    if (!(rate > 0)) {
+      throw new BusinessLogicError('汇率必须大于 0', 'FX_RATE_INVALID')
+    }
+
+    const [saved] = await db.insert(schema.exchangeRates)
+      .values({ baseCurrency, currency, rate, source })
+      .onConflictDoUpdate({
+        target: [schema.exchangeRates.baseCurrency, schema.exchangeRates.currency],
+        set: { rate, source, updatedAt: new Date().toISOString() },
+      })
+      .returning()
+
+    return saved
+  }
+
+  /**
+   * 删除汇率（该货币不再推算价格）
+   */
+  async deleteRate(rateId: number): Promise<void> {
+    const deleted = await db.delete(schema.exchangeRates)
+      .where(eq(schema.exchangeRates.id, rateId))
+      .returning({ id: schema.exchangeRates.id })
+
+    if (deleted.length === 0) {
+      throw new NotFoundError('ExchangeRate', rateId)
+    }
+  }
+
+  /**
+   * 从文件导入汇率
+   * 未传入内容时读取配置 fx.rates_file 指定的服务器文件
+   * 支持 JSON（{"base": "CNY", "rates": {"USD": 0.14}}）和 CSV（每行 currency,rate）
+   */
+  async importRates(content?: string): Promise<{ baseCurrency: string; imported: ExchangeRate[] }> {
+    const settings = await this.getSettings()
+
+    let text = content
+    if (text === undefined) {
+      try {
+        text = await fs.readFile(settings.ratesFile, 'utf-8')
+      } catch (error) {
+        throw new BusinessLogicError(`无法读取汇率文件 ${settings.ratesFile}`, 'FX_FILE_UNREADABLE')
+      }
+    }
+
+    const parsed = this.parseRatesFile(text)
+    if (parsed.baseCurrency && parsed.baseCurrency !== settings.baseCurrency) {
+      throw new BusinessLogicError(
+        `汇率文件的基准货币 ${parsed.baseCurrency} 与当前基准货币 ${settings.baseCurrency} 不一致`,
+        'FX_BASE_MISMATCH'
+      )
+    }
+
+    const imported: ExchangeRate[] = []
+    for (const [currency, rate] of parsed.rates) {
+      if (currency === settings.baseCurrency) {
+        continue
+      }
+      imported.push(await this.setRate(currency, rate, ExchangeRateSource.FILE))
+    }
+
+    return { baseCurrency: settings.baseCurrency, imported }
+  }
+
+  /**
+   * 获取推算价格所需的设置和汇率
+   */
+  async getContext(): Promise<FxContext> {
+    const settings = await this.getSettings()
+    const rates = new Map<string, number>([[settings.baseCurrency, 1]])
+
+    if (settings.enabled) {
+      const rows = await db.select()
+        .from(schema.exchangeRates)
+        .where(eq(schema.exchangeRates.baseCurrency, settings.baseCurrency))
+      for (const row of rows) {
+        rates.set(row.currency, row.rate)
+      }
+    }
+
+    return { settings, rates }
+  }
+
+  /**
+   * 获取公开汇率信息
+   */
+  async getPublicRates(): Promise<PublicRates> {
+    const [settings, rows] = await Promise.all([this.getSettings(), this.listRates()])
+
+    const rates: Record<string, number> = { [settings.baseCurrency]: 1 }
+    let updatedAt: string | null = null
+    for (const row of rows) {
+      rates[row.currency] = row.rate
+      if (row.updatedAt && (!updatedAt || row.updatedAt > updatedAt)) {
+        updatedAt = row.updatedAt
+      }
+    }
+
+    return { enabled: settings.enabled, baseCurrency: settings.baseCurrency, rates, updatedAt }
+  }
+
+  /**
+   * 补全商品价格列表：单独定价的货币保持不变，其余有汇率的货币按基准货币价格推算
+   */
+  withDerivedPrices(prices: PriceEntry[], context: FxContext): PriceEntry[] {
+    const { settings, rates } = context
+    const basePrice = prices.find(price => price.currency === settings.baseCurrency && price.isActive)
+    if (!settings.enabled || !basePrice) {
+      return prices
+    }
+
+    const derived = SUPPORTED_CURRENCIES
+      .filter(currency => rates.has(currency) && !prices.some(price => price.currency === currency))
+      .map(currency => ({
+        currency,
+        price: this.derive(basePrice.price, currency, context)!,
+        isActive: true,
+        // 基准货币处于促销时，推算价格同样显示划线原价
+        ...(basePrice.compareAtPrice ? { compareAtPrice: this.derive(basePrice.compareAtPrice, currency, context)! } : {}),
+        ...(basePrice.saleEndsAt ? { saleEndsAt: basePrice.saleEndsAt } : {}),
+        derived: true,
+      }))
+
+    return [...prices, ...derived]
+  }
+
+  /**
+   * 按汇率推算商品（或规格）在指定货币下的售价，未开启汇率模式、没有基准货币价格或没有汇率时返回 null
+   */
+  async getDerivedPrice(productId: number, currency: string, variantId: number | null = null): Promise<number | null> {
+    const context = await this.getContext()
+    if (!context.settings.enabled || !context.rates.has(currency)) {
+      return null
+    }
+
+    // 基准货币处于促销时按促销价推算
+    const basePrice = await priceScheduleService.getEffectivePrice(productId, context.settings.baseCurrency, variantId)
+
+    return basePrice ? this.derive(basePrice.price, currency, context) : null
+  }
+
+  private derive(basePrice: number, currency: string, context: FxContext): number | null {
+    const rate = context.rates.get(currency)
+    if (rate === undefined) {
+      return null
+    }
+
+    const rule = context.settings.rounding[currency] ?? context.settings.rounding.default ?? 'none'
+    return roundPrice(basePrice * rate, rule)
+  }
+
+  private parseRatesFile(text: string): { baseCurrency: string | null; rates: Array<[string, number]> } {
+    const trimmed = text.trim()
+    let baseCurrency: string | null = null
+    let entries: Array<[string, unknown]>
+
+    if (trimmed.startsWith('{')) {
+      let data: any
+      try {
+        data = JSON.parse(trimmed)
+      } catch (error) {
+        throw new BusinessLogicError('汇率文件不是有效的 JSON', 'FX_FILE_INVALID')
+      }
+      baseCurrency = typeof data.base === 'string' ? data.base.toUpperCase() : null
+      entries = Object.entries(data.rates || {})
+    } else {
+      entries = trimmed.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#') && !/^currency\s*,/i.test(line))
+        .map(line => {
+          const [currency, rate] = line.split(',').map(value => value.trim())
+          return [currency, Number(rate)]
+        })
+    }
+
+    if (entries.length === 0) {
+      throw new BusinessLogicError('汇率文件中没有汇率数据', 'FX_FILE_INVALID')
+    }
+
+    const rates = entries.map(([currency, rate]): [string, number] => {
+      const code = String(currency).toUpperCase()
+      if (!SUPPORTED_CURRENCIES.includes(code) || typeof rate !== 'number' || !(rate > 0)) {
+        throw new BusinessLogicError(`汇率文件中 ${currency} 的汇率无效`, 'FX_FILE_INVALID')
+      }
+      return [code, rate]
+    })
+
+    return { baseCurrency, rates }
+  }
+
+  private assertCurrency(currency: string): void {
+    if (!SUPPORTED_CURRENCIES.includes(currency)) {
+      throw new BusinessLogicError(`不支持的货币: ${currency}`, 'FX_CURRENCY_UNSUPPORTED')
+    }
+  }
+}
+
+export const exchangeRateService = new ExchangeRateService()
+
+export default exchangeRateService
@@ -0,0 +1,321 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import { createWriteStream } from 'fs'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { db, schema } from '../db'
+import { and, eq, inArray, isNull, or } from 'drizzle-orm'
+import type { Delivery, File } from '../db/schema'
+import { configService } from './config-service'
+import { storageService, type StorageDriver } from './storage-service'
+import { buildZipAppendix, extractStampIds, readZipEnd, stampPdf, ZIP_END_MAX_SIZE } from '../utils/file-stamp'
+
+/**
+ * 支持授权标记的文件类型
+ */
+export type StampFormat = 'zip' | 'pdf'
+
+/**
+ * ZIP 中追加的授权文件名
+ */
+export const LICENSE_FILE_NAME = 'AUTOSHIP-LICENSE.txt'
+
+/**
+ * 授权标记追踪结果
+ */
+export interface StampTrace {
+  stampId: string
+  deliveryId: number
+  stampedAt: string | null
+  downloadCount: number
+  isActive: boolean
+  order: {
+    id: string
+    email: string
+    status: string | null
+    productId: number
+    productName: string | null
+    createdAt: string | null
+  }
+}
+
+/**
+ * 生成授权标记编号：AS-XXXXX-XXXXX-XXXXX-XXXXX
+ */
+export function generateStampId(): string {
+  return `AS-${randomBytes(10).toString('hex').toUpperCase().match(/.{5}/g)!.join('-')}`
+}
+
+/**
+ * 按文件名和 MIME 类型判断可写入授权标记的格式
+ */
+export function resolveStampFormat(file: Pick<File, 'originalName' | 'mimeType'>): StampFormat | null {
+  const extension = path.extname(file.originalName).toLowerCase()
+  if (extension === '.zip' || file.mimeType === 'application/zip' || file.mimeType === 'application/x-zip-compressed') {
+    return 'zip'
+  }
+  if (extension === '.pdf' || file.mimeType === 'application/pdf') {
+    return 'pdf'
+  }
+  return null
+}
+
+/**
+ * 读取对象的一段字节（闭区间）
+ */
+async function readRange(driver: StorageDriver, key: string, start: number, end: number): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of await driver.createReadStream(key, { start, end })) {
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * 文件授权标记服务
+ * 商品开启 file_stamping 后，买家首次下载时生成写有订单号、邮箱和授权编号的专属副本并缓存到 files 表，
+ * 泄露的副本可通过授权编号追溯到订单
+ */
+export class FileStampService {
+  /**
+   * 获取发货记录实际下载的文件：需要授权标记时返回买家专属副本，否则返回原文件
+   * 生成副本失败时返回原文件，不影响买家下载
+   */
+  async getDeliveryFile(delivery: Delivery, file: File): Promise<File> {
+    const format = resolveStampFormat(file)
+    if (!format) {
+      return file
+    }
+
+    const [product] = await db.select({ name: schema.products.name, fileStamping: schema.products.fileStamping })
+      .from(schema.productFileVersions)
+      .innerJoin(schema.products, eq(schema.productFileVersions.productId, schema.products.id))
+      .where(eq(schema.productFileVersions.fileId, file.id))
+      .limit(1)
+    if (!product?.fileStamping) {
+      return file
+    }
+
+    const cached = await this.findStampedFile(delivery, file)
+    if (cached) {
+      return cached
+    }
+
+    try {
+      return await this.createStampedFile(delivery, file, format, product.name)
+    } catch (error) {
+      console.error(`[FileStamp] Failed to stamp file ${file.id} for delivery ${delivery.id}, serving the original:`, error)
+      return file
+    }
+  }
+
+  /**
+   * 从泄露的文件内容中读取授权编号并查找对应订单
+   */
+  async traceContent(content: Buffer): Promise<{ stampIds: string[]; matches: StampTrace[] }> {
+    const stampIds = extractStampIds(content)
+    return { stampIds, matches: await this.traceStampIds(stampIds) }
+  }
+
+  /**
+   * 按授权编号查找对应订单
+   */
+  async traceStampIds(stampIds: string[]): Promise<StampTrace[]> {
+    if (stampIds.length === 0) {
+      return []
+    }
+
+    const rows = await db.select({ delivery: schema.deliveries, order: schema.orders, productName: schema.products.name })
+      .from(schema.deliveries)
+      .innerJoin(schema.orders, eq(schema.deliveries.orderId, schema.orders.id))
+      .leftJoin(schema.products, eq(schema.orders.productId, schema.products.id))
+      .where(inArray(schema.deliveries.stampId, stampIds))
+
+    return rows.map(({ delivery, order, productName }) => ({
+      stampId: delivery.stampId!,
+      deliveryId: delivery.id,
+      stampedAt: delivery.stampedAt,
+      downloadCount: delivery.downloadCount ?? 0,
+      isActive: Boolean(delivery.isActive),
+      order: {
+        id: order.id,
+        email: order.email,
+        status: order.status,
+        productId: order.productId,
+        productName,
+        createdAt: order.createdAt,
+      },
+    }))
+  }
+
+  /**
+   * 已缓存的副本（原文件变化时需要重新生成，例如商品使用最新版本策略）
+   */
+  private async findStampedFile(delivery: Delivery, file: File): Promise<File | null> {
+    if (!delivery.stampedFileId) {
+      return null
+    }
+
+    const [stamped] = await db.select()
+      .from(schema.files)
+      .where(and(eq(schema.files.id, delivery.stampedFileId), eq(schema.files.isActive, true)))
+      .limit(1)
+    return stamped?.sourceFileId === file.id ? stamped : null
+  }
+
+  /**
+   * 生成副本，写入存储后登记到 files 表并记录到发货记录
+   * 并发的首次下载只保留先完成的副本
+   */
+  private async createStampedFile(delivery: Delivery, file: File, format: StampFormat, productName: string): Promise<File> {
+    const [order] = await db.select({ id: schema.orders.id, email: schema.orders.email })
+      .from(schema.orders)
+      .where(eq(schema.orders.id, delivery.orderId))
+      .limit(1)
+
+    const stampId = delivery.stampId || generateStampId()
+    const stampedAt = new Date()
+    const source = storageService.forFile(file)
+    const target = await storageService.getDefaultDriver()
+    const storageDir = await configService.getConfig('files', 'storage_dir', './storage/files')
+    const filePath = path.join(storageDir, 'stamped', String(delivery.id), `${randomUUID()}${path.extname(file.filePath)}`)
+
+    let fileSize: number
+    let checksum: string
+    if (format === 'pdf') {
+      const content = stampPdf(await source.read(file.filePath), {
+        AutoShipLicenseId: stampId,
+        AutoShipOrder: order.id,
+        AutoShipLicensee: order.email,
+      })
+      fileSize = content.length
+      checksum = createHash('sha256').update(content).digest('hex')
+      await target.put(filePath, content, { contentType: file.mimeType || undefined })
+    } else {
+      const license = [
+        'AutoShip License',
+        '================',
+        `Product: ${productName}`,
+        `Licensed to: ${order.email}`,
+        `Order: ${order.id}`,
+        `License ID: ${stampId}`,
+        `Issued: ${stampedAt.toISOString()}`,
+        '',
+        'This copy was issued to the buyer above for their own use. Do not redistribute.',
+        '',
+      ].join('\n')
+      ;({ fileSize, checksum } = await this.writeStampedZip(source, file, target, filePath, Buffer.from(license, 'utf8'), stampId))
+    }
+
+    const [stamped] = await db.insert(schema.files).values({
+      fileName: path.basename(filePath),
+      originalName: file.originalName,
+      filePath,
+      fileSize,
+      mimeType: file.mimeType,
+      checksum,
+      storageDriver: target.name,
+      sourceFileId: file.id,
+      createdBy: 'system',
+    }).returning()
+
+    const [updated] = await db.update(schema.deliveries)
+      .set({ stampId, stampedFileId: stamped.id, stampedAt: stampedAt.toISOString() })
+      .where(and(
+        eq(schema.deliveries.id, delivery.id),
+        delivery.stampedFileId ? eq(schema.deliveries.stampedFileId, delivery.stampedFileId) : isNull(schema.deliveries.stampedFileId),
+        or(isNull(schema.deliveries.stampId), eq(schema.deliveries.stampId, stampId))
+      ))
+      .returning()
+
+    if (!updated) {
+      // 其他请求已生成副本，丢弃本次结果
+      await this.discardFile(stamped)
+      const [current] = await db.select().from(schema.deliveries).where(eq(schema.deliveries.id, delivery.id)).limit(1)
+      return (current && await this.findStampedFile(current, file)) || file
+    }
+
+    if (delivery.stampedFileId) {
+      const [previous] = await db.select().from(schema.files).where(eq(schema.files.id, delivery.stampedFileId)).limit(1)
+      if (previous) {
+        await this.discardFile(previous)
+      }
+    }
+
+    console.log(`[FileStamp] Stamped file ${file.id} for delivery ${delivery.id} (${stampId})`)
+    return stamped
+  }
+
+  /**
+   * 在 ZIP 末尾追加授权文件：复制原有条目的字节，写入新条目和新的中央目录
+   */
+  private async writeStampedZip(
+    source: StorageDriver,
+    file: File,
+    target: StorageDriver,
+    filePath: string,
+    license: Buffer,
+    stampId: string
+  ): Promise<{ fileSize: number; checksum: string }> {
+    const tail = await readRange(source, file.filePath, Math.max(0, file.fileSize - ZIP_END_MAX_SIZE), file.fileSize - 1)
+    const end = readZipEnd(tail, file.fileSize)
+    const centralDirectory = end.centralDirectorySize > 0
+      ? await readRange(source, file.filePath, end.centralDirectoryOffset, end.centralDirectoryOffset + end.centralDirectorySize - 1)
+      : Buffer.alloc(0)
+
+    const stampComment = `AutoShip license ${stampId}`
+    const appendix = buildZipAppendix(
+      end,
+      centralDirectory,
+      { name: LICENSE_FILE_NAME, content: license },
+      end.comment ? `${end.comment}\n${stampComment}` : stampComment
+    )
+
+    const entries = end.centralDirectoryOffset > 0
+      ? await source.createReadStream(file.filePath, { start: 0, end: end.centralDirectoryOffset - 1 })
+      : Readable.from([])
+
+    const hash = createHash('sha256')
+    let fileSize = 0
+    const tempPath = path.join(os.tmpdir(), `autoship-stamp-${randomUUID()}`)
+    try {
+      await pipeline(
+        Readable.from((async function* () {
+          for await (const chunk of entries) {
+            yield chunk
+          }
+          yield appendix
+        })()),
+        async function* (chunks: AsyncIterable<Buffer>) {
+          for await (const chunk of chunks) {
+            hash.update(chunk)
+            fileSize += chunk.length
+            yield chunk
+          }
+        },
+        createWriteStream(tempPath)
+      )
+
+      await target.put(filePath, { filePath: tempPath }, { contentType: file.mimeType || undefined, removeSource: true })
+    } finally {
+      await fs.rm(tempPath, { force: true })
+    }
+
+    return { fileSize, checksum: hash.digest('hex') }
+  }
+
+  private async discardFile(file: File): Promise<void> {
+    await db.update(schema.files).set({ isActive: false }).where(eq(schema.files.id, file.id))
+    try {
+      await storageService.forFile(file).delete(file.filePath)
+    } catch (error) {
+      console.warn(`[FileStamp] Failed to remove stamped file ${file.filePath}`, error)
+    }
+  }
+}
+
+export const fileStampService = new FileStampService()
+
+export default fileStampService
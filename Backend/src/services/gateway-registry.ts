@@ -0,0 +1,268 @@
+import { z } from 'zod'
+import type { Context } from 'hono'
+import { configService } from './config-service'
+import type { IPaymentGateway, PaymentStatus } from './payment-gateway-service'
+import type { WebhookProcessingResult } from './webhook-processing-service'
+import type { CurrencyType, GatewayType } from '../types/orders'
+
+// ==============================================
+// 支付网关插件定义
+// ==============================================
+
+/**
+ * Webhook签名验证结果
+ */
+export interface GatewayWebhookVerification {
+  isValid: boolean
+  method: string
+  error?: string
+  gatewayOrderId?: string
+  amount?: number
+  timestamp?: number
+}
+
+/**
+ * Webhook请求上下文
+ */
+export interface GatewayWebhookContext {
+  rawBody: string
+  headers: Record<string, string>
+  clientIP?: string
+}
+
+/**
+ * 网关退款通知（refundNo 为发起退款时传给网关的请求号）
+ */
+export interface GatewayRefundNotification {
+  refundNo?: string
+  gatewayRefundId?: string
+  status: 'succeeded' | 'failed'
+  error?: string
+}
+
+/**
+ * 网关Webhook处理器
+ */
+export interface GatewayWebhookHandler {
+  /**
+   * 将原始请求体解析为回调数据，无法解析时抛出异常
+   */
+  parse(rawBody: string, headers: Record<string, string>): Promise<Record<string, any>>
+
+  /**
+   * 验证签名并提取网关订单号和金额（rawBody 为原始请求体）
+   */
+  verify(rawBody: string, headers: Record<string, string>): Promise<GatewayWebhookVerification>
+
+  /**
+   * 映射为订单状态，返回 null 表示该事件不影响订单
+   */
+  mapStatus(payload: Record<string, any>): PaymentStatus | null
+
+  extractOrderId(payload: Record<string, any>): string | undefined
+
+  extractTransactionId(payload: Record<string, any>): string | undefined
+
+  /**
+   * 识别退款通知，返回 null 表示不是退款事件
+   */
+  extractRefund?(payload: Record<string, any>): GatewayRefundNotification | null
+
+  /**
+   * 在通用流程之前处理的特殊事件，返回 null 时继续通用流程
+   */
+  intercept?(payload: Record<string, any>, context: GatewayWebhookContext): Promise<WebhookProcessingResult | null>
+
+  /**
+   * 按网关要求构造应答
+   */
+  respond(c: Context, result: WebhookProcessingResult, failureStatus?: 400 | 500): Response
+}
+
+/**
+ * 支付网关插件
+ * configSchema 的每个字段对应 payment 分组下的 `${id}_${字段名}` 配置项，
+ * 通过 meta({ label, secret, multiline }) 描述后台表单
+ */
+export interface GatewayPlugin {
+  id: GatewayType
+  displayName: string
+  supportedCurrencies: CurrencyType[]
+  recommendedCurrency: CurrencyType
+  configSchema: z.ZodObject
+  create(): IPaymentGateway
+  webhook: GatewayWebhookHandler
+}
+
+/**
+ * 配置字段描述（用于后台配置表单）
+ */
+export interface GatewayConfigField {
+  key: string
+  configKey: string
+  type: 'string' | 'number' | 'boolean' | 'enum'
+  label: string
+  secret: boolean
+  multiline: boolean
+  options?: string[]
+  defaultValue?: string | number | boolean
+}
+
+/**
+ * 配置字段元数据
+ */
+interface GatewayConfigFieldMeta {
+  label?: string
+  secret?: boolean
+  multiline?: boolean
+}
+
+/**
+ * 去掉 default/optional 包装，得到字段的基础类型
+ */
+function unwrapConfigField(field: z.ZodType): { inner: z.ZodType; defaultValue?: any } {
+  let inner: any = field
+  let defaultValue: any
+
+  while (inner.def.type === 'default' || inner.def.type === 'optional') {
+    if (inner.def.type === 'default') {
+      defaultValue = inner.def.defaultValue
+    }
+    inner = inner.def.innerType
+  }
+
+  return { inner, defaultValue }
+}
+
+/**
+ * 将配置中心返回的值（数据库或环境变量字符串）转换为字段类型
+ */
+function normalizeConfigValue(field: GatewayConfigField, value: any): any {
+  if (field.type === 'boolean') {
+    return typeof value === 'string' ? value === 'true' : Boolean(value)
+  }
+  if (field.type === 'number') {
+    return Number(value)
+  }
+  return value ?? ''
+}
+
+/**
+ * 支付网关注册表
+ * 内置网关在 ./gateways 中登记，使用方应从 ./gateways 导入以确保登记完成
+ */
+export class GatewayRegistry {
+  private plugins = new Map<GatewayType, GatewayPlugin>()
+
+  /**
+   * 注册网关插件
+   */
+  register(plugin: GatewayPlugin): void {
+    if (this.plugins.has(plugin.id)) {
+      throw new Error(`Gateway plugin ${plugin.id} already registered`)
+    }
+    this.plugins.set(plugin.id, plugin)
+  }
+
+  /**
+   * 获取网关插件
+   */
+  get(id: string): GatewayPlugin | undefined {
+    return this.plugins.get(id as GatewayType)
+  }
+
+  has(id: string): boolean {
+    return this.plugins.has(id as GatewayType)
+  }
+
+  /**
+   * 所有已注册的网关插件（按注册顺序）
+   */
+  list(): GatewayPlugin[] {
+    return Array.from(this.plugins.values())
+  }
+
+  ids(): GatewayType[] {
+    return Array.from(this.plugins.keys())
+  }
+
+  /**
+   * 从配置 schema 生成表单字段描述
+   */
+  describeConfig(plugin: GatewayPlugin): GatewayConfigField[] {
+    return Object.entries(plugin.configSchema.shape).map(([key, field]) => {
+      const { inner, defaultValue } = unwrapConfigField(field as z.ZodType)
+      const meta = ((field as z.ZodType).meta() || {}) as GatewayConfigFieldMeta
+      const innerType = inner.def.type
+
+      return {
+        key,
+        configKey: `${plugin.id}_${key}`,
+        type: innerType === 'boolean' || innerType === 'number' || innerType === 'enum' ? innerType : 'string',
+        label: meta.label || key,
+        secret: meta.secret === true,
+        multiline: meta.multiline === true,
+        options: innerType === 'enum' ? (inner as z.ZodEnum).options.map(String) : undefined,
+        defaultValue
+      }
+    })
+  }
+
+  /**
+   * 读取网关当前配置（敏感字段不回显，仅返回是否已设置）
+   */
+  async getConfigValues(plugin: GatewayPlugin): Promise<{
+    values: Record<string, any>
+    configuredSecrets: string[]
+  }> {
+    const values: Record<string, any> = {}
+    const configuredSecrets: string[] = []
+
+    for (const field of this.describeConfig(plugin)) {
+      const value = await configService.getConfig('payment', field.configKey, field.defaultValue, { includeEncrypted: true })
+
+      if (field.secret) {
+        values[field.key] = ''
+        if (value) {
+          configuredSecrets.push(field.key)
+        }
+      } else {
+        values[field.key] = normalizeConfigValue(field, value)
+      }
+    }
+
+    return { values, configuredSecrets }
+  }
+
+  /**
+   * 校验并保存网关配置
+   * 只保存提交的字段；敏感字段留空表示保持原值。校验失败时抛出 ZodError
+   */
+  async updateConfig(plugin: GatewayPlugin, input: Record<string, any>, updatedBy: string): Promise<string[]> {
+    const fields = this.describeConfig(plugin)
+    const secretKeys = new Set(fields.filter(field => field.secret).map(field => field.key))
+    const filtered = Object.fromEntries(
+      Object.entries(input).filter(([key, value]) => !(secretKeys.has(key) && (value === '' || value === undefined || value === null)))
+    )
+
+    const values = plugin.configSchema.partial().strict().parse(filtered) as Record<string, any>
+    const submitted = fields.filter(field => field.key in filtered)
+
+    for (const field of submitted) {
+      await configService.setConfig('payment', field.configKey, values[field.key], {
+        dataType: field.type === 'enum' ? 'string' : field.type,
+        isEncrypted: field.secret,
+        isPublic: false,
+        description: `${plugin.displayName} ${field.label}`,
+        updatedBy
+      })
+    }
+
+    return submitted.map(field => field.key)
+  }
+}
+
+// 创建全局网关注册表实例
+export const gatewayRegistry = new GatewayRegistry()
+
+export default gatewayRegistry
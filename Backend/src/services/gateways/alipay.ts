@@ -0,0 +1,71 @@
+import { z } from 'zod'
+import { AlipayGateway } from '../payment-gateway-service'
+import { webhookSecurityService } from '../webhook-security-service'
+import type { GatewayPlugin } from '../gateway-registry'
+
+/**
+ * 支付宝网关插件
+ * 异步通知默认为表单格式，成功时应答 success 字符串
+ */
+export const alipayGatewayPlugin: GatewayPlugin = {
+  id: 'alipay',
+  displayName: '支付宝',
+  supportedCurrencies: ['CNY'],
+  recommendedCurrency: 'CNY',
+
+  configSchema: z.object({
+    enabled: z.boolean().default(false).meta({ label: '启用' }),
+    app_id: z.string().default('').meta({ label: 'AppId' }),
+    private_key: z.string().default('').meta({ label: '应用私钥', secret: true, multiline: true }),
+    public_key: z.string().default('').meta({ label: '支付宝公钥', multiline: true }),
+    gateway_url: z.string().url().default('https://openapi.alipay.com/gateway.do').meta({ label: '网关地址' }),
+    timeout: z.number().int().positive().default(30000).meta({ label: '超时时间（毫秒）' }),
+  }),
+
+  create: () => new AlipayGateway(),
+
+  webhook: {
+    async parse(rawBody, headers) {
+      const contentType = headers['content-type'] || ''
+
+      if (contentType.includes('application/json')) {
+        return JSON.parse(rawBody)
+      }
+      if (contentType.includes('application/x-www-form-urlencoded')) {
+        return Object.fromEntries(new URLSearchParams(rawBody))
+      }
+
+      throw new Error(`Unsupported content type: ${contentType}`)
+    },
+
+    verify: (rawBody, headers) => webhookSecurityService.verifyAlipayWebhook(rawBody, headers),
+
+    mapStatus(payload) {
+      switch (payload.trade_status) {
+        case 'TRADE_SUCCESS':
+        case 'TRADE_FINISHED':
+          return 'paid'
+        case 'TRADE_CLOSED':
+          return 'cancelled'
+        case 'WAIT_BUYER_PAY':
+          return 'pending'
+        default:
+          return null
+      }
+    },
+
+    extractOrderId: payload => payload.out_trade_no,
+
+    extractTransactionId: payload => payload.trade_no,
+
+    // 退款成功后的异步通知带有 out_biz_no（即退款请求号）和累计退款金额 refund_fee
+    extractRefund: payload => payload.out_biz_no && payload.refund_fee
+      ? { refundNo: payload.out_biz_no, status: 'succeeded' }
+      : null,
+
+    respond(c, result, failureStatus = 400) {
+      // 支付宝要求返回'success'字符串表示成功接收
+      return result.success ? c.text('success', 200) : c.text('failure', failureStatus)
+    }
+  }
+}
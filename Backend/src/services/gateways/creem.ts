@@ -0,0 +1,76 @@
+import { z } from 'zod'
+import { CreemGateway } from '../payment-gateway-service'
+import { webhookSecurityService } from '../webhook-security-service'
+import type { GatewayPlugin } from '../gateway-registry'
+
+/**
+ * Creem网关插件
+ */
+export const creemGatewayPlugin: GatewayPlugin = {
+  id: 'creem',
+  displayName: 'Creem',
+  supportedCurrencies: ['USD'],
+  recommendedCurrency: 'USD',
+
+  configSchema: z.object({
+    enabled: z.boolean().default(false).meta({ label: '启用' }),
+    api_key: z.string().default('').meta({ label: 'API Key', secret: true }),
+    webhook_secret: z.string().default('').meta({ label: 'Webhook Secret', secret: true }),
+    base_url: z.string().url().default('https://api.creem.io').meta({ label: 'API 地址' }),
+    timeout: z.number().int().positive().default(30000).meta({ label: '超时时间（毫秒）' }),
+    retry_count: z.number().int().min(0).default(3).meta({ label: '重试次数' }),
+  }),
+
+  create: () => new CreemGateway(),
+
+  webhook: {
+    parse: async rawBody => JSON.parse(rawBody),
+
+    verify: (rawBody, headers) => webhookSecurityService.verifyCreemWebhook(rawBody, headers),
+
+    mapStatus(payload) {
+      switch (payload.status) {
+        case 'payment_succeeded':
+          return 'paid'
+        case 'payment_cancelled':
+          return 'cancelled'
+        case 'payment_pending':
+          return 'pending'
+        default:
+          return null
+      }
+    },
+
+    extractOrderId: payload => payload.order_id,
+
+    extractTransactionId: payload => payload.transaction_id,
+
+    extractRefund(payload) {
+      if (payload.status !== 'refund_succeeded' && payload.status !== 'refund_failed') {
+        return null
+      }
+
+      return {
+        refundNo: payload.request_id,
+        gatewayRefundId: payload.refund_id,
+        status: payload.status === 'refund_succeeded' ? 'succeeded' : 'failed',
+        error: payload.failure_reason
+      }
+    },
+
+    respond(c, result, failureStatus = 400) {
+      if (result.success) {
+        return c.json({
+          status: 'success',
+          message: 'Webhook processed successfully',
+          orderId: result.orderId
+        }, 200)
+      }
+
+      return c.json({
+        status: 'failure',
+        message: result.message
+      }, failureStatus)
+    }
+  }
+}
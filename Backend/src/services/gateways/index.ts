@@ -0,0 +1,20 @@
+import { gatewayRegistry } from '../gateway-registry'
+import { alipayGatewayPlugin } from './alipay'
+import { creemGatewayPlugin } from './creem'
+import { stripeGatewayPlugin } from './stripe'
+import { paypalGatewayPlugin } from './paypal'
+import { wechatGatewayPlugin } from './wechat'
+
+// 内置支付网关（新增网关时在此登记）
+for (const plugin of [
+  alipayGatewayPlugin,
+  creemGatewayPlugin,
+  stripeGatewayPlugin,
+  paypalGatewayPlugin,
+  wechatGatewayPlugin
+]) {
+  gatewayRegistry.register(plugin)
+}
+
+export { gatewayRegistry }
+export type { GatewayPlugin, GatewayConfigField, GatewayWebhookContext, GatewayRefundNotification } from '../gateway-registry'
@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import {
+  PaypalGateway,
+  paymentGatewayManager,
+  mapPaypalEventStatus,
+  extractPaypalEventData
+} from '../payment-gateway-service'
+import { webhookSecurityService } from '../webhook-security-service'
+import { CONFIG } from '../../config/api'
+import type { GatewayPlugin } from '../gateway-registry'
+
+/**
+ * PayPal网关插件
+ * 买家授权（CHECKOUT.ORDER.APPROVED）后由服务端扣款，扣款完成事件再驱动订单状态
+ */
+export const paypalGatewayPlugin: GatewayPlugin = {
+  id: 'paypal',
+  displayName: 'PayPal',
+  supportedCurrencies: ['USD', 'EUR', 'JPY'],
+  recommendedCurrency: 'USD',
+
+  configSchema: z.object({
+    enabled: z.boolean().default(false).meta({ label: '启用' }),
+    client_id: z.string().default('').meta({ label: 'Client ID' }),
+    client_secret: z.string().default('').meta({ label: 'Client Secret', secret: true }),
+    webhook_id: z.string().default('').meta({ label: 'Webhook ID' }),
+    api_base: z.string().url().default(CONFIG.PAYMENT.PAYPAL.API_BASE).meta({ label: 'API 地址' }),
+    timeout: z.number().int().positive().default(CONFIG.PAYMENT.PAYPAL.TIMEOUT).meta({ label: '超时时间（毫秒）' }),
+  }),
+
+  create: () => new PaypalGateway(),
+
+  webhook: {
+    parse: async rawBody => JSON.parse(rawBody),
+
+    verify: (rawBody, headers) => webhookSecurityService.verifyPaypalWebhook(rawBody, headers),
+
+    mapStatus: payload => mapPaypalEventStatus(payload),
+
+    extractOrderId: payload => extractPaypalEventData(payload).orderId,
+
+    extractTransactionId: payload => extractPaypalEventData(payload).transactionId,
+
+    /**
+     * 买家授权后扣款
+     * 先验签和核对金额，避免伪造的授权事件触发扣款
+     */
+    async intercept(payload, { rawBody, headers }) {
+      if (payload.event_type !== 'CHECKOUT.ORDER.APPROVED') {
+        return null
+      }
+
+      const verification = await webhookSecurityService.verifyPaypalWebhook(rawBody, headers)
+      if (!verification.isValid) {
+        console.error('[Webhook] paypal signature verification failed:', verification.error)
+        return {
+          success: false,
+          message: verification.error || 'Invalid signature',
+          processed: false
+        }
+      }
+
+      const amountValidation = await webhookSecurityService.verifyOrderAmount(verification.gatewayOrderId!, verification.amount!)
+      if (!amountValidation.isValid) {
+        const errorMsg = `Amount mismatch: expected ${amountValidation.expectedAmount}, got ${verification.amount}`
+        console.error('[Webhook] paypal amount validation failed:', errorMsg)
+        return {
+          success: false,
+          message: errorMsg,
+          processed: false
+        }
+      }
+
+      await paymentGatewayManager.initialize()
+      const gateway = paymentGatewayManager.getGateway('paypal') as PaypalGateway
+      const result = await gateway.captureOrder(verification.gatewayOrderId!)
+
+      console.log(`[Webhook] PayPal order ${verification.gatewayOrderId} captured (${result.status})`)
+
+      return {
+        success: true,
+        message: 'PayPal order captured',
+        orderId: amountValidation.orderId,
+        processed: false
+      }
+    },
+
+    respond(c, result, failureStatus = 400) {
+      if (result.success) {
+        return c.json({
+          status: 'success',
+          processed: result.processed,
+          orderId: result.orderId
+        }, 200)
+      }
+
+      return c.json({
+        status: 'failure',
+        message: result.message
+      }, failureStatus)
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod'
+import { StripeGateway, mapStripeEventStatus } from '../payment-gateway-service'
+import { webhookSecurityService } from '../webhook-security-service'
+import { CONFIG } from '../../config/api'
+import type { GatewayPlugin } from '../gateway-registry'
+
+/**
+ * Stripe网关插件
+ * 签名基于原始请求体，非2xx应答会触发Stripe重试
+ */
+export const stripeGatewayPlugin: GatewayPlugin = {
+  id: 'stripe',
+  displayName: 'Stripe',
+  supportedCurrencies: ['USD', 'EUR', 'JPY'],
+  recommendedCurrency: 'USD',
+
+  configSchema: z.object({
+    enabled: z.boolean().default(false).meta({ label: '启用' }),
+    secret_key: z.string().default('').meta({ label: 'Secret Key', secret: true }),
+    webhook_secret: z.string().default('').meta({ label: 'Webhook Signing Secret', secret: true }),
+    api_base: z.string().url().default(CONFIG.PAYMENT.STRIPE.API_BASE).meta({ label: 'API 地址' }),
+    webhook_tolerance: z.number().int().positive().default(300).meta({ label: '签名时间容差（秒）' }),
+    timeout: z.number().int().positive().default(CONFIG.PAYMENT.STRIPE.TIMEOUT).meta({ label: '超时时间（毫秒）' }),
+  }),
+
+  create: () => new StripeGateway(),
+
+  webhook: {
+    parse: async rawBody => JSON.parse(rawBody),
+
+    verify: (rawBody, headers) => webhookSecurityService.verifyStripeWebhook(rawBody, headers),
+
+    mapStatus: payload => mapStripeEventStatus(payload),
+
+    extractOrderId(payload) {
+      const session = payload.data?.object || {}
+      return session.client_reference_id || session.metadata?.order_id
+    },
+
+    extractTransactionId: payload => payload.data?.object?.payment_intent || undefined,
+
+    respond(c, result, failureStatus = 400) {
+      if (result.success) {
+        return c.json({
+          received: true,
+          processed: result.processed,
+          orderId: result.orderId
+        }, 200)
+      }
+
+      return c.json({
+        received: false,
+        message: result.message
+      }, failureStatus)
+    }
+  }
+}
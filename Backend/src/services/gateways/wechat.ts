@@ -0,0 +1,64 @@
+import { z } from 'zod'
+import { WechatPayGateway, mapWechatTradeState, decryptWechatPayResource } from '../payment-gateway-service'
+import { webhookSecurityService } from '../webhook-security-service'
+import { configService } from '../config-service'
+import { CONFIG } from '../../config/api'
+import type { GatewayPlugin } from '../gateway-registry'
+
+/**
+ * 微信支付网关插件
+ * 通知内容为加密资源，解密后的交易信息挂在 payload.transaction 上
+ */
+export const wechatGatewayPlugin: GatewayPlugin = {
+  id: 'wechat',
+  displayName: '微信支付',
+  supportedCurrencies: ['CNY'],
+  recommendedCurrency: 'CNY',
+
+  configSchema: z.object({
+    enabled: z.boolean().default(false).meta({ label: '启用' }),
+    app_id: z.string().default('').meta({ label: 'AppID' }),
+    mch_id: z.string().default('').meta({ label: '商户号' }),
+    serial_no: z.string().default('').meta({ label: '商户证书序列号' }),
+    private_key: z.string().default('').meta({ label: '商户私钥', secret: true, multiline: true }),
+    api_v3_key: z.string().refine(value => value === '' || value.length === 32, 'APIv3 密钥必须为32位')
+      .default('').meta({ label: 'APIv3 密钥', secret: true }),
+    platform_public_key: z.string().default('').meta({ label: '平台公钥', multiline: true }),
+    api_base: z.string().url().default(CONFIG.PAYMENT.WECHAT.API_BASE).meta({ label: 'API 地址' }),
+    timeout: z.number().int().positive().default(CONFIG.PAYMENT.WECHAT.TIMEOUT).meta({ label: '超时时间（毫秒）' }),
+  }),
+
+  create: () => new WechatPayGateway(),
+
+  webhook: {
+    async parse(rawBody) {
+      const notification = JSON.parse(rawBody)
+      const apiV3Key = await configService.getConfig('payment', 'wechat_api_v3_key', '', { includeEncrypted: true })
+
+      return {
+        ...notification,
+        transaction: decryptWechatPayResource(notification.resource, apiV3Key)
+      }
+    },
+
+    verify: (rawBody, headers) => webhookSecurityService.verifyWechatWebhook(rawBody, headers),
+
+    mapStatus: payload => mapWechatTradeState(payload.transaction?.trade_state),
+
+    extractOrderId: payload => payload.transaction?.out_trade_no,
+
+    extractTransactionId: payload => payload.transaction?.transaction_id,
+
+    respond(c, result, failureStatus = 400) {
+      // 微信支付要求成功时返回 200/204 且无需应答体，失败时返回 FAIL 应答
+      if (result.success) {
+        return c.body(null, 204)
+      }
+
+      return c.json({
+        code: 'FAIL',
+        message: result.message
+      }, failureStatus)
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { db, schema, withTransaction } from '../db'
 import { eq, and, desc, asc, count, like, isNull, sql, inArray, or } from 'drizzle-orm'
 import { validateInventoryText, validateInventoryTextUpdate } from '../db/validation'
 import { randomUUID } from 'crypto'
+import type { InventoryText } from '../db/schema'
 
 // 库存服务类
 export class InventoryService {
@@ -22,11 +23,12 @@ export class InventoryService {
    * 批量添加库存
    */
   async addInventoryBatch(productId: number, contents: string[], options: any = {}) {
-    const { batchName, createdBy, priority = 0, expiresAt } = options
+    const { batchName, createdBy, priority = 0, expiresAt, variantId = null } = options
 
     // 使用批量插入替代事务，避免 better-sqlite3 异步事务问题
     const insertData = contents.map(content => ({
       productId,
+      variantId,
       content: content.trim(),
       batchName: batchName || `batch_${Date.now()}`,
       priority,
@@ -48,15 +50,7 @@ export class InventoryService {
   async getAvailableInventory(productId: number, limit = 1) {
     const items = await db.select()
       .from(schema.inventoryText)
-      .where(and(
-        eq(schema.inventoryText.productId, productId),
-        eq(schema.inventoryText.isUsed, false),
-        // 检查过期时间
-        or(
-          isNull(schema.inventoryText.expiresAt),
-          sql`${schema.inventoryText.expiresAt} > datetime('now')`
-        )
-      ))
+      .where(this.availableCondition(productId))
       .orderBy(desc(schema.inventoryText.priority), asc(schema.inventoryText.createdAt))
       .limit(limit)
 
@@ -65,50 +59,82 @@ export class InventoryService {
 
   /**
    * 分配库存给订单
+   * 指定 variantId 时只从该规格的库存池分配；传入 tx 时在调用方的事务中执行
    */
-  async allocateInventory(productId: number, orderId: string, quantity = 1) {
-    return await withTransaction(async () => {
-      const availableItems = await this.getAvailableInventory(productId, quantity)
-
-      if (availableItems.length < quantity) {
-        throw new Error(`Insufficient inventory. Required: ${quantity}, Available: ${availableItems.length}`)
-      }
+  async allocateInventory(productId: number, orderId: string, quantity = 1, variantId?: number | null, tx: any = db) {
+    // 单条 UPDATE 同时挑选并占用 N 条库存，并发下不会重复分配
+    const candidates = tx.select({ id: schema.inventoryText.id })
+      .from(schema.inventoryText)
+      .where(this.availableCondition(productId, variantId))
+      .orderBy(desc(schema.inventoryText.priority), asc(schema.inventoryText.createdAt))
+      .limit(quantity)
 
-      const allocatedItems = []
+    const allocatedItems: InventoryText[] = await tx.update(schema.inventoryText)
+      .set({
+        isUsed: true,
+        usedOrderId: orderId,
+        usedAt: new Date().toISOString(),
+      })
+      .where(and(
+        inArray(schema.inventoryText.id, candidates),
+        eq(schema.inventoryText.isUsed, false)
+      ))
+      .returning()
 
-      for (const item of availableItems) {
-        const updatedItem = await db.update(schema.inventoryText)
+    if (allocatedItems.length < quantity) {
+      // 数量不足时归还本次占用的库存，保证要么全部分配要么不分配
+      if (allocatedItems.length > 0) {
+        await tx.update(schema.inventoryText)
           .set({
-            isUsed: true,
-            usedOrderId: orderId,
-            usedAt: new Date().toISOString(),
+            isUsed: false,
+            usedOrderId: null,
+            usedAt: null,
           })
-          .where(eq(schema.inventoryText.id, item.id))
-          .returning()
-
-        allocatedItems.push(updatedItem[0])
+          .where(inArray(schema.inventoryText.id, allocatedItems.map(item => item.id)))
       }
 
-      return allocatedItems
-    })
+      throw new Error(`Insufficient inventory. Required: ${quantity}, Available: ${allocatedItems.length}`)
+    }
+
+    // RETURNING 不保证顺序，按分配优先级排序
+    return allocatedItems.sort((a, b) =>
+      (b.priority ?? 0) - (a.priority ?? 0) || String(a.createdAt).localeCompare(String(b.createdAt))
+    )
   }
 
   /**
    * 释放库存（将已使用的库存重新标记为可用）
+   * 自动生成的卡密属于原订单，保留使用记录，不返还到库存
+   * 传入 tx 时在调用方的事务中执行
    */
-  async releaseInventory(orderId: string) {
-    return await withTransaction(async () => {
-      const result = await db.update(schema.inventoryText)
-        .set({
-          isUsed: false,
-          usedOrderId: null,
-          usedAt: null,
-        })
-        .where(eq(schema.inventoryText.usedOrderId, orderId))
-        .returning()
+  async releaseInventory(orderId: string, tx?: any) {
+    if (!tx) {
+      return await withTransaction(async (tx) => this.releaseInventory(orderId, tx))
+    }
 
-      return result
-    })
+    const result: InventoryText[] = await tx.update(schema.inventoryText)
+      .set({
+        isUsed: false,
+        usedOrderId: null,
+        usedAt: null,
+      })
+      .where(and(
+        eq(schema.inventoryText.usedOrderId, orderId),
+        isNull(schema.inventoryText.generator)
+      ))
+      .returning()
+
+    return result
+  }
+
+  /**
+   * 获取分配给订单的库存（按分配顺序）
+   */
+  async getInventoryByOrder(orderId: string) {
+    return db.select()
+      .from(schema.inventoryText)
+      .where(eq(schema.inventoryText.usedOrderId, orderId))
+      .orderBy(desc(schema.inventoryText.priority), asc(schema.inventoryText.createdAt))
   }
 
   /**
@@ -143,6 +169,35 @@ export class InventoryService {
     return items
   }
 
+  /**
+   * 辅助方法：库存池条件
+   * undefined 为商品全部库存，null 为商品本身（不属于任何规格）的库存，数字为指定规格的库存
+   */
+  private poolCondition(variantId?: number | null) {
+    if (variantId === undefined) {
+      return undefined
+    }
+    return variantId === null
+      ? isNull(schema.inventoryText.variantId)
+      : eq(schema.inventoryText.variantId, variantId)
+  }
+
+  /**
+   * 辅助方法：未使用且未过期的库存条件
+   */
+  private availableCondition(productId: number, variantId?: number | null) {
+    return and(
+      eq(schema.inventoryText.productId, productId),
+      this.poolCondition(variantId),
+      eq(schema.inventoryText.isUsed, false),
+      // 检查过期时间
+      or(
+        isNull(schema.inventoryText.expiresAt),
+        sql`${schema.inventoryText.expiresAt} > datetime('now')`
+      )
+    )
+  }
+
   /**
    * 辅助方法：获取满足条件的库存数量
    */
@@ -175,8 +230,9 @@ export class InventoryService {
 
   /**
    * 获取产品库存统计（修复版：使用聚合查询确保数据一致性）
+   * 指定 variantId 时只统计该规格的库存池
    */
-  async getInventoryStats(productId: number) {
+  async getInventoryStats(productId: number, variantId?: number | null) {
     // 使用与 getBatchInventoryStats 相同的聚合查询逻辑
     const result = await db
       .select({
@@ -186,7 +242,10 @@ export class InventoryService {
         expired: sql<number>`COUNT(CASE WHEN ${schema.inventoryText.isUsed} = 0 AND ${schema.inventoryText.expiresAt} IS NOT NULL AND ${schema.inventoryText.expiresAt} <= datetime('now') THEN 1 END)`,
       })
       .from(schema.inventoryText)
-      .where(eq(schema.inventoryText.productId, productId))
+      .where(and(
+        eq(schema.inventoryText.productId, productId),
+        this.poolCondition(variantId)
+      ))
 
     const stats = result[0] || { total: 0, used: 0, available: 0, expired: 0 }
 
@@ -203,7 +262,7 @@ export class InventoryService {
    * 查询库存
    */
   async queryInventory(query: any) {
-    const { page = 1, limit = 20, productId, batchName, isUsed, expiredOnly } = query
+    const { page = 1, limit = 20, productId, variantId, batchName, isUsed, expiredOnly } = query
     const offset = (page - 1) * limit
 
     let whereConditions = []
@@ -212,6 +271,10 @@ export class InventoryService {
       whereConditions.push(eq(schema.inventoryText.productId, productId))
     }
 
+    if (variantId) {
+      whereConditions.push(eq(schema.inventoryText.variantId, variantId))
+    }
+
     if (batchName) {
       whereConditions.push(like(schema.inventoryText.batchName, `%${batchName}%`))
     }
@@ -232,6 +295,7 @@ export class InventoryService {
       .select({
         id: schema.inventoryText.id,
         productId: schema.inventoryText.productId,
+        variantId: schema.inventoryText.variantId,
         content: schema.inventoryText.content,
         batchName: schema.inventoryText.batchName,
         priority: schema.inventoryText.priority,
@@ -243,9 +307,11 @@ export class InventoryService {
         createdAt: schema.inventoryText.createdAt,
         createdBy: schema.inventoryText.createdBy,
         productName: schema.products.name, // 关联产品名称
+        variantName: schema.productVariants.name, // 关联规格名称
       })
       .from(schema.inventoryText)
       .leftJoin(schema.products, eq(schema.inventoryText.productId, schema.products.id))
+      .leftJoin(schema.productVariants, eq(schema.inventoryText.variantId, schema.productVariants.id))
 
     if (whereConditions.length > 0) {
       queryBuilder = queryBuilder.where(and(...whereConditions))
@@ -368,7 +434,7 @@ export class InventoryService {
    * 导入库存（从CSV或文本）
    */
   async importInventory(productId: number, content: string, options: any = {}) {
-    const { batchName, createdBy, lineSeparator = '\n', trimContent = true } = options
+    const { batchName, createdBy, variantId, lineSeparator = '\n', trimContent = true } = options
 
     // 分割内容为行
     let lines = content.split(lineSeparator)
@@ -388,6 +454,7 @@ export class InventoryService {
     return await this.addInventoryBatch(productId, uniqueContents, {
       batchName: batchName || `import_${Date.now()}`,
       createdBy,
+      variantId,
     })
   }
 
@@ -535,23 +602,52 @@ export class InventoryService {
     return statsMap
   }
 
+  /**
+   * 获取商品各规格的库存统计（key 为规格ID，商品本身的库存 key 为 null）
+   */
+  async getVariantInventoryStats(productId: number) {
+    const stats = await db
+      .select({
+        variantId: schema.inventoryText.variantId,
+        total: count(schema.inventoryText.id),
+        used: sql<number>`COUNT(CASE WHEN ${schema.inventoryText.isUsed} = 1 THEN 1 END)`,
+        available: sql<number>`COUNT(CASE WHEN ${schema.inventoryText.isUsed} = 0 AND (${schema.inventoryText.expiresAt} IS NULL OR ${schema.inventoryText.expiresAt} > datetime('now')) THEN 1 END)`,
+        expired: sql<number>`COUNT(CASE WHEN ${schema.inventoryText.isUsed} = 0 AND ${schema.inventoryText.expiresAt} IS NOT NULL AND ${schema.inventoryText.expiresAt} <= datetime('now') THEN 1 END)`,
+      })
+      .from(schema.inventoryText)
+      .where(eq(schema.inventoryText.productId, productId))
+      .groupBy(schema.inventoryText.variantId)
+
+    return new Map(stats.map(stat => [stat.variantId, {
+      total: stat.total,
+      used: stat.used,
+      available: stat.available,
+      expired: stat.expired,
+      usageRate: stat.total > 0 ? (stat.used / stat.total) * 100 : 0,
+    }]))
+  }
+
   /**
    * 获取库存预警（低库存提醒）
+   * 按库存池统计：有规格的商品每个规格单独报告
    */
   async getLowInventoryProducts(threshold = 10) {
     const result = await db
       .select({
         productId: schema.inventoryText.productId,
         productName: schema.products.name,
+        variantId: schema.inventoryText.variantId,
+        variantName: schema.productVariants.name,
         availableCount: count(schema.inventoryText.id),
       })
       .from(schema.inventoryText)
       .leftJoin(schema.products, eq(schema.inventoryText.productId, schema.products.id))
+      .leftJoin(schema.productVariants, eq(schema.inventoryText.variantId, schema.productVariants.id))
       .where(and(
         eq(schema.inventoryText.isUsed, false),
         sql`${schema.inventoryText.expiresAt} IS NULL OR ${schema.inventoryText.expiresAt} > datetime('now')`
       ))
-      .groupBy(schema.inventoryText.productId)
+      .groupBy(schema.inventoryText.productId, schema.inventoryText.variantId)
       .having(sql`count(*) < ${threshold}`)
 
     return result
@@ -0,0 +1,367 @@
+import path from 'path'
+import { createHash } from 'crypto'
+import { db, schema, withTransaction } from '../db'
+import { and, asc, eq, sql } from 'drizzle-orm'
+import { InvoiceType, OrderStatus, type Invoice, type Order, type Refund } from '../db/schema'
+import { orderService } from './order-service'
+import { configService } from './config-service'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+import { storageService } from './storage-service'
+import { PdfDocument, PAGE_WIDTH } from '../utils/pdf'
+
+export type InvoiceTypeValue = typeof InvoiceType[keyof typeof InvoiceType]
+
+/**
+ * 发票 PDF 文件内容
+ */
+export interface InvoiceDocument {
+  invoice: Invoice
+  filename: string
+  content: Buffer
+}
+
+/**
+ * 发票上的卖方信息（来自 invoice 配置分组）
+ */
+interface SellerDetails {
+  name: string
+  address: string
+  taxId: string
+  email: string
+}
+
+// 可以开具发票的订单状态
+const INVOICEABLE_STATUSES: string[] = [OrderStatus.PAID, OrderStatus.DELIVERED, OrderStatus.REFUNDED]
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+/**
+ * 生成发票编号，如 INV-000001
+ */
+export function formatInvoiceNumber(prefix: string, sequence: number): string {
+  return `${prefix}-${sequence.toString().padStart(6, '0')}`
+}
+
+/**
+ * 发票服务
+ * 已支付订单开具一张发票，每笔成功退款开具一张红字发票；编号由 invoice_sequences 分配，分配后不会回收
+ */
+export class InvoiceService {
+  /**
+   * 获取订单发票，尚未开具时开具新发票
+   */
+  async getOrCreateInvoice(orderId: string): Promise<Invoice> {
+    const existing = await this.findInvoice(orderId)
+    if (existing) {
+      return existing
+    }
+
+    const order = await orderService.getOrderById(orderId)
+    if (!order) {
+      throw new NotFoundError('Order', orderId)
+    }
+    if (!INVOICEABLE_STATUSES.includes(order.status)) {
+      throw new BusinessLogicError('订单尚未支付，暂不能开具发票', 'INVOICE_NOT_AVAILABLE', { status: order.status })
+    }
+
+    const netAmount = order.netAmount ?? order.amount
+    const taxAmount = order.taxAmount ?? 0
+    const prefix = await configService.getConfig('invoice', 'number_prefix', 'INV')
+
+    const invoice = await withTransaction(async (tx) => {
+      // 并发开具时以事务内的检查为准，避免重复占用编号
+      const [current] = await tx.select()
+        .from(schema.invoices)
+        .where(and(eq(schema.invoices.orderId, orderId), eq(schema.invoices.type, InvoiceType.INVOICE)))
+        .limit(1)
+      if (current) {
+        return current as Invoice
+      }
+
+      const sequence = await this.nextSequence(tx, InvoiceType.INVOICE)
+      const [created] = await tx.insert(schema.invoices).values({
+        invoiceNumber: formatInvoiceNumber(prefix, sequence),
+        type: InvoiceType.INVOICE,
+        orderId,
+        buyerEmail: order.email,
+        buyerCompany: order.buyerCompany,
+        buyerTaxId: order.buyerTaxId,
+        currency: order.currency,
+        netAmount,
+        taxAmount,
+        totalAmount: order.amount,
+        issuedAt: new Date().toISOString(),
+      }).returning()
+      return created as Invoice
+    })
+
+    console.log(`[Invoice] Issued invoice ${invoice.invoiceNumber} for order ${orderId}`)
+    return invoice
+  }
+
+  /**
+   * 为成功的退款开具红字发票（金额为负数，按订单税额比例拆分税前金额和税额）
+   */
+  async issueCreditNote(refund: Refund): Promise<Invoice> {
+    const [existing] = await db.select()
+      .from(schema.invoices)
+      .where(eq(schema.invoices.refundId, refund.id))
+      .limit(1)
+    if (existing) {
+      return existing
+    }
+
+    const invoice = await this.getOrCreateInvoice(refund.orderId)
+    const totalCents = toCents(invoice.totalAmount)
+    const refundCents = toCents(refund.amount)
+    const taxCents = totalCents > 0 ? Math.round(refundCents * toCents(invoice.taxAmount) / totalCents) : 0
+    const prefix = await configService.getConfig('invoice', 'credit_note_prefix', 'CN')
+
+    const creditNote = await withTransaction(async (tx) => {
+      const sequence = await this.nextSequence(tx, InvoiceType.CREDIT_NOTE)
+      const [created] = await tx.insert(schema.invoices).values({
+        invoiceNumber: formatInvoiceNumber(prefix, sequence),
+        type: InvoiceType.CREDIT_NOTE,
+        orderId: refund.orderId,
+        refundId: refund.id,
+        originalInvoiceId: invoice.id,
+        buyerEmail: invoice.buyerEmail,
+        buyerCompany: invoice.buyerCompany,
+        buyerTaxId: invoice.buyerTaxId,
+        currency: refund.currency,
+        netAmount: -(refundCents - taxCents) / 100,
+        taxAmount: -taxCents / 100,
+        totalAmount: -refundCents / 100,
+        issuedAt: new Date().toISOString(),
+      }).returning()
+      return created as Invoice
+    })
+
+    console.log(`[Invoice] Issued credit note ${creditNote.invoiceNumber} for refund ${refund.refundNo}`)
+    return creditNote
+  }
+
+  /**
+   * 获取订单的发票和红字发票
+   */
+  async listOrderInvoices(orderId: string): Promise<Invoice[]> {
+    return await db.select()
+      .from(schema.invoices)
+      .where(eq(schema.invoices.orderId, orderId))
+      .orderBy(asc(schema.invoices.id))
+  }
+
+  /**
+   * 按编号获取订单的发票
+   */
+  async getInvoiceByNumber(orderId: string, invoiceNumber: string): Promise<Invoice | null> {
+    const [invoice] = await db.select()
+      .from(schema.invoices)
+      .where(and(eq(schema.invoices.orderId, orderId), eq(schema.invoices.invoiceNumber, invoiceNumber)))
+      .limit(1)
+
+    return invoice || null
+  }
+
+  /**
+   * 获取发票 PDF，首次访问或文件丢失时生成并保存到 files 表
+   */
+  async getDocument(invoice: Invoice): Promise<InvoiceDocument> {
+    const filename = `${invoice.invoiceNumber}.pdf`
+
+    if (invoice.fileId) {
+      const [file] = await db.select()
+        .from(schema.files)
+        .where(eq(schema.files.id, invoice.fileId))
+        .limit(1)
+
+      if (file) {
+        try {
+          return { invoice, filename, content: await storageService.forFile(file).read(file.filePath) }
+        } catch (error) {
+          console.warn(`[Invoice] PDF file missing for ${invoice.invoiceNumber}, regenerating`, error)
+        }
+      }
+    }
+
+    const content = await this.renderPdf(invoice)
+    const fileId = await this.storePdf(filename, content)
+    const [updated] = await db.update(schema.invoices)
+      .set({ fileId })
+      .where(eq(schema.invoices.id, invoice.id))
+      .returning()
+
+    return { invoice: updated, filename, content }
+  }
+
+  /**
+   * 分配下一个编号（单条语句自增，编号不会重复）
+   */
+  private async nextSequence(tx: any, series: InvoiceTypeValue): Promise<number> {
+    const [row] = await tx.insert(schema.invoiceSequences)
+      .values({ series, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: schema.invoiceSequences.series,
+        set: {
+          lastNumber: sql`${schema.invoiceSequences.lastNumber} + 1`,
+          updatedAt: new Date().toISOString(),
+        },
+      })
+      .returning()
+
+    return row.lastNumber
+  }
+
+  private async findInvoice(orderId: string): Promise<Invoice | null> {
+    const [invoice] = await db.select()
+      .from(schema.invoices)
+      .where(and(eq(schema.invoices.orderId, orderId), eq(schema.invoices.type, InvoiceType.INVOICE)))
+      .limit(1)
+
+    return invoice || null
+  }
+
+  private async getSellerDetails(): Promise<SellerDetails> {
+    return {
+      name: await configService.getConfig('invoice', 'seller_name', 'AutoShip'),
+      address: await configService.getConfig('invoice', 'seller_address', ''),
+      taxId: await configService.getConfig('invoice', 'seller_tax_id', ''),
+      email: await configService.getConfig('invoice', 'seller_email', ''),
+    }
+  }
+
+  /**
+   * 写入存储并登记到 files 表
+   */
+  private async storePdf(filename: string, content: Buffer): Promise<number> {
+    const storageDir = await configService.getConfig('invoice', 'storage_dir', './storage/invoices')
+    const driver = await storageService.getDefaultDriver()
+
+    const filePath = path.join(storageDir, filename)
+    await driver.put(filePath, content, { contentType: 'application/pdf' })
+
+    const [file] = await db.insert(schema.files).values({
+      fileName: filename,
+      originalName: filename,
+      filePath,
+      fileSize: content.length,
+      mimeType: 'application/pdf',
+      checksum: createHash('sha256').update(content).digest('hex'),
+      storageDriver: driver.name,
+      createdBy: 'system',
+    }).returning()
+
+    return file.id
+  }
+
+  /**
+   * 生成发票 PDF
+   */
+  private async renderPdf(invoice: Invoice): Promise<Buffer> {
+    const details = await orderService.getOrderWithDetails(invoice.orderId)
+    if (!details?.order) {
+      throw new NotFoundError('Order', invoice.orderId)
+    }
+
+    const { order, product } = details
+    const seller = await this.getSellerDetails()
+    const isCreditNote = invoice.type === InvoiceType.CREDIT_NOTE
+    const money = (amount: number) => `${amount.toFixed(2)} ${invoice.currency}`
+    const right = PAGE_WIDTH - 50
+
+    const pdf = new PdfDocument()
+    pdf.text(50, 60, isCreditNote ? '红字发票 Credit Note' : '发票 Invoice', { size: 20 })
+    pdf.text(right, 52, `编号 No.: ${invoice.invoiceNumber}`, { align: 'right' })
+    pdf.text(right, 68, `开具日期 Date: ${invoice.issuedAt.slice(0, 10)}`, { align: 'right' })
+    pdf.text(right, 84, `订单号 Order: ${order.id}`, { align: 'right' })
+    if (isCreditNote && invoice.originalInvoiceId) {
+      const [original] = await db.select({ invoiceNumber: schema.invoices.invoiceNumber })
+        .from(schema.invoices)
+        .where(eq(schema.invoices.id, invoice.originalInvoiceId))
+        .limit(1)
+      if (original) {
+        pdf.text(right, 100, `原发票 Original: ${original.invoiceNumber}`, { align: 'right' })
+      }
+    }
+
+    // 卖方和买方信息
+    let y = 130
+    pdf.text(50, y, '销售方 Seller', { size: 11 })
+    pdf.text(310, y, '购买方 Buyer', { size: 11 })
+    const sellerLines = [seller.name, seller.address, seller.taxId && `税号 Tax ID: ${seller.taxId}`, seller.email].filter(Boolean) as string[]
+    const buyerLines = [invoice.buyerCompany, invoice.buyerEmail, invoice.buyerTaxId && `税号 Tax ID: ${invoice.buyerTaxId}`, order.taxCountry && `国家 Country: ${order.taxCountry}`].filter(Boolean) as string[]
+    for (let i = 0; i < Math.max(sellerLines.length, buyerLines.length); i++) {
+      y += 16
+      if (sellerLines[i]) pdf.text(50, y, sellerLines[i])
+      if (buyerLines[i]) pdf.text(310, y, buyerLines[i])
+    }
+
+    // 明细表头
+    y += 36
+    pdf.text(50, y, '项目 Item')
+    pdf.text(330, y, '数量 Qty', { align: 'right' })
+    pdf.text(410, y, '单价 Price', { align: 'right' })
+    pdf.text(470, y, '税率 Tax', { align: 'right' })
+    pdf.text(right, y, '金额 Amount', { align: 'right' })
+    pdf.line(50, y + 6, right, y + 6)
+
+    const rows = isCreditNote
+      ? [{ name: `退款 Refund - ${order.id}`, quantity: 1, unitPrice: invoice.netAmount, taxRate: null as number | null, amount: invoice.netAmount }]
+      : await this.getInvoiceRows(order, product?.name)
+
+    for (const row of rows) {
+      y += 20
+      if (y > 760) {
+        pdf.addPage()
+        y = 60
+      }
+      pdf.text(50, y, row.name.length > 28 ? `${row.name.slice(0, 27)}…` : row.name)
+      pdf.text(330, y, String(row.quantity), { align: 'right' })
+      pdf.text(410, y, row.unitPrice.toFixed(2), { align: 'right' })
+      pdf.text(470, y, row.taxRate !== null ? `${row.taxRate}%` : '-', { align: 'right' })
+      pdf.text(right, y, row.amount.toFixed(2), { align: 'right' })
+    }
+
+    // 合计
+    y += 12
+    pdf.line(300, y, right, y)
+    const discountCents = isCreditNote ? 0 : rows.reduce((sum, row) => sum + toCents(row.amount), 0) - toCents(invoice.netAmount)
+    const totals: Array<[string, number]> = []
+    if (discountCents > 0) totals.push(['优惠 Discount', -discountCents / 100])
+    totals.push(['税前金额 Net', invoice.netAmount], ['税额 Tax', invoice.taxAmount], ['合计 Total', invoice.totalAmount])
+    for (const [label, amount] of totals) {
+      y += 18
+      pdf.text(300, y, label, { size: label.startsWith('合计') ? 12 : 10 })
+      pdf.text(right, y, money(amount), { align: 'right', size: label.startsWith('合计') ? 12 : 10 })
+    }
+
+    if (isCreditNote) {
+      pdf.text(50, y + 40, '本红字发票冲销原发票中对应的退款金额。This credit note reverses the refunded amount of the original invoice.', { size: 8 })
+    }
+
+    return pdf.toBuffer()
+  }
+
+  /**
+   * 发票明细行（早期单商品订单没有 order_items 记录时按订单生成一行）
+   */
+  private async getInvoiceRows(order: Order, productName?: string) {
+    const items = await orderService.getOrderItems(order.id)
+    if (items.length === 0) {
+      const net = order.netAmount ?? order.amount
+      return [{ name: productName || '数字商品', quantity: 1, unitPrice: net, taxRate: null as number | null, amount: net }]
+    }
+
+    return items.map(item => ({
+      name: item.variantName ? `${item.productName}（${item.variantName}）` : item.productName,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      taxRate: item.taxRate as number | null,
+      amount: toCents(item.unitPrice) * item.quantity / 100,
+    }))
+  }
+}
+
+export const invoiceService = new InvoiceService()
+
+export default invoiceService
@@ -0,0 +1,68 @@
+import { JobType } from '../db/schema'
+import { jobQueueService } from './job-queue-service'
+import { emailService, type OrderEmailOutcome } from './email-service'
+import { notificationService } from './notification-service'
+import { transactionService } from './transaction-service'
+import { invoiceService } from './invoice-service'
+import { refundService } from './refund-service'
+
+/**
+ * 邮件发送失败时抛出异常，交由任务队列重试
+ */
+function assertEmailSent(outcome: OrderEmailOutcome) {
+  if (!outcome.success) {
+    throw new Error(outcome.error || 'Email sending failed')
+  }
+}
+
+/**
+ * 注册所有任务处理函数
+ */
+export function registerJobHandlers() {
+  // 支付成功后发货
+  jobQueueService.registerHandler(JobType.ORDER_DELIVER, async (payload) => {
+    await transactionService.deliverOrder(payload.orderId)
+  })
+
+  // 发货邮件
+  jobQueueService.registerHandler(JobType.EMAIL_DELIVERY, async (payload) => {
+    assertEmailSent(await emailService.sendDeliveryEmail(payload.orderId, { triggeredBy: payload.triggeredBy }))
+  })
+
+  // 支付失败通知
+  jobQueueService.registerHandler(JobType.EMAIL_FAILURE, async (payload) => {
+    assertEmailSent(await emailService.sendFailureEmail(payload.orderId, { triggeredBy: payload.triggeredBy }))
+  })
+
+  // 退款通知
+  jobQueueService.registerHandler(JobType.EMAIL_REFUND, async (payload) => {
+    assertEmailSent(await emailService.sendRefundEmail(payload.orderId, {
+      triggeredBy: payload.triggeredBy,
+      reason: payload.reason,
+    }))
+  })
+
+  // 外部 webhook 通知
+  jobQueueService.registerHandler(JobType.ORDER_NOTIFICATION, async (payload) => {
+    await notificationService.sendOrderEvent(payload.orderId, payload.event)
+  })
+
+  // 支付成功后开具发票并生成 PDF
+  jobQueueService.registerHandler(JobType.INVOICE_ISSUE, async (payload) => {
+    await invoiceService.getDocument(await invoiceService.getOrCreateInvoice(payload.orderId))
+  })
+
+  // 退款成功后开具红字发票
+  jobQueueService.registerHandler(JobType.INVOICE_CREDIT_NOTE, async (payload) => {
+    const refund = await refundService.getRefundById(payload.refundId)
+    if (!refund) {
+      throw new Error(`Refund ${payload.refundId} not found`)
+    }
+    await invoiceService.getDocument(await invoiceService.issueCreditNote(refund))
+  })
+
+  // 退款成功后的后续处理（退款完成时直接处理失败后重试）
+  jobQueueService.registerHandler(JobType.REFUND_FINALIZE, async (payload) => {
+    await refundService.finalizeRefund(payload.refundId)
+  })
+}
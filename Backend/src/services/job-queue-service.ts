@@ -0,0 +1,522 @@
+import os from 'os'
+import { randomUUID } from 'crypto'
+import { db, schema } from '../db'
+import { and, eq, lte, lt, asc, desc, sql } from 'drizzle-orm'
+import { JobStatus, type Job } from '../db/schema'
+import { auditService } from './audit-service'
+
+/**
+ * 任务处理函数
+ * 抛出异常表示本次执行失败，将按退避策略重试
+ */
+export type JobHandler = (payload: Record<string, any>, job: Job) => Promise<void>
+
+/**
+ * 入队选项
+ */
+export interface EnqueueJobOptions {
+  orderId?: string
+  idempotencyKey?: string // 默认为 `${orderId}:${jobType}`
+  runAt?: Date
+  maxAttempts?: number
+}
+
+/**
+ * 入队结果
+ */
+export interface EnqueueJobResult {
+  job: Job
+  created: boolean // false 表示幂等键已存在，返回的是已有任务
+}
+
+/**
+ * 任务查询选项
+ */
+export interface JobQueryOptions {
+  status?: string
+  jobType?: string
+  orderId?: string
+  page?: number
+  limit?: number
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5
+const BACKOFF_BASE_MS = 30 * 1000 // 首次重试延迟 30 秒
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000 // 最长重试间隔 6 小时
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000 // 运行超过 10 分钟视为 worker 已中断
+const JOB_TIMEOUT_MS = 5 * 60 * 1000 // 单个任务最长执行时间，需小于 LOCK_TIMEOUT_MS
+const POLL_INTERVAL_MS = 5 * 1000
+const BATCH_SIZE = 10
+
+/**
+ * 计算第 N 次失败后的重试延迟（指数退避）
+ */
+export function computeBackoffDelay(attempts: number): number {
+  const exponent = Math.max(attempts - 1, 0)
+  return Math.min(BACKOFF_BASE_MS * Math.pow(2, exponent), BACKOFF_MAX_MS)
+}
+
+/**
+ * 持久化任务队列服务
+ * 任务存储在 jobs 表中，进程重启后由 worker 继续执行
+ */
+export class JobQueueService {
+  private handlers = new Map<string, JobHandler>()
+  private timer: NodeJS.Timeout | null = null
+  private processing = false
+  private readonly workerId = `${os.hostname()}:${process.pid}`
+
+  /**
+   * 注册任务处理函数
+   */
+  registerHandler(jobType: string, handler: JobHandler) {
+    this.handlers.set(jobType, handler)
+  }
+
+  /**
+   * 添加任务
+   * 相同幂等键的任务只会存在一条；传入事务时任务随事务一起提交，提交后需调用 wake() 唤醒 worker
+   */
+  async enqueue(
+    jobType: string,
+    payload: Record<string, any> = {},
+    options: EnqueueJobOptions = {},
+    tx: any = db
+  ): Promise<EnqueueJobResult> {
+    const now = new Date().toISOString()
+    const idempotencyKey = options.idempotencyKey
+      || (options.orderId ? `${options.orderId}:${jobType}` : `${jobType}:${randomUUID()}`)
+
+    const inserted = await tx.insert(schema.jobs)
+      .values({
+        jobType,
+        orderId: options.orderId || null,
+        idempotencyKey,
+        payload: JSON.stringify(payload),
+        status: JobStatus.PENDING,
+        attempts: 0,
+        maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        runAt: (options.runAt || new Date()).toISOString(),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoNothing({ target: schema.jobs.idempotencyKey })
+      .returning()
+
+    if (inserted.length > 0) {
+      console.log(`[JobQueue] Enqueued ${jobType} job ${inserted[0].id} (${idempotencyKey})`)
+      if (tx === db) {
+        this.wake()
+      }
+      return { job: inserted[0], created: true }
+    }
+
+    const [existing] = await tx.select()
+      .from(schema.jobs)
+      .where(eq(schema.jobs.idempotencyKey, idempotencyKey))
+      .limit(1)
+
+    console.log(`[JobQueue] Job ${idempotencyKey} already exists, skipping`)
+    return { job: existing, created: false }
+  }
+
+  /**
+   * 启动 worker
+   * 进程启动时，上次未完成的 running 任务会被重新放回队列
+   */
+  async start(intervalMs = POLL_INTERVAL_MS) {
+    if (this.timer) {
+      return
+    }
+
+    const recovered = await this.recoverInterruptedJobs()
+    if (recovered > 0) {
+      console.log(`[JobQueue] Recovered ${recovered} interrupted jobs`)
+    }
+
+    this.timer = setInterval(() => {
+      this.runDueJobs().catch(error => console.error('[JobQueue] Worker tick failed:', error))
+    }, intervalMs)
+
+    console.log(`✅ Job worker started (${this.workerId})`)
+    this.wake()
+  }
+
+  /**
+   * 停止 worker
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * 执行所有到期任务
+   * 返回本次处理的任务数
+   */
+  async runDueJobs(): Promise<number> {
+    if (this.processing) {
+      return 0
+    }
+
+    this.processing = true
+    let processed = 0
+
+    try {
+      await this.releaseStaleLocks()
+
+      while (true) {
+        const claimed = await this.claimDueJobs(BATCH_SIZE)
+        if (claimed.length === 0) {
+          break
+        }
+
+        for (const job of claimed) {
+          await this.executeJob(job)
+          processed++
+        }
+      }
+    } finally {
+      this.processing = false
+    }
+
+    return processed
+  }
+
+  /**
+   * 查询任务列表
+   */
+  async listJobs(options: JobQueryOptions = {}): Promise<{ jobs: Job[]; total: number }> {
+    const page = options.page || 1
+    const limit = Math.min(options.limit || 20, 100)
+    const offset = (page - 1) * limit
+
+    const conditions = []
+
+    if (options.status) {
+      conditions.push(eq(schema.jobs.status, options.status))
+    }
+
+    if (options.jobType) {
+      conditions.push(eq(schema.jobs.jobType, options.jobType))
+    }
+
+    if (options.orderId) {
+      conditions.push(eq(schema.jobs.orderId, options.orderId))
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined
+
+    const jobs = await db.select()
+      .from(schema.jobs)
+      .where(whereClause)
+      .orderBy(desc(schema.jobs.createdAt), desc(schema.jobs.id))
+      .limit(limit)
+      .offset(offset)
+
+    const countResult = await db.select({ count: sql`COUNT(*)` })
+      .from(schema.jobs)
+      .where(whereClause)
+
+    return {
+      jobs,
+      total: Number(countResult[0]?.count || 0),
+    }
+  }
+
+  /**
+   * 获取单个任务
+   */
+  async getJob(id: number): Promise<Job | null> {
+    const [job] = await db.select()
+      .from(schema.jobs)
+      .where(eq(schema.jobs.id, id))
+      .limit(1)
+
+    return job || null
+  }
+
+  /**
+   * 按状态统计任务数量
+   */
+  async getStats(): Promise<Record<string, number>> {
+    const rows = await db.select({
+      status: schema.jobs.status,
+      count: sql`COUNT(*)`,
+    })
+      .from(schema.jobs)
+      .groupBy(schema.jobs.status)
+
+    const stats: Record<string, number> = {}
+    for (const status of Object.values(JobStatus)) {
+      stats[status] = 0
+    }
+    for (const row of rows) {
+      stats[row.status] = Number(row.count || 0)
+    }
+
+    return stats
+  }
+
+  /**
+   * 重试任务
+   * 死信、已取消或等待重试的任务会被立即重新执行，执行次数清零
+   */
+  async retryJob(id: number): Promise<Job | null> {
+    const job = await this.getJob(id)
+    if (!job) {
+      return null
+    }
+
+    if (job.status === JobStatus.RUNNING || job.status === JobStatus.SUCCEEDED) {
+      throw new Error(`Job cannot be retried. Current status: ${job.status}`)
+    }
+
+    const now = new Date().toISOString()
+    const [updated] = await db.update(schema.jobs)
+      .set({
+        status: JobStatus.PENDING,
+        attempts: 0,
+        runAt: now,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: null,
+        updatedAt: now,
+      })
+      .where(eq(schema.jobs.id, id))
+      .returning()
+
+    this.wake()
+    return updated
+  }
+
+  /**
+   * 取消任务
+   * 只能取消尚未开始执行（或等待重试）的任务
+   */
+  async cancelJob(id: number): Promise<Job | null> {
+    const job = await this.getJob(id)
+    if (!job) {
+      return null
+    }
+
+    if (job.status !== JobStatus.PENDING) {
+      throw new Error(`Job cannot be cancelled. Current status: ${job.status}`)
+    }
+
+    const now = new Date().toISOString()
+    const [updated] = await db.update(schema.jobs)
+      .set({
+        status: JobStatus.CANCELLED,
+        completedAt: now,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(schema.jobs.id, id),
+        eq(schema.jobs.status, JobStatus.PENDING)
+      ))
+      .returning()
+
+    if (!updated) {
+      throw new Error('Job was picked up by the worker before it could be cancelled')
+    }
+
+    return updated
+  }
+
+  /**
+   * 唤醒 worker 立即处理新任务
+   */
+  wake() {
+    if (!this.timer) {
+      return
+    }
+
+    setImmediate(() => {
+      this.runDueJobs().catch(error => console.error('[JobQueue] Worker tick failed:', error))
+    })
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 领取到期任务
+   * 通过带状态条件的 UPDATE 保证同一任务只会被领取一次
+   */
+  private async claimDueJobs(limit: number): Promise<Job[]> {
+    const now = new Date().toISOString()
+
+    const due = await db.select({ id: schema.jobs.id })
+      .from(schema.jobs)
+      .where(and(
+        eq(schema.jobs.status, JobStatus.PENDING),
+        lte(schema.jobs.runAt, now)
+      ))
+      .orderBy(asc(schema.jobs.runAt), asc(schema.jobs.id))
+      .limit(limit)
+
+    const claimed: Job[] = []
+
+    for (const { id } of due) {
+      const [job] = await db.update(schema.jobs)
+        .set({
+          status: JobStatus.RUNNING,
+          attempts: sql`${schema.jobs.attempts} + 1`,
+          lockedAt: now,
+          lockedBy: this.workerId,
+          updatedAt: now,
+        })
+        .where(and(
+          eq(schema.jobs.id, id),
+          eq(schema.jobs.status, JobStatus.PENDING)
+        ))
+        .returning()
+
+      if (job) {
+        claimed.push(job)
+      }
+    }
+
+    return claimed
+  }
+
+  /**
+   * 执行单个任务并记录结果
+   */
+  private async executeJob(job: Job) {
+    const handler = this.handlers.get(job.jobType)
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type: ${job.jobType}`)
+      }
+
+      let payload: Record<string, any> = {}
+      if (job.payload) {
+        payload = JSON.parse(job.payload)
+      }
+
+      await this.runWithTimeout(handler(payload, job))
+
+      const now = new Date().toISOString()
+      await db.update(schema.jobs)
+        .set({
+          status: JobStatus.SUCCEEDED,
+          lockedAt: null,
+          lockedBy: null,
+          lastError: null,
+          completedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(schema.jobs.id, job.id))
+
+      console.log(`[JobQueue] Job ${job.id} (${job.jobType}) succeeded on attempt ${job.attempts}`)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      await this.recordFailure(job, errorMessage)
+    }
+  }
+
+  /**
+   * 处理函数超过 JOB_TIMEOUT_MS 未完成时按失败处理，避免卡住的任务阻塞 worker
+   * 超时的处理函数不会被中断，重试依赖处理函数的幂等性
+   */
+  private async runWithTimeout(execution: Promise<void>) {
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Job timed out after ${JOB_TIMEOUT_MS / 1000}s`)), JOB_TIMEOUT_MS)
+    })
+
+    try {
+      await Promise.race([execution, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * 记录任务失败
+   * 未超过最大次数时按指数退避重新排队，否则进入死信状态
+   */
+  private async recordFailure(job: Job, errorMessage: string) {
+    const now = new Date()
+    const isDead = job.attempts >= job.maxAttempts
+
+    await db.update(schema.jobs)
+      .set({
+        status: isDead ? JobStatus.DEAD : JobStatus.PENDING,
+        runAt: isDead ? job.runAt : new Date(now.getTime() + computeBackoffDelay(job.attempts)).toISOString(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: errorMessage,
+        completedAt: isDead ? now.toISOString() : null,
+        updatedAt: now.toISOString(),
+      })
+      .where(eq(schema.jobs.id, job.id))
+
+    if (!isDead) {
+      console.log(`[JobQueue] Job ${job.id} (${job.jobType}) failed on attempt ${job.attempts}, will retry: ${errorMessage}`)
+      return
+    }
+
+    console.error(`[JobQueue] Job ${job.id} (${job.jobType}) moved to dead letter after ${job.attempts} attempts: ${errorMessage}`)
+
+    await auditService.logAuditEvent({
+      action: 'job_dead_lettered',
+      resourceType: 'job',
+      resourceId: job.id.toString(),
+      success: false,
+      errorMessage,
+      metadata: {
+        jobType: job.jobType,
+        orderId: job.orderId,
+        idempotencyKey: job.idempotencyKey,
+        attempts: job.attempts,
+      },
+    })
+  }
+
+  /**
+   * 进程启动时恢复上次中断的任务
+   * 单进程部署下，启动前处于 running 的任务都已中断
+   */
+  private async recoverInterruptedJobs(): Promise<number> {
+    const recovered = await db.update(schema.jobs)
+      .set({
+        status: JobStatus.PENDING,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(schema.jobs.status, JobStatus.RUNNING))
+      .returning({ id: schema.jobs.id })
+
+    return recovered.length
+  }
+
+  /**
+   * 释放长时间未完成的任务锁
+   */
+  private async releaseStaleLocks() {
+    const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS).toISOString()
+
+    await db.update(schema.jobs)
+      .set({
+        status: JobStatus.PENDING,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(and(
+        eq(schema.jobs.status, JobStatus.RUNNING),
+        lt(schema.jobs.lockedAt, staleBefore)
+      ))
+  }
+}
+
+// 创建任务队列服务实例
+export const jobQueueService = new JobQueueService()
+
+export default jobQueueService
@@ -0,0 +1,270 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, randomUUID, type KeyObject } from 'crypto'
+import { db, schema } from '../db'
+import { and, eq, inArray } from 'drizzle-orm'
+import { KeyGenerator, KeySource, type InventoryText, type Product } from '../db/schema'
+import { configService } from './config-service'
+import { inventoryService } from './inventory-service'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+import {
+  generatePatternKey,
+  generateUuidKey,
+  signLicense,
+  validateKeyPattern,
+  verifyLicense,
+  type LicenseVerification,
+} from '../utils/license-key'
+
+export type KeySourceType = typeof KeySource[keyof typeof KeySource]
+export type KeyGeneratorType = typeof KeyGenerator[keyof typeof KeyGenerator]
+
+/**
+ * 商品的卡密来源设置
+ */
+export interface KeySourceSettings {
+  keySource: KeySourceType
+  keyGenerator: KeyGeneratorType | null
+  keyPattern: string | null
+  licenseValidDays: number | null
+}
+
+/**
+ * 发放卡密的参数
+ */
+export interface IssueKeysInput {
+  orderId: string
+  quantity: number
+  variantId?: number | null
+}
+
+// 生成的卡密与已有卡密重复时的最大重试次数
+const MAX_GENERATE_ATTEMPTS = 5
+
+/**
+ * 卡密发放服务
+ * 按商品的卡密来源从预置库存分配或自动生成，生成的卡密写入 inventory_text 并关联订单，和预置库存一样出现在使用记录和导出中
+ */
+export class LicenseKeyService {
+  private signingKey: Promise<KeyObject> | null = null
+
+  /**
+   * 获取商品的卡密来源设置
+   */
+  async getKeySource(productId: number): Promise<KeySourceSettings> {
+    const product = await this.requireProduct(productId)
+    return {
+      keySource: product.keySource as KeySourceType,
+      keyGenerator: product.keyGenerator as KeyGeneratorType | null,
+      keyPattern: product.keyPattern,
+      licenseValidDays: product.licenseValidDays,
+    }
+  }
+
+  /**
+   * 更新商品的卡密来源，使用生成器时需要指定生成算法（pattern 算法需要卡密格式）
+   */
+  async setKeySource(productId: number, settings: KeySourceSettings): Promise<KeySourceSettings> {
+    await this.requireProduct(productId)
+
+    const usesGenerator = settings.keySource !== KeySource.POOL
+    if (usesGenerator && !settings.keyGenerator) {
+      throw new BusinessLogicError('自动生成卡密需要选择生成算法', 'KEY_GENERATOR_REQUIRED')
+    }
+    if (settings.keyGenerator === KeyGenerator.PATTERN) {
+      const error = settings.keyPattern ? validateKeyPattern(settings.keyPattern) : '请填写卡密格式'
+      if (error) {
+        throw new BusinessLogicError(error, 'KEY_PATTERN_INVALID', { keyPattern: settings.keyPattern })
+      }
+    }
+
+    const values = {
+      keySource: settings.keySource,
+      keyGenerator: settings.keyGenerator,
+      keyPattern: settings.keyGenerator === KeyGenerator.PATTERN ? settings.keyPattern : null,
+      licenseValidDays: settings.keyGenerator === KeyGenerator.SIGNED_LICENSE ? settings.licenseValidDays : null,
+    }
+    await db.update(schema.products)
+      .set({ ...values, updatedAt: new Date().toISOString() })
+      .where(eq(schema.products.id, productId))
+
+    return values
+  }
+
+  /**
+   * 为订单发放卡密（在发货流程中调用）
+   * pool：从预置库存分配，库存不足时抛出错误；generator：全部自动生成；
+   * pool_then_generator：库存足够时从库存分配，否则本次购买的数量全部自动生成
+   * 传入 tx 时在发货事务中分配和写入卡密
+   */
+  async issueKeys(product: Product, input: IssueKeysInput, tx: any = db): Promise<InventoryText[]> {
+    const keySource = product.keySource || KeySource.POOL
+
+    if (keySource !== KeySource.GENERATOR) {
+      try {
+        return await inventoryService.allocateInventory(product.id, input.orderId, input.quantity, input.variantId, tx)
+      } catch (error) {
+        if (keySource === KeySource.POOL) {
+          throw error
+        }
+        console.log(`[LicenseKey] Inventory of product ${product.id} is insufficient, generating keys for order ${input.orderId}`)
+      }
+    }
+
+    return await this.generateKeys(product, input, tx)
+  }
+
+  /**
+   * 签名授权文件使用的公钥（PEM），供客户端离线校验
+   */
+  async getPublicKey(): Promise<string> {
+    return createPublicKey(await this.getSigningKey()).export({ type: 'spki', format: 'pem' }).toString()
+  }
+
+  /**
+   * 校验离线授权文件（客服核对买家提供的授权文件）
+   */
+  async verifyLicense(license: string): Promise<LicenseVerification> {
+    return verifyLicense(license, createPublicKey(await this.getSigningKey()))
+  }
+
+  /**
+   * 生成卡密并以已使用状态写入 inventory_text（退款时不会返还到库存）
+   */
+  private async generateKeys(product: Product, input: IssueKeysInput, tx: any): Promise<InventoryText[]> {
+    const generator = product.keyGenerator as KeyGeneratorType | null
+    if (!generator) {
+      throw new BusinessLogicError('商品未设置卡密生成算法', 'KEY_GENERATOR_REQUIRED', { productId: product.id })
+    }
+
+    const now = new Date()
+    let contents: string[]
+    let metadata: (string | null)[] = Array(input.quantity).fill(null)
+
+    if (generator === KeyGenerator.SIGNED_LICENSE) {
+      const [order] = await tx.select({ email: schema.orders.email })
+        .from(schema.orders)
+        .where(eq(schema.orders.id, input.orderId))
+        .limit(1)
+      if (!order) {
+        throw new NotFoundError('Order', input.orderId)
+      }
+
+      const privateKey = await this.getSigningKey()
+      const expiresAt = product.licenseValidDays
+        ? new Date(now.getTime() + product.licenseValidDays * 24 * 60 * 60 * 1000).toISOString()
+        : null
+      const claims = Array.from({ length: input.quantity }, () => ({
+        licenseId: randomUUID(),
+        productId: product.id,
+        productName: product.name,
+        variantId: input.variantId ?? null,
+        email: order.email,
+        orderId: input.orderId,
+        issuedAt: now.toISOString(),
+        expiresAt,
+      }))
+      contents = claims.map(item => signLicense(item, privateKey))
+      metadata = claims.map(item => JSON.stringify({ licenseId: item.licenseId, expiresAt: item.expiresAt }))
+    } else {
+      contents = await this.generateUniqueKeys(product, generator, input.quantity, tx)
+    }
+
+    const items: InventoryText[] = await tx.insert(schema.inventoryText)
+      .values(contents.map((content, index) => ({
+        productId: product.id,
+        variantId: input.variantId ?? null,
+        content,
+        batchName: `generated_${generator}`,
+        isUsed: true,
+        usedOrderId: input.orderId,
+        usedAt: now.toISOString(),
+        metadata: metadata[index],
+        generator,
+        createdBy: 'system',
+      })))
+      .returning()
+
+    console.log(`[LicenseKey] Generated ${items.length} ${generator} key(s) for order ${input.orderId}`)
+    return items
+  }
+
+  /**
+   * 生成与该商品已有卡密不重复的 UUID 或格式卡密
+   */
+  private async generateUniqueKeys(product: Product, generator: KeyGeneratorType, quantity: number, tx: any): Promise<string[]> {
+    if (generator === KeyGenerator.PATTERN && (!product.keyPattern || validateKeyPattern(product.keyPattern))) {
+      throw new BusinessLogicError('商品的卡密格式无效', 'KEY_PATTERN_INVALID', { productId: product.id })
+    }
+    const generate = () => (generator === KeyGenerator.PATTERN ? generatePatternKey(product.keyPattern!) : generateUuidKey())
+
+    const keys = new Set<string>()
+    for (let attempt = 0; attempt < MAX_GENERATE_ATTEMPTS && keys.size < quantity; attempt++) {
+      const candidates = new Set<string>()
+      while (candidates.size < quantity - keys.size) {
+        const key = generate()
+        if (!keys.has(key)) {
+          candidates.add(key)
+        }
+      }
+
+      const existing: { content: string }[] = await tx.select({ content: schema.inventoryText.content })
+        .from(schema.inventoryText)
+        .where(and(eq(schema.inventoryText.productId, product.id), inArray(schema.inventoryText.content, [...candidates])))
+      const taken = new Set(existing.map(item => item.content))
+      candidates.forEach(key => !taken.has(key) && keys.add(key))
+    }
+
+    if (keys.size < quantity) {
+      throw new BusinessLogicError('生成不重复的卡密失败，请检查卡密格式', 'KEY_GENERATION_FAILED', { productId: product.id })
+    }
+    return [...keys]
+  }
+
+  /**
+   * 签名私钥（license.signing_private_key，加密存储），首次使用时自动生成
+   */
+  private async getSigningKey(): Promise<KeyObject> {
+    if (!this.signingKey) {
+      this.signingKey = this.loadSigningKey().catch((error) => {
+        this.signingKey = null
+        throw error
+      })
+    }
+    return this.signingKey
+  }
+
+  private async loadSigningKey(): Promise<KeyObject> {
+    const stored = await configService.getConfig('license', 'signing_private_key', '', { includeEncrypted: true })
+    if (stored) {
+      return createPrivateKey(stored)
+    }
+
+    const { privateKey } = generateKeyPairSync('ed25519')
+    const saved = await configService.setConfig(
+      'license',
+      'signing_private_key',
+      privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      { dataType: 'string', isEncrypted: true, description: '离线授权文件的 Ed25519 签名私钥' }
+    )
+    if (!saved) {
+      throw new BusinessLogicError('保存授权文件签名密钥失败', 'LICENSE_SIGNING_KEY_UNAVAILABLE')
+    }
+
+    console.log('[LicenseKey] Generated Ed25519 signing key for offline licenses')
+    return privateKey
+  }
+
+  private async requireProduct(productId: number): Promise<Product> {
+    const [product] = await db.select()
+      .from(schema.products)
+      .where(eq(schema.products.id, productId))
+      .limit(1)
+    if (!product) {
+      throw new NotFoundError('Product', productId)
+    }
+    return product
+  }
+}
+
+export const licenseKeyService = new LicenseKeyService()
+
+export default licenseKeyService
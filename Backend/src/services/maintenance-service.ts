@@ -3,6 +3,9 @@ import { eq, and, lt, desc, sql, count } from 'drizzle-orm'
 import { OrderStatus } from '../db/schema'
 import { auditService } from './audit-service'
 import { backupService } from './backup-service'
+import { couponService } from './coupon-service'
+import { priceScheduleService } from './price-schedule-service'
+import { productFileService } from './product-file-service'
 
 // 维护服务类
 export class MaintenanceService {
@@ -97,6 +100,11 @@ export class MaintenanceService {
         ))
         .returning({ id: schema.orders.id })
 
+      // 过期订单释放优惠码使用次数
+      for (const order of result as unknown as Array<{ id: string }>) {
+        await couponService.releaseForOrderStatus(order.id, OrderStatus.FAILED)
+      }
+
       console.log(`🧹 Cleaned up ${(result as unknown as any[]).length} expired orders`)
 
       return {
@@ -450,11 +458,19 @@ export class MaintenanceService {
   async scheduleMaintenanceTasks() {
     console.log('⏰ Starting maintenance task scheduler...')
 
+    // 计划价格：启动时先执行一次，之后每分钟激活/结束促销并应用到期的改价
+    const applyScheduledPrices = () => priceScheduleService.applyScheduledPrices()
+      .catch(error => console.error('❌ Failed to apply scheduled prices:', error))
+    await applyScheduledPrices()
+    setInterval(applyScheduledPrices, 60 * 1000) // 每分钟
+
     // 每日任务
     setInterval(async () => {
       console.log('📅 Running daily maintenance tasks...')
       await this.cleanupExpiredOrders()
       await this.cleanupExpiredInventory()
+      await productFileService.cleanupExpiredUploads()
+        .catch(error => console.error('❌ Failed to cleanup expired file uploads:', error))
     }, 24 * 60 * 60 * 1000) // 每24小时
 
     // 每周任务
@@ -0,0 +1,131 @@
+import crypto from 'crypto'
+import { db, schema } from '../db'
+import { eq } from 'drizzle-orm'
+import { JobType } from '../db/schema'
+import { configService } from './config-service'
+import { jobQueueService } from './job-queue-service'
+
+/**
+ * 订单事件通知内容
+ */
+export interface OrderEventPayload {
+  event: string
+  orderId: string
+  status: string
+  productId: number
+  email: string
+  amount: number
+  currency: string
+  occurredAt: string
+}
+
+/**
+ * 外部通知服务
+ * 订单状态变化时向商户配置的 webhook 地址推送事件（HMAC-SHA256 签名）
+ */
+export class NotificationService {
+  /**
+   * 是否配置了通知地址
+   */
+  async isEnabled(): Promise<boolean> {
+    const url = await configService.getConfig('notification', 'webhook_url', '')
+    return !!url
+  }
+
+  /**
+   * 将订单事件通知加入任务队列
+   * 未配置通知地址时不入队；传入事务时随事务一起提交
+   */
+  async enqueueOrderEvent(orderId: string, event: string, tx?: any) {
+    if (!(await this.isEnabled())) {
+      return null
+    }
+
+    const { job } = await jobQueueService.enqueue(
+      JobType.ORDER_NOTIFICATION,
+      { orderId, event },
+      {
+        orderId,
+        idempotencyKey: `${orderId}:${JobType.ORDER_NOTIFICATION}:${event}`,
+      },
+      tx
+    )
+
+    return job
+  }
+
+  /**
+   * 推送订单事件
+   * 非 2xx 响应视为失败，由任务队列负责重试
+   */
+  async sendOrderEvent(orderId: string, event: string): Promise<void> {
+    const url = await configService.getConfig('notification', 'webhook_url', '')
+    if (!url) {
+      console.log(`[Notification] Webhook URL not configured, skipping ${event} for order ${orderId}`)
+      return
+    }
+
+    const [order] = await db.select()
+      .from(schema.orders)
+      .where(eq(schema.orders.id, orderId))
+      .limit(1)
+
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`)
+    }
+
+    const payload: OrderEventPayload = {
+      event,
+      orderId,
+      status: order.status,
+      productId: order.productId,
+      email: order.email,
+      amount: order.amount,
+      currency: order.currency,
+      occurredAt: new Date().toISOString(),
+    }
+
+    const body = JSON.stringify(payload)
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+    const secret = await configService.getConfig('notification', 'webhook_secret', '', { includeEncrypted: true })
+    const timeoutSeconds = Number(await configService.getConfig('notification', 'webhook_timeout', 10))
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-AutoShip-Event': event,
+      'X-AutoShip-Timestamp': timestamp,
+    }
+
+    if (secret) {
+      headers['X-AutoShip-Signature'] = crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex')
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutSeconds * 1000)
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        throw new Error(`Notification webhook responded with ${response.status} ${response.statusText}`)
+      }
+
+      console.log(`[Notification] Sent ${event} for order ${orderId}`)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+// 创建通知服务实例
+export const notificationService = new NotificationService()
+
+export default notificationService
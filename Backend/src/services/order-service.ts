@@ -1,7 +1,8 @@
 import { db, schema, withTransaction } from '../db'
 import { eq, and, desc, asc, count, like, or, sql } from 'drizzle-orm'
-import { OrderStatus, Currency, Gateway } from '../db/schema'
+import { OrderStatus, Currency, Gateway, type Order } from '../db/schema'
 import { validateOrder, validateOrderCreate, validateOrderUpdate, validateOrderQuery } from '../db/validation'
+import { couponService } from './coupon-service'
 
 // 订单服务类
 export class OrderService {
@@ -72,6 +73,29 @@ export class OrderService {
     return result[0] || null
   }
 
+  /**
+   * 获取订单商品明细（旧订单没有明细时返回空数组）
+   */
+  async getOrderItems(orderId: string) {
+    return db.select()
+      .from(schema.orderItems)
+      .where(eq(schema.orderItems.orderId, orderId))
+      .orderBy(asc(schema.orderItems.id))
+  }
+
+  /**
+   * 获取订单的有效发货记录
+   */
+  async getOrderDeliveries(orderId: string) {
+    return db.select()
+      .from(schema.deliveries)
+      .where(and(
+        eq(schema.deliveries.orderId, orderId),
+        eq(schema.deliveries.isActive, true)
+      ))
+      .orderBy(asc(schema.deliveries.id))
+  }
+
   /**
    * 根据邮箱查询订单
    */
@@ -217,39 +241,56 @@ export class OrderService {
 
   /**
    * 更新订单状态
+   * 传入 tx 时在调用方的事务中更新，优惠码使用次数由调用方在事务提交后释放
    */
-  async updateOrderStatus(orderId: string, status: string, additionalData?: any) {
-    return await withTransaction(async () => {
-      const updateData: any = {
-        status,
-        updatedAt: new Date().toISOString(),
-      }
+  async updateOrderStatus(orderId: string, status: string, additionalData?: any, tx?: any) {
+    if (tx) {
+      return await this.writeOrderStatus(tx, orderId, status, additionalData)
+    }
 
-      // 根据状态设置时间戳
-      if (status === OrderStatus.PAID && !additionalData?.skipPaidAt) {
-        updateData.paidAt = new Date().toISOString()
-      }
+    const order = await withTransaction(async (tx) => this.writeOrderStatus(tx, orderId, status, additionalData))
 
-      if (status === OrderStatus.DELIVERED && !additionalData?.skipDeliveredAt) {
-        updateData.deliveredAt = new Date().toISOString()
-      }
+    // 取消、失败或退款的订单释放优惠码使用次数
+    if (order) {
+      await couponService.releaseForOrderStatus(orderId, status)
+    }
 
-      if (status === OrderStatus.REFUNDED && !additionalData?.skipRefundedAt) {
-        updateData.refundedAt = new Date().toISOString()
-      }
+    return order
+  }
 
-      // 合并额外数据
-      if (additionalData) {
-        Object.assign(updateData, additionalData)
-      }
+  /**
+   * 写入订单状态和对应的时间戳
+   */
+  private async writeOrderStatus(tx: any, orderId: string, status: string, additionalData?: any): Promise<Order | null> {
+    const updateData: any = {
+      status,
+      updatedAt: new Date().toISOString(),
+    }
 
-      const result = await db.update(schema.orders)
-        .set(updateData)
-        .where(eq(schema.orders.id, orderId))
-        .returning()
+    // 根据状态设置时间戳
+    if (status === OrderStatus.PAID && !additionalData?.skipPaidAt) {
+      updateData.paidAt = new Date().toISOString()
+    }
 
-      return result[0] || null
-    })
+    if (status === OrderStatus.DELIVERED && !additionalData?.skipDeliveredAt) {
+      updateData.deliveredAt = new Date().toISOString()
+    }
+
+    if (status === OrderStatus.REFUNDED && !additionalData?.skipRefundedAt) {
+      updateData.refundedAt = new Date().toISOString()
+    }
+
+    // 合并额外数据
+    if (additionalData) {
+      Object.assign(updateData, additionalData)
+    }
+
+    const result = await tx.update(schema.orders)
+      .set(updateData)
+      .where(eq(schema.orders.id, orderId))
+      .returning()
+
+    return result[0] || null
   }
 
   /**
@@ -407,7 +448,7 @@ export class OrderService {
 
     // CSV格式导出
     const headers = [
-      '订单ID', '商品ID', '邮箱', '支付网关', '金额', '货币',
+      '订单ID', '商品ID', '邮箱', '支付网关', '金额', '税前金额', '税额', '计税国家', '货币',
       '状态', '网关订单ID', '客户IP', '支付时间', '发货时间', '创建时间'
     ]
 
@@ -417,6 +458,9 @@ export class OrderService {
       order.email,
       order.gateway,
       order.amount.toString(),
+      order.netAmount?.toString() ?? '',
+      order.taxAmount?.toString() ?? '',
+      order.taxCountry || '',
       order.currency,
       order.status,
       order.gatewayOrderId || '',
@@ -661,12 +705,17 @@ export class OrderService {
     const gatewayOptions = [
       { value: 'alipay', label: '支付宝' },
       { value: 'creem', label: 'Creem' },
+      { value: 'stripe', label: 'Stripe' },
+      { value: 'paypal', label: 'PayPal' },
+      { value: 'wechat', label: '微信支付' },
     ]
 
     // 获取所有货币类型
     const currencyOptions = [
       { value: 'CNY', label: '人民币 (CNY)' },
       { value: 'USD', label: '美元 (USD)' },
+      { value: 'EUR', label: '欧元 (EUR)' },
+      { value: 'JPY', label: '日元 (JPY)' },
     ]
 
     return {
@@ -1,6 +1,10 @@
-import { db, schema } from '../db'
+import { db, schema, withTransaction } from '../db'
 import { and, eq, sql, desc } from 'drizzle-orm'
 import { auditService } from './audit-service'
+import { jobQueueService } from './job-queue-service'
+import { notificationService } from './notification-service'
+import { couponService } from './coupon-service'
+import { JobType } from '../db/schema'
 import { OrderStatus, OrderStatusType, ORDER_STATUS_TRANSITIONS, GatewayType } from '../types/orders'
 
 /**
@@ -565,7 +569,7 @@ export class OrderStateService {
 
   /**
    * 在事务中更新订单状态
-   * 包括状态更新、审计日志、业务触发器
+   * 状态更新和发货、邮件等后续任务在同一事务中写入，提交后再记录审计日志和释放优惠码
    */
   private async updateOrderStatusInTransaction(
     orderId: string,
@@ -600,9 +604,15 @@ export class OrderStateService {
         updateData.notes = options.notes
       }
 
-      await db.update(schema.orders)
-        .set(updateData)
-        .where(eq(schema.orders.id, orderId))
+      // 状态变更和后续任务一起提交，避免状态已更新但任务丢失
+      const triggeredActions = await withTransaction(async (tx) => {
+        await tx.update(schema.orders)
+          .set(updateData)
+          .where(eq(schema.orders.id, orderId))
+
+        return await this.enqueueStatusJobs(tx, orderId, newStatus, previousStatus, options)
+      })
+      jobQueueService.wake()
 
       // 2. 记录审计日志
       await auditService.logAuditEvent({
@@ -619,8 +629,8 @@ export class OrderStateService {
         }
       })
 
-      // 3. 触发业务逻辑
-      const triggeredActions = await this.triggerBusinessLogic(orderId, newStatus, previousStatus, options)
+      // 3. 释放优惠码等不需要重试的业务逻辑
+      triggeredActions.push(...await this.triggerBusinessLogic(orderId, newStatus))
 
       return {
         orderId,
@@ -637,10 +647,10 @@ export class OrderStateService {
   }
 
   /**
-   * 触发业务逻辑
-   * 根据状态变更执行相应操作
+   * 根据状态变更添加发货、发票、邮件和外部通知任务（使用状态更新的事务）
    */
-  private async triggerBusinessLogic(
+  private async enqueueStatusJobs(
+    tx: any,
     orderId: string,
     newStatus: OrderStatusType,
     previousStatus: OrderStatusType,
@@ -648,30 +658,70 @@ export class OrderStateService {
   ): Promise<string[]> {
     const triggeredActions: string[] = []
 
-    try {
-      // 支付成功 -> 触发发货
-      if (newStatus === OrderStatus.PAID && previousStatus === OrderStatus.PENDING) {
-        console.log(`[OrderState] Triggering delivery process for order ${orderId}`)
-        triggeredActions.push('delivery_process')
+    // 支付成功 -> 触发发货
+    if (newStatus === OrderStatus.PAID && previousStatus === OrderStatus.PENDING) {
+      console.log(`[OrderState] Triggering delivery process for order ${orderId}`)
+      triggeredActions.push('delivery_process')
 
-        // TODO: 这里可以调用发货服务
-        // await deliveryService.processDelivery(orderId)
-      }
+      await jobQueueService.enqueue(JobType.ORDER_DELIVER, { orderId }, { orderId }, tx)
+    }
 
-      // 发货完成 -> 触发完成通知
-      if (newStatus === OrderStatus.DELIVERED) {
-        console.log(`[OrderState] Triggering completion notifications for order ${orderId}`)
-        triggeredActions.push('completion_notifications')
+    // 支付成功 -> 开具发票
+    if (newStatus === OrderStatus.PAID && previousStatus === OrderStatus.PENDING) {
+      triggeredActions.push('invoice_issue')
 
-        // TODO: 发送完成通知邮件
-      }
+      await jobQueueService.enqueue(JobType.INVOICE_ISSUE, { orderId }, { orderId }, tx)
+    }
+
+    // 发货完成 -> 触发完成通知
+    if (newStatus === OrderStatus.DELIVERED) {
+      console.log(`[OrderState] Triggering completion notifications for order ${orderId}`)
+      triggeredActions.push('completion_notifications')
+
+      await jobQueueService.enqueue(JobType.EMAIL_DELIVERY, { orderId, triggeredBy: options.triggerBy }, { orderId }, tx)
+    }
+
+    // 支付失败 -> 触发失败通知
+    if (newStatus === OrderStatus.FAILED && previousStatus === OrderStatus.PENDING) {
+      console.log(`[OrderState] Triggering failure notifications for order ${orderId}`)
+      triggeredActions.push('failure_notifications')
+
+      await jobQueueService.enqueue(JobType.EMAIL_FAILURE, { orderId, triggeredBy: options.triggerBy }, { orderId }, tx)
+    }
+
+    // 退款完成 -> 触发退款通知
+    if (newStatus === OrderStatus.REFUNDED) {
+      console.log(`[OrderState] Triggering refund notifications for order ${orderId}`)
+      triggeredActions.push('refund_notifications')
+
+      await jobQueueService.enqueue(
+        JobType.EMAIL_REFUND,
+        { orderId, triggeredBy: options.triggerBy, reason: options.notes },
+        { orderId },
+        tx
+      )
+    }
+
+    // 外部 webhook 通知
+    const notificationJob = await notificationService.enqueueOrderEvent(orderId, newStatus, tx)
+    if (notificationJob) {
+      triggeredActions.push('order_notification')
+    }
 
-      // 支付失败 -> 触发失败通知
-      if (newStatus === OrderStatus.FAILED && previousStatus === OrderStatus.PENDING) {
-        console.log(`[OrderState] Triggering failure notifications for order ${orderId}`)
-        triggeredActions.push('failure_notifications')
+    return triggeredActions
+  }
 
-        // TODO: 发送失败通知邮件
+  /**
+   * 触发业务逻辑
+   * 状态更新提交后执行，失败不影响状态更新
+   */
+  private async triggerBusinessLogic(orderId: string, newStatus: OrderStatusType): Promise<string[]> {
+    const triggeredActions: string[] = []
+
+    try {
+      // 订单取消、失败或退款 -> 释放优惠码使用次数
+      if (await couponService.releaseForOrderStatus(orderId, newStatus) > 0) {
+        triggeredActions.push('coupon_release')
       }
 
       return triggeredActions
@@ -1,8 +1,10 @@
+import crypto from 'crypto'
 import { configService } from './config-service'
 import { auditService } from './audit-service'
 import { AlipaySdk, AlipaySdkConfig } from 'alipay-sdk'
 import type { OrderStatusType, GatewayType, CurrencyType } from '../types/orders'
 import { CONFIG } from '../config/api'
+import { gatewayRegistry } from './gateway-registry'
 
 // ==============================================
 // 支付网关接口定义
@@ -86,6 +88,38 @@ export interface SignatureVerification {
   error?: string
 }
 
+/**
+ * 退款请求参数
+ */
+export interface RefundRequest {
+  refundNo: string // 退款请求号，网关侧幂等键
+  gatewayOrderId?: string
+  currency: CurrencyType
+}
+
+/**
+ * 退款结果（pending 表示网关异步处理，结果由退款回调通知）
+ */
+export interface RefundResult {
+  status: 'pending' | 'succeeded' | 'failed'
+  gatewayRefundId?: string
+  amount: number
+  error?: string
+  rawData: any
+}
+
+/**
+ * 主动查询的支付状态
+ */
+export interface PaymentQueryResult {
+  status: PaymentStatus
+  gatewayStatus: string // 网关原始交易状态
+  amount?: number
+  currency?: string
+  transactionId?: string
+  rawData: any
+}
+
 /**
  * 支付网关接口
  */
@@ -95,6 +129,8 @@ export interface IPaymentGateway {
   verifyWebhook(payload: any, headers: any): Promise<SignatureVerification>
   parseCallback(payload: any): PaymentCallback
   validateConfig(): Promise<boolean>
+  refund?(orderId: string, amount: number, reason: string, request: RefundRequest): Promise<RefundResult>
+  queryPayment?(orderId: string, gatewayOrderId?: string): Promise<PaymentQueryResult>
 }
 
 // ==============================================
@@ -257,6 +293,83 @@ export class AlipayGateway implements IPaymentGateway {
     }
   }
 
+  /**
+   * 查询交易状态（alipay.trade.query）
+   */
+  async queryPayment(orderId: string): Promise<PaymentQueryResult> {
+    await this.loadConfig()
+
+    if (!this.sdk) {
+      throw new Error('Alipay SDK not initialized')
+    }
+
+    const result = await this.sdk.exec('alipay.trade.query', {
+      bizContent: { out_trade_no: orderId },
+    })
+
+    // 买家未扫码时支付宝侧尚未创建交易
+    if (result.subCode === 'ACQ.TRADE_NOT_EXIST') {
+      return { status: 'pending', gatewayStatus: 'TRADE_NOT_EXIST', rawData: result }
+    }
+
+    if (result.code !== '10000') {
+      throw new Error(`Alipay trade query failed: ${result.subMsg || result.msg}`)
+    }
+
+    const status = result.tradeStatus === 'TRADE_SUCCESS' || result.tradeStatus === 'TRADE_FINISHED'
+      ? 'paid'
+      : result.tradeStatus === 'TRADE_CLOSED'
+        ? 'cancelled'
+        : 'pending'
+
+    return {
+      status,
+      gatewayStatus: result.tradeStatus,
+      amount: parseFloat(result.totalAmount),
+      currency: 'CNY',
+      transactionId: result.tradeNo,
+      rawData: result,
+    }
+  }
+
+  /**
+   * 发起退款（alipay.trade.refund，同一 out_request_no 重复提交不会重复退款）
+   */
+  async refund(orderId: string, amount: number, reason: string, request: RefundRequest): Promise<RefundResult> {
+    await this.loadConfig()
+
+    if (!this.sdk) {
+      throw new Error('Alipay SDK not initialized')
+    }
+
+    const result = await this.sdk.exec('alipay.trade.refund', {
+      bizContent: {
+        out_trade_no: orderId,
+        refund_amount: amount.toFixed(2),
+        refund_reason: reason,
+        out_request_no: request.refundNo,
+      },
+    })
+
+    if (result.code !== '10000') {
+      console.warn(`[AlipayGateway] Refund failed for order ${orderId}: ${result.subMsg || result.msg}`)
+      return {
+        status: 'failed',
+        amount,
+        error: result.subMsg || result.msg || 'Refund rejected by Alipay',
+        rawData: result,
+      }
+    }
+
+    // fund_change = Y 表示本次请求已退款；否则资金变动以退款回调为准
+    return {
+      status: result.fundChange === 'Y' ? 'succeeded' : 'pending',
+      gatewayRefundId: result.tradeNo,
+      amount: result.refundFee ? parseFloat(result.refundFee) : amount,
+      rawData: result,
+    }
+  }
+
   /**
    * 验证Webhook签名
    */
@@ -492,6 +605,80 @@ export class CreemGateway implements IPaymentGateway {
     }
   }
 
+  /**
+   * 查询 Checkout 状态
+   */
+  async queryPayment(orderId: string, gatewayOrderId?: string): Promise<PaymentQueryResult> {
+    const config = await this.loadConfig()
+    if (!config) {
+      throw new Error('Creem payment gateway is disabled')
+    }
+    if (!gatewayOrderId) {
+      throw new Error(`Order ${orderId} has no Creem checkout id`)
+    }
+
+    const { ok, status, data } = await fetchJson(`${config.baseUrl}/v1/checkouts?checkout_id=${encodeURIComponent(gatewayOrderId)}`, {
+      method: 'GET',
+      headers: { 'x-api-key': config.apiKey },
+    }, config.timeout)
+
+    if (!ok) {
+      throw new Error(data?.message || `Creem checkout query failed (${status})`)
+    }
+
+    return {
+      status: data.status === 'completed' ? 'paid' : data.status === 'expired' ? 'cancelled' : 'pending',
+      gatewayStatus: data.status,
+      amount: data.order?.amount !== undefined ? parseFloat(data.order.amount) : undefined,
+      currency: data.order?.currency,
+      transactionId: data.order?.transaction,
+      rawData: data,
+    }
+  }
+
+  /**
+   * 发起退款（退款结果由 refund_succeeded / refund_failed 回调通知）
+   */
+  async refund(orderId: string, amount: number, reason: string, request: RefundRequest): Promise<RefundResult> {
+    const config = await this.loadConfig()
+    if (!config) {
+      throw new Error('Creem payment gateway is disabled')
+    }
+
+    const { ok, status, data } = await fetchJson(`${config.baseUrl}/v1/refunds`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+      },
+      body: JSON.stringify({
+        transaction_id: request.gatewayOrderId,
+        amount,
+        currency: request.currency,
+        reason,
+        request_id: request.refundNo,
+        metadata: { order_id: orderId },
+      }),
+    }, config.timeout)
+
+    if (!ok) {
+      console.warn(`[CreemGateway] Refund failed for order ${orderId}: ${status}`)
+      return {
+        status: 'failed',
+        amount,
+        error: data?.message || `Creem refund request failed (${status})`,
+        rawData: data,
+      }
+    }
+
+    return {
+      status: data.status === 'succeeded' ? 'succeeded' : data.status === 'failed' ? 'failed' : 'pending',
+      gatewayRefundId: data.id,
+      amount: data.amount !== undefined ? parseFloat(data.amount) : amount,
+      rawData: data,
+    }
+  }
+
   /**
    * 验证Webhook
    */
@@ -540,102 +727,1185 @@ export class CreemGateway implements IPaymentGateway {
 }
 
 // ==============================================
-// 支付网关管理器
+// Stripe网关实现
 // ==============================================
 
 /**
- * 支付网关管理器
+ * Stripe配置
  */
-export class PaymentGatewayManager {
-  private gateways = new Map<string, IPaymentGateway>()
-  private initialized = false
+export interface StripeConfig extends GatewayConfig {
+  secretKey: string
+  webhookSecret: string
+  apiBase: string
+  webhookTolerance: number // Stripe-Signature 时间戳容差（秒）
+}
 
-  /**
-   * 注册网关
-   */
-  registerGateway(gateway: IPaymentGateway): void {
-    this.gateways.set(gateway.name, gateway)
+// Stripe 零小数位货币（金额不乘以100）
+const STRIPE_ZERO_DECIMAL_CURRENCIES = ['JPY']
+
+// Checkout Session 有效期（Stripe 要求至少30分钟）
+const STRIPE_SESSION_TTL_SECONDS = 60 * 60
+
+/**
+ * 金额转换为 Stripe 最小货币单位
+ */
+export function toStripeAmount(amount: number, currency: string): number {
+  return STRIPE_ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())
+    ? Math.round(amount)
+    : Math.round(amount * 100)
+}
+
+/**
+ * Stripe 最小货币单位转换为金额
+ */
+export function fromStripeAmount(amount: number, currency: string): number {
+  return STRIPE_ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())
+    ? amount
+    : amount / 100
+}
+
+/**
+ * 计算 Stripe Webhook 签名（HMAC-SHA256(`${timestamp}.${payload}`)）
+ */
+export function computeStripeSignature(payload: string, timestamp: number, secret: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`, 'utf8')
+    .digest('hex')
+}
+
+/**
+ * 验证 Stripe-Signature 头
+ * 格式：t=时间戳,v1=签名[,v1=签名...]，任一 v1 匹配且时间戳在容差内即为有效
+ */
+export function verifyStripeSignature(
+  payload: string,
+  signatureHeader: string | undefined,
+  secret: string,
+  toleranceSeconds = 300
+): SignatureVerification & { timestamp?: number } {
+  if (!secret) {
+    return { isValid: false, error: 'Stripe webhook secret not configured' }
+  }
+
+  if (!signatureHeader) {
+    return { isValid: false, error: 'Missing Stripe-Signature header' }
+  }
+
+  let timestamp: number | undefined
+  const signatures: string[] = []
+
+  for (const part of signatureHeader.split(',')) {
+    const [key, value] = part.trim().split('=')
+    if (key === 't') {
+      timestamp = parseInt(value, 10)
+    } else if (key === 'v1' && value) {
+      signatures.push(value)
+    }
+  }
+
+  if (!timestamp || isNaN(timestamp) || signatures.length === 0) {
+    return { isValid: false, error: 'Malformed Stripe-Signature header' }
+  }
+
+  const expected = Buffer.from(computeStripeSignature(payload, timestamp, secret), 'hex')
+  const matched = signatures.some(signature => {
+    const actual = Buffer.from(signature, 'hex')
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+  })
+
+  if (!matched) {
+    return { isValid: false, error: 'Stripe signature mismatch', timestamp }
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return { isValid: false, error: 'Stripe signature timestamp outside tolerance', timestamp }
+  }
+
+  return { isValid: true, timestamp }
+}
+
+/**
+ * 映射 Stripe 事件到支付状态
+ * 不影响订单状态的事件返回 null
+ */
+export function mapStripeEventStatus(event: any): PaymentStatus | null {
+  const session = event?.data?.object || {}
+
+  switch (event?.type) {
+    case 'checkout.session.completed':
+      // 异步支付方式（如银行转账）完成时 payment_status 仍为 unpaid，等待 async_payment_succeeded
+      return session.payment_status === 'paid' || session.payment_status === 'no_payment_required'
+        ? 'paid'
+        : null
+    case 'checkout.session.async_payment_succeeded':
+      return 'paid'
+    case 'checkout.session.async_payment_failed':
+      return 'failed'
+    case 'checkout.session.expired':
+      return 'cancelled'
+    default:
+      return null
   }
+}
+
+/**
+ * Stripe网关（Checkout Session）
+ */
+export class StripeGateway implements IPaymentGateway {
+  name = 'stripe'
+  private config: StripeConfig | null = null
 
   /**
-   * 初始化所有网关
+   * 加载Stripe配置
    */
-  async initialize(): Promise<void> {
-    if (this.initialized) return
+  private async loadConfig(): Promise<StripeConfig | null> {
+    if (this.config) {
+      return this.config
+    }
 
-    // 注册默认网关
-    this.registerGateway(new AlipayGateway())
-    this.registerGateway(new CreemGateway())
+    const enabled = await configService.getConfig('payment', 'stripe_enabled', false)
+    // 确保 enabled 是布尔类型
+    const isEnabled = typeof enabled === 'string' ? enabled === 'true' : Boolean(enabled)
+    if (!isEnabled) {
+      console.warn('[StripeGateway] Stripe payment gateway is disabled')
+      return null
+    }
 
-    // 验证所有已启用的网关配置
-    await Promise.all(
-      Array.from(this.gateways.entries()).map(async ([name, gateway]) => {
-        try {
-          const isValid = await gateway.validateConfig()
-          if (!isValid) {
-            console.warn(`Gateway ${name} configuration is invalid, skipping`)
-          }
-        } catch (error) {
-          console.error(`Failed to validate ${name} gateway:`, error)
-        }
-      })
-    )
+    this.config = {
+      enabled: isEnabled,
+      secretKey: await configService.getConfig('payment', 'stripe_secret_key', '', { includeEncrypted: true }),
+      webhookSecret: await configService.getConfig('payment', 'stripe_webhook_secret', '', { includeEncrypted: true }),
+      apiBase: await configService.getConfig('payment', 'stripe_api_base', CONFIG.PAYMENT.STRIPE.API_BASE),
+      webhookTolerance: Number(await configService.getConfig('payment', 'stripe_webhook_tolerance', 300)),
+      timeout: Number(await configService.getConfig('payment', 'stripe_timeout', CONFIG.PAYMENT.STRIPE.TIMEOUT)),
+    }
 
-    this.initialized = true
+    console.log('[StripeGateway] Config loaded successfully')
+    return this.config
   }
 
   /**
-   * 获取网关
+   * 验证配置
    */
-  getGateway(name: string): IPaymentGateway | undefined {
-    return this.gateways.get(name)
+  async validateConfig(): Promise<boolean> {
+    try {
+      const config = await this.loadConfig()
+
+      if (!config) {
+        return false
+      }
+
+      if (!config.secretKey || !config.webhookSecret) {
+        console.warn('[StripeGateway] Missing required Stripe configuration')
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.warn('[StripeGateway] Config validation failed:', error)
+      return false
+    }
   }
 
   /**
-   * 获取所有启用的网关
+   * 创建支付（Checkout Session）
    */
-  async getEnabledGateways(): Promise<IPaymentGateway[]> {
-    if (!this.initialized) {
-      await this.initialize()
+  async createPayment(params: CreatePaymentParams): Promise<PaymentLink> {
+    const config = await this.loadConfig()
+    if (!config) {
+      throw new Error('Stripe payment gateway is disabled')
     }
 
-    const results: IPaymentGateway[] = []
+    const returnUrl = params.returnUrl || `${CONFIG.API.FRONTEND_URL}/payment/${params.orderId}`
+    const expiresAt = Math.floor(Date.now() / 1000) + STRIPE_SESSION_TTL_SECONDS
+
+    // Stripe API 使用表单编码的嵌套参数
+    const form = new URLSearchParams()
+    form.append('mode', 'payment')
+    form.append('client_reference_id', params.orderId)
+    form.append('customer_email', params.customerEmail)
+    form.append('line_items[0][quantity]', '1')
+    form.append('line_items[0][price_data][currency]', params.currency.toLowerCase())
+    form.append('line_items[0][price_data][unit_amount]', toStripeAmount(params.amount, params.currency).toString())
+    form.append('line_items[0][price_data][product_data][name]', params.productName)
+    form.append('metadata[order_id]', params.orderId)
+    form.append('payment_intent_data[metadata][order_id]', params.orderId)
+    form.append('success_url', returnUrl)
+    form.append('cancel_url', returnUrl)
+    form.append('expires_at', expiresAt.toString())
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), config.timeout || 30000)
 
-    for (const [name, gateway] of this.gateways) {
-      const startTime = Date.now()
-      try {
-        const isValid = await gateway.validateConfig()
-        const duration = Date.now() - startTime
+    try {
+      const response = await fetch(`${config.apiBase}/v1/checkout/sessions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${config.secretKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: form.toString(),
+        signal: controller.signal
+      })
 
-        if (isValid) {
-          console.log(`[PaymentGatewayManager] Gateway ${name} validated successfully (${duration}ms)`)
-          results.push(gateway)
-        } else {
-          console.log(`[PaymentGatewayManager] Gateway ${name} disabled or misconfigured (${duration}ms)`)
+      const session: any = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(`Stripe API error ${response.status}: ${session?.error?.message || response.statusText}`)
+      }
+
+      if (!session.id || !session.url) {
+        throw new Error('Stripe API returned an invalid checkout session')
+      }
+
+      await auditService.logAuditEvent({
+        action: 'payment_created',
+        resourceType: 'payment',
+        resourceId: params.orderId,
+        success: true,
+        userEmail: params.customerEmail,
+        metadata: {
+          gateway: 'stripe',
+          gatewayOrderId: session.id,
+          amount: params.amount,
+          currency: params.currency
         }
-      } catch (error) {
-        const duration = Date.now() - startTime
-        console.warn(`[PaymentGatewayManager] Gateway ${name} validation failed (${duration}ms):`, error)
+      })
+
+      return {
+        paymentUrl: session.url,
+        gatewayOrderId: session.id,
+        expiresAt: new Date((session.expires_at || expiresAt) * 1000).toISOString()
       }
-    }
 
-    console.log(`[PaymentGatewayManager] Available gateways: [${results.map(g => g.name).join(', ')}]`)
-    return results
+    } catch (error) {
+      await auditService.logAuditEvent({
+        action: 'payment_creation_failed',
+        resourceType: 'payment',
+        resourceId: params.orderId,
+        success: false,
+        userEmail: params.customerEmail,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      })
+
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
   }
 
   /**
-   * 创建支付
+   * 验证Webhook签名
+   * payload 必须是原始请求体字符串，重新序列化的 JSON 无法通过验证
    */
-  async createPayment(
-    gatewayName: string,
-    params: CreatePaymentParams
-  ): Promise<PaymentLink> {
-    const gateway = this.getGateway(gatewayName)
-    if (!gateway) {
-      throw new Error(`Gateway ${gatewayName} not found`)
-    }
+  async verifyWebhook(payload: any, headers: any): Promise<SignatureVerification> {
+    try {
+      const config = await this.loadConfig()
+      if (!config) {
+        return { isValid: false, error: 'Stripe payment gateway is disabled' }
+      }
 
-    return await gateway.createPayment(params)
+      const rawBody = typeof payload === 'string' ? payload : JSON.stringify(payload)
+      const result = verifyStripeSignature(
+        rawBody,
+        headers['stripe-signature'],
+        config.webhookSecret,
+        config.webhookTolerance
+      )
+
+      if (!result.isValid) {
+        console.warn('[StripeGateway] Signature verification failed:', result.error)
+      }
+
+      return { isValid: result.isValid, error: result.error }
+
+    } catch (error) {
+      console.error('Stripe webhook verification error:', error)
+      return { isValid: false, error: 'Webhook verification failed' }
+    }
+  }
+
+  /**
+   * 解析支付回调（Checkout Session 事件）
+   */
+  parseCallback(payload: any): PaymentCallback {
+    const event = typeof payload === 'string' ? JSON.parse(payload) : payload
+    const session = event?.data?.object || {}
+    const currency = (session.currency || 'usd').toUpperCase()
+
+    return {
+      orderId: session.client_reference_id || session.metadata?.order_id,
+      gatewayOrderId: session.id,
+      transactionId: session.payment_intent || undefined,
+      status: mapStripeEventStatus(event) || 'pending',
+      amount: fromStripeAmount(Number(session.amount_total || 0), currency),
+      currency: currency as CurrencyType,
+      rawData: event
+    }
+  }
+}
+
+// ==============================================
+// PayPal网关实现
+// ==============================================
+
+/**
+ * PayPal配置
+ */
+export interface PaypalConfig extends GatewayConfig {
+  clientId: string
+  clientSecret: string
+  webhookId: string
+  apiBase: string
+}
+
+// PayPal 零小数位货币
+const PAYPAL_ZERO_DECIMAL_CURRENCIES = ['JPY']
+
+// OAuth 访问令牌缓存（按 apiBase + clientId 区分）
+const paypalTokenCache = new Map<string, { token: string; expiresAt: number }>()
+
+/**
+ * 带超时的 JSON 请求
+ */
+async function fetchJson(url: string, init: RequestInit, timeout = 30000): Promise<{ ok: boolean; status: number; data: any }> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal })
+    const text = await response.text()
+    let data: any = {}
+    try {
+      data = text ? JSON.parse(text) : {}
+    } catch {
+      data = { raw: text }
+    }
+    return { ok: response.ok, status: response.status, data }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * 格式化 PayPal 金额（字符串，按货币精度）
+ */
+export function toPaypalAmount(amount: number, currency: string): string {
+  return PAYPAL_ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())
+    ? Math.round(amount).toString()
+    : amount.toFixed(2)
+}
+
+/**
+ * 获取 PayPal OAuth 访问令牌（client_credentials）
+ */
+export async function getPaypalAccessToken(config: PaypalConfig): Promise<string> {
+  const cacheKey = `${config.apiBase}:${config.clientId}`
+  const cached = paypalTokenCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.token
+  }
+
+  const credentials = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64')
+  const { ok, status, data } = await fetchJson(`${config.apiBase}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: 'grant_type=client_credentials'
+  }, config.timeout)
+
+  if (!ok || !data.access_token) {
+    throw new Error(`PayPal OAuth error ${status}: ${data.error_description || data.message || 'Unknown error'}`)
+  }
+
+  // 提前60秒过期，避免临界时刻令牌失效
+  paypalTokenCache.set(cacheKey, {
+    token: data.access_token,
+    expiresAt: Date.now() + (Number(data.expires_in || 0) - 60) * 1000
+  })
+
+  return data.access_token
+}
+
+/**
+ * 调用 PayPal 验签接口验证 Webhook
+ * PayPal 使用证书签名（paypal-transmission-sig），由官方接口完成证书链校验
+ */
+export async function verifyPaypalWebhookSignature(
+  config: PaypalConfig,
+  rawBody: string,
+  headers: Record<string, string>
+): Promise<SignatureVerification> {
+  if (!config.webhookId) {
+    return { isValid: false, error: 'PayPal webhook id not configured' }
+  }
+
+  const transmissionId = headers['paypal-transmission-id']
+  const transmissionSig = headers['paypal-transmission-sig']
+  if (!transmissionId || !transmissionSig) {
+    return { isValid: false, error: 'Missing PayPal transmission headers' }
+  }
+
+  const token = await getPaypalAccessToken(config)
+  const { ok, status, data } = await fetchJson(`${config.apiBase}/v1/notifications/verify-webhook-signature`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    // webhook_event 需要原样传回，拼接原始请求体避免重新序列化改变内容
+    body: `{"auth_algo":${JSON.stringify(headers['paypal-auth-algo'] || '')},` +
+      `"cert_url":${JSON.stringify(headers['paypal-cert-url'] || '')},` +
+      `"transmission_id":${JSON.stringify(transmissionId)},` +
+      `"transmission_sig":${JSON.stringify(transmissionSig)},` +
+      `"transmission_time":${JSON.stringify(headers['paypal-transmission-time'] || '')},` +
+      `"webhook_id":${JSON.stringify(config.webhookId)},` +
+      `"webhook_event":${rawBody}}`
+  }, config.timeout)
+
+  if (!ok) {
+    return { isValid: false, error: `PayPal verification API error ${status}` }
+  }
+
+  return data.verification_status === 'SUCCESS'
+    ? { isValid: true }
+    : { isValid: false, error: 'PayPal signature verification failed' }
+}
+
+/**
+ * 映射 PayPal 事件到支付状态
+ * CHECKOUT.ORDER.APPROVED 仅表示买家已授权，需要商户扣款后才会产生 PAYMENT.CAPTURE.COMPLETED
+ */
+export function mapPaypalEventStatus(event: any): PaymentStatus | null {
+  switch (event?.event_type) {
+    case 'PAYMENT.CAPTURE.COMPLETED':
+      return 'paid'
+    case 'PAYMENT.CAPTURE.DENIED':
+    case 'PAYMENT.CAPTURE.DECLINED':
+      return 'failed'
+    case 'CHECKOUT.ORDER.VOIDED':
+      return 'cancelled'
+    default:
+      return null
+  }
+}
+
+/**
+ * 从 PayPal 事件中提取关键信息
+ * 订单事件的 resource 是 Order，扣款事件的 resource 是 Capture
+ */
+export function extractPaypalEventData(event: any): {
+  orderId?: string
+  gatewayOrderId?: string
+  transactionId?: string
+  amount?: number
+  currency?: string
+} {
+  const resource = event?.resource || {}
+
+  if (event?.event_type?.startsWith('PAYMENT.CAPTURE.')) {
+    return {
+      orderId: resource.custom_id || resource.invoice_id,
+      gatewayOrderId: resource.supplementary_data?.related_ids?.order_id,
+      transactionId: resource.id,
+      amount: resource.amount?.value !== undefined ? parseFloat(resource.amount.value) : undefined,
+      currency: resource.amount?.currency_code
+    }
+  }
+
+  const unit = resource.purchase_units?.[0] || {}
+  return {
+    orderId: unit.custom_id || unit.reference_id,
+    gatewayOrderId: resource.id,
+    amount: unit.amount?.value !== undefined ? parseFloat(unit.amount.value) : undefined,
+    currency: unit.amount?.currency_code
+  }
+}
+
+/**
+ * PayPal网关（Orders v2）
+ */
+export class PaypalGateway implements IPaymentGateway {
+  name = 'paypal'
+  private config: PaypalConfig | null = null
+
+  /**
+   * 加载PayPal配置
+   */
+  private async loadConfig(): Promise<PaypalConfig | null> {
+    if (this.config) {
+      return this.config
+    }
+
+    const enabled = await configService.getConfig('payment', 'paypal_enabled', false)
+    // 确保 enabled 是布尔类型
+    const isEnabled = typeof enabled === 'string' ? enabled === 'true' : Boolean(enabled)
+    if (!isEnabled) {
+      console.warn('[PaypalGateway] PayPal payment gateway is disabled')
+      return null
+    }
+
+    this.config = {
+      enabled: isEnabled,
+      clientId: await configService.getConfig('payment', 'paypal_client_id', ''),
+      clientSecret: await configService.getConfig('payment', 'paypal_client_secret', '', { includeEncrypted: true }),
+      webhookId: await configService.getConfig('payment', 'paypal_webhook_id', ''),
+      apiBase: await configService.getConfig('payment', 'paypal_api_base', CONFIG.PAYMENT.PAYPAL.API_BASE),
+      timeout: Number(await configService.getConfig('payment', 'paypal_timeout', CONFIG.PAYMENT.PAYPAL.TIMEOUT)),
+    }
+
+    console.log('[PaypalGateway] Config loaded successfully')
+    return this.config
+  }
+
+  /**
+   * 验证配置
+   */
+  async validateConfig(): Promise<boolean> {
+    try {
+      const config = await this.loadConfig()
+
+      if (!config) {
+        return false
+      }
+
+      if (!config.clientId || !config.clientSecret || !config.webhookId) {
+        console.warn('[PaypalGateway] Missing required PayPal configuration')
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.warn('[PaypalGateway] Config validation failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * 创建支付（PayPal 订单）
+   */
+  async createPayment(params: CreatePaymentParams): Promise<PaymentLink> {
+    const config = await this.loadConfig()
+    if (!config) {
+      throw new Error('PayPal payment gateway is disabled')
+    }
+
+    const returnUrl = params.returnUrl || `${CONFIG.API.FRONTEND_URL}/payment/${params.orderId}`
+
+    try {
+      const token = await getPaypalAccessToken(config)
+      const { ok, status, data } = await fetchJson(`${config.apiBase}/v2/checkout/orders`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          intent: 'CAPTURE',
+          purchase_units: [{
+            reference_id: params.orderId,
+            custom_id: params.orderId,
+            invoice_id: params.orderId,
+            description: params.productName.slice(0, 127),
+            amount: {
+              currency_code: params.currency,
+              value: toPaypalAmount(params.amount, params.currency)
+            }
+          }],
+          payment_source: {
+            paypal: {
+              experience_context: {
+                user_action: 'PAY_NOW',
+                shipping_preference: 'NO_SHIPPING',
+                return_url: returnUrl,
+                cancel_url: returnUrl
+              }
+            }
+          }
+        })
+      }, config.timeout)
+
+      if (!ok) {
+        throw new Error(`PayPal API error ${status}: ${data.message || data.name || 'Unknown error'}`)
+      }
+
+      const approveLink = (data.links || []).find((link: any) => link.rel === 'payer-action' || link.rel === 'approve')
+      if (!data.id || !approveLink) {
+        throw new Error('PayPal API returned an invalid order')
+      }
+
+      await auditService.logAuditEvent({
+        action: 'payment_created',
+        resourceType: 'payment',
+        resourceId: params.orderId,
+        success: true,
+        userEmail: params.customerEmail,
+        metadata: {
+          gateway: 'paypal',
+          gatewayOrderId: data.id,
+          amount: params.amount,
+          currency: params.currency
+        }
+      })
+
+      return {
+        paymentUrl: approveLink.href,
+        gatewayOrderId: data.id
+      }
+
+    } catch (error) {
+      await auditService.logAuditEvent({
+        action: 'payment_creation_failed',
+        resourceType: 'payment',
+        resourceId: params.orderId,
+        success: false,
+        userEmail: params.customerEmail,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      })
+
+      throw error
+    }
+  }
+
+  /**
+   * 扣款（买家授权后调用）
+   * 重复扣款返回 ORDER_ALREADY_CAPTURED，视为成功
+   */
+  async captureOrder(paypalOrderId: string): Promise<{ captured: boolean; status?: string }> {
+    const config = await this.loadConfig()
+    if (!config) {
+      throw new Error('PayPal payment gateway is disabled')
+    }
+
+    const token = await getPaypalAccessToken(config)
+    const { ok, status, data } = await fetchJson(`${config.apiBase}/v2/checkout/orders/${encodeURIComponent(paypalOrderId)}/capture`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        'PayPal-Request-Id': `capture-${paypalOrderId}`
+      }
+    }, config.timeout)
+
+    if (ok) {
+      return { captured: true, status: data.status }
+    }
+
+    if (status === 422 && data.details?.some((detail: any) => detail.issue === 'ORDER_ALREADY_CAPTURED')) {
+      return { captured: true, status: 'COMPLETED' }
+    }
+
+    throw new Error(`PayPal capture error ${status}: ${data.message || data.name || 'Unknown error'}`)
+  }
+
+  /**
+   * 验证Webhook签名
+   * payload 必须是原始请求体字符串
+   */
+  async verifyWebhook(payload: any, headers: any): Promise<SignatureVerification> {
+    try {
+      const config = await this.loadConfig()
+      if (!config) {
+        return { isValid: false, error: 'PayPal payment gateway is disabled' }
+      }
+
+      const rawBody = typeof payload === 'string' ? payload : JSON.stringify(payload)
+      return await verifyPaypalWebhookSignature(config, rawBody, headers)
+
+    } catch (error) {
+      console.error('PayPal webhook verification error:', error)
+      return { isValid: false, error: 'Webhook verification failed' }
+    }
+  }
+
+  /**
+   * 解析支付回调
+   */
+  parseCallback(payload: any): PaymentCallback {
+    const event = typeof payload === 'string' ? JSON.parse(payload) : payload
+    const data = extractPaypalEventData(event)
+
+    return {
+      orderId: data.orderId,
+      gatewayOrderId: data.gatewayOrderId,
+      transactionId: data.transactionId,
+      status: mapPaypalEventStatus(event) || 'pending',
+      amount: data.amount || 0,
+      currency: (data.currency || 'USD') as CurrencyType,
+      rawData: event
+    }
+  }
+}
+
+// ==============================================
+// 微信支付网关实现
+// ==============================================
+
+/**
+ * 微信支付配置（APIv3）
+ */
+export interface WechatPayConfig extends GatewayConfig {
+  appId: string
+  mchId: string
+  serialNo: string
+  privateKey: string
+  apiV3Key: string
+  platformPublicKey: string
+  apiBase: string
+}
+
+// Native 支付二维码有效期
+const WECHAT_QRCODE_TTL_MS = 2 * 60 * 60 * 1000
+
+// 回调时间戳容差（秒）
+const WECHAT_WEBHOOK_TOLERANCE_SECONDS = 5 * 60
+
+/**
+ * 还原环境变量中转义的 PEM 换行
+ */
+function normalizePemKey(key: string): string {
+  return (key || '').replace(/\\n/g, '\n').trim()
+}
+
+/**
+ * 生成微信支付 APIv3 请求签名头
+ * 签名串：HTTP方法\nURL路径\n时间戳\n随机串\n请求体\n
+ */
+export function buildWechatPayAuthorization(
+  config: Pick<WechatPayConfig, 'mchId' | 'serialNo' | 'privateKey'>,
+  method: string,
+  urlPath: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+  nonce = crypto.randomBytes(16).toString('hex')
+): string {
+  const message = `${method}\n${urlPath}\n${timestamp}\n${nonce}\n${body}\n`
+  const signature = crypto
+    .createSign('RSA-SHA256')
+    .update(message, 'utf8')
+    .sign(normalizePemKey(config.privateKey), 'base64')
+
+  return `WECHATPAY2-SHA256-RSA2048 mchid="${config.mchId}",nonce_str="${nonce}",signature="${signature}",timestamp="${timestamp}",serial_no="${config.serialNo}"`
+}
+
+/**
+ * 验证微信支付回调签名
+ * 验签串：时间戳\n随机串\n请求体\n，使用微信支付平台公钥验证
+ */
+export function verifyWechatPaySignature(
+  rawBody: string,
+  headers: Record<string, string>,
+  platformPublicKey: string,
+  toleranceSeconds = WECHAT_WEBHOOK_TOLERANCE_SECONDS
+): SignatureVerification & { timestamp?: number } {
+  if (!platformPublicKey) {
+    return { isValid: false, error: 'WeChat Pay platform public key not configured' }
+  }
+
+  const timestamp = parseInt(headers['wechatpay-timestamp'], 10)
+  const nonce = headers['wechatpay-nonce']
+  const signature = headers['wechatpay-signature']
+
+  if (!timestamp || isNaN(timestamp) || !nonce || !signature) {
+    return { isValid: false, error: 'Missing WeChat Pay signature headers' }
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return { isValid: false, error: 'WeChat Pay timestamp outside tolerance', timestamp }
+  }
+
+  const isValid = crypto
+    .createVerify('RSA-SHA256')
+    .update(`${timestamp}\n${nonce}\n${rawBody}\n`, 'utf8')
+    .verify(normalizePemKey(platformPublicKey), signature, 'base64')
+
+  return isValid
+    ? { isValid: true, timestamp }
+    : { isValid: false, error: 'WeChat Pay signature mismatch', timestamp }
+}
+
+/**
+ * 解密微信支付回调资源（AEAD_AES_256_GCM）
+ */
+export function decryptWechatPayResource(
+  resource: { ciphertext: string; nonce: string; associated_data?: string },
+  apiV3Key: string
+): any {
+  const data = Buffer.from(resource.ciphertext, 'base64')
+  // 密文末尾16字节为认证标签
+  const authTag = data.subarray(data.length - 16)
+  const encrypted = data.subarray(0, data.length - 16)
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', Buffer.from(apiV3Key, 'utf8'), Buffer.from(resource.nonce, 'utf8'))
+  decipher.setAuthTag(authTag)
+  if (resource.associated_data) {
+    decipher.setAAD(Buffer.from(resource.associated_data, 'utf8'))
+  }
+
+  const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+  return JSON.parse(decrypted)
+}
+
+/**
+ * 映射微信支付交易状态
+ * 未支付或支付中的状态返回 null
+ */
+export function mapWechatTradeState(tradeState: string): PaymentStatus | null {
+  switch (tradeState) {
+    case 'SUCCESS':
+      return 'paid'
+    case 'PAYERROR':
+      return 'failed'
+    case 'CLOSED':
+    case 'REVOKED':
+      return 'cancelled'
+    default:
+      return null
+  }
+}
+
+/**
+ * 微信支付网关（Native扫码支付）
+ */
+export class WechatPayGateway implements IPaymentGateway {
+  name = 'wechat'
+  private config: WechatPayConfig | null = null
+
+  /**
+   * 加载微信支付配置
+   */
+  private async loadConfig(): Promise<WechatPayConfig | null> {
+    if (this.config) {
+      return this.config
+    }
+
+    const enabled = await configService.getConfig('payment', 'wechat_enabled', false)
+    // 确保 enabled 是布尔类型
+    const isEnabled = typeof enabled === 'string' ? enabled === 'true' : Boolean(enabled)
+    if (!isEnabled) {
+      console.warn('[WechatPayGateway] WeChat Pay gateway is disabled')
+      return null
+    }
+
+    this.config = {
+      enabled: isEnabled,
+      appId: await configService.getConfig('payment', 'wechat_app_id', ''),
+      mchId: await configService.getConfig('payment', 'wechat_mch_id', ''),
+      serialNo: await configService.getConfig('payment', 'wechat_serial_no', ''),
+      privateKey: await configService.getConfig('payment', 'wechat_private_key', '', { includeEncrypted: true }),
+      apiV3Key: await configService.getConfig('payment', 'wechat_api_v3_key', '', { includeEncrypted: true }),
+      platformPublicKey: await configService.getConfig('payment', 'wechat_platform_public_key', ''),
+      apiBase: await configService.getConfig('payment', 'wechat_api_base', CONFIG.PAYMENT.WECHAT.API_BASE),
+      timeout: Number(await configService.getConfig('payment', 'wechat_timeout', CONFIG.PAYMENT.WECHAT.TIMEOUT)),
+    }
+
+    console.log('[WechatPayGateway] Config loaded successfully')
+    return this.config
+  }
+
+  /**
+   * 验证配置
+   */
+  async validateConfig(): Promise<boolean> {
+    try {
+      const config = await this.loadConfig()
+
+      if (!config) {
+        return false
+      }
+
+      if (!config.appId || !config.mchId || !config.serialNo || !config.privateKey ||
+          !config.apiV3Key || !config.platformPublicKey) {
+        console.warn('[WechatPayGateway] Missing required WeChat Pay configuration')
+        return false
+      }
+
+      // APIv3 密钥固定为32字节
+      if (Buffer.byteLength(config.apiV3Key, 'utf8') !== 32) {
+        console.warn('[WechatPayGateway] APIv3 key must be 32 bytes')
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.warn('[WechatPayGateway] Config validation failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * 创建支付（Native下单，返回二维码链接）
+   */
+  async createPayment(params: CreatePaymentParams): Promise<PaymentLink> {
+    const config = await this.loadConfig()
+    if (!config) {
+      throw new Error('WeChat Pay gateway is disabled')
+    }
+
+    if (params.currency !== 'CNY') {
+      throw new Error('WeChat Pay only supports CNY')
+    }
+
+    const urlPath = '/v3/pay/transactions/native'
+    const expiresAt = new Date(Date.now() + WECHAT_QRCODE_TTL_MS)
+    const body = JSON.stringify({
+      appid: config.appId,
+      mchid: config.mchId,
+      // 商品描述最长127字节（中文按3字节计）
+      description: params.productName.slice(0, 40),
+      out_trade_no: params.orderId,
+      time_expire: expiresAt.toISOString().replace(/\.\d{3}Z$/, '+00:00'),
+      notify_url: params.notifyUrl || CONFIG.PAYMENT.WECHAT.WEBHOOK_URL,
+      amount: {
+        total: Math.round(params.amount * 100),
+        currency: 'CNY'
+      }
+    })
+
+    try {
+      const { ok, status, data } = await fetchJson(`${config.apiBase}${urlPath}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': buildWechatPayAuthorization(config, 'POST', urlPath, body),
+          'Accept': 'application/json',
+          'Content-Type': 'application/json'
+        },
+        body
+      }, config.timeout)
+
+      if (!ok) {
+        throw new Error(`WeChat Pay API error ${status}: ${data.message || data.code || 'Unknown error'}`)
+      }
+
+      if (!data.code_url) {
+        throw new Error('WeChat Pay API returned no code_url')
+      }
+
+      await auditService.logAuditEvent({
+        action: 'payment_created',
+        resourceType: 'payment',
+        resourceId: params.orderId,
+        success: true,
+        userEmail: params.customerEmail,
+        metadata: {
+          gateway: 'wechat',
+          gatewayOrderId: params.orderId,
+          amount: params.amount,
+          currency: params.currency
+        }
+      })
+
+      // Native 下单不返回微信订单号，以商户订单号关联回调
+      return {
+        paymentUrl: data.code_url,
+        gatewayOrderId: params.orderId,
+        expiresAt: expiresAt.toISOString()
+      }
+
+    } catch (error) {
+      await auditService.logAuditEvent({
+        action: 'payment_creation_failed',
+        resourceType: 'payment',
+        resourceId: params.orderId,
+        success: false,
+        userEmail: params.customerEmail,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      })
+
+      throw error
+    }
+  }
+
+  /**
+   * 验证Webhook签名
+   * payload 必须是原始请求体字符串
+   */
+  async verifyWebhook(payload: any, headers: any): Promise<SignatureVerification> {
+    try {
+      const config = await this.loadConfig()
+      if (!config) {
+        return { isValid: false, error: 'WeChat Pay gateway is disabled' }
+      }
+
+      const rawBody = typeof payload === 'string' ? payload : JSON.stringify(payload)
+      const result = verifyWechatPaySignature(rawBody, headers, config.platformPublicKey)
+
+      return { isValid: result.isValid, error: result.error }
+
+    } catch (error) {
+      console.error('WeChat Pay webhook verification error:', error)
+      return { isValid: false, error: 'Webhook verification failed' }
+    }
+  }
+
+  /**
+   * 解析支付回调
+   * payload 为解密后的交易对象
+   */
+  parseCallback(payload: any): PaymentCallback {
+    const transaction = typeof payload === 'string' ? JSON.parse(payload) : payload
+
+    return {
+      orderId: transaction.out_trade_no,
+      gatewayOrderId: transaction.out_trade_no,
+      transactionId: transaction.transaction_id,
+      status: mapWechatTradeState(transaction.trade_state) || 'pending',
+      amount: Number(transaction.amount?.total || 0) / 100,
+      currency: (transaction.amount?.currency || 'CNY') as CurrencyType,
+      rawData: transaction
+    }
+  }
+}
+
+// ==============================================
+// 支付网关管理器
+// ==============================================
+
+/**
+ * 支付网关管理器
+ */
+export class PaymentGatewayManager {
+  private gateways = new Map<string, IPaymentGateway>()
+  private initialized = false
+
+  /**
+   * 注册网关
+   */
+  registerGateway(gateway: IPaymentGateway): void {
+    this.gateways.set(gateway.name, gateway)
+  }
+
+  /**
+   * 初始化所有网关
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    // 按注册表中的网关插件创建实例
+    for (const plugin of gatewayRegistry.list()) {
+      this.registerGateway(plugin.create())
+    }
+
+    // 验证所有已启用的网关配置
+    await Promise.all(
+      Array.from(this.gateways.entries()).map(async ([name, gateway]) => {
+        try {
+          const isValid = await gateway.validateConfig()
+          if (!isValid) {
+            console.warn(`Gateway ${name} configuration is invalid, skipping`)
+          }
+        } catch (error) {
+          console.error(`Failed to validate ${name} gateway:`, error)
+        }
+      })
+    )
+
+    this.initialized = true
+  }
+
+  /**
+   * 重新创建网关实例（配置变更后丢弃已缓存的配置）
+   */
+  reloadGateway(name: string): void {
+    const plugin = gatewayRegistry.get(name)
+    if (!plugin) {
+      throw new Error(`Gateway ${name} not found`)
+    }
+
+    this.registerGateway(plugin.create())
+  }
+
+  /**
+   * 获取网关
+   */
+  getGateway(name: string): IPaymentGateway | undefined {
+    return this.gateways.get(name)
+  }
+
+  /**
+   * 获取所有启用的网关
+   */
+  async getEnabledGateways(): Promise<IPaymentGateway[]> {
+    if (!this.initialized) {
+      await this.initialize()
+    }
+
+    const results: IPaymentGateway[] = []
+
+    for (const [name, gateway] of this.gateways) {
+      const startTime = Date.now()
+      try {
+        const isValid = await gateway.validateConfig()
+        const duration = Date.now() - startTime
+
+        if (isValid) {
+          console.log(`[PaymentGatewayManager] Gateway ${name} validated successfully (${duration}ms)`)
+          results.push(gateway)
+        } else {
+          console.log(`[PaymentGatewayManager] Gateway ${name} disabled or misconfigured (${duration}ms)`)
+        }
+      } catch (error) {
+        const duration = Date.now() - startTime
+        console.warn(`[PaymentGatewayManager] Gateway ${name} validation failed (${duration}ms):`, error)
+      }
+    }
+
+    console.log(`[PaymentGatewayManager] Available gateways: [${results.map(g => g.name).join(', ')}]`)
+    return results
+  }
+
+  /**
+   * 创建支付
+   */
+  async createPayment(
+    gatewayName: string,
+    params: CreatePaymentParams
+  ): Promise<PaymentLink> {
+    const gateway = this.getGateway(gatewayName)
+    if (!gateway) {
+      throw new Error(`Gateway ${gatewayName} not found`)
+    }
+
+    return await gateway.createPayment(params)
+  }
+
+  /**
+   * 发起退款
+   */
+  async refund(
+    gatewayName: string,
+    orderId: string,
+    amount: number,
+    reason: string,
+    request: RefundRequest
+  ): Promise<RefundResult> {
+    const gateway = this.getGateway(gatewayName)
+    if (!gateway) {
+      throw new Error(`Gateway ${gatewayName} not found`)
+    }
+    if (!gateway.refund) {
+      throw new Error(`Gateway ${gatewayName} does not support refunds`)
+    }
+
+    return await gateway.refund(orderId, amount, reason, request)
+  }
+
+  /**
+   * 主动查询支付状态
+   */
+  async queryPayment(gatewayName: string, orderId: string, gatewayOrderId?: string): Promise<PaymentQueryResult> {
+    const gateway = this.getGateway(gatewayName)
+    if (!gateway) {
+      throw new Error(`Gateway ${gatewayName} not found`)
+    }
+    if (!gateway.queryPayment) {
+      throw new Error(`Gateway ${gatewayName} does not support payment queries`)
+    }
+
+    return await gateway.queryPayment(orderId, gatewayOrderId)
   }
 
   /**
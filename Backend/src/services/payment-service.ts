@@ -2,8 +2,10 @@ import { db, schema } from '../db'
 import { and, eq } from 'drizzle-orm'
 import { configService } from './config-service'
 import { auditService } from './audit-service'
+import { couponService } from './coupon-service'
 import { paymentGatewayManager, type CreatePaymentParams, type PaymentLink, type PaymentCallback } from './payment-gateway-service'
-import { OrderStatus, Gateway, type OrderStatusType, type GatewayType, type CurrencyType, type Order, type GatewayInfo } from '../types/orders'
+import { gatewayRegistry } from './gateways'
+import { OrderStatus, Gateway, type OrderStatusType, type GatewayType, type Order, type GatewayInfo } from '../types/orders'
 
 /**
  * 支付服务
@@ -60,7 +62,7 @@ export class PaymentService {
       const gatewayName = options.gateway || order.gateway
 
       // 4. 创建支付
-      const productName = await this.getProductName(order.productId)
+      const productName = await this.getProductName(order)
 
       const paymentParams: CreatePaymentParams = {
         orderId,
@@ -284,26 +286,18 @@ export class PaymentService {
 
     const enabledGateways = await paymentGatewayManager.getEnabledGateways()
 
-    // 建立货币-网关映射关系
-    const currencyGatewayMap: Record<GatewayType, CurrencyType> = {
-      alipay: 'CNY',
-      creem: 'USD'
-    }
-
-    // 转换为详细信息格式
-    const gatewayInfoList: GatewayInfo[] = enabledGateways.map(gateway => {
-      const gatewayName = gateway.name as GatewayType
-      const recommendedCurrency = currencyGatewayMap[gatewayName]
-
-      return {
-        id: gatewayName,
-        name: gatewayName,
-        displayName: gatewayName === 'alipay' ? '支付宝' : 'Creem',
-        supportedCurrencies: [recommendedCurrency],
-        recommendedCurrency,
+    // 网关名称和支持的货币由注册表中的网关插件声明
+    const gatewayInfoList: GatewayInfo[] = enabledGateways
+      .map(gateway => gatewayRegistry.get(gateway.name))
+      .filter(plugin => plugin !== undefined)
+      .map(plugin => ({
+        id: plugin.id,
+        name: plugin.id,
+        displayName: plugin.displayName,
+        supportedCurrencies: plugin.supportedCurrencies,
+        recommendedCurrency: plugin.recommendedCurrency,
         isEnabled: true
-      }
-    })
+      }))
 
     // 记录日志
     console.log(`[PaymentService] 返回 ${gatewayInfoList.length} 个可用支付网关:`, gatewayInfoList.map(g => g.id).join(', '))
@@ -360,13 +354,30 @@ export class PaymentService {
   }
 
   /**
-   * 获取商品名称
+   * 获取订单的商品名称（多商品订单显示为“xx 等 N 件商品”）
    */
-  private async getProductName(productId: number): Promise<string> {
+  private async getProductName(order: { id: string; productId: number }): Promise<string> {
+    const items = await db
+      .select({
+        productName: schema.orderItems.productName,
+        variantName: schema.orderItems.variantName,
+        quantity: schema.orderItems.quantity,
+      })
+      .from(schema.orderItems)
+      .where(eq(schema.orderItems.orderId, order.id))
+
+    if (items.length > 1) {
+      const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0)
+      return `${items[0].productName} 等 ${totalQuantity} 件商品`
+    }
+    if (items[0]?.variantName) {
+      return `${items[0].productName}（${items[0].variantName}）`
+    }
+
     const result = await db
       .select({ name: schema.products.name })
       .from(schema.products)
-      .where(eq(schema.products.id, productId))
+      .where(eq(schema.products.id, order.productId))
       .limit(1)
 
     return result[0]?.name || '数字商品'
@@ -454,6 +465,9 @@ export class PaymentService {
       .update(schema.orders)
       .set(updateData)
       .where(eq(schema.orders.id, orderId))
+
+    // 支付失败或取消的订单释放优惠码使用次数
+    await couponService.releaseForOrderStatus(orderId, status)
   }
 
   /**
@@ -0,0 +1,370 @@
+import { db, schema, withTransaction } from '../db'
+import { and, asc, desc, eq, isNotNull, isNull, lte } from 'drizzle-orm'
+import { Currency, type ProductPrice } from '../db/schema'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+import type { PriceEntry } from './exchange-rate-service'
+
+/**
+ * 计划价格状态
+ * - scheduled: 未到生效时间
+ * - active: 促销进行中
+ * - ended: 促销已结束（或被取消）
+ * - applied: 永久改价已写入常规价格
+ */
+export type PriceScheduleStatus = 'scheduled' | 'active' | 'ended' | 'applied'
+
+/**
+ * 计划价格（附带状态）
+ */
+export interface PriceScheduleEntry extends ProductPrice {
+  status: PriceScheduleStatus
+}
+
+/**
+ * 创建计划价格的参数
+ * 设置 endsAt 为限时促销，到期后恢复常规价格；不设置 endsAt 为永久改价
+ */
+export interface SchedulePriceInput {
+  variantId?: number | null // 规格的计划价格
+  currency: string
+  price: number
+  compareAtPrice?: number | null
+  startsAt: string
+  endsAt?: string | null
+}
+
+/**
+ * 调度器单次执行的结果
+ */
+export interface PriceScheduleRunResult {
+  activated: number
+  applied: number
+  expired: number
+}
+
+/**
+ * 从有效价格记录中为每种货币选出当前售价
+ * 生效中的促销价覆盖常规价格（多个促销重叠时以开始时间最晚的为准），划线原价仅在高于售价时返回
+ */
+export function selectEffectivePrices(rows: ProductPrice[], now: Date = new Date()): PriceEntry[] {
+  const nowIso = now.toISOString()
+  const regular = new Map<string, ProductPrice>()
+  const sales = new Map<string, ProductPrice>()
+
+  for (const row of rows) {
+    if (!row.startsAt) {
+      regular.set(row.currency, row)
+      continue
+    }
+
+    // 调度器每分钟执行一次，读取时按时间窗口再过滤，避免促销到期后仍短暂生效
+    const inWindow = row.startsAt <= nowIso && (!row.endsAt || row.endsAt > nowIso)
+    const current = sales.get(row.currency)
+    if (inWindow && (!current || row.startsAt > current.startsAt!)) {
+      sales.set(row.currency, row)
+    }
+  }
+
+  const currencies = [...new Set([...regular.keys(), ...sales.keys()])]
+  return currencies.map(currency => {
+    const sale = sales.get(currency)
+    const base = regular.get(currency)
+    const price = sale ? sale.price : base!.price
+    const compareAtPrice = sale ? (sale.compareAtPrice ?? base?.price) : base!.compareAtPrice
+
+    return {
+      currency,
+      price,
+      isActive: true,
+      ...(compareAtPrice && compareAtPrice > price ? { compareAtPrice } : {}),
+      ...(sale?.endsAt ? { saleEndsAt: sale.endsAt } : {}),
+    }
+  })
+}
+
+/**
+ * 计划价格的状态
+ */
+export function getScheduleStatus(row: ProductPrice): PriceScheduleStatus {
+  if (!row.appliedAt) {
+    return 'scheduled'
+  }
+  if (!row.endsAt) {
+    return 'applied'
+  }
+  return row.isActive ? 'active' : 'ended'
+}
+
+/**
+ * 计划价格服务
+ * 计划价格与常规价格同存于 product_prices（starts_at 不为空），由维护调度器按时激活、到期和写入常规价格
+ */
+export class PriceScheduleService {
+  /**
+   * 获取商品（或规格）当前生效的价格（含促销价和划线原价）
+   */
+  async getEffectivePrices(productId: number, variantId: number | null = null, now: Date = new Date()): Promise<PriceEntry[]> {
+    const rows = await db.select()
+      .from(schema.productPrices)
+      .where(and(
+        eq(schema.productPrices.productId, productId),
+        this.variantCondition(variantId),
+        eq(schema.productPrices.isActive, true)
+      ))
+      .orderBy(asc(schema.productPrices.currency))
+
+    return selectEffectivePrices(rows, now)
+  }
+
+  /**
+   * 获取商品（或规格）在指定货币下当前生效的价格，没有价格时返回 null
+   */
+  async getEffectivePrice(
+    productId: number,
+    currency: string,
+    variantId: number | null = null,
+    now: Date = new Date()
+  ): Promise<PriceEntry | null> {
+    const rows = await db.select()
+      .from(schema.productPrices)
+      .where(and(
+        eq(schema.productPrices.productId, productId),
+        this.variantCondition(variantId),
+        eq(schema.productPrices.currency, currency),
+        eq(schema.productPrices.isActive, true)
+      ))
+
+    return selectEffectivePrices(rows, now)[0] || null
+  }
+
+  /**
+   * 获取商品的价格变更记录（即将生效和历史的计划价格，按生效时间倒序）
+   */
+  async listSchedule(productId: number): Promise<PriceScheduleEntry[]> {
+    const rows = await db.select()
+      .from(schema.productPrices)
+      .where(and(
+        eq(schema.productPrices.productId, productId),
+        isNotNull(schema.productPrices.startsAt)
+      ))
+      .orderBy(desc(schema.productPrices.startsAt), desc(schema.productPrices.id))
+
+    return rows.map(row => ({ ...row, status: getScheduleStatus(row) }))
+  }
+
+  /**
+   * 创建计划价格
+   */
+  async schedulePrice(productId: number, input: SchedulePriceInput, now: Date = new Date()): Promise<PriceScheduleEntry> {
+    if (!(Object.values(Currency) as string[]).includes(input.currency)) {
+      throw new BusinessLogicError(`不支持的货币: ${input.currency}`, 'PRICE_SCHEDULE_INVALID')
+    }
+    if (!(input.price > 0)) {
+      throw new BusinessLogicError('价格必须大于 0', 'PRICE_SCHEDULE_INVALID')
+    }
+    if (input.compareAtPrice != null && !(input.compareAtPrice > input.price)) {
+      throw new BusinessLogicError('划线原价必须高于售价', 'PRICE_SCHEDULE_INVALID')
+    }
+
+    const startsAt = this.toIso(input.startsAt, '开始时间')
+    const endsAt = input.endsAt ? this.toIso(input.endsAt, '结束时间') : null
+    if (endsAt && endsAt <= startsAt) {
+      throw new BusinessLogicError('结束时间必须晚于开始时间', 'PRICE_SCHEDULE_INVALID')
+    }
+    if (endsAt && endsAt <= now.toISOString()) {
+      throw new BusinessLogicError('促销结束时间已过', 'PRICE_SCHEDULE_INVALID')
+    }
+
+    const [product] = await db.select({ id: schema.products.id })
+      .from(schema.products)
+      .where(eq(schema.products.id, productId))
+      .limit(1)
+    if (!product) {
+      throw new NotFoundError('Product', productId)
+    }
+
+    const variantId = input.variantId ?? null
+    if (variantId !== null) {
+      const [variant] = await db.select({ id: schema.productVariants.id })
+        .from(schema.productVariants)
+        .where(and(eq(schema.productVariants.id, variantId), eq(schema.productVariants.productId, productId)))
+        .limit(1)
+      if (!variant) {
+        throw new NotFoundError('ProductVariant', variantId)
+      }
+    }
+
+    // 同一规格同一货币的促销时间段不能重叠
+    if (endsAt) {
+      const existing = await this.listSchedule(productId)
+      const overlapping = existing.find(row =>
+        (row.variantId ?? null) === variantId &&
+        row.currency === input.currency &&
+        row.endsAt &&
+        row.status !== 'ended' &&
+        row.startsAt! < endsAt &&
+        row.endsAt > startsAt
+      )
+      if (overlapping) {
+        throw new BusinessLogicError('该货币在此时间段已有促销', 'PRICE_SCHEDULE_OVERLAP', { scheduleId: overlapping.id })
+      }
+    }
+
+    const [created] = await db.insert(schema.productPrices)
+      .values({
+        productId,
+        variantId,
+        currency: input.currency,
+        price: input.price,
+        compareAtPrice: input.compareAtPrice ?? null,
+        isActive: false, // 由调度器到点激活
+        startsAt,
+        endsAt,
+      })
+      .returning()
+
+    return { ...created, status: getScheduleStatus(created) }
+  }
+
+  /**
+   * 取消计划价格：未生效的直接删除，进行中的促销立即结束
+   */
+  async cancelSchedule(productId: number, scheduleId: number, now: Date = new Date()): Promise<PriceScheduleEntry | null> {
+    const [row] = await db.select()
+      .from(schema.productPrices)
+      .where(and(
+        eq(schema.productPrices.id, scheduleId),
+        eq(schema.productPrices.productId, productId),
+        isNotNull(schema.productPrices.startsAt)
+      ))
+      .limit(1)
+
+    if (!row) {
+      throw new NotFoundError('PriceSchedule', scheduleId)
+    }
+
+    const status = getScheduleStatus(row)
+    if (status === 'scheduled') {
+      await db.delete(schema.productPrices).where(eq(schema.productPrices.id, scheduleId))
+      return null
+    }
+    if (status !== 'active') {
+      throw new BusinessLogicError('已结束或已生效的价格变更不能取消', 'PRICE_SCHEDULE_FINISHED')
+    }
+
+    const [ended] = await db.update(schema.productPrices)
+      .set({ isActive: false, endsAt: now.toISOString(), updatedAt: now.toISOString() })
+      .where(eq(schema.productPrices.id, scheduleId))
+      .returning()
+
+    return { ...ended, status: getScheduleStatus(ended) }
+  }
+
+  /**
+   * 应用到期的计划价格（由维护调度器定时调用）
+   * - 促销到开始时间后激活，到结束时间后失效
+   * - 永久改价到开始时间后写入常规价格
+   */
+  async applyScheduledPrices(now: Date = new Date()): Promise<PriceScheduleRunResult> {
+    const nowIso = now.toISOString()
+    const result: PriceScheduleRunResult = { activated: 0, applied: 0, expired: 0 }
+
+    const due = await db.select()
+      .from(schema.productPrices)
+      .where(and(
+        isNotNull(schema.productPrices.startsAt),
+        isNull(schema.productPrices.appliedAt),
+        lte(schema.productPrices.startsAt, nowIso)
+      ))
+      .orderBy(asc(schema.productPrices.startsAt))
+
+    for (const row of due) {
+      if (row.endsAt) {
+        // 调度器停机期间已整段结束的促销直接标记为结束
+        const active = row.endsAt > nowIso
+        await db.update(schema.productPrices)
+          .set({ isActive: active, appliedAt: nowIso, updatedAt: nowIso })
+          .where(eq(schema.productPrices.id, row.id))
+        if (active) {
+          result.activated++
+        } else {
+          result.expired++
+        }
+        continue
+      }
+
+      await this.applyPermanentChange(row, nowIso)
+      result.applied++
+    }
+
+    const expired = await db.update(schema.productPrices)
+      .set({ isActive: false, updatedAt: nowIso })
+      .where(and(
+        isNotNull(schema.productPrices.startsAt),
+        eq(schema.productPrices.isActive, true),
+        lte(schema.productPrices.endsAt, nowIso)
+      ))
+      .returning({ id: schema.productPrices.id })
+    result.expired += expired.length
+
+    if (result.activated || result.applied || result.expired) {
+      console.log(`💲 Price schedule: ${result.activated} activated, ${result.applied} applied, ${result.expired} expired`)
+    }
+
+    return result
+  }
+
+  /**
+   * 将永久改价写入常规价格（该货币没有常规价格时新建）
+   */
+  private async applyPermanentChange(row: ProductPrice, nowIso: string): Promise<void> {
+    await withTransaction(async (tx) => {
+      const [regular] = await tx.select()
+        .from(schema.productPrices)
+        .where(and(
+          eq(schema.productPrices.productId, row.productId),
+          this.variantCondition(row.variantId ?? null),
+          eq(schema.productPrices.currency, row.currency),
+          isNull(schema.productPrices.startsAt)
+        ))
+        .limit(1)
+
+      if (regular) {
+        await tx.update(schema.productPrices)
+          .set({ price: row.price, compareAtPrice: row.compareAtPrice, updatedAt: nowIso })
+          .where(eq(schema.productPrices.id, regular.id))
+      } else {
+        await tx.insert(schema.productPrices).values({
+          productId: row.productId,
+          variantId: row.variantId,
+          currency: row.currency,
+          price: row.price,
+          compareAtPrice: row.compareAtPrice,
+          isActive: true,
+        })
+      }
+
+      await tx.update(schema.productPrices)
+        .set({ appliedAt: nowIso, updatedAt: nowIso })
+        .where(eq(schema.productPrices.id, row.id))
+    })
+  }
+
+  private variantCondition(variantId: number | null) {
+    return variantId === null
+      ? isNull(schema.productPrices.variantId)
+      : eq(schema.productPrices.variantId, variantId)
+  }
+
+  private toIso(value: string, label: string): string {
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      throw new BusinessLogicError(`${label}格式无效`, 'PRICE_SCHEDULE_INVALID')
+    }
+    return date.toISOString()
+  }
+}
+
+export const priceScheduleService = new PriceScheduleService()
+
+export default priceScheduleService
@@ -0,0 +1,314 @@
+import jwt from 'jsonwebtoken'
+import { db, schema } from '../db'
+import { eq } from 'drizzle-orm'
+import { DeliveryType, KeySource } from '../db/schema'
+import { couponService, normalizeCouponCode, type AppliedCoupon } from './coupon-service'
+import { inventoryService } from './inventory-service'
+import { taxService, normalizeCountry } from './tax-service'
+import { exchangeRateService } from './exchange-rate-service'
+import { priceScheduleService } from './price-schedule-service'
+import { productVariantService } from './product-variant-service'
+import { securityService } from './security-service'
+import { BusinessLogicError } from './error-handler'
+
+// 报价有效期（分钟）
+const QUOTE_TTL_MINUTES = parseInt(process.env.CHECKOUT_QUOTE_TTL_MINUTES || '15', 10)
+
+/**
+ * 下单请求中的商品（只包含商品和数量，价格由服务端计算）
+ */
+export interface PricingItem {
+  productId: number
+  variantId?: number | null // 有规格的商品必须指定规格
+  quantity: number
+}
+
+/**
+ * 按服务端价格计算后的订单行
+ */
+export interface OrderLine {
+  productId: number
+  productName: string
+  variantId: number | null
+  variantName: string | null
+  quantity: number
+  unitPrice: number
+  taxRate: number
+  taxAmount: number
+}
+
+/**
+ * 报价请求
+ */
+export interface QuoteRequest {
+  items: PricingItem[]
+  currency: string
+  email?: string
+  couponCodes?: string[]
+  country?: string | null // 买家国家，用于计算税费
+}
+
+/**
+ * 订单计价结果
+ */
+export interface OrderPricing {
+  lines: OrderLine[]
+  currency: string
+  subtotal: number // 商品原价合计
+  discountAmount: number
+  netAmount: number // 扣除优惠后的税前金额
+  taxAmount: number
+  taxCountry: string | null
+  total: number // 应付金额（含税）
+  applied: AppliedCoupon[]
+}
+
+/**
+ * 签名报价（客户端下单时原样回传 quoteToken）
+ */
+export interface SignedQuote extends OrderPricing {
+  quoteToken: string
+  expiresAt: string
+}
+
+// 报价令牌中签名的内容
+interface QuotePayload {
+  currency: string
+  country: string | null
+  items: Array<{ productId: number; variantId?: number | null; quantity: number; unitPrice: number }>
+  couponCodes: string[]
+  total: number
+}
+
+/**
+ * 订单计价服务
+ * 订单金额完全由服务端根据 product_prices（或汇率推算价格）和优惠码计算，并以签名报价的形式下发给客户端
+ */
+export class PricingService {
+  private readonly QUOTE_SECRET = process.env.JWT_SECRET || securityService.generateSecureToken(64)
+
+  /**
+   * 按当前售价计算订单金额
+   * 商品不可购买或没有该货币的有效价格时抛出 BusinessLogicError
+   */
+  async priceOrder(request: QuoteRequest): Promise<OrderPricing> {
+    const resolved: Array<{ line: Omit<OrderLine, 'taxRate' | 'taxAmount'>; taxCategory: string }> = []
+    for (const item of request.items) {
+      resolved.push(await this.resolveLine(item, request.currency))
+    }
+
+    const pricing = await couponService.applyCoupons({
+      codes: request.couponCodes || [],
+      email: request.email || '',
+      currency: request.currency,
+      lines: resolved.map(({ line }) => line),
+    })
+
+    // 优惠金额按各行原价比例分摊后计税
+    const taxCountry = normalizeCountry(request.country)
+    const netAmounts = this.allocateDiscount(resolved.map(({ line }) => line), pricing.discountAmount)
+    const tax = await taxService.calculateTax(taxCountry, resolved.map(({ line, taxCategory }, index) => ({
+      productId: line.productId,
+      taxCategory,
+      netAmount: netAmounts[index],
+    })))
+
+    const lines = resolved.map(({ line }, index) => ({
+      ...line,
+      taxRate: tax.lines[index].taxRate,
+      taxAmount: tax.lines[index].taxAmount,
+    }))
+
+    return {
+      lines,
+      currency: request.currency,
+      subtotal: pricing.subtotal,
+      discountAmount: pricing.discountAmount,
+      netAmount: pricing.total,
+      taxAmount: tax.taxAmount,
+      taxCountry,
+      total: (Math.round(pricing.total * 100) + Math.round(tax.taxAmount * 100)) / 100,
+      applied: pricing.applied,
+    }
+  }
+
+  /**
+   * 生成签名报价
+   */
+  async createQuote(request: QuoteRequest): Promise<SignedQuote> {
+    const pricing = await this.priceOrder(request)
+    const expiresAt = new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000)
+
+    const payload: QuotePayload = {
+      currency: pricing.currency,
+      country: pricing.taxCountry,
+      items: pricing.lines.map(({ productId, variantId, quantity, unitPrice }) => ({ productId, variantId, quantity, unitPrice })),
+      couponCodes: pricing.applied.map(({ coupon }) => coupon.code),
+      total: pricing.total,
+    }
+
+    const quoteToken = jwt.sign({ data: payload }, this.QUOTE_SECRET, {
+      algorithm: 'HS256',
+      issuer: 'autoship',
+      audience: 'checkout_quote',
+      expiresIn: QUOTE_TTL_MINUTES * 60,
+    })
+
+    return { ...pricing, quoteToken, expiresAt: expiresAt.toISOString() }
+  }
+
+  /**
+   * 校验客户端回传的报价并重新计价
+   * 报价过期、被篡改、与下单内容不符或价格已变动时抛出 BusinessLogicError
+   */
+  async verifyQuote(quoteToken: string, request: QuoteRequest): Promise<OrderPricing> {
+    const quote = this.decodeQuote(quoteToken)
+
+    const requestedCodes = (request.couponCodes || []).map(normalizeCouponCode).sort()
+    if (
+      quote.currency !== request.currency ||
+      quote.country !== normalizeCountry(request.country) ||
+      this.itemsKey(quote.items) !== this.itemsKey(request.items) ||
+      [...quote.couponCodes].sort().join(',') !== requestedCodes.join(',')
+    ) {
+      throw new BusinessLogicError('订单内容与报价不一致，请重新确认订单', 'QUOTE_MISMATCH')
+    }
+
+    const pricing = await this.priceOrder(request)
+    const quotedPrices = new Map(quote.items.map(item => [this.lineKey(item), item.unitPrice]))
+    const priceChanged = pricing.lines.some(line => quotedPrices.get(this.lineKey(line)) !== line.unitPrice)
+
+    if (priceChanged || pricing.total !== quote.total) {
+      throw new BusinessLogicError('商品价格已变动，请确认新的订单金额后重新提交', 'QUOTE_STALE', {
+        quotedTotal: quote.total,
+        currentTotal: pricing.total,
+      })
+    }
+
+    return pricing
+  }
+
+  /**
+   * 验证报价令牌签名和有效期
+   */
+  private decodeQuote(quoteToken: string): QuotePayload {
+    try {
+      const decoded = jwt.verify(quoteToken, this.QUOTE_SECRET, {
+        algorithms: ['HS256'],
+        issuer: 'autoship',
+        audience: 'checkout_quote',
+      }) as { data: QuotePayload }
+      return decoded.data
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new BusinessLogicError('报价已过期，请重新确认订单金额', 'QUOTE_EXPIRED')
+      }
+      throw new BusinessLogicError('报价无效，请刷新页面重试', 'QUOTE_INVALID')
+    }
+  }
+
+  /**
+   * 校验商品是否可购买及数量限制，返回按当前售价计算的订单行
+   */
+  private async resolveLine(
+    item: PricingItem,
+    currency: string
+  ): Promise<{ line: Omit<OrderLine, 'taxRate' | 'taxAmount'>; taxCategory: string }> {
+    const [product] = await db.select()
+      .from(schema.products)
+      .where(eq(schema.products.id, item.productId))
+      .limit(1)
+
+    if (!product) {
+      throw new BusinessLogicError('商品不存在', 'PRODUCT_NOT_FOUND', { productId: item.productId })
+    }
+    if (!product.isActive) {
+      throw new BusinessLogicError(`商品「${product.name}」已下架`, 'PRODUCT_INACTIVE')
+    }
+
+    // 有启用规格的商品必须选择规格，价格和库存按规格计算
+    const variants = await productVariantService.listVariants(item.productId, true)
+    const variant = item.variantId ? variants.find(v => v.id === item.variantId) : undefined
+    if (variants.length > 0 && !item.variantId) {
+      throw new BusinessLogicError(`请选择商品「${product.name}」的规格`, 'VARIANT_REQUIRED')
+    }
+    if (item.variantId && !variant) {
+      throw new BusinessLogicError(`商品「${product.name}」的规格不存在或已停用`, 'VARIANT_NOT_FOUND', { variantId: item.variantId })
+    }
+    const displayName = variant ? `${product.name}（${variant.name}）` : product.name
+
+    if (item.quantity < product.minQuantity) {
+      throw new BusinessLogicError(`商品「${displayName}」最少购买${product.minQuantity}件`, 'QUANTITY_BELOW_MIN')
+    }
+    if (product.maxQuantity && item.quantity > product.maxQuantity) {
+      throw new BusinessLogicError(`商品「${displayName}」最多购买${product.maxQuantity}件`, 'QUANTITY_ABOVE_MAX')
+    }
+
+    // 只从预置库存发放卡密的商品需要足够的可用库存；自动生成卡密（或库存不足时自动生成）的商品不受库存限制
+    const issuesKeys = product.deliveryType === DeliveryType.TEXT || product.deliveryType === DeliveryType.HYBRID
+    if (issuesKeys && (product.keySource || KeySource.POOL) === KeySource.POOL) {
+      const inventoryStats = await inventoryService.getInventoryStats(item.productId, variant?.id)
+      if (inventoryStats.available < item.quantity) {
+        throw new BusinessLogicError(`商品「${displayName}」库存不足，剩余${inventoryStats.available}件`, 'INSUFFICIENT_STOCK')
+      }
+    }
+
+    // 促销期间按促销价计算
+    const price = await priceScheduleService.getEffectivePrice(item.productId, currency, variant?.id ?? null)
+
+    // 没有单独定价的货币按汇率推算
+    const unitPrice = price
+      ? price.price
+      : variant
+        ? await exchangeRateService.getDerivedPrice(item.productId, currency, variant.id)
+        : await exchangeRateService.getDerivedPrice(item.productId, currency)
+    if (unitPrice === null) {
+      throw new BusinessLogicError(`商品「${displayName}」暂不支持 ${currency} 支付`, 'PRICE_UNAVAILABLE')
+    }
+
+    return {
+      line: {
+        productId: item.productId,
+        productName: product.name,
+        variantId: variant?.id ?? null,
+        variantName: variant?.name ?? null,
+        quantity: item.quantity,
+        unitPrice,
+      },
+      taxCategory: product.taxCategory,
+    }
+  }
+
+  /**
+   * 按各行原价比例分摊优惠金额，返回各行扣除优惠后的金额（分摊误差计入最后一行）
+   */
+  private allocateDiscount(lines: Array<{ unitPrice: number; quantity: number }>, discountAmount: number): number[] {
+    const lineCents = lines.map(line => Math.round(line.unitPrice * 100) * line.quantity)
+    const subtotalCents = lineCents.reduce((sum, cents) => sum + cents, 0)
+    const discountCents = Math.round(discountAmount * 100)
+
+    let allocatedCents = 0
+    return lineCents.map((cents, index) => {
+      const share = index === lineCents.length - 1
+        ? discountCents - allocatedCents
+        : Math.round(discountCents * cents / subtotalCents)
+      allocatedCents += share
+      return (cents - share) / 100
+    })
+  }
+
+  private lineKey(item: { productId: number; variantId?: number | null }): string {
+    return item.variantId ? `${item.productId}:${item.variantId}` : String(item.productId)
+  }
+
+  private itemsKey(items: Array<{ productId: number; variantId?: number | null; quantity: number }>): string {
+    return items
+      .map(item => `${this.lineKey(item)}x${item.quantity}`)
+      .sort()
+      .join(',')
+  }
+}
+
+export const pricingService = new PricingService()
+
+export default pricingService
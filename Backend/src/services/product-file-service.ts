@@ -0,0 +1,600 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { createHash, randomUUID } from 'crypto'
+import { createReadStream } from 'fs'
+import { db, schema, withTransaction } from '../db'
+import { and, count, desc, eq, inArray, lt, sql } from 'drizzle-orm'
+import { FileVersionPolicy, type Delivery, type FileUpload } from '../db/schema'
+import { configService } from './config-service'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+import { storageService, type StorageDriver } from './storage-service'
+
+export type FileVersionPolicyType = typeof FileVersionPolicy[keyof typeof FileVersionPolicy]
+
+/**
+ * 直接上传文件的参数
+ */
+export interface FileUploadInput {
+  content: Buffer
+  originalName: string
+  mimeType?: string
+  version: string
+  changelog?: string | null
+  createdBy?: string
+}
+
+/**
+ * 创建分片上传会话的参数
+ */
+export interface ChunkedUploadInput {
+  fileName: string
+  fileSize: number
+  mimeType?: string
+  version: string
+  changelog?: string | null
+  checksum?: string | null
+  createdBy?: string
+}
+
+/**
+ * 返回给管理后台的文件版本信息
+ */
+export interface ProductFileVersionView {
+  id: number
+  version: string
+  changelog: string | null
+  isCurrent: boolean
+  fileId: number
+  fileName: string
+  fileSize: number
+  mimeType: string | null
+  checksum: string | null
+  deliveryCount: number
+  createdBy: string | null
+  createdAt: string | null
+}
+
+/**
+ * 分片上传会话状态
+ */
+export interface UploadSessionView {
+  uploadId: string
+  fileName: string
+  fileSize: number
+  chunkSize: number
+  totalChunks: number
+  receivedChunks: number[]
+  version: string
+  expiresAt: string
+}
+
+/**
+ * 发货使用的文件
+ */
+export interface DeliveryFile {
+  fileId: number
+  fileName: string
+  fileSize: number
+}
+
+/**
+ * 计算文件的 SHA-256 校验和（流式读取，适用于大文件）
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256')
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk)
+  }
+  return hash.digest('hex')
+}
+
+function toUploadView(upload: FileUpload): UploadSessionView {
+  return {
+    uploadId: upload.id,
+    fileName: upload.fileName,
+    fileSize: upload.fileSize,
+    chunkSize: upload.chunkSize,
+    totalChunks: upload.totalChunks,
+    receivedChunks: (JSON.parse(upload.receivedChunks || '[]') as number[]).sort((a, b) => a - b),
+    version: upload.version,
+    expiresAt: upload.expiresAt,
+  }
+}
+
+/**
+ * 商品文件服务
+ * 下载类商品的文件按版本登记到 files 表（SHA-256 校验和），is_current 为新订单发货的版本；
+ * 商品的 file_version_policy 决定已购买的客户下载购买时的版本还是当前版本
+ */
+export class ProductFileService {
+  /**
+   * 获取商品的文件版本（按上传时间倒序）和版本策略
+   */
+  async listVersions(productId: number): Promise<{ versions: ProductFileVersionView[]; versionPolicy: FileVersionPolicyType; stampingEnabled: boolean }> {
+    const product = await this.requireProduct(productId)
+
+    const rows = await db.select({ version: schema.productFileVersions, file: schema.files })
+      .from(schema.productFileVersions)
+      .innerJoin(schema.files, eq(schema.productFileVersions.fileId, schema.files.id))
+      .where(eq(schema.productFileVersions.productId, productId))
+      .orderBy(desc(schema.productFileVersions.id))
+
+    const fileIds = rows.map(row => row.file.id)
+    const deliveryCounts = new Map<number, number>()
+    if (fileIds.length > 0) {
+      const counts = await db.select({ fileId: schema.deliveries.fileId, count: count() })
+        .from(schema.deliveries)
+        .where(inArray(schema.deliveries.fileId, fileIds))
+        .groupBy(schema.deliveries.fileId)
+      for (const row of counts) {
+        deliveryCounts.set(row.fileId!, row.count)
+      }
+    }
+
+    return {
+      versionPolicy: product.fileVersionPolicy as FileVersionPolicyType,
+      stampingEnabled: Boolean(product.fileStamping),
+      versions: rows.map(({ version, file }) => ({
+        id: version.id,
+        version: version.version,
+        changelog: version.changelog,
+        isCurrent: Boolean(version.isCurrent),
+        fileId: file.id,
+        fileName: file.originalName,
+        fileSize: file.fileSize,
+        mimeType: file.mimeType,
+        checksum: file.checksum,
+        deliveryCount: deliveryCounts.get(file.id) ?? 0,
+        createdBy: version.createdBy,
+        createdAt: version.createdAt,
+      })),
+    }
+  }
+
+  /**
+   * 直接上传文件（适用于较小的文件，大文件使用分片上传）
+   */
+  async uploadFile(productId: number, input: FileUploadInput): Promise<ProductFileVersionView> {
+    await this.requireProduct(productId)
+    await this.assertUploadAllowed(productId, input.version, input.content.length)
+
+    const driver = await storageService.getDefaultDriver()
+    const filePath = await this.allocateFilePath(productId, input.originalName)
+    await driver.put(filePath, input.content, { contentType: input.mimeType })
+
+    return await this.registerVersion(productId, driver, filePath, {
+      originalName: input.originalName,
+      fileSize: input.content.length,
+      mimeType: input.mimeType,
+      checksum: createHash('sha256').update(input.content).digest('hex'),
+      version: input.version,
+      changelog: input.changelog,
+      createdBy: input.createdBy,
+    })
+  }
+
+  /**
+   * 创建分片上传会话，返回分片大小和分片数量
+   */
+  async createUpload(productId: number, input: ChunkedUploadInput): Promise<UploadSessionView> {
+    await this.requireProduct(productId)
+    await this.assertUploadAllowed(productId, input.version, input.fileSize)
+
+    const chunkSize = Number(await configService.getConfig('files', 'chunk_size', 8 * 1024 * 1024))
+    const expiryHours = Number(await configService.getConfig('files', 'upload_expiry_hours', 24))
+    const uploadDir = path.join(await this.getStorageDir(), 'uploads')
+    await fs.mkdir(uploadDir, { recursive: true })
+
+    const uploadId = randomUUID()
+    const tempPath = path.join(uploadDir, `${uploadId}.part`)
+    await fs.writeFile(tempPath, Buffer.alloc(0))
+
+    const [upload] = await db.insert(schema.fileUploads).values({
+      id: uploadId,
+      productId,
+      fileName: input.fileName,
+      fileSize: input.fileSize,
+      chunkSize,
+      totalChunks: Math.ceil(input.fileSize / chunkSize),
+      version: input.version.trim(),
+      changelog: input.changelog?.trim() || null,
+      checksum: input.checksum?.toLowerCase() || null,
+      tempPath,
+      receivedChunks: '[]',
+      createdBy: input.createdBy,
+      expiresAt: new Date(Date.now() + expiryHours * 60 * 60 * 1000).toISOString(),
+    }).returning()
+
+    return toUploadView(upload)
+  }
+
+  /**
+   * 获取分片上传进度（用于断点续传）
+   */
+  async getUpload(productId: number, uploadId: string): Promise<UploadSessionView> {
+    return toUploadView(await this.requireUpload(productId, uploadId))
+  }
+
+  /**
+   * 写入一个分片（可重复上传同一分片，分片可以乱序或并发上传）
+   */
+  async writeChunk(productId: number, uploadId: string, index: number, content: Buffer): Promise<UploadSessionView> {
+    const upload = await this.requireUpload(productId, uploadId)
+
+    if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+      throw new BusinessLogicError('分片序号无效', 'FILE_CHUNK_INVALID', { index, totalChunks: upload.totalChunks })
+    }
+
+    const expectedSize = index === upload.totalChunks - 1
+      ? upload.fileSize - upload.chunkSize * (upload.totalChunks - 1)
+      : upload.chunkSize
+    if (content.length !== expectedSize) {
+      throw new BusinessLogicError(`分片大小应为 ${expectedSize} 字节`, 'FILE_CHUNK_INVALID', { index, size: content.length, expectedSize })
+    }
+
+    const handle = await fs.open(upload.tempPath, 'r+')
+    try {
+      await handle.write(content, 0, content.length, index * upload.chunkSize)
+    } finally {
+      await handle.close()
+    }
+
+    // 单条语句合并分片序号，避免并发上传时互相覆盖
+    const [updated] = await db.update(schema.fileUploads)
+      .set({
+        receivedChunks: sql`(SELECT json_group_array(value) FROM (SELECT value FROM json_each(${schema.fileUploads.receivedChunks}) UNION SELECT ${index}))`,
+      })
+      .where(eq(schema.fileUploads.id, uploadId))
+      .returning()
+
+    return toUploadView(updated)
+  }
+
+  /**
+   * 完成分片上传：校验分片完整性和 SHA-256，写入存储并登记为新版本
+   */
+  async completeUpload(productId: number, uploadId: string): Promise<ProductFileVersionView> {
+    const upload = await this.requireUpload(productId, uploadId)
+    const received = new Set(JSON.parse(upload.receivedChunks || '[]') as number[])
+    const missing = Array.from({ length: upload.totalChunks }, (_, index) => index).filter(index => !received.has(index))
+    if (missing.length > 0) {
+      throw new BusinessLogicError(`还有 ${missing.length} 个分片未上传`, 'FILE_UPLOAD_INCOMPLETE', { missing: missing.slice(0, 20) })
+    }
+
+    const checksum = await hashFile(upload.tempPath)
+    if (upload.checksum && upload.checksum !== checksum) {
+      await this.removeUpload(upload)
+      throw new BusinessLogicError('文件校验和不一致，请重新上传', 'FILE_CHECKSUM_MISMATCH', { expected: upload.checksum, actual: checksum })
+    }
+
+    await this.assertVersionAvailable(productId, upload.version)
+    const driver = await storageService.getDefaultDriver()
+    const filePath = await this.allocateFilePath(productId, upload.fileName)
+    await driver.put(filePath, { filePath: upload.tempPath }, { removeSource: true })
+
+    const version = await this.registerVersion(productId, driver, filePath, {
+      originalName: upload.fileName,
+      fileSize: upload.fileSize,
+      checksum,
+      version: upload.version,
+      changelog: upload.changelog,
+      createdBy: upload.createdBy ?? undefined,
+    })
+
+    await db.delete(schema.fileUploads).where(eq(schema.fileUploads.id, uploadId))
+    return version
+  }
+
+  /**
+   * 取消分片上传并删除临时文件
+   */
+  async abortUpload(productId: number, uploadId: string): Promise<void> {
+    await this.removeUpload(await this.requireUpload(productId, uploadId))
+  }
+
+  /**
+   * 设置新订单发货的文件版本
+   */
+  async setCurrentVersion(productId: number, versionId: number): Promise<void> {
+    await this.requireVersion(productId, versionId)
+
+    await withTransaction(async (tx) => {
+      await tx.update(schema.productFileVersions)
+        .set({ isCurrent: false })
+        .where(eq(schema.productFileVersions.productId, productId))
+      await tx.update(schema.productFileVersions)
+        .set({ isCurrent: true })
+        .where(eq(schema.productFileVersions.id, versionId))
+    })
+  }
+
+  /**
+   * 设置已购买客户的文件版本策略
+   */
+  async setVersionPolicy(productId: number, policy: FileVersionPolicyType): Promise<void> {
+    await this.requireProduct(productId)
+
+    await db.update(schema.products)
+      .set({ fileVersionPolicy: policy, updatedAt: new Date().toISOString() })
+      .where(eq(schema.products.id, productId))
+  }
+
+  /**
+   * 开启或关闭买家专属文件副本（ZIP 内的授权文件、PDF 元数据），只影响之后首次下载的订单
+   */
+  async setStamping(productId: number, enabled: boolean): Promise<void> {
+    await this.requireProduct(productId)
+
+    await db.update(schema.products)
+      .set({ fileStamping: enabled, updatedAt: new Date().toISOString() })
+      .where(eq(schema.products.id, productId))
+  }
+
+  /**
+   * 删除文件版本（当前版本和已发货的版本不能删除）
+   */
+  async deleteVersion(productId: number, versionId: number): Promise<void> {
+    const version = await this.requireVersion(productId, versionId)
+    if (version.isCurrent) {
+      throw new BusinessLogicError('不能删除当前发货的版本，请先切换到其他版本', 'FILE_IN_USE', { versionId })
+    }
+
+    const [usage] = await db.select({ count: count() })
+      .from(schema.deliveries)
+      .where(eq(schema.deliveries.fileId, version.fileId))
+    if (usage.count > 0) {
+      throw new BusinessLogicError(`该版本已发货给 ${usage.count} 个订单，不能删除`, 'FILE_IN_USE', { versionId, deliveries: usage.count })
+    }
+
+    const [file] = await db.select({ filePath: schema.files.filePath, storageDriver: schema.files.storageDriver })
+      .from(schema.files)
+      .where(eq(schema.files.id, version.fileId))
+      .limit(1)
+
+    await withTransaction(async (tx) => {
+      await tx.delete(schema.productFileVersions).where(eq(schema.productFileVersions.id, versionId))
+      await tx.update(schema.files)
+        .set({ isActive: false })
+        .where(eq(schema.files.id, version.fileId))
+    })
+
+    if (file) {
+      await this.removeStoredFile(storageService.forFile(file), file.filePath)
+    }
+  }
+
+  /**
+   * 获取新订单发货使用的文件（商品未上传文件时返回 null）
+   */
+  async getCurrentFile(productId: number): Promise<DeliveryFile | null> {
+    const [row] = await db.select({ fileId: schema.files.id, fileName: schema.files.originalName, fileSize: schema.files.fileSize })
+      .from(schema.productFileVersions)
+      .innerJoin(schema.files, eq(schema.productFileVersions.fileId, schema.files.id))
+      .where(and(
+        eq(schema.productFileVersions.productId, productId),
+        eq(schema.productFileVersions.isCurrent, true)
+      ))
+      .limit(1)
+
+    return row || null
+  }
+
+  /**
+   * 解析发货记录应下载的文件：
+   * 商品策略为 latest 时下载当前版本，否则下载购买时的版本；发货时商品尚无文件则使用当前版本
+   */
+  async resolveDeliveryFileId(delivery: Delivery): Promise<number | null> {
+    let productId: number | undefined
+    if (delivery.fileId) {
+      const [version] = await db.select({ productId: schema.productFileVersions.productId, policy: schema.products.fileVersionPolicy })
+        .from(schema.productFileVersions)
+        .innerJoin(schema.products, eq(schema.productFileVersions.productId, schema.products.id))
+        .where(eq(schema.productFileVersions.fileId, delivery.fileId))
+        .limit(1)
+      if (!version || version.policy !== FileVersionPolicy.LATEST) {
+        return delivery.fileId
+      }
+      productId = version.productId
+    } else {
+      productId = await this.findDeliveryProductId(delivery)
+    }
+
+    const current = productId ? await this.getCurrentFile(productId) : null
+    return current?.fileId ?? delivery.fileId ?? null
+  }
+
+  /**
+   * 清理过期的分片上传会话和临时文件
+   */
+  async cleanupExpiredUploads(): Promise<number> {
+    const expired = await db.select()
+      .from(schema.fileUploads)
+      .where(lt(schema.fileUploads.expiresAt, new Date().toISOString()))
+
+    for (const upload of expired) {
+      await this.removeUpload(upload)
+    }
+    return expired.length
+  }
+
+  /**
+   * 在事务中登记 files 记录和版本记录，商品的第一个版本自动设为当前版本
+   */
+  private async registerVersion(
+    productId: number,
+    driver: StorageDriver,
+    filePath: string,
+    input: { originalName: string; fileSize: number; mimeType?: string; checksum: string; version: string; changelog?: string | null; createdBy?: string }
+  ): Promise<ProductFileVersionView> {
+    try {
+      return await withTransaction(async (tx) => {
+        const [file] = await tx.insert(schema.files).values({
+          fileName: path.basename(filePath),
+          originalName: input.originalName,
+          filePath,
+          fileSize: input.fileSize,
+          mimeType: input.mimeType || 'application/octet-stream',
+          checksum: input.checksum,
+          storageDriver: driver.name,
+          createdBy: input.createdBy,
+        }).returning()
+
+        const [current] = await tx.select({ id: schema.productFileVersions.id })
+          .from(schema.productFileVersions)
+          .where(and(
+            eq(schema.productFileVersions.productId, productId),
+            eq(schema.productFileVersions.isCurrent, true)
+          ))
+          .limit(1)
+
+        const [version] = await tx.insert(schema.productFileVersions).values({
+          productId,
+          fileId: file.id,
+          version: input.version.trim(),
+          changelog: input.changelog?.trim() || null,
+          isCurrent: !current,
+          createdBy: input.createdBy,
+        }).returning()
+
+        return {
+          id: version.id,
+          version: version.version,
+          changelog: version.changelog,
+          isCurrent: Boolean(version.isCurrent),
+          fileId: file.id,
+          fileName: file.originalName,
+          fileSize: file.fileSize,
+          mimeType: file.mimeType,
+          checksum: file.checksum,
+          deliveryCount: 0,
+          createdBy: version.createdBy,
+          createdAt: version.createdAt,
+        }
+      })
+    } catch (error) {
+      await this.removeStoredFile(driver, filePath)
+      throw error
+    }
+  }
+
+  private async assertUploadAllowed(productId: number, version: string, fileSize: number): Promise<void> {
+    const maxSize = Number(await configService.getConfig('files', 'max_file_size', 2 * 1024 * 1024 * 1024))
+    if (fileSize <= 0) {
+      throw new BusinessLogicError('文件为空', 'FILE_INVALID')
+    }
+    if (fileSize > maxSize) {
+      throw new BusinessLogicError(`文件不能超过 ${Math.floor(maxSize / 1024 / 1024)}MB`, 'FILE_TOO_LARGE', { fileSize, maxSize })
+    }
+
+    await this.assertVersionAvailable(productId, version)
+  }
+
+  private async assertVersionAvailable(productId: number, version: string): Promise<void> {
+    const [existing] = await db.select({ id: schema.productFileVersions.id })
+      .from(schema.productFileVersions)
+      .where(and(
+        eq(schema.productFileVersions.productId, productId),
+        eq(schema.productFileVersions.version, version.trim())
+      ))
+      .limit(1)
+    if (existing) {
+      throw new BusinessLogicError(`版本 ${version.trim()} 已存在`, 'FILE_VERSION_EXISTS', { productId, version })
+    }
+  }
+
+  private async allocateFilePath(productId: number, originalName: string): Promise<string> {
+    const productDir = path.join(await this.getStorageDir(), 'products', String(productId))
+
+    const extension = path.extname(originalName).toLowerCase().replace(/[^.a-z0-9]/g, '')
+    return path.join(productDir, `${randomUUID()}${extension}`)
+  }
+
+  private async getStorageDir(): Promise<string> {
+    return await configService.getConfig('files', 'storage_dir', './storage/files')
+  }
+
+  private async findDeliveryProductId(delivery: Delivery): Promise<number | undefined> {
+    // 早于 order_item_id 字段创建的发货记录通过 order_items.delivery_id 查找商品
+    const [item] = await db.select({ productId: schema.orderItems.productId })
+      .from(schema.orderItems)
+      .where(delivery.orderItemId
+        ? eq(schema.orderItems.id, delivery.orderItemId)
+        : eq(schema.orderItems.deliveryId, delivery.id))
+      .limit(1)
+    if (item) {
+      return item.productId
+    }
+
+    const [order] = await db.select({ productId: schema.orders.productId })
+      .from(schema.orders)
+      .where(eq(schema.orders.id, delivery.orderId))
+      .limit(1)
+    return order?.productId
+  }
+
+  private async requireProduct(productId: number) {
+    const [product] = await db.select({
+      id: schema.products.id,
+      fileVersionPolicy: schema.products.fileVersionPolicy,
+      fileStamping: schema.products.fileStamping,
+    })
+      .from(schema.products)
+      .where(eq(schema.products.id, productId))
+      .limit(1)
+    if (!product) {
+      throw new NotFoundError('Product', productId)
+    }
+    return product
+  }
+
+  private async requireVersion(productId: number, versionId: number) {
+    const [version] = await db.select()
+      .from(schema.productFileVersions)
+      .where(and(eq(schema.productFileVersions.id, versionId), eq(schema.productFileVersions.productId, productId)))
+      .limit(1)
+    if (!version) {
+      throw new NotFoundError('ProductFileVersion', versionId)
+    }
+    return version
+  }
+
+  private async requireUpload(productId: number, uploadId: string): Promise<FileUpload> {
+    const [upload] = await db.select()
+      .from(schema.fileUploads)
+      .where(and(eq(schema.fileUploads.id, uploadId), eq(schema.fileUploads.productId, productId)))
+      .limit(1)
+    if (!upload) {
+      throw new NotFoundError('FileUpload', uploadId)
+    }
+    if (new Date(upload.expiresAt) < new Date()) {
+      await this.removeUpload(upload)
+      throw new NotFoundError('FileUpload', uploadId)
+    }
+    return upload
+  }
+
+  private async removeUpload(upload: FileUpload): Promise<void> {
+    await db.delete(schema.fileUploads).where(eq(schema.fileUploads.id, upload.id))
+    await this.removeFile(upload.tempPath)
+  }
+
+  private async removeStoredFile(driver: StorageDriver, filePath: string): Promise<void> {
+    try {
+      await driver.delete(filePath)
+    } catch (error) {
+      console.warn(`[ProductFile] Failed to remove ${driver.name} file ${filePath}`, error)
+    }
+  }
+
+  private async removeFile(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath)
+    } catch (error) {
+      console.warn(`[ProductFile] Failed to remove file ${filePath}`, error)
+    }
+  }
+}
+
+export const productFileService = new ProductFileService()
+
+export default productFileService
@@ -0,0 +1,352 @@
+import path from 'path'
+import { createHash, randomUUID } from 'crypto'
+import sharp from 'sharp'
+import { db, schema, withTransaction } from '../db'
+import { and, asc, count, eq, inArray, max } from 'drizzle-orm'
+import { type ProductImage } from '../db/schema'
+import { configService } from './config-service'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+import { storageService } from './storage-service'
+
+/**
+ * 支持的图片格式（sharp 识别的格式 → MIME 类型和扩展名）
+ */
+const IMAGE_FORMATS: Record<string, { mimeType: string; extension: string }> = {
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { mimeType: 'image/png', extension: 'png' },
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+  gif: { mimeType: 'image/gif', extension: 'gif' },
+}
+
+/**
+ * 上传图片的参数
+ */
+export interface ImageUploadInput {
+  content: Buffer
+  originalName: string
+  altText?: string | null
+  createdBy?: string
+}
+
+/**
+ * 返回给前端的图片信息
+ */
+export interface ProductImageView {
+  id: number
+  url: string
+  thumbnailUrl: string
+  width: number
+  height: number
+  altText: string | null
+  sortOrder: number
+}
+
+/**
+ * 图片文件内容（用于输出原图或缩略图）
+ */
+export interface ImageFileContent {
+  content: Buffer
+  mimeType: string
+  checksum: string | null
+}
+
+export type ImageVariant = 'original' | 'thumbnail'
+
+/**
+ * 按图片内容识别格式，不支持的格式返回 null
+ */
+export function resolveImageFormat(format: string | undefined): { mimeType: string; extension: string } | null {
+  return (format && IMAGE_FORMATS[format]) || null
+}
+
+/**
+ * 转换为前端使用的图片信息（图片通过商品接口输出）
+ */
+export function toImageView(image: ProductImage): ProductImageView {
+  return {
+    id: image.id,
+    url: `/api/v1/products/images/${image.id}`,
+    thumbnailUrl: `/api/v1/products/images/${image.id}/thumbnail`,
+    width: image.width,
+    height: image.height,
+    altText: image.altText,
+    sortOrder: image.sortOrder ?? 0,
+  }
+}
+
+/**
+ * 商品图片服务
+ * 原图和缩略图写入 media 存储目录并登记到 files 表，图片按 sort_order 排序，第一张为封面
+ */
+export class ProductImageService {
+  /**
+   * 获取商品图片（按排序）
+   */
+  async listImages(productId: number): Promise<ProductImageView[]> {
+    const images = await db.select()
+      .from(schema.productImages)
+      .where(eq(schema.productImages.productId, productId))
+      .orderBy(asc(schema.productImages.sortOrder), asc(schema.productImages.id))
+
+    return images.map(toImageView)
+  }
+
+  /**
+   * 批量获取商品封面（每个商品的第一张图片）
+   */
+  async getCoverImages(productIds: number[]): Promise<Map<number, ProductImageView>> {
+    const covers = new Map<number, ProductImageView>()
+    if (productIds.length === 0) {
+      return covers
+    }
+
+    const images = await db.select()
+      .from(schema.productImages)
+      .where(inArray(schema.productImages.productId, productIds))
+      .orderBy(asc(schema.productImages.sortOrder), asc(schema.productImages.id))
+
+    for (const image of images) {
+      if (!covers.has(image.productId)) {
+        covers.set(image.productId, toImageView(image))
+      }
+    }
+    return covers
+  }
+
+  /**
+   * 上传商品图片：校验格式和大小，保存原图并生成缩略图，追加到图库末尾
+   */
+  async uploadImage(productId: number, input: ImageUploadInput): Promise<ProductImageView> {
+    await this.requireProduct(productId)
+
+    const maxSize = Number(await configService.getConfig('media', 'max_image_size', 5 * 1024 * 1024))
+    if (input.content.length === 0) {
+      throw new BusinessLogicError('图片文件为空', 'IMAGE_INVALID')
+    }
+    if (input.content.length > maxSize) {
+      throw new BusinessLogicError(`图片不能超过 ${Math.floor(maxSize / 1024 / 1024)}MB`, 'IMAGE_TOO_LARGE', { size: input.content.length, maxSize })
+    }
+
+    const maxImages = Number(await configService.getConfig('media', 'max_images_per_product', 20))
+    const [existing] = await db.select({ count: count(), maxOrder: max(schema.productImages.sortOrder) })
+      .from(schema.productImages)
+      .where(eq(schema.productImages.productId, productId))
+    if (existing.count >= maxImages) {
+      throw new BusinessLogicError(`每个商品最多上传 ${maxImages} 张图片`, 'IMAGE_LIMIT', { productId, maxImages })
+    }
+
+    const { format, width, height } = await this.readImageInfo(input.content)
+    const thumbnailSize = Number(await configService.getConfig('media', 'thumbnail_size', 400))
+    const thumbnail = await sharp(input.content)
+      .rotate()
+      .resize({ width: thumbnailSize, height: thumbnailSize, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer()
+
+    const storageDir = await configService.getConfig('media', 'storage_dir', './storage/media')
+    const productDir = path.join(storageDir, 'products', String(productId))
+    const driver = await storageService.getDefaultDriver()
+
+    const baseName = randomUUID()
+    const originalPath = path.join(productDir, `${baseName}.${format.extension}`)
+    const thumbnailPath = path.join(productDir, `${baseName}-thumb.webp`)
+    await driver.put(originalPath, input.content, { contentType: format.mimeType })
+    await driver.put(thumbnailPath, thumbnail, { contentType: 'image/webp' })
+
+    try {
+      const image = await withTransaction(async (tx) => {
+        const [originalFile] = await tx.insert(schema.files).values({
+          fileName: path.basename(originalPath),
+          originalName: input.originalName,
+          filePath: originalPath,
+          fileSize: input.content.length,
+          mimeType: format.mimeType,
+          checksum: createHash('sha256').update(input.content).digest('hex'),
+          storageDriver: driver.name,
+          createdBy: input.createdBy,
+        }).returning()
+
+        const [thumbnailFile] = await tx.insert(schema.files).values({
+          fileName: path.basename(thumbnailPath),
+          originalName: input.originalName,
+          filePath: thumbnailPath,
+          fileSize: thumbnail.length,
+          mimeType: 'image/webp',
+          checksum: createHash('sha256').update(thumbnail).digest('hex'),
+          storageDriver: driver.name,
+          createdBy: input.createdBy,
+        }).returning()
+
+        const [created] = await tx.insert(schema.productImages).values({
+          productId,
+          fileId: originalFile.id,
+          thumbnailFileId: thumbnailFile.id,
+          width,
+          height,
+          altText: input.altText?.trim() || null,
+          sortOrder: existing.count > 0 ? (existing.maxOrder ?? 0) + 1 : 0,
+        }).returning()
+
+        return created
+      })
+
+      return toImageView(image)
+    } catch (error) {
+      await this.removeFiles([originalPath, thumbnailPath].map(filePath => ({ filePath, storageDriver: driver.name })))
+      throw error
+    }
+  }
+
+  /**
+   * 更新图片说明
+   */
+  async updateImage(productId: number, imageId: number, input: { altText?: string | null }): Promise<ProductImageView> {
+    await this.requireImage(productId, imageId)
+
+    const [updated] = await db.update(schema.productImages)
+      .set({ altText: input.altText?.trim() || null })
+      .where(eq(schema.productImages.id, imageId))
+      .returning()
+
+    return toImageView(updated)
+  }
+
+  /**
+   * 调整图片顺序（imageIds 必须包含商品的全部图片，第一张为封面）
+   */
+  async reorderImages(productId: number, imageIds: number[]): Promise<ProductImageView[]> {
+    await this.requireProduct(productId)
+
+    const images = await db.select({ id: schema.productImages.id })
+      .from(schema.productImages)
+      .where(eq(schema.productImages.productId, productId))
+
+    const currentIds = new Set(images.map(image => image.id))
+    if (imageIds.length !== currentIds.size || new Set(imageIds).size !== imageIds.length || !imageIds.every(id => currentIds.has(id))) {
+      throw new BusinessLogicError('图片顺序必须包含该商品的全部图片', 'IMAGE_INVALID', { productId, imageIds })
+    }
+
+    await withTransaction(async (tx) => {
+      for (const [index, imageId] of imageIds.entries()) {
+        await tx.update(schema.productImages)
+          .set({ sortOrder: index })
+          .where(eq(schema.productImages.id, imageId))
+      }
+    })
+
+    return await this.listImages(productId)
+  }
+
+  /**
+   * 删除图片（文件记录标记为无效并删除存储文件）
+   */
+  async deleteImage(productId: number, imageId: number): Promise<void> {
+    const image = await this.requireImage(productId, imageId)
+    const fileIds = [image.fileId, image.thumbnailFileId]
+
+    const files = await db.select({ filePath: schema.files.filePath, storageDriver: schema.files.storageDriver })
+      .from(schema.files)
+      .where(inArray(schema.files.id, fileIds))
+
+    await withTransaction(async (tx) => {
+      await tx.delete(schema.productImages).where(eq(schema.productImages.id, imageId))
+      await tx.update(schema.files)
+        .set({ isActive: false })
+        .where(inArray(schema.files.id, fileIds))
+    })
+
+    await this.removeFiles(files)
+  }
+
+  /**
+   * 读取图片文件内容
+   */
+  async getImageFile(imageId: number, variant: ImageVariant = 'original'): Promise<ImageFileContent> {
+    const [image] = await db.select()
+      .from(schema.productImages)
+      .where(eq(schema.productImages.id, imageId))
+      .limit(1)
+    if (!image) {
+      throw new NotFoundError('ProductImage', imageId)
+    }
+
+    const fileId = variant === 'thumbnail' ? image.thumbnailFileId : image.fileId
+    const [file] = await db.select()
+      .from(schema.files)
+      .where(and(eq(schema.files.id, fileId), eq(schema.files.isActive, true)))
+      .limit(1)
+    if (!file) {
+      throw new NotFoundError('File', fileId)
+    }
+
+    try {
+      return {
+        content: await storageService.forFile(file).read(file.filePath),
+        mimeType: file.mimeType || 'application/octet-stream',
+        checksum: file.checksum,
+      }
+    } catch (error) {
+      console.warn(`[ProductImage] File missing for image ${imageId}: ${file.filePath}`, error)
+      throw new NotFoundError('File', fileId)
+    }
+  }
+
+  /**
+   * 读取图片格式和尺寸（按 EXIF 方向修正宽高），无法识别时抛出错误
+   */
+  private async readImageInfo(content: Buffer): Promise<{ format: { mimeType: string; extension: string }; width: number; height: number }> {
+    let metadata: sharp.Metadata
+    try {
+      metadata = await sharp(content).metadata()
+    } catch {
+      throw new BusinessLogicError('无法识别的图片文件', 'IMAGE_INVALID')
+    }
+
+    const format = resolveImageFormat(metadata.format)
+    if (!format || !metadata.width || !metadata.height) {
+      throw new BusinessLogicError('只支持 JPEG、PNG、WebP 和 GIF 图片', 'IMAGE_INVALID', { format: metadata.format })
+    }
+
+    const rotated = (metadata.orientation ?? 1) >= 5
+    return {
+      format,
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+    }
+  }
+
+  private async requireProduct(productId: number): Promise<void> {
+    const [product] = await db.select({ id: schema.products.id })
+      .from(schema.products)
+      .where(eq(schema.products.id, productId))
+      .limit(1)
+    if (!product) {
+      throw new NotFoundError('Product', productId)
+    }
+  }
+
+  private async requireImage(productId: number, imageId: number): Promise<ProductImage> {
+    const [image] = await db.select()
+      .from(schema.productImages)
+      .where(and(eq(schema.productImages.id, imageId), eq(schema.productImages.productId, productId)))
+      .limit(1)
+    if (!image) {
+      throw new NotFoundError('ProductImage', imageId)
+    }
+    return image
+  }
+
+  private async removeFiles(files: Array<{ filePath: string; storageDriver: string }>): Promise<void> {
+    for (const file of files) {
+      try {
+        await storageService.forFile(file).delete(file.filePath)
+      } catch (error) {
+        console.warn(`[ProductImage] Failed to remove file ${file.filePath}`, error)
+      }
+    }
+  }
+}
+
+export const productImageService = new ProductImageService()
+
+export default productImageService
@@ -1,9 +1,14 @@
 import { db, schema, withTransaction } from '../db'
-import { eq, and, desc, asc, count, like, inArray, sql } from 'drizzle-orm'
-import { DeliveryType, Currency } from '../db/schema'
-import { validateProduct, validateProductUpdate, validateProductQuery } from '../db/validation'
+import { eq, and, or, desc, asc, count, like, inArray, isNull, sql } from 'drizzle-orm'
+import { DeliveryType, Currency, OrderStatus } from '../db/schema'
+import { selectEffectivePrices } from './price-schedule-service'
+import { catalogService } from './catalog-service'
+import { productImageService } from './product-image-service'
+import { validateProduct, validateProductUpdate, validateProductQuery, PRODUCT_SORTS } from '../db/validation'
 import { errors } from '../utils/response'
 
+type ProductSort = typeof PRODUCT_SORTS[number]
+
 // 产品服务类
 export class ProductService {
   /**
@@ -32,7 +37,7 @@ export class ProductService {
   }
 
   /**
-   * 获取产品详情（包含价格信息）
+   * 获取产品详情（包含常规价格信息）
    */
   async getProductWithPrices(productId: number) {
     const result = await db
@@ -44,7 +49,9 @@ export class ProductService {
       .leftJoin(schema.productPrices, eq(schema.products.id, schema.productPrices.productId))
       .where(and(
         eq(schema.products.id, productId),
-        eq(schema.productPrices.isActive, true)
+        eq(schema.productPrices.isActive, true),
+        isNull(schema.productPrices.variantId),
+        isNull(schema.productPrices.startsAt)
       ))
 
     if (result.length === 0) {
@@ -61,7 +68,7 @@ export class ProductService {
   }
 
   /**
-   * 获取所有活跃产品（包含价格信息，避免 N+1 查询）
+   * 获取所有活跃产品（包含当前生效的价格信息，避免 N+1 查询）
    */
   async getActiveProducts() {
     const result = await db
@@ -72,7 +79,8 @@ export class ProductService {
       .from(schema.products)
       .leftJoin(schema.productPrices, and(
         eq(schema.products.id, schema.productPrices.productId),
-        eq(schema.productPrices.isActive, true)
+        eq(schema.productPrices.isActive, true),
+        isNull(schema.productPrices.variantId) // 规格价格随规格单独返回
       ))
       .where(eq(schema.products.isActive, true))
       .orderBy(asc(schema.products.sortOrder), asc(schema.products.createdAt))
@@ -82,6 +90,7 @@ export class ProductService {
 
   /**
    * 按产品分组组合数据（私有方法）
+   * 同一货币有生效中的促销时以促销价为准
    */
   private groupProductsWithPrices(rows: Array<{ product: any; price: any }>) {
     // 边界检查
@@ -90,36 +99,34 @@ export class ProductService {
     }
 
     const productMap = new Map()
+    const priceRows = new Map<number, any[]>()
 
     for (const row of rows) {
       const productId = row.product.id
 
       if (!productMap.has(productId)) {
-        productMap.set(productId, {
-          ...row.product,
-          prices: []
-        })
+        productMap.set(productId, row.product)
+        priceRows.set(productId, [])
       }
 
       if (row.price) {
-        const productData = productMap.get(productId)
-        productData.prices.push({
-          currency: row.price.currency,
-          price: row.price.price,
-          isActive: row.price.isActive,
-        })
+        priceRows.get(productId)!.push(row.price)
       }
     }
 
-    return Array.from(productMap.values())
+    const now = new Date()
+    return Array.from(productMap.values()).map(product => ({
+      ...product,
+      prices: selectEffectivePrices(priceRows.get(product.id)!, now),
+    }))
   }
 
   /**
-   * 查询产品
+   * 查询产品（支持按分类/标签筛选、搜索和排序）
    */
   async queryProducts(query: any, includePrices = false) {
     const validatedQuery = validateProductQuery(query)
-    const { page = 1, limit = 20, offset = 0, isActive, deliveryType, search } = validatedQuery
+    const { page = 1, limit = 20, offset = 0, isActive, deliveryType, search, categoryId, tag, sort, currency } = validatedQuery
 
     let whereConditions = []
 
@@ -135,11 +142,27 @@ export class ProductService {
     if (search) {
       // 使用 Drizzle ORM 的 like 操作符，避免直接使用 SQL 模板字符串
       const searchPattern = `%${search}%`
-      whereConditions.push(
-        like(schema.products.name, searchPattern)
-      )
+      whereConditions.push(or(
+        like(schema.products.name, searchPattern),
+        like(schema.products.description, searchPattern)
+      ))
+    }
+
+    if (categoryId) {
+      // 包含子分类下的商品
+      const categoryIds = await catalogService.getCategoryIdsWithDescendants(categoryId)
+      whereConditions.push(inArray(schema.products.categoryId, categoryIds))
+    }
+
+    if (tag) {
+      whereConditions.push(inArray(schema.products.id, db
+        .select({ productId: schema.productTags.productId })
+        .from(schema.productTags)
+        .innerJoin(schema.tags, eq(schema.tags.id, schema.productTags.tagId))
+        .where(eq(schema.tags.name, tag))))
     }
 
+    const orderBy = this.getProductOrder(sort, currency)
     let products
 
     if (includePrices) {
@@ -156,12 +179,16 @@ export class ProductService {
           deliveryType: schema.products.deliveryType,
           isActive: schema.products.isActive,
           sortOrder: schema.products.sortOrder,
+          minQuantity: schema.products.minQuantity,
+          maxQuantity: schema.products.maxQuantity,
+          taxCategory: schema.products.taxCategory,
+          categoryId: schema.products.categoryId,
           createdAt: schema.products.createdAt,
           updatedAt: schema.products.updatedAt,
         })
         .from(schema.products)
         .where(and(...whereConditions))
-        .orderBy(asc(schema.products.sortOrder), desc(schema.products.createdAt))
+        .orderBy(...orderBy)
         .limit(limit)
         .offset(offsetValue)
 
@@ -178,14 +205,17 @@ export class ProductService {
           .from(schema.products)
           .leftJoin(schema.productPrices, and(
             eq(schema.products.id, schema.productPrices.productId),
-            eq(schema.productPrices.isActive, true)
+            eq(schema.productPrices.isActive, true),
+            isNull(schema.productPrices.variantId),
+            isNull(schema.productPrices.startsAt) // 管理端编辑常规价格，计划价格单独查看
           ))
           .where(
             inArray(schema.products.id, productIds)
           )
 
-        // 按产品分组组合数据
-        products = this.groupProductsWithPrices(result)
+        // 按产品分组组合数据，保持分页查询的排序
+        const grouped = new Map(this.groupProductsWithPrices(result).map(product => [product.id, product]))
+        products = productIds.map(id => grouped.get(id)!)
       }
     } else {
       // 直接构建查询，避免中间变量导致类型丢失
@@ -197,12 +227,24 @@ export class ProductService {
         }
 
         return await query
-          .orderBy(asc(schema.products.sortOrder), desc(schema.products.createdAt))
+          .orderBy(...orderBy)
           .limit(limit)
           .offset(offset || (page - 1) * limit)
       })()
     }
 
+    // 附加商品标签和封面图片
+    const productIds = products.map((product: any) => product.id)
+    const [productTags, coverImages] = await Promise.all([
+      catalogService.getProductTags(productIds),
+      productImageService.getCoverImages(productIds),
+    ])
+    products = products.map((product: any) => ({
+      ...product,
+      tags: productTags.get(product.id) || [],
+      coverImage: coverImages.get(product.id) || null,
+    }))
+
     // 获取总数
     const countQuery = db.select({ count: count() }).from(schema.products)
     const totalCountResult = await (whereConditions.length > 0
@@ -223,6 +265,63 @@ export class ProductService {
     }
   }
 
+  /**
+   * 查询上架商品（商店前台，价格为当前生效价格，促销期间为促销价）
+   */
+  async queryStorefrontProducts(query: any) {
+    const { products, pagination } = await this.queryProducts({ ...query, isActive: true })
+    if (products.length === 0) {
+      return { products, pagination }
+    }
+
+    const priceRows = await db.select()
+      .from(schema.productPrices)
+      .where(and(
+        inArray(schema.productPrices.productId, products.map((product: any) => product.id)),
+        eq(schema.productPrices.isActive, true),
+        isNull(schema.productPrices.variantId) // 规格价格随规格单独返回
+      ))
+
+    const now = new Date()
+    return {
+      products: products.map((product: any) => ({
+        ...product,
+        prices: selectEffectivePrices(priceRows.filter(row => row.productId === product.id), now),
+      })),
+      pagination,
+    }
+  }
+
+  /**
+   * 商品列表排序
+   * 价格排序按指定货币当前生效的最低价（含规格价格），没有该货币价格的商品排在最后
+   */
+  private getProductOrder(sort: ProductSort, currency: string = Currency.CNY) {
+    const prices = schema.productPrices
+    const items = schema.orderItems
+    const orders = schema.orders
+
+    switch (sort) {
+      case 'price_asc':
+      case 'price_desc': {
+        const lowestPrice = sql`(SELECT MIN(${prices.price}) FROM ${prices} WHERE ${prices.productId} = ${schema.products.id} AND ${prices.currency} = ${currency} AND ${prices.isActive} = 1)`
+        return [
+          sql`${lowestPrice} IS NULL`,
+          sort === 'price_asc' ? asc(lowestPrice) : desc(lowestPrice),
+          asc(schema.products.sortOrder),
+        ]
+      }
+      case 'newest':
+        return [desc(schema.products.createdAt), desc(schema.products.id)]
+      case 'popular': {
+        const soldQuantity = sql`(SELECT COALESCE(SUM(${items.quantity}), 0) FROM ${items} INNER JOIN ${orders} ON ${orders.id} = ${items.orderId} WHERE ${items.productId} = ${schema.products.id} AND ${orders.status} IN (${OrderStatus.PAID}, ${OrderStatus.DELIVERED}))`
+        return [desc(soldQuantity), asc(schema.products.sortOrder), desc(schema.products.createdAt)]
+      }
+      default:
+        return [asc(schema.products.sortOrder), desc(schema.products.createdAt)]
+    }
+  }
+
   /**
    * 更新产品信息
    */
@@ -336,7 +435,7 @@ export class ProductService {
   }
 
   /**
-   * 获取产品价格
+   * 获取产品常规价格
    */
   async getProductPrice(productId: number, currency: string) {
     const price = await db.select()
@@ -344,7 +443,9 @@ export class ProductService {
       .where(and(
         eq(schema.productPrices.productId, productId),
         eq(schema.productPrices.currency, currency),
-        eq(schema.productPrices.isActive, true)
+        eq(schema.productPrices.isActive, true),
+        isNull(schema.productPrices.variantId),
+        isNull(schema.productPrices.startsAt)
       ))
       .limit(1)
 
@@ -352,10 +453,14 @@ export class ProductService {
   }
 
   /**
-   * 获取产品所有价格
+   * 获取产品所有常规价格（不含规格价格和计划价格）
    */
   async getProductPrices(productId: number, activeOnly = true) {
-    const conditions = [eq(schema.productPrices.productId, productId)]
+    const conditions = [
+      eq(schema.productPrices.productId, productId),
+      isNull(schema.productPrices.variantId),
+      isNull(schema.productPrices.startsAt),
+    ]
 
     if (activeOnly) {
       conditions.push(eq(schema.productPrices.isActive, true))
@@ -481,6 +586,9 @@ export class ProductService {
         deliveryType: originalProduct.deliveryType,
         isActive: false, // 复制的产品默认不激活
         sortOrder: (originalProduct.sortOrder || 0) + 1,
+        minQuantity: originalProduct.minQuantity,
+        maxQuantity: originalProduct.maxQuantity,
+        taxCategory: originalProduct.taxCategory,
       }).returning()
 
       // 复制价格信息
@@ -491,6 +599,7 @@ export class ProductService {
               productId: newProduct[0].id,
               currency: price.currency,
               price: price.price,
+              compareAtPrice: price.compareAtPrice,
               isActive: price.isActive,
             })
           )
@@ -0,0 +1,206 @@
+import { db, schema, withTransaction } from '../db'
+import { and, asc, count, eq, isNull } from 'drizzle-orm'
+import { type ProductVariant } from '../db/schema'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+
+/**
+ * 创建/更新规格的参数
+ */
+export interface VariantInput {
+  name: string
+  templateText?: string | null
+  isActive?: boolean
+  sortOrder?: number
+}
+
+/**
+ * 规格常规价格
+ */
+export interface VariantPriceInput {
+  currency: string
+  price: number
+  isActive?: boolean
+}
+
+/**
+ * 商品规格服务
+ * 规格（如 1 个月、1 年、永久授权）归属于商品，有独立的价格（product_prices.variant_id）、
+ * 库存池（inventory_text.variant_id）和可选的发货模板；商品有启用的规格时下单必须选择规格
+ */
+export class ProductVariantService {
+  /**
+   * 获取商品的规格列表（按排序）
+   */
+  async listVariants(productId: number, activeOnly = false): Promise<ProductVariant[]> {
+    const conditions = [eq(schema.productVariants.productId, productId)]
+    if (activeOnly) {
+      conditions.push(eq(schema.productVariants.isActive, true))
+    }
+
+    return await db.select()
+      .from(schema.productVariants)
+      .where(and(...conditions))
+      .orderBy(asc(schema.productVariants.sortOrder), asc(schema.productVariants.id))
+  }
+
+  /**
+   * 获取商品的指定规格
+   */
+  async getVariant(productId: number, variantId: number): Promise<ProductVariant | null> {
+    const [variant] = await db.select()
+      .from(schema.productVariants)
+      .where(and(
+        eq(schema.productVariants.id, variantId),
+        eq(schema.productVariants.productId, productId)
+      ))
+      .limit(1)
+
+    return variant || null
+  }
+
+  /**
+   * 创建规格（可同时设置价格）
+   */
+  async createVariant(productId: number, input: VariantInput, prices: VariantPriceInput[] = []): Promise<ProductVariant> {
+    const name = this.normalizeName(input.name)
+    const [product] = await db.select({ id: schema.products.id })
+      .from(schema.products)
+      .where(eq(schema.products.id, productId))
+      .limit(1)
+    if (!product) {
+      throw new NotFoundError('Product', productId)
+    }
+
+    return await withTransaction(async (tx) => {
+      const [variant] = await tx.insert(schema.productVariants)
+        .values({
+          productId,
+          name,
+          templateText: input.templateText || null,
+          isActive: input.isActive !== false,
+          sortOrder: input.sortOrder ?? 0,
+        })
+        .returning()
+
+      if (prices.length > 0) {
+        await tx.insert(schema.productPrices).values(prices.map(price => ({
+          productId,
+          variantId: variant.id,
+          currency: price.currency,
+          price: price.price,
+          isActive: price.isActive !== false,
+        })))
+      }
+
+      return variant
+    })
+  }
+
+  /**
+   * 更新规格
+   */
+  async updateVariant(productId: number, variantId: number, input: Partial<VariantInput>): Promise<ProductVariant> {
+    await this.requireVariant(productId, variantId)
+
+    const [updated] = await db.update(schema.productVariants)
+      .set({
+        ...(input.name !== undefined ? { name: this.normalizeName(input.name) } : {}),
+        ...(input.templateText !== undefined ? { templateText: input.templateText || null } : {}),
+        ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+        ...(input.sortOrder !== undefined ? { sortOrder: input.sortOrder } : {}),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(schema.productVariants.id, variantId))
+      .returning()
+
+    return updated
+  }
+
+  /**
+   * 删除规格（同时删除规格价格和库存）
+   * 已有订单或已发出库存的规格只能停用，以保留订单记录
+   */
+  async deleteVariant(productId: number, variantId: number): Promise<void> {
+    await this.requireVariant(productId, variantId)
+
+    const [[orders], [usedInventory]] = await Promise.all([
+      db.select({ count: count() })
+        .from(schema.orderItems)
+        .where(eq(schema.orderItems.variantId, variantId)),
+      db.select({ count: count() })
+        .from(schema.inventoryText)
+        .where(and(
+          eq(schema.inventoryText.variantId, variantId),
+          eq(schema.inventoryText.isUsed, true)
+        )),
+    ])
+
+    if (orders.count > 0 || usedInventory.count > 0) {
+      throw new BusinessLogicError('该规格已有订单，只能停用不能删除', 'VARIANT_IN_USE', { variantId })
+    }
+
+    await db.delete(schema.productVariants).where(eq(schema.productVariants.id, variantId))
+  }
+
+  /**
+   * 获取规格的常规价格
+   */
+  async getVariantPrices(variantId: number) {
+    return await db.select()
+      .from(schema.productPrices)
+      .where(and(
+        eq(schema.productPrices.variantId, variantId),
+        isNull(schema.productPrices.startsAt)
+      ))
+      .orderBy(asc(schema.productPrices.currency))
+  }
+
+  /**
+   * 设置规格的常规价格（已存在的货币更新，不存在的新建）
+   */
+  async setVariantPrices(productId: number, variantId: number, prices: VariantPriceInput[]) {
+    await this.requireVariant(productId, variantId)
+    const existing = await this.getVariantPrices(variantId)
+
+    await withTransaction(async (tx) => {
+      for (const price of prices) {
+        const current = existing.find(row => row.currency === price.currency)
+        if (current) {
+          await tx.update(schema.productPrices)
+            .set({ price: price.price, isActive: price.isActive !== false, updatedAt: new Date().toISOString() })
+            .where(eq(schema.productPrices.id, current.id))
+        } else {
+          await tx.insert(schema.productPrices).values({
+            productId,
+            variantId,
+            currency: price.currency,
+            price: price.price,
+            isActive: price.isActive !== false,
+          })
+        }
+      }
+    })
+
+    return await this.getVariantPrices(variantId)
+  }
+
+  private async requireVariant(productId: number, variantId: number): Promise<ProductVariant> {
+    const variant = await this.getVariant(productId, variantId)
+    if (!variant) {
+      throw new NotFoundError('ProductVariant', variantId)
+    }
+    return variant
+  }
+
+  private normalizeName(name: string): string {
+    const trimmed = name.trim()
+    if (!trimmed) {
+      throw new BusinessLogicError('规格名称不能为空', 'VARIANT_INVALID')
+    }
+    return trimmed
+  }
+}
+
+export const productVariantService = new ProductVariantService()
+
+export default productVariantService
@@ -0,0 +1,282 @@
+import { db, schema } from '../db'
+import { and, desc, eq, asc, sql } from 'drizzle-orm'
+import {
+  OrderStatus,
+  ReconciliationOutcome,
+  ReconciliationRunStatus,
+  type Order,
+  type ReconciliationItem,
+  type ReconciliationRun,
+} from '../db/schema'
+import { paymentGatewayManager } from './payment-gateway-service'
+import { orderStateService } from './order-state-service'
+import { auditService } from './audit-service'
+import { CONFIG } from '../config/api'
+import type { GatewayType } from '../types/orders'
+
+// 配置常量
+const RECONCILIATION_INTERVAL_MINUTES = parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || '10', 10)
+const RECONCILIATION_MIN_AGE_MINUTES = parseInt(process.env.RECONCILIATION_MIN_AGE_MINUTES || '15', 10) // 给 webhook 留出到达时间
+const RECONCILIATION_MAX_AGE_HOURS = 24 // 与过期订单清理的超时时间一致
+const RECONCILIATION_BATCH_SIZE = 50
+
+export type ReconciliationOutcomeType = typeof ReconciliationOutcome[keyof typeof ReconciliationOutcome]
+
+/**
+ * 单个订单的对账结果
+ */
+interface ReconciliationCheck {
+  outcome: ReconciliationOutcomeType
+  gatewayStatus?: string
+  gatewayAmount?: number
+  message?: string
+}
+
+/**
+ * 支付状态对账服务
+ * 定期向网关查询超过 N 分钟仍未支付的订单，补偿丢失的 webhook，并记录对账报告
+ */
+export class ReconciliationService {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  /**
+   * 启动定时对账
+   */
+  start(intervalMinutes = RECONCILIATION_INTERVAL_MINUTES) {
+    if (this.timer) {
+      return
+    }
+
+    this.timer = setInterval(() => {
+      this.runReconciliation('scheduler').catch(error => console.error('[Reconciliation] Scheduled run failed:', error))
+    }, intervalMinutes * 60 * 1000)
+
+    console.log(`✅ Payment reconciliation scheduled every ${intervalMinutes} minutes`)
+  }
+
+  /**
+   * 停止定时对账
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * 执行一次对账
+   * 上一次对账尚未结束时返回 null
+   */
+  async runReconciliation(
+    triggeredBy: string,
+    options: { minAgeMinutes?: number } = {}
+  ): Promise<ReconciliationRun | null> {
+    if (this.running) {
+      console.log('[Reconciliation] Previous run still in progress, skipping')
+      return null
+    }
+
+    this.running = true
+    let run: ReconciliationRun
+    try {
+      [run] = await db.insert(schema.reconciliationRuns)
+        .values({ triggeredBy, status: ReconciliationRunStatus.RUNNING, startedAt: new Date().toISOString() })
+        .returning()
+    } catch (error) {
+      // 批次记录写入失败时也要释放运行标记，否则之后的定时对账都会被跳过
+      this.running = false
+      throw error
+    }
+
+    try {
+      await paymentGatewayManager.initialize()
+
+      const orders = await this.findStalePendingOrders(options.minAgeMinutes ?? RECONCILIATION_MIN_AGE_MINUTES)
+      const counts: Record<ReconciliationOutcomeType, number> = {
+        matched: 0,
+        recovered: 0,
+        mismatched: 0,
+        error: 0,
+      }
+
+      for (const order of orders) {
+        const check = await this.reconcileOrder(order)
+        counts[check.outcome]++
+
+        await db.insert(schema.reconciliationItems).values({
+          runId: run.id,
+          orderId: order.id,
+          gateway: order.gateway,
+          outcome: check.outcome,
+          localStatus: order.status,
+          gatewayStatus: check.gatewayStatus,
+          localAmount: order.amount,
+          gatewayAmount: check.gatewayAmount,
+          currency: order.currency,
+          message: check.message,
+        })
+      }
+
+      const [completed] = await db.update(schema.reconciliationRuns)
+        .set({
+          status: ReconciliationRunStatus.COMPLETED,
+          checkedCount: orders.length,
+          matchedCount: counts.matched,
+          recoveredCount: counts.recovered,
+          mismatchedCount: counts.mismatched,
+          errorCount: counts.error,
+          finishedAt: new Date().toISOString(),
+        })
+        .where(eq(schema.reconciliationRuns.id, run.id))
+        .returning()
+
+      console.log(`[Reconciliation] Run ${run.id} checked ${orders.length} orders`, counts)
+
+      await auditService.logAuditEvent({
+        action: 'payment_reconciliation',
+        resourceType: 'reconciliation',
+        resourceId: String(run.id),
+        success: counts.error === 0,
+        metadata: { triggeredBy, checked: orders.length, ...counts }
+      })
+
+      return completed
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`[Reconciliation] Run ${run.id} failed:`, error)
+
+      const [failed] = await db.update(schema.reconciliationRuns)
+        .set({
+          status: ReconciliationRunStatus.FAILED,
+          errorMessage,
+          finishedAt: new Date().toISOString(),
+        })
+        .where(eq(schema.reconciliationRuns.id, run.id))
+        .returning()
+
+      return failed
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * 查询并对账单个订单
+   */
+  async reconcileOrder(order: Order): Promise<ReconciliationCheck> {
+    try {
+      const result = await paymentGatewayManager.queryPayment(order.gateway, order.id, order.gatewayOrderId || undefined)
+      const check = { gatewayStatus: result.gatewayStatus, gatewayAmount: result.amount }
+
+      if (result.status === OrderStatus.PENDING) {
+        return { ...check, outcome: ReconciliationOutcome.MATCHED }
+      }
+
+      // 已支付但金额或币种对不上时不自动处理，留给人工核查
+      if (result.status === OrderStatus.PAID) {
+        if (result.amount === undefined || Math.abs(result.amount - order.amount) > CONFIG.PAYMENT.COMMON.AMOUNT_TOLERANCE) {
+          return {
+            ...check,
+            outcome: ReconciliationOutcome.MISMATCHED,
+            message: `Amount mismatch: expected ${order.amount}, gateway reported ${result.amount ?? 'none'}`,
+          }
+        }
+        if (result.currency && result.currency.toUpperCase() !== order.currency) {
+          return {
+            ...check,
+            outcome: ReconciliationOutcome.MISMATCHED,
+            message: `Currency mismatch: expected ${order.currency}, gateway reported ${result.currency}`,
+          }
+        }
+      }
+
+      await orderStateService.updateOrderStatusFromWebhook(
+        order.id,
+        order.gateway as GatewayType,
+        order.gatewayOrderId || order.id,
+        result.status,
+        {
+          transactionId: result.transactionId,
+          paidAt: result.status === OrderStatus.PAID ? new Date().toISOString() : undefined,
+          gatewayData: JSON.stringify(result.rawData),
+        }
+      )
+
+      console.log(`[Reconciliation] Order ${order.id} recovered as ${result.status} from ${order.gateway}`)
+      return { ...check, outcome: ReconciliationOutcome.RECOVERED, message: `Order marked as ${result.status}` }
+    } catch (error) {
+      return {
+        outcome: ReconciliationOutcome.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }
+    }
+  }
+
+  /**
+   * 获取对账批次列表
+   */
+  async listRuns(page = 1, limit = 20): Promise<{ runs: ReconciliationRun[]; total: number }> {
+    const runs = await db.select()
+      .from(schema.reconciliationRuns)
+      .orderBy(desc(schema.reconciliationRuns.id))
+      .limit(limit)
+      .offset((page - 1) * limit)
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+      .from(schema.reconciliationRuns)
+
+    return { runs, total: Number(count) }
+  }
+
+  /**
+   * 获取对账批次及明细
+   */
+  async getRun(runId: number): Promise<{ run: ReconciliationRun; items: ReconciliationItem[] } | null> {
+    const [run] = await db.select()
+      .from(schema.reconciliationRuns)
+      .where(eq(schema.reconciliationRuns.id, runId))
+      .limit(1)
+
+    if (!run) {
+      return null
+    }
+
+    const items = await db.select()
+      .from(schema.reconciliationItems)
+      .where(eq(schema.reconciliationItems.runId, runId))
+      .orderBy(asc(schema.reconciliationItems.id))
+
+    return { run, items }
+  }
+
+  /**
+   * 查找超过指定时间仍未支付、且网关支持主动查询的订单
+   */
+  private async findStalePendingOrders(minAgeMinutes: number): Promise<Order[]> {
+    const now = Date.now()
+    const createdBefore = new Date(now - minAgeMinutes * 60 * 1000).toISOString()
+    const createdAfter = new Date(now - RECONCILIATION_MAX_AGE_HOURS * 60 * 60 * 1000).toISOString()
+
+    // 下单时间可能是北京时间（+08:00 后缀）或 UTC，按文本比较会相差 8 小时，统一解析为时间后比较
+    const createdAt = sql`julianday(${schema.orders.createdAt})`
+
+    const orders = await db.select()
+      .from(schema.orders)
+      .where(and(
+        eq(schema.orders.status, OrderStatus.PENDING),
+        sql`${createdAt} <= julianday(${createdBefore})`,
+        sql`${createdAt} >= julianday(${createdAfter})`
+      ))
+      .orderBy(asc(createdAt))
+      .limit(RECONCILIATION_BATCH_SIZE)
+
+    return orders.filter(order => paymentGatewayManager.getGateway(order.gateway)?.queryPayment)
+  }
+}
+
+// 创建全局对账服务实例
+export const reconciliationService = new ReconciliationService()
+
+export default reconciliationService
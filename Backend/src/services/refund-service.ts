@@ -0,0 +1,349 @@
+import { randomBytes } from 'crypto'
+import { db, schema } from '../db'
+import { and, desc, eq, inArray, lte } from 'drizzle-orm'
+import { JobType, OrderStatus, RefundStatus, type Refund, type NewRefund } from '../db/schema'
+import { orderService } from './order-service'
+import { transactionService } from './transaction-service'
+import { paymentGatewayManager, type RefundResult } from './payment-gateway-service'
+import { auditService } from './audit-service'
+import { jobQueueService } from './job-queue-service'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+import type { GatewayRefundNotification } from './gateway-registry'
+import type { CurrencyType } from '../types/orders'
+
+export type RefundStatusType = typeof RefundStatus[keyof typeof RefundStatus]
+
+/**
+ * 发起退款参数
+ */
+export interface RequestRefundParams {
+  orderId: string
+  amount?: number // 不传时退还剩余可退金额
+  reason: string
+  requestedBy: string
+}
+
+/**
+ * 金额转为分，避免浮点误差
+ */
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+/**
+ * 生成退款请求号
+ */
+function generateRefundNo(): string {
+  return `RF${Date.now()}${randomBytes(4).toString('hex').toUpperCase()}`
+}
+
+/**
+ * 退款服务
+ * 每次退款请求记录在 refunds 表中；累计成功退款金额达到订单金额后，订单转为已退款
+ */
+export class RefundService {
+  /**
+   * 根据ID获取退款记录
+   */
+  async getRefundById(refundId: number): Promise<Refund | null> {
+    const [refund] = await db.select()
+      .from(schema.refunds)
+      .where(eq(schema.refunds.id, refundId))
+      .limit(1)
+
+    return refund || null
+  }
+
+  /**
+   * 获取订单的退款记录
+   */
+  async getRefundsByOrderId(orderId: string): Promise<Refund[]> {
+    return await db.select()
+      .from(schema.refunds)
+      .where(eq(schema.refunds.orderId, orderId))
+      .orderBy(desc(schema.refunds.createdAt), desc(schema.refunds.id))
+  }
+
+  /**
+   * 计算订单剩余可退金额（处理中的退款也计入已退金额）
+   */
+  async getRefundableAmount(orderId: string): Promise<number> {
+    const order = await orderService.getOrderById(orderId)
+    if (!order) {
+      throw new NotFoundError('Order', orderId)
+    }
+
+    const activeRefunds = await db.select()
+      .from(schema.refunds)
+      .where(and(
+        eq(schema.refunds.orderId, orderId),
+        inArray(schema.refunds.status, [RefundStatus.PENDING, RefundStatus.SUCCEEDED])
+      ))
+
+    const refundedCents = activeRefunds.reduce((sum, refund) => sum + toCents(refund.amount), 0)
+    return Math.max(toCents(order.amount) - refundedCents, 0) / 100
+  }
+
+  /**
+   * 通过支付网关发起退款
+   */
+  async requestRefund(params: RequestRefundParams): Promise<Refund> {
+    const order = await orderService.getOrderById(params.orderId)
+    if (!order) {
+      throw new NotFoundError('Order', params.orderId)
+    }
+
+    if (order.status !== OrderStatus.PAID && order.status !== OrderStatus.DELIVERED) {
+      throw new BusinessLogicError('只有已支付或已发货的订单才能退款', 'ORDER_NOT_REFUNDABLE', { status: order.status })
+    }
+
+    const refundable = await this.getRefundableAmount(order.id)
+    const amount = params.amount ?? refundable
+
+    if (toCents(amount) <= 0) {
+      throw new BusinessLogicError('订单没有可退金额', 'NOTHING_TO_REFUND', { refundable })
+    }
+    if (toCents(amount) > toCents(refundable)) {
+      throw new BusinessLogicError(`退款金额超过可退金额 ${refundable}`, 'REFUND_AMOUNT_EXCEEDED', { refundable })
+    }
+
+    await paymentGatewayManager.initialize()
+    if (!paymentGatewayManager.getGateway(order.gateway)?.refund) {
+      throw new BusinessLogicError(`支付网关 ${order.gateway} 不支持在线退款`, 'REFUND_NOT_SUPPORTED')
+    }
+
+    const [refund] = await db.insert(schema.refunds).values({
+      refundNo: generateRefundNo(),
+      orderId: order.id,
+      gateway: order.gateway,
+      amount,
+      currency: order.currency,
+      reason: params.reason,
+      status: RefundStatus.PENDING,
+      requestedBy: params.requestedBy,
+    }).returning()
+
+    // 并发请求可能同时通过上面的检查：按写入顺序复核，超出订单金额的后写入请求直接失败
+    const reservedRefunds = await db.select()
+      .from(schema.refunds)
+      .where(and(
+        eq(schema.refunds.orderId, order.id),
+        inArray(schema.refunds.status, [RefundStatus.PENDING, RefundStatus.SUCCEEDED]),
+        lte(schema.refunds.id, refund.id)
+      ))
+    const reservedCents = reservedRefunds.reduce((sum, item) => sum + toCents(item.amount), 0)
+
+    if (reservedCents > toCents(order.amount)) {
+      const remaining = Math.max(toCents(order.amount) - reservedCents + toCents(amount), 0) / 100
+      await this.updateRefund(refund.id, {
+        status: RefundStatus.FAILED,
+        errorMessage: '并发退款后超过可退金额',
+        completedAt: new Date().toISOString(),
+      })
+      throw new BusinessLogicError(`退款金额超过可退金额 ${remaining}`, 'REFUND_AMOUNT_EXCEEDED', { refundable: remaining })
+    }
+
+    // 只有网关调用本身失败时才将退款标记为失败；网关受理后的后续处理失败不会改变退款状态
+    let result: RefundResult
+    try {
+      result = await paymentGatewayManager.refund(order.gateway, order.id, amount, params.reason, {
+        refundNo: refund.refundNo,
+        gatewayOrderId: order.gatewayOrderId || undefined,
+        currency: order.currency as CurrencyType,
+      })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`[Refund] Gateway refund failed for order ${order.id}:`, error)
+
+      await auditService.logAuditEvent({
+        action: 'refund_requested',
+        resourceType: 'refund',
+        resourceId: refund.refundNo,
+        success: false,
+        errorMessage,
+        metadata: { orderId: order.id, gateway: order.gateway, amount }
+      })
+
+      return await this.updateRefund(refund.id, {
+        status: RefundStatus.FAILED,
+        errorMessage,
+        completedAt: new Date().toISOString(),
+      })
+    }
+
+    await auditService.logAuditEvent({
+      action: 'refund_requested',
+      resourceType: 'refund',
+      resourceId: refund.refundNo,
+      success: result.status !== RefundStatus.FAILED,
+      errorMessage: result.error,
+      metadata: {
+        orderId: order.id,
+        gateway: order.gateway,
+        amount,
+        currency: order.currency,
+        status: result.status,
+        gatewayRefundId: result.gatewayRefundId,
+        requestedBy: params.requestedBy,
+      }
+    })
+
+    if (result.status === 'pending') {
+      return await this.updateRefund(refund.id, { gatewayRefundId: result.gatewayRefundId })
+    }
+
+    return await this.completeRefund(refund, result.status, {
+      gatewayRefundId: result.gatewayRefundId,
+      errorMessage: result.error,
+    })
+  }
+
+  /**
+   * 退款成功后的后续处理：开具红字发票，全额退还后将订单转为已退款
+   * 可重复执行，失败时由 refund.finalize 任务重试
+   */
+  async finalizeRefund(refundId: number): Promise<void> {
+    const refund = await this.getRefundById(refundId)
+    if (!refund) {
+      throw new NotFoundError('Refund', refundId)
+    }
+    if (refund.status !== RefundStatus.SUCCEEDED) {
+      return
+    }
+
+    // 每笔成功退款开具一张红字发票
+    await jobQueueService.enqueue(JobType.INVOICE_CREDIT_NOTE, { refundId: refund.id }, {
+      orderId: refund.orderId,
+      idempotencyKey: `refund:${refund.id}:${JobType.INVOICE_CREDIT_NOTE}`,
+    })
+    await this.finalizeOrder(refund.orderId, refund.reason)
+  }
+
+  /**
+   * 处理网关的异步退款通知
+   * 返回 null 表示找不到对应的退款记录
+   */
+  async handleRefundNotification(gateway: string, notification: GatewayRefundNotification): Promise<Refund | null> {
+    const refund = await this.findRefund(gateway, notification)
+    if (!refund) {
+      console.warn(`[Refund] No refund record matches ${gateway} notification`, notification)
+      return null
+    }
+
+    // 已完成的退款重复通知直接忽略
+    if (refund.status !== RefundStatus.PENDING) {
+      return refund
+    }
+
+    await auditService.logAuditEvent({
+      action: 'refund_notification',
+      resourceType: 'refund',
+      resourceId: refund.refundNo,
+      success: notification.status === RefundStatus.SUCCEEDED,
+      errorMessage: notification.error,
+      metadata: {
+        orderId: refund.orderId,
+        gateway,
+        gatewayRefundId: notification.gatewayRefundId,
+      }
+    })
+
+    return await this.completeRefund(refund, notification.status, {
+      gatewayRefundId: notification.gatewayRefundId || refund.gatewayRefundId,
+      errorMessage: notification.error,
+    })
+  }
+
+  /**
+   * 按退款请求号或网关退款单号查找退款记录
+   */
+  private async findRefund(gateway: string, notification: GatewayRefundNotification): Promise<Refund | null> {
+    const condition = notification.refundNo
+      ? eq(schema.refunds.refundNo, notification.refundNo)
+      : notification.gatewayRefundId
+        ? eq(schema.refunds.gatewayRefundId, notification.gatewayRefundId)
+        : null
+
+    if (!condition) {
+      return null
+    }
+
+    const [refund] = await db.select()
+      .from(schema.refunds)
+      .where(and(eq(schema.refunds.gateway, gateway), condition))
+      .limit(1)
+
+    return refund || null
+  }
+
+  /**
+   * 记录退款最终结果
+   * 退款成功后先保存状态再做后续处理，后续处理失败时转入任务队列重试，不会把已退款的记录改为失败
+   */
+  private async completeRefund(
+    refund: Refund,
+    status: 'succeeded' | 'failed',
+    updates: { gatewayRefundId?: string; errorMessage?: string }
+  ): Promise<Refund> {
+    const completed = await this.updateRefund(refund.id, {
+      status,
+      gatewayRefundId: updates.gatewayRefundId,
+      errorMessage: status === RefundStatus.FAILED ? updates.errorMessage || 'Refund failed' : null,
+      completedAt: new Date().toISOString(),
+    })
+
+    if (status === RefundStatus.SUCCEEDED) {
+      try {
+        await this.finalizeRefund(refund.id)
+      } catch (error) {
+        console.error(`[Refund] Finalizing refund ${refund.refundNo} failed, scheduling a retry:`, error)
+        await jobQueueService.enqueue(JobType.REFUND_FINALIZE, { refundId: refund.id }, {
+          orderId: refund.orderId,
+          idempotencyKey: `refund:${refund.id}:${JobType.REFUND_FINALIZE}`,
+        })
+      }
+    }
+
+    return completed
+  }
+
+  /**
+   * 累计成功退款金额达到订单金额时，失效发货并标记订单为已退款
+   */
+  private async finalizeOrder(orderId: string, reason?: string | null): Promise<void> {
+    const order = await orderService.getOrderById(orderId)
+    if (!order || (order.status !== OrderStatus.PAID && order.status !== OrderStatus.DELIVERED)) {
+      return
+    }
+
+    const succeeded = await db.select()
+      .from(schema.refunds)
+      .where(and(
+        eq(schema.refunds.orderId, orderId),
+        eq(schema.refunds.status, RefundStatus.SUCCEEDED)
+      ))
+
+    const refundedCents = succeeded.reduce((sum, refund) => sum + toCents(refund.amount), 0)
+    if (refundedCents < toCents(order.amount)) {
+      console.log(`[Refund] Order ${orderId} partially refunded: ${refundedCents / 100} / ${order.amount} ${order.currency}`)
+      return
+    }
+
+    await transactionService.processRefund(orderId, reason || undefined)
+    console.log(`[Refund] Order ${orderId} fully refunded`)
+  }
+
+  private async updateRefund(id: number, values: Partial<NewRefund>): Promise<Refund> {
+    const [refund] = await db.update(schema.refunds)
+      .set({ ...values, updatedAt: new Date().toISOString() })
+      .where(eq(schema.refunds.id, id))
+      .returning()
+
+    return refund
+  }
+}
+
+// 创建全局退款服务实例
+export const refundService = new RefundService()
+
+export default refundService
@@ -0,0 +1,506 @@
+import { db, schema } from '../db'
+import { and, desc, eq, inArray, or, sql, asc } from 'drizzle-orm'
+import {
+  OrderStatus,
+  RefundStatus,
+  SettlementDiscrepancyType,
+  type NewSettlementDiscrepancy,
+  type Order,
+  type SettlementDiscrepancy,
+  type SettlementImport,
+} from '../db/schema'
+import { auditService } from './audit-service'
+import { BusinessLogicError } from './error-handler'
+import { CONFIG } from '../config/api'
+
+/**
+ * 结算文件明细行（金额均为正数，由 type 区分收款和退款）
+ */
+export interface SettlementLine {
+  lineNo: number
+  type: 'payment' | 'refund'
+  gatewayOrderId: string // 商户订单号 / Creem checkout id
+  transactionId?: string // 网关交易号
+  refundNo?: string // 退款请求号
+  amount: number
+  currency: string
+  occurredAt?: string
+}
+
+/**
+ * 导入参数（content 为文件文本内容，编码由前端按网关处理）
+ */
+export interface ImportSettlementParams {
+  gateway: string
+  fileName: string
+  content: string
+  importedBy: string
+}
+
+type SettlementParser = (content: string) => SettlementLine[]
+
+type PendingDiscrepancy = Omit<NewSettlementDiscrepancy, 'importId'>
+
+// 本地已收款的订单状态
+const SETTLED_ORDER_STATUSES: string[] = [OrderStatus.PAID, OrderStatus.DELIVERED, OrderStatus.REFUNDED]
+
+/**
+ * 解析 CSV 文本，返回带行号的单元格（不支持跨行的引号字段）
+ */
+function parseCsvRows(content: string): Array<{ lineNo: number; cells: string[] }> {
+  return content.replace(/^﻿/, '').split(/\r?\n/).map((line, index) => {
+    const cells: string[] = []
+    let current = ''
+    let quoted = false
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          current += char
+        }
+      } else if (char === '"') {
+        quoted = true
+      } else if (char === ',') {
+        cells.push(current.trim())
+        current = ''
+      } else {
+        current += char
+      }
+    }
+    cells.push(current.trim())
+
+    return { lineNo: index + 1, cells }
+  }).filter(row => row.cells.some(cell => cell.length > 0))
+}
+
+/**
+ * 按表头名称查找列（支持多个别名）
+ */
+function findColumn(header: string[], names: string[]): number {
+  return header.findIndex(cell => names.some(name => cell === name || cell.startsWith(name)))
+}
+
+function parseAmount(value: string | undefined): number {
+  const amount = parseFloat((value || '').replace(/[^\d.-]/g, ''))
+  return isNaN(amount) ? NaN : Math.abs(amount)
+}
+
+/**
+ * 解析支付宝业务明细账单（CSV，# 开头的为说明行）
+ */
+export function parseAlipayBill(content: string): SettlementLine[] {
+  const rows = parseCsvRows(content).filter(row => !row.cells[0].startsWith('#'))
+  const headerIndex = rows.findIndex(row => row.cells.includes('支付宝交易号'))
+  if (headerIndex === -1) {
+    throw new BusinessLogicError('无法识别的支付宝账单格式：缺少“支付宝交易号”表头', 'INVALID_SETTLEMENT_FILE')
+  }
+
+  const header = rows[headerIndex].cells
+  const columns = {
+    tradeNo: findColumn(header, ['支付宝交易号']),
+    outTradeNo: findColumn(header, ['商户订单号']),
+    bizType: findColumn(header, ['业务类型']),
+    finishedAt: findColumn(header, ['完成时间']),
+    amount: findColumn(header, ['订单金额']),
+    refundNo: findColumn(header, ['退款批次号/请求号']),
+  }
+
+  const lines: SettlementLine[] = []
+  for (const { lineNo, cells } of rows.slice(headerIndex + 1)) {
+    const bizType = cells[columns.bizType]
+    if (bizType !== '交易' && bizType !== '退款') {
+      continue
+    }
+
+    lines.push({
+      lineNo,
+      type: bizType === '交易' ? 'payment' : 'refund',
+      gatewayOrderId: cells[columns.outTradeNo],
+      transactionId: cells[columns.tradeNo] || undefined,
+      refundNo: columns.refundNo >= 0 ? cells[columns.refundNo] || undefined : undefined,
+      amount: parseAmount(cells[columns.amount]),
+      currency: 'CNY',
+      occurredAt: cells[columns.finishedAt] || undefined,
+    })
+  }
+
+  return lines
+}
+
+/**
+ * 解析 Creem 结算导出（CSV，首行为表头）
+ */
+export function parseCreemPayouts(content: string): SettlementLine[] {
+  const [headerRow, ...rows] = parseCsvRows(content)
+  if (!headerRow) {
+    return []
+  }
+
+  const header = headerRow.cells.map(cell => cell.toLowerCase())
+  const columns = {
+    transactionId: findColumn(header, ['transaction_id', 'transaction']),
+    checkoutId: findColumn(header, ['checkout_id', 'order_id']),
+    type: findColumn(header, ['type']),
+    amount: findColumn(header, ['amount']),
+    currency: findColumn(header, ['currency']),
+    refundNo: findColumn(header, ['request_id', 'refund_id']),
+    createdAt: findColumn(header, ['created_at', 'date']),
+  }
+
+  if (columns.checkoutId === -1 || columns.amount === -1) {
+    throw new BusinessLogicError('无法识别的 Creem 导出格式：缺少 checkout_id 或 amount 列', 'INVALID_SETTLEMENT_FILE')
+  }
+
+  return rows.map(({ lineNo, cells }) => {
+    const type = (cells[columns.type] || 'payment').toLowerCase()
+
+    return {
+      lineNo,
+      type: type.includes('refund') ? 'refund' as const : 'payment' as const,
+      gatewayOrderId: cells[columns.checkoutId],
+      transactionId: columns.transactionId >= 0 ? cells[columns.transactionId] || undefined : undefined,
+      refundNo: columns.refundNo >= 0 ? cells[columns.refundNo] || undefined : undefined,
+      amount: parseAmount(cells[columns.amount]),
+      currency: (columns.currency >= 0 && cells[columns.currency] ? cells[columns.currency] : 'USD').toUpperCase(),
+      occurredAt: columns.createdAt >= 0 ? cells[columns.createdAt] || undefined : undefined,
+    }
+  })
+}
+
+// 支持导入结算文件的网关
+const SETTLEMENT_PARSERS: Record<string, SettlementParser> = {
+  alipay: parseAlipayBill,
+  creem: parseCreemPayouts,
+}
+
+/**
+ * CSV 单元格转义
+ */
+function csvCell(value: string | number | null | undefined): string {
+  return `"${String(value ?? '').replace(/"/g, '""')}"`
+}
+
+/**
+ * 结算对账服务
+ * 导入网关结算文件，按 gatewayOrderId 与本地订单、退款和支付回调记录逐行核对
+ */
+export class SettlementService {
+  /**
+   * 支持导入结算文件的网关
+   */
+  getSupportedGateways(): string[] {
+    return Object.keys(SETTLEMENT_PARSERS)
+  }
+
+  /**
+   * 导入结算文件并生成差异明细
+   */
+  async importSettlement(params: ImportSettlementParams): Promise<SettlementImport> {
+    const parser = SETTLEMENT_PARSERS[params.gateway]
+    if (!parser) {
+      throw new BusinessLogicError(`不支持导入 ${params.gateway} 的结算文件`, 'SETTLEMENT_GATEWAY_UNSUPPORTED')
+    }
+
+    const lines = parser(params.content)
+    if (lines.length === 0) {
+      throw new BusinessLogicError('结算文件中没有可识别的明细行', 'INVALID_SETTLEMENT_FILE')
+    }
+
+    const invalidLine = lines.find(line => !line.gatewayOrderId || isNaN(line.amount))
+    if (invalidLine) {
+      throw new BusinessLogicError(`第 ${invalidLine.lineNo} 行缺少订单号或金额无效`, 'INVALID_SETTLEMENT_FILE')
+    }
+
+    const discrepancies: PendingDiscrepancy[] = []
+    const seenLines = new Map<string, number>() // 网关交易 -> 首次出现的行号
+    const settledOrders = new Map<string, number>() // 本地订单 -> 首次收款的行号
+    let matchedCount = 0
+
+    for (const line of lines) {
+      const discrepancy = line.type === 'payment'
+        ? await this.checkPaymentLine(params.gateway, line, seenLines, settledOrders)
+        : await this.checkRefundLine(params.gateway, line, seenLines)
+
+      if (discrepancy) {
+        discrepancies.push(discrepancy)
+      } else {
+        matchedCount++
+      }
+    }
+
+    const sumCents = (type: SettlementLine['type']) => lines
+      .filter(line => line.type === type)
+      .reduce((sum, line) => sum + Math.round(line.amount * 100), 0)
+
+    const [settlement] = await db.insert(schema.settlementImports).values({
+      gateway: params.gateway,
+      fileName: params.fileName,
+      lineCount: lines.length,
+      matchedCount,
+      discrepancyCount: discrepancies.length,
+      paymentAmount: sumCents('payment') / 100,
+      refundAmount: sumCents('refund') / 100,
+      importedBy: params.importedBy,
+      createdAt: new Date().toISOString(),
+    }).returning()
+
+    if (discrepancies.length > 0) {
+      await db.insert(schema.settlementDiscrepancies).values(
+        discrepancies.map(discrepancy => ({ ...discrepancy, importId: settlement.id }))
+      )
+    }
+
+    await auditService.logAuditEvent({
+      action: 'settlement_imported',
+      resourceType: 'settlement',
+      resourceId: String(settlement.id),
+      success: true,
+      metadata: {
+        gateway: params.gateway,
+        fileName: params.fileName,
+        lineCount: lines.length,
+        matchedCount,
+        discrepancyCount: discrepancies.length,
+        importedBy: params.importedBy,
+      }
+    })
+
+    console.log(`[Settlement] Imported ${params.gateway} file ${params.fileName}: ${lines.length} lines, ${discrepancies.length} discrepancies`)
+    return settlement
+  }
+
+  /**
+   * 获取导入记录列表
+   */
+  async listImports(page = 1, limit = 20): Promise<{ imports: SettlementImport[]; total: number }> {
+    const imports = await db.select()
+      .from(schema.settlementImports)
+      .orderBy(desc(schema.settlementImports.id))
+      .limit(limit)
+      .offset((page - 1) * limit)
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+      .from(schema.settlementImports)
+
+    return { imports, total: Number(count) }
+  }
+
+  /**
+   * 获取导入记录及差异明细
+   */
+  async getImport(importId: number): Promise<{ settlement: SettlementImport; discrepancies: SettlementDiscrepancy[] } | null> {
+    const [settlement] = await db.select()
+      .from(schema.settlementImports)
+      .where(eq(schema.settlementImports.id, importId))
+      .limit(1)
+
+    if (!settlement) {
+      return null
+    }
+
+    const discrepancies = await db.select()
+      .from(schema.settlementDiscrepancies)
+      .where(eq(schema.settlementDiscrepancies.importId, importId))
+      .orderBy(asc(schema.settlementDiscrepancies.lineNo))
+
+    return { settlement, discrepancies }
+  }
+
+  /**
+   * 生成差异报告（CSV）
+   */
+  async exportDiscrepancyReport(importId: number): Promise<{ data: string; filename: string } | null> {
+    const result = await this.getImport(importId)
+    if (!result) {
+      return null
+    }
+
+    const headers = ['差异类型', '行号', '网关订单号', '网关交易号', '本地订单ID', '本地金额', '结算金额', '货币', '说明']
+    const rows = result.discrepancies.map(discrepancy => [
+      discrepancy.type,
+      discrepancy.lineNo,
+      discrepancy.gatewayOrderId,
+      discrepancy.transactionId,
+      discrepancy.orderId,
+      discrepancy.localAmount,
+      discrepancy.settledAmount,
+      discrepancy.currency,
+      discrepancy.message,
+    ])
+
+    return {
+      data: [headers.join(','), ...rows.map(row => row.map(csvCell).join(','))].join('\n'),
+      filename: `settlement_${result.settlement.gateway}_${result.settlement.id}_discrepancies.csv`,
+    }
+  }
+
+  /**
+   * 核对收款行
+   */
+  private async checkPaymentLine(
+    gateway: string,
+    line: SettlementLine,
+    seenLines: Map<string, number>,
+    settledOrders: Map<string, number>
+  ): Promise<PendingDiscrepancy | null> {
+    const key = `payment:${line.transactionId || line.gatewayOrderId}`
+    const firstLine = seenLines.get(key)
+    if (firstLine !== undefined) {
+      return this.discrepancy(SettlementDiscrepancyType.DUPLICATE, line, null, `与第 ${firstLine} 行重复`)
+    }
+    seenLines.set(key, line.lineNo)
+
+    const order = await this.findOrder(gateway, line)
+    if (!order) {
+      const webhookReceived = await this.hasWebhookRecord(gateway, line)
+      return this.discrepancy(
+        SettlementDiscrepancyType.MISSING_ORDER,
+        line,
+        null,
+        webhookReceived ? '本地无对应订单（已收到支付回调）' : '本地无对应订单，也未收到支付回调'
+      )
+    }
+
+    const settledLine = settledOrders.get(order.id)
+    if (settledLine !== undefined) {
+      return this.discrepancy(SettlementDiscrepancyType.DUPLICATE, line, order, `订单已在第 ${settledLine} 行收款，疑似重复支付`)
+    }
+    settledOrders.set(order.id, line.lineNo)
+
+    if (this.amountDiffers(order.amount, line.amount) || order.currency !== line.currency) {
+      return this.discrepancy(
+        SettlementDiscrepancyType.AMOUNT_MISMATCH,
+        line,
+        order,
+        `订单金额 ${order.amount} ${order.currency}，结算金额 ${line.amount} ${line.currency}`
+      )
+    }
+
+    if (!SETTLED_ORDER_STATUSES.includes(order.status)) {
+      return this.discrepancy(SettlementDiscrepancyType.STATUS_MISMATCH, line, order, `网关已收款，本地订单状态为 ${order.status}`)
+    }
+
+    return null
+  }
+
+  /**
+   * 核对退款行
+   */
+  private async checkRefundLine(
+    gateway: string,
+    line: SettlementLine,
+    seenLines: Map<string, number>
+  ): Promise<PendingDiscrepancy | null> {
+    const key = `refund:${line.refundNo || line.transactionId || line.gatewayOrderId}:${line.amount}`
+    const firstLine = seenLines.get(key)
+    if (firstLine !== undefined) {
+      return this.discrepancy(SettlementDiscrepancyType.DUPLICATE, line, null, `与第 ${firstLine} 行重复`)
+    }
+    seenLines.set(key, line.lineNo)
+
+    const order = await this.findOrder(gateway, line)
+    if (!order) {
+      return this.discrepancy(SettlementDiscrepancyType.MISSING_ORDER, line, null, '退款对应的订单在本地不存在')
+    }
+
+    if (line.refundNo) {
+      const [refund] = await db.select()
+        .from(schema.refunds)
+        .where(and(
+          eq(schema.refunds.gateway, gateway),
+          or(eq(schema.refunds.refundNo, line.refundNo), eq(schema.refunds.gatewayRefundId, line.refundNo))
+        ))
+        .limit(1)
+
+      if (refund) {
+        if (refund.status !== RefundStatus.SUCCEEDED) {
+          return this.discrepancy(SettlementDiscrepancyType.REFUND_NOT_REFLECTED, line, order, `本地退款 ${refund.refundNo} 状态为 ${refund.status}`)
+        }
+        if (this.amountDiffers(refund.amount, line.amount)) {
+          return this.discrepancy(
+            SettlementDiscrepancyType.AMOUNT_MISMATCH,
+            line,
+            order,
+            `本地退款金额 ${refund.amount}，结算退款金额 ${line.amount}`
+          )
+        }
+        return null
+      }
+    }
+
+    // 未通过本系统发起的退款，只要订单已标记为退款即视为一致
+    if (order.status !== OrderStatus.REFUNDED) {
+      return this.discrepancy(SettlementDiscrepancyType.REFUND_NOT_REFLECTED, line, order, `网关已退款，本地订单状态为 ${order.status}`)
+    }
+
+    return null
+  }
+
+  /**
+   * 按网关订单号（或交易号、本地订单ID）查找订单
+   */
+  private async findOrder(gateway: string, line: SettlementLine): Promise<Order | null> {
+    const gatewayIds = [line.gatewayOrderId, line.transactionId].filter((id): id is string => Boolean(id))
+
+    const [order] = await db.select()
+      .from(schema.orders)
+      .where(and(
+        eq(schema.orders.gateway, gateway),
+        or(inArray(schema.orders.gatewayOrderId, gatewayIds), eq(schema.orders.id, line.gatewayOrderId))
+      ))
+      .limit(1)
+
+    return order || null
+  }
+
+  /**
+   * 是否收到过该笔交易的支付回调
+   */
+  private async hasWebhookRecord(gateway: string, line: SettlementLine): Promise<boolean> {
+    const gatewayIds = [line.gatewayOrderId, line.transactionId].filter((id): id is string => Boolean(id))
+
+    const [record] = await db.select({ id: schema.paymentsRaw.id })
+      .from(schema.paymentsRaw)
+      .where(and(
+        eq(schema.paymentsRaw.gateway, gateway),
+        or(inArray(schema.paymentsRaw.gatewayOrderId, gatewayIds), inArray(schema.paymentsRaw.gatewayTransactionId, gatewayIds))
+      ))
+      .limit(1)
+
+    return Boolean(record)
+  }
+
+  private amountDiffers(expected: number, actual: number): boolean {
+    return Math.abs(expected - actual) > CONFIG.PAYMENT.COMMON.AMOUNT_TOLERANCE
+  }
+
+  private discrepancy(
+    type: typeof SettlementDiscrepancyType[keyof typeof SettlementDiscrepancyType],
+    line: SettlementLine,
+    order: Order | null,
+    message: string
+  ): PendingDiscrepancy {
+    return {
+      type,
+      lineNo: line.lineNo,
+      gatewayOrderId: line.gatewayOrderId,
+      transactionId: line.transactionId,
+      orderId: order?.id,
+      localAmount: order?.amount,
+      settledAmount: line.amount,
+      currency: line.currency,
+      message,
+    }
+  }
+}
+
+// 创建全局结算对账服务实例
+export const settlementService = new SettlementService()
+
+export default settlementService
@@ -0,0 +1,280 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { createHash, randomUUID } from 'crypto'
+import { createWriteStream } from 'fs'
+import { pipeline } from 'stream/promises'
+import type { Readable } from 'stream'
+import { db, schema } from '../db'
+import { and, eq, ne } from 'drizzle-orm'
+import type { File } from '../db/schema'
+import { configService } from './config-service'
+import { BusinessLogicError } from './error-handler'
+import { LocalStorageDriver } from './storage/local'
+import { S3StorageDriver } from './storage/s3'
+
+// ==============================================
+// 文件存储驱动定义
+// ==============================================
+
+/**
+ * 写入的内容：内存中的数据，或本地文件（大文件上传、迁移时使用）
+ */
+export type StorageSource = Buffer | { filePath: string }
+
+/**
+ * 写入选项
+ */
+export interface StoragePutOptions {
+  contentType?: string
+  /**
+   * 源为本地文件时，写入成功后删除源文件（本地驱动直接移动文件）
+   */
+  removeSource?: boolean
+}
+
+/**
+ * 预签名下载链接选项
+ */
+export interface StoragePresignOptions {
+  expiresIn: number
+  contentDisposition?: string
+  contentType?: string
+}
+
+/**
+ * 文件存储驱动（key 为 files.file_path）
+ */
+export interface StorageDriver {
+  readonly name: string
+
+  put(key: string, source: StorageSource, options?: StoragePutOptions): Promise<void>
+
+  read(key: string): Promise<Buffer>
+
+  /**
+   * 打开读取流，range 为闭区间
+   */
+  createReadStream(key: string, range?: { start: number; end: number } | null): Promise<Readable>
+
+  /**
+   * 获取对象大小，不存在时返回 null
+   */
+  stat(key: string): Promise<{ size: number } | null>
+
+  /**
+   * 删除对象（对象不存在时不报错）
+   */
+  delete(key: string): Promise<void>
+
+  /**
+   * 生成预签名下载链接，不支持时不实现
+   */
+  getPresignedUrl?(key: string, options: StoragePresignOptions): Promise<string>
+}
+
+/**
+ * 存储迁移选项
+ */
+export interface StorageMigrationOptions {
+  from?: string
+  to: string
+  deleteSource?: boolean
+  dryRun?: boolean
+  limit?: number
+  onProgress?: (file: File, error?: string) => void
+}
+
+/**
+ * 存储迁移结果
+ */
+export interface StorageMigrationResult {
+  total: number
+  migrated: number
+  failed: Array<{ fileId: number; filePath: string; error: string }>
+}
+
+/**
+ * 计算流内容的 SHA-256 校验和
+ */
+export async function hashStream(stream: Readable): Promise<string> {
+  const hash = createHash('sha256')
+  for await (const chunk of stream) {
+    hash.update(chunk)
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * 文件存储服务
+ * 管理存储驱动，files 记录按 storage_driver 字段选择驱动，新文件写入配置的默认驱动
+ */
+export class StorageService {
+  private drivers = new Map<string, StorageDriver>()
+
+  constructor() {
+    this.register(new LocalStorageDriver())
+    this.register(new S3StorageDriver())
+  }
+
+  register(driver: StorageDriver): void {
+    this.drivers.set(driver.name, driver)
+  }
+
+  get(name: string): StorageDriver | undefined {
+    return this.drivers.get(name)
+  }
+
+  list(): StorageDriver[] {
+    return Array.from(this.drivers.values())
+  }
+
+  /**
+   * 获取驱动，未注册时抛出错误
+   */
+  require(name: string): StorageDriver {
+    const driver = this.drivers.get(name)
+    if (!driver) {
+      throw new BusinessLogicError(`未知的存储驱动: ${name}`, 'STORAGE_DRIVER_UNKNOWN', { driver: name })
+    }
+    return driver
+  }
+
+  /**
+   * 新文件使用的驱动（storage.driver 配置）
+   */
+  async getDefaultDriver(): Promise<StorageDriver> {
+    return this.require(await configService.getConfig('storage', 'driver', 'local'))
+  }
+
+  /**
+   * 文件记录所在的驱动（旧记录没有 storage_driver 时按本地磁盘处理）
+   */
+  forFile(file: Pick<File, 'storageDriver'>): StorageDriver {
+    return this.require(file.storageDriver || 'local')
+  }
+
+  /**
+   * 生成文件的预签名下载链接，驱动不支持或已关闭预签名时返回 null（由应用代理输出）
+   */
+  async getDownloadUrl(file: File, contentDisposition: string): Promise<string | null> {
+    const driver = this.forFile(file)
+    if (!driver.getPresignedUrl) {
+      return null
+    }
+
+    const enabled = await configService.getConfig('storage', 'presign_downloads', true)
+    if (!enabled) {
+      return null
+    }
+
+    const expiresIn = Number(await configService.getConfig('storage', 'presign_expires', 300))
+    return await driver.getPresignedUrl(file.filePath, {
+      expiresIn,
+      contentDisposition,
+      contentType: file.mimeType || undefined,
+    })
+  }
+
+  /**
+   * 将文件迁移到目标驱动：经临时文件复制，校验源文件和写入后的 SHA-256，校验通过后才更新 files 记录
+   */
+  async migrateFile(file: File, targetName: string, options: { deleteSource?: boolean } = {}): Promise<void> {
+    const source = this.forFile(file)
+    const target = this.require(targetName)
+    if (source.name === target.name) {
+      return
+    }
+
+    const tempPath = path.join(os.tmpdir(), `autoship-storage-${randomUUID()}`)
+    try {
+      const hash = createHash('sha256')
+      await pipeline(
+        await source.createReadStream(file.filePath),
+        async function* (chunks: AsyncIterable<Buffer>) {
+          for await (const chunk of chunks) {
+            hash.update(chunk)
+            yield chunk
+          }
+        },
+        createWriteStream(tempPath)
+      )
+
+      const checksum = hash.digest('hex')
+      if (file.checksum && file.checksum !== checksum) {
+        throw new BusinessLogicError('源文件校验和与记录不一致', 'STORAGE_CHECKSUM_MISMATCH', {
+          fileId: file.id,
+          expected: file.checksum,
+          actual: checksum,
+        })
+      }
+
+      await target.put(file.filePath, { filePath: tempPath }, {
+        contentType: file.mimeType || undefined,
+        removeSource: true,
+      })
+
+      const written = await hashStream(await target.createReadStream(file.filePath))
+      if (written !== checksum) {
+        await target.delete(file.filePath)
+        throw new BusinessLogicError('写入后的文件校验和不一致', 'STORAGE_CHECKSUM_MISMATCH', {
+          fileId: file.id,
+          expected: checksum,
+          actual: written,
+        })
+      }
+
+      await db.update(schema.files)
+        .set({ storageDriver: target.name, checksum })
+        .where(and(eq(schema.files.id, file.id), eq(schema.files.storageDriver, source.name)))
+
+      if (options.deleteSource) {
+        await source.delete(file.filePath)
+      }
+    } finally {
+      await fs.rm(tempPath, { force: true })
+    }
+  }
+
+  /**
+   * 批量迁移有效文件，单个文件失败不影响其他文件
+   */
+  async migrateFiles(options: StorageMigrationOptions): Promise<StorageMigrationResult> {
+    const target = this.require(options.to)
+    if (options.from) {
+      this.require(options.from)
+    }
+
+    const query = db.select()
+      .from(schema.files)
+      .where(and(
+        eq(schema.files.isActive, true),
+        options.from ? eq(schema.files.storageDriver, options.from) : ne(schema.files.storageDriver, target.name)
+      ))
+      .orderBy(schema.files.id)
+    const files = options.limit ? await query.limit(options.limit) : await query
+
+    const result: StorageMigrationResult = { total: files.length, migrated: 0, failed: [] }
+    if (options.dryRun) {
+      return result
+    }
+
+    for (const file of files) {
+      try {
+        await this.migrateFile(file, target.name, { deleteSource: options.deleteSource })
+        result.migrated++
+        options.onProgress?.(file)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        result.failed.push({ fileId: file.id, filePath: file.filePath, error: message })
+        options.onProgress?.(file, message)
+      }
+    }
+
+    return result
+  }
+}
+
+export const storageService = new StorageService()
+
+export default storageService
@@ -0,0 +1,67 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { createReadStream } from 'fs'
+import type { Readable } from 'stream'
+import type { StorageDriver, StoragePutOptions, StorageSource } from '../storage-service'
+
+/**
+ * 本地磁盘存储驱动（key 即文件路径）
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local'
+
+  async put(key: string, source: StorageSource, options: StoragePutOptions = {}): Promise<void> {
+    await fs.mkdir(path.dirname(key), { recursive: true })
+
+    if (Buffer.isBuffer(source)) {
+      await fs.writeFile(key, source)
+      return
+    }
+
+    if (!options.removeSource) {
+      await fs.copyFile(source.filePath, key)
+      return
+    }
+
+    try {
+      await fs.rename(source.filePath, key)
+    } catch (error) {
+      // 跨设备时无法直接移动，改为复制后删除
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error
+      }
+      await fs.copyFile(source.filePath, key)
+      await fs.unlink(source.filePath)
+    }
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return await fs.readFile(key)
+  }
+
+  async createReadStream(key: string, range?: { start: number; end: number } | null): Promise<Readable> {
+    return createReadStream(key, range ? { start: range.start, end: range.end } : {})
+  }
+
+  async stat(key: string): Promise<{ size: number } | null> {
+    try {
+      const stats = await fs.stat(key)
+      return { size: stats.size }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(key)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+    }
+  }
+}
@@ -0,0 +1,331 @@
+import fs from 'fs/promises'
+import { createHash, createHmac } from 'crypto'
+import { createReadStream } from 'fs'
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { configService } from '../config-service'
+import { BusinessLogicError } from '../error-handler'
+import type { StorageDriver, StoragePresignOptions, StoragePutOptions, StorageSource } from '../storage-service'
+
+/**
+ * S3 兼容存储配置（AWS S3、MinIO、Cloudflare R2 等）
+ */
+export interface S3StorageConfig {
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  forcePathStyle: boolean
+}
+
+/**
+ * 待签名的请求
+ */
+export interface S3RequestInput {
+  method: string
+  key: string
+  query?: Record<string, string>
+  headers?: Record<string, string>
+  payloadHash?: string
+  now?: Date
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+// 非流式请求的超时时间
+const REQUEST_TIMEOUT = 30000
+
+/**
+ * RFC 3986 编码（SigV4 要求额外编码 !'()*）
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+/**
+ * 将 files.file_path 转换为对象键（去掉 ./ 和开头的 /，统一使用 / 分隔）
+ */
+export function normalizeObjectKey(key: string): string {
+  return key.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/^\/+/, '')
+}
+
+/**
+ * 对象的请求地址（path-style 或 virtual-hosted-style）
+ */
+function resolveObjectUrl(config: S3StorageConfig, key: string): URL {
+  const endpoint = new URL(config.endpoint)
+  const objectPath = normalizeObjectKey(key).split('/').map(encodeRfc3986).join('/')
+
+  if (config.forcePathStyle) {
+    endpoint.pathname = `/${config.bucket}/${objectPath}`
+  } else {
+    endpoint.host = `${config.bucket}.${endpoint.host}`
+    endpoint.pathname = `/${objectPath}`
+  }
+  return endpoint
+}
+
+function canonicalQueryString(query: Record<string, string>): string {
+  return Object.entries(query)
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&')
+}
+
+/**
+ * 计算 AWS Signature Version 4 签名
+ */
+function signatureV4(
+  config: S3StorageConfig,
+  request: { method: string; url: URL; query: Record<string, string>; headers: Record<string, string>; payloadHash: string },
+  amzDate: string
+): { signature: string; signedHeaders: string } {
+  const dateStamp = amzDate.slice(0, 8)
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+
+  const names = Object.keys(request.headers).map(name => name.toLowerCase()).sort()
+  const lowerCased = Object.fromEntries(Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value]))
+  const canonicalHeaders = names.map(name => `${name}:${String(lowerCased[name]).trim().replace(/\s+/g, ' ')}\n`).join('')
+  const signedHeaders = names.join(';')
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQueryString(request.query),
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n')
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request')
+
+  return { signature: createHmac('sha256', signingKey).update(stringToSign).digest('hex'), signedHeaders }
+}
+
+function formatAmzDate(now: Date): string {
+  return now.toISOString().replace(/[:-]|\.\d{3}/g, '')
+}
+
+/**
+ * 签名 S3 请求（Authorization 请求头方式），返回请求地址和需要携带的请求头
+ */
+export function signS3Request(config: S3StorageConfig, input: S3RequestInput): { url: string; headers: Record<string, string> } {
+  const url = resolveObjectUrl(config, input.key)
+  const query = input.query ?? {}
+  const amzDate = formatAmzDate(input.now ?? new Date())
+  const payloadHash = input.payloadHash ?? sha256Hex('')
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...input.headers,
+  }
+  const { signature, signedHeaders } = signatureV4(config, { method: input.method, url, query, headers, payloadHash }, amzDate)
+
+  const queryString = canonicalQueryString(query)
+  const scope = `${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`
+  delete headers.host
+
+  return {
+    url: `${url.origin}${url.pathname}${queryString ? `?${queryString}` : ''}`,
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+  }
+}
+
+/**
+ * 生成预签名 GET 地址（签名放在查询参数中，只签名 host 请求头）
+ */
+export function presignS3Url(
+  config: S3StorageConfig,
+  input: { key: string; expiresIn: number; query?: Record<string, string>; now?: Date }
+): string {
+  const url = resolveObjectUrl(config, input.key)
+  const amzDate = formatAmzDate(input.now ?? new Date())
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${config.accessKeyId}/${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`,
+    'X-Amz-Date': amzDate,
+    // 预签名地址最长有效 7 天
+    'X-Amz-Expires': String(Math.min(Math.max(Math.floor(input.expiresIn), 1), 604800)),
+    'X-Amz-SignedHeaders': 'host',
+    ...input.query,
+  }
+
+  const { signature } = signatureV4(config, {
+    method: 'GET',
+    url,
+    query,
+    headers: { host: url.host },
+    payloadHash: UNSIGNED_PAYLOAD,
+  }, amzDate)
+
+  return `${url.origin}${url.pathname}?${canonicalQueryString(query)}&X-Amz-Signature=${signature}`
+}
+
+/**
+ * S3 兼容存储驱动（直接调用 REST API，请求使用 SigV4 签名）
+ * 未传入配置时读取 storage 分组的 s3_* 配置
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3'
+
+  constructor(private readonly config?: S3StorageConfig) {}
+
+  async put(key: string, source: StorageSource, options: StoragePutOptions = {}): Promise<void> {
+    const contentType = options.contentType || 'application/octet-stream'
+
+    if (Buffer.isBuffer(source)) {
+      await this.send('PUT', key, {
+        headers: { 'content-type': contentType },
+        body: source,
+        payloadHash: sha256Hex(source),
+        contentLength: source.length,
+      })
+      return
+    }
+
+    // 大文件流式上传，不计算请求体哈希
+    const { size } = await fs.stat(source.filePath)
+    await this.send('PUT', key, {
+      headers: { 'content-type': contentType },
+      body: Readable.toWeb(createReadStream(source.filePath)) as ReadableStream<Uint8Array>,
+      payloadHash: UNSIGNED_PAYLOAD,
+      contentLength: size,
+    })
+
+    if (options.removeSource) {
+      await fs.unlink(source.filePath)
+    }
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const response = await this.send('GET', key)
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async createReadStream(key: string, range?: { start: number; end: number } | null): Promise<Readable> {
+    const response = await this.send('GET', key, {
+      headers: range ? { range: `bytes=${range.start}-${range.end}` } : {},
+    })
+    if (!response.body) {
+      return Readable.from([])
+    }
+    return Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>)
+  }
+
+  async stat(key: string): Promise<{ size: number } | null> {
+    const response = await this.send('HEAD', key, { allowNotFound: true })
+    if (response.status === 404) {
+      return null
+    }
+    return { size: Number(response.headers.get('content-length') ?? 0) }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.send('DELETE', key, { allowNotFound: true })
+  }
+
+  async getPresignedUrl(key: string, options: StoragePresignOptions): Promise<string> {
+    const query: Record<string, string> = {}
+    if (options.contentDisposition) {
+      query['response-content-disposition'] = options.contentDisposition
+    }
+    if (options.contentType) {
+      query['response-content-type'] = options.contentType
+    }
+
+    return presignS3Url(await this.resolveConfig(), { key, expiresIn: options.expiresIn, query })
+  }
+
+  /**
+   * 发送签名请求，非 2xx 响应抛出错误
+   * 超时只覆盖到收到响应头为止，避免大文件读取被中断
+   */
+  private async send(
+    method: string,
+    key: string,
+    options: {
+      headers?: Record<string, string>
+      body?: Buffer | ReadableStream<Uint8Array>
+      payloadHash?: string
+      contentLength?: number
+      allowNotFound?: boolean
+    } = {}
+  ): Promise<Response> {
+    const config = await this.resolveConfig()
+    const { url, headers } = signS3Request(config, {
+      method,
+      key,
+      headers: options.headers,
+      payloadHash: options.payloadHash,
+    })
+    if (options.contentLength !== undefined) {
+      headers['content-length'] = String(options.contentLength)
+    }
+
+    const controller = new AbortController()
+    const timer = options.body instanceof ReadableStream ? undefined : setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: options.body,
+        signal: controller.signal,
+        // 流式请求体需要 half duplex
+        ...(options.body instanceof ReadableStream ? { duplex: 'half' } : {}),
+      } as RequestInit)
+
+      if (response.ok || (options.allowNotFound && response.status === 404)) {
+        return response
+      }
+
+      const text = await response.text().catch(() => '')
+      const code = text.match(/<Code>([^<]+)<\/Code>/)?.[1]
+      throw new BusinessLogicError(`S3 请求失败: ${method} ${response.status}${code ? ` ${code}` : ''}`, 'STORAGE_REQUEST_FAILED', {
+        method,
+        key: normalizeObjectKey(key),
+        status: response.status,
+        code,
+      })
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private async resolveConfig(): Promise<S3StorageConfig> {
+    if (this.config) {
+      return this.config
+    }
+
+    const region = await configService.getConfig('storage', 's3_region', 'us-east-1')
+    const config: S3StorageConfig = {
+      endpoint: (await configService.getConfig('storage', 's3_endpoint', '')) || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: await configService.getConfig('storage', 's3_bucket', ''),
+      accessKeyId: await configService.getConfig('storage', 's3_access_key_id', ''),
+      secretAccessKey: await configService.getConfig('storage', 's3_secret_access_key', '', { includeEncrypted: true }),
+      forcePathStyle: Boolean(await configService.getConfig('storage', 's3_force_path_style', true)),
+    }
+
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new BusinessLogicError('S3 存储未配置（需要 s3_bucket、s3_access_key_id 和 s3_secret_access_key）', 'STORAGE_NOT_CONFIGURED')
+    }
+    return config
+  }
+}
@@ -0,0 +1,187 @@
+import { db, schema } from '../db'
+import { and, asc, eq, isNull, ne } from 'drizzle-orm'
+import type { TaxRule, NewTaxRule } from '../db/schema'
+import { BusinessLogicError, NotFoundError } from './error-handler'
+
+// 商品未设置税务分类时使用的默认分类
+export const DEFAULT_TAX_CATEGORY = 'standard'
+
+/**
+ * 参与计税的订单行（金额为扣除优惠后的税前金额）
+ */
+export interface TaxableLine {
+  productId: number
+  taxCategory: string
+  netAmount: number
+}
+
+/**
+ * 单个订单行的计税结果
+ */
+export interface TaxLineResult {
+  productId: number
+  taxRate: number
+  taxAmount: number
+}
+
+/**
+ * 管理端创建/更新税率规则参数
+ */
+export interface TaxRuleInput {
+  country: string
+  taxCategory?: string | null
+  name?: string
+  rate: number
+  isActive?: boolean
+}
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+/**
+ * 国家代码统一为大写二位代码，无效时返回 null
+ */
+export function normalizeCountry(country?: string | null): string | null {
+  const value = country?.trim().toUpperCase()
+  return value && /^[A-Z]{2}$/.test(value) ? value : null
+}
+
+/**
+ * 税费计算服务
+ * 按买家国家和商品税务分类查找税率，商品价格视为税前价格，税额在此基础上加收
+ */
+export class TaxService {
+  /**
+   * 计算订单各行的税额
+   * 没有国家或该国家没有税率规则时不收税
+   */
+  async calculateTax(country: string | null, lines: TaxableLine[]): Promise<{ taxAmount: number; lines: TaxLineResult[] }> {
+    const rules = country ? await this.getActiveRules(country) : []
+
+    let taxCents = 0
+    const results = lines.map(line => {
+      const taxRate = this.resolveRate(rules, line.taxCategory)
+      const lineTaxCents = Math.round(toCents(line.netAmount) * taxRate / 100)
+      taxCents += lineTaxCents
+      return { productId: line.productId, taxRate, taxAmount: lineTaxCents / 100 }
+    })
+
+    return { taxAmount: taxCents / 100, lines: results }
+  }
+
+  /**
+   * 获取税率规则列表
+   */
+  async listRules(): Promise<TaxRule[]> {
+    return await db.select()
+      .from(schema.taxRules)
+      .orderBy(asc(schema.taxRules.country), asc(schema.taxRules.taxCategory))
+  }
+
+  /**
+   * 创建税率规则
+   */
+  async createRule(input: TaxRuleInput): Promise<TaxRule> {
+    const values = this.toRuleValues(input)
+    await this.assertRuleAvailable(values.country, values.taxCategory ?? null)
+
+    const [rule] = await db.insert(schema.taxRules)
+      .values(values)
+      .returning()
+
+    return rule
+  }
+
+  /**
+   * 更新税率规则
+   */
+  async updateRule(ruleId: number, input: TaxRuleInput): Promise<TaxRule> {
+    const values = this.toRuleValues(input)
+    await this.assertRuleAvailable(values.country, values.taxCategory ?? null, ruleId)
+
+    const [rule] = await db.update(schema.taxRules)
+      .set({ ...values, updatedAt: new Date().toISOString() })
+      .where(eq(schema.taxRules.id, ruleId))
+      .returning()
+
+    if (!rule) {
+      throw new NotFoundError('TaxRule', ruleId)
+    }
+
+    return rule
+  }
+
+  /**
+   * 删除税率规则（已下单的订单保留下单时的税额）
+   */
+  async deleteRule(ruleId: number): Promise<void> {
+    const deleted = await db.delete(schema.taxRules)
+      .where(eq(schema.taxRules.id, ruleId))
+      .returning({ id: schema.taxRules.id })
+
+    if (deleted.length === 0) {
+      throw new NotFoundError('TaxRule', ruleId)
+    }
+  }
+
+  private async getActiveRules(country: string): Promise<TaxRule[]> {
+    return await db.select()
+      .from(schema.taxRules)
+      .where(and(
+        eq(schema.taxRules.country, country),
+        eq(schema.taxRules.isActive, true)
+      ))
+  }
+
+  /**
+   * 优先使用商品分类对应的规则，否则使用国家默认规则
+   */
+  private resolveRate(rules: TaxRule[], taxCategory: string): number {
+    const rule = rules.find(item => item.taxCategory === taxCategory)
+      ?? rules.find(item => item.taxCategory === null)
+    return rule?.rate ?? 0
+  }
+
+  private toRuleValues(input: TaxRuleInput): NewTaxRule {
+    const country = normalizeCountry(input.country)
+    if (!country) {
+      throw new BusinessLogicError('国家代码必须为两位字母', 'TAX_COUNTRY_INVALID')
+    }
+
+    return {
+      country,
+      taxCategory: input.taxCategory?.trim().toLowerCase() || null,
+      name: input.name?.trim() || 'VAT',
+      rate: input.rate,
+      isActive: input.isActive ?? true,
+    }
+  }
+
+  /**
+   * 同一国家同一分类只能有一条规则
+   */
+  private async assertRuleAvailable(country: string, taxCategory: string | null, excludeId?: number): Promise<void> {
+    const conditions = [
+      eq(schema.taxRules.country, country),
+      taxCategory === null ? isNull(schema.taxRules.taxCategory) : eq(schema.taxRules.taxCategory, taxCategory),
+    ]
+    if (excludeId !== undefined) {
+      conditions.push(ne(schema.taxRules.id, excludeId))
+    }
+
+    const [existing] = await db.select({ id: schema.taxRules.id })
+      .from(schema.taxRules)
+      .where(and(...conditions))
+      .limit(1)
+
+    if (existing) {
+      throw new BusinessLogicError(
+        taxCategory ? `${country} 已存在分类 ${taxCategory} 的税率规则` : `${country} 已存在默认税率规则`,
+        'TAX_RULE_DUPLICATE'
+      )
+    }
+  }
+}
+
+export const taxService = new TaxService()
+
+export default taxService
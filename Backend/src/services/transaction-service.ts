@@ -1,8 +1,15 @@
 import { db, schema, withTransaction } from '../db'
-import { eq, and, desc, asc, sql, inArray } from 'drizzle-orm'
-import { OrderStatus, DeliveryType } from '../db/schema'
+import { eq, and, desc, asc, sql, inArray, isNull } from 'drizzle-orm'
+import { OrderStatus, DeliveryType, JobType, KeyGenerator, type Delivery, type OrderItem, type Product } from '../db/schema'
 import { orderService } from './order-service'
 import { inventoryService } from './inventory-service'
+import { emailService } from './email-service'
+import { jobQueueService } from './job-queue-service'
+import { notificationService } from './notification-service'
+import { downloadService } from './download-service'
+import { productFileService } from './product-file-service'
+import { licenseKeyService } from './license-key-service'
+import { couponService } from './coupon-service'
 import { randomUUID } from 'crypto'
 
 // 事务服务类 - 处理复杂的业务逻辑事务
@@ -29,49 +36,27 @@ export class TransactionService {
 
       // 3. 检查是否需要分配库存
       if (productInfo.deliveryType === DeliveryType.TEXT || productInfo.deliveryType === DeliveryType.HYBRID) {
-        try {
-          // 尝试分配库存
-          const allocatedInventory = await inventoryService.allocateInventory(
-            orderData.productId,
-            order.id,
-            1
-          )
-
-          // 4. 创建发货记录
-          const delivery = await db.insert(schema.deliveries)
-            .values({
-              orderId: order.id,
-              deliveryType: productInfo.deliveryType,
-              content: allocatedInventory[0]?.content || productInfo.templateText,
-              isActive: true,
-              createdAt: new Date().toISOString(),
-            })
-            .returning()
-
-          return {
-            order,
-            delivery: delivery[0],
-            allocatedInventory: allocatedInventory[0],
-          }
-        } catch (inventoryError) {
-          // 如果库存不足，使用模板内容
-          console.warn('Inventory allocation failed, using template:', inventoryError)
+        // 按商品的卡密来源分配库存或生成卡密，失败时整个事务回滚
+        const allocatedInventory = await licenseKeyService.issueKeys(productInfo, {
+          orderId: order.id,
+          quantity: orderData.quantity || 1,
+        })
 
-          const delivery = await db.insert(schema.deliveries)
-            .values({
-              orderId: order.id,
-              deliveryType: productInfo.deliveryType,
-              content: productInfo.templateText,
-              isActive: true,
-              createdAt: new Date().toISOString(),
-            })
-            .returning()
+        // 4. 创建发货记录
+        const delivery = await db.insert(schema.deliveries)
+          .values({
+            orderId: order.id,
+            deliveryType: productInfo.deliveryType,
+            content: allocatedInventory.map(item => item.content).join('\n'),
+            isActive: true,
+            createdAt: new Date().toISOString(),
+          })
+          .returning()
 
-          return {
-            order,
-            delivery: delivery[0],
-            allocatedInventory: null,
-          }
+        return {
+          order,
+          delivery: delivery[0],
+          allocatedInventory,
         }
       }
 
@@ -81,6 +66,7 @@ export class TransactionService {
 
   /**
    * 处理支付成功 - 更新订单状态并创建发货记录
+   * 发货邮件和外部通知写入任务队列，由 worker 异步发送
    */
   async processPaymentSuccess(orderId: string, gatewayData?: any) {
     return await withTransaction(async (tx) => {
@@ -98,95 +84,97 @@ export class TransactionService {
       const updatedOrder = await orderService.updateOrderStatus(orderId, OrderStatus.PAID, {
         gatewayData: JSON.stringify(gatewayData),
         paidAt: new Date().toISOString(),
-      })
+      }, tx)
 
       if (!updatedOrder) {
         throw new Error('Failed to update order status')
       }
 
-      // 3. 获取产品信息
-      const product = await db.select()
-        .from(schema.products)
-        .where(eq(schema.products.id, order.productId))
-        .limit(1)
+      // 3. 创建发货记录
+      const delivery = await this.createDeliveryForOrder(tx, order)
 
-      if (product.length === 0) {
-        throw new Error('Product not found')
-      }
-
-      const productInfo = product[0]
+      // 4. 更新订单状态为已发货
+      await orderService.updateOrderStatus(orderId, OrderStatus.DELIVERED, {
+        deliveredAt: new Date().toISOString(),
+        skipDeliveredAt: true, // 避免重复设置
+      }, tx)
 
-      // 4. 创建发货记录
-      let delivery = null
+      // 5. 发货邮件和通知入队
+      const emailJob = await this.enqueueDeliveryNotifications(tx, orderId)
 
-      if (productInfo.deliveryType === DeliveryType.DOWNLOAD || productInfo.deliveryType === DeliveryType.HYBRID) {
-        // 生成下载链接
-        const downloadToken = randomUUID().replace(/-/g, '') // 32字符token
-        const expiresAt = new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString() // 72小时后过期
+      return {
+        order: updatedOrder,
+        delivery,
+        emailJob,
+      }
+    })
+  }
 
-        const deliveryResult = await db.insert(schema.deliveries)
-          .values({
-            orderId: orderId,
-            deliveryType: productInfo.deliveryType,
-            downloadToken,
-            expiresAt,
-            maxDownloads: 3,
-            isActive: true,
-            createdAt: new Date().toISOString(),
-          })
-          .returning()
+  /**
+   * 为已支付订单发货（由任务队列调用）
+   * 可重复执行：已发货或已有发货记录时不会重复分配库存
+   */
+  async deliverOrder(orderId: string) {
+    // 签名私钥首次使用时需写入配置，须在发货事务开始前准备好
+    await this.prepareSigningKey(orderId)
 
-        delivery = deliveryResult[0]
+    const result = await withTransaction(async (tx) => {
+      // 1. 获取订单信息
+      const order = await orderService.getOrderById(orderId)
+      if (!order) {
+        throw new Error('Order not found')
       }
 
-      // 5. 如果是文本发货，分配库存或使用模板
-      if (productInfo.deliveryType === DeliveryType.TEXT || productInfo.deliveryType === DeliveryType.HYBRID) {
-        let content = productInfo.templateText
-
-        try {
-          // 尝试分配库存
-          const allocatedInventory = await inventoryService.allocateInventory(
-            order.productId,
-            orderId,
-            1
-          )
-
-          content = allocatedInventory[0]?.content || productInfo.templateText
-        } catch (inventoryError) {
-          console.warn('Inventory allocation failed, using template:', inventoryError)
-        }
+      // 2. 查询已有发货记录
+      const existingDeliveries = await tx.select()
+        .from(schema.deliveries)
+        .where(and(
+          eq(schema.deliveries.orderId, orderId),
+          eq(schema.deliveries.isActive, true)
+        ))
+        .orderBy(desc(schema.deliveries.id))
+        .limit(1)
 
-        const deliveryResult = await db.insert(schema.deliveries)
-          .values({
-            orderId: orderId,
-            deliveryType: productInfo.deliveryType,
-            content,
-            isActive: true,
-            createdAt: new Date().toISOString(),
-          })
-          .returning()
+      if (order.status === OrderStatus.DELIVERED) {
+        return {
+          order,
+          delivery: existingDeliveries[0] || null,
+          alreadyDelivered: true,
+        }
+      }
 
-        delivery = deliveryResult[0]
+      if (order.status !== OrderStatus.PAID) {
+        throw new Error(`Order is not paid. Current status: ${order.status}`)
       }
 
-      // 6. 更新订单状态为已发货
-      await orderService.updateOrderStatus(orderId, OrderStatus.DELIVERED, {
-        deliveredAt: new Date().toISOString(),
-        skipDeliveredAt: true, // 避免重复设置
-      })
+      // 3. 创建发货记录（上次执行中断时复用已创建的记录，只为尚未发货的商品补发）
+      const delivery = await this.createDeliveryForOrder(tx, order, existingDeliveries[0])
+
+      // 4. 更新订单状态为已发货
+      const updatedOrder = await orderService.updateOrderStatus(orderId, OrderStatus.DELIVERED, undefined, tx)
+
+      // 5. 发货邮件和通知入队
+      await this.enqueueDeliveryNotifications(tx, orderId)
 
       return {
         order: updatedOrder,
         delivery,
+        alreadyDelivered: false,
       }
     })
+
+    if (!result.alreadyDelivered) {
+      jobQueueService.wake()
+    }
+    return result
   }
 
   /**
    * 处理退款 - 更新订单状态并失效发货记录
+   * 事务提交后释放优惠码使用次数
    */
   async processRefund(orderId: string, reason?: string) {
-    return await withTransaction(async (tx) => {
+    const result = await withTransaction(async (tx) => {
       // 1. 获取订单信息
       const order = await orderService.getOrderById(orderId)
       if (!order) {
@@ -201,33 +189,44 @@ export class TransactionService {
       const updatedOrder = await orderService.updateOrderStatus(orderId, OrderStatus.REFUNDED, {
         refundedAt: new Date().toISOString(),
         notes: reason ? `${order.notes || ''}\n[Refund: ${reason}]`.trim() : order.notes,
-      })
+      }, tx)
 
       if (!updatedOrder) {
         throw new Error('Failed to update order status')
       }
 
-      // 3. 失效发货记录
-      await db.update(schema.deliveries)
-        .set({
-          isActive: false,
-        })
-        .where(eq(schema.deliveries.orderId, orderId))
+      // 3. 失效发货记录和下载链接
+      await downloadService.revokeOrderDownloads(orderId, 'refund', tx)
 
       // 4. 释放库存（如果有）
-      await inventoryService.releaseInventory(orderId)
+      await inventoryService.releaseInventory(orderId, tx)
+
+      // 5. 退款通知入队
+      const { job: emailJob } = await jobQueueService.enqueue(
+        JobType.EMAIL_REFUND,
+        { orderId, reason },
+        { orderId },
+        tx
+      )
+      await notificationService.enqueueOrderEvent(orderId, OrderStatus.REFUNDED, tx)
 
       return {
         order: updatedOrder,
+        emailJob,
       }
     })
+
+    jobQueueService.wake()
+    await couponService.releaseForOrderStatus(orderId, OrderStatus.REFUNDED)
+
+    return result
   }
 
   /**
    * 重新发送发货邮件
    */
-  async resendDelivery(orderId: string) {
-    return await withTransaction(async (tx) => {
+  async resendDelivery(orderId: string, options: { adminEmail?: string; triggeredBy?: string } = {}) {
+    const result = await withTransaction(async (tx) => {
       // 1. 获取订单和发货信息
       const orderDetails = await orderService.getOrderWithDetails(orderId)
       if (!orderDetails) {
@@ -239,7 +238,7 @@ export class TransactionService {
       }
 
       // 2. 检查订单状态
-      if (orderDetails.order.status !== OrderStatus.DELIVERED) {
+      if (orderDetails.order.status !== OrderStatus.DELIVERED && orderDetails.order.status !== OrderStatus.PAID) {
         throw new Error(`Order is not delivered. Current status: ${orderDetails.order.status}`)
       }
 
@@ -260,7 +259,7 @@ export class TransactionService {
       // 4. 记录重发操作日志
       await db.insert(schema.adminLogs)
         .values({
-          adminEmail: 'system@autoship.com', // 应该从当前登录管理员获取
+          adminEmail: options.adminEmail || 'system@autoship.com',
           action: 'update',
           resourceType: 'delivery',
           resourceId: orderDetails.delivery.id.toString(),
@@ -280,6 +279,11 @@ export class TransactionService {
         delivery: updatedDelivery[0],
       }
     })
+
+    // 6. 使用最新的发货信息重新发送邮件
+    const email = await emailService.sendDeliveryEmail(orderId, { triggeredBy: options.triggeredBy })
+
+    return { ...result, email }
   }
 
   /**
@@ -336,7 +340,9 @@ export class TransactionService {
           .set({ price, updatedAt: new Date().toISOString() })
           .where(and(
             eq(schema.productPrices.productId, productId),
-            eq(schema.productPrices.currency, currency)
+            eq(schema.productPrices.currency, currency),
+            isNull(schema.productPrices.variantId),
+            isNull(schema.productPrices.startsAt) // 只更新商品常规价格，规格价格和计划价格保持不变
           ))
           .returning()
 
@@ -362,6 +368,152 @@ export class TransactionService {
       return results
     })
   }
+
+  /**
+   * 为订单创建发货记录
+   * 有商品明细的订单每个商品单独发货，发货记录通过 orderItemId 关联商品，商品的 deliveryId 指向其第一条发货记录
+   * 旧订单按 orders.productId 发货
+   */
+  private async createDeliveryForOrder(
+    tx: any,
+    order: { id: string; productId: number },
+    existingDelivery?: Delivery
+  ) {
+    const items: OrderItem[] = await tx.select()
+      .from(schema.orderItems)
+      .where(eq(schema.orderItems.orderId, order.id))
+      .orderBy(asc(schema.orderItems.id))
+
+    if (items.length === 0) {
+      return existingDelivery || await this.createDeliveryForProduct(tx, order.id, order.productId, 1)
+    }
+
+    let firstDelivery = existingDelivery || null
+
+    for (const item of items) {
+      if (item.deliveryId) {
+        continue
+      }
+
+      const delivery = await this.createDeliveryForProduct(tx, order.id, item.productId, item.quantity, item.variantId, item.id)
+      if (!delivery) {
+        continue
+      }
+
+      await tx.update(schema.orderItems)
+        .set({ deliveryId: delivery.id })
+        .where(eq(schema.orderItems.id, item.id))
+
+      firstDelivery = firstDelivery || delivery
+    }
+
+    return firstDelivery
+  }
+
+  /**
+   * 根据商品发货类型创建发货记录，返回第一条发货记录（混合发货先创建下载记录，再创建卡密记录）
+   * 卡密按商品的卡密来源从库存（规格商品为规格的库存池）分配或自动生成
+   * 发放失败时抛出错误，由发货任务重试或进入死信，不会发送模板内容代替卡密
+   */
+  private async createDeliveryForProduct(
+    tx: any,
+    orderId: string,
+    productId: number,
+    quantity: number,
+    variantId: number | null = null,
+    orderItemId: number | null = null
+  ): Promise<Delivery | null> {
+    // 1. 获取产品信息
+    const product: Product[] = await tx.select()
+      .from(schema.products)
+      .where(eq(schema.products.id, productId))
+      .limit(1)
+
+    if (product.length === 0) {
+      throw new Error('Product not found')
+    }
+
+    const productInfo = product[0]
+    let delivery: Delivery | null = null
+
+    // 2. 下载类型：生成下载链接
+    if (productInfo.deliveryType === DeliveryType.DOWNLOAD || productInfo.deliveryType === DeliveryType.HYBRID) {
+      const downloadToken = randomUUID().replace(/-/g, '') // 32字符token
+      const expiresAt = new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString() // 72小时后过期
+      const file = await productFileService.getCurrentFile(productId) // 发货当前版本的文件
+
+      const deliveryResult = await tx.insert(schema.deliveries)
+        .values({
+          orderId,
+          orderItemId,
+          deliveryType: productInfo.deliveryType,
+          downloadToken,
+          expiresAt,
+          fileId: file?.fileId,
+          fileName: file?.fileName,
+          fileSize: file?.fileSize,
+          maxDownloads: 3,
+          isActive: true,
+          createdAt: new Date().toISOString(),
+        })
+        .returning()
+
+      delivery = deliveryResult[0]
+    }
+
+    // 3. 文本类型：按购买数量发放卡密
+    if (productInfo.deliveryType === DeliveryType.TEXT || productInfo.deliveryType === DeliveryType.HYBRID) {
+      let issuedKeys
+      try {
+        issuedKeys = await licenseKeyService.issueKeys(productInfo, { orderId, quantity, variantId }, tx)
+      } catch (error) {
+        console.error(`Key issuing failed for product ${productId} (key source: ${productInfo.keySource}) in order ${orderId}:`, error)
+        throw error
+      }
+
+      const deliveryResult = await tx.insert(schema.deliveries)
+        .values({
+          orderId,
+          orderItemId,
+          deliveryType: productInfo.deliveryType,
+          content: issuedKeys.map(item => item.content).join('\n'),
+          isActive: true,
+          createdAt: new Date().toISOString(),
+        })
+        .returning()
+
+      delivery = delivery || deliveryResult[0]
+    }
+
+    return delivery
+  }
+
+  /**
+   * 发货邮件和外部通知入队（与发货记录处于同一事务）
+   */
+  private async enqueueDeliveryNotifications(tx: any, orderId: string) {
+    const { job } = await jobQueueService.enqueue(JobType.EMAIL_DELIVERY, { orderId }, { orderId }, tx)
+    await notificationService.enqueueOrderEvent(orderId, OrderStatus.DELIVERED, tx)
+    return job
+  }
+
+  /**
+   * 订单中有签名授权文件商品时提前加载签名私钥（首次使用时生成并写入配置）
+   */
+  private async prepareSigningKey(orderId: string) {
+    const [signedItem] = await db.select({ id: schema.products.id })
+      .from(schema.orderItems)
+      .innerJoin(schema.products, eq(schema.orderItems.productId, schema.products.id))
+      .where(and(
+        eq(schema.orderItems.orderId, orderId),
+        eq(schema.products.keyGenerator, KeyGenerator.SIGNED_LICENSE)
+      ))
+      .limit(1)
+
+    if (signedItem) {
+      await licenseKeyService.getPublicKey()
+    }
+  }
 }
 
 // 创建事务服务实例
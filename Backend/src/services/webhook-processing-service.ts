@@ -1,9 +1,10 @@
 import { db, schema } from '../db'
-import { and, eq, gt, sql } from 'drizzle-orm'
+import { and, eq, gt, ne, sql } from 'drizzle-orm'
 import { auditService } from './audit-service'
 import { webhookSecurityService } from './webhook-security-service'
 import { orderStateService } from './order-state-service'
-import { configService } from './config-service'
+import { refundService } from './refund-service'
+import { gatewayRegistry, type GatewayRefundNotification } from './gateways'
 import type { GatewayType } from '../types/orders'
 
 // 配置常量
@@ -78,6 +79,108 @@ export class WebhookProcessingService {
     return this.processWebhook('creem', payload, headers, clientIP)
   }
 
+  /**
+   * 处理网关Webhook（按注册表中的网关插件解析原始请求体）
+   * 签名基于原始请求体的网关必须传入未经解析的 body
+   */
+  async processGatewayWebhook(
+    gateway: GatewayType,
+    rawBody: string,
+    headers: Record<string, string>,
+    clientIP?: string
+  ): Promise<WebhookProcessingResult> {
+    const plugin = gatewayRegistry.get(gateway)
+    if (!plugin) {
+      return {
+        success: false,
+        message: `Unsupported gateway: ${gateway}`,
+        processed: false
+      }
+    }
+
+    let payload: Record<string, any>
+    try {
+      payload = await plugin.webhook.parse(rawBody, headers)
+    } catch {
+      return {
+        success: false,
+        message: `Invalid ${plugin.displayName} payload`,
+        processed: false
+      }
+    }
+
+    // 退款通知不走订单支付流程
+    const refundNotification = plugin.webhook.extractRefund?.(payload)
+    if (refundNotification) {
+      return this.processRefundNotification(gateway, refundNotification, rawBody, headers)
+    }
+
+    if (plugin.webhook.intercept) {
+      const intercepted = await plugin.webhook.intercept(payload, { rawBody, headers, clientIP })
+      if (intercepted) {
+        return intercepted
+      }
+    }
+
+    // 不影响订单状态的事件直接确认，避免网关重复推送
+    if (!plugin.webhook.mapStatus(payload)) {
+      console.log(`[Webhook] Ignoring ${gateway} event for order ${plugin.webhook.extractOrderId(payload) || 'unknown'}`)
+      return {
+        success: true,
+        message: 'Event ignored',
+        processed: false
+      }
+    }
+
+    return this.processWebhook(gateway, payload, headers, clientIP, rawBody)
+  }
+
+  /**
+   * 处理网关异步退款通知
+   */
+  private async processRefundNotification(
+    gateway: GatewayType,
+    notification: GatewayRefundNotification,
+    rawBody: string,
+    headers: Record<string, string>
+  ): Promise<WebhookProcessingResult> {
+    try {
+      const verification = await gatewayRegistry.get(gateway)!.webhook.verify(rawBody, headers)
+      if (!verification.isValid) {
+        console.error(`[Webhook] ${gateway} refund notification signature verification failed:`, verification.error)
+        return {
+          success: false,
+          message: verification.error || 'Invalid signature',
+          processed: false
+        }
+      }
+
+      const refund = await refundService.handleRefundNotification(gateway, notification)
+      if (!refund) {
+        // 非本系统发起的退款（如在网关后台操作）直接确认
+        return {
+          success: true,
+          message: 'Refund not found',
+          processed: false
+        }
+      }
+
+      return {
+        success: true,
+        message: `Refund ${refund.status}`,
+        orderId: refund.orderId,
+        processed: true
+      }
+    } catch (error) {
+      console.error(`[Webhook] ${gateway} refund notification error:`, error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        processed: false
+      }
+    }
+  }
+
   /**
    * 通用Webhook处理流程
    */
@@ -85,16 +188,17 @@ export class WebhookProcessingService {
     gateway: GatewayType,
     payload: Record<string, any>,
     headers: Record<string, string>,
-    clientIP?: string
+    clientIP?: string,
+    rawBody?: string
   ): Promise<WebhookProcessingResult> {
     const startTime = Date.now()
     let recordId: string | null = null
 
     try {
-      console.log(`[Webhook] Processing ${gateway} webhook for order ${payload.out_trade_no || payload.order_id || 'unknown'}`)
+      console.log(`[Webhook] Processing ${gateway} webhook for order ${this.extractOrderId(gateway, payload) || 'unknown'}`)
 
       // 1. 验证Webhook签名和安全性
-      const verification = await this.verifyWebhook(gateway, payload, headers)
+      const verification = await this.verifyWebhook(gateway, payload, headers, rawBody)
       if (!verification.isValid) {
         const errorMsg = verification.error || 'Invalid signature'
         console.error(`[Webhook] ${gateway} signature verification failed:`, errorMsg)
@@ -237,7 +341,7 @@ export class WebhookProcessingService {
       await auditService.logAuditEvent({
         action: 'webhook_processing_error',
         resourceType: 'webhook',
-        resourceId: payload.out_trade_no || payload.order_id || 'unknown',
+        resourceId: this.extractOrderId(gateway, payload) || 'unknown',
         success: false,
         errorMessage: errorMsg,
         metadata: {
@@ -260,7 +364,8 @@ export class WebhookProcessingService {
   private async verifyWebhook(
     gateway: GatewayType,
     payload: Record<string, any>,
-    headers: Record<string, string>
+    headers: Record<string, string>,
+    rawBody?: string
   ): Promise<{
     isValid: boolean
     method: string
@@ -268,19 +373,16 @@ export class WebhookProcessingService {
     gatewayOrderId?: string
     amount?: number
   }> {
-    const payloadString = JSON.stringify(payload)
-
-    if (gateway === 'alipay') {
-      return await webhookSecurityService.verifyAlipayWebhook(payloadString, headers)
-    } else if (gateway === 'creem') {
-      return await webhookSecurityService.verifyCreemWebhook(payloadString, headers)
+    const plugin = gatewayRegistry.get(gateway)
+    if (!plugin) {
+      return {
+        isValid: false,
+        method: 'unknown',
+        error: `Unsupported gateway: ${gateway}`
+      }
     }
 
-    return {
-      isValid: false,
-      method: 'unknown',
-      error: `Unsupported gateway: ${gateway}`
-    }
+    return await plugin.webhook.verify(rawBody ?? JSON.stringify(payload), headers)
   }
 
   /**
@@ -315,12 +417,13 @@ export class WebhookProcessingService {
       }
     }
 
-    // 检查orders表
+    // 检查orders表（创建支付时已写入 gatewayOrderId，仍为 pending 的订单尚未处理）
     const orderRecord = await db.select()
       .from(schema.orders)
       .where(and(
         eq(schema.orders.gateway, gateway),
-        eq(schema.orders.gatewayOrderId, gatewayOrderId)
+        eq(schema.orders.gatewayOrderId, gatewayOrderId),
+        ne(schema.orders.status, 'pending')
       ))
       .limit(1)
 
@@ -359,7 +462,7 @@ export class WebhookProcessingService {
     for (let attempt = 1; attempt <= WEBHOOK_MAX_RETRIES; attempt++) {
       try {
         // 提取订单ID
-        const orderId = payload.out_trade_no || payload.order_id
+        const orderId = this.extractOrderId(gateway, payload)
         if (!orderId) {
           throw new Error('Order ID not found in payload')
         }
@@ -377,7 +480,7 @@ export class WebhookProcessingService {
           verification.gatewayOrderId,
           paymentStatus,
           {
-            transactionId: payload.trade_no || payload.transaction_id,
+            transactionId: this.extractTransactionId(gateway, payload),
             paidAt: new Date().toISOString(),
             gatewayData: JSON.stringify(payload)
           }
@@ -400,38 +503,25 @@ export class WebhookProcessingService {
     throw lastError || new Error('Max retries exceeded')
   }
 
+  /**
+   * 从回调数据中提取订单ID
+   */
+  private extractOrderId(gateway: GatewayType, payload: Record<string, any>): string | undefined {
+    return gatewayRegistry.get(gateway)?.webhook.extractOrderId(payload)
+  }
+
+  /**
+   * 从回调数据中提取网关交易号
+   */
+  private extractTransactionId(gateway: GatewayType, payload: Record<string, any>): string | undefined {
+    return gatewayRegistry.get(gateway)?.webhook.extractTransactionId(payload)
+  }
+
   /**
    * 解析支付状态
    */
   private parsePaymentStatus(gateway: GatewayType, payload: Record<string, any>): string | null {
-    if (gateway === 'alipay') {
-      const status = payload.trade_status
-      switch (status) {
-        case 'TRADE_SUCCESS':
-        case 'TRADE_FINISHED':
-          return 'paid'
-        case 'TRADE_CLOSED':
-          return 'cancelled'
-        case 'WAIT_BUYER_PAY':
-          return 'pending'
-        default:
-          return null
-      }
-    } else if (gateway === 'creem') {
-      const status = payload.status
-      switch (status) {
-        case 'payment_succeeded':
-          return 'paid'
-        case 'payment_cancelled':
-          return 'cancelled'
-        case 'payment_pending':
-          return 'pending'
-        default:
-          return null
-      }
-    }
-
-    return null
+    return gatewayRegistry.get(gateway)?.webhook.mapStatus(payload) ?? null
   }
 
   /**
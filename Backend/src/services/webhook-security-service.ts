@@ -3,6 +3,16 @@ import { db, schema } from '../db'
 import { eq, and, lt, gt, sql } from 'drizzle-orm'
 import { auditService } from './audit-service'
 import { securityService } from './security-service'
+import { configService } from './config-service'
+import {
+  verifyStripeSignature,
+  fromStripeAmount,
+  verifyPaypalWebhookSignature,
+  extractPaypalEventData,
+  verifyWechatPaySignature,
+  decryptWechatPayResource
+} from './payment-gateway-service'
+import { CONFIG } from '../config/api'
 
 /**
  * Webhook安全服务
@@ -212,6 +222,193 @@ export class WebhookSecurityService {
     }
   }
 
+  /**
+   * 验证Stripe Webhook签名（Stripe-Signature 头，时间戳 + HMAC-SHA256）
+   * payload 必须是原始请求体
+   */
+  async verifyStripeWebhook(payload: string, headers: Record<string, string>): Promise<{
+    isValid: boolean
+    method: string
+    error?: string
+    gatewayOrderId?: string
+    amount?: number
+    timestamp?: number
+  }> {
+    try {
+      const secret = await configService.getConfig('payment', 'stripe_webhook_secret', '', { includeEncrypted: true })
+      if (!secret) {
+        return {
+          isValid: false,
+          method: 'stripe_missing_secret',
+          error: 'Stripe webhook secret not configured'
+        }
+      }
+
+      const tolerance = Number(await configService.getConfig('payment', 'stripe_webhook_tolerance', 300))
+      const verification = verifyStripeSignature(payload, headers['stripe-signature'], secret, tolerance)
+
+      // 解析payload获取关键信息
+      let event: Record<string, any>
+      try {
+        event = JSON.parse(payload)
+      } catch (error) {
+        return {
+          isValid: false,
+          method: 'stripe_parse_error',
+          error: 'Failed to parse Stripe payload'
+        }
+      }
+
+      const session = event.data?.object || {}
+      const amount = session.amount_total !== undefined
+        ? fromStripeAmount(Number(session.amount_total), session.currency || 'usd')
+        : undefined
+
+      return {
+        isValid: verification.isValid,
+        method: 'stripe_hmac_sha256',
+        gatewayOrderId: session.id,
+        amount,
+        timestamp: verification.timestamp,
+        error: verification.error
+      }
+    } catch (error) {
+      console.error('Stripe webhook verification error:', error)
+      return {
+        isValid: false,
+        method: 'stripe_error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * 验证PayPal Webhook签名（调用PayPal验签接口）
+   * payload 必须是原始请求体
+   */
+  async verifyPaypalWebhook(payload: string, headers: Record<string, string>): Promise<{
+    isValid: boolean
+    method: string
+    error?: string
+    gatewayOrderId?: string
+    amount?: number
+    timestamp?: number
+  }> {
+    try {
+      const config = {
+        enabled: true,
+        clientId: await configService.getConfig('payment', 'paypal_client_id', ''),
+        clientSecret: await configService.getConfig('payment', 'paypal_client_secret', '', { includeEncrypted: true }),
+        webhookId: await configService.getConfig('payment', 'paypal_webhook_id', ''),
+        apiBase: await configService.getConfig('payment', 'paypal_api_base', CONFIG.PAYMENT.PAYPAL.API_BASE),
+        timeout: Number(await configService.getConfig('payment', 'paypal_timeout', CONFIG.PAYMENT.PAYPAL.TIMEOUT)),
+      }
+
+      if (!config.clientId || !config.clientSecret) {
+        return {
+          isValid: false,
+          method: 'paypal_missing_credentials',
+          error: 'PayPal credentials not configured'
+        }
+      }
+
+      // 解析payload获取关键信息
+      let event: Record<string, any>
+      try {
+        event = JSON.parse(payload)
+      } catch (error) {
+        return {
+          isValid: false,
+          method: 'paypal_parse_error',
+          error: 'Failed to parse PayPal payload'
+        }
+      }
+
+      const verification = await verifyPaypalWebhookSignature(config, payload, headers)
+      const data = extractPaypalEventData(event)
+      const transmissionTime = headers['paypal-transmission-time']
+
+      return {
+        isValid: verification.isValid,
+        method: 'paypal_verify_api',
+        gatewayOrderId: data.gatewayOrderId,
+        amount: data.amount,
+        timestamp: transmissionTime ? Math.floor(new Date(transmissionTime).getTime() / 1000) : undefined,
+        error: verification.error
+      }
+    } catch (error) {
+      console.error('PayPal webhook verification error:', error)
+      return {
+        isValid: false,
+        method: 'paypal_error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * 验证微信支付Webhook签名（平台公钥 RSA-SHA256）并解密交易信息
+   * payload 必须是原始请求体
+   */
+  async verifyWechatWebhook(payload: string, headers: Record<string, string>): Promise<{
+    isValid: boolean
+    method: string
+    error?: string
+    gatewayOrderId?: string
+    amount?: number
+    timestamp?: number
+  }> {
+    try {
+      const platformPublicKey = await configService.getConfig('payment', 'wechat_platform_public_key', '')
+      const apiV3Key = await configService.getConfig('payment', 'wechat_api_v3_key', '', { includeEncrypted: true })
+
+      if (!platformPublicKey || !apiV3Key) {
+        return {
+          isValid: false,
+          method: 'wechat_missing_key',
+          error: 'WeChat Pay keys not configured'
+        }
+      }
+
+      const verification = verifyWechatPaySignature(payload, headers, platformPublicKey)
+      if (!verification.isValid) {
+        return {
+          isValid: false,
+          method: 'wechat_rsa_sha256',
+          error: verification.error,
+          timestamp: verification.timestamp
+        }
+      }
+
+      // 签名通过后解密交易信息（GCM 解密失败同样视为无效通知）
+      let transaction: Record<string, any>
+      try {
+        transaction = decryptWechatPayResource(JSON.parse(payload).resource, apiV3Key)
+      } catch (error) {
+        return {
+          isValid: false,
+          method: 'wechat_decrypt_error',
+          error: 'Failed to decrypt WeChat Pay resource'
+        }
+      }
+
+      return {
+        isValid: true,
+        method: 'wechat_rsa_sha256',
+        gatewayOrderId: transaction.out_trade_no,
+        amount: transaction.amount?.total !== undefined ? Number(transaction.amount.total) / 100 : undefined,
+        timestamp: verification.timestamp
+      }
+    } catch (error) {
+      console.error('WeChat Pay webhook verification error:', error)
+      return {
+        isValid: false,
+        method: 'wechat_error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
   /**
    * 检查Webhook幂等性
    */
@@ -16,6 +16,9 @@ export type OrderStatusType = typeof OrderStatus[keyof typeof OrderStatus]
 export const Gateway = {
   ALIPAY: 'alipay',
   CREEM: 'creem',
+  STRIPE: 'stripe',
+  PAYPAL: 'paypal',
+  WECHAT: 'wechat',
 } as const
 
 export type GatewayType = typeof Gateway[keyof typeof Gateway]
@@ -24,6 +27,8 @@ export type GatewayType = typeof Gateway[keyof typeof Gateway]
 export const Currency = {
   CNY: 'CNY',
   USD: 'USD',
+  EUR: 'EUR',
+  JPY: 'JPY',
 } as const
 
 export type CurrencyType = typeof Currency[keyof typeof Currency]
@@ -187,11 +192,11 @@ export const createOrderSchema = z.object({
   productName: z.string().min(1, '商品名称不能为空').max(255, '商品名称过长'),
   email: z.string().email('请输入有效的邮箱地址'),
   price: z.number().positive('价格必须大于0'),
-  currency: z.enum(['CNY', 'USD']).refine((val) => ['CNY', 'USD'].includes(val), {
-    message: '仅支持CNY和USD货币'
+  currency: z.enum(['CNY', 'USD', 'EUR', 'JPY']).refine((val) => ['CNY', 'USD', 'EUR', 'JPY'].includes(val), {
+    message: '仅支持CNY、USD、EUR和JPY货币'
   }),
-  gateway: z.enum(['alipay', 'creem']).refine((val) => ['alipay', 'creem'].includes(val), {
-    message: '仅支持支付宝和Creem支付'
+  gateway: z.enum(['alipay', 'creem', 'stripe', 'paypal', 'wechat']).refine((val) => ['alipay', 'creem', 'stripe', 'paypal', 'wechat'].includes(val), {
+    message: '仅支持支付宝、Creem、Stripe、PayPal和微信支付'
   }),
   customerIp: z.string().optional(),
   customerUserAgent: z.string().optional(),
@@ -202,8 +207,8 @@ export const orderQuerySchema = z.object({
   limit: z.coerce.number().positive().min(1).max(100).default(20),
   status: z.enum(['pending', 'paid', 'delivered', 'failed', 'refunded', 'cancelled']).optional(),
   email: z.string().email().optional(),
-  gateway: z.enum(['alipay', 'creem']).optional(),
-  currency: z.enum(['CNY', 'USD']).optional(),
+  gateway: z.enum(['alipay', 'creem', 'stripe', 'paypal', 'wechat']).optional(),
+  currency: z.enum(['CNY', 'USD', 'EUR', 'JPY']).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   search: z.string().min(1).max(100).optional(),
@@ -289,11 +294,13 @@ export class OrderFormatter {
   }
 
   static formatCurrency(amount: number, currency: CurrencyType): string {
+    // 日元没有小数位
+    const fractionDigits = currency === 'JPY' ? 0 : 2
     return new Intl.NumberFormat(currency === 'CNY' ? 'zh-CN' : 'en-US', {
       style: 'currency',
       currency: currency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
     }).format(amount)
   }
 
@@ -325,6 +332,9 @@ export class OrderFormatter {
     const gatewayMap: Record<GatewayType, string> = {
       [Gateway.ALIPAY]: '支付宝',
       [Gateway.CREEM]: 'Creem',
+      [Gateway.STRIPE]: 'Stripe',
+      [Gateway.PAYPAL]: 'PayPal',
+      [Gateway.WECHAT]: '微信支付',
     }
     return gatewayMap[gateway] || gateway
   }
@@ -250,6 +250,29 @@ export function getClientIP(request: any): string {
   return 'localhost'
 }
 
+// CDN/反向代理根据客户端IP写入的国家代码请求头
+const COUNTRY_HEADERS = ['cf-ipcountry', 'x-vercel-ip-country', 'cloudfront-viewer-country', 'x-country-code']
+
+/**
+ * 根据客户端IP获取国家代码（ISO 3166-1 二位代码）
+ * 依赖 CDN/反向代理写入的地理位置请求头，无法识别时返回 null
+ */
+export function getClientCountry(request: any): string | null {
+  if (!request || typeof request.header !== 'function') {
+    return null
+  }
+
+  for (const header of COUNTRY_HEADERS) {
+    const value = request.header(header)?.trim().toUpperCase()
+    // Cloudflare 使用 XX 表示未知、T1 表示 Tor 出口节点
+    if (value && /^[A-Z]{2}$/.test(value) && value !== 'XX' && value !== 'T1') {
+      return value
+    }
+  }
+
+  return null
+}
+
 /**
  * 检查账户是否被锁定
  */
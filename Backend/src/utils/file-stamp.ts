@@ -0,0 +1,232 @@
+/**
+ * 文件授权标记工具
+ * 在 ZIP 中追加授权文件、在 PDF 中以增量更新写入元数据，不改动原有内容
+ */
+
+/**
+ * 授权标记编号格式：AS-XXXXX-XXXXX-XXXXX-XXXXX（十六进制）
+ */
+export const STAMP_ID_PATTERN = /AS-[0-9A-F]{5}(?:-[0-9A-F]{5}){3}/g
+
+/**
+ * ZIP 文件末尾的目录信息
+ */
+export interface ZipEnd {
+  entries: number
+  centralDirectoryOffset: number
+  centralDirectorySize: number
+  comment: string
+}
+
+/**
+ * 追加到 ZIP 的文件
+ */
+export interface ZipStampEntry {
+  name: string
+  content: Buffer
+}
+
+// EOCD 记录最小长度，以及包含最长注释时的最大长度
+const ZIP_END_SIZE = 22
+export const ZIP_END_MAX_SIZE = ZIP_END_SIZE + 0xffff
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(content: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of content) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * 转换为 DOS 日期和时间
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * 从文件末尾的数据中解析 ZIP 目录结束记录（tail 为文件最后 ZIP_END_MAX_SIZE 字节以内的数据）
+ * 不支持分卷和 ZIP64
+ */
+export function readZipEnd(tail: Buffer, fileSize: number): ZipEnd {
+  for (let offset = tail.length - ZIP_END_SIZE; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) !== 0x06054b50 || offset + ZIP_END_SIZE + tail.readUInt16LE(offset + 20) !== tail.length) {
+      continue
+    }
+
+    const end: ZipEnd = {
+      entries: tail.readUInt16LE(offset + 10),
+      centralDirectorySize: tail.readUInt32LE(offset + 12),
+      centralDirectoryOffset: tail.readUInt32LE(offset + 16),
+      comment: tail.subarray(offset + ZIP_END_SIZE).toString('utf8'),
+    }
+    if (tail.readUInt16LE(offset + 4) !== 0 || tail.readUInt16LE(offset + 8) !== end.entries) {
+      throw new Error('不支持分卷 ZIP 文件')
+    }
+    if (end.entries === 0xffff || end.centralDirectoryOffset === 0xffffffff || (offset >= 20 && tail.readUInt32LE(offset - 20) === 0x07064b50)) {
+      throw new Error('不支持 ZIP64 文件')
+    }
+
+    const endOffset = fileSize - tail.length + offset
+    if (end.centralDirectoryOffset + end.centralDirectorySize !== endOffset) {
+      throw new Error('ZIP 目录位置无效')
+    }
+    return end
+  }
+
+  throw new Error('不是有效的 ZIP 文件')
+}
+
+/**
+ * 生成追加一个文件后的 ZIP 尾部数据：新文件（不压缩）+ 原中央目录 + 新目录项 + 新的目录结束记录
+ * 输出文件 = 原文件的 [0, centralDirectoryOffset) + 返回的数据，原有文件的偏移量不变
+ */
+export function buildZipAppendix(end: ZipEnd, centralDirectory: Buffer, entry: ZipStampEntry, comment: string, now = new Date()): Buffer {
+  const name = Buffer.from(entry.name, 'utf8')
+  const commentBytes = Buffer.from(comment, 'utf8').subarray(0, 0xffff)
+  const checksum = crc32(entry.content)
+  const { time, date } = toDosDateTime(now)
+
+  const localHeader = Buffer.alloc(30)
+  localHeader.writeUInt32LE(0x04034b50, 0)
+  localHeader.writeUInt16LE(20, 4) // 解压所需版本 2.0
+  localHeader.writeUInt16LE(0x0800, 6) // 文件名为 UTF-8
+  localHeader.writeUInt16LE(0, 8) // 不压缩
+  localHeader.writeUInt16LE(time, 10)
+  localHeader.writeUInt16LE(date, 12)
+  localHeader.writeUInt32LE(checksum, 14)
+  localHeader.writeUInt32LE(entry.content.length, 18)
+  localHeader.writeUInt32LE(entry.content.length, 22)
+  localHeader.writeUInt16LE(name.length, 26)
+  localHeader.writeUInt16LE(0, 28)
+
+  const directoryEntry = Buffer.alloc(46)
+  directoryEntry.writeUInt32LE(0x02014b50, 0)
+  directoryEntry.writeUInt16LE(0x0314, 4) // Unix，2.0
+  directoryEntry.writeUInt16LE(20, 6)
+  directoryEntry.writeUInt16LE(0x0800, 8)
+  directoryEntry.writeUInt16LE(0, 10)
+  directoryEntry.writeUInt16LE(time, 12)
+  directoryEntry.writeUInt16LE(date, 14)
+  directoryEntry.writeUInt32LE(checksum, 16)
+  directoryEntry.writeUInt32LE(entry.content.length, 20)
+  directoryEntry.writeUInt32LE(entry.content.length, 24)
+  directoryEntry.writeUInt16LE(name.length, 28)
+  directoryEntry.writeUInt16LE(0, 30) // 扩展字段长度
+  directoryEntry.writeUInt16LE(0, 32) // 注释长度
+  directoryEntry.writeUInt16LE(0, 34) // 磁盘号
+  directoryEntry.writeUInt16LE(1, 36) // 文本文件
+  directoryEntry.writeUInt32LE((0o100644 << 16) >>> 0, 38) // -rw-r--r--
+  directoryEntry.writeUInt32LE(end.centralDirectoryOffset, 42)
+
+  const centralDirectoryOffset = end.centralDirectoryOffset + localHeader.length + name.length + entry.content.length
+  const centralDirectorySize = centralDirectory.length + directoryEntry.length + name.length
+  if (end.entries + 1 > 0xfffe || centralDirectoryOffset + centralDirectorySize > 0xfffffffe) {
+    throw new Error('ZIP 文件过大，无法追加授权文件')
+  }
+
+  const endRecord = Buffer.alloc(ZIP_END_SIZE)
+  endRecord.writeUInt32LE(0x06054b50, 0)
+  endRecord.writeUInt16LE(0, 4)
+  endRecord.writeUInt16LE(0, 6)
+  endRecord.writeUInt16LE(end.entries + 1, 8)
+  endRecord.writeUInt16LE(end.entries + 1, 10)
+  endRecord.writeUInt32LE(centralDirectorySize, 12)
+  endRecord.writeUInt32LE(centralDirectoryOffset, 16)
+  endRecord.writeUInt16LE(commentBytes.length, 20)
+
+  return Buffer.concat([localHeader, name, entry.content, centralDirectory, directoryEntry, name, endRecord, commentBytes])
+}
+
+/**
+ * 编码 PDF 字符串：ASCII 使用字面量字符串，其余使用 UTF-16BE 十六进制字符串
+ */
+function encodePdfString(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `(${value.replace(/[\\()]/g, char => `\\${char}`)})`
+  }
+  return `<FEFF${Buffer.from(value, 'utf16le').swap16().toString('hex').toUpperCase()}>`
+}
+
+/**
+ * 以增量更新的方式写入 PDF 文档信息（Info 字典），保留原有的标题、作者等信息
+ * 不支持加密的 PDF
+ */
+export function stampPdf(content: Buffer, info: Record<string, string>): Buffer {
+  const text = content.toString('latin1')
+  const startxref = [...text.matchAll(/startxref\s+(\d+)\s+%%EOF/g)].pop()
+  if (!text.startsWith('%PDF-') || !startxref) {
+    throw new Error('不是有效的 PDF 文件')
+  }
+
+  // 传统交叉引用表的 trailer 字典，或交叉引用流的字典
+  const previousXref = Number(startxref[1])
+  const trailerIndex = text.lastIndexOf('trailer', startxref.index)
+  const dictionary = trailerIndex > previousXref
+    ? text.slice(trailerIndex, startxref.index)
+    : text.slice(previousXref, text.indexOf('stream', previousXref))
+
+  if (/\/Encrypt\s/.test(dictionary)) {
+    throw new Error('不支持加密的 PDF 文件')
+  }
+  const root = dictionary.match(/\/Root\s+(\d+\s+\d+\s+R)/)?.[1]
+  const size = Number(dictionary.match(/\/Size\s+(\d+)/)?.[1])
+  if (!root || !size) {
+    throw new Error('无法解析 PDF 文件结构')
+  }
+
+  // 合并原有 Info 字典（只处理未压缩的对象）
+  let existing = ''
+  const infoRef = dictionary.match(/\/Info\s+(\d+)\s+(\d+)\s+R/)
+  if (infoRef) {
+    const objects = [...text.matchAll(new RegExp(`(?:^|\\s)${infoRef[1]}\\s+${infoRef[2]}\\s+obj\\s*<<([\\s\\S]*?)>>\\s*endobj`, 'g'))]
+    existing = objects.pop()?.[1] ?? ''
+    for (const key of Object.keys(info)) {
+      existing = existing.replace(new RegExp(`/${key}\\s*(\\([^)]*\\)|<[^>]*>)`, 'g'), '')
+    }
+  }
+
+  const entries = Object.entries(info).map(([key, value]) => `/${key} ${encodePdfString(value)}`).join('\n')
+  const id = dictionary.match(/\/ID\s*\[[^\]]*\]/)?.[0]
+  const prefix = text.endsWith('\n') ? '' : '\n'
+
+  const object = `${prefix}${size} 0 obj\n<<${existing.trim() ? `${existing.trim()}\n` : ''}${entries}\n>>\nendobj\n`
+  const objectOffset = content.length + Buffer.byteLength(prefix, 'latin1')
+  const xrefOffset = content.length + Buffer.byteLength(object, 'latin1')
+  const update = [
+    object,
+    'xref\n',
+    `${size} 1\n`,
+    `${String(objectOffset).padStart(10, '0')} 00000 n \n`,
+    'trailer\n',
+    `<< /Size ${size + 1} /Root ${root} /Info ${size} 0 R /Prev ${previousXref}${id ? ` ${id}` : ''} >>\n`,
+    'startxref\n',
+    `${xrefOffset}\n`,
+    '%%EOF\n',
+  ].join('')
+
+  return Buffer.concat([content, Buffer.from(update, 'latin1')])
+}
+
+/**
+ * 从文件内容中查找授权标记编号（ZIP 中的授权文件为不压缩存储，PDF 元数据为明文字符串）
+ */
+export function extractStampIds(content: Buffer): string[] {
+  return Array.from(new Set(content.toString('latin1').match(STAMP_ID_PATTERN) ?? []))
+}
@@ -0,0 +1,115 @@
+/**
+ * 卡密生成工具
+ * UUID、按格式生成的卡密，以及 Ed25519 签名的离线授权文件
+ */
+
+import { randomInt, randomUUID, sign, verify, type KeyObject } from 'crypto'
+
+/**
+ * 格式中的占位符：X 为字母或数字，# 为数字，A 为字母（均不含易混淆的 0、O、1、I）
+ */
+const PATTERN_CHARSETS: Record<string, string> = {
+  X: '23456789ABCDEFGHJKLMNPQRSTUVWXYZ',
+  '#': '23456789',
+  A: 'ABCDEFGHJKLMNPQRSTUVWXYZ',
+}
+
+// 格式至少包含的占位符数量，避免生成的卡密容易被猜到或重复
+export const KEY_PATTERN_MIN_PLACEHOLDERS = 8
+export const KEY_PATTERN_MAX_LENGTH = 100
+
+const LICENSE_HEADER = '-----BEGIN AUTOSHIP LICENSE-----'
+const LICENSE_FOOTER = '-----END AUTOSHIP LICENSE-----'
+
+/**
+ * 离线授权文件中的授权信息
+ */
+export interface LicenseClaims {
+  licenseId: string
+  productId: number
+  productName: string
+  variantId: number | null
+  email: string
+  orderId: string
+  issuedAt: string
+  expiresAt: string | null // 为空表示永久有效
+}
+
+/**
+ * 离线授权文件的校验结果
+ */
+export interface LicenseVerification {
+  valid: boolean // 签名有效
+  expired: boolean
+  claims: LicenseClaims | null
+}
+
+export function generateUuidKey(): string {
+  return randomUUID().toUpperCase()
+}
+
+/**
+ * 校验卡密格式，返回错误信息（格式有效时返回 null）
+ */
+export function validateKeyPattern(pattern: string): string | null {
+  if (pattern.length > KEY_PATTERN_MAX_LENGTH) {
+    return `卡密格式不能超过 ${KEY_PATTERN_MAX_LENGTH} 个字符`
+  }
+  const placeholders = [...pattern].filter(char => char in PATTERN_CHARSETS).length
+  if (placeholders < KEY_PATTERN_MIN_PLACEHOLDERS) {
+    return `卡密格式至少需要 ${KEY_PATTERN_MIN_PLACEHOLDERS} 个占位符（X 字母或数字、# 数字、A 字母）`
+  }
+  return null
+}
+
+/**
+ * 按格式生成卡密，占位符以外的字符原样保留
+ */
+export function generatePatternKey(pattern: string): string {
+  return [...pattern]
+    .map(char => {
+      const charset = PATTERN_CHARSETS[char]
+      return charset ? charset[randomInt(charset.length)] : char
+    })
+    .join('')
+}
+
+/**
+ * 签发离线授权文件：base64url(授权信息 JSON).base64url(Ed25519 签名)，每行 64 个字符
+ * 签名对象为编码后的授权信息，校验时不需要还原 JSON 的格式
+ */
+export function signLicense(claims: LicenseClaims, privateKey: KeyObject): string {
+  const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url')
+  const signature = sign(null, Buffer.from(payload, 'ascii'), privateKey).toString('base64url')
+  const body = `${payload}.${signature}`.match(/.{1,64}/g)!.join('\n')
+  return `${LICENSE_HEADER}\n${body}\n${LICENSE_FOOTER}`
+}
+
+/**
+ * 校验离线授权文件的签名和有效期
+ */
+export function verifyLicense(license: string, publicKey: KeyObject, now = new Date()): LicenseVerification {
+  const start = license.indexOf(LICENSE_HEADER)
+  const end = license.indexOf(LICENSE_FOOTER, start)
+  const body = (start >= 0 && end > start ? license.slice(start + LICENSE_HEADER.length, end) : license).replace(/\s+/g, '')
+  const [payload, signature, ...rest] = body.split('.')
+  if (!payload || !signature || rest.length > 0) {
+    return { valid: false, expired: false, claims: null }
+  }
+
+  let claims: LicenseClaims
+  try {
+    if (!verify(null, Buffer.from(payload, 'ascii'), publicKey, Buffer.from(signature, 'base64url'))) {
+      return { valid: false, expired: false, claims: null }
+    }
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    return { valid: false, expired: false, claims: null }
+  }
+
+  return {
+    valid: true,
+    expired: Boolean(claims.expiresAt && new Date(claims.expiresAt).getTime() <= now.getTime()),
+    claims,
+  }
+}
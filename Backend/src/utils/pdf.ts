@@ -0,0 +1,111 @@
+/**
+ * 简易 PDF 生成工具
+ * 使用 PDF 阅读器内置的 STSong-Light 中文字体（Adobe-GB1），无需嵌入字体文件即可输出中英文文本
+ */
+
+// A4 纸张尺寸（单位：pt）
+export const PAGE_WIDTH = 595
+export const PAGE_HEIGHT = 842
+
+export interface PdfTextOptions {
+  size?: number
+  align?: 'left' | 'right' | 'center'
+}
+
+/**
+ * 估算文本宽度：ASCII 字符为半角宽度，其余字符为全角宽度
+ */
+export function measureText(text: string, size: number): number {
+  let units = 0
+  for (const char of text) {
+    units += char.charCodeAt(0) < 0x80 ? 500 : 1000
+  }
+  return units * size / 1000
+}
+
+/**
+ * 文本按 UCS-2 大端编码为十六进制字符串（超出 BMP 的字符替换为问号）
+ */
+function encodeText(text: string): string {
+  let hex = ''
+  for (const char of text) {
+    const code = char.codePointAt(0)!
+    hex += (code > 0xffff ? 0x3f : code).toString(16).padStart(4, '0')
+  }
+  return `<${hex}>`
+}
+
+export class PdfDocument {
+  private pages: string[][] = [[]]
+
+  /**
+   * 新增一页，之后的绘制内容写入新页
+   */
+  addPage(): void {
+    this.pages.push([])
+  }
+
+  /**
+   * 在当前页绘制文本，坐标原点为页面左上角
+   */
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10
+    const width = measureText(text, size)
+    const left = options.align === 'right'
+      ? x - width
+      : options.align === 'center' ? x - width / 2 : x
+
+    this.current.push(`BT /F1 ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td ${encodeText(text)} Tj ET`)
+  }
+
+  /**
+   * 在当前页绘制直线
+   */
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5): void {
+    this.current.push(`${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`)
+  }
+
+  /**
+   * 输出 PDF 文件内容
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = []
+    const pageIds = this.pages.map((_, index) => 5 + index * 2)
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+    objects[3] = '<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UCS2-H /DescendantFonts [4 0 R] >>'
+    objects[4] = '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light'
+      + ' /CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 2 >>'
+      + ' /FontDescriptor << /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880]'
+      + ' /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>'
+      + ' /DW 1000 /W [1 95 500] >>'
+
+    this.pages.forEach((commands, index) => {
+      const content = commands.join('\n')
+      objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`
+        + ` /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`
+    })
+
+    let output = '%PDF-1.4\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output)
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xrefOffset = Buffer.byteLength(output)
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+      output += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1]
+  }
+}
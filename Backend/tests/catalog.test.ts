@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { catalogService, buildCategoryTree, collectCategoryIds, normalizeTagNames } from '../src/services/catalog-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => {
+  const db = {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  }
+  return {
+    db,
+    withTransaction: vi.fn((fn: (tx: any) => Promise<any>) => fn(db)),
+    schema: {
+      products: { id: 'id', categoryId: 'categoryId', isActive: 'isActive' },
+      categories: { id: 'id', parentId: 'parentId', isActive: 'isActive', sortOrder: 'sortOrder' },
+      tags: { id: 'id', name: 'name' },
+      productTags: { productId: 'productId', tagId: 'tagId' }
+    }
+  }
+})
+
+const category = (id: number, parentId: number | null, overrides: Record<string, any> = {}): any => ({
+  id,
+  parentId,
+  name: `分类${id}`,
+  description: null,
+  isActive: true,
+  sortOrder: 0,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides
+})
+
+describe('Product catalog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should build a sorted category tree with product counts including subcategories', () => {
+    const tree = buildCategoryTree([
+      category(1, null, { sortOrder: 2 }),
+      category(2, null, { sortOrder: 1 }),
+      category(3, 1),
+      category(4, 3),
+      category(5, 99)
+    ], new Map([[1, 1], [3, 2], [4, 3]]))
+
+    expect(tree.map(node => node.id)).toEqual([2, 1])
+    expect(tree[1].productCount).toBe(6)
+    expect(tree[1].children[0]).toMatchObject({ id: 3, productCount: 5 })
+    expect(tree[1].children[0].children[0]).toMatchObject({ id: 4, productCount: 3 })
+  })
+
+  it('should collect a category with all of its descendants', () => {
+    const categories = [category(1, null), category(2, 1), category(3, 2), category(4, null), category(5, 1)]
+
+    expect(collectCategoryIds(categories, 1).sort()).toEqual([1, 2, 3, 5])
+    expect(collectCategoryIds(categories, 4)).toEqual([4])
+  })
+
+  it('should normalize tag names and drop duplicates ignoring case', () => {
+    expect(normalizeTagNames([' Windows ', 'windows', 'office  2024', '', 'Mac'])).toEqual(['Windows', 'office 2024', 'Mac'])
+    expect(() => normalizeTagNames(['x'.repeat(51)])).toThrow()
+  })
+
+  it('should not move a category under its own subcategory', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([category(1, null)], [category(3, 2)], [
+      { id: 1, parentId: null },
+      { id: 2, parentId: 1 },
+      { id: 3, parentId: 2 }
+    ])
+
+    await expect(catalogService.updateCategory(1, { parentId: 3 })).rejects.toMatchObject({ code: 'CATEGORY_INVALID' })
+    expect(db.update).not.toHaveBeenCalled()
+  })
+
+  it('should not delete categories that still have subcategories', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([category(1, null)], [{ count: 1 }])
+
+    await expect(catalogService.deleteCategory(1)).rejects.toMatchObject({ code: 'CATEGORY_IN_USE' })
+    expect(db.delete).not.toHaveBeenCalled()
+  })
+
+  it('should replace product tags and create missing tags', async () => {
+    const { db } = await import('../src/db')
+    const inserts: any[] = []
+    vi.mocked(db.insert).mockImplementation(() => ({
+      values: vi.fn((values: any) => {
+        inserts.push(values)
+        return Object.assign(Promise.resolve(undefined), {
+          returning: vi.fn().mockResolvedValue([{ id: 8, name: 'Office', createdAt: null }])
+        })
+      })
+    }) as any)
+    const where = vi.fn().mockResolvedValue(undefined)
+    vi.mocked(db.delete).mockReturnValue({ where } as any)
+    await mockSelectResults([{ id: 2, name: 'Windows', createdAt: null }])
+
+    const tags = await catalogService.setProductTags(1, ['windows', 'Office', 'WINDOWS'])
+
+    expect(tags).toEqual(['Office', 'Windows'])
+    expect(inserts[0]).toEqual([{ name: 'Office' }])
+    expect(where).toHaveBeenCalled()
+    expect(inserts[1]).toEqual([{ productId: 1, tagId: 2 }, { productId: 1, tagId: 8 }])
+  })
+})
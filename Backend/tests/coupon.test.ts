@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { couponService } from '../src/services/coupon-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn()
+  },
+  schema: {
+    coupons: { id: 'id', code: 'code' },
+    couponRedemptions: { couponId: 'couponId', orderId: 'orderId', email: 'email', status: 'status' }
+  }
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+const coupon = (overrides: Record<string, any> = {}) => ({
+  id: 1,
+  code: 'SAVE10',
+  discountType: 'percentage',
+  percentOff: 10,
+  amounts: null,
+  productIds: null,
+  maxRedemptions: null,
+  maxRedemptionsPerEmail: null,
+  stackable: false,
+  startsAt: null,
+  expiresAt: null,
+  isActive: true,
+  ...overrides
+})
+
+const lines = [
+  { productId: 1, quantity: 2, unitPrice: 50 },
+  { productId: 2, quantity: 1, unitPrice: 19.9 }
+]
+
+describe('CouponService.applyCoupons', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return the subtotal when no code is given', async () => {
+    const result = await couponService.applyCoupons({ codes: [], email: 'a@b.co', currency: 'CNY', lines })
+
+    expect(result).toEqual({ subtotal: 119.9, discountAmount: 0, total: 119.9, applied: [] })
+  })
+
+  it('should only discount products in the coupon scope', async () => {
+    await mockSelectResults([coupon({ productIds: '[1]' })])
+
+    const result = await couponService.applyCoupons({ codes: [' save10 '], email: 'a@b.co', currency: 'CNY', lines })
+
+    expect(result.discountAmount).toBe(10)
+    expect(result.total).toBe(109.9)
+  })
+
+  it('should cap fixed discounts by currency and stack stackable coupons', async () => {
+    await mockSelectResults(
+      [coupon({ code: 'OFF5', discountType: 'fixed', percentOff: null, amounts: '{"CNY":5}', stackable: true })],
+      [coupon({ id: 2, code: 'HALF', percentOff: 50, productIds: '[2]', stackable: true })]
+    )
+
+    const result = await couponService.applyCoupons({ codes: ['OFF5', 'HALF'], email: 'a@b.co', currency: 'CNY', lines })
+
+    expect(result.applied.map(item => item.discountAmount)).toEqual([5, 9.95])
+    expect(result.total).toBe(104.95)
+  })
+
+  it('should reject non-stackable coupons used together', async () => {
+    await mockSelectResults(
+      [coupon({ code: 'OFF5', stackable: true })],
+      [coupon({ id: 2, code: 'SOLO' })]
+    )
+
+    await expect(couponService.applyCoupons({ codes: ['OFF5', 'SOLO'], email: 'a@b.co', currency: 'CNY', lines }))
+      .rejects.toMatchObject({ code: 'COUPON_NOT_STACKABLE' })
+  })
+
+  it('should enforce the per-email usage limit', async () => {
+    await mockSelectResults(
+      [coupon({ maxRedemptions: 100, maxRedemptionsPerEmail: 1 })],
+      [{ total: 3 }],
+      [{ total: 1 }]
+    )
+
+    await expect(couponService.applyCoupons({ codes: ['SAVE10'], email: 'a@b.co', currency: 'CNY', lines }))
+      .rejects.toMatchObject({ code: 'COUPON_EMAIL_LIMIT' })
+  })
+
+  it('should reject expired coupons and unsupported currencies', async () => {
+    await mockSelectResults([coupon({ expiresAt: '2020-01-01T00:00:00.000Z' })])
+    await expect(couponService.applyCoupons({ codes: ['SAVE10'], email: 'a@b.co', currency: 'CNY', lines }))
+      .rejects.toMatchObject({ code: 'COUPON_EXPIRED' })
+
+    await mockSelectResults([coupon({ discountType: 'fixed', amounts: '{"CNY":5}' })])
+    await expect(couponService.applyCoupons({ codes: ['SAVE10'], email: 'a@b.co', currency: 'USD', lines }))
+      .rejects.toMatchObject({ code: 'COUPON_CURRENCY_UNSUPPORTED' })
+  })
+})
+
+describe('CouponService.releaseForOrderStatus', () => {
+  it('should release redemptions only for cancelled, failed or refunded orders', async () => {
+    const { db } = await import('../src/db')
+    const set = vi.fn(() => ({ where: vi.fn(() => ({ returning: vi.fn().mockResolvedValue([{ code: 'SAVE10' }]) })) }))
+    vi.mocked(db.update).mockReturnValue({ set } as any)
+
+    expect(await couponService.releaseForOrderStatus('ORDER_TEST_123', 'delivered')).toBe(0)
+    expect(await couponService.releaseForOrderStatus('ORDER_TEST_123', 'cancelled')).toBe(1)
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'released' }))
+  })
+})
+
+describe('CouponService.recordRedemptions', () => {
+  it('should write redemptions through the order transaction', async () => {
+    const { db } = await import('../src/db')
+    const values = vi.fn().mockResolvedValue(undefined)
+    const tx = { insert: vi.fn(() => ({ values })) }
+
+    await couponService.recordRedemptions('ORDER_TEST_123', 'A@B.co', 'USD', [
+      { coupon: coupon() as any, discountAmount: 11.99 }
+    ], tx)
+
+    expect(db.insert).not.toHaveBeenCalled()
+    expect(values).toHaveBeenCalledWith([expect.objectContaining({
+      couponId: 1,
+      orderId: 'ORDER_TEST_123',
+      email: 'a@b.co',
+      discountAmount: 11.99
+    })])
+  })
+
+  it('should fail the order when concurrent checkouts pushed the coupon over its limits', async () => {
+    // 写入后在事务内复核：依次返回总使用次数和该邮箱的使用次数
+    const countResults = (...totals: number[]) => {
+      const select = vi.fn()
+      totals.forEach(total => select.mockReturnValueOnce({ from: () => ({ where: async () => [{ total }] }) }))
+      return { insert: vi.fn(() => ({ values: vi.fn().mockResolvedValue(undefined) })), select }
+    }
+    const limited = coupon({ maxRedemptions: 2, maxRedemptionsPerEmail: 1 }) as any
+
+    await expect(couponService.recordRedemptions('ORDER_TEST_123', 'a@b.co', 'USD', [
+      { coupon: limited, discountAmount: 10 }
+    ], countResults(2, 1))).resolves.toBeUndefined()
+
+    await expect(couponService.recordRedemptions('ORDER_TEST_124', 'a@b.co', 'USD', [
+      { coupon: limited, discountAmount: 10 }
+    ], countResults(3))).rejects.toMatchObject({ code: 'COUPON_USAGE_LIMIT' })
+
+    await expect(couponService.recordRedemptions('ORDER_TEST_125', 'a@b.co', 'USD', [
+      { coupon: limited, discountAmount: 10 }
+    ], countResults(2, 2))).rejects.toMatchObject({ code: 'COUPON_EMAIL_LIMIT' })
+  })
+})
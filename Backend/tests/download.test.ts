@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Readable } from 'stream'
+import { createReadStream } from 'fs'
+import { downloadService, parseRangeHeader } from '../src/services/download-service'
+import { tokenService } from '../src/services/token-service'
+import { storageService } from '../src/services/storage-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn()
+  },
+  schema: {
+    orders: { id: 'id', status: 'status' },
+    deliveries: { id: 'id', orderId: 'orderId', downloadToken: 'downloadToken', downloadCount: 'downloadCount' },
+    downloads: { deliveryId: 'deliveryId', bytesDownloaded: 'bytesDownloaded' },
+    files: { id: 'id', isActive: 'isActive' },
+    securityTokens: { tokenType: 'tokenType', isActive: 'isActive', metadata: 'metadata' }
+  }
+}))
+
+vi.mock('../src/services/token-service', () => ({
+  tokenService: {
+    verifyDownloadToken: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/product-file-service', () => ({
+  productFileService: {
+    resolveDeliveryFileId: vi.fn(async (delivery: any) => delivery.fileId)
+  }
+}))
+
+vi.mock('../src/services/file-stamp-service', () => ({
+  fileStampService: {
+    getDeliveryFile: vi.fn(async (_delivery: any, file: any) => file)
+  }
+}))
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (_group: string, _key: string, defaultValue: any) => defaultValue)
+  }
+}))
+
+vi.mock('fs/promises', () => ({
+  default: {
+    stat: vi.fn().mockResolvedValue({ size: 10 })
+  }
+}))
+
+vi.mock('fs', () => ({
+  createReadStream: vi.fn()
+}))
+
+const delivery = {
+  id: 7,
+  orderId: 'ORDER_TEST_123',
+  downloadToken: 'a'.repeat(32),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  downloadCount: 0,
+  maxDownloads: 3,
+  fileName: null,
+  fileId: 5,
+  isActive: true
+}
+
+const file = {
+  id: 5,
+  originalName: 'app.zip',
+  filePath: 'storage/files/app.zip',
+  fileSize: 10,
+  mimeType: 'application/zip',
+  checksum: 'abc123',
+  isActive: true
+}
+
+const mockUpdateResult = async (rows: any[]) => {
+  const { db } = await import('../src/db')
+  const set = vi.fn(() => ({ where: vi.fn(() => ({ returning: vi.fn().mockResolvedValue(rows) })) }))
+  vi.mocked(db.update).mockReturnValue({ set } as any)
+  return set
+}
+
+const mockInsert = async () => {
+  const { db } = await import('../src/db')
+  const values = vi.fn().mockResolvedValue(undefined)
+  vi.mocked(db.insert).mockReturnValue({ values } as any)
+  return values
+}
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => {
+  const chunks: Buffer[] = []
+  const reader = stream.getReader()
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) break
+    chunks.push(Buffer.from(value))
+  }
+  return Buffer.concat(chunks).toString()
+}
+
+describe('DownloadService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should parse single byte ranges', () => {
+    expect(parseRangeHeader(undefined, 10)).toBeNull()
+    expect(parseRangeHeader('bytes=2-5', 10)).toEqual({ start: 2, end: 5 })
+    expect(parseRangeHeader('bytes=4-', 10)).toEqual({ start: 4, end: 9 })
+    expect(parseRangeHeader('bytes=-3', 10)).toEqual({ start: 7, end: 9 })
+    expect(parseRangeHeader('bytes=0-100', 10)).toEqual({ start: 0, end: 9 })
+    expect(parseRangeHeader('bytes=0-1,4-5', 10)).toBeNull()
+    expect(() => parseRangeHeader('bytes=10-', 10)).toThrow(expect.objectContaining({ code: 'RANGE_NOT_SATISFIABLE' }))
+  })
+
+  it('should stream the full file, count the download and record the bytes served', async () => {
+    await mockSelectResults([delivery], [{ status: 'delivered' }], [file])
+    const set = await mockUpdateResult([{ id: delivery.id }])
+    const values = await mockInsert()
+    vi.mocked(createReadStream).mockReturnValue(Readable.from([Buffer.from('0123456789')]) as any)
+
+    const download = await downloadService.openDownload(delivery.downloadToken, { ipAddress: '1.2.3.4' })
+
+    expect(download).toMatchObject({ fileName: 'app.zip', mimeType: 'application/zip', fileSize: 10, range: null })
+    expect(set).toHaveBeenCalledWith({ downloadCount: expect.anything() })
+    expect(await readAll(download.stream)).toBe('0123456789')
+    await vi.waitFor(() => expect(values).toHaveBeenCalledWith(expect.objectContaining({
+      deliveryId: delivery.id,
+      ipAddress: '1.2.3.4',
+      downloadStatus: 'success',
+      bytesDownloaded: 10
+    })))
+  })
+
+  it('should resume from a byte offset without counting another download', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([{ ...delivery, downloadCount: 1 }], [{ status: 'delivered' }], [file], [{ bytes: '4' }])
+    await mockInsert()
+    vi.mocked(createReadStream).mockReturnValue(Readable.from([Buffer.from('456789')]) as any)
+
+    const download = await downloadService.openDownload(delivery.downloadToken, { range: 'bytes=4-', ifRange: '"abc123"' })
+
+    expect(download.range).toEqual({ start: 4, end: 9 })
+    expect(createReadStream).toHaveBeenCalledWith(file.filePath, { start: 4, end: 9 })
+    expect(db.update).not.toHaveBeenCalled()
+  })
+
+  it('should redirect to a presigned URL when the storage driver supports it', async () => {
+    const getPresignedUrl = vi.fn().mockResolvedValue('https://bucket.example.com/app.zip?X-Amz-Signature=abc')
+    storageService.register({ name: 'presigned', stat: vi.fn().mockResolvedValue({ size: 10 }), getPresignedUrl } as any)
+    await mockSelectResults([delivery], [{ status: 'delivered' }], [{ ...file, storageDriver: 'presigned' }])
+    const set = await mockUpdateResult([{ id: delivery.id }])
+    const values = await mockInsert()
+
+    const download = await downloadService.openDownload(delivery.downloadToken, { range: 'bytes=4-' })
+
+    expect(download).toMatchObject({ redirectUrl: 'https://bucket.example.com/app.zip?X-Amz-Signature=abc', range: null })
+    expect(download.stream).toBeUndefined()
+    expect(getPresignedUrl).toHaveBeenCalledWith(file.filePath, expect.objectContaining({
+      expiresIn: 300,
+      contentDisposition: expect.stringContaining('app.zip')
+    }))
+    expect(set).toHaveBeenCalledWith({ downloadCount: expect.anything() })
+    expect(values).toHaveBeenCalledWith(expect.objectContaining({ downloadStatus: 'redirected', bytesDownloaded: 0 }))
+    expect(createReadStream).not.toHaveBeenCalled()
+  })
+
+  it('should reject links deactivated by a refund', async () => {
+    await mockSelectResults([{ ...delivery, isActive: false }])
+    const values = await mockInsert()
+
+    await expect(downloadService.openDownload(delivery.downloadToken)).rejects.toMatchObject({ code: 'DOWNLOAD_REVOKED' })
+    expect(values).toHaveBeenCalledWith(expect.objectContaining({ downloadStatus: 'failed', bytesDownloaded: 0 }))
+    expect(createReadStream).not.toHaveBeenCalled()
+  })
+
+  it('should reject expired links and refunded orders', async () => {
+    await mockInsert()
+    await mockSelectResults([{ ...delivery, expiresAt: '2020-01-01T00:00:00.000Z' }], [{ status: 'delivered' }])
+    await expect(downloadService.openDownload(delivery.downloadToken)).rejects.toMatchObject({ code: 'DOWNLOAD_EXPIRED' })
+
+    await mockSelectResults([delivery], [{ status: 'refunded' }])
+    await expect(downloadService.openDownload(delivery.downloadToken)).rejects.toMatchObject({ code: 'DOWNLOAD_REVOKED' })
+  })
+
+  it('should reject new downloads once the limit is reached', async () => {
+    await mockSelectResults([{ ...delivery, downloadCount: 3 }], [{ status: 'delivered' }], [file])
+    await mockUpdateResult([])
+    await mockInsert()
+
+    await expect(downloadService.openDownload(delivery.downloadToken)).rejects.toMatchObject({ code: 'DOWNLOAD_LIMIT_EXCEEDED' })
+    expect(createReadStream).not.toHaveBeenCalled()
+  })
+
+  it('should resolve JWT download tokens through the token service', async () => {
+    vi.mocked(tokenService.verifyDownloadToken).mockResolvedValue({ isValid: false, error: 'Token has been revoked' })
+
+    await expect(downloadService.openDownload('header.payload.signature')).rejects.toMatchObject({ code: 'DOWNLOAD_REVOKED' })
+    expect(tokenService.verifyDownloadToken).toHaveBeenCalledWith('header.payload.signature', undefined, undefined)
+  })
+})
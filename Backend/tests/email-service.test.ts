@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest'
+import { emailService } from '../src/services/email-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn()
+  },
+  schema: {
+    orders: { id: 'id', productId: 'productId' },
+    products: { id: 'id' },
+    deliveries: { orderId: 'orderId', isActive: 'isActive' },
+    emailLogs: {}
+  }
+}))
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (_category: string, _key: string, defaultValue: any) => defaultValue)
+  }
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/email-template-service', () => ({
+  emailTemplateService: {
+    renderForOrder: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/invoice-service', () => ({
+  invoiceService: {}
+}))
+
+describe('EmailService.sendOrderEmail', () => {
+  it('should log a failed attempt instead of throwing when the template cannot be rendered', async () => {
+    const { db } = await import('../src/db')
+    const { emailTemplateService } = await import('../src/services/email-template-service')
+    vi.mocked(emailTemplateService.renderForOrder).mockRejectedValueOnce(new Error('Unknown variable {{amount}}'))
+    const values = vi.fn(() => ({ returning: vi.fn().mockResolvedValue([{ id: 12 }]) }))
+    vi.mocked(db.insert).mockReturnValue({ values } as any)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await mockSelectResults([{ order: { id: 'ORDER_TEST_123', email: 'buyer@example.com' }, product: null }])
+
+    const outcome = await emailService.sendOrderEmail('ORDER_TEST_123', 'refund')
+
+    expect(outcome).toMatchObject({ success: false, logId: 12 })
+    expect(outcome.error).toContain('Unknown variable {{amount}}')
+    expect(values).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: 'ORDER_TEST_123',
+      emailType: 'refund',
+      recipient: 'buyer@example.com',
+      status: 'failed'
+    }))
+  })
+})
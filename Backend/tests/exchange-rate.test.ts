@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { exchangeRateService, roundPrice, type FxContext } from '../src/services/exchange-rate-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    delete: vi.fn()
+  },
+  schema: {
+    exchangeRates: { id: 'id', baseCurrency: 'baseCurrency', currency: 'currency' },
+    productPrices: { productId: 'productId', variantId: 'variantId', currency: 'currency', isActive: 'isActive' }
+  }
+}))
+
+const fxConfig: Record<string, any> = {}
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (_group: string, key: string, defaultValue: any) => key in fxConfig ? fxConfig[key] : defaultValue),
+    setConfig: vi.fn()
+  }
+}))
+
+// insert 回显写入的汇率
+const mockUpserts = async () => {
+  const { db } = await import('../src/db')
+  vi.mocked(db.insert).mockReturnValue({
+    values: vi.fn((values: any) => ({
+      onConflictDoUpdate: vi.fn(() => ({
+        returning: vi.fn().mockResolvedValue([{ id: 1, ...values }])
+      }))
+    }))
+  } as any)
+}
+
+const context = (overrides: Partial<FxContext['settings']> = {}): FxContext => ({
+  settings: {
+    enabled: true,
+    baseCurrency: 'CNY',
+    rounding: { default: 'charm', JPY: 'integer' },
+    ratesFile: './data/exchange-rates.json',
+    ...overrides
+  },
+  rates: new Map([['CNY', 1], ['USD', 0.14], ['JPY', 20.5]])
+})
+
+describe('Exchange rates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    for (const key of Object.keys(fxConfig)) {
+      delete fxConfig[key]
+    }
+  })
+
+  it('should apply rounding rules', () => {
+    expect(roundPrice(13.864, 'none')).toBe(13.86)
+    expect(roundPrice(13.5, 'integer')).toBe(14)
+    expect(roundPrice(13.86, 'charm')).toBe(13.99)
+    expect(roundPrice(0.2, 'charm')).toBe(0.99)
+    expect(roundPrice(8.26, 'charm')).toBe(8.99)
+    expect(roundPrice(13.99, 'charm')).toBe(13.99)
+    expect(roundPrice(14, 'charm')).toBe(14.99)
+  })
+
+  it('should derive missing currencies from the base currency price', () => {
+    const prices = exchangeRateService.withDerivedPrices([
+      { currency: 'CNY', price: 99, isActive: true },
+      { currency: 'USD', price: 12.5, isActive: true }
+    ], context())
+
+    // 单独定价的 USD 不被覆盖，JPY 按汇率推算并取整
+    expect(prices).toEqual([
+      { currency: 'CNY', price: 99, isActive: true },
+      { currency: 'USD', price: 12.5, isActive: true },
+      { currency: 'JPY', price: 2030, isActive: true, derived: true }
+    ])
+  })
+
+  it('should derive compare-at prices while the base currency is on sale', () => {
+    const prices = exchangeRateService.withDerivedPrices([
+      { currency: 'CNY', price: 59, isActive: true, compareAtPrice: 99, saleEndsAt: '2026-11-03T00:00:00.000Z' }
+    ], context())
+
+    expect(prices.find(price => price.currency === 'USD')).toEqual({
+      currency: 'USD',
+      price: 8.99,
+      isActive: true,
+      compareAtPrice: 13.99,
+      saleEndsAt: '2026-11-03T00:00:00.000Z',
+      derived: true
+    })
+  })
+
+  it('should not derive prices when FX mode is disabled or there is no base price', () => {
+    const prices = [{ currency: 'USD', price: 9.99, isActive: true }]
+
+    expect(exchangeRateService.withDerivedPrices(prices, context())).toEqual(prices)
+    expect(exchangeRateService.withDerivedPrices(
+      [{ currency: 'CNY', price: 99, isActive: true }],
+      context({ enabled: false })
+    )).toHaveLength(1)
+  })
+
+  it('should derive the checkout price of a product', async () => {
+    fxConfig.enabled = true
+    fxConfig.rounding = '{"default":"charm"}'
+    await mockSelectResults([{ currency: 'USD', rate: 0.14 }], [{ productId: 1, currency: 'CNY', price: 99 }])
+
+    await expect(exchangeRateService.getDerivedPrice(1, 'USD')).resolves.toBe(13.99)
+  })
+
+  it('should not query prices for currencies without a rate', async () => {
+    const { db } = await import('../src/db')
+    fxConfig.enabled = true
+    await mockSelectResults([])
+
+    await expect(exchangeRateService.getDerivedPrice(1, 'EUR')).resolves.toBeNull()
+    expect(db.select).toHaveBeenCalledTimes(1)
+  })
+
+  it('should import rates from JSON and CSV files', async () => {
+    await mockUpserts()
+
+    const json = await exchangeRateService.importRates('{"base": "CNY", "rates": {"USD": 0.14, "EUR": 0.13, "CNY": 1}}')
+    expect(json.imported.map(rate => [rate.currency, rate.rate, rate.source])).toEqual([
+      ['USD', 0.14, 'file'],
+      ['EUR', 0.13, 'file']
+    ])
+
+    const csv = await exchangeRateService.importRates('currency,rate\nUSD,0.15\n# comment\njpy,21')
+    expect(csv.imported.map(rate => [rate.currency, rate.rate])).toEqual([['USD', 0.15], ['JPY', 21]])
+  })
+
+  it('should reject files for another base currency or with invalid rates', async () => {
+    const { db } = await import('../src/db')
+
+    await expect(exchangeRateService.importRates('{"base": "USD", "rates": {"CNY": 7.1}}'))
+      .rejects.toMatchObject({ code: 'FX_BASE_MISMATCH' })
+    await expect(exchangeRateService.importRates('USD,abc'))
+      .rejects.toMatchObject({ code: 'FX_FILE_INVALID' })
+    await expect(exchangeRateService.importRates('GBP,0.11'))
+      .rejects.toMatchObject({ code: 'FX_FILE_INVALID' })
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+})
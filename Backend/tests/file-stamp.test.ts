@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { buildZipAppendix, crc32, extractStampIds, readZipEnd, stampPdf } from '../src/utils/file-stamp'
+import { fileStampService, generateStampId, resolveStampFormat } from '../src/services/file-stamp-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn()
+  },
+  schema: {
+    products: { id: 'id', name: 'name', fileStamping: 'fileStamping' },
+    productFileVersions: { productId: 'productId', fileId: 'fileId' },
+    orders: { id: 'id', email: 'email', productId: 'productId' },
+    deliveries: { id: 'id', orderId: 'orderId', stampId: 'stampId', stampedFileId: 'stampedFileId' },
+    files: { id: 'id', isActive: 'isActive' }
+  }
+}))
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (_group: string, _key: string, defaultValue: any) => defaultValue)
+  }
+}))
+
+vi.mock('../src/services/storage-service', () => ({
+  storageService: {
+    forFile: vi.fn(),
+    getDefaultDriver: vi.fn()
+  }
+}))
+
+// 空 ZIP 文件只有目录结束记录
+const emptyZip = (comment = '') => {
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Buffer.byteLength(comment), 20)
+  return Buffer.concat([end, Buffer.from(comment)])
+}
+
+const appendEntry = (zip: Buffer, name: string, content: string, comment: string) => {
+  const end = readZipEnd(zip, zip.length)
+  const centralDirectory = zip.subarray(end.centralDirectoryOffset, end.centralDirectoryOffset + end.centralDirectorySize)
+  const appendix = buildZipAppendix(end, centralDirectory, { name, content: Buffer.from(content) }, comment)
+  return Buffer.concat([zip.subarray(0, end.centralDirectoryOffset), appendix])
+}
+
+const samplePdf = [
+  '%PDF-1.4',
+  '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+  '2 0 obj << /Type /Pages /Kids [] /Count 0 >> endobj',
+  '3 0 obj',
+  '<< /Title (Handbook) /Author (Alice) >>',
+  'endobj',
+  'xref',
+  '0 4',
+  'trailer',
+  '<< /Size 4 /Root 1 0 R /Info 3 0 R /ID [<AA> <BB>] >>',
+  'startxref',
+  '165',
+  '%%EOF',
+  ''
+].join('\n')
+
+const file: any = {
+  id: 5,
+  originalName: 'app.zip',
+  filePath: 'storage/files/app.zip',
+  fileSize: 10,
+  mimeType: 'application/zip',
+  storageDriver: 'local',
+  isActive: true
+}
+
+const delivery: any = { id: 7, orderId: 'ORDER_TEST_123', stampId: null, stampedFileId: null }
+
+describe('file stamping utils', () => {
+  it('should append a stored entry and keep existing entries and comment', () => {
+    const first = appendEntry(emptyZip('release 1.0'), 'readme.txt', 'hello', 'release 1.0')
+    const stamped = appendEntry(first, 'AUTOSHIP-LICENSE.txt', 'License ID: AS-1', 'release 1.0\nAutoShip license AS-1')
+
+    const end = readZipEnd(stamped, stamped.length)
+    expect(end.entries).toBe(2)
+    expect(end.comment).toBe('release 1.0\nAutoShip license AS-1')
+    // 原有条目的字节不变
+    expect(stamped.subarray(0, readZipEnd(first, first.length).centralDirectoryOffset)).toEqual(
+      first.subarray(0, readZipEnd(first, first.length).centralDirectoryOffset)
+    )
+
+    // 新目录项指向新条目的本地文件头
+    const directoryEntry = stamped.subarray(end.centralDirectoryOffset).indexOf(Buffer.from('AUTOSHIP-LICENSE.txt')) + end.centralDirectoryOffset - 46
+    const localOffset = stamped.readUInt32LE(directoryEntry + 42)
+    expect(stamped.readUInt32LE(localOffset)).toBe(0x04034b50)
+    expect(stamped.readUInt32LE(localOffset + 14)).toBe(crc32(Buffer.from('License ID: AS-1')))
+  })
+
+  it('should reject files that are not ZIP archives', () => {
+    const content = Buffer.from('not a zip file at all, just plain text')
+    expect(() => readZipEnd(content, content.length)).toThrow('不是有效的 ZIP 文件')
+  })
+
+  it('should add license metadata to PDFs with an incremental update', () => {
+    const stamped = stampPdf(Buffer.from(samplePdf, 'latin1'), { AutoShipLicenseId: 'AS-1', AutoShipLicensee: '张三' }).toString('latin1')
+
+    expect(stamped.startsWith(samplePdf)).toBe(true)
+    const update = stamped.slice(samplePdf.length)
+    expect(update).toContain('/Title (Handbook) /Author (Alice)')
+    expect(update).toContain('/AutoShipLicenseId (AS-1)')
+    expect(update).toContain('/AutoShipLicensee <FEFF5F204E09>')
+    expect(update).toContain('<< /Size 5 /Root 1 0 R /Info 4 0 R /Prev 165 /ID [<AA> <BB>] >>')
+
+    // 交叉引用表和对象的偏移量正确
+    const xrefOffset = Number(stamped.match(/startxref\n(\d+)\n%%EOF\n$/)![1])
+    expect(stamped.slice(xrefOffset, xrefOffset + 4)).toBe('xref')
+    const objectOffset = Number(update.match(/4 1\n(\d{10}) 00000 n/)![1])
+    expect(stamped.slice(objectOffset, objectOffset + 7)).toBe('4 0 obj')
+  })
+
+  it('should reject encrypted PDFs', () => {
+    const encrypted = samplePdf.replace('/Info 3 0 R', '/Info 3 0 R /Encrypt 5 0 R')
+    expect(() => stampPdf(Buffer.from(encrypted, 'latin1'), { AutoShipLicenseId: 'AS-1' })).toThrow('不支持加密的 PDF 文件')
+  })
+
+  it('should find unique stamp ids in file content', () => {
+    const stampId = generateStampId()
+    expect(stampId).toMatch(/^AS-[0-9A-F]{5}(-[0-9A-F]{5}){3}$/)
+    expect(extractStampIds(Buffer.from(`License ID: ${stampId}\nAutoShip license ${stampId} AS-123`))).toEqual([stampId])
+  })
+
+  it('should only stamp ZIP and PDF files', () => {
+    expect(resolveStampFormat({ originalName: 'app.ZIP', mimeType: null })).toBe('zip')
+    expect(resolveStampFormat({ originalName: 'book', mimeType: 'application/pdf' })).toBe('pdf')
+    expect(resolveStampFormat({ originalName: 'setup.exe', mimeType: 'application/octet-stream' })).toBeNull()
+  })
+})
+
+describe('FileStampService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should serve the original file when stamping is disabled', async () => {
+    await mockSelectResults([{ name: 'App', fileStamping: false }])
+
+    expect(await fileStampService.getDeliveryFile(delivery, file)).toBe(file)
+  })
+
+  it('should reuse the stamped copy generated for the same source file', async () => {
+    const stamped = { ...file, id: 9, sourceFileId: 5, filePath: 'storage/files/stamped/7/copy.zip' }
+    await mockSelectResults([{ name: 'App', fileStamping: true }], [stamped])
+
+    const result = await fileStampService.getDeliveryFile({ ...delivery, stampId: 'AS-1', stampedFileId: 9 }, file)
+
+    expect(result).toBe(stamped)
+    const { storageService } = await import('../src/services/storage-service')
+    expect(storageService.forFile).not.toHaveBeenCalled()
+  })
+
+  it('should fall back to the original file when stamping fails', async () => {
+    const { storageService } = await import('../src/services/storage-service')
+    const driver: any = { name: 'local', createReadStream: vi.fn().mockRejectedValue(new Error('ENOENT')) }
+    vi.mocked(storageService.forFile).mockReturnValue(driver)
+    vi.mocked(storageService.getDefaultDriver).mockResolvedValue(driver)
+    await mockSelectResults(
+      [{ name: 'App', fileStamping: true }],
+      [{ id: 'ORDER_TEST_123', email: 'buyer@example.com' }]
+    )
+
+    expect(await fileStampService.getDeliveryFile(delivery, file)).toBe(file)
+  })
+
+  it('should trace stamp ids back to orders', async () => {
+    await mockSelectResults([{
+      delivery: { id: 7, stampId: 'AS-1', stampedAt: '2026-10-19T00:00:00.000Z', downloadCount: 2, isActive: true },
+      order: { id: 'ORDER_TEST_123', email: 'buyer@example.com', status: 'delivered', productId: 1, createdAt: null },
+      productName: 'App'
+    }])
+
+    const result = await fileStampService.traceContent(Buffer.from('License ID: AS-AAAAA-BBBBB-CCCCC-DDDDD'))
+
+    expect(result.stampIds).toEqual(['AS-AAAAA-BBBBB-CCCCC-DDDDD'])
+    expect(result.matches).toEqual([{
+      stampId: 'AS-1',
+      deliveryId: 7,
+      stampedAt: '2026-10-19T00:00:00.000Z',
+      downloadCount: 2,
+      isActive: true,
+      order: {
+        id: 'ORDER_TEST_123',
+        email: 'buyer@example.com',
+        status: 'delivered',
+        productId: 1,
+        productName: 'App',
+        createdAt: null
+      }
+    }])
+  })
+
+  it('should not query orders when no stamp id is found', async () => {
+    const { db } = await import('../src/db')
+
+    expect(await fileStampService.traceContent(Buffer.from('plain file'))).toEqual({ stampIds: [], matches: [] })
+    expect(db.select).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { z } from 'zod'
+import { gatewayRegistry } from '../src/services/gateways'
+
+// 配置中心中已保存的值
+const storedConfig: Record<string, any> = {}
+
+// Mock 依赖
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (group: string, key: string, defaultValue?: any) =>
+      group === 'payment' && key in storedConfig ? storedConfig[key] : defaultValue
+    ),
+    setConfig: vi.fn(async () => true)
+  }
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+describe('GatewayRegistry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    for (const key of Object.keys(storedConfig)) {
+      delete storedConfig[key]
+    }
+  })
+
+  it('should register the built-in gateways', () => {
+    expect(gatewayRegistry.ids()).toEqual(['alipay', 'creem', 'stripe', 'paypal', 'wechat'])
+    expect(gatewayRegistry.get('wechat')?.supportedCurrencies).toEqual(['CNY'])
+    expect(gatewayRegistry.has('unknown')).toBe(false)
+  })
+
+  it('should reject registering the same gateway twice', () => {
+    expect(() => gatewayRegistry.register(gatewayRegistry.get('stripe')!)).toThrow('already registered')
+  })
+
+  it('should derive config fields from the plugin schema', () => {
+    const fields = gatewayRegistry.describeConfig(gatewayRegistry.get('stripe')!)
+
+    expect(fields.find(field => field.key === 'enabled')).toMatchObject({
+      configKey: 'stripe_enabled',
+      type: 'boolean',
+      defaultValue: false
+    })
+    expect(fields.find(field => field.key === 'secret_key')).toMatchObject({
+      configKey: 'stripe_secret_key',
+      type: 'string',
+      secret: true
+    })
+    expect(fields.find(field => field.key === 'webhook_tolerance')).toMatchObject({
+      type: 'number',
+      defaultValue: 300
+    })
+  })
+
+  it('should not echo secret values', async () => {
+    storedConfig.stripe_enabled = 'true'
+    storedConfig.stripe_secret_key = 'sk_live_123'
+
+    const { values, configuredSecrets } = await gatewayRegistry.getConfigValues(gatewayRegistry.get('stripe')!)
+
+    expect(values.enabled).toBe(true)
+    expect(values.secret_key).toBe('')
+    expect(configuredSecrets).toEqual(['secret_key'])
+  })
+
+  it('should save submitted fields and keep blank secrets unchanged', async () => {
+    const { configService } = await import('../src/services/config-service')
+
+    const updated = await gatewayRegistry.updateConfig(gatewayRegistry.get('stripe')!, {
+      enabled: true,
+      secret_key: '',
+      webhook_secret: 'whsec_new'
+    }, 'admin')
+
+    expect(updated).toEqual(['enabled', 'webhook_secret'])
+    expect(configService.setConfig).toHaveBeenCalledWith('payment', 'stripe_enabled', true, expect.objectContaining({
+      dataType: 'boolean',
+      isEncrypted: false
+    }))
+    expect(configService.setConfig).toHaveBeenCalledWith('payment', 'stripe_webhook_secret', 'whsec_new', expect.objectContaining({
+      isEncrypted: true
+    }))
+  })
+
+  it('should reject invalid or unknown fields', async () => {
+    const { configService } = await import('../src/services/config-service')
+
+    await expect(gatewayRegistry.updateConfig(gatewayRegistry.get('stripe')!, { api_base: 'not a url' }, 'admin'))
+      .rejects.toBeInstanceOf(z.ZodError)
+    await expect(gatewayRegistry.updateConfig(gatewayRegistry.get('stripe')!, { unknown_key: 'x' }, 'admin'))
+      .rejects.toBeInstanceOf(z.ZodError)
+    expect(configService.setConfig).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,16 @@
+import { vi } from 'vitest'
+
+/**
+ * 每次 db.select 依次返回的记录
+ * 查询链上的方法均返回自身，await 时得到对应记录；需在测试文件中 vi.mock('../src/db')
+ */
+export const mockSelectResults = async (...results: any[][]) => {
+  const { db } = await import('../../src/db')
+  for (const rows of results) {
+    const query: any = Object.assign(Promise.resolve(rows), {})
+    for (const method of ['from', 'innerJoin', 'leftJoin', 'where', 'groupBy', 'orderBy', 'limit', 'offset']) {
+      query[method] = vi.fn(() => query)
+    }
+    vi.mocked(db.select).mockReturnValueOnce(query)
+  }
+}
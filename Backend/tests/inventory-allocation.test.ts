@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { inventoryService } from '../src/services/inventory-service'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn()
+  },
+  schema: {
+    inventoryText: {
+      id: 'id',
+      productId: 'productId',
+      isUsed: 'isUsed',
+      expiresAt: 'expiresAt',
+      priority: 'priority',
+      createdAt: 'createdAt',
+      usedOrderId: 'usedOrderId'
+    }
+  },
+  withTransaction: vi.fn((callback: any) => callback({}))
+}))
+
+vi.mock('../src/db/validation', () => ({
+  validateInventoryText: vi.fn(),
+  validateInventoryTextUpdate: vi.fn()
+}))
+
+describe('InventoryService.allocateInventory', () => {
+  let updates: any[] = []
+
+  // 每次 update 依次返回的记录
+  const mockUpdateResults = async (...results: any[][]) => {
+    const { db } = await import('../src/db')
+    for (const rows of results) {
+      vi.mocked(db.update).mockImplementationOnce((() => ({
+        set: vi.fn((values: any) => {
+          updates.push(values)
+          const where: any = vi.fn(() => Object.assign(Promise.resolve(rows), {
+            returning: vi.fn().mockResolvedValue(rows)
+          }))
+          return { where }
+        })
+      })) as any)
+    }
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    updates = []
+
+    const { db } = await import('../src/db')
+    const query: any = {}
+    query.from = vi.fn(() => query)
+    query.where = vi.fn(() => query)
+    query.orderBy = vi.fn(() => query)
+    query.limit = vi.fn(() => query)
+    vi.mocked(db.select).mockReturnValue(query)
+  })
+
+  it('should allocate all requested rows in a single update', async () => {
+    await mockUpdateResults([
+      { id: 2, content: 'KEY-2', priority: 0, createdAt: '2026-10-02' },
+      { id: 3, content: 'KEY-3', priority: 5, createdAt: '2026-10-03' },
+      { id: 1, content: 'KEY-1', priority: 0, createdAt: '2026-10-01' }
+    ])
+
+    const items = await inventoryService.allocateInventory(1, 'ORDER_TEST_123', 3)
+
+    const { db } = await import('../src/db')
+    expect(db.update).toHaveBeenCalledTimes(1)
+    expect(updates[0]).toEqual(expect.objectContaining({ isUsed: true, usedOrderId: 'ORDER_TEST_123' }))
+    expect(items.map(item => item.content)).toEqual(['KEY-3', 'KEY-1', 'KEY-2'])
+  })
+
+  it('should release partially allocated rows when inventory is insufficient', async () => {
+    await mockUpdateResults(
+      [{ id: 1, content: 'KEY-1', priority: 0, createdAt: '2026-10-01' }],
+      []
+    )
+
+    await expect(inventoryService.allocateInventory(1, 'ORDER_TEST_123', 2))
+      .rejects.toThrow('Insufficient inventory. Required: 2, Available: 1')
+
+    expect(updates[1]).toEqual({ isUsed: false, usedOrderId: null, usedAt: null })
+  })
+})
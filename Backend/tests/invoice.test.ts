@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { invoiceService, formatInvoiceNumber } from '../src/services/invoice-service'
+import { BusinessLogicError } from '../src/services/error-handler'
+import { PdfDocument } from '../src/utils/pdf'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => {
+  const db = {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn()
+  }
+  return {
+    db,
+    withTransaction: vi.fn((fn: (tx: any) => Promise<any>) => fn(db)),
+    schema: {
+      invoices: { id: 'id', orderId: 'orderId', refundId: 'refundId', type: 'type', invoiceNumber: 'invoiceNumber' },
+      invoiceSequences: { series: 'series', lastNumber: 'lastNumber' }
+    }
+  }
+})
+
+vi.mock('../src/services/order-service', () => ({
+  orderService: {
+    getOrderById: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (_group: string, _key: string, defaultValue: any) => defaultValue)
+  }
+}))
+
+const order = {
+  id: 'ORDER_TEST_123',
+  email: 'buyer@example.com',
+  buyerCompany: 'Example GmbH',
+  buyerTaxId: 'DE123456789',
+  amount: 119,
+  netAmount: 100,
+  taxAmount: 19,
+  currency: 'EUR',
+  status: 'paid'
+}
+
+const invoice = {
+  id: 1,
+  invoiceNumber: 'INV-000001',
+  type: 'invoice',
+  orderId: order.id,
+  buyerEmail: order.email,
+  buyerCompany: order.buyerCompany,
+  buyerTaxId: order.buyerTaxId,
+  currency: 'EUR',
+  netAmount: 100,
+  taxAmount: 19,
+  totalAmount: 119
+}
+
+// insert 依次返回编号分配结果和写入的发票
+const mockInserts = async (lastNumber: number) => {
+  const { db } = await import('../src/db')
+  const written: any[] = []
+
+  vi.mocked(db.insert).mockReturnValueOnce({
+    values: vi.fn(() => ({
+      onConflictDoUpdate: vi.fn(() => ({
+        returning: vi.fn().mockResolvedValue([{ series: 'credit_note', lastNumber }])
+      }))
+    }))
+  } as any)
+  vi.mocked(db.insert).mockReturnValueOnce({
+    values: vi.fn((values: any) => ({
+      returning: vi.fn(async () => {
+        written.push(values)
+        return [{ id: 2, ...values }]
+      })
+    }))
+  } as any)
+
+  return written
+}
+
+describe('Invoices', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should format sequential invoice numbers', () => {
+    expect(formatInvoiceNumber('INV', 1)).toBe('INV-000001')
+    expect(formatInvoiceNumber('CN', 1234567)).toBe('CN-1234567')
+  })
+
+  it('should render a valid PDF document', () => {
+    const pdf = new PdfDocument()
+    pdf.text(40, 40, '发票 Invoice', { size: 18 })
+    pdf.line(40, 50, 555, 50)
+
+    const content = pdf.toBuffer().toString('latin1')
+    const xrefOffset = parseInt(content.match(/startxref\n(\d+)/)![1], 10)
+
+    expect(content.startsWith('%PDF-1.4')).toBe(true)
+    expect(content.slice(xrefOffset, xrefOffset + 4)).toBe('xref')
+    expect(content).toContain('/BaseFont /STSong-Light')
+    expect(content.trimEnd().endsWith('%%EOF')).toBe(true)
+  })
+
+  it('should not issue invoices for unpaid orders', async () => {
+    const { orderService } = await import('../src/services/order-service')
+    const { db } = await import('../src/db')
+    vi.mocked(orderService.getOrderById).mockResolvedValue({ ...order, status: 'pending' } as any)
+    await mockSelectResults([])
+
+    await expect(invoiceService.getOrCreateInvoice(order.id)).rejects.toBeInstanceOf(BusinessLogicError)
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+
+  it('should reuse the existing invoice of an order', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([invoice])
+
+    const result = await invoiceService.getOrCreateInvoice(order.id)
+
+    expect(result.invoiceNumber).toBe('INV-000001')
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+
+  it('should issue a negative credit note for a partial refund', async () => {
+    await mockSelectResults([], [invoice])
+    const written = await mockInserts(3)
+
+    const creditNote = await invoiceService.issueCreditNote({
+      id: 7,
+      refundNo: 'RF1',
+      orderId: order.id,
+      amount: 59.5,
+      currency: 'EUR'
+    } as any)
+
+    expect(creditNote.invoiceNumber).toBe('CN-000003')
+    expect(written[0]).toMatchObject({
+      type: 'credit_note',
+      refundId: 7,
+      originalInvoiceId: 1,
+      netAmount: -50,
+      taxAmount: -9.5,
+      totalAmount: -59.5
+    })
+  })
+
+  it('should not issue a second credit note for the same refund', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([{ ...invoice, id: 2, type: 'credit_note', refundId: 7 }])
+
+    const creditNote = await invoiceService.issueCreditNote({ id: 7, orderId: order.id, amount: 59.5 } as any)
+
+    expect(creditNote.id).toBe(2)
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { jobQueueService, computeBackoffDelay } from '../src/services/job-queue-service'
+import { JobStatus } from '../src/db/schema'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+    insert: vi.fn(),
+    delete: vi.fn()
+  },
+  schema: {
+    jobs: {
+      id: 'id',
+      jobType: 'jobType',
+      orderId: 'orderId',
+      idempotencyKey: 'idempotencyKey',
+      status: 'status',
+      attempts: 'attempts',
+      runAt: 'runAt',
+      lockedAt: 'lockedAt',
+      createdAt: 'createdAt'
+    }
+  }
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+const mockSelectResult = async (rows: any[]) => {
+  const { db } = await import('../src/db')
+  vi.mocked(db.select).mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(rows)
+      })
+    })
+  } as any)
+}
+
+describe('JobQueueService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('computeBackoffDelay', () => {
+    it('should double the delay after each failed attempt', () => {
+      expect(computeBackoffDelay(1)).toBe(30 * 1000)
+      expect(computeBackoffDelay(2)).toBe(60 * 1000)
+      expect(computeBackoffDelay(3)).toBe(120 * 1000)
+    })
+
+    it('should cap the delay', () => {
+      expect(computeBackoffDelay(30)).toBe(6 * 60 * 60 * 1000)
+    })
+  })
+
+  describe('enqueue', () => {
+    it('should return the existing job when the idempotency key already exists', async () => {
+      const existingJob = {
+        id: 7,
+        jobType: 'email.delivery',
+        orderId: 'ORDER_TEST_123',
+        idempotencyKey: 'ORDER_TEST_123:email.delivery',
+        status: JobStatus.SUCCEEDED
+      }
+
+      const { db } = await import('../src/db')
+      const values = vi.fn().mockReturnValue({
+        onConflictDoNothing: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([])
+        })
+      })
+      vi.mocked(db.insert).mockReturnValue({ values } as any)
+      await mockSelectResult([existingJob])
+
+      const result = await jobQueueService.enqueue(
+        'email.delivery',
+        { orderId: 'ORDER_TEST_123' },
+        { orderId: 'ORDER_TEST_123' }
+      )
+
+      expect(result.created).toBe(false)
+      expect(result.job).toEqual(existingJob)
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        idempotencyKey: 'ORDER_TEST_123:email.delivery',
+        status: JobStatus.PENDING,
+        attempts: 0
+      }))
+    })
+  })
+
+  describe('retryJob', () => {
+    it('should return null when job does not exist', async () => {
+      await mockSelectResult([])
+
+      const result = await jobQueueService.retryJob(404)
+
+      expect(result).toBeNull()
+    })
+
+    it('should reject retrying a succeeded job', async () => {
+      await mockSelectResult([{ id: 1, status: JobStatus.SUCCEEDED }])
+
+      await expect(jobQueueService.retryJob(1)).rejects.toThrow('Job cannot be retried')
+    })
+
+    it('should reset a dead job to pending', async () => {
+      await mockSelectResult([{ id: 1, status: JobStatus.DEAD, attempts: 5 }])
+
+      const { db } = await import('../src/db')
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ id: 1, status: JobStatus.PENDING, attempts: 0 }])
+        })
+      })
+      vi.mocked(db.update).mockReturnValue({ set } as any)
+
+      const result = await jobQueueService.retryJob(1)
+
+      expect(result?.status).toBe(JobStatus.PENDING)
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({
+        status: JobStatus.PENDING,
+        attempts: 0
+      }))
+    })
+  })
+
+  describe('runDueJobs', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should fail and requeue a job whose handler never finishes', async () => {
+      vi.useFakeTimers()
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      jobQueueService.registerHandler('test.hang', () => new Promise(() => {}))
+
+      const { db } = await import('../src/db')
+      const job = { id: 1, jobType: 'test.hang', payload: null, attempts: 1, maxAttempts: 5, runAt: new Date().toISOString() }
+      const failSet = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) })
+      vi.mocked(db.update)
+        .mockReturnValueOnce({ set: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }) } as any)
+        .mockReturnValueOnce({
+          set: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([job]) }) })
+        } as any)
+        .mockReturnValueOnce({ set: failSet } as any)
+      await mockSelectResults([{ id: 1 }], [])
+
+      const run = jobQueueService.runDueJobs()
+      await vi.advanceTimersByTimeAsync(5 * 60 * 1000)
+
+      await expect(run).resolves.toBe(1)
+      expect(failSet).toHaveBeenCalledWith(expect.objectContaining({
+        status: JobStatus.PENDING,
+        lastError: expect.stringContaining('timed out')
+      }))
+    })
+  })
+
+  describe('cancelJob', () => {
+    it('should reject cancelling a running job', async () => {
+      await mockSelectResult([{ id: 1, status: JobStatus.RUNNING }])
+
+      await expect(jobQueueService.cancelJob(1)).rejects.toThrow('Job cannot be cancelled')
+    })
+  })
+})
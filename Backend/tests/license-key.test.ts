@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createPublicKey, generateKeyPairSync } from 'crypto'
+import { generatePatternKey, signLicense, validateKeyPattern, verifyLicense } from '../src/utils/license-key'
+import { licenseKeyService } from '../src/services/license-key-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn()
+  },
+  schema: {
+    products: { id: 'id' },
+    orders: { id: 'id', email: 'email' },
+    inventoryText: { productId: 'productId', content: 'content' }
+  }
+}))
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (_group: string, _key: string, defaultValue: any) => defaultValue),
+    setConfig: vi.fn(async () => true)
+  }
+}))
+
+vi.mock('../src/services/inventory-service', () => ({
+  inventoryService: {
+    allocateInventory: vi.fn()
+  }
+}))
+
+// insert 原样返回写入的记录
+const mockInsert = async () => {
+  const { db } = await import('../src/db')
+  const values = vi.fn((rows: any[]) => ({ returning: vi.fn(async () => rows) }))
+  vi.mocked(db.insert).mockReturnValue({ values } as any)
+  return values
+}
+
+const claims = {
+  licenseId: 'b8a1c2d3-0000-4000-8000-000000000001',
+  productId: 1,
+  productName: 'App',
+  variantId: null,
+  email: 'buyer@example.com',
+  orderId: 'ORDER_TEST_123',
+  issuedAt: '2026-10-19T00:00:00.000Z',
+  expiresAt: '2027-10-19T00:00:00.000Z'
+}
+
+const product: any = {
+  id: 1,
+  name: 'App',
+  keySource: 'pool',
+  keyGenerator: null,
+  keyPattern: null,
+  licenseValidDays: null
+}
+
+describe('license key utils', () => {
+  it('should validate key patterns', () => {
+    expect(validateKeyPattern('XXXX-XXXX-XXXX')).toBeNull()
+    expect(validateKeyPattern('KEY-XXXX')).toContain('至少需要 8 个占位符')
+    expect(validateKeyPattern('X'.repeat(101))).toContain('不能超过 100 个字符')
+  })
+
+  it('should generate keys matching the pattern', () => {
+    const key = generatePatternKey('KEY-XXXX-####-AAAA')
+
+    expect(key).toMatch(/^KEY-[2-9A-HJ-NP-Z]{4}-[2-9]{4}-[A-HJ-NP-Z]{4}$/)
+  })
+
+  it('should sign licenses that verify offline with the public key', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519')
+    const license = signLicense(claims, privateKey)
+
+    expect(license.startsWith('-----BEGIN AUTOSHIP LICENSE-----\n')).toBe(true)
+    expect(license.split('\n').every(line => line.length <= 64)).toBe(true)
+    expect(verifyLicense(license, publicKey, new Date('2027-01-01T00:00:00.000Z'))).toEqual({
+      valid: true,
+      expired: false,
+      claims
+    })
+  })
+
+  it('should report expired licenses', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519')
+
+    const result = verifyLicense(signLicense(claims, privateKey), publicKey, new Date('2028-01-01T00:00:00.000Z'))
+
+    expect(result.valid).toBe(true)
+    expect(result.expired).toBe(true)
+  })
+
+  it('should reject tampered licenses and licenses signed by another key', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519')
+    const other = generateKeyPairSync('ed25519')
+    const license = signLicense(claims, privateKey)
+    const [payload, signature] = license.split('\n').slice(1, -1).join('').split('.')
+    const forged = Buffer.from(JSON.stringify({ ...claims, email: 'other@example.com' })).toString('base64url')
+
+    expect(verifyLicense(`${forged}.${signature}`, publicKey).valid).toBe(false)
+    expect(verifyLicense(`${payload}.${signature}`, other.publicKey).valid).toBe(false)
+    expect(verifyLicense('not a license', publicKey)).toEqual({ valid: false, expired: false, claims: null })
+  })
+})
+
+describe('LicenseKeyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should allocate from inventory for pool products', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    const allocated = [{ id: 3, content: 'KEY-1' }]
+    vi.mocked(inventoryService.allocateInventory).mockResolvedValue(allocated as any)
+
+    const { db } = await import('../src/db')
+    const result = await licenseKeyService.issueKeys(product, { orderId: 'ORDER_TEST_123', quantity: 1 })
+
+    expect(result).toBe(allocated)
+    expect(inventoryService.allocateInventory).toHaveBeenCalledWith(1, 'ORDER_TEST_123', 1, undefined, db)
+  })
+
+  it('should not generate keys when pool inventory is insufficient', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    const { db } = await import('../src/db')
+    vi.mocked(inventoryService.allocateInventory).mockRejectedValue(new Error('库存不足'))
+
+    await expect(licenseKeyService.issueKeys(product, { orderId: 'ORDER_TEST_123', quantity: 1 }))
+      .rejects.toThrow('库存不足')
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+
+  it('should generate pattern keys when inventory runs out', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    vi.mocked(inventoryService.allocateInventory).mockRejectedValue(new Error('库存不足'))
+    await mockSelectResults([])
+    const values = await mockInsert()
+
+    const result = await licenseKeyService.issueKeys(
+      { ...product, keySource: 'pool_then_generator', keyGenerator: 'pattern', keyPattern: 'XXXX-XXXX' },
+      { orderId: 'ORDER_TEST_123', quantity: 2, variantId: 5 }
+    )
+
+    const { db } = await import('../src/db')
+    expect(inventoryService.allocateInventory).toHaveBeenCalledWith(1, 'ORDER_TEST_123', 2, 5, db)
+    expect(result).toHaveLength(2)
+    expect(result[0]).toMatchObject({
+      productId: 1,
+      variantId: 5,
+      isUsed: true,
+      usedOrderId: 'ORDER_TEST_123',
+      batchName: 'generated_pattern',
+      generator: 'pattern',
+      createdBy: 'system'
+    })
+    expect(result[0].content).toMatch(/^[2-9A-HJ-NP-Z]{4}-[2-9A-HJ-NP-Z]{4}$/)
+    expect(result[0].content).not.toBe(result[1].content)
+    expect(values).toHaveBeenCalledOnce()
+  })
+
+  it('should issue signed licenses for the order email', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    const { configService } = await import('../src/services/config-service')
+    await mockSelectResults([{ email: 'buyer@example.com' }])
+    await mockInsert()
+
+    const [item] = await licenseKeyService.issueKeys(
+      { ...product, keySource: 'generator', keyGenerator: 'signed_license', licenseValidDays: 30 },
+      { orderId: 'ORDER_TEST_123', quantity: 1 }
+    )
+
+    expect(inventoryService.allocateInventory).not.toHaveBeenCalled()
+    expect(configService.setConfig).toHaveBeenCalledWith(
+      'license',
+      'signing_private_key',
+      expect.stringContaining('PRIVATE KEY'),
+      expect.objectContaining({ isEncrypted: true })
+    )
+
+    const publicKey = createPublicKey(await licenseKeyService.getPublicKey())
+    const verification = verifyLicense(item.content, publicKey)
+    expect(verification.valid).toBe(true)
+    expect(verification.claims).toMatchObject({ productId: 1, email: 'buyer@example.com', orderId: 'ORDER_TEST_123' })
+    expect(JSON.parse(item.metadata!)).toEqual({
+      licenseId: verification.claims!.licenseId,
+      expiresAt: verification.claims!.expiresAt
+    })
+  })
+
+  it('should require a valid pattern when saving the key source', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([product], [product])
+
+    await expect(licenseKeyService.setKeySource(1, {
+      keySource: 'generator',
+      keyGenerator: null,
+      keyPattern: null,
+      licenseValidDays: null
+    })).rejects.toThrow('需要选择生成算法')
+    await expect(licenseKeyService.setKeySource(1, {
+      keySource: 'generator',
+      keyGenerator: 'pattern',
+      keyPattern: 'KEY-XX',
+      licenseValidDays: null
+    })).rejects.toThrow('至少需要 8 个占位符')
+    expect(db.update).not.toHaveBeenCalled()
+  })
+})
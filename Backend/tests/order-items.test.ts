@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { transactionService } from '../src/services/transaction-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => {
+  const db = {
+    select: vi.fn(),
+    update: vi.fn(),
+    insert: vi.fn()
+  }
+  return {
+    db,
+    schema: {
+      orders: {},
+      products: { id: 'id', keyGenerator: 'keyGenerator' },
+      deliveries: { id: 'id', orderId: 'orderId', isActive: 'isActive' },
+      orderItems: { id: 'id', orderId: 'orderId', productId: 'productId' }
+    },
+    withTransaction: vi.fn((callback: any) => callback(db))
+  }
+})
+
+vi.mock('../src/services/order-service', () => ({
+  orderService: {
+    getOrderById: vi.fn(),
+    updateOrderStatus: vi.fn(async (orderId: string, status: string) => ({ id: orderId, status }))
+  }
+}))
+
+vi.mock('../src/services/inventory-service', () => ({
+  inventoryService: {
+    allocateInventory: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/email-service', () => ({
+  emailService: {}
+}))
+
+vi.mock('../src/services/job-queue-service', () => ({
+  jobQueueService: {
+    enqueue: vi.fn().mockResolvedValue({ job: { id: 1 } }),
+    wake: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/notification-service', () => ({
+  notificationService: {
+    enqueueOrderEvent: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/download-service', () => ({
+  downloadService: {
+    revokeOrderDownloads: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/product-file-service', () => ({
+  productFileService: {
+    getCurrentFile: vi.fn().mockResolvedValue(null)
+  }
+}))
+
+const order = {
+  id: 'ORDER_TEST_123',
+  productId: 1,
+  amount: 21,
+  currency: 'CNY',
+  status: 'paid'
+}
+
+describe('Order items delivery', () => {
+  let insertedDeliveries: any[] = []
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    insertedDeliveries = []
+
+    const { db } = await import('../src/db')
+    const { orderService } = await import('../src/services/order-service')
+    vi.mocked(orderService.getOrderById).mockResolvedValue(order as any)
+
+    vi.mocked(db.insert).mockReturnValue({
+      values: vi.fn((values: any) => ({
+        returning: vi.fn(async () => {
+          const row = { id: insertedDeliveries.length + 1, ...values }
+          insertedDeliveries.push(row)
+          return [row]
+        })
+      }))
+    } as any)
+    vi.mocked(db.update).mockReturnValue({
+      set: vi.fn(() => ({ where: vi.fn().mockResolvedValue(undefined) }))
+    } as any)
+  })
+
+  it('should create one delivery per order item with all allocated codes', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    vi.mocked(inventoryService.allocateInventory)
+      .mockResolvedValueOnce([{ content: 'A-1' }] as any)
+      .mockResolvedValueOnce([{ content: 'B-1' }, { content: 'B-2' }] as any)
+
+    await mockSelectResults(
+      [],
+      [],
+      [
+        { id: 1, orderId: order.id, productId: 1, quantity: 1, deliveryId: null },
+        { id: 2, orderId: order.id, productId: 2, quantity: 2, deliveryId: null }
+      ],
+      [{ id: 1, deliveryType: 'text', templateText: null }],
+      [{ id: 2, deliveryType: 'text', templateText: null }]
+    )
+
+    const { db } = await import('../src/db')
+    const result = await transactionService.deliverOrder(order.id)
+
+    expect(inventoryService.allocateInventory).toHaveBeenNthCalledWith(1, 1, order.id, 1, null, db)
+    expect(inventoryService.allocateInventory).toHaveBeenNthCalledWith(2, 2, order.id, 2, null, db)
+    expect(insertedDeliveries.map(delivery => delivery.content)).toEqual(['A-1', 'B-1\nB-2'])
+    expect(result.delivery?.id).toBe(1)
+  })
+
+  it('should only deliver items that were not delivered by an interrupted run', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    vi.mocked(inventoryService.allocateInventory).mockResolvedValueOnce([{ content: 'B-1' }] as any)
+
+    await mockSelectResults(
+      [],
+      [{ id: 7, orderId: order.id, content: 'A-1', isActive: true }],
+      [
+        { id: 1, orderId: order.id, productId: 1, quantity: 1, deliveryId: 7 },
+        { id: 2, orderId: order.id, productId: 2, quantity: 1, deliveryId: null }
+      ],
+      [{ id: 2, deliveryType: 'text', templateText: null }]
+    )
+
+    const { db } = await import('../src/db')
+    const result = await transactionService.deliverOrder(order.id)
+
+    expect(inventoryService.allocateInventory).toHaveBeenCalledTimes(1)
+    expect(inventoryService.allocateInventory).toHaveBeenCalledWith(2, order.id, 1, null, db)
+    expect(result.delivery?.id).toBe(7)
+  })
+
+  it('should link both deliveries of a hybrid product to its order item', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    const { db } = await import('../src/db')
+    vi.mocked(inventoryService.allocateInventory).mockResolvedValueOnce([{ content: 'H-1' }] as any)
+    const set = vi.fn(() => ({ where: vi.fn().mockResolvedValue(undefined) }))
+    vi.mocked(db.update).mockReturnValue({ set } as any)
+
+    await mockSelectResults(
+      [],
+      [],
+      [{ id: 5, orderId: order.id, productId: 1, quantity: 1, deliveryId: null }],
+      [{ id: 1, deliveryType: 'hybrid', keySource: 'pool', templateText: null }]
+    )
+
+    const result = await transactionService.deliverOrder(order.id)
+
+    expect(insertedDeliveries).toHaveLength(2)
+    expect(insertedDeliveries.map(delivery => delivery.orderItemId)).toEqual([5, 5])
+    expect(insertedDeliveries[0].downloadToken).toBeTruthy()
+    expect(insertedDeliveries[1].content).toBe('H-1')
+    expect(set).toHaveBeenCalledWith({ deliveryId: 1 })
+    expect(result.delivery?.id).toBe(1)
+  })
+
+  it('should fail the delivery instead of sending the template when keys run out', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    const { orderService } = await import('../src/services/order-service')
+    vi.mocked(inventoryService.allocateInventory).mockRejectedValueOnce(new Error('库存不足'))
+
+    await mockSelectResults(
+      [],
+      [],
+      [{ id: 1, orderId: order.id, productId: 1, quantity: 1, deliveryId: null }],
+      [{ id: 1, deliveryType: 'text', keySource: 'pool', templateText: 'Shared template' }]
+    )
+
+    await expect(transactionService.deliverOrder(order.id)).rejects.toThrow('库存不足')
+    expect(insertedDeliveries).toEqual([])
+    expect(orderService.updateOrderStatus).not.toHaveBeenCalled()
+  })
+})
@@ -3,32 +3,36 @@ import { orderStateService } from '../src/services/order-state-service'
 import { OrderStatus, Gateway } from '../src/types/orders'
 
 // Mock 依赖
-vi.mock('../src/db', () => ({
-  db: {
+vi.mock('../src/db', () => {
+  const db = {
     select: vi.fn(),
     update: vi.fn(),
     insert: vi.fn(),
     delete: vi.fn()
-  },
-  schema: {
-    orders: {
-      id: 'id',
-      status: 'status',
-      gateway: 'gateway',
-      gatewayOrderId: 'gatewayOrderId',
-      paidAt: 'paidAt',
-      createdAt: 'createdAt',
-      updatedAt: 'updatedAt'
-    },
-    auditLogs: {
-      resourceType: 'resourceType',
-      resourceId: 'resourceId',
-      action: 'action',
-      createdAt: 'createdAt',
-      metadata: 'metadata'
+  }
+  return {
+    db,
+    withTransaction: vi.fn((callback: any) => callback(db)),
+    schema: {
+      orders: {
+        id: 'id',
+        status: 'status',
+        gateway: 'gateway',
+        gatewayOrderId: 'gatewayOrderId',
+        paidAt: 'paidAt',
+        createdAt: 'createdAt',
+        updatedAt: 'updatedAt'
+      },
+      auditLogs: {
+        resourceType: 'resourceType',
+        resourceId: 'resourceId',
+        action: 'action',
+        createdAt: 'createdAt',
+        metadata: 'metadata'
+      }
     }
   }
-}))
+})
 
 vi.mock('../src/services/audit-service', () => ({
   auditService: {
@@ -36,6 +40,19 @@ vi.mock('../src/services/audit-service', () => ({
   }
 }))
 
+vi.mock('../src/services/job-queue-service', () => ({
+  jobQueueService: {
+    enqueue: vi.fn().mockResolvedValue({ job: { id: 1 }, created: true }),
+    wake: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/notification-service', () => ({
+  notificationService: {
+    enqueueOrderEvent: vi.fn().mockResolvedValue(null)
+  }
+}))
+
 describe('OrderStateService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -82,6 +99,55 @@ describe('OrderStateService', () => {
       expect(result.previousStatus).toBe(OrderStatus.PENDING)
       expect(result.newStatus).toBe(OrderStatus.PAID)
       expect(result.updated).toBe(true)
+
+      const { jobQueueService } = await import('../src/services/job-queue-service')
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith(
+        'order.deliver',
+        { orderId: 'ORDER_TEST_123' },
+        { orderId: 'ORDER_TEST_123' },
+        db
+      )
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith(
+        'invoice.issue',
+        { orderId: 'ORDER_TEST_123' },
+        { orderId: 'ORDER_TEST_123' },
+        db
+      )
+    })
+
+    it('should enqueue follow-up jobs in the status update transaction', async () => {
+      const { db, withTransaction } = await import('../src/db')
+      const { jobQueueService } = await import('../src/services/job-queue-service')
+      const { auditService } = await import('../src/services/audit-service')
+      vi.mocked(db.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue([{ id: 'ORDER_TEST_123', status: OrderStatus.PENDING }])
+          })
+        })
+      }))
+      const tx = {
+        update: vi.fn().mockReturnValue({
+          set: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue({ changes: 1 }) })
+        })
+      }
+      // 任务写入失败时事务回滚，状态更新随之撤销
+      vi.mocked(withTransaction).mockImplementationOnce(async (callback: any) => callback(tx))
+      vi.mocked(jobQueueService.enqueue).mockRejectedValueOnce(new Error('SQLITE_BUSY'))
+
+      await expect(orderStateService.updateOrderStatusFromWebhook(
+        'ORDER_TEST_123',
+        Gateway.ALIPAY,
+        'ALIPAY_TEST_123',
+        'paid',
+        {}
+      )).rejects.toThrow('SQLITE_BUSY')
+
+      expect(tx.update).toHaveBeenCalled()
+      expect(db.update).not.toHaveBeenCalled()
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith('order.deliver', { orderId: 'ORDER_TEST_123' }, { orderId: 'ORDER_TEST_123' }, tx)
+      expect(jobQueueService.wake).not.toHaveBeenCalled()
+      expect(auditService.logAuditEvent).not.toHaveBeenCalled()
     })
 
     it('should update order status from cancelled webhook', async () => {
@@ -151,6 +217,14 @@ describe('OrderStateService', () => {
 
       expect(result.orderId).toBe('ORDER_TEST_123')
       expect(result.newStatus).toBe(OrderStatus.FAILED)
+
+      const { jobQueueService } = await import('../src/services/job-queue-service')
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith(
+        'email.failure',
+        { orderId: 'ORDER_TEST_123', triggeredBy: 'webhook' },
+        { orderId: 'ORDER_TEST_123' },
+        db
+      )
     })
 
     it('should throw error for unknown payment status', async () => {
@@ -234,6 +308,43 @@ describe('OrderStateService', () => {
       expect(result.triggeredActions).toContain('delivery_process')
     })
 
+    it('should send refund notification when order is refunded', async () => {
+      const mockOrder = {
+        id: 'ORDER_TEST_123',
+        status: OrderStatus.DELIVERED
+      }
+
+      const { db } = await import('../src/db')
+      vi.mocked(db.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue([mockOrder])
+          })
+        })
+      }))
+
+      vi.mocked(db.update.mockReturnValue({
+        set: vi.fn().mockReturnValue({
+          where: vi.fn().mockResolvedValue({ changes: 1 })
+        })
+      }))
+
+      const result = await orderStateService.updateOrderStatusManually(
+        'ORDER_TEST_123',
+        OrderStatus.REFUNDED,
+        { notes: '客户申请退款' }
+      )
+
+      const { jobQueueService } = await import('../src/services/job-queue-service')
+      expect(result.triggeredActions).toContain('refund_notifications')
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith(
+        'email.refund',
+        { orderId: 'ORDER_TEST_123', triggeredBy: 'manual', reason: '客户申请退款' },
+        { orderId: 'ORDER_TEST_123' },
+        db
+      )
+    })
+
     it('should reject invalid status transition', async () => {
       const mockOrder = {
         id: 'ORDER_TEST_123',
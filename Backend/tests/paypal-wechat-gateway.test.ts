@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import crypto from 'crypto'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import {
+  PaypalGateway,
+  WechatPayGateway,
+  mapPaypalEventStatus,
+  extractPaypalEventData,
+  verifyWechatPaySignature,
+  decryptWechatPayResource,
+  mapWechatTradeState
+} from '../src/services/payment-gateway-service'
+
+const API_V3_KEY = '0123456789abcdef0123456789abcdef'
+
+// 微信支付平台密钥对（测试中由本地生成）
+const platformKeys = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+})
+
+// 本地 PayPal / 微信支付模拟服务器记录的请求
+const apiRequests: { path: string; headers: http.IncomingHttpHeaders; body: string }[] = []
+let apiBase = ''
+
+// Mock 依赖
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (group: string, key: string, defaultValue?: any) => {
+      const values: Record<string, any> = {
+        paypal_enabled: true,
+        paypal_client_id: 'client_id',
+        paypal_client_secret: 'client_secret',
+        paypal_webhook_id: 'WH-123',
+        paypal_api_base: apiBase,
+        wechat_enabled: true,
+        wechat_app_id: 'wx_app_id',
+        wechat_mch_id: '1900000001',
+        wechat_serial_no: 'SERIAL123',
+        wechat_private_key: platformKeys.privateKey,
+        wechat_api_v3_key: API_V3_KEY,
+        wechat_platform_public_key: platformKeys.publicKey,
+        wechat_api_base: apiBase
+      }
+      return group === 'payment' && key in values ? values[key] : defaultValue
+    })
+  }
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+const signWechatNotification = (body: string, timestamp = Math.floor(Date.now() / 1000), nonce = 'nonce123') => ({
+  'wechatpay-timestamp': timestamp.toString(),
+  'wechatpay-nonce': nonce,
+  'wechatpay-signature': crypto
+    .createSign('RSA-SHA256')
+    .update(`${timestamp}\n${nonce}\n${body}\n`)
+    .sign(platformKeys.privateKey, 'base64')
+})
+
+const encryptWechatResource = (transaction: Record<string, any>) => {
+  const nonce = 'abcdefghijkl'
+  const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(API_V3_KEY), Buffer.from(nonce))
+  cipher.setAAD(Buffer.from('transaction'))
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(transaction), 'utf8'), cipher.final(), cipher.getAuthTag()])
+
+  return {
+    algorithm: 'AEAD_AES_256_GCM',
+    ciphertext: encrypted.toString('base64'),
+    associated_data: 'transaction',
+    original_type: 'transaction',
+    nonce
+  }
+}
+
+describe('PayPal and WeChat Pay gateways', () => {
+  let server: http.Server
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        apiRequests.push({ path: req.url || '', headers: req.headers, body })
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+
+        if (req.url === '/v1/oauth2/token') {
+          res.end(JSON.stringify({ access_token: 'paypal_token', expires_in: 3600 }))
+        } else if (req.url === '/v2/checkout/orders') {
+          res.end(JSON.stringify({
+            id: 'PAYPAL_ORDER_1',
+            status: 'PAYER_ACTION_REQUIRED',
+            links: [{ rel: 'payer-action', href: 'https://www.paypal.com/checkoutnow?token=PAYPAL_ORDER_1' }]
+          }))
+        } else if (req.url === '/v1/notifications/verify-webhook-signature') {
+          const request = JSON.parse(body)
+          res.end(JSON.stringify({
+            verification_status: request.transmission_sig === 'valid_sig' ? 'SUCCESS' : 'FAILURE'
+          }))
+        } else if (req.url === '/v3/pay/transactions/native') {
+          res.end(JSON.stringify({ code_url: 'weixin://wxpay/bizpayurl?pr=abc123' }))
+        } else {
+          res.writeHead(404)
+          res.end('{}')
+        }
+      })
+    })
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    apiRequests.length = 0
+  })
+
+  describe('PaypalGateway', () => {
+    it('should create an order and return the approval link', async () => {
+      const result = await new PaypalGateway().createPayment({
+        orderId: 'ORDER_TEST_123',
+        amount: 19.9,
+        currency: 'USD',
+        productName: 'Test Product',
+        customerEmail: 'buyer@example.com'
+      })
+
+      expect(result.gatewayOrderId).toBe('PAYPAL_ORDER_1')
+      expect(result.paymentUrl).toContain('token=PAYPAL_ORDER_1')
+
+      const orderRequest = apiRequests.find(r => r.path === '/v2/checkout/orders')!
+      expect(orderRequest.headers.authorization).toBe('Bearer paypal_token')
+      expect(JSON.parse(orderRequest.body).purchase_units[0]).toMatchObject({
+        custom_id: 'ORDER_TEST_123',
+        amount: { currency_code: 'USD', value: '19.90' }
+      })
+    })
+
+    it('should verify webhooks through the PayPal verification API', async () => {
+      const gateway = new PaypalGateway()
+      const rawBody = JSON.stringify({ id: 'WH-EVT-1', event_type: 'PAYMENT.CAPTURE.COMPLETED' })
+      const headers = {
+        'paypal-transmission-id': 'tx-1',
+        'paypal-transmission-time': new Date().toISOString(),
+        'paypal-cert-url': 'https://api.paypal.com/cert.pem',
+        'paypal-auth-algo': 'SHA256withRSA'
+      }
+
+      const valid = await gateway.verifyWebhook(rawBody, { ...headers, 'paypal-transmission-sig': 'valid_sig' })
+      const invalid = await gateway.verifyWebhook(rawBody, { ...headers, 'paypal-transmission-sig': 'forged' })
+
+      expect(valid.isValid).toBe(true)
+      expect(invalid.isValid).toBe(false)
+
+      const verifyRequest = apiRequests.find(r => r.path === '/v1/notifications/verify-webhook-signature')!
+      expect(JSON.parse(verifyRequest.body)).toMatchObject({
+        webhook_id: 'WH-123',
+        webhook_event: { id: 'WH-EVT-1' }
+      })
+    })
+
+    it('should map capture events to order statuses', () => {
+      const event = {
+        event_type: 'PAYMENT.CAPTURE.COMPLETED',
+        resource: {
+          id: 'CAPTURE_1',
+          custom_id: 'ORDER_TEST_123',
+          amount: { currency_code: 'USD', value: '19.90' },
+          supplementary_data: { related_ids: { order_id: 'PAYPAL_ORDER_1' } }
+        }
+      }
+
+      expect(mapPaypalEventStatus(event)).toBe('paid')
+      expect(mapPaypalEventStatus({ event_type: 'CHECKOUT.ORDER.APPROVED' })).toBeNull()
+      expect(extractPaypalEventData(event)).toEqual({
+        orderId: 'ORDER_TEST_123',
+        gatewayOrderId: 'PAYPAL_ORDER_1',
+        transactionId: 'CAPTURE_1',
+        amount: 19.9,
+        currency: 'USD'
+      })
+    })
+  })
+
+  describe('WechatPayGateway', () => {
+    it('should place a signed native order and return the QR code link', async () => {
+      const result = await new WechatPayGateway().createPayment({
+        orderId: 'ORDER_TEST_123',
+        amount: 99.5,
+        currency: 'CNY',
+        productName: '测试商品',
+        customerEmail: 'buyer@example.com'
+      })
+
+      expect(result.paymentUrl).toBe('weixin://wxpay/bizpayurl?pr=abc123')
+      expect(result.gatewayOrderId).toBe('ORDER_TEST_123')
+
+      const [request] = apiRequests
+      expect(request.headers.authorization).toMatch(/^WECHATPAY2-SHA256-RSA2048 mchid="1900000001"/)
+      expect(JSON.parse(request.body)).toMatchObject({
+        out_trade_no: 'ORDER_TEST_123',
+        amount: { total: 9950, currency: 'CNY' }
+      })
+    })
+
+    it('should reject non-CNY payments', async () => {
+      await expect(new WechatPayGateway().createPayment({
+        orderId: 'ORDER_TEST_456',
+        amount: 10,
+        currency: 'USD',
+        productName: 'Test Product',
+        customerEmail: 'buyer@example.com'
+      })).rejects.toThrow('WeChat Pay only supports CNY')
+    })
+
+    it('should verify notification signatures', () => {
+      const body = JSON.stringify({ id: 'EV-1', event_type: 'TRANSACTION.SUCCESS' })
+
+      expect(verifyWechatPaySignature(body, signWechatNotification(body), platformKeys.publicKey).isValid).toBe(true)
+      expect(verifyWechatPaySignature(body + ' ', signWechatNotification(body), platformKeys.publicKey).isValid).toBe(false)
+
+      const stale = signWechatNotification(body, Math.floor(Date.now() / 1000) - 600)
+      expect(verifyWechatPaySignature(body, stale, platformKeys.publicKey).error).toBe('WeChat Pay timestamp outside tolerance')
+    })
+
+    it('should decrypt the notification resource and parse the transaction', () => {
+      const transaction = {
+        out_trade_no: 'ORDER_TEST_123',
+        transaction_id: '4200000000000000001',
+        trade_state: 'SUCCESS',
+        amount: { total: 9950, currency: 'CNY' }
+      }
+
+      const decrypted = decryptWechatPayResource(encryptWechatResource(transaction), API_V3_KEY)
+      const callback = new WechatPayGateway().parseCallback(decrypted)
+
+      expect(callback).toMatchObject({
+        orderId: 'ORDER_TEST_123',
+        transactionId: '4200000000000000001',
+        status: 'paid',
+        amount: 99.5
+      })
+      expect(mapWechatTradeState('NOTPAY')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { priceScheduleService, selectEffectivePrices, getScheduleStatus } from '../src/services/price-schedule-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => {
+  const db = {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  }
+  return {
+    db,
+    withTransaction: vi.fn((fn: (tx: any) => Promise<any>) => fn(db)),
+    schema: {
+      products: { id: 'id' },
+      productVariants: { id: 'id', productId: 'productId' },
+      productPrices: {
+        id: 'id',
+        productId: 'productId',
+        variantId: 'variantId',
+        currency: 'currency',
+        isActive: 'isActive',
+        startsAt: 'startsAt',
+        endsAt: 'endsAt',
+        appliedAt: 'appliedAt'
+      }
+    }
+  }
+})
+
+const now = new Date('2026-11-01T12:00:00.000Z')
+
+const priceRow = (overrides: Record<string, any> = {}): any => ({
+  id: 1,
+  productId: 1,
+  variantId: null,
+  currency: 'CNY',
+  price: 99,
+  compareAtPrice: null,
+  isActive: true,
+  startsAt: null,
+  endsAt: null,
+  appliedAt: null,
+  ...overrides
+})
+
+// 记录 update 写入的字段
+const mockUpdates = async () => {
+  const { db } = await import('../src/db')
+  const updates: any[] = []
+  vi.mocked(db.update).mockImplementation(() => ({
+    set: vi.fn((values: any) => {
+      updates.push(values)
+      const query: any = Object.assign(Promise.resolve([]), {})
+      query.where = vi.fn(() => query)
+      query.returning = vi.fn().mockResolvedValue([])
+      return query
+    })
+  }) as any)
+  return updates
+}
+
+describe('Price schedules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should use the running sale price with the regular price as compare-at price', () => {
+    const prices = selectEffectivePrices([
+      priceRow(),
+      priceRow({ id: 2, price: 59, startsAt: '2026-10-30T00:00:00.000Z', endsAt: '2026-11-03T00:00:00.000Z', appliedAt: '2026-10-30T00:00:00.000Z' }),
+      priceRow({ id: 3, currency: 'USD', price: 12.99 })
+    ], now)
+
+    expect(prices).toEqual([
+      { currency: 'CNY', price: 59, isActive: true, compareAtPrice: 99, saleEndsAt: '2026-11-03T00:00:00.000Z' },
+      { currency: 'USD', price: 12.99, isActive: true }
+    ])
+  })
+
+  it('should ignore sales outside their time window', () => {
+    const prices = selectEffectivePrices([
+      priceRow(),
+      priceRow({ id: 2, price: 59, startsAt: '2026-10-01T00:00:00.000Z', endsAt: '2026-11-01T11:59:00.000Z' })
+    ], now)
+
+    expect(prices).toEqual([{ currency: 'CNY', price: 99, isActive: true }])
+  })
+
+  it('should only show compare-at prices above the selling price', () => {
+    const prices = selectEffectivePrices([
+      priceRow({ compareAtPrice: 129 }),
+      priceRow({ id: 2, currency: 'USD', price: 12.99, compareAtPrice: 9.99 })
+    ], now)
+
+    expect(prices.map(price => price.compareAtPrice)).toEqual([129, undefined])
+  })
+
+  it('should derive the status of scheduled prices', () => {
+    expect(getScheduleStatus(priceRow({ startsAt: '2026-12-01', isActive: false }))).toBe('scheduled')
+    expect(getScheduleStatus(priceRow({ startsAt: '2026-10-01', endsAt: '2026-12-01', appliedAt: '2026-10-01' }))).toBe('active')
+    expect(getScheduleStatus(priceRow({ startsAt: '2026-10-01', endsAt: '2026-10-02', appliedAt: '2026-10-01', isActive: false }))).toBe('ended')
+    expect(getScheduleStatus(priceRow({ startsAt: '2026-10-01', appliedAt: '2026-10-01', isActive: false }))).toBe('applied')
+  })
+
+  it('should reject invalid schedules', async () => {
+    const { db } = await import('../src/db')
+
+    await expect(priceScheduleService.schedulePrice(1, { currency: 'CNY', price: 59, compareAtPrice: 49, startsAt: '2026-11-02' }, now))
+      .rejects.toMatchObject({ code: 'PRICE_SCHEDULE_INVALID' })
+    await expect(priceScheduleService.schedulePrice(1, { currency: 'CNY', price: 59, startsAt: '2026-11-05', endsAt: '2026-11-02' }, now))
+      .rejects.toMatchObject({ code: 'PRICE_SCHEDULE_INVALID' })
+    await expect(priceScheduleService.schedulePrice(1, { currency: 'CNY', price: 59, startsAt: 'tomorrow' }, now))
+      .rejects.toMatchObject({ code: 'PRICE_SCHEDULE_INVALID' })
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+
+  it('should reject overlapping sales in the same currency', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([{ id: 1 }], [
+      priceRow({ id: 2, price: 59, isActive: false, startsAt: '2026-11-10T00:00:00.000Z', endsAt: '2026-11-20T00:00:00.000Z' })
+    ])
+
+    await expect(priceScheduleService.schedulePrice(1, {
+      currency: 'CNY',
+      price: 49,
+      startsAt: '2026-11-15T00:00:00.000Z',
+      endsAt: '2026-11-25T00:00:00.000Z'
+    }, now)).rejects.toMatchObject({ code: 'PRICE_SCHEDULE_OVERLAP' })
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+
+  it('should activate due sales and apply permanent price changes', async () => {
+    const { db } = await import('../src/db')
+    const updates = await mockUpdates()
+    await mockSelectResults(
+      [
+        priceRow({ id: 2, price: 59, isActive: false, startsAt: '2026-11-01T00:00:00.000Z', endsAt: '2026-11-03T00:00:00.000Z' }),
+        priceRow({ id: 3, price: 89, compareAtPrice: 129, isActive: false, startsAt: '2026-11-01T06:00:00.000Z' })
+      ],
+      [priceRow()]
+    )
+
+    const result = await priceScheduleService.applyScheduledPrices(now)
+
+    expect(result).toEqual({ activated: 1, applied: 1, expired: 0 })
+    expect(updates[0]).toMatchObject({ isActive: true, appliedAt: now.toISOString() })
+    // 永久改价写入常规价格并标记为已应用
+    expect(updates[1]).toMatchObject({ price: 89, compareAtPrice: 129 })
+    expect(updates[2]).toMatchObject({ appliedAt: now.toISOString() })
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+
+  it('should delete scheduled prices that have not started when cancelled', async () => {
+    const { db } = await import('../src/db')
+    const where = vi.fn().mockResolvedValue(undefined)
+    vi.mocked(db.delete).mockReturnValue({ where } as any)
+    await mockSelectResults([priceRow({ id: 2, isActive: false, startsAt: '2026-12-01T00:00:00.000Z' })])
+
+    await expect(priceScheduleService.cancelSchedule(1, 2, now)).resolves.toBeNull()
+    expect(where).toHaveBeenCalled()
+  })
+})
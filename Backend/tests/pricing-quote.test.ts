@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { pricingService } from '../src/services/pricing-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn()
+  },
+  schema: {
+    products: { id: 'id' },
+    productPrices: { productId: 'productId', variantId: 'variantId', currency: 'currency', isActive: 'isActive' }
+  }
+}))
+
+vi.mock('../src/services/coupon-service', () => ({
+  normalizeCouponCode: (code: string) => code.trim().toUpperCase(),
+  couponService: {
+    applyCoupons: vi.fn(async ({ lines }: any) => {
+      const subtotal = lines.reduce((sum: number, line: any) => sum + line.unitPrice * line.quantity, 0)
+      return { subtotal, discountAmount: 0, total: subtotal, applied: [] }
+    })
+  }
+}))
+
+vi.mock('../src/services/inventory-service', () => ({
+  inventoryService: {
+    getInventoryStats: vi.fn().mockResolvedValue({ total: 0, available: 0 })
+  }
+}))
+
+vi.mock('../src/services/product-variant-service', () => ({
+  productVariantService: {
+    listVariants: vi.fn().mockResolvedValue([])
+  }
+}))
+
+vi.mock('../src/services/tax-service', () => ({
+  normalizeCountry: (country?: string | null) => country ? country.toUpperCase() : null,
+  taxService: {
+    calculateTax: vi.fn(async (country: string | null, lines: any[]) => {
+      const taxRate = country === 'DE' ? 19 : 0
+      const results = lines.map(line => ({
+        productId: line.productId,
+        taxRate,
+        taxAmount: Math.round(line.netAmount * taxRate) / 100,
+      }))
+      return { taxAmount: results.reduce((sum, line) => sum + line.taxAmount, 0), lines: results }
+    })
+  }
+}))
+
+vi.mock('../src/services/exchange-rate-service', () => ({
+  exchangeRateService: {
+    getDerivedPrice: vi.fn().mockResolvedValue(null)
+  }
+}))
+
+vi.mock('../src/services/security-service', () => ({
+  securityService: {
+    generateSecureToken: () => 'test-quote-secret'
+  }
+}))
+
+const product = { id: 1, name: '测试商品', isActive: true, minQuantity: 1, maxQuantity: null, taxCategory: 'standard' }
+
+const request = { items: [{ productId: 1, quantity: 2 }], currency: 'CNY' }
+
+describe('Checkout quote', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should price the order from product_prices and accept the signed quote', async () => {
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 9.9 }])
+    const quote = await pricingService.createQuote(request)
+
+    expect(quote.total).toBeCloseTo(19.8)
+    expect(quote.lines[0].unitPrice).toBe(9.9)
+
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 9.9 }])
+    const pricing = await pricingService.verifyQuote(quote.quoteToken, request)
+
+    expect(pricing.total).toBe(quote.total)
+  })
+
+  it('should add tax for the buyer country on top of the net amount', async () => {
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 10 }])
+    const quote = await pricingService.createQuote({ ...request, country: 'de' })
+
+    expect(quote.netAmount).toBe(20)
+    expect(quote.taxAmount).toBeCloseTo(3.8)
+    expect(quote.taxCountry).toBe('DE')
+    expect(quote.total).toBeCloseTo(23.8)
+    expect(quote.lines[0].taxRate).toBe(19)
+  })
+
+  it('should reject orders from a different country than the quote', async () => {
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 9.9 }])
+    const quote = await pricingService.createQuote({ ...request, country: 'DE' })
+
+    await expect(pricingService.verifyQuote(quote.quoteToken, { ...request, country: 'US' }))
+      .rejects.toMatchObject({ code: 'QUOTE_MISMATCH' })
+  })
+
+  it('should reject products without an active price in the currency', async () => {
+    await mockSelectResults([product], [])
+
+    await expect(pricingService.createQuote(request)).rejects.toMatchObject({ code: 'PRICE_UNAVAILABLE' })
+  })
+
+  it('should price currencies without an explicit price from the exchange rate', async () => {
+    const { exchangeRateService } = await import('../src/services/exchange-rate-service')
+    vi.mocked(exchangeRateService.getDerivedPrice).mockResolvedValueOnce(13.99)
+    await mockSelectResults([product], [])
+
+    const quote = await pricingService.createQuote({ ...request, currency: 'USD' })
+
+    expect(exchangeRateService.getDerivedPrice).toHaveBeenCalledWith(1, 'USD')
+    expect(quote.lines[0].unitPrice).toBe(13.99)
+    expect(quote.total).toBeCloseTo(27.98)
+  })
+
+  it('should price the selected variant and require it for products with variants', async () => {
+    const { productVariantService } = await import('../src/services/product-variant-service')
+    const { inventoryService } = await import('../src/services/inventory-service')
+    const variants = [{ id: 3, productId: 1, name: '1年', isActive: true }] as any
+    vi.mocked(productVariantService.listVariants)
+      .mockResolvedValueOnce(variants)
+      .mockResolvedValueOnce(variants)
+      .mockResolvedValueOnce(variants)
+
+    await mockSelectResults([product])
+    await expect(pricingService.createQuote(request)).rejects.toMatchObject({ code: 'VARIANT_REQUIRED' })
+
+    await mockSelectResults([product])
+    await expect(pricingService.createQuote({ ...request, items: [{ productId: 1, variantId: 9, quantity: 1 }] }))
+      .rejects.toMatchObject({ code: 'VARIANT_NOT_FOUND' })
+
+    const variantRequest = { ...request, items: [{ productId: 1, variantId: 3, quantity: 2 }] }
+    const poolProduct = { ...product, deliveryType: 'text', keySource: 'pool' }
+    vi.mocked(inventoryService.getInventoryStats).mockResolvedValueOnce({ total: 5, available: 5 } as any)
+    await mockSelectResults([poolProduct], [{ productId: 1, variantId: 3, currency: 'CNY', price: 199 }])
+    const quote = await pricingService.createQuote(variantRequest)
+
+    expect(quote.lines[0]).toMatchObject({ variantId: 3, variantName: '1年', unitPrice: 199 })
+    expect(inventoryService.getInventoryStats).toHaveBeenLastCalledWith(1, 3)
+    await expect(pricingService.verifyQuote(quote.quoteToken, { ...variantRequest, items: [{ productId: 1, variantId: 4, quantity: 2 }] }))
+      .rejects.toMatchObject({ code: 'QUOTE_MISMATCH' })
+  })
+
+  it('should check stock only for products that issue keys from the inventory pool', async () => {
+    const { inventoryService } = await import('../src/services/inventory-service')
+    const price = { productId: 1, currency: 'CNY', price: 99 }
+    vi.mocked(inventoryService.getInventoryStats).mockResolvedValueOnce({ total: 3, available: 1 } as any)
+
+    await mockSelectResults([{ ...product, deliveryType: 'text', keySource: 'pool' }])
+    await expect(pricingService.createQuote(request)).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' })
+
+    // 未导入库存的 pool 商品同样不能下单，否则支付后无法发货
+    vi.mocked(inventoryService.getInventoryStats).mockResolvedValueOnce({ total: 0, available: 0 } as any)
+    await mockSelectResults([{ ...product, deliveryType: 'hybrid', keySource: 'pool' }])
+    await expect(pricingService.createQuote(request)).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' })
+
+    // 已生成过卡密（库存全部已使用）的 generator 商品和可回退生成的商品不受库存限制
+    await mockSelectResults([{ ...product, deliveryType: 'text', keySource: 'generator' }], [price])
+    await expect(pricingService.createQuote(request)).resolves.toMatchObject({ total: 198 })
+    await mockSelectResults([{ ...product, deliveryType: 'text', keySource: 'pool_then_generator' }], [price])
+    await expect(pricingService.createQuote(request)).resolves.toMatchObject({ total: 198 })
+    await mockSelectResults([{ ...product, deliveryType: 'download', keySource: 'pool' }], [price])
+    await expect(pricingService.createQuote(request)).resolves.toMatchObject({ total: 198 })
+
+    expect(inventoryService.getInventoryStats).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reject tampered quote tokens', async () => {
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 9.9 }])
+    const quote = await pricingService.createQuote(request)
+
+    const [header, , signature] = quote.quoteToken.split('.')
+    const forged = Buffer.from(JSON.stringify({ data: { currency: 'CNY', items: [{ productId: 1, quantity: 2, unitPrice: 0.01 }], couponCodes: [], total: 0.02 } })).toString('base64url')
+
+    await expect(pricingService.verifyQuote(`${header}.${forged}.${signature}`, request))
+      .rejects.toMatchObject({ code: 'QUOTE_INVALID' })
+  })
+
+  it('should reject orders that differ from the quote', async () => {
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 9.9 }])
+    const quote = await pricingService.createQuote(request)
+
+    await expect(pricingService.verifyQuote(quote.quoteToken, { ...request, items: [{ productId: 1, quantity: 5 }] }))
+      .rejects.toMatchObject({ code: 'QUOTE_MISMATCH' })
+    await expect(pricingService.verifyQuote(quote.quoteToken, { ...request, currency: 'USD' }))
+      .rejects.toMatchObject({ code: 'QUOTE_MISMATCH' })
+  })
+
+  it('should reject a quote once the price has changed', async () => {
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 9.9 }])
+    const quote = await pricingService.createQuote(request)
+
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 12.9 }])
+
+    await expect(pricingService.verifyQuote(quote.quoteToken, request))
+      .rejects.toMatchObject({ code: 'QUOTE_STALE' })
+  })
+
+  it('should reject expired quotes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+
+    await mockSelectResults([product], [{ productId: 1, currency: 'CNY', price: 9.9 }])
+    const quote = await pricingService.createQuote(request)
+
+    vi.setSystemTime(new Date('2026-01-01T01:00:00Z'))
+
+    await expect(pricingService.verifyQuote(quote.quoteToken, request))
+      .rejects.toMatchObject({ code: 'QUOTE_EXPIRED' })
+  })
+})
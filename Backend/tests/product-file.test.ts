@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+import { productFileService } from '../src/services/product-file-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => {
+  const db = {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  }
+  return {
+    db,
+    withTransaction: vi.fn((fn: (tx: any) => Promise<any>) => fn(db)),
+    schema: {
+      products: { id: 'id', fileVersionPolicy: 'fileVersionPolicy' },
+      files: { id: 'id', filePath: 'filePath' },
+      deliveries: { id: 'id', fileId: 'fileId' },
+      orders: { id: 'id', productId: 'productId' },
+      orderItems: { deliveryId: 'deliveryId', productId: 'productId' },
+      productFileVersions: { id: 'id', productId: 'productId', fileId: 'fileId', version: 'version', isCurrent: 'isCurrent' },
+      fileUploads: { id: 'id', productId: 'productId', receivedChunks: 'receivedChunks', expiresAt: 'expiresAt' }
+    }
+  }
+})
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (_group: string, key: string, defaultValue: any) => key === 'chunk_size' ? 4 : defaultValue)
+  }
+}))
+
+vi.mock('fs/promises', () => {
+  const handle = { write: vi.fn().mockResolvedValue(undefined), close: vi.fn().mockResolvedValue(undefined) }
+  return {
+    default: {
+      mkdir: vi.fn().mockResolvedValue(undefined),
+      writeFile: vi.fn().mockResolvedValue(undefined),
+      open: vi.fn().mockResolvedValue(handle),
+      rename: vi.fn().mockResolvedValue(undefined),
+      unlink: vi.fn().mockResolvedValue(undefined)
+    }
+  }
+})
+
+const mockInserts = async () => {
+  const { db } = await import('../src/db')
+  const inserts: any[] = []
+  let nextId = 10
+  vi.mocked(db.insert).mockImplementation(() => ({
+    values: vi.fn((values: any) => {
+      inserts.push(values)
+      return { returning: vi.fn().mockResolvedValue([{ id: nextId++, ...values }]) }
+    })
+  }) as any)
+  return inserts
+}
+
+const upload = {
+  id: 'upload-1',
+  productId: 1,
+  fileName: 'setup.exe',
+  fileSize: 10,
+  chunkSize: 4,
+  totalChunks: 3,
+  receivedChunks: '[0,2]',
+  version: '2.0.0',
+  changelog: null,
+  checksum: null,
+  tempPath: 'storage/files/uploads/upload-1.part',
+  createdBy: 'admin',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+}
+
+describe('ProductFileService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should store uploaded files with a SHA-256 checksum and make the first version current', async () => {
+    const content = Buffer.from('installer-bytes')
+    const inserts = await mockInserts()
+    await mockSelectResults([{ id: 1 }], [], [])
+
+    const version = await productFileService.uploadFile(1, { content, originalName: 'setup.exe', version: ' 1.0.0 ', createdBy: 'admin' })
+
+    expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/products[\\/]1[\\/].+\.exe$/), content)
+    expect(inserts[0]).toMatchObject({
+      originalName: 'setup.exe',
+      fileSize: content.length,
+      checksum: createHash('sha256').update(content).digest('hex')
+    })
+    expect(inserts[1]).toMatchObject({ productId: 1, fileId: 10, version: '1.0.0', isCurrent: true })
+    expect(version).toMatchObject({ id: 11, isCurrent: true, deliveryCount: 0 })
+  })
+
+  it('should keep the current version when uploading a new one', async () => {
+    const inserts = await mockInserts()
+    await mockSelectResults([{ id: 1 }], [], [{ id: 3 }])
+
+    await productFileService.uploadFile(1, { content: Buffer.from('v2'), originalName: 'setup.exe', version: '2.0.0' })
+
+    expect(inserts[1]).toMatchObject({ version: '2.0.0', isCurrent: false })
+  })
+
+  it('should reject duplicate version numbers', async () => {
+    await mockSelectResults([{ id: 1 }], [{ id: 3 }])
+
+    await expect(productFileService.uploadFile(1, {
+      content: Buffer.from('v1'),
+      originalName: 'setup.exe',
+      version: '1.0.0'
+    })).rejects.toMatchObject({ code: 'FILE_VERSION_EXISTS' })
+    expect(fs.writeFile).not.toHaveBeenCalled()
+  })
+
+  it('should split chunked uploads by the configured chunk size', async () => {
+    const inserts = await mockInserts()
+    await mockSelectResults([{ id: 1 }], [])
+
+    const session = await productFileService.createUpload(1, { fileName: 'setup.exe', fileSize: 10, version: '1.0.0' })
+
+    expect(session).toMatchObject({ chunkSize: 4, totalChunks: 3, receivedChunks: [] })
+    expect(inserts[0]).toMatchObject({ productId: 1, fileSize: 10, totalChunks: 3, receivedChunks: '[]' })
+  })
+
+  it('should write chunks at their offset and validate the chunk size', async () => {
+    const { db } = await import('../src/db')
+    const handle = await fs.open('', 'r+')
+    vi.mocked(db.update).mockReturnValue({
+      set: vi.fn(() => ({ where: vi.fn(() => ({ returning: vi.fn().mockResolvedValue([{ ...upload, receivedChunks: '[0,1,2]' }]) })) }))
+    } as any)
+
+    await mockSelectResults([upload])
+    await expect(productFileService.writeChunk(1, upload.id, 1, Buffer.from('abc'))).rejects.toMatchObject({ code: 'FILE_CHUNK_INVALID' })
+
+    await mockSelectResults([upload])
+    const session = await productFileService.writeChunk(1, upload.id, 2, Buffer.from('89'))
+
+    expect(handle.write).toHaveBeenCalledWith(Buffer.from('89'), 0, 2, 8)
+    expect(session.receivedChunks).toEqual([0, 1, 2])
+  })
+
+  it('should not complete uploads with missing chunks', async () => {
+    await mockSelectResults([upload])
+
+    await expect(productFileService.completeUpload(1, upload.id)).rejects.toMatchObject({
+      code: 'FILE_UPLOAD_INCOMPLETE',
+      context: { missing: [1] }
+    })
+    expect(fs.rename).not.toHaveBeenCalled()
+  })
+
+  it('should keep purchased versions unless the product delivers the latest version', async () => {
+    const delivery: any = { id: 7, orderId: 'ORDER_TEST_123', fileId: 5 }
+
+    await mockSelectResults([{ productId: 1, policy: 'purchased' }])
+    expect(await productFileService.resolveDeliveryFileId(delivery)).toBe(5)
+
+    await mockSelectResults([{ productId: 1, policy: 'latest' }], [{ fileId: 9, fileName: 'setup-2.exe', fileSize: 20 }])
+    expect(await productFileService.resolveDeliveryFileId(delivery)).toBe(9)
+  })
+
+  it('should not delete versions that were delivered to customers', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([{ id: 3, productId: 1, fileId: 5, isCurrent: false }], [{ count: 2 }])
+
+    await expect(productFileService.deleteVersion(1, 3)).rejects.toMatchObject({ code: 'FILE_IN_USE' })
+    expect(db.delete).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+import sharp from 'sharp'
+import { productImageService, resolveImageFormat } from '../src/services/product-image-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => {
+  const db = {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  }
+  return {
+    db,
+    withTransaction: vi.fn((fn: (tx: any) => Promise<any>) => fn(db)),
+    schema: {
+      products: { id: 'id' },
+      files: { id: 'id', filePath: 'filePath', isActive: 'isActive' },
+      productImages: { id: 'id', productId: 'productId', sortOrder: 'sortOrder' }
+    }
+  }
+})
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (_group: string, _key: string, defaultValue: any) => defaultValue)
+  }
+}))
+
+vi.mock('fs/promises', () => ({
+  default: {
+    mkdir: vi.fn().mockResolvedValue(undefined),
+    writeFile: vi.fn().mockResolvedValue(undefined),
+    readFile: vi.fn(),
+    unlink: vi.fn().mockResolvedValue(undefined)
+  }
+}))
+
+vi.mock('sharp', () => ({ default: vi.fn() }))
+
+const mockSharp = (metadata: Record<string, any>) => {
+  const pipeline: any = {
+    metadata: vi.fn().mockResolvedValue(metadata),
+    rotate: vi.fn(() => pipeline),
+    resize: vi.fn(() => pipeline),
+    webp: vi.fn(() => pipeline),
+    toBuffer: vi.fn().mockResolvedValue(Buffer.from('thumbnail'))
+  }
+  vi.mocked(sharp).mockReturnValue(pipeline)
+  return pipeline
+}
+
+describe('ProductImageService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should only accept supported image formats', () => {
+    expect(resolveImageFormat('jpeg')).toEqual({ mimeType: 'image/jpeg', extension: 'jpg' })
+    expect(resolveImageFormat('png')?.mimeType).toBe('image/png')
+    expect(resolveImageFormat('svg')).toBeNull()
+    expect(resolveImageFormat(undefined)).toBeNull()
+  })
+
+  it('should reject images larger than the configured limit', async () => {
+    await mockSelectResults([{ id: 1 }])
+
+    await expect(productImageService.uploadImage(1, {
+      content: Buffer.alloc(6 * 1024 * 1024),
+      originalName: 'large.jpg'
+    })).rejects.toMatchObject({ code: 'IMAGE_TOO_LARGE' })
+    expect(fs.writeFile).not.toHaveBeenCalled()
+  })
+
+  it('should reject files that are not supported images', async () => {
+    await mockSelectResults([{ id: 1 }], [{ count: 0, maxOrder: null }])
+    mockSharp({ format: 'svg', width: 100, height: 100 })
+
+    await expect(productImageService.uploadImage(1, {
+      content: Buffer.from('<svg></svg>'),
+      originalName: 'logo.svg'
+    })).rejects.toMatchObject({ code: 'IMAGE_INVALID' })
+    expect(fs.writeFile).not.toHaveBeenCalled()
+  })
+
+  it('should store original and thumbnail files with checksums and append to the gallery', async () => {
+    const { db } = await import('../src/db')
+    const content = Buffer.from('jpeg-bytes')
+    const inserts: any[] = []
+    let nextId = 10
+    vi.mocked(db.insert).mockImplementation(() => ({
+      values: vi.fn((values: any) => {
+        inserts.push(values)
+        return { returning: vi.fn().mockResolvedValue([{ id: nextId++, sortOrder: 0, ...values }]) }
+      })
+    }) as any)
+    await mockSelectResults([{ id: 1 }], [{ count: 2, maxOrder: 4 }])
+    const pipeline = mockSharp({ format: 'jpeg', width: 1200, height: 800, orientation: 6 })
+
+    const image = await productImageService.uploadImage(1, { content, originalName: 'photo.jpg', altText: ' 正面 ', createdBy: 'admin' })
+
+    expect(pipeline.resize).toHaveBeenCalledWith(expect.objectContaining({ width: 400, height: 400, fit: 'inside' }))
+    expect(fs.writeFile).toHaveBeenCalledTimes(2)
+    expect(inserts[0]).toMatchObject({
+      originalName: 'photo.jpg',
+      mimeType: 'image/jpeg',
+      fileSize: content.length,
+      checksum: createHash('sha256').update(content).digest('hex')
+    })
+    expect(inserts[1]).toMatchObject({ mimeType: 'image/webp', checksum: createHash('sha256').update('thumbnail').digest('hex') })
+    expect(inserts[2]).toMatchObject({ productId: 1, fileId: 10, thumbnailFileId: 11, width: 800, height: 1200, altText: '正面', sortOrder: 5 })
+    expect(image).toMatchObject({ id: 12, thumbnailUrl: '/api/v1/products/images/12/thumbnail' })
+  })
+
+  it('should require the new order to contain exactly the product images', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([{ id: 1 }], [{ id: 3 }, { id: 4 }])
+
+    await expect(productImageService.reorderImages(1, [3, 5])).rejects.toMatchObject({ code: 'IMAGE_INVALID' })
+    expect(db.update).not.toHaveBeenCalled()
+  })
+
+  it('should deactivate file records and remove stored files when deleting an image', async () => {
+    const { db } = await import('../src/db')
+    const set = vi.fn(() => ({ where: vi.fn().mockResolvedValue(undefined) }))
+    vi.mocked(db.update).mockReturnValue({ set } as any)
+    vi.mocked(db.delete).mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) } as any)
+    await mockSelectResults(
+      [{ id: 3, productId: 1, fileId: 10, thumbnailFileId: 11 }],
+      [{ filePath: 'storage/media/products/1/a.jpg' }, { filePath: 'storage/media/products/1/a-thumb.webp' }]
+    )
+
+    await productImageService.deleteImage(1, 3)
+
+    expect(db.delete).toHaveBeenCalled()
+    expect(set).toHaveBeenCalledWith({ isActive: false })
+    expect(fs.unlink).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { productVariantService } from '../src/services/product-variant-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => {
+  const db = {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  }
+  return {
+    db,
+    withTransaction: vi.fn((fn: (tx: any) => Promise<any>) => fn(db)),
+    schema: {
+      products: { id: 'id' },
+      productVariants: { id: 'id', productId: 'productId', isActive: 'isActive', sortOrder: 'sortOrder' },
+      productPrices: { id: 'id', variantId: 'variantId', currency: 'currency', startsAt: 'startsAt' },
+      inventoryText: { variantId: 'variantId', isUsed: 'isUsed' },
+      orderItems: { variantId: 'variantId' }
+    }
+  }
+})
+
+const variant = { id: 3, productId: 1, name: '1年', templateText: null, isActive: true, sortOrder: 0 }
+
+// 记录 insert 写入的数据
+const mockInserts = async () => {
+  const { db } = await import('../src/db')
+  const inserts: any[] = []
+  vi.mocked(db.insert).mockImplementation(() => ({
+    values: vi.fn((values: any) => {
+      inserts.push(values)
+      return Object.assign(Promise.resolve(undefined), {
+        returning: vi.fn().mockResolvedValue([{ id: 3, ...values }])
+      })
+    })
+  }) as any)
+  return inserts
+}
+
+describe('Product variants', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should create a variant with its own prices', async () => {
+    const inserts = await mockInserts()
+    await mockSelectResults([{ id: 1 }])
+
+    const created = await productVariantService.createVariant(1, { name: ' 1年 ' }, [
+      { currency: 'CNY', price: 199 },
+      { currency: 'USD', price: 29.99 }
+    ])
+
+    expect(created).toMatchObject({ id: 3, productId: 1, name: '1年', isActive: true })
+    expect(inserts[1]).toEqual([
+      { productId: 1, variantId: 3, currency: 'CNY', price: 199, isActive: true },
+      { productId: 1, variantId: 3, currency: 'USD', price: 29.99, isActive: true }
+    ])
+  })
+
+  it('should reject variants of missing products or without a name', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([])
+
+    await expect(productVariantService.createVariant(99, { name: '1年' }))
+      .rejects.toMatchObject({ name: 'NotFoundError' })
+    await expect(productVariantService.createVariant(1, { name: '  ' }))
+      .rejects.toMatchObject({ code: 'VARIANT_INVALID' })
+    expect(db.insert).not.toHaveBeenCalled()
+  })
+
+  it('should update existing variant prices and add new currencies', async () => {
+    const { db } = await import('../src/db')
+    const inserts = await mockInserts()
+    const updates: any[] = []
+    vi.mocked(db.update).mockImplementation(() => ({
+      set: vi.fn((values: any) => {
+        updates.push(values)
+        return { where: vi.fn().mockResolvedValue(undefined) }
+      })
+    }) as any)
+    await mockSelectResults([variant], [{ id: 10, variantId: 3, currency: 'CNY', price: 199 }], [])
+
+    await productVariantService.setVariantPrices(1, 3, [
+      { currency: 'CNY', price: 179 },
+      { currency: 'EUR', price: 24.99 }
+    ])
+
+    expect(updates[0]).toMatchObject({ price: 179, isActive: true })
+    expect(inserts[0]).toEqual({ productId: 1, variantId: 3, currency: 'EUR', price: 24.99, isActive: true })
+  })
+
+  it('should not delete variants that already have orders', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([variant], [{ count: 2 }], [{ count: 0 }])
+
+    await expect(productVariantService.deleteVariant(1, 3)).rejects.toMatchObject({ code: 'VARIANT_IN_USE' })
+    expect(db.delete).not.toHaveBeenCalled()
+  })
+
+  it('should delete unused variants', async () => {
+    const { db } = await import('../src/db')
+    const where = vi.fn().mockResolvedValue(undefined)
+    vi.mocked(db.delete).mockReturnValue({ where } as any)
+    await mockSelectResults([variant], [{ count: 0 }], [{ count: 0 }])
+
+    await productVariantService.deleteVariant(1, 3)
+
+    expect(where).toHaveBeenCalled()
+  })
+})
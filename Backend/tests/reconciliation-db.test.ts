@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+// 使用临时 libsql 数据库文件：订单的 createdAt 是北京时间字符串，需要按真实 SQLite 比较时间
+const dir = mkdtempSync(path.join(tmpdir(), 'autoship-reconciliation-'))
+process.env.DATABASE_URL = `file:${path.join(dir, 'test.db')}`
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+vi.mock('../src/services/order-state-service', () => ({
+  orderStateService: {
+    updateOrderStatusFromWebhook: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/payment-gateway-service', () => ({
+  paymentGatewayManager: {
+    initialize: vi.fn(),
+    getGateway: vi.fn(() => ({ queryPayment: vi.fn() })),
+    queryPayment: vi.fn().mockResolvedValue({ status: 'pending', gatewayStatus: 'WAIT_BUYER_PAY', rawData: {} })
+  }
+}))
+
+// 与下单时写入的格式一致：北京时间 + '+08:00' 后缀
+const beijingTime = (minutesAgo: number) =>
+  new Date(Date.now() - minutesAgo * 60 * 1000 + 8 * 60 * 60 * 1000).toISOString().replace('Z', '+08:00')
+
+const load = async () => {
+  const { db, schema, initializeDatabase } = await import('../src/db')
+  const { reconciliationService } = await import('../src/services/reconciliation-service')
+  return { db, schema, initializeDatabase, reconciliationService }
+}
+
+describe('ReconciliationService against a libsql database file', () => {
+  beforeAll(async () => {
+    const { db, schema, initializeDatabase } = await load()
+    await initializeDatabase()
+
+    const [product] = await db.insert(schema.products).values({ name: 'License', deliveryType: 'text' }).returning()
+    const orders = [
+      { id: 'ORDER20261019120000RC01', minutesAgo: 10 },
+      { id: 'ORDER20261019120000RC02', minutesAgo: 30 },
+      { id: 'ORDER20261019120000RC03', minutesAgo: 25 * 60 },
+    ]
+    for (const order of orders) {
+      await db.insert(schema.orders).values({
+        id: order.id,
+        productId: product.id,
+        email: 'buyer@example.com',
+        gateway: 'alipay',
+        amount: 99,
+        currency: 'CNY',
+        status: 'pending',
+        createdAt: beijingTime(order.minutesAgo),
+      })
+    }
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should only check orders whose Beijing-time createdAt is within the age window', async () => {
+    const { reconciliationService } = await load()
+
+    const run = await reconciliationService.runReconciliation('test', { minAgeMinutes: 15 })
+    const report = await reconciliationService.getRun(run!.id)
+
+    expect(run?.checkedCount).toBe(1)
+    expect(report?.items.map(item => item.orderId)).toEqual(['ORDER20261019120000RC02'])
+  })
+})
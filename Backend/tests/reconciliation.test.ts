@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { reconciliationService } from '../src/services/reconciliation-service'
+import { ReconciliationOutcome } from '../src/db/schema'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+    insert: vi.fn()
+  },
+  schema: {}
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/order-state-service', () => ({
+  orderStateService: {
+    updateOrderStatusFromWebhook: vi.fn().mockResolvedValue({ updated: true })
+  }
+}))
+
+vi.mock('../src/services/payment-gateway-service', () => ({
+  paymentGatewayManager: {
+    initialize: vi.fn(),
+    getGateway: vi.fn(),
+    queryPayment: vi.fn()
+  }
+}))
+
+const order = {
+  id: 'ORDER_TEST_123',
+  gateway: 'alipay',
+  gatewayOrderId: 'ORDER_TEST_123',
+  amount: 99.9,
+  currency: 'CNY',
+  status: 'pending'
+} as any
+
+describe('ReconciliationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should leave orders that are still unpaid at the gateway untouched', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    const { orderStateService } = await import('../src/services/order-state-service')
+    vi.mocked(paymentGatewayManager.queryPayment).mockResolvedValue({
+      status: 'pending',
+      gatewayStatus: 'WAIT_BUYER_PAY',
+      rawData: {}
+    })
+
+    const check = await reconciliationService.reconcileOrder(order)
+
+    expect(check.outcome).toBe(ReconciliationOutcome.MATCHED)
+    expect(orderStateService.updateOrderStatusFromWebhook).not.toHaveBeenCalled()
+  })
+
+  it('should recover paid orders whose webhook was lost', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    const { orderStateService } = await import('../src/services/order-state-service')
+    vi.mocked(paymentGatewayManager.queryPayment).mockResolvedValue({
+      status: 'paid',
+      gatewayStatus: 'TRADE_SUCCESS',
+      amount: 99.9,
+      currency: 'CNY',
+      transactionId: '2024010122001',
+      rawData: {}
+    })
+
+    const check = await reconciliationService.reconcileOrder(order)
+
+    expect(check.outcome).toBe(ReconciliationOutcome.RECOVERED)
+    expect(orderStateService.updateOrderStatusFromWebhook).toHaveBeenCalledWith(
+      order.id,
+      'alipay',
+      order.gatewayOrderId,
+      'paid',
+      expect.objectContaining({ transactionId: '2024010122001' })
+    )
+  })
+
+  it('should report paid orders with a different amount without updating them', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    const { orderStateService } = await import('../src/services/order-state-service')
+    vi.mocked(paymentGatewayManager.queryPayment).mockResolvedValue({
+      status: 'paid',
+      gatewayStatus: 'TRADE_SUCCESS',
+      amount: 9.99,
+      currency: 'CNY',
+      rawData: {}
+    })
+
+    const check = await reconciliationService.reconcileOrder(order)
+
+    expect(check.outcome).toBe(ReconciliationOutcome.MISMATCHED)
+    expect(check.gatewayAmount).toBe(9.99)
+    expect(orderStateService.updateOrderStatusFromWebhook).not.toHaveBeenCalled()
+  })
+
+  it('should record query failures as errors', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    vi.mocked(paymentGatewayManager.queryPayment).mockRejectedValue(new Error('Alipay trade query failed: 系统繁忙'))
+
+    const check = await reconciliationService.reconcileOrder(order)
+
+    expect(check).toEqual({
+      outcome: ReconciliationOutcome.ERROR,
+      message: 'Alipay trade query failed: 系统繁忙'
+    })
+  })
+
+  it('should not block later runs when the run record cannot be created', async () => {
+    const { db } = await import('../src/db')
+    vi.mocked(db.insert).mockReturnValue({
+      values: vi.fn(() => ({ returning: vi.fn().mockRejectedValue(new Error('SQLITE_BUSY')) }))
+    } as any)
+
+    await expect(reconciliationService.runReconciliation('scheduler')).rejects.toThrow('SQLITE_BUSY')
+    await expect(reconciliationService.runReconciliation('scheduler')).rejects.toThrow('SQLITE_BUSY')
+
+    expect(db.insert).toHaveBeenCalledTimes(2)
+  })
+})
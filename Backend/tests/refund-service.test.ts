@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { refundService } from '../src/services/refund-service'
+import { BusinessLogicError } from '../src/services/error-handler'
+import { RefundStatus } from '../src/db/schema'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+    insert: vi.fn()
+  },
+  schema: {
+    refunds: {
+      id: 'id',
+      refundNo: 'refundNo',
+      orderId: 'orderId',
+      gateway: 'gateway',
+      status: 'status',
+      gatewayRefundId: 'gatewayRefundId',
+      createdAt: 'createdAt'
+    }
+  }
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/order-service', () => ({
+  orderService: {
+    getOrderById: vi.fn()
+  }
+}))
+
+vi.mock('../src/services/transaction-service', () => ({
+  transactionService: {
+    processRefund: vi.fn().mockResolvedValue({})
+  }
+}))
+
+vi.mock('../src/services/job-queue-service', () => ({
+  jobQueueService: {
+    enqueue: vi.fn().mockResolvedValue({ job: { id: 1 }, created: true })
+  }
+}))
+
+vi.mock('../src/services/payment-gateway-service', () => ({
+  paymentGatewayManager: {
+    initialize: vi.fn(),
+    getGateway: vi.fn(() => ({ refund: vi.fn() })),
+    refund: vi.fn()
+  }
+}))
+
+const order = {
+  id: 'ORDER_TEST_123',
+  gateway: 'alipay',
+  gatewayOrderId: 'ORDER_TEST_123',
+  amount: 100,
+  currency: 'CNY',
+  status: 'delivered'
+}
+
+// insert/update 回显写入的字段
+const mockWrites = async () => {
+  const { db } = await import('../src/db')
+  let row: Record<string, any> = {}
+
+  vi.mocked(db.insert).mockReturnValue({
+    values: vi.fn((values: any) => ({
+      returning: vi.fn(async () => {
+        row = { id: 1, ...values }
+        return [row]
+      })
+    }))
+  } as any)
+  vi.mocked(db.update).mockReturnValue({
+    set: vi.fn((values: any) => ({
+      where: vi.fn().mockReturnValue({
+        returning: vi.fn(async () => {
+          row = { ...row, ...values }
+          return [row]
+        })
+      })
+    }))
+  } as any)
+}
+
+describe('RefundService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { orderService } = await import('../src/services/order-service')
+    vi.mocked(orderService.getOrderById).mockResolvedValue(order as any)
+    await mockWrites()
+  })
+
+  it('should reject refunds above the remaining refundable amount', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    await mockSelectResults([{ amount: 60, status: RefundStatus.SUCCEEDED }])
+
+    await expect(refundService.requestRefund({
+      orderId: order.id,
+      amount: 50,
+      reason: 'duplicate purchase',
+      requestedBy: 'admin'
+    })).rejects.toBeInstanceOf(BusinessLogicError)
+    expect(paymentGatewayManager.refund).not.toHaveBeenCalled()
+  })
+
+  it('should fail the later of two concurrent refunds that together exceed the order amount', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    // 检查时尚无退款；写入后发现另一个请求已先写入 80 的退款
+    await mockSelectResults([], [
+      { id: 1, amount: 80, status: RefundStatus.PENDING },
+      { id: 2, amount: 50, status: RefundStatus.PENDING }
+    ])
+
+    const error = await refundService.requestRefund({
+      orderId: order.id,
+      amount: 50,
+      reason: 'duplicate purchase',
+      requestedBy: 'admin'
+    }).catch(err => err)
+
+    expect(error).toBeInstanceOf(BusinessLogicError)
+    expect(error.code).toBe('REFUND_AMOUNT_EXCEEDED')
+    expect(error.context).toEqual({ refundable: 20 })
+    expect(paymentGatewayManager.refund).not.toHaveBeenCalled()
+
+    const { db } = await import('../src/db')
+    const set = vi.mocked(db.update).mock.results[0].value.set
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: RefundStatus.FAILED }))
+  })
+
+  it('should keep the order active after a partial refund', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    const { transactionService } = await import('../src/services/transaction-service')
+    vi.mocked(paymentGatewayManager.refund).mockResolvedValue({
+      status: 'succeeded',
+      gatewayRefundId: '2024010122001',
+      amount: 30,
+      rawData: {}
+    })
+    await mockSelectResults(
+      [],
+      [{ id: 1, amount: 30, status: RefundStatus.PENDING }],
+      [{ id: 1, orderId: order.id, amount: 30, reason: 'partial refund', status: RefundStatus.SUCCEEDED }],
+      [{ amount: 30, status: RefundStatus.SUCCEEDED }]
+    )
+
+    const refund = await refundService.requestRefund({
+      orderId: order.id,
+      amount: 30,
+      reason: 'partial refund',
+      requestedBy: 'admin'
+    })
+
+    expect(refund.status).toBe(RefundStatus.SUCCEEDED)
+    expect(paymentGatewayManager.refund).toHaveBeenCalledWith('alipay', order.id, 30, 'partial refund', expect.objectContaining({
+      refundNo: expect.stringMatching(/^RF/),
+      currency: 'CNY'
+    }))
+    expect(transactionService.processRefund).not.toHaveBeenCalled()
+
+    // 部分退款同样开具红字发票
+    const { jobQueueService } = await import('../src/services/job-queue-service')
+    expect(jobQueueService.enqueue).toHaveBeenCalledWith(
+      'invoice.credit_note',
+      { refundId: 1 },
+      { orderId: order.id, idempotencyKey: 'refund:1:invoice.credit_note' }
+    )
+  })
+
+  it('should record gateway failures without changing the order', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    const { transactionService } = await import('../src/services/transaction-service')
+    vi.mocked(paymentGatewayManager.refund).mockRejectedValue(new Error('ACQ.TRADE_NOT_EXIST'))
+    await mockSelectResults([], [{ id: 1, amount: 100, status: RefundStatus.PENDING }])
+
+    const refund = await refundService.requestRefund({
+      orderId: order.id,
+      reason: 'full refund',
+      requestedBy: 'admin'
+    })
+
+    expect(refund.amount).toBe(100)
+    expect(refund.status).toBe(RefundStatus.FAILED)
+    expect(refund.errorMessage).toBe('ACQ.TRADE_NOT_EXIST')
+    expect(transactionService.processRefund).not.toHaveBeenCalled()
+
+    const { jobQueueService } = await import('../src/services/job-queue-service')
+    expect(jobQueueService.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('should keep a gateway refund succeeded and retry finalization when post-processing fails', async () => {
+    const { paymentGatewayManager } = await import('../src/services/payment-gateway-service')
+    const { transactionService } = await import('../src/services/transaction-service')
+    const { jobQueueService } = await import('../src/services/job-queue-service')
+    vi.mocked(paymentGatewayManager.refund).mockResolvedValue({
+      status: 'succeeded',
+      gatewayRefundId: '2024010122002',
+      amount: 100,
+      rawData: {}
+    })
+    vi.mocked(transactionService.processRefund).mockRejectedValueOnce(new Error('SQLITE_BUSY'))
+    await mockSelectResults(
+      [],
+      [{ id: 1, amount: 100, status: RefundStatus.PENDING }],
+      [{ id: 1, orderId: order.id, amount: 100, reason: 'full refund', status: RefundStatus.SUCCEEDED }],
+      [{ amount: 100, status: RefundStatus.SUCCEEDED }]
+    )
+
+    const refund = await refundService.requestRefund({
+      orderId: order.id,
+      reason: 'full refund',
+      requestedBy: 'admin'
+    })
+
+    expect(refund.status).toBe(RefundStatus.SUCCEEDED)
+    expect(refund.errorMessage).toBeNull()
+    expect(jobQueueService.enqueue).toHaveBeenCalledWith(
+      'refund.finalize',
+      { refundId: 1 },
+      { orderId: order.id, idempotencyKey: 'refund:1:refund.finalize' }
+    )
+
+    const { db } = await import('../src/db')
+    const set = vi.mocked(db.update).mock.results[0].value.set
+    expect(set.mock.calls.map(([values]: any[]) => values.status)).not.toContain(RefundStatus.FAILED)
+  })
+
+  it('should refund the order once an asynchronous refund brings the total to the order amount', async () => {
+    const { transactionService } = await import('../src/services/transaction-service')
+    const pendingRefund = {
+      id: 2,
+      refundNo: 'RF1700000000000ABCD',
+      orderId: order.id,
+      gateway: 'creem',
+      amount: 70,
+      reason: 'remaining amount',
+      status: RefundStatus.PENDING
+    }
+    await mockSelectResults([pendingRefund], [{ ...pendingRefund, status: RefundStatus.SUCCEEDED }], [
+      { amount: 30, status: RefundStatus.SUCCEEDED },
+      { amount: 70, status: RefundStatus.SUCCEEDED }
+    ])
+
+    const refund = await refundService.handleRefundNotification('creem', {
+      refundNo: pendingRefund.refundNo,
+      gatewayRefundId: 'ref_123',
+      status: 'succeeded'
+    })
+
+    expect(refund?.gatewayRefundId).toBe('ref_123')
+    expect(transactionService.processRefund).toHaveBeenCalledWith(order.id, 'remaining amount')
+  })
+
+  it('should ignore repeated notifications for completed refunds', async () => {
+    const { db } = await import('../src/db')
+    await mockSelectResults([{ id: 3, refundNo: 'RF1', gateway: 'creem', status: RefundStatus.SUCCEEDED }])
+
+    const refund = await refundService.handleRefundNotification('creem', { refundNo: 'RF1', status: 'succeeded' })
+
+    expect(refund?.status).toBe(RefundStatus.SUCCEEDED)
+    expect(db.update).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { parseAlipayBill, parseCreemPayouts, settlementService } from '../src/services/settlement-service'
+import { BusinessLogicError } from '../src/services/error-handler'
+import { SettlementDiscrepancyType } from '../src/db/schema'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn()
+  },
+  schema: {
+    orders: { id: 'id', gateway: 'gateway', gatewayOrderId: 'gatewayOrderId' },
+    paymentsRaw: { id: 'id', gateway: 'gateway', gatewayOrderId: 'gatewayOrderId', gatewayTransactionId: 'gatewayTransactionId' },
+    refunds: { gateway: 'gateway', refundNo: 'refundNo', gatewayRefundId: 'gatewayRefundId' },
+    settlementImports: {},
+    settlementDiscrepancies: {}
+  }
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+const alipayBill = [
+  '#支付宝业务明细查询',
+  '#账号：[20881234567890120156]',
+  '#-----------------------------------------业务明细列表----------------------------------------',
+  '支付宝交易号,商户订单号,业务类型,商品名称,创建时间,完成时间,订单金额（元）,商家实收（元）,退款批次号/请求号,备注',
+  '2026101822001\t,ORDER_A\t,交易\t,"会员, 月卡"\t,2026-10-18 10:00:00\t,2026-10-18 10:00:05\t,99.90\t,99.90\t,\t,',
+  '2026101822001\t,ORDER_A\t,退款\t,会员月卡\t,2026-10-18 12:00:00\t,2026-10-18 12:00:03\t,-30.00\t,-30.00\t,RF1\t,',
+  '#-----------------------------------------业务明细列表结束------------------------------------',
+  '#交易合计：1笔，共99.90元',
+].join('\r\n')
+
+describe('Settlement file parsers', () => {
+  it('should parse payment and refund lines from an Alipay bill', () => {
+    const lines = parseAlipayBill(alipayBill)
+
+    expect(lines).toEqual([
+      expect.objectContaining({ lineNo: 5, type: 'payment', gatewayOrderId: 'ORDER_A', transactionId: '2026101822001', amount: 99.9, currency: 'CNY' }),
+      expect.objectContaining({ lineNo: 6, type: 'refund', gatewayOrderId: 'ORDER_A', refundNo: 'RF1', amount: 30 }),
+    ])
+  })
+
+  it('should reject files without the Alipay header row', () => {
+    expect(() => parseAlipayBill('order_id,amount\nORDER_A,1')).toThrow(BusinessLogicError)
+  })
+
+  it('should parse Creem payout exports by column name', () => {
+    const lines = parseCreemPayouts([
+      'Transaction_ID,Type,Checkout_ID,Amount,Currency,Request_ID',
+      'tran_1,payment,ch_1,19.99,usd,',
+      'tran_2,refund,ch_1,-5,USD,RF2',
+    ].join('\n'))
+
+    expect(lines).toEqual([
+      expect.objectContaining({ type: 'payment', gatewayOrderId: 'ch_1', transactionId: 'tran_1', amount: 19.99, currency: 'USD' }),
+      expect.objectContaining({ type: 'refund', gatewayOrderId: 'ch_1', refundNo: 'RF2', amount: 5 }),
+    ])
+  })
+})
+
+describe('SettlementService', () => {
+  let insertedDiscrepancies: any[] = []
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    insertedDiscrepancies = []
+
+    const { db } = await import('../src/db')
+    vi.mocked(db.insert).mockImplementation(((table: any) => ({
+      values: vi.fn((values: any) => {
+        if (Array.isArray(values)) {
+          insertedDiscrepancies = values
+        }
+        return Object.assign(Promise.resolve(), {
+          returning: vi.fn(async () => [{ id: 1, ...values }])
+        })
+      })
+    })) as any)
+  })
+
+  it('should flag amount mismatches and refunds missing from the ledger', async () => {
+    await mockSelectResults(
+      [{ id: 'ORDER_A', gateway: 'alipay', amount: 199, currency: 'CNY', status: 'delivered' }],
+      [{ id: 'ORDER_A', gateway: 'alipay', amount: 199, currency: 'CNY', status: 'delivered' }],
+      []
+    )
+
+    const settlement = await settlementService.importSettlement({
+      gateway: 'alipay',
+      fileName: 'bill.csv',
+      content: alipayBill,
+      importedBy: 'admin'
+    })
+
+    expect(settlement.discrepancyCount).toBe(2)
+    expect(settlement.paymentAmount).toBe(99.9)
+    expect(insertedDiscrepancies.map(item => item.type)).toEqual([
+      SettlementDiscrepancyType.AMOUNT_MISMATCH,
+      SettlementDiscrepancyType.REFUND_NOT_REFLECTED,
+    ])
+  })
+
+  it('should flag lines without a local order and repeated lines', async () => {
+    await mockSelectResults([], [])
+
+    await settlementService.importSettlement({
+      gateway: 'creem',
+      fileName: 'payouts.csv',
+      content: 'transaction_id,type,checkout_id,amount,currency\ntran_1,payment,ch_1,19.99,USD\ntran_1,payment,ch_1,19.99,USD',
+      importedBy: 'admin'
+    })
+
+    expect(insertedDiscrepancies).toEqual([
+      expect.objectContaining({ type: SettlementDiscrepancyType.MISSING_ORDER, message: '本地无对应订单，也未收到支付回调' }),
+      expect.objectContaining({ type: SettlementDiscrepancyType.DUPLICATE, lineNo: 3 }),
+    ])
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import net from 'net'
+import { SmtpTransport } from '../src/services/email-service'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {},
+  schema: {}
+}))
+
+vi.mock('../src/services/config-service', () => ({
+  configService: {}
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {}
+}))
+
+vi.mock('../src/services/email-template-service', () => ({
+  emailTemplateService: {}
+}))
+
+vi.mock('../src/services/invoice-service', () => ({
+  invoiceService: {}
+}))
+
+const message = {
+  from: 'AutoShip <noreply@example.com>',
+  to: 'buyer@example.com',
+  subject: 'Order delivered',
+  html: '<p>Thanks</p>',
+  text: 'Thanks'
+}
+
+// 不支持 STARTTLS 的明文 SMTP 服务器，记录收到的命令
+const startPlainServer = async () => {
+  const commands: string[] = []
+  const server = net.createServer((socket) => {
+    let inData = false
+    let authStep = 0
+    let buffer = ''
+    socket.write('220 localhost ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString()
+      let index
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 queued\r\n')
+          }
+          continue
+        }
+        commands.push(line)
+        if (line === 'AUTH LOGIN') authStep = 1
+        if (authStep > 0) {
+          // AUTH LOGIN 依次收到命令、用户名、密码
+          socket.write(authStep++ < 3 ? '334 ok\r\n' : '235 ok\r\n')
+          if (authStep > 3) authStep = 0
+        } else if (line.startsWith('EHLO')) socket.write('250-localhost\r\n250 AUTH LOGIN\r\n')
+        else if (line === 'DATA') {
+          inData = true
+          socket.write('354 go ahead\r\n')
+        } else if (line === 'QUIT') socket.end('221 bye\r\n')
+        else socket.write('250 ok\r\n')
+      }
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return { server, commands, port: (server.address() as net.AddressInfo).port }
+}
+
+let servers: net.Server[] = []
+
+afterEach(async () => {
+  await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))))
+  servers = []
+})
+
+describe('SmtpTransport', () => {
+  it('should refuse to send credentials when the server does not offer STARTTLS', async () => {
+    const { server, commands, port } = await startPlainServer()
+    servers.push(server)
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, secure: false, user: 'mailer', password: 'secret' })
+
+    await expect(transport.send(message)).rejects.toThrow('refusing to send credentials')
+    expect(commands.some(command => command.startsWith('AUTH'))).toBe(false)
+    expect(commands).not.toContain(Buffer.from('secret').toString('base64'))
+  })
+
+  it('should authenticate on plaintext connections only when explicitly allowed', async () => {
+    const { server, commands, port } = await startPlainServer()
+    servers.push(server)
+    const transport = new SmtpTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+      allowInsecureAuth: true
+    })
+
+    await expect(transport.send(message)).resolves.toMatchObject({ messageId: expect.any(String) })
+    expect(commands).toContain('AUTH LOGIN')
+  })
+
+  it('should send without credentials on plaintext connections', async () => {
+    const { server, commands, port } = await startPlainServer()
+    servers.push(server)
+
+    await new SmtpTransport({ host: '127.0.0.1', port, secure: false }).send(message)
+
+    expect(commands.some(command => command.startsWith('AUTH'))).toBe(false)
+    expect(commands).toContain('RCPT TO:<buyer@example.com>')
+  })
+})
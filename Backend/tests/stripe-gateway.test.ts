@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import {
+  StripeGateway,
+  computeStripeSignature,
+  verifyStripeSignature,
+  toStripeAmount,
+  fromStripeAmount
+} from '../src/services/payment-gateway-service'
+
+const WEBHOOK_SECRET = 'whsec_test_secret'
+
+// 本地 Stripe 模拟服务器记录的请求
+const stripeRequests: { path: string; authorization?: string; body: URLSearchParams }[] = []
+let stripeApiBase = ''
+
+// Mock 依赖
+vi.mock('../src/services/config-service', () => ({
+  configService: {
+    getConfig: vi.fn(async (group: string, key: string, defaultValue?: any) => {
+      const values: Record<string, any> = {
+        stripe_enabled: true,
+        stripe_secret_key: 'sk_test_123',
+        stripe_webhook_secret: WEBHOOK_SECRET,
+        stripe_api_base: stripeApiBase,
+        stripe_webhook_tolerance: 300
+      }
+      return group === 'payment' && key in values ? values[key] : defaultValue
+    })
+  }
+}))
+
+vi.mock('../src/services/audit-service', () => ({
+  auditService: {
+    logAuditEvent: vi.fn()
+  }
+}))
+
+const signHeader = (payload: string, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${computeStripeSignature(payload, timestamp, WEBHOOK_SECRET)}`
+
+describe('StripeGateway', () => {
+  let server: http.Server
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = ''
+      req.on('data', chunk => { raw += chunk })
+      req.on('end', () => {
+        const body = new URLSearchParams(raw)
+        stripeRequests.push({ path: req.url || '', authorization: req.headers.authorization, body })
+
+        if (body.get('line_items[0][price_data][product_data][name]') === 'FAIL') {
+          res.writeHead(400, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ error: { message: 'Invalid request' } }))
+          return
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({
+          id: 'cs_test_123',
+          object: 'checkout.session',
+          url: 'https://checkout.stripe.com/c/pay/cs_test_123',
+          expires_at: Number(body.get('expires_at'))
+        }))
+      })
+    })
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    stripeApiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    stripeRequests.length = 0
+  })
+
+  describe('amount conversion', () => {
+    it('should treat JPY as a zero-decimal currency', () => {
+      expect(toStripeAmount(1500, 'JPY')).toBe(1500)
+      expect(fromStripeAmount(1500, 'jpy')).toBe(1500)
+    })
+
+    it('should convert other currencies to cents', () => {
+      expect(toStripeAmount(19.99, 'EUR')).toBe(1999)
+      expect(fromStripeAmount(1999, 'usd')).toBe(19.99)
+    })
+  })
+
+  describe('verifyStripeSignature', () => {
+    const payload = JSON.stringify({ id: 'evt_1', type: 'checkout.session.completed' })
+
+    it('should accept a valid signature', () => {
+      expect(verifyStripeSignature(payload, signHeader(payload), WEBHOOK_SECRET).isValid).toBe(true)
+    })
+
+    it('should reject a tampered payload', () => {
+      const result = verifyStripeSignature(payload + ' ', signHeader(payload), WEBHOOK_SECRET)
+
+      expect(result.isValid).toBe(false)
+      expect(result.error).toBe('Stripe signature mismatch')
+    })
+
+    it('should reject a timestamp outside the tolerance', () => {
+      const staleTimestamp = Math.floor(Date.now() / 1000) - 600
+      const result = verifyStripeSignature(payload, signHeader(payload, staleTimestamp), WEBHOOK_SECRET, 300)
+
+      expect(result.isValid).toBe(false)
+      expect(result.error).toBe('Stripe signature timestamp outside tolerance')
+    })
+
+    it('should reject a malformed header', () => {
+      expect(verifyStripeSignature(payload, 'v1=abc', WEBHOOK_SECRET).isValid).toBe(false)
+      expect(verifyStripeSignature(payload, undefined, WEBHOOK_SECRET).isValid).toBe(false)
+    })
+  })
+
+  describe('createPayment', () => {
+    it('should create a checkout session on the Stripe API', async () => {
+      const gateway = new StripeGateway()
+
+      const result = await gateway.createPayment({
+        orderId: 'ORDER_TEST_123',
+        amount: 1200,
+        currency: 'JPY',
+        productName: 'Test Product',
+        customerEmail: 'buyer@example.com',
+        returnUrl: 'https://shop.example.com/payment/ORDER_TEST_123'
+      })
+
+      expect(result.gatewayOrderId).toBe('cs_test_123')
+      expect(result.paymentUrl).toBe('https://checkout.stripe.com/c/pay/cs_test_123')
+      expect(stripeRequests).toHaveLength(1)
+
+      const [request] = stripeRequests
+      expect(request.path).toBe('/v1/checkout/sessions')
+      expect(request.authorization).toBe('Bearer sk_test_123')
+      expect(request.body.get('client_reference_id')).toBe('ORDER_TEST_123')
+      expect(request.body.get('line_items[0][price_data][currency]')).toBe('jpy')
+      expect(request.body.get('line_items[0][price_data][unit_amount]')).toBe('1200')
+    })
+
+    it('should throw when the Stripe API returns an error', async () => {
+      const gateway = new StripeGateway()
+
+      await expect(gateway.createPayment({
+        orderId: 'ORDER_TEST_456',
+        amount: 10,
+        currency: 'USD',
+        productName: 'FAIL',
+        customerEmail: 'buyer@example.com'
+      })).rejects.toThrow('Stripe API error 400: Invalid request')
+    })
+  })
+
+  describe('verifyWebhook / parseCallback', () => {
+    const event = {
+      id: 'evt_test_1',
+      type: 'checkout.session.completed',
+      data: {
+        object: {
+          id: 'cs_test_123',
+          client_reference_id: 'ORDER_TEST_123',
+          payment_intent: 'pi_test_123',
+          payment_status: 'paid',
+          amount_total: 1999,
+          currency: 'eur'
+        }
+      }
+    }
+    const rawBody = JSON.stringify(event)
+
+    it('should verify the raw body against the Stripe-Signature header', async () => {
+      const gateway = new StripeGateway()
+
+      const valid = await gateway.verifyWebhook(rawBody, { 'stripe-signature': signHeader(rawBody) })
+      const invalid = await gateway.verifyWebhook(rawBody, { 'stripe-signature': signHeader('{}') })
+
+      expect(valid.isValid).toBe(true)
+      expect(invalid.isValid).toBe(false)
+    })
+
+    it('should map a paid checkout session to a paid callback', () => {
+      const callback = new StripeGateway().parseCallback(event)
+
+      expect(callback).toMatchObject({
+        orderId: 'ORDER_TEST_123',
+        gatewayOrderId: 'cs_test_123',
+        transactionId: 'pi_test_123',
+        status: 'paid',
+        amount: 19.99,
+        currency: 'EUR'
+      })
+    })
+
+    it('should map an expired session to cancelled', () => {
+      const callback = new StripeGateway().parseCallback({ ...event, type: 'checkout.session.expired' })
+
+      expect(callback.status).toBe('cancelled')
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { taxService, normalizeCountry } from '../src/services/tax-service'
+import { mockSelectResults } from './helpers/db-mock'
+
+// Mock 依赖
+vi.mock('../src/db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  },
+  schema: {
+    taxRules: { id: 'id', country: 'country', taxCategory: 'taxCategory', isActive: 'isActive' }
+  }
+}))
+
+const rule = (overrides: Record<string, any> = {}) => ({
+  id: 1,
+  country: 'DE',
+  taxCategory: null,
+  name: 'VAT',
+  rate: 19,
+  isActive: true,
+  ...overrides
+})
+
+describe('Tax calculation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should normalize country codes', () => {
+    expect(normalizeCountry(' de ')).toBe('DE')
+    expect(normalizeCountry('DEU')).toBeNull()
+    expect(normalizeCountry(undefined)).toBeNull()
+  })
+
+  it('should use the country default rate', async () => {
+    await mockSelectResults([rule()])
+
+    const result = await taxService.calculateTax('DE', [
+      { productId: 1, taxCategory: 'standard', netAmount: 100 },
+      { productId: 2, taxCategory: 'standard', netAmount: 9.99 },
+    ])
+
+    expect(result.lines.map(line => line.taxRate)).toEqual([19, 19])
+    expect(result.lines[1].taxAmount).toBe(1.9)
+    expect(result.taxAmount).toBe(20.9)
+  })
+
+  it('should prefer the rule for the product tax category', async () => {
+    await mockSelectResults([rule(), rule({ id: 2, taxCategory: 'ebook', rate: 7 })])
+
+    const result = await taxService.calculateTax('DE', [
+      { productId: 1, taxCategory: 'ebook', netAmount: 100 },
+      { productId: 2, taxCategory: 'software', netAmount: 100 },
+    ])
+
+    expect(result.lines[0]).toMatchObject({ taxRate: 7, taxAmount: 7 })
+    expect(result.lines[1]).toMatchObject({ taxRate: 19, taxAmount: 19 })
+    expect(result.taxAmount).toBe(26)
+  })
+
+  it('should not charge tax without a buyer country or matching rule', async () => {
+    const { db } = await import('../src/db')
+
+    const withoutCountry = await taxService.calculateTax(null, [{ productId: 1, taxCategory: 'standard', netAmount: 100 }])
+    expect(withoutCountry.taxAmount).toBe(0)
+    expect(db.select).not.toHaveBeenCalled()
+
+    await mockSelectResults([])
+    const withoutRule = await taxService.calculateTax('US', [{ productId: 1, taxCategory: 'standard', netAmount: 100 }])
+    expect(withoutRule.lines[0].taxRate).toBe(0)
+    expect(withoutRule.taxAmount).toBe(0)
+  })
+
+  it('should reject duplicate rules for the same country and category', async () => {
+    await mockSelectResults([{ id: 1 }])
+
+    await expect(taxService.createRule({ country: 'de', rate: 19 }))
+      .rejects.toMatchObject({ code: 'TAX_RULE_DUPLICATE' })
+  })
+
+  it('should reject invalid country codes', async () => {
+    await expect(taxService.createRule({ country: 'Germany', rate: 19 }))
+      .rejects.toMatchObject({ code: 'TAX_COUNTRY_INVALID' })
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+
+// 使用临时 libsql 数据库文件：事务内经全局 db 写入会因 SQLITE_BUSY 失败，mock 无法发现
+const dir = mkdtempSync(path.join(tmpdir(), 'autoship-tx-'))
+process.env.DATABASE_URL = `file:${path.join(dir, 'test.db')}`
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+const orderId = 'ORDER20261019120000TX01'
+
+const load = async () => {
+  const { db, schema, initializeDatabase } = await import('../src/db')
+  const { transactionService } = await import('../src/services/transaction-service')
+  return { db, schema, initializeDatabase, transactionService }
+}
+
+describe('TransactionService against a libsql database file', () => {
+  beforeAll(async () => {
+    const { db, schema, initializeDatabase } = await load()
+    await initializeDatabase()
+
+    const [product] = await db.insert(schema.products).values({
+      name: 'License',
+      deliveryType: 'text',
+      keySource: 'pool',
+    }).returning()
+    await db.insert(schema.inventoryText).values({ productId: product.id, content: 'KEY-0001' })
+    await db.insert(schema.orders).values({
+      id: orderId,
+      productId: product.id,
+      email: 'buyer@example.com',
+      gateway: 'alipay',
+      amount: 99,
+      currency: 'CNY',
+      status: 'paid',
+    })
+    await db.insert(schema.orderItems).values({
+      orderId,
+      productId: product.id,
+      productName: product.name,
+      quantity: 1,
+      unitPrice: 99,
+      currency: 'CNY',
+    })
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should deliver the order and enqueue notifications in one transaction', async () => {
+    const { db, schema, transactionService } = await load()
+
+    const result = await transactionService.deliverOrder(orderId)
+
+    expect(result.alreadyDelivered).toBe(false)
+    expect(result.order?.status).toBe('delivered')
+    expect(result.delivery?.content).toBe('KEY-0001')
+
+    const [item] = await db.select().from(schema.orderItems)
+    expect(item.deliveryId).toBe(result.delivery?.id)
+    const [key] = await db.select().from(schema.inventoryText)
+    expect(key).toMatchObject({ isUsed: true, usedOrderId: orderId })
+    const jobs = await db.select().from(schema.jobs)
+    expect(jobs.map(job => job.jobType)).toContain('email.delivery')
+  })
+
+  it('should refund the order, revoke the delivery and release the key in one transaction', async () => {
+    const { db, schema, transactionService } = await load()
+
+    const result = await transactionService.processRefund(orderId, 'duplicate purchase')
+
+    expect(result.order?.status).toBe('refunded')
+    expect(result.emailJob.jobType).toBe('email.refund')
+
+    const deliveries = await db.select().from(schema.deliveries)
+    expect(deliveries.every(delivery => !delivery.isActive)).toBe(true)
+    const [key] = await db.select().from(schema.inventoryText)
+    expect(key).toMatchObject({ isUsed: false, usedOrderId: null })
+  })
+})
@@ -10,6 +10,12 @@ import AdminDashboard from "./pages/admin/Dashboard";
 import AdminProductManagement from "./pages/AdminProductManagement";
 import AdminInventoryManagement from "./pages/AdminInventoryManagement";
 import OrderAdmin from "./pages/admin/OrderAdmin";
+import PaymentGatewayAdmin from "./pages/admin/PaymentGatewayAdmin";
+import ReconciliationAdmin from "./pages/admin/ReconciliationAdmin";
+import SettlementAdmin from "./pages/admin/SettlementAdmin";
+import CouponAdmin from "./pages/admin/CouponAdmin";
+import TaxRuleAdmin from "./pages/admin/TaxRuleAdmin";
+import ExchangeRateAdmin from "./pages/admin/ExchangeRateAdmin";
 import AdminRoute from "./components/AdminRoute";
 
 /**
@@ -64,6 +70,54 @@ function App() {
                                     </AdminRoute>
                                 }
                             />
+                            <Route
+                                path="payment-gateways"
+                                element={
+                                    <AdminRoute>
+                                        <PaymentGatewayAdmin />
+                                    </AdminRoute>
+                                }
+                            />
+                            <Route
+                                path="reconciliation"
+                                element={
+                                    <AdminRoute>
+                                        <ReconciliationAdmin />
+                                    </AdminRoute>
+                                }
+                            />
+                            <Route
+                                path="settlements"
+                                element={
+                                    <AdminRoute>
+                                        <SettlementAdmin />
+                                    </AdminRoute>
+                                }
+                            />
+                            <Route
+                                path="coupons"
+                                element={
+                                    <AdminRoute>
+                                        <CouponAdmin />
+                                    </AdminRoute>
+                                }
+                            />
+                            <Route
+                                path="tax-rules"
+                                element={
+                                    <AdminRoute>
+                                        <TaxRuleAdmin />
+                                    </AdminRoute>
+                                }
+                            />
+                            <Route
+                                path="exchange-rates"
+                                element={
+                                    <AdminRoute>
+                                        <ExchangeRateAdmin />
+                                    </AdminRoute>
+                                }
+                            />
                         </Routes>
                     </AuthProvider>
                 } />
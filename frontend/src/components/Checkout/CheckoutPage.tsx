@@ -3,15 +3,48 @@ import { useSearchParams, Link, useNavigate } from 'react-router-dom';
 import type {
   ProductQueryParams,
   CheckoutPageState,
-  OrderCreateRequest
+  OrderCreateRequest,
+  CartOrderCreateRequest,
+  CartItem,
+  OrderQuote,
+  QuoteItem
 } from '../../types/order';
 import type { Currency } from '../../types/product';
 import type { PaymentGateway } from '../../types/payment';
-import { createOrder } from '../../services/checkoutApi';
+import { createOrder, getQuote } from '../../services/checkoutApi';
 import { validateEmail, sanitizeEmail } from '../../utils/validation';
-import { formatCurrency, convertCurrency } from '../../utils/currency';
+import { formatCurrency } from '../../utils/currency';
+import { getCart, saveCart, clearCart, isSameCartItem } from '../../utils/cart';
 import PaymentMethods from '../Payment/PaymentMethods';
 
+// 报价过期或价格变动时需要重新获取报价
+const QUOTE_REFRESH_CODES = ['QUOTE_EXPIRED', 'QUOTE_STALE', 'QUOTE_MISMATCH'];
+
+// 可选的买家国家（用于计税），留空时由服务端按IP识别
+const COUNTRY_OPTIONS = [
+  { code: 'CN', name: '中国' },
+  { code: 'HK', name: '中国香港' },
+  { code: 'TW', name: '中国台湾' },
+  { code: 'US', name: '美国' },
+  { code: 'GB', name: '英国' },
+  { code: 'DE', name: '德国' },
+  { code: 'FR', name: '法国' },
+  { code: 'JP', name: '日本' },
+  { code: 'KR', name: '韩国' },
+  { code: 'SG', name: '新加坡' },
+  { code: 'AU', name: '澳大利亚' },
+  { code: 'CA', name: '加拿大' },
+];
+
+/**
+ * 下单商品明细（报价和下单共用）
+ */
+const toQuoteItems = (productParams: ProductQueryParams | null, cartItems: CartItem[]): QuoteItem[] => cartItems.length > 0
+  ? cartItems.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity }))
+  : productParams
+    ? [{ productId: productParams.productId, variantId: productParams.variantId, quantity: productParams.quantity }]
+    : [];
+
 /**
  * 下单流程页面组件
  */
@@ -23,6 +56,10 @@ const CheckoutPage: React.FC = () => {
   const [productParams, setProductParams] = useState<ProductQueryParams | null>(null);
   const [paramsError, setParamsError] = useState<string | null>(null);
 
+  // 购物车商品（没有商品参数时从购物车下单）
+  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const isCartCheckout = cartItems.length > 0;
+
   // 页面状态
   const [state, setState] = useState<CheckoutPageState>({
     loading: false,
@@ -37,15 +74,46 @@ const CheckoutPage: React.FC = () => {
   // 支付网关选择状态
   const [selectedGateway, setSelectedGateway] = useState<PaymentGateway>('alipay');
 
+  // 服务端报价（订单金额以报价为准）
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+
+  // 优惠码状态
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCodes, setCouponCodes] = useState<string[]>([]);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [couponLoading, setCouponLoading] = useState(false);
+
+  // 买家国家（空字符串表示自动识别）
+  const [country, setCountry] = useState('');
+
+  // 发票抬头和税号（企业买家可选填写）
+  const [showInvoiceFields, setShowInvoiceFields] = useState(false);
+  const [buyerCompany, setBuyerCompany] = useState('');
+  const [buyerTaxId, setBuyerTaxId] = useState('');
+
   // 解析查询参数
   useEffect(() => {
     const productId = searchParams.get('productId');
     const productName = searchParams.get('productName');
     const price = searchParams.get('price');
     const currency = searchParams.get('currency') as Currency;
+    const quantity = searchParams.get('quantity');
+    const variantId = searchParams.get('variantId');
+
+    // 没有商品参数时使用购物车
+    if (!productId) {
+      const cart = getCart();
+      if (cart.length === 0) {
+        setParamsError('购物车为空，请先选择商品');
+        return;
+      }
+      setCartItems(cart);
+      return;
+    }
 
     // 验证必需的参数
-    if (!productId || !productName || !price || !currency) {
+    if (!productName || !price || !currency) {
       setParamsError('缺少必要的商品信息，请重新选择商品');
       return;
     }
@@ -63,22 +131,115 @@ const CheckoutPage: React.FC = () => {
       return;
     }
 
+    // 解析购买数量（旧链接没有数量参数时默认1件）
+    const quantityNumber = quantity ? Number(quantity) : 1;
+    if (!Number.isInteger(quantityNumber) || quantityNumber < 1) {
+      setParamsError('购买数量格式不正确');
+      return;
+    }
+
     setProductParams({
       productId,
+      variantId: variantId ? Number(variantId) : undefined,
       productName: decodeURIComponent(productName),
       price,
       currency,
+      quantity: quantityNumber,
     });
   }, [searchParams]);
 
-  // 根据货币自动设置支付网关
+  // 商品或国家变化后重新获取报价（已使用的优惠码需要重新校验）
   useEffect(() => {
-    if (productParams?.currency) {
-      // 根据货币自动选择对应的网关
-      const recommendedGateway = productParams.currency === 'CNY' ? 'alipay' : 'creem';
-      setSelectedGateway(recommendedGateway);
+    const items = toQuoteItems(productParams, cartItems);
+    const currency = cartItems.length > 0 ? cartItems[0].currency : productParams?.currency;
+    if (items.length === 0 || !currency) {
+      return;
+    }
+
+    let cancelled = false;
+    setQuote(null);
+    setQuoteError(null);
+    setCouponCodes([]);
+
+    getQuote({ items, currency, country: country || undefined })
+      .then(result => {
+        if (!cancelled) setQuote(result);
+      })
+      .catch(error => {
+        if (!cancelled) setQuoteError(error instanceof Error ? error.message : '获取订单金额失败');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productParams, cartItems, country]);
+
+  // 修改购物车商品数量（数量为 0 时移除）
+  const updateCartQuantity = (cartItem: CartItem, quantity: number) => {
+    const updated = quantity > 0
+      ? cartItems.map(item => isSameCartItem(item, cartItem) ? { ...item, quantity } : item)
+      : cartItems.filter(item => !isSameCartItem(item, cartItem));
+
+    saveCart(updated);
+    setCartItems(updated);
+
+    if (updated.length === 0) {
+      setParamsError('购物车为空，请先选择商品');
+    }
+  };
+
+  // 订单货币和总额（获取到报价前按页面价格展示）
+  const orderCurrency = isCartCheckout ? cartItems[0].currency : productParams?.currency;
+  const cartTotal = quote?.subtotal ?? cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const quotedUnitPrice = (line: { productId: string; variantId?: number }) => quote?.items.find(item => isSameCartItem(item, line))?.unitPrice;
+
+  // 使用指定优惠码重新获取报价
+  const applyCoupons = async (codes: string[]) => {
+    const emailValidation = validateEmail(state.formData.email);
+    if (codes.length > 0 && !emailValidation.isValid) {
+      setCouponError('请先填写有效的邮箱地址');
+      return;
+    }
+
+    setCouponLoading(true);
+    setCouponError(null);
+
+    try {
+      const result = await getQuote({
+        items: toQuoteItems(productParams, cartItems),
+        currency: orderCurrency!,
+        email: emailValidation.isValid ? sanitizeEmail(state.formData.email) : undefined,
+        couponCodes: codes,
+        country: country || undefined,
+      });
+      setQuote(result);
+      setQuoteError(null);
+      setCouponCodes(codes);
+      setCouponInput('');
+    } catch (error) {
+      setCouponError(error instanceof Error ? error.message : '优惠码校验失败');
+    } finally {
+      setCouponLoading(false);
+    }
+  };
+
+  // 添加优惠码
+  const handleApplyCoupon = () => {
+    const code = couponInput.trim().toUpperCase();
+    if (!code) {
+      return;
     }
-  }, [productParams?.currency]);
+    if (couponCodes.includes(code)) {
+      setCouponError('该优惠码已使用');
+      return;
+    }
+    applyCoupons([...couponCodes, code]);
+  };
+
+  // 移除优惠码
+  const handleRemoveCoupon = (code: string) => {
+    applyCoupons(couponCodes.filter(item => item !== code));
+  };
 
   // 处理邮箱输入变化
   const handleEmailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -125,7 +286,7 @@ const CheckoutPage: React.FC = () => {
     }
 
     // 检查商品参数
-    if (!productParams) {
+    if (!productParams && !isCartCheckout) {
       setState(prev => ({
         ...prev,
         error: '商品信息不完整，请重新选择商品',
@@ -133,6 +294,14 @@ const CheckoutPage: React.FC = () => {
       return;
     }
 
+    if (!quote) {
+      setState(prev => ({
+        ...prev,
+        error: quoteError || '正在计算订单金额，请稍候',
+      }));
+      return;
+    }
+
     setState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
@@ -140,19 +309,41 @@ const CheckoutPage: React.FC = () => {
       const sanitizedEmail = sanitizeEmail(state.formData.email);
 
       // 构建订单创建请求
-      const orderRequest: OrderCreateRequest = {
-        productId: productParams.productId,
-        productName: productParams.productName,
-        price: parseFloat(productParams.price),
-        currency: productParams.currency,
-        email: sanitizedEmail,
-        gateway: selectedGateway, // 使用用户选择的支付网关
-      };
+      const orderRequest: OrderCreateRequest | CartOrderCreateRequest = isCartCheckout
+        ? {
+          items: toQuoteItems(productParams, cartItems),
+          currency: cartItems[0].currency,
+          email: sanitizedEmail,
+          gateway: selectedGateway,
+          couponCodes,
+          country: country || undefined,
+          buyerCompany: showInvoiceFields ? buyerCompany.trim() || undefined : undefined,
+          buyerTaxId: showInvoiceFields ? buyerTaxId.trim() || undefined : undefined,
+          quoteToken: quote.quoteToken,
+        }
+        : {
+          productId: productParams!.productId,
+          productName: productParams!.productName,
+          variantId: productParams!.variantId,
+          currency: productParams!.currency,
+          email: sanitizedEmail,
+          gateway: selectedGateway, // 使用用户选择的支付网关
+          quantity: productParams!.quantity,
+          couponCodes,
+          country: country || undefined,
+          buyerCompany: showInvoiceFields ? buyerCompany.trim() || undefined : undefined,
+          buyerTaxId: showInvoiceFields ? buyerTaxId.trim() || undefined : undefined,
+          quoteToken: quote.quoteToken,
+        };
 
       // 创建订单
       const response = await createOrder(orderRequest);
 
       if (response.success && response.order) {
+        if (isCartCheckout) {
+          clearCart();
+        }
+
         setState(prev => ({
           ...prev,
           order: response.order || null,
@@ -163,6 +354,11 @@ const CheckoutPage: React.FC = () => {
         alert(`订单创建成功！订单ID: ${response.order?.id}\n即将跳转到支付页面...`);
         navigate(`/payment/${response.order?.id}`);
       } else {
+        // 价格已变动或报价过期时刷新报价，由用户确认新金额后重新提交
+        if (response.code && QUOTE_REFRESH_CODES.includes(response.code)) {
+          await applyCoupons(couponCodes);
+        }
+
         setState(prev => ({
           ...prev,
           error: response.error || '订单创建失败，请稍后重试',
@@ -212,7 +408,7 @@ const CheckoutPage: React.FC = () => {
   }
 
   // 渲染加载状态
-  if (!productParams) {
+  if (!productParams && !isCartCheckout) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
         <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -266,32 +462,85 @@ const CheckoutPage: React.FC = () => {
           <div className="p-6">
             <form onSubmit={handleSubmit} className="space-y-6">
               {/* 商品信息展示 */}
-              <div className="bg-gray-50 rounded-lg p-4">
-                <h3 className="text-lg font-medium text-gray-900 mb-3">商品信息</h3>
-                <div className="space-y-2">
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">商品名称:</span>
-                    <span className="font-medium text-gray-900">{productParams.productName}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">商品ID:</span>
-                    <span className="text-gray-900">{productParams.productId}</span>
+              {isCartCheckout ? (
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h3 className="text-lg font-medium text-gray-900 mb-3">购物车</h3>
+                  <div className="divide-y divide-gray-200">
+                    {cartItems.map(item => (
+                      <div key={`${item.productId}:${item.variantId ?? ''}`} className="flex items-center justify-between py-3">
+                        <div>
+                          <div className="font-medium text-gray-900">{item.productName}</div>
+                          <div className="text-sm text-gray-500">{formatCurrency(quotedUnitPrice(item) ?? item.price, item.currency)}</div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            type="button"
+                            onClick={() => updateCartQuantity(item, item.quantity - 1)}
+                            disabled={state.loading}
+                            className="w-8 h-8 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                          >
+                            -
+                          </button>
+                          <span className="w-8 text-center">{item.quantity}</span>
+                          <button
+                            type="button"
+                            onClick={() => updateCartQuantity(item, item.quantity + 1)}
+                            disabled={state.loading}
+                            className="w-8 h-8 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                          >
+                            +
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => updateCartQuantity(item, 0)}
+                            disabled={state.loading}
+                            className="ml-2 text-sm text-red-600 hover:text-red-800"
+                          >
+                            移除
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-600">价格:</span>
+                  <div className="flex justify-between items-center pt-3 border-t border-gray-200">
+                    <span className="text-gray-600">合计:</span>
                     <span className="text-2xl font-bold text-gray-900">
-                      {formatCurrency(
-                        convertCurrency(
-                          parseFloat(productParams.price),
-                          productParams.currency,
-                          productParams.currency
-                        ),
-                        productParams.currency
-                      )}
+                      {formatCurrency(cartTotal, cartItems[0].currency)}
                     </span>
                   </div>
                 </div>
-              </div>
+              ) : productParams && (
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h3 className="text-lg font-medium text-gray-900 mb-3">商品信息</h3>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">商品名称:</span>
+                      <span className="font-medium text-gray-900">{productParams.productName}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">商品ID:</span>
+                      <span className="text-gray-900">{productParams.productId}</span>
+                    </div>
+                    {productParams.quantity > 1 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">数量:</span>
+                        <span className="text-gray-900">
+                          {formatCurrency(quotedUnitPrice(productParams) ?? parseFloat(productParams.price), productParams.currency)} × {productParams.quantity}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">{productParams.quantity > 1 ? '合计:' : '价格:'}</span>
+                      <span className="text-2xl font-bold text-gray-900">
+                        {formatCurrency(
+                          quote?.subtotal ?? parseFloat(productParams.price) * productParams.quantity,
+                          productParams.currency
+                        )}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              )}
 
               {/* 邮箱输入 */}
               <div>
@@ -321,17 +570,165 @@ const CheckoutPage: React.FC = () => {
                 </p>
               </div>
 
+              {/* 优惠码 */}
+              <div>
+                <label htmlFor="couponCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  优惠码
+                </label>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    id="couponCode"
+                    name="couponCode"
+                    value={couponInput}
+                    onChange={(e) => {
+                      setCouponInput(e.target.value);
+                      setCouponError(null);
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="请输入优惠码"
+                    disabled={state.loading || couponLoading}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleApplyCoupon}
+                    disabled={state.loading || couponLoading || !couponInput.trim()}
+                    className="px-4 py-2 rounded-lg border border-blue-600 text-blue-600 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {couponLoading ? '校验中...' : '使用'}
+                  </button>
+                </div>
+                {couponError && (
+                  <p className="mt-1 text-sm text-red-600">{couponError}</p>
+                )}
+                {quote && quote.coupons.length > 0 && (
+                  <div className="mt-3 bg-green-50 border border-green-200 rounded-lg p-3 space-y-1">
+                    {quote.coupons.map(coupon => (
+                      <div key={coupon.code} className="flex justify-between items-center text-sm">
+                        <span className="text-green-800 font-mono">
+                          {coupon.code}
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveCoupon(coupon.code)}
+                            disabled={state.loading || couponLoading}
+                            className="ml-2 text-red-600 hover:text-red-800 font-sans"
+                          >
+                            移除
+                          </button>
+                        </span>
+                        <span className="text-green-800">-{formatCurrency(coupon.discountAmount, quote.currency)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between items-center pt-2 border-t border-green-200">
+                      <span className="text-gray-600">应付金额:</span>
+                      <span className="text-xl font-bold text-gray-900">
+                        {formatCurrency(quote.total, quote.currency)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* 买家国家 */}
+              <div>
+                <label htmlFor="country" className="block text-sm font-medium text-gray-700 mb-2">
+                  所在国家/地区
+                </label>
+                <select
+                  id="country"
+                  name="country"
+                  value={country}
+                  onChange={(e) => setCountry(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={state.loading || couponLoading}
+                >
+                  <option value="">
+                    自动识别{!country && quote?.taxCountry ? `（${quote.taxCountry}）` : ''}
+                  </option>
+                  {COUNTRY_OPTIONS.map(option => (
+                    <option key={option.code} value={option.code}>{option.name}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  用于计算订单税费
+                </p>
+              </div>
+
+              {/* 发票信息 */}
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={showInvoiceFields}
+                    onChange={(e) => setShowInvoiceFields(e.target.checked)}
+                    className="mr-2"
+                    disabled={state.loading}
+                  />
+                  发票需要填写公司抬头和税号
+                </label>
+                {showInvoiceFields && (
+                  <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      value={buyerCompany}
+                      onChange={(e) => setBuyerCompany(e.target.value)}
+                      maxLength={200}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="公司名称"
+                      disabled={state.loading}
+                    />
+                    <input
+                      type="text"
+                      value={buyerTaxId}
+                      onChange={(e) => setBuyerTaxId(e.target.value)}
+                      maxLength={50}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="税号 / VAT ID"
+                      disabled={state.loading}
+                    />
+                  </div>
+                )}
+                <p className="mt-1 text-sm text-gray-500">
+                  支付成功后可在订单详情下载发票，发票也会随发货邮件发送
+                </p>
+              </div>
+
+              {/* 税费明细 */}
+              {quote && quote.taxAmount > 0 && (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-1 text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">税前金额:</span>
+                    <span className="text-gray-900">{formatCurrency(quote.netAmount, quote.currency)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">税额{quote.taxCountry ? `（${quote.taxCountry}）` : ''}:</span>
+                    <span className="text-gray-900">{formatCurrency(quote.taxAmount, quote.currency)}</span>
+                  </div>
+                  <div className="flex justify-between items-center pt-2 border-t border-gray-200">
+                    <span className="text-gray-600">应付金额:</span>
+                    <span className="text-xl font-bold text-gray-900">
+                      {formatCurrency(quote.total, quote.currency)}
+                    </span>
+                  </div>
+                </div>
+              )}
+
               {/* 支付方式选择 */}
               <div>
                 <PaymentMethods
                   selectedGateway={selectedGateway}
                   onGatewayChange={setSelectedGateway}
                   disabled={state.loading}
-                  orderCurrency={productParams.currency}
+                  orderCurrency={orderCurrency}
                 />
               </div>
 
               {/* 错误信息 */}
+              {quoteError && !state.error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                  <div className="text-red-700">{quoteError}</div>
+                </div>
+              )}
               {state.error && (
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4">
                   <div className="text-red-700">{state.error}</div>
@@ -341,9 +738,9 @@ const CheckoutPage: React.FC = () => {
               {/* 提交按钮 */}
               <button
                 type="submit"
-                disabled={state.loading || !state.formData.email.trim()}
+                disabled={state.loading || !quote || !state.formData.email.trim()}
                 className={`w-full py-3 px-4 rounded-lg font-medium text-white transition-colors duration-200 ${
-                  state.loading || !state.formData.email.trim()
+                  state.loading || !quote || !state.formData.email.trim()
                     ? 'bg-gray-400 cursor-not-allowed'
                     : 'bg-blue-600 hover:bg-blue-700'
                 }`}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { importInventory, type ImportResult } from '../../services/inventoryApi'
 import { ADMIN_API_URL } from '../../config/api'
+import { getProductVariants, type ProductVariantAdmin } from '../../services/productAdminApi'
 
 interface ImportInventoryModalProps {
   isOpen: boolean
@@ -16,6 +17,8 @@ interface Product {
 export default function ImportInventoryModal({ isOpen, onClose, onSuccess }: ImportInventoryModalProps) {
   const [productId, setProductId] = useState<number>(0)
   const [products, setProducts] = useState<Product[]>([])
+  const [variants, setVariants] = useState<ProductVariantAdmin[]>([])
+  const [variantId, setVariantId] = useState<number>(0)
   const [content, setContent] = useState('')
   const [batchName, setBatchName] = useState('')
   const [priority, setPriority] = useState<number>(0)
@@ -34,6 +37,17 @@ export default function ImportInventoryModal({ isOpen, onClose, onSuccess }: Imp
     }
   }, [isOpen])
 
+  // 有规格的商品需选择导入到哪个规格的库存池
+  useEffect(() => {
+    setVariantId(0)
+    setVariants([])
+    if (productId) {
+      getProductVariants(productId)
+        .then(setVariants)
+        .catch((err) => console.error('Failed to fetch variants:', err))
+    }
+  }, [productId])
+
   const fetchProducts = async () => {
     try {
       // 这里应该从商品管理 API 获取商品列表
@@ -76,6 +90,11 @@ export default function ImportInventoryModal({ isOpen, onClose, onSuccess }: Imp
       return
     }
 
+    if (variants.length > 0 && !variantId) {
+      setError('请选择规格')
+      return
+    }
+
     if (!content.trim()) {
       setError('请输入库存内容')
       return
@@ -87,6 +106,7 @@ export default function ImportInventoryModal({ isOpen, onClose, onSuccess }: Imp
     try {
       const result = await importInventory({
         productId,
+        variantId: variantId || undefined,
         content: content.trim(),
         batchName: batchName.trim() || undefined,
         priority,
@@ -137,6 +157,27 @@ export default function ImportInventoryModal({ isOpen, onClose, onSuccess }: Imp
                 </select>
               </div>
 
+              {/* 规格选择 */}
+              {variants.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    选择规格 <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={variantId}
+                    onChange={(e) => setVariantId(Number(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={0}>请选择规格</option>
+                    {variants.map((variant) => (
+                      <option key={variant.id} value={variant.id}>
+                        {variant.name}{variant.isActive ? '' : '（已停用）'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* 批次名称 */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
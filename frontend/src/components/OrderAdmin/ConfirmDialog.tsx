@@ -4,19 +4,24 @@ import type { Order } from '../../types/orderAdmin';
 interface ConfirmDialogProps {
   type: 'resend' | 'refund';
   order: Order;
-  onConfirm: (reason?: string) => void;
+  onConfirm: (reason?: string, amount?: number) => void;
   onCancel: () => void;
 }
 
 export function ConfirmDialog({ type, order, onConfirm, onCancel }: ConfirmDialogProps) {
   const [reason, setReason] = useState('');
+  const [amount, setAmount] = useState('');
 
   const handleConfirm = () => {
     if (type === 'refund' && !reason.trim()) {
       alert('请输入退款原因');
       return;
     }
-    onConfirm(type === 'refund' ? reason : undefined);
+    if (type === 'refund' && amount && !(Number(amount) > 0 && Number(amount) <= order.amount)) {
+      alert(`退款金额需大于0且不超过 ${order.amount}`);
+      return;
+    }
+    onConfirm(type === 'refund' ? reason : undefined, amount ? Number(amount) : undefined);
   };
 
   const title = type === 'resend' ? '重发邮件' : '订单退款';
@@ -43,6 +48,18 @@ export function ConfirmDialog({ type, order, onConfirm, onCancel }: ConfirmDialo
               placeholder="请输入退款原因"
               required
             />
+            <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">
+              退款金额（{order.currency}）
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="留空退还全部剩余金额"
+            />
           </div>
         )}
 
@@ -1,4 +1,12 @@
-import type { Order } from '../../types/orderAdmin';
+import { useEffect, useState } from 'react';
+import { orderAdminApi } from '../../services/orderAdminApi';
+import type { Order, Refund } from '../../types/orderAdmin';
+
+const REFUND_STATUS_LABELS: Record<Refund['status'], string> = {
+  pending: '处理中',
+  succeeded: '已退款',
+  failed: '失败',
+};
 
 interface OrderDetailProps {
   order: Order;
@@ -6,6 +14,14 @@ interface OrderDetailProps {
 }
 
 export function OrderDetail({ order, onClose }: OrderDetailProps) {
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+
+  useEffect(() => {
+    orderAdminApi.getRefunds(order.id)
+      .then(result => setRefunds(result.refunds))
+      .catch(error => console.error('加载退款记录失败:', error));
+  }, [order.id]);
+
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
@@ -99,6 +115,35 @@ export function OrderDetail({ order, onClose }: OrderDetailProps) {
             </div>
           </dl>
         </div>
+
+        {/* 退款记录 */}
+        {refunds.length > 0 && (
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">退款记录</h3>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">退款单号</th>
+                  <th className="py-2 pr-4 font-medium">金额</th>
+                  <th className="py-2 pr-4 font-medium">状态</th>
+                  <th className="py-2 pr-4 font-medium">原因</th>
+                  <th className="py-2 font-medium">时间</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-gray-900">
+                {refunds.map(refund => (
+                  <tr key={refund.id}>
+                    <td className="py-2 pr-4 font-mono text-xs">{refund.refundNo}</td>
+                    <td className="py-2 pr-4">{refund.amount.toFixed(2)} {refund.currency}</td>
+                    <td className="py-2 pr-4" title={refund.errorMessage}>{REFUND_STATUS_LABELS[refund.status]}</td>
+                    <td className="py-2 pr-4">{refund.reason || '-'}</td>
+                    <td className="py-2">{new Date(refund.createdAt).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -33,6 +33,9 @@ export function OrderList({ orders, pagination, onPageChange, onViewDetails, onR
     const gatewayMap: Record<string, string> = {
       alipay: '支付宝',
       creem: 'Creem',
+      stripe: 'Stripe',
+      paypal: 'PayPal',
+      wechat: '微信支付',
     };
     return gatewayMap[gateway] || gateway;
   };
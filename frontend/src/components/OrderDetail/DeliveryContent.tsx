@@ -15,13 +15,16 @@ interface DeliveryContentProps {
  */
 export function DeliveryContent({ delivery, className = '' }: DeliveryContentProps) {
   const [copied, setCopied] = useState(false);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const codes = delivery.codes ?? [];
 
   // 处理文本内容复制
   const handleCopyContent = async () => {
     if (!delivery.content) return;
 
     try {
-      await navigator.clipboard.writeText(delivery.content);
+      // 多个卡密时每行一个复制
+      await navigator.clipboard.writeText(codes.length > 1 ? codes.join('\n') : delivery.content);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
@@ -29,6 +32,17 @@ export function DeliveryContent({ delivery, className = '' }: DeliveryContentPro
     }
   };
 
+  // 复制单个卡密
+  const handleCopyCode = async (code: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(null), 2000);
+    } catch (error) {
+      console.error('复制失败:', error);
+    }
+  };
+
   // 格式化文件大小
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -53,18 +67,49 @@ export function DeliveryContent({ delivery, className = '' }: DeliveryContentPro
 
           <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
             <div className="flex justify-between items-start mb-2">
-              <span className="text-sm font-medium text-gray-700">激活码/许可证</span>
+              <span className="text-sm font-medium text-gray-700">
+                激活码/许可证{codes.length > 1 && `（共 ${codes.length} 个）`}
+              </span>
               <button
                 onClick={handleCopyContent}
                 className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-md transition-colors"
               >
-                {copied ? '✓ 已复制' : '📋 一键复制'}
+                {copied ? '✓ 已复制' : codes.length > 1 ? '📋 复制全部' : '📋 一键复制'}
               </button>
             </div>
 
-            <div className="font-mono text-sm text-gray-900 break-all bg-white p-3 rounded border border-gray-300">
-              {delivery.content}
-            </div>
+            {codes.length > 1 ? (
+              <ul className="space-y-2">
+                {codes.map((code, index) => (
+                  <li
+                    key={index}
+                    className="flex items-center justify-between gap-3 bg-white p-3 rounded border border-gray-300"
+                  >
+                    <span className="font-mono text-sm text-gray-900 break-all">
+                      <span className="text-gray-400 mr-2">{index + 1}.</span>
+                      {code}
+                    </span>
+                    <button
+                      onClick={() => handleCopyCode(code, index)}
+                      className="shrink-0 px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+                    >
+                      {copiedIndex === index ? '✓ 已复制' : '复制'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="font-mono text-sm text-gray-900 break-all bg-white p-3 rounded border border-gray-300 whitespace-pre-wrap">
+                {delivery.content}
+              </div>
+            )}
+
+            {/* 订单中还有使用模板发货的商品时，一并展示完整内容 */}
+            {codes.length > 1 && delivery.content !== codes.join('\n') && (
+              <div className="mt-3 font-mono text-sm text-gray-900 break-all bg-white p-3 rounded border border-gray-300 whitespace-pre-wrap">
+                {delivery.content}
+              </div>
+            )}
           </div>
 
           {copied && (
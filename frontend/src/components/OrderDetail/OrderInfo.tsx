@@ -1,6 +1,10 @@
 import type { OrderDetail } from '../../types/order';
 import { OrderStatus } from './OrderStatus';
 import { formatCurrency } from '../../utils/currency';
+import { getInvoiceUrl } from '../../services/orderApi';
+
+// 可以下载发票的订单状态
+const INVOICE_STATUSES = ['paid', 'delivered', 'refunded'];
 
 /**
  * 订单信息组件属性
@@ -40,7 +44,18 @@ export function OrderInfo({ order, className = '' }: OrderInfoProps) {
         {/* 商品名称 */}
         <div className="flex flex-col sm:flex-row sm:items-center gap-2">
           <span className="text-sm font-medium text-gray-500 w-24">商品:</span>
-          <span className="text-sm text-gray-900">{order.productName}</span>
+          {order.items && order.items.length > 1 ? (
+            <ul className="text-sm text-gray-900 space-y-1">
+              {order.items.map(item => (
+                <li key={item.productId}>
+                  {item.productName} × {item.quantity}
+                  <span className="text-gray-500 ml-2">{formatCurrency(item.unitPrice, order.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <span className="text-sm text-gray-900">{order.productName}</span>
+          )}
         </div>
 
         {/* 订单金额 */}
@@ -51,6 +66,21 @@ export function OrderInfo({ order, className = '' }: OrderInfoProps) {
           </span>
         </div>
 
+        {/* 优惠码 */}
+        {order.coupons && order.coupons.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <span className="text-sm font-medium text-gray-500 w-24">优惠码:</span>
+            <ul className="text-sm text-gray-900 space-y-1">
+              {order.coupons.map(coupon => (
+                <li key={coupon.code}>
+                  <span className="font-mono">{coupon.code}</span>
+                  <span className="text-green-700 ml-2">-{formatCurrency(coupon.discountAmount, order.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* 邮箱地址 */}
         <div className="flex flex-col sm:flex-row sm:items-center gap-2">
           <span className="text-sm font-medium text-gray-500 w-24">邮箱:</span>
@@ -71,6 +101,28 @@ export function OrderInfo({ order, className = '' }: OrderInfoProps) {
           <OrderStatus status={order.status} />
         </div>
 
+        {/* 发票 */}
+        {INVOICE_STATUSES.includes(order.status) && (
+          <div className="flex flex-col sm:flex-row sm:items-start gap-2">
+            <span className="text-sm font-medium text-gray-500 w-24">发票:</span>
+            <ul className="text-sm space-y-1">
+              <li>
+                <a href={getInvoiceUrl(order.id)} className="text-blue-600 hover:text-blue-800">
+                  下载发票
+                </a>
+              </li>
+              {order.invoices?.filter(invoice => invoice.type === 'credit_note').map(invoice => (
+                <li key={invoice.invoiceNumber}>
+                  <a href={getInvoiceUrl(order.id, invoice.invoiceNumber)} className="text-blue-600 hover:text-blue-800">
+                    红字发票 {invoice.invoiceNumber}
+                  </a>
+                  <span className="text-gray-500 ml-2">{formatCurrency(invoice.totalAmount, order.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* 创建时间 */}
         <div className="flex flex-col sm:flex-row sm:items-center gap-2">
           <span className="text-sm font-medium text-gray-500 w-24">创建时间:</span>
@@ -5,6 +5,7 @@
 import React from 'react';
 import type { PaymentGateway } from '../../types/payment';
 import type { Currency } from '../../types/product';
+import { getAvailableGateways, type PaymentGatewayInfo } from '../../utils/payment-api';
 
 /**
  * 支付方式配置
@@ -53,29 +54,64 @@ const PAYMENT_METHOD_CONFIGS = {
     iconBg: 'bg-green-500',
     recommended: true,
     features: ['国际信用卡', 'PayPal', '加密货币']
+  },
+  stripe: {
+    id: 'stripe' as const,
+    name: 'stripe',
+    displayName: 'Stripe',
+    description: '全球信用卡支付',
+    icon: 'S',
+    iconBg: 'bg-indigo-500',
+    features: ['Visa / Mastercard', 'Apple Pay', 'Google Pay']
+  },
+  paypal: {
+    id: 'paypal' as const,
+    name: 'paypal',
+    displayName: 'PayPal',
+    description: '使用 PayPal 账户或银行卡支付',
+    icon: 'P',
+    iconBg: 'bg-sky-600',
+    features: ['PayPal 余额', '国际信用卡', '买家保障']
+  },
+  wechat: {
+    id: 'wechat' as const,
+    name: 'wechat',
+    displayName: '微信支付',
+    description: '微信扫码快捷支付',
+    icon: '微',
+    iconBg: 'bg-emerald-500',
+    features: ['扫码支付', '零钱支付', '银行卡支付']
   }
 } as const;
 
 /**
- * 根据货币获取支付方式配置
+ * 根据已启用网关和订单货币获取支付方式配置
+ * 网关列表未加载成功时退回到支付宝/Creem的默认配置
  */
-function getPaymentMethodsByCurrency(orderCurrency?: Currency): PaymentMethodConfig[] {
-  // 基础支付方式配置
-  const baseMethods: PaymentMethodConfig[] = [
-    PAYMENT_METHOD_CONFIGS.alipay,
-    PAYMENT_METHOD_CONFIGS.creem
-  ];
+function getPaymentMethodsByCurrency(
+  gateways: PaymentGatewayInfo[],
+  orderCurrency?: Currency
+): PaymentMethodConfig[] {
+  if (gateways.length === 0) {
+    const baseMethods: PaymentMethodConfig[] = [
+      PAYMENT_METHOD_CONFIGS.alipay,
+      PAYMENT_METHOD_CONFIGS.creem
+    ];
 
-  // 根据订单货币筛选
-  if (orderCurrency === 'CNY') {
-    return baseMethods.filter(m => m.id === 'alipay');
-  }
-  if (orderCurrency === 'USD') {
-    return baseMethods.filter(m => m.id === 'creem');
+    if (orderCurrency === 'CNY') {
+      return baseMethods.filter(m => m.id === 'alipay');
+    }
+    if (orderCurrency === 'USD') {
+      return baseMethods.filter(m => m.id === 'creem');
+    }
+    return baseMethods;
   }
 
-  // 如果没有指定货币，返回所有支付方式
-  return baseMethods;
+  return gateways
+    .filter(gateway => gateway.id in PAYMENT_METHOD_CONFIGS)
+    // 根据订单货币筛选，未指定货币时返回所有已启用的支付方式
+    .filter(gateway => !orderCurrency || gateway.supportedCurrencies.includes(orderCurrency))
+    .map(gateway => PAYMENT_METHOD_CONFIGS[gateway.id as PaymentGateway]);
 }
 
 /**
@@ -87,27 +123,36 @@ const PaymentMethods: React.FC<PaymentMethodsProps> = ({
   disabled = false,
   orderCurrency
 }) => {
-  // 根据订单货币获取支付方式配置
-  const paymentMethods = getPaymentMethodsByCurrency(orderCurrency);
+  // 后端已启用的支付网关
+  const [gateways, setGateways] = React.useState<PaymentGatewayInfo[]>([]);
 
-  // 使用 ref 跟踪用户是否手动选择过
-  const userSelectedRef = React.useRef(false);
-
-  // 自动选中推荐的支付方式（仅在初始化时）
   React.useEffect(() => {
-    if (orderCurrency && paymentMethods.length > 0 && !userSelectedRef.current) {
-      const recommendedMethod = paymentMethods.find(m => m.recommended);
-      if (recommendedMethod && selectedGateway !== recommendedMethod.id) {
-        console.log(`[PaymentMethods] 自动选中推荐支付方式: ${recommendedMethod.displayName}`);
-        onGatewayChange(recommendedMethod.id);
+    let cancelled = false;
+    getAvailableGateways().then(result => {
+      if (!cancelled) {
+        setGateways(result);
       }
-    }
-  }, [orderCurrency, paymentMethods.length]); // 移除selectedGateway避免循环
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  // 当用户手动选择时，标记为已选择
+  // 根据已启用网关和订单货币获取支付方式配置（缓存结果，避免每次渲染都触发下方的自动选择）
+  const paymentMethods = React.useMemo(
+    () => getPaymentMethodsByCurrency(gateways, orderCurrency),
+    [gateways, orderCurrency]
+  );
+
+  // 当前选中的支付方式不可用时，自动选中推荐（或第一个）支付方式
+  // onGatewayChange 需要保持引用稳定（如 useState 的 setter 或 useCallback 包裹的函数）
   React.useEffect(() => {
-    userSelectedRef.current = true;
-  }, [selectedGateway]);
+    if (paymentMethods.length > 0 && !paymentMethods.some(m => m.id === selectedGateway)) {
+      const recommendedMethod = paymentMethods.find(m => m.recommended) || paymentMethods[0];
+      console.log(`[PaymentMethods] 自动选中推荐支付方式: ${recommendedMethod.displayName}`);
+      onGatewayChange(recommendedMethod.id);
+    }
+  }, [paymentMethods, selectedGateway, onGatewayChange]);
 
   /**
    * 处理支付方式选择
@@ -220,8 +265,7 @@ const PaymentMethods: React.FC<PaymentMethodsProps> = ({
               <p className="font-medium mb-1">支付方式已根据货币自动筛选</p>
               <p className="text-xs">
                 当前订单货币为 {orderCurrency}，仅显示对应的支付方式。
-                {orderCurrency === 'CNY' && ' 您可以选择支付宝进行支付。'}
-                {orderCurrency === 'USD' && ' 您可以选择 Creem 进行国际支付。'}
+                {` 您可以选择${paymentMethods[0].displayName}进行支付。`}
               </p>
             </div>
           </div>
@@ -11,6 +11,7 @@ import PaymentSummary from './PaymentSummary';
 import PaymentMethods from './PaymentMethods';
 import PaymentRedirect from './PaymentRedirect';
 import PaymentStatus from './PaymentStatus';
+import PaymentQrCode from './PaymentQrCode';
 
 /**
  * 支付页面组件属性
@@ -33,6 +34,7 @@ const PaymentPage: React.FC<PaymentPageProps> = () => {
   // 支付相关状态
   const [selectedGateway, setSelectedGateway] = useState<PaymentGateway>('alipay');
   const [paymentStarted, setPaymentStarted] = useState(false);
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
 
   // 支付状态轮询
   const {
@@ -105,6 +107,7 @@ const PaymentPage: React.FC<PaymentPageProps> = () => {
   const handlePaymentError = (error: string) => {
     console.error('Payment error:', error);
     setPaymentStarted(false);
+    setQrCodeUrl(null);
   };
 
   /**
@@ -112,6 +115,7 @@ const PaymentPage: React.FC<PaymentPageProps> = () => {
    */
   const handleRetryPayment = () => {
     setPaymentStarted(false);
+    setQrCodeUrl(null);
     resetStatusPolling();
   };
 
@@ -226,12 +230,24 @@ const PaymentPage: React.FC<PaymentPageProps> = () => {
             currency={orderInfo.currency}
             onPaymentStart={handlePaymentStart}
             onPaymentError={handlePaymentError}
+            onQrCode={setQrCodeUrl}
             disabled={!canPay}
           />
         )}
 
+        {/* 扫码支付二维码 */}
+        {paymentStarted && qrCodeUrl && paymentStatus !== 'paid' && (
+          <div className="mb-4 sm:mb-6">
+            <PaymentQrCode
+              codeUrl={qrCodeUrl}
+              amount={orderInfo.price}
+              currency={orderInfo.currency}
+            />
+          </div>
+        )}
+
         {/* 支付进行中的提示 */}
-        {paymentStarted && !paymentStatus && (
+        {paymentStarted && !paymentStatus && !qrCodeUrl && (
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 sm:p-6 text-center">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
             <h3 className="text-lg font-semibold text-blue-900 mb-2">正在处理支付</h3>
@@ -0,0 +1,43 @@
+/**
+ * 扫码支付二维码组件
+ */
+
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { formatCurrency } from '../../utils/payment-api';
+
+/**
+ * 组件属性
+ */
+interface PaymentQrCodeProps {
+  codeUrl: string;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * 微信支付二维码组件
+ */
+const PaymentQrCode: React.FC<PaymentQrCodeProps> = ({
+  codeUrl,
+  amount,
+  currency
+}) => {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 text-center">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">微信扫码支付</h3>
+      <p className="text-2xl font-bold text-gray-900 mb-4">{formatCurrency(amount, currency)}</p>
+
+      <div className="inline-block p-3 border border-gray-200 rounded-lg">
+        <QRCodeSVG value={codeUrl} size={200} />
+      </div>
+
+      <div className="mt-4 text-sm text-gray-600 space-y-1">
+        <p>请使用微信扫一扫完成支付</p>
+        <p className="text-xs text-gray-500">支付完成后本页面将自动更新，请勿关闭此窗口</p>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentQrCode;
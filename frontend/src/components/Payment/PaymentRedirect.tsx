@@ -5,7 +5,7 @@
 import React, { useCallback } from 'react';
 import type { PaymentGateway } from '../../types/payment';
 import { usePaymentGateway } from '../../hooks/usePaymentGateway';
-import { formatCurrency } from '../../utils/payment-api';
+import { formatCurrency, isQrCodePaymentUrl } from '../../utils/payment-api';
 
 /**
  * 组件属性
@@ -17,6 +17,7 @@ interface PaymentRedirectProps {
   currency: string;
   onPaymentStart?: () => void;
   onPaymentError?: (error: string) => void;
+  onQrCode?: (codeUrl: string) => void;
   disabled?: boolean;
   className?: string;
 }
@@ -31,6 +32,7 @@ const PaymentRedirect: React.FC<PaymentRedirectProps> = ({
   currency,
   onPaymentStart,
   onPaymentError,
+  onQrCode,
   disabled = false,
   className = ''
 }) => {
@@ -42,7 +44,10 @@ const PaymentRedirect: React.FC<PaymentRedirectProps> = ({
   const getGatewayDisplayName = (gateway: PaymentGateway): string => {
     const gatewayNames: Record<PaymentGateway, string> = {
       alipay: '支付宝',
-      creem: 'Creem'
+      creem: 'Creem',
+      stripe: 'Stripe',
+      paypal: 'PayPal',
+      wechat: '微信支付'
     };
     return gatewayNames[gateway] || gateway;
   };
@@ -77,13 +82,17 @@ const PaymentRedirect: React.FC<PaymentRedirectProps> = ({
         return;
       }
 
+      if (response.data?.paymentUrl && isQrCodePaymentUrl(response.data.paymentUrl)) {
+        onQrCode?.(response.data.paymentUrl);
+      }
+
       console.log('Payment redirect successful:', response);
     } catch (err) {
       console.error('Payment redirect failed:', err);
       const errorMessage = err instanceof Error ? err.message : '支付跳转失败';
       onPaymentError?.(errorMessage);
     }
-  }, [disabled, isLoading, orderId, gateway, initPayment, clearError, onPaymentStart, onPaymentError]);
+  }, [disabled, isLoading, orderId, gateway, initPayment, clearError, onPaymentStart, onPaymentError, onQrCode]);
 
   /**
    * 渲染支付引导信息
@@ -158,7 +167,11 @@ const PaymentRedirect: React.FC<PaymentRedirectProps> = ({
 
       {/* 支付提示 */}
       <div className="text-center text-sm text-gray-500 space-y-1">
-        <p>点击支付按钮后将跳转到{getGatewayDisplayName(gateway)}支付页面</p>
+        <p>
+          {gateway === 'wechat'
+            ? '点击支付按钮后将显示微信支付二维码'
+            : `点击支付按钮后将跳转到${getGatewayDisplayName(gateway)}支付页面`}
+        </p>
         <p>支付完成后请返回本页面查看订单状态</p>
       </div>
 
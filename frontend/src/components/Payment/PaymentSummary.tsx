@@ -118,6 +118,22 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
           </div>
         </div>
 
+        {/* 税费明细（旧订单没有计税信息时不显示） */}
+        {orderInfo.netAmount != null && orderInfo.taxAmount != null && (
+          <div className="border-t pt-4 space-y-2">
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-gray-600">税前金额：</span>
+              <span className="text-gray-900">{formatCurrency(orderInfo.netAmount, orderInfo.currency)}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-gray-600">
+                税额{orderInfo.taxCountry ? `（${orderInfo.taxCountry}）` : ''}：
+              </span>
+              <span className="text-gray-900">{formatCurrency(orderInfo.taxAmount, orderInfo.currency)}</span>
+            </div>
+          </div>
+        )}
+
         {/* 分隔线 */}
         <div className="border-t pt-4">
           <div className="flex justify-between items-center">
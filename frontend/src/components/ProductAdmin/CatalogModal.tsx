@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react'
+import {
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  getTags,
+  createTag,
+  deleteTag,
+  flattenCategories,
+  type CategoryAdmin,
+  type TagAdmin,
+} from '../../services/productAdminApi'
+
+interface CatalogModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (message: string) => void
+}
+
+export default function CatalogModal({ isOpen, onClose, onSaved }: CatalogModalProps) {
+  const [categories, setCategories] = useState<CategoryAdmin[]>([])
+  const [tags, setTags] = useState<TagAdmin[]>([])
+  const [editing, setEditing] = useState<CategoryAdmin | null>(null)
+  const [name, setName] = useState('')
+  const [parentId, setParentId] = useState('')
+  const [sortOrder, setSortOrder] = useState('0')
+  const [isActive, setIsActive] = useState(true)
+  const [newTag, setNewTag] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen) {
+      resetForm()
+      loadCatalog()
+    }
+  }, [isOpen])
+
+  const loadCatalog = async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const [categoryTree, tagList] = await Promise.all([getCategories(), getTags()])
+      setCategories(categoryTree)
+      setTags(tagList)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取分类和标签失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetForm = () => {
+    setEditing(null)
+    setName('')
+    setParentId('')
+    setSortOrder('0')
+    setIsActive(true)
+  }
+
+  if (!isOpen) return null
+
+  const flatCategories = flattenCategories(categories)
+
+  const handleEdit = (category: CategoryAdmin) => {
+    setEditing(category)
+    setName(category.name)
+    setParentId(category.parentId ? String(category.parentId) : '')
+    setSortOrder(String(category.sortOrder))
+    setIsActive(category.isActive)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError('')
+
+    const input = {
+      name: name.trim(),
+      parentId: parentId ? Number(parentId) : null,
+      sortOrder: Number(sortOrder) || 0,
+      isActive,
+    }
+
+    try {
+      if (editing) {
+        await updateCategory(editing.id, input)
+      } else {
+        await createCategory(input)
+      }
+      onSaved?.(editing ? '分类已更新' : '分类已创建')
+      resetForm()
+      await loadCatalog()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存分类失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (category: CategoryAdmin) => {
+    if (!confirm(`确定要删除分类「${category.name}」吗？分类下的商品将变为未分类。`)) {
+      return
+    }
+
+    setError('')
+    try {
+      await deleteCategory(category.id)
+      if (editing?.id === category.id) {
+        resetForm()
+      }
+      await loadCatalog()
+      onSaved?.('分类已删除')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '删除分类失败')
+    }
+  }
+
+  const handleAddTag = async () => {
+    setError('')
+    try {
+      await createTag(newTag.trim())
+      setNewTag('')
+      await loadCatalog()
+      onSaved?.('标签已创建')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '创建标签失败')
+    }
+  }
+
+  const handleDeleteTag = async (tag: TagAdmin) => {
+    if (!confirm(`确定要删除标签「${tag.name}」吗？${tag.productCount > 0 ? `将从 ${tag.productCount} 个商品上移除。` : ''}`)) {
+      return
+    }
+
+    setError('')
+    try {
+      await deleteTag(tag.id)
+      await loadCatalog()
+      onSaved?.('标签已删除')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '删除标签失败')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-4">分类与标签</h3>
+
+        {loading ? (
+          <div className="py-12 text-center text-gray-500">加载中...</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="md:col-span-2">
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">商品分类</h4>
+              <div className="mb-4 p-4 bg-gray-50 rounded-md">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">分类名称</label>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="如：办公软件"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">上级分类</label>
+                    <select
+                      value={parentId}
+                      onChange={(e) => setParentId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">无（顶级分类）</option>
+                      {flatCategories
+                        .filter(({ category }) => category.id !== editing?.id)
+                        .map(({ category, depth }) => (
+                          <option key={category.id} value={category.id}>
+                            {`${'　'.repeat(depth)}${category.name}`}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">排序</label>
+                    <input
+                      type="number"
+                      value={sortOrder}
+                      onChange={(e) => setSortOrder(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                  <label className="flex items-center space-x-2 mt-6 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={isActive}
+                      onChange={(e) => setIsActive(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    <span>在商店展示</span>
+                  </label>
+                </div>
+                <div className="mt-3 flex justify-end space-x-2">
+                  {editing && (
+                    <button
+                      onClick={resetForm}
+                      className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                    >
+                      取消编辑
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || !name.trim()}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    {saving ? '保存中...' : editing ? '保存' : '添加分类'}
+                  </button>
+                </div>
+              </div>
+
+              {flatCategories.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-400">暂无分类</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {flatCategories.map(({ category, depth }) => (
+                    <li key={category.id} className="py-2 flex items-center justify-between">
+                      <span style={{ paddingLeft: `${depth * 1.25}rem` }} className={category.isActive ? 'text-gray-900' : 'text-gray-400'}>
+                        {depth > 0 && '└ '}
+                        {category.name}
+                        <span className="ml-2 text-xs text-gray-500">{category.productCount} 个商品</span>
+                        {!category.isActive && <span className="ml-2 text-xs">（已隐藏）</span>}
+                      </span>
+                      <span className="space-x-3 whitespace-nowrap">
+                        <button onClick={() => handleEdit(category)} className="text-blue-600 hover:text-blue-800">
+                          编辑
+                        </button>
+                        <button onClick={() => handleDelete(category)} className="text-red-600 hover:text-red-800">
+                          删除
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">商品标签</h4>
+              <div className="flex space-x-2 mb-4">
+                <input
+                  type="text"
+                  value={newTag}
+                  onChange={(e) => setNewTag(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && newTag.trim() && handleAddTag()}
+                  placeholder="新标签"
+                  maxLength={50}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <button
+                  onClick={handleAddTag}
+                  disabled={!newTag.trim()}
+                  className="px-3 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 text-sm"
+                >
+                  添加
+                </button>
+              </div>
+              {tags.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-400">暂无标签，编辑商品时输入的新标签会自动创建</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {tags.map((tag) => (
+                    <span key={tag.id} className="inline-flex items-center px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700">
+                      #{tag.name}
+                      <span className="ml-1 text-gray-400">{tag.productCount}</span>
+                      <button
+                        onClick={() => handleDeleteTag(tag)}
+                        className="ml-1 text-gray-400 hover:text-red-600"
+                        aria-label={`删除标签 ${tag.name}`}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
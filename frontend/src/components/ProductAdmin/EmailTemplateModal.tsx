@@ -0,0 +1,283 @@
+import { useState, useEffect } from 'react'
+import {
+  getProductEmailTemplate,
+  saveProductEmailTemplate,
+  deleteProductEmailTemplate,
+  previewEmailTemplate,
+  type EmailTemplateType,
+  type EmailTemplatePreview,
+} from '../../services/productAdminApi'
+
+interface EmailTemplateModalProps {
+  product: { id: number; name: string } | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (message: string) => void
+}
+
+const EMAIL_TYPE_LABELS: Record<EmailTemplateType, string> = {
+  delivery: '发货邮件',
+  failure: '支付失败通知',
+  refund: '退款通知',
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  product: '商品自定义模板',
+  default: '默认模板',
+  builtin: '系统内置模板',
+  draft: '未保存的草稿',
+}
+
+export default function EmailTemplateModal({ product, isOpen, onClose, onSaved }: EmailTemplateModalProps) {
+  const [emailType, setEmailType] = useState<EmailTemplateType>('delivery')
+  const [subject, setSubject] = useState('')
+  const [htmlBody, setHtmlBody] = useState('')
+  const [variables, setVariables] = useState<string[]>([])
+  const [source, setSource] = useState('')
+  const [hasOverride, setHasOverride] = useState(false)
+  const [currency, setCurrency] = useState<'CNY' | 'USD'>('CNY')
+  const [orderId, setOrderId] = useState('')
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen && product) {
+      loadTemplate(product.id, emailType)
+    }
+  }, [isOpen, product, emailType])
+
+  const loadTemplate = async (productId: number, type: EmailTemplateType) => {
+    setLoading(true)
+    setError('')
+    setPreview(null)
+
+    try {
+      const data = await getProductEmailTemplate(productId, type)
+      setSubject(data.effective.subject)
+      setHtmlBody(data.effective.htmlBody)
+      setSource(data.effective.source)
+      setHasOverride(!!data.override)
+      setVariables(data.variables)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取邮件模板失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen || !product) return null
+
+  const handlePreview = async () => {
+    setError('')
+
+    try {
+      const result = await previewEmailTemplate({
+        emailType,
+        productId: product.id,
+        orderId: orderId.trim() || undefined,
+        currency,
+        subject,
+        htmlBody,
+      })
+      setPreview(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '预览失败')
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError('')
+
+    try {
+      await saveProductEmailTemplate(product.id, { emailType, subject, htmlBody, isActive: true })
+      setHasOverride(true)
+      setSource('product')
+      onSaved?.('邮件模板已保存')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存邮件模板失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    setSaving(true)
+    setError('')
+
+    try {
+      await deleteProductEmailTemplate(product.id, emailType)
+      await loadTemplate(product.id, emailType)
+      onSaved?.('已恢复为默认模板')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '恢复默认模板失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const insertVariable = (name: string) => {
+    setHtmlBody((body) => `${body}{{${name}}}`)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">邮件模板 - {product.name}</h3>
+          <select
+            value={emailType}
+            onChange={(e) => setEmailType(e.target.value as EmailTemplateType)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {(Object.keys(EMAIL_TYPE_LABELS) as EmailTemplateType[]).map((type) => (
+              <option key={type} value={type}>{EMAIL_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="py-12 text-center text-gray-500">加载中...</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="text-xs text-gray-500">
+                当前生效：{SOURCE_LABELS[source] || source}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  邮件主题
+                </label>
+                <input
+                  type="text"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  HTML 正文
+                </label>
+                <textarea
+                  value={htmlBody}
+                  onChange={(e) => setHtmlBody(e.target.value)}
+                  rows={14}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {variables.map((name) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => insertVariable(name)}
+                      className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                    >
+                      {`{{${name}}}`}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  使用 {'{{#downloadUrl}}...{{/downloadUrl}}'} 包裹的内容仅在变量有值时显示
+                </p>
+              </div>
+
+              <div className="flex items-end gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    预览币种
+                  </label>
+                  <select
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value as 'CNY' | 'USD')}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="CNY">CNY</option>
+                    <option value="USD">USD</option>
+                  </select>
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    使用真实订单预览（可选）
+                  </label>
+                  <input
+                    type="text"
+                    value={orderId}
+                    onChange={(e) => setOrderId(e.target.value)}
+                    placeholder="订单号，留空使用示例数据"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <button
+                  onClick={handlePreview}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                >
+                  预览
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                预览
+              </label>
+              {preview ? (
+                <div className="border border-gray-200 rounded-md">
+                  <div className="px-3 py-2 border-b border-gray-200 text-sm">
+                    <span className="text-gray-500">主题：</span>{preview.subject}
+                  </div>
+                  <iframe
+                    title="email-preview"
+                    sandbox=""
+                    srcDoc={preview.html}
+                    className="w-full h-96"
+                  />
+                </div>
+              ) : (
+                <div className="border border-dashed border-gray-300 rounded-md h-96 flex items-center justify-center text-sm text-gray-400">
+                  点击"预览"查看渲染效果
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={handleReset}
+            disabled={saving || !hasOverride}
+            className="px-4 py-2 text-red-600 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+          >
+            恢复默认模板
+          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              关闭
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || loading || !subject.trim() || !htmlBody.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+            >
+              {saving ? '保存中...' : '保存为商品模板'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
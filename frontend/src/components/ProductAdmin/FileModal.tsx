@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react'
+import {
+  getProductFiles,
+  uploadProductFile,
+  setCurrentProductFile,
+  setProductFilePolicy,
+  setProductFileStamping,
+  deleteProductFile,
+  type FileVersionPolicy,
+  type ProductFileVersion,
+} from '../../services/productAdminApi'
+
+interface FileModalProps {
+  product: { id: number; name: string } | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (message: string) => void
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${bytes} B`
+}
+
+export default function FileModal({ product, isOpen, onClose, onSaved }: FileModalProps) {
+  const [versions, setVersions] = useState<ProductFileVersion[]>([])
+  const [policy, setPolicy] = useState<FileVersionPolicy>('purchased')
+  const [stamping, setStamping] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [version, setVersion] = useState('')
+  const [changelog, setChangelog] = useState('')
+  const [progress, setProgress] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen && product) {
+      setFile(null)
+      setVersion('')
+      setChangelog('')
+      loadFiles(product.id)
+    }
+  }, [isOpen, product])
+
+  const loadFiles = async (productId: number) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const files = await getProductFiles(productId)
+      setVersions(files.versions)
+      setPolicy(files.versionPolicy)
+      setStamping(files.stampingEnabled)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取商品文件失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen || !product) return null
+
+  const uploading = progress !== null
+
+  const handleUpload = async () => {
+    if (!file || !version.trim()) return
+
+    setProgress(0)
+    setError('')
+
+    try {
+      await uploadProductFile(product.id, file, { version: version.trim(), changelog: changelog.trim() }, (uploaded, total) => {
+        setProgress(Math.round((uploaded / total) * 100))
+      })
+      setFile(null)
+      setVersion('')
+      setChangelog('')
+      onSaved?.(`已上传版本 ${version.trim()}`)
+      await loadFiles(product.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '上传商品文件失败')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleSetCurrent = async (item: ProductFileVersion) => {
+    setError('')
+    try {
+      const files = await setCurrentProductFile(product.id, item.id)
+      setVersions(files.versions)
+      onSaved?.(`新订单将发货版本 ${item.version}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '设置发货版本失败')
+    }
+  }
+
+  const handlePolicyChange = async (value: FileVersionPolicy) => {
+    setError('')
+    try {
+      const files = await setProductFilePolicy(product.id, value)
+      setPolicy(files.versionPolicy)
+      onSaved?.('版本策略已更新')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '设置版本策略失败')
+    }
+  }
+
+  const handleStampingChange = async (enabled: boolean) => {
+    setError('')
+    try {
+      const files = await setProductFileStamping(product.id, enabled)
+      setStamping(files.stampingEnabled)
+      onSaved?.(enabled ? '已开启文件授权标记' : '已关闭文件授权标记')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '设置文件授权标记失败')
+    }
+  }
+
+  const handleDelete = async (item: ProductFileVersion) => {
+    if (!confirm(`确定要删除版本 ${item.version} 吗？`)) {
+      return
+    }
+
+    setError('')
+    try {
+      await deleteProductFile(product.id, item.id)
+      await loadFiles(product.id)
+      onSaved?.('文件版本已删除')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '删除文件版本失败')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-1">下载文件</h3>
+        <p className="text-sm text-gray-500 mb-4">{product.name}</p>
+
+        <div className="mb-4 p-4 bg-gray-50 rounded-md">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">文件</label>
+              <input
+                type="file"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                disabled={uploading}
+                className="w-full text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">版本号</label>
+              <input
+                type="text"
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                placeholder="如：1.2.0"
+                maxLength={50}
+                disabled={uploading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">更新说明</label>
+              <input
+                type="text"
+                value={changelog}
+                onChange={(e) => setChangelog(e.target.value)}
+                placeholder="可选"
+                disabled={uploading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+          <div className="mt-3 flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              {uploading ? `上传中 ${progress}%` : '大文件自动分片上传，上传完成后校验 SHA-256'}
+            </p>
+            <button
+              onClick={handleUpload}
+              disabled={uploading || !file || !version.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 text-sm"
+            >
+              {uploading ? '上传中...' : '上传新版本'}
+            </button>
+          </div>
+          {uploading && (
+            <div className="mt-2 h-2 bg-gray-200 rounded">
+              <div className="h-2 bg-blue-500 rounded" style={{ width: `${progress}%` }} />
+            </div>
+          )}
+        </div>
+
+        <div className="mb-4 flex items-center space-x-3 text-sm">
+          <label className="font-medium text-gray-700">已购买的客户</label>
+          <select
+            value={policy}
+            onChange={(e) => handlePolicyChange(e.target.value as FileVersionPolicy)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="purchased">保持购买时的版本</option>
+            <option value="latest">始终下载发货版本</option>
+          </select>
+        </div>
+
+        <div className="mb-4 text-sm">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={stamping}
+              onChange={(e) => handleStampingChange(e.target.checked)}
+              className="w-4 h-4 text-blue-600"
+            />
+            <span className="font-medium text-gray-700">为每个买家生成带授权标记的副本</span>
+          </label>
+          <p className="mt-1 ml-6 text-xs text-gray-500">
+            ZIP 文件内追加授权说明，PDF 文件写入文档属性，记录订单号、邮箱和授权编号，泄露后可追踪到订单
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="py-12 text-center text-gray-500">加载中...</div>
+        ) : versions.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-400">暂无文件，上传后第一个版本将作为发货版本</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">发货</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">版本</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">文件</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">已发货</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">操作</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {versions.map((item) => (
+                <tr key={item.id}>
+                  <td className="px-3 py-2">
+                    <input
+                      type="radio"
+                      name="current-file-version"
+                      checked={item.isCurrent}
+                      onChange={() => handleSetCurrent(item)}
+                      className="w-4 h-4 text-blue-600"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{item.version}</div>
+                    {item.changelog && <div className="text-xs text-gray-500">{item.changelog}</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="text-gray-900">{item.fileName}</div>
+                    <div className="text-xs text-gray-400" title={item.checksum || undefined}>
+                      {formatFileSize(item.fileSize)}
+                      {item.checksum && ` · SHA-256 ${item.checksum.slice(0, 12)}…`}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">{item.deliveryCount}</td>
+                  <td className="px-3 py-2 text-right">
+                    {!item.isCurrent && item.deliveryCount === 0 && (
+                      <button onClick={() => handleDelete(item)} className="text-red-600 hover:text-red-800">
+                        删除
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            disabled={uploading}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
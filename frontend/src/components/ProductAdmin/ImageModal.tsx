@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react'
+import {
+  getProductImages,
+  uploadProductImage,
+  updateProductImage,
+  reorderProductImages,
+  deleteProductImage,
+  type ProductImageAdmin,
+} from '../../services/productAdminApi'
+import { getProductImageUrl } from '../../services/productApi'
+
+interface ImageModalProps {
+  product: { id: number; name: string } | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (message: string) => void
+}
+
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp,image/gif'
+
+export default function ImageModal({ product, isOpen, onClose, onSaved }: ImageModalProps) {
+  const [images, setImages] = useState<ProductImageAdmin[]>([])
+  const [altTexts, setAltTexts] = useState<Record<number, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen && product) {
+      loadImages(product.id)
+    }
+  }, [isOpen, product])
+
+  const loadImages = async (productId: number) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const list = await getProductImages(productId)
+      setImages(list)
+      setAltTexts(Object.fromEntries(list.map((image) => [image.id, image.altText || ''])))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取商品图片失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen || !product) return null
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+
+    setUploading(true)
+    setError('')
+
+    let uploaded = 0
+    try {
+      for (const file of Array.from(files)) {
+        await uploadProductImage(product.id, file)
+        uploaded++
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '上传商品图片失败')
+    } finally {
+      setUploading(false)
+      if (uploaded > 0) {
+        onSaved?.(`已上传 ${uploaded} 张图片`)
+      }
+      await loadImages(product.id)
+    }
+  }
+
+  const handleMove = async (index: number, target: number) => {
+    if (target < 0 || target >= images.length) return
+
+    const ids = images.map((image) => image.id)
+    const [moved] = ids.splice(index, 1)
+    ids.splice(target, 0, moved)
+
+    setError('')
+    try {
+      const list = await reorderProductImages(product.id, ids)
+      setImages(list)
+      setAltTexts(Object.fromEntries(list.map((image) => [image.id, image.altText || ''])))
+      onSaved?.(target === 0 ? '封面已更新' : '图片顺序已更新')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '调整图片顺序失败')
+    }
+  }
+
+  const handleSaveAltText = async (image: ProductImageAdmin) => {
+    const altText = (altTexts[image.id] || '').trim()
+    if (altText === (image.altText || '')) return
+
+    setError('')
+    try {
+      await updateProductImage(product.id, image.id, altText || null)
+      setImages(images.map((item) => (item.id === image.id ? { ...item, altText: altText || null } : item)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '更新图片说明失败')
+    }
+  }
+
+  const handleDelete = async (image: ProductImageAdmin) => {
+    if (!confirm('确定要删除这张图片吗？')) {
+      return
+    }
+
+    setError('')
+    try {
+      await deleteProductImage(product.id, image.id)
+      await loadImages(product.id)
+      onSaved?.('图片已删除')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '删除商品图片失败')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-1">商品图片</h3>
+        <p className="text-sm text-gray-500 mb-4">{product.name}</p>
+
+        <div className="mb-4 p-4 bg-gray-50 rounded-md flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            支持 JPEG、PNG、WebP 和 GIF，第一张图片为商品封面，上传后自动生成缩略图
+          </p>
+          <label className={`px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 text-sm cursor-pointer whitespace-nowrap ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+            {uploading ? '上传中...' : '上传图片'}
+            <input
+              type="file"
+              accept={ACCEPTED_TYPES}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleUpload(e.target.files)
+                e.target.value = ''
+              }}
+            />
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="py-12 text-center text-gray-500">加载中...</div>
+        ) : images.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-400">暂无图片</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {images.map((image, index) => (
+              <div key={image.id} className="border border-gray-200 rounded-md overflow-hidden">
+                <div className="relative h-36 bg-gray-100">
+                  <img
+                    src={getProductImageUrl(image.thumbnailUrl)}
+                    alt={image.altText || product.name}
+                    className="w-full h-full object-cover"
+                  />
+                  {index === 0 && (
+                    <span className="absolute top-2 left-2 px-2 py-0.5 text-xs rounded bg-blue-600 text-white">
+                      封面
+                    </span>
+                  )}
+                </div>
+                <div className="p-2 space-y-2">
+                  <input
+                    type="text"
+                    value={altTexts[image.id] ?? ''}
+                    onChange={(e) => setAltTexts({ ...altTexts, [image.id]: e.target.value })}
+                    onBlur={() => handleSaveAltText(image)}
+                    placeholder="图片说明"
+                    maxLength={255}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+                  />
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-gray-400">{image.width}×{image.height}</span>
+                    <span className="space-x-2">
+                      {index > 0 && (
+                        <>
+                          <button onClick={() => handleMove(index, 0)} className="text-blue-600 hover:text-blue-800">
+                            设为封面
+                          </button>
+                          <button onClick={() => handleMove(index, index - 1)} className="text-gray-600 hover:text-gray-900" aria-label="前移">
+                            ←
+                          </button>
+                        </>
+                      )}
+                      {index < images.length - 1 && (
+                        <button onClick={() => handleMove(index, index + 1)} className="text-gray-600 hover:text-gray-900" aria-label="后移">
+                          →
+                        </button>
+                      )}
+                      <button onClick={() => handleDelete(image)} className="text-red-600 hover:text-red-800">
+                        删除
+                      </button>
+                    </span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react'
+import {
+  getKeySource,
+  saveKeySource,
+  getLicensePublicKey,
+  type KeySource,
+  type KeyGenerator,
+} from '../../services/productAdminApi'
+
+interface KeySourceModalProps {
+  product: { id: number; name: string } | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (message: string) => void
+}
+
+export default function KeySourceModal({ product, isOpen, onClose, onSaved }: KeySourceModalProps) {
+  const [keySource, setKeySource] = useState<KeySource>('pool')
+  const [keyGenerator, setKeyGenerator] = useState<KeyGenerator>('uuid')
+  const [keyPattern, setKeyPattern] = useState('XXXX-XXXX-XXXX')
+  const [validDays, setValidDays] = useState('')
+  const [publicKey, setPublicKey] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen && product) {
+      setPublicKey('')
+      loadSettings(product.id)
+    }
+  }, [isOpen, product])
+
+  const loadSettings = async (productId: number) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const settings = await getKeySource(productId)
+      setKeySource(settings.keySource)
+      setKeyGenerator(settings.keyGenerator || 'uuid')
+      setKeyPattern(settings.keyPattern || 'XXXX-XXXX-XXXX')
+      setValidDays(settings.licenseValidDays ? String(settings.licenseValidDays) : '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取卡密来源失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen || !product) return null
+
+  const usesGenerator = keySource !== 'pool'
+
+  const handleShowPublicKey = async () => {
+    setError('')
+    try {
+      setPublicKey(await getLicensePublicKey())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取签名公钥失败')
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError('')
+
+    try {
+      await saveKeySource(product.id, {
+        keySource,
+        keyGenerator: usesGenerator ? keyGenerator : null,
+        keyPattern: usesGenerator && keyGenerator === 'pattern' ? keyPattern.trim() : null,
+        licenseValidDays: usesGenerator && keyGenerator === 'signed_license' && validDays ? parseInt(validDays) : null,
+      })
+      onSaved?.('卡密来源已更新')
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '更新卡密来源失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-1">卡密来源</h3>
+        <p className="text-sm text-gray-500 mb-4">{product.name}</p>
+
+        {loading ? (
+          <div className="py-12 text-center text-gray-500">加载中...</div>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">来源</label>
+              <select
+                value={keySource}
+                onChange={(e) => setKeySource(e.target.value as KeySource)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="pool">预置库存（库存不足时发货失败并重试）</option>
+                <option value="generator">自动生成</option>
+                <option value="pool_then_generator">优先使用库存，不足时自动生成</option>
+              </select>
+            </div>
+
+            {usesGenerator && (
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">生成算法</label>
+                <select
+                  value={keyGenerator}
+                  onChange={(e) => setKeyGenerator(e.target.value as KeyGenerator)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="uuid">UUID</option>
+                  <option value="pattern">按格式生成</option>
+                  <option value="signed_license">签名离线授权文件（Ed25519）</option>
+                </select>
+              </div>
+            )}
+
+            {usesGenerator && keyGenerator === 'pattern' && (
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">卡密格式</label>
+                <input
+                  type="text"
+                  value={keyPattern}
+                  onChange={(e) => setKeyPattern(e.target.value)}
+                  maxLength={100}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono"
+                />
+                <p className="mt-1 text-xs text-gray-500">X 为字母或数字，# 为数字，A 为字母，其他字符原样保留，至少 8 个占位符</p>
+              </div>
+            )}
+
+            {usesGenerator && keyGenerator === 'signed_license' && (
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">有效天数</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={validDays}
+                  onChange={(e) => setValidDays(e.target.value)}
+                  placeholder="留空表示永久有效"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <p className="mt-1 text-xs text-gray-500">授权文件包含买家邮箱、商品和到期时间，客户端使用签名公钥离线校验</p>
+                {publicKey ? (
+                  <textarea
+                    value={publicKey}
+                    readOnly
+                    rows={4}
+                    className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs bg-gray-50"
+                  />
+                ) : (
+                  <button onClick={handleShowPublicKey} className="mt-2 text-blue-600 hover:text-blue-800 text-xs">
+                    显示签名公钥
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+          >
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react'
+import {
+  getPriceSchedule,
+  createPriceSchedule,
+  cancelPriceSchedule,
+  type RegularPrice,
+  type PriceSchedule,
+  type PriceScheduleStatus,
+} from '../../services/productAdminApi'
+
+interface PriceScheduleModalProps {
+  product: { id: number; name: string } | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (message: string) => void
+}
+
+const STATUS_LABELS: Record<PriceScheduleStatus, { label: string; className: string }> = {
+  scheduled: { label: '待生效', className: 'bg-blue-100 text-blue-800' },
+  active: { label: '促销中', className: 'bg-red-100 text-red-800' },
+  ended: { label: '已结束', className: 'bg-gray-100 text-gray-600' },
+  applied: { label: '已改价', className: 'bg-green-100 text-green-800' },
+}
+
+const CURRENCIES = ['CNY', 'USD', 'EUR', 'JPY']
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString('zh-CN') : '-')
+
+export default function PriceScheduleModal({ product, isOpen, onClose, onSaved }: PriceScheduleModalProps) {
+  const [prices, setPrices] = useState<RegularPrice[]>([])
+  const [schedule, setSchedule] = useState<PriceSchedule[]>([])
+  const [currency, setCurrency] = useState('CNY')
+  const [price, setPrice] = useState('')
+  const [compareAtPrice, setCompareAtPrice] = useState('')
+  const [startsAt, setStartsAt] = useState('')
+  const [endsAt, setEndsAt] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen && product) {
+      loadSchedule(product.id)
+    }
+  }, [isOpen, product])
+
+  const loadSchedule = async (productId: number) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const data = await getPriceSchedule(productId)
+      setPrices(data.prices)
+      setSchedule(data.schedule)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取价格变更记录失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen || !product) return null
+
+  const handleCreate = async () => {
+    setSaving(true)
+    setError('')
+
+    try {
+      // datetime-local 为本地时间，提交时转换为 ISO 时间
+      await createPriceSchedule(product.id, {
+        currency,
+        price: Number(price),
+        compareAtPrice: compareAtPrice ? Number(compareAtPrice) : null,
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: endsAt ? new Date(endsAt).toISOString() : null,
+      })
+      setPrice('')
+      setCompareAtPrice('')
+      setStartsAt('')
+      setEndsAt('')
+      await loadSchedule(product.id)
+      onSaved?.(endsAt ? '促销已创建' : '定时改价已创建')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '创建计划价格失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async (item: PriceSchedule) => {
+    const message = item.status === 'active' ? '确定要立即结束该促销吗？' : '确定要取消该价格变更吗？'
+    if (!confirm(message)) {
+      return
+    }
+
+    setError('')
+    try {
+      await cancelPriceSchedule(product.id, item.id)
+      await loadSchedule(product.id)
+      onSaved?.(item.status === 'active' ? '促销已结束' : '价格变更已取消')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '取消计划价格失败')
+    }
+  }
+
+  const regularPrice = prices.find((p) => p.currency === currency)
+  const canCreate = !!price && Number(price) > 0 && !!startsAt
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-4">价格计划 - {product.name}</h3>
+
+        {loading ? (
+          <div className="py-12 text-center text-gray-500">加载中...</div>
+        ) : (
+          <>
+            <div className="mb-6 p-4 bg-gray-50 rounded-md">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">货币</label>
+                  <select
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {CURRENCIES.map((code) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">售价</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">划线原价（可选）</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={compareAtPrice}
+                    onChange={(e) => setCompareAtPrice(e.target.value)}
+                    placeholder={regularPrice ? String(regularPrice.price) : ''}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">开始时间</label>
+                  <input
+                    type="datetime-local"
+                    value={startsAt}
+                    onChange={(e) => setStartsAt(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">结束时间（可选）</label>
+                  <input
+                    type="datetime-local"
+                    value={endsAt}
+                    onChange={(e) => setEndsAt(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+              </div>
+              <div className="mt-3 flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  当前常规价格：{regularPrice ? `${regularPrice.price} ${currency}` : '未设置'}。
+                  设置结束时间为限时促销，到期恢复常规价格；不设置为定时改价。
+                </p>
+                <button
+                  onClick={handleCreate}
+                  disabled={saving || !canCreate}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 whitespace-nowrap"
+                >
+                  {saving ? '创建中...' : '创建'}
+                </button>
+              </div>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-500">
+                  <th className="px-4 py-2 font-medium">状态</th>
+                  <th className="px-4 py-2 font-medium">价格</th>
+                  <th className="px-4 py-2 font-medium">划线原价</th>
+                  <th className="px-4 py-2 font-medium">开始时间</th>
+                  <th className="px-4 py-2 font-medium">结束时间</th>
+                  <th className="px-4 py-2 font-medium">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {schedule.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-400">暂无价格变更记录</td>
+                  </tr>
+                ) : (
+                  schedule.map((item) => (
+                    <tr key={item.id}>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_LABELS[item.status].className}`}>
+                          {STATUS_LABELS[item.status].label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 font-mono">{item.price} {item.currency}</td>
+                      <td className="px-4 py-2 font-mono text-gray-500">{item.compareAtPrice ?? '-'}</td>
+                      <td className="px-4 py-2 text-gray-600">{formatTime(item.startsAt)}</td>
+                      <td className="px-4 py-2 text-gray-600">{item.endsAt ? formatTime(item.endsAt) : '永久'}</td>
+                      <td className="px-4 py-2">
+                        {(item.status === 'scheduled' || item.status === 'active') && (
+                          <button
+                            onClick={() => handleCancel(item)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            {item.status === 'active' ? '结束' : '取消'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
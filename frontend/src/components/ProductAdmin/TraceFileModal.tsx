@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react'
+import { traceLeakedFile, type FileTraceResult } from '../../services/productAdminApi'
+
+interface TraceFileModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export default function TraceFileModal({ isOpen, onClose }: TraceFileModalProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [stampId, setStampId] = useState('')
+  const [result, setResult] = useState<FileTraceResult | null>(null)
+  const [tracing, setTracing] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null)
+      setStampId('')
+      setResult(null)
+      setError('')
+    }
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const handleTrace = async () => {
+    if (!file && !stampId.trim()) return
+
+    setTracing(true)
+    setError('')
+    setResult(null)
+
+    try {
+      setResult(await traceLeakedFile(file || stampId.trim()))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '追踪文件失败')
+    } finally {
+      setTracing(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-1">追踪泄露文件</h3>
+        <p className="text-sm text-gray-500 mb-4">上传在外部发现的文件，或输入其中的授权编号，查找对应的订单</p>
+
+        <div className="mb-4 p-4 bg-gray-50 rounded-md space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">文件</label>
+            <input
+              type="file"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              disabled={tracing}
+              className="w-full text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">授权编号</label>
+            <input
+              type="text"
+              value={stampId}
+              onChange={(e) => setStampId(e.target.value)}
+              placeholder="AS-XXXXX-XXXXX-XXXXX-XXXXX"
+              disabled={tracing || !!file}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono disabled:bg-gray-100"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleTrace}
+              disabled={tracing || (!file && !stampId.trim())}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 text-sm"
+            >
+              {tracing ? '追踪中...' : '开始追踪'}
+            </button>
+          </div>
+        </div>
+
+        {result && (result.matches.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-400">
+            {result.stampIds.length === 0 ? '文件中未找到授权编号' : `未找到授权编号 ${result.stampIds.join('、')} 对应的订单`}
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">授权编号</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">订单</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">商品</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">下载</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {result.matches.map((match) => (
+                <tr key={match.deliveryId}>
+                  <td className="px-3 py-2">
+                    <div className="font-mono text-xs text-gray-900">{match.stampId}</div>
+                    {match.stampedAt && <div className="text-xs text-gray-400">{new Date(match.stampedAt).toLocaleString()}</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="text-gray-900">{match.order.email}</div>
+                    <div className="text-xs text-gray-500">{match.order.id}</div>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{match.order.productName || `#${match.order.productId}`}</td>
+                  <td className="px-3 py-2 text-gray-500">
+                    {match.downloadCount} 次{!match.isActive && <span className="ml-1 text-red-600">已失效</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react'
+import {
+  getProductVariants,
+  createProductVariant,
+  updateProductVariant,
+  updateVariantPrices,
+  deleteProductVariant,
+  type ProductVariantAdmin,
+  type VariantPriceInput,
+} from '../../services/productAdminApi'
+
+interface VariantModalProps {
+  product: { id: number; name: string } | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (message: string) => void
+}
+
+const CURRENCIES = ['CNY', 'USD', 'EUR', 'JPY']
+
+const emptyPrices = () => Object.fromEntries(CURRENCIES.map((code) => [code, ''])) as Record<string, string>
+
+export default function VariantModal({ product, isOpen, onClose, onSaved }: VariantModalProps) {
+  const [variants, setVariants] = useState<ProductVariantAdmin[]>([])
+  const [editing, setEditing] = useState<ProductVariantAdmin | null>(null)
+  const [name, setName] = useState('')
+  const [templateText, setTemplateText] = useState('')
+  const [sortOrder, setSortOrder] = useState('0')
+  const [prices, setPrices] = useState<Record<string, string>>(emptyPrices())
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (isOpen && product) {
+      resetForm()
+      loadVariants(product.id)
+    }
+  }, [isOpen, product])
+
+  const loadVariants = async (productId: number) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      setVariants(await getProductVariants(productId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取商品规格失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetForm = () => {
+    setEditing(null)
+    setName('')
+    setTemplateText('')
+    setSortOrder('0')
+    setPrices(emptyPrices())
+  }
+
+  if (!isOpen || !product) return null
+
+  const handleEdit = (variant: ProductVariantAdmin) => {
+    setEditing(variant)
+    setName(variant.name)
+    setTemplateText(variant.templateText || '')
+    setSortOrder(String(variant.sortOrder))
+    setPrices({
+      ...emptyPrices(),
+      ...Object.fromEntries(variant.prices.map((p) => [p.currency, String(p.price)])),
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError('')
+
+    // 只提交填写了价格的货币
+    const priceInputs: VariantPriceInput[] = CURRENCIES
+      .filter((code) => prices[code] && Number(prices[code]) > 0)
+      .map((code) => ({ currency: code, price: Number(prices[code]) }))
+    const input = {
+      name: name.trim(),
+      templateText: templateText.trim() || null,
+      sortOrder: Number(sortOrder) || 0,
+    }
+
+    try {
+      if (editing) {
+        await updateProductVariant(product.id, editing.id, input)
+        await updateVariantPrices(product.id, editing.id, priceInputs)
+      } else {
+        await createProductVariant(product.id, { ...input, prices: priceInputs })
+      }
+      onSaved?.(editing ? '规格已更新' : '规格已创建')
+      resetForm()
+      await loadVariants(product.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存规格失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (variant: ProductVariantAdmin) => {
+    setError('')
+    try {
+      await updateProductVariant(product.id, variant.id, { isActive: !variant.isActive })
+      await loadVariants(product.id)
+      onSaved?.(variant.isActive ? '规格已停用' : '规格已启用')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '更新规格状态失败')
+    }
+  }
+
+  const handleDelete = async (variant: ProductVariantAdmin) => {
+    if (!confirm(`确定要删除规格「${variant.name}」吗？规格的价格和未售出库存将一并删除。`)) {
+      return
+    }
+
+    setError('')
+    try {
+      await deleteProductVariant(product.id, variant.id)
+      if (editing?.id === variant.id) {
+        resetForm()
+      }
+      await loadVariants(product.id)
+      onSaved?.('规格已删除')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '删除规格失败')
+    }
+  }
+
+  const canSave = !!name.trim()
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-4">商品规格 - {product.name}</h3>
+
+        {loading ? (
+          <div className="py-12 text-center text-gray-500">加载中...</div>
+        ) : (
+          <>
+            <div className="mb-6 p-4 bg-gray-50 rounded-md">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">规格名称</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="如：1个月、1年、永久授权"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">排序</label>
+                  <input
+                    type="number"
+                    value={sortOrder}
+                    onChange={(e) => setSortOrder(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+              </div>
+              <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+                {CURRENCIES.map((code) => (
+                  <div key={code}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{code} 价格</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={prices[code]}
+                      onChange={(e) => setPrices({ ...prices, [code]: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="mt-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">发货模板（可选）</label>
+                <textarea
+                  value={templateText}
+                  onChange={(e) => setTemplateText(e.target.value)}
+                  rows={2}
+                  placeholder="不填写时使用商品的发货模板"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div className="mt-3 flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  每个规格有独立的价格和库存，导入库存时选择规格。商品有启用的规格时，买家必须选择规格下单。
+                </p>
+                <div className="flex space-x-2">
+                  {editing && (
+                    <button
+                      onClick={resetForm}
+                      className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 whitespace-nowrap"
+                    >
+                      取消编辑
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || !canSave}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    {saving ? '保存中...' : editing ? '保存' : '添加规格'}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-500">
+                  <th className="px-4 py-2 font-medium">规格</th>
+                  <th className="px-4 py-2 font-medium">价格</th>
+                  <th className="px-4 py-2 font-medium">库存</th>
+                  <th className="px-4 py-2 font-medium">状态</th>
+                  <th className="px-4 py-2 font-medium">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {variants.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-400">暂无规格，商品按统一价格和库存销售</td>
+                  </tr>
+                ) : (
+                  variants.map((variant) => (
+                    <tr key={variant.id}>
+                      <td className="px-4 py-2 font-medium text-gray-900">{variant.name}</td>
+                      <td className="px-4 py-2 font-mono">
+                        {variant.prices.length > 0
+                          ? variant.prices.map((p) => `${p.price} ${p.currency}`).join(' / ')
+                          : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {variant.inventory.available} / {variant.inventory.total}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${variant.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                          {variant.isActive ? '启用' : '停用'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 space-x-3 whitespace-nowrap">
+                        <button onClick={() => handleEdit(variant)} className="text-blue-600 hover:text-blue-800">
+                          编辑
+                        </button>
+                        <button onClick={() => handleToggle(variant)} className="text-gray-600 hover:text-gray-800">
+                          {variant.isActive ? '停用' : '启用'}
+                        </button>
+                        <button onClick={() => handleDelete(variant)} className="text-red-600 hover:text-red-800">
+                          删除
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
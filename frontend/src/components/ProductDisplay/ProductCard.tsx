@@ -2,6 +2,7 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import type { Product, Currency, ProductPrice } from '../../types/product';
 import { formatCurrency } from '../../utils/currency';
+import { getProductImageUrl } from '../../services/productApi';
 
 interface ProductCardProps {
   product: Product;
@@ -13,7 +14,15 @@ interface ProductCardProps {
 /**
  * 商品卡片组件
  */
-const ProductCard: React.FC<ProductCardProps> = ({ product, selectedCurrency: _selectedCurrency, currentPrice }) => {
+const ProductCard: React.FC<ProductCardProps> = ({ product, selectedCurrency, currentPrice }) => {
+  // 有规格的商品显示规格最低价
+  const variantPrices = (product.variants || [])
+    .flatMap(variant => variant.prices.filter(p => p.currency === selectedCurrency));
+  const lowestVariantPrice = variantPrices.length > 0
+    ? variantPrices.reduce((lowest, p) => (p.price < lowest.price ? p : lowest))
+    : undefined;
+  const displayPrice = lowestVariantPrice ?? currentPrice;
+
   const getDeliveryTypeText = (type: string): string => {
     switch (type) {
       case 'text':
@@ -58,10 +67,11 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, selectedCurrency: _s
       <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow duration-300 h-full flex flex-col">
         {/* 商品图片 */}
         <div className="h-48 bg-gray-100 overflow-hidden">
-          {product.image ? (
+          {product.coverImage ? (
             <img
-              src={product.image}
-              alt={product.name}
+              src={getProductImageUrl(product.coverImage.thumbnailUrl)}
+              alt={product.coverImage.altText || product.name}
+              loading="lazy"
               className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
             />
           ) : (
@@ -104,10 +114,31 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, selectedCurrency: _s
             {product.description || '暂无描述'}
           </p>
 
+          {/* 商品标签 */}
+          {product.tags && product.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-3">
+              {product.tags.slice(0, 3).map(tag => (
+                <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* 价格和库存 */}
           <div className="flex items-center justify-between mt-auto">
-            <div className="text-2xl font-bold text-gray-900">
-              {currentPrice ? formatCurrency(currentPrice.price, currentPrice.currency) : '价格面议'}
+            <div className="flex items-baseline space-x-2">
+              <span className={`text-2xl font-bold ${displayPrice?.compareAtPrice ? 'text-red-600' : 'text-gray-900'}`}>
+                {displayPrice ? formatCurrency(displayPrice.price, displayPrice.currency) : '价格面议'}
+              </span>
+              {lowestVariantPrice && (product.variants?.length ?? 0) > 1 && (
+                <span className="text-sm text-gray-500">起</span>
+              )}
+              {displayPrice?.compareAtPrice && (
+                <span className="text-sm text-gray-400 line-through">
+                  {formatCurrency(displayPrice.compareAtPrice, displayPrice.currency)}
+                </span>
+              )}
             </div>
             <div className="text-sm text-gray-500">
               库存: <span className={getInventoryStatusColor(product.inventoryStatus)}>
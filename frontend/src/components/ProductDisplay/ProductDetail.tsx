@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import type { Product, Currency } from '../../types/product';
-import { getProductById } from '../../services/productApi';
+import type { Product, Currency, ExchangeRates } from '../../types/product';
+import { getProductById, getProductImageUrl } from '../../services/productApi';
 import { getCurrencyPreference, convertCurrency, formatCurrency } from '../../utils/currency';
 import { buildCheckoutUrl } from '../../services/checkoutApi';
-import { getAvailableGateways, getRecommendedCurrency, type PaymentGatewayInfo } from '../../utils/payment-api';
+import { addToCart } from '../../utils/cart';
+import { getAvailableGateways, getRecommendedCurrency, getExchangeRates, type PaymentGatewayInfo } from '../../utils/payment-api';
+
+// 单个商品最多购买数量（与后端下单限制一致）
+const MAX_PURCHASE_QUANTITY = 99;
 
 /**
  * 商品详情页面组件
@@ -20,6 +24,10 @@ const ProductDetail: React.FC = () => {
   const [showCurrencyToggle, setShowCurrencyToggle] = useState<boolean>(true);
   const [gatewaysLoading, setGatewaysLoading] = useState<boolean>(true);
   const [gatewayError, setGatewayError] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState<number>(1);
+  const [selectedVariantId, setSelectedVariantId] = useState<number | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates | null>(null);
+  const [selectedImageIndex, setSelectedImageIndex] = useState<number>(0);
 
   // 加载商品详情
   const fetchProduct = async (productId: string) => {
@@ -28,6 +36,12 @@ const ProductDetail: React.FC = () => {
       setError(null);
       const response = await getProductById(Number(productId));
       setProduct(response.data);
+      setQuantity(response.data.minQuantity ?? 1);
+      setSelectedImageIndex(0);
+      // 默认选中第一个有库存的规格
+      const variants = response.data.variants || [];
+      const defaultVariant = variants.find(v => v.inventory.available > 0) || variants[0];
+      setSelectedVariantId(defaultVariant ? defaultVariant.id : null);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : '商品加载失败，请稍后重试';
       setError(errorMessage);
@@ -76,6 +90,7 @@ const ProductDetail: React.FC = () => {
       // 先加载商品，再加载网关（网关失败不影响商品浏览）
       fetchProduct(id);
       fetchGatewaysAndSetCurrency();
+      getExchangeRates().then(setExchangeRates);
     }
   }, [id]);
 
@@ -163,18 +178,39 @@ const ProductDetail: React.FC = () => {
     );
   }
 
-  // 获取当前货币的价格
-  const getCurrentPrice = () => {
-    const priceItem = product.prices.find(p => p.currency === currency);
+  // 有规格的商品按所选规格的价格和库存购买
+  const variants = product.variants || [];
+  const selectedVariant = variants.find(v => v.id === selectedVariantId) || null;
+  const prices = selectedVariant ? selectedVariant.prices : product.prices;
+  const inventory = selectedVariant ? selectedVariant.inventory : product.inventory;
+  const itemName = selectedVariant ? `${product.name}（${selectedVariant.name}）` : product.name;
+
+  // 商品图库（第一张为封面）
+  const images = product.images || [];
+  const selectedImage = images[selectedImageIndex] || images[0] || null;
+
+  // 获取当前货币的价格（开启汇率模式时服务端已补全未单独定价的货币）
+  const getCurrentPrice = (): number | null => {
+    const priceItem = prices.find(p => p.currency === currency);
     if (priceItem) {
       return priceItem.price;
     }
-    // 如果没有当前货币价格，使用第一个价格并转换
-    const firstPrice = product.prices[0];
-    return firstPrice ? convertCurrency(firstPrice.price, firstPrice.currency, currency) : 0;
+    // 没有当前货币价格时按服务端汇率换算展示，下单金额以报价为准
+    const firstPrice = prices[0];
+    return firstPrice && exchangeRates?.enabled
+      ? convertCurrency(firstPrice.price, firstPrice.currency, currency, exchangeRates)
+      : null;
   };
 
   const convertedPrice = getCurrentPrice();
+  // 促销期间显示划线原价（仅对该货币的实际价格显示）
+  const salePrice = prices.find(p => p.currency === currency && p.compareAtPrice);
+
+  // 购买数量范围：取商品限制与现有库存的较小值
+  const minQuantity = product.minQuantity ?? 1;
+  const maxQuantity = Math.min(product.maxQuantity ?? MAX_PURCHASE_QUANTITY, inventory.available);
+  const canPurchase = convertedPrice !== null && maxQuantity >= minQuantity && (variants.length === 0 || selectedVariant !== null);
+  const clampQuantity = (value: number) => Math.min(Math.max(value, minQuantity), maxQuantity);
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -206,28 +242,51 @@ const ProductDetail: React.FC = () => {
         <div className="bg-white rounded-lg shadow-md overflow-hidden">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
             {/* 商品图片 */}
-            <div className="h-96 bg-gray-100 rounded-lg overflow-hidden">
-              {product.image ? (
-                <img
-                  src={product.image}
-                  alt={product.name}
-                  className="w-full h-full object-cover"
-                />
-              ) : (
-                <div className="w-full h-full flex items-center justify-center text-gray-400">
-                  <svg
-                    className="w-24 h-24"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                    />
-                  </svg>
+            <div>
+              <div className="h-96 bg-gray-100 rounded-lg overflow-hidden">
+                {selectedImage ? (
+                  <img
+                    src={getProductImageUrl(selectedImage.url)}
+                    alt={selectedImage.altText || product.name}
+                    className="w-full h-full object-contain"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-gray-400">
+                    <svg
+                      className="w-24 h-24"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                      />
+                    </svg>
+                  </div>
+                )}
+              </div>
+
+              {/* 图片缩略图 */}
+              {images.length > 1 && (
+                <div className="mt-3 flex gap-2 overflow-x-auto">
+                  {images.map((image, index) => (
+                    <button
+                      key={image.id}
+                      onClick={() => setSelectedImageIndex(index)}
+                      className={`flex-shrink-0 w-16 h-16 rounded-md overflow-hidden border-2 transition-colors duration-200 ${
+                        index === selectedImageIndex ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+                      }`}
+                    >
+                      <img
+                        src={getProductImageUrl(image.thumbnailUrl)}
+                        alt={image.altText || `${product.name} ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
@@ -242,9 +301,49 @@ const ProductDetail: React.FC = () => {
               {/* 商品名称 */}
               <h1 className="text-3xl font-bold text-gray-900 mb-4">{product.name}</h1>
 
+              {/* 商品分类和标签 */}
+              {(product.category || (product.tags && product.tags.length > 0)) && (
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+                  {product.category && (
+                    <span className="text-gray-500">分类：{product.category.name}</span>
+                  )}
+                  {product.tags?.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* 商品描述 */}
               <p className="text-gray-600 mb-6">{product.description}</p>
 
+              {/* 规格选择 */}
+              {variants.length > 0 && (
+                <div className="mb-6">
+                  <span className="text-lg font-medium text-gray-700 block mb-2">规格</span>
+                  <div className="flex flex-wrap gap-2">
+                    {variants.map(variant => (
+                      <button
+                        key={variant.id}
+                        onClick={() => {
+                          setSelectedVariantId(variant.id);
+                          setQuantity(minQuantity);
+                        }}
+                        className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors duration-200 ${
+                          variant.id === selectedVariantId
+                            ? 'border-blue-600 bg-blue-50 text-blue-700'
+                            : 'border-gray-300 text-gray-700 hover:border-blue-400'
+                        } ${variant.inventory.available === 0 ? 'opacity-60' : ''}`}
+                      >
+                        {variant.name}
+                        {variant.inventory.available === 0 && <span className="ml-1 text-xs text-gray-500">(售罄)</span>}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* 价格和货币切换 */}
               <div className="mb-6">
                 <div className="flex items-center justify-between mb-2">
@@ -261,18 +360,28 @@ const ProductDetail: React.FC = () => {
                     </div>
                   )}
                 </div>
-                <div className="text-4xl font-bold text-gray-900">
-                  {formatCurrency(convertedPrice, currency)}
+                <div className="flex items-baseline space-x-3">
+                  <span className={`text-4xl font-bold ${salePrice ? 'text-red-600' : 'text-gray-900'}`}>
+                    {convertedPrice !== null ? formatCurrency(convertedPrice, currency) : `暂不支持 ${currency} 支付`}
+                  </span>
+                  {salePrice?.compareAtPrice && (
+                    <span className="text-xl text-gray-400 line-through">
+                      {formatCurrency(salePrice.compareAtPrice, currency)}
+                    </span>
+                  )}
                 </div>
+                {salePrice?.saleEndsAt && (
+                  <div className="mt-1 text-sm text-red-600">
+                    促销截止 {new Date(salePrice.saleEndsAt).toLocaleString('zh-CN')}
+                  </div>
+                )}
 
                 {/* 支付网关提示信息 */}
                 {!gatewaysLoading && availableGateways.length > 0 && availableGateways.length === 1 && (
                   <div className="mt-2 text-sm text-gray-600">
-                    {availableGateways[0].id === 'alipay' ? (
-                      <span>当前仅支持支付宝支付（人民币）</span>
-                    ) : (
-                      <span>当前仅支持 Creem 支付（美元）</span>
-                    )}
+                    <span>
+                      当前仅支持 {availableGateways[0].displayName} 支付（{availableGateways[0].recommendedCurrency}）
+                    </span>
                   </div>
                 )}
 
@@ -305,10 +414,10 @@ const ProductDetail: React.FC = () => {
                 <span className="text-lg font-medium text-gray-700 block mb-2">库存状态</span>
                 <span
                   className={`text-lg font-medium ${
-                    product.inventory.available > 0 ? 'text-green-600' : 'text-red-600'
+                    inventory.available > 0 ? 'text-green-600' : 'text-red-600'
                   }`}
                 >
-                  {product.inventory.available > 0 ? `现货: ${product.inventory.available} 件` : '暂无库存'}
+                  {inventory.available > 0 ? `现货: ${inventory.available} 件` : '暂无库存'}
                 </span>
               </div>
 
@@ -318,28 +427,103 @@ const ProductDetail: React.FC = () => {
                 <p className="text-gray-600">{getProductTypeDescription(product.deliveryType)}</p>
               </div>
 
+              {/* 购买数量 */}
+              {canPurchase && (
+                <div className="mb-6">
+                  <span className="text-lg font-medium text-gray-700 block mb-2">购买数量</span>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      className="w-9 h-9 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      disabled={quantity <= minQuantity}
+                      onClick={() => setQuantity(clampQuantity(quantity - 1))}
+                    >
+                      -
+                    </button>
+                    <input
+                      type="number"
+                      min={minQuantity}
+                      max={maxQuantity}
+                      value={quantity}
+                      onChange={(e) => setQuantity(clampQuantity(Number(e.target.value) || minQuantity))}
+                      className="w-16 h-9 text-center border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      className="w-9 h-9 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      disabled={quantity >= maxQuantity}
+                      onClick={() => setQuantity(clampQuantity(quantity + 1))}
+                    >
+                      +
+                    </button>
+                    {quantity > 1 && convertedPrice !== null && (
+                      <span className="text-gray-600">
+                        合计: {formatCurrency(convertedPrice * quantity, currency)}
+                      </span>
+                    )}
+                  </div>
+                  {(minQuantity > 1 || product.maxQuantity) && (
+                    <p className="mt-2 text-sm text-gray-500">
+                      {minQuantity > 1 && `最少购买 ${minQuantity} 件`}
+                      {minQuantity > 1 && product.maxQuantity && '，'}
+                      {product.maxQuantity && `每单最多购买 ${product.maxQuantity} 件`}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* 立即购买按钮 */}
               <button
                 className={`w-full py-3 px-6 rounded-lg font-medium text-white transition-colors duration-200 ${
-                  product.inventory.available > 0
+                  canPurchase
                     ? 'bg-blue-600 hover:bg-blue-700'
                     : 'bg-gray-400 cursor-not-allowed'
                 }`}
-                disabled={product.inventory.available === 0}
+                disabled={!canPurchase}
                 onClick={() => {
-                  if (product.inventory.available > 0) {
+                  if (canPurchase && convertedPrice !== null) {
                     const checkoutUrl = buildCheckoutUrl({
                       productId: String(product.id),
-                      productName: product.name,
+                      variantId: selectedVariant?.id,
+                      productName: itemName,
                       price: convertedPrice,
                       currency: currency,
+                      quantity,
                     });
                     navigate(checkoutUrl);
                   }
                 }}
               >
-                {product.inventory.available > 0 ? '立即购买' : '暂无库存'}
+                {canPurchase
+                  ? '立即购买'
+                  : convertedPrice === null ? '暂不支持该货币' : inventory.available > 0 ? '库存不足' : '暂无库存'}
               </button>
+
+              {/* 加入购物车按钮 */}
+              {canPurchase && convertedPrice !== null && (
+                <div className="mt-3 flex space-x-3">
+                  <button
+                    className="flex-1 py-3 px-6 rounded-lg font-medium text-blue-600 border border-blue-600 hover:bg-blue-50 transition-colors duration-200"
+                    onClick={() => {
+                      addToCart({
+                        productId: String(product.id),
+                        variantId: selectedVariant?.id,
+                        productName: itemName,
+                        price: convertedPrice,
+                        currency,
+                        quantity,
+                      });
+                      alert('已加入购物车');
+                    }}
+                  >
+                    加入购物车
+                  </button>
+                  <button
+                    className="flex-1 py-3 px-6 rounded-lg font-medium text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+                    onClick={() => navigate('/checkout')}
+                  >
+                    去结算
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
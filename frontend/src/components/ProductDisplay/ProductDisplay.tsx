@@ -1,10 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import type { Product, Currency } from '../../types/product';
-import { getProducts } from '../../services/productApi';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Product, Currency, Category, ProductTag } from '../../types/product';
+import { getProducts, getCatalog } from '../../services/productApi';
 import { getCurrencyPreference } from '../../utils/currency';
 import ProductCard from './ProductCard';
 import CurrencyToggle from './CurrencyToggle';
 import LoadingSpinner from './LoadingSpinner';
+import ProductFilters, { type ProductFilterValue } from './ProductFilters';
+
+// 每页加载的商品数
+const PAGE_SIZE = 24;
+
+const DEFAULT_FILTERS: ProductFilterValue = { search: '', sort: 'default' };
 
 /**
  * 商品展示页面主组件
@@ -14,28 +20,65 @@ const ProductDisplay: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [currency, setCurrency] = useState<Currency>(getCurrencyPreference());
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<ProductTag[]>([]);
+  const [filters, setFilters] = useState<ProductFilterValue>(DEFAULT_FILTERS);
+  const [page, setPage] = useState<number>(1);
+  const [total, setTotal] = useState<number>(0);
+  const [hasNext, setHasNext] = useState<boolean>(false);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+
+  // 货币只影响价格排序，非价格排序时切换货币无需重新加载
+  const priceSortCurrency = filters.sort.startsWith('price') ? currency : null;
 
-  // 加载商品数据
-  const fetchProducts = async () => {
+  // 加载商品数据（page 大于 1 时追加到列表）
+  const fetchProducts = useCallback(async (targetPage = 1) => {
     try {
-      setLoading(true);
+      if (targetPage === 1) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
       setError(null);
-      const response = await getProducts();
-      setProducts(response.data.products);
+      const response = await getProducts({
+        ...filters,
+        search: filters.search || undefined,
+        currency: priceSortCurrency ?? undefined,
+        page: targetPage,
+        limit: PAGE_SIZE,
+      });
+      const { products: pageProducts, total: totalCount, pagination } = response.data;
+      setProducts((current) => (targetPage === 1 ? pageProducts : [...current, ...pageProducts]));
+      setTotal(totalCount);
+      setHasNext(pagination?.hasNext ?? false);
+      setPage(targetPage);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : '商品加载失败，请稍后重试';
       setError(errorMessage);
       console.error('加载商品失败:', err);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
-  };
+  }, [filters, priceSortCurrency]);
 
-  // 组件挂载时加载商品
+  // 组件挂载时加载分类和标签（加载失败不影响商品列表）
   useEffect(() => {
-    fetchProducts();
+    getCatalog()
+      .then((response) => {
+        setCategories(response.data.categories);
+        setTags(response.data.tags);
+      })
+      .catch((err) => console.error('加载商品分类失败:', err));
   }, []);
 
+  // 筛选条件变化时重新加载；按价格排序时切换货币也需要重新排序
+  useEffect(() => {
+    fetchProducts(1);
+  }, [fetchProducts]);
+
+  const hasFilters = !!(filters.categoryId || filters.tag || filters.search);
+
   // 处理货币切换
   const handleCurrencyChange = (newCurrency: Currency) => {
     setCurrency(newCurrency);
@@ -65,7 +108,7 @@ const ProductDisplay: React.FC = () => {
             <h3 className="text-lg font-medium text-gray-900 mb-2">加载失败</h3>
             <p className="text-gray-600 mb-4">{error}</p>
             <button
-              onClick={fetchProducts}
+              onClick={() => fetchProducts(1)}
               className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
             >
               重试
@@ -90,6 +133,17 @@ const ProductDisplay: React.FC = () => {
 
       {/* 商品列表 */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <ProductFilters categories={categories} tags={tags} value={filters} onChange={setFilters} />
+
+        {!loading && hasFilters && (
+          <div className="flex items-center justify-between mb-4 text-sm text-gray-600">
+            <span>共找到 {total} 件商品</span>
+            <button onClick={() => setFilters(DEFAULT_FILTERS)} className="text-blue-600 hover:text-blue-800">
+              清除筛选
+            </button>
+          </div>
+        )}
+
         {loading ? (
           <LoadingSpinner size="lg" text="正在加载商品..." />
         ) : products.length === 0 ? (
@@ -109,25 +163,41 @@ const ProductDisplay: React.FC = () => {
                 />
               </svg>
             </div>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">暂无可购买商品</h3>
-            <p className="text-gray-600">敬请期待更多商品上线</p>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {hasFilters ? '没有符合条件的商品' : '暂无可购买商品'}
+            </h3>
+            <p className="text-gray-600">{hasFilters ? '试试其他分类或关键词' : '敬请期待更多商品上线'}</p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {products.map((product) => {
-              // 获取当前货币的价格，如果没有则使用第一个价格
-              const currentPrice = product.prices.find(p => p.currency === currency) || product.prices[0];
-
-              return (
-                <ProductCard
-                  key={product.id}
-                  product={product}
-                  selectedCurrency={currency}
-                  currentPrice={currentPrice}
-                />
-              );
-            })}
-          </div>
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {products.map((product) => {
+                // 获取当前货币的价格，如果没有则使用第一个价格
+                const currentPrice = product.prices.find(p => p.currency === currency) || product.prices[0];
+
+                return (
+                  <ProductCard
+                    key={product.id}
+                    product={product}
+                    selectedCurrency={currency}
+                    currentPrice={currentPrice}
+                  />
+                );
+              })}
+            </div>
+
+            {hasNext && (
+              <div className="text-center mt-8">
+                <button
+                  onClick={() => fetchProducts(page + 1)}
+                  disabled={loadingMore}
+                  className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-medium py-2 px-6 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                >
+                  {loadingMore ? '加载中...' : '加载更多'}
+                </button>
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
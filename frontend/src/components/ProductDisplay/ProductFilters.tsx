@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import type { Category, ProductTag, ProductSort } from '../../types/product';
+
+export interface ProductFilterValue {
+  categoryId?: number;
+  tag?: string;
+  search: string;
+  sort: ProductSort;
+}
+
+interface ProductFiltersProps {
+  categories: Category[];
+  tags: ProductTag[];
+  value: ProductFilterValue;
+  onChange: (value: ProductFilterValue) => void;
+}
+
+const SORT_OPTIONS: Array<{ value: ProductSort; label: string }> = [
+  { value: 'default', label: '综合排序' },
+  { value: 'popular', label: '销量优先' },
+  { value: 'newest', label: '最新上架' },
+  { value: 'price_asc', label: '价格从低到高' },
+  { value: 'price_desc', label: '价格从高到低' },
+];
+
+/**
+ * 把分类树展开为带层级的下拉选项
+ */
+const flattenCategories = (categories: Category[], depth = 0): Array<{ category: Category; depth: number }> =>
+  categories.flatMap((category) => [
+    { category, depth },
+    ...flattenCategories(category.children, depth + 1),
+  ]);
+
+/**
+ * 商品筛选栏（分类、标签、搜索、排序）
+ */
+const ProductFilters: React.FC<ProductFiltersProps> = ({ categories, tags, value, onChange }) => {
+  const [searchInput, setSearchInput] = useState<string>(value.search);
+
+  // 外部清除筛选时同步搜索框
+  useEffect(() => {
+    setSearchInput(value.search);
+  }, [value.search]);
+
+  // 搜索输入防抖
+  useEffect(() => {
+    if (searchInput.trim() === value.search) return;
+
+    const timer = setTimeout(() => {
+      onChange({ ...value, search: searchInput.trim() });
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [searchInput, value, onChange]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 mb-6 space-y-3">
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="搜索商品名称或描述..."
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={value.categoryId ?? ''}
+          onChange={(e) => onChange({ ...value, categoryId: e.target.value ? Number(e.target.value) : undefined })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">全部分类</option>
+          {flattenCategories(categories).map(({ category, depth }) => (
+            <option key={category.id} value={category.id}>
+              {`${'　'.repeat(depth)}${category.name} (${category.productCount})`}
+            </option>
+          ))}
+        </select>
+        <select
+          value={value.sort}
+          onChange={(e) => onChange({ ...value, sort: e.target.value as ProductSort })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => {
+            const selected = value.tag === tag.name;
+            return (
+              <button
+                key={tag.id}
+                onClick={() => onChange({ ...value, tag: selected ? undefined : tag.name })}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors duration-200 ${
+                  selected ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                #{tag.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductFilters;
@@ -4,7 +4,7 @@
 
 import { useState, useCallback, useRef } from 'react';
 import type { PaymentGateway, PaymentInitResponse } from '../types/payment';
-import { initPayment } from '../utils/payment-api';
+import { initPayment, isQrCodePaymentUrl } from '../utils/payment-api';
 
 /**
  * Hook 返回值类型
@@ -124,6 +124,9 @@ export const usePaymentGateway = (): UsePaymentGatewayReturn => {
 
         // 表单里一般已经带 auto submit 的脚本了，不写也可以
         return response;
+      } else if (isQrCodePaymentUrl(response.data.paymentUrl)) {
+        // 扫码支付不跳转，由页面展示二维码
+        return response;
       } else {
         // 不区分手机/桌面，一律当前窗口跳转
         window.location.href = response.data.paymentUrl;
@@ -6,6 +6,16 @@ import ProductStatusBadge from '../components/ProductStatusBadge'
 import ProductStatusToggle from '../components/ProductStatusToggle'
 import StatusConfirmDialog from '../components/StatusConfirmDialog'
 import BatchStatusConfirmDialog from '../components/BatchStatusConfirmDialog'
+import EmailTemplateModal from '../components/ProductAdmin/EmailTemplateModal'
+import PriceScheduleModal from '../components/ProductAdmin/PriceScheduleModal'
+import VariantModal from '../components/ProductAdmin/VariantModal'
+import CatalogModal from '../components/ProductAdmin/CatalogModal'
+import ImageModal from '../components/ProductAdmin/ImageModal'
+import FileModal from '../components/ProductAdmin/FileModal'
+import TraceFileModal from '../components/ProductAdmin/TraceFileModal'
+import KeySourceModal from '../components/ProductAdmin/KeySourceModal'
+import { getCategories, flattenCategories, type CategoryAdmin, type ProductImageAdmin } from '../services/productAdminApi'
+import { getProductImageUrl } from '../services/productApi'
 
 interface Product {
   id: number
@@ -14,6 +24,12 @@ interface Product {
   deliveryType: string
   isActive: boolean
   sortOrder: number
+  minQuantity: number
+  maxQuantity: number | null
+  taxCategory: string
+  categoryId: number | null
+  tags: string[]
+  coverImage: ProductImageAdmin | null
   createdAt: string
   updatedAt: string
   prices: Array<{
@@ -45,16 +61,119 @@ interface ProductResponse {
   }
 }
 
+interface QuantityLimits {
+  minQuantity: number
+  maxQuantity: number | null
+}
+
+// 解析购买数量限制输入（最多购买留空表示不限）
+const parseQuantityLimits = (minInput: string, maxInput: string): QuantityLimits => {
+  const minQuantity = minInput ? Number(minInput) : 1
+  const maxQuantity = maxInput ? Number(maxInput) : null
+
+  if (!Number.isInteger(minQuantity) || minQuantity < 1) {
+    throw new Error('最少购买数量必须是正整数')
+  }
+  if (maxQuantity !== null && (!Number.isInteger(maxQuantity) || maxQuantity < minQuantity)) {
+    throw new Error('最多购买数量必须是不小于最少购买数量的整数')
+  }
+
+  return { minQuantity, maxQuantity }
+}
+
+// 解析税务分类输入（留空使用默认分类）
+const parseTaxCategory = (input: string): string => {
+  const taxCategory = input.trim().toLowerCase() || 'standard'
+
+  if (!/^[a-z0-9_-]+$/.test(taxCategory)) {
+    throw new Error('税务分类只能包含字母、数字、下划线和横线')
+  }
+
+  return taxCategory
+}
+
+interface ProductCatalog {
+  categoryId: number | null
+  tags: string[]
+}
+
+// 解析逗号分隔的标签输入（支持中英文逗号）
+const parseTagInput = (input: string): string[] => {
+  const tags = input.split(/[,，]/).map((tag) => tag.trim()).filter(Boolean)
+
+  if (tags.some((tag) => tag.length > 50)) {
+    throw new Error('标签名称不能超过50个字符')
+  }
+  if (tags.length > 20) {
+    throw new Error('标签不能超过20个')
+  }
+
+  return tags
+}
+
+interface CatalogFieldsProps {
+  categories: CategoryAdmin[]
+  categoryId: string
+  tags: string
+  onCategoryChange: (categoryId: string) => void
+  onTagsChange: (tags: string) => void
+}
+
+// 商品分类和标签输入
+function CatalogFields({ categories, categoryId, tags, onCategoryChange, onTagsChange }: CatalogFieldsProps) {
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          商品分类
+        </label>
+        <select
+          value={categoryId}
+          onChange={(e) => onCategoryChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">未分类</option>
+          {flattenCategories(categories).map(({ category, depth }) => (
+            <option key={category.id} value={category.id}>
+              {`${'　'.repeat(depth)}${category.name}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          标签
+        </label>
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => onTagsChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="如：Windows, 办公"
+        />
+        <p className="text-xs text-gray-500 mt-1">多个标签用逗号分隔，不存在的标签会自动创建</p>
+      </div>
+    </>
+  )
+}
+
 interface EditPriceModalProps {
   product: Product | null
+  categories: CategoryAdmin[]
   isOpen: boolean
   onClose: () => void
-  onSave: (productId: number, prices: { currency: string; price: number; isActive?: boolean }[]) => Promise<void>
+  onSave: (productId: number, prices: { currency: string; price: number; isActive?: boolean }[], limits: QuantityLimits, taxCategory: string, catalog: ProductCatalog) => Promise<void>
 }
 
-function EditPriceModal({ product, isOpen, onClose, onSave }: EditPriceModalProps) {
+function EditPriceModal({ product, categories, isOpen, onClose, onSave }: EditPriceModalProps) {
   const [cnyPrice, setCnyPrice] = useState('')
   const [usdPrice, setUsdPrice] = useState('')
+  const [minQuantity, setMinQuantity] = useState('')
+  const [maxQuantity, setMaxQuantity] = useState('')
+  const [taxCategory, setTaxCategory] = useState('')
+  const [categoryId, setCategoryId] = useState('')
+  const [tags, setTags] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
@@ -64,6 +183,11 @@ function EditPriceModal({ product, isOpen, onClose, onSave }: EditPriceModalProp
       const usdPriceData = product.prices.find((p) => p.currency === 'USD')
       setCnyPrice(cnyPriceData?.price?.toString() || '')
       setUsdPrice(usdPriceData?.price?.toString() || '')
+      setMinQuantity(product.minQuantity?.toString() || '1')
+      setMaxQuantity(product.maxQuantity?.toString() || '')
+      setTaxCategory(product.taxCategory || 'standard')
+      setCategoryId(product.categoryId?.toString() || '')
+      setTags((product.tags || []).join(', '))
       setError('')
     }
   }, [product])
@@ -98,7 +222,14 @@ function EditPriceModal({ product, isOpen, onClose, onSave }: EditPriceModalProp
         throw new Error('请至少输入一个有效价格')
       }
 
-      await onSave(product.id, prices)
+      const limits = parseQuantityLimits(minQuantity, maxQuantity)
+
+      const catalog = {
+        categoryId: categoryId ? Number(categoryId) : null,
+        tags: parseTagInput(tags),
+      }
+
+      await onSave(product.id, prices, limits, parseTaxCategory(taxCategory), catalog)
       onClose()
     } catch (err: any) {
       setError(err.message || '保存失败')
@@ -110,7 +241,7 @@ function EditPriceModal({ product, isOpen, onClose, onSave }: EditPriceModalProp
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md">
-        <h3 className="text-lg font-semibold mb-4">编辑商品价格</h3>
+        <h3 className="text-lg font-semibold mb-4">编辑商品</h3>
 
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -149,6 +280,61 @@ function EditPriceModal({ product, isOpen, onClose, onSave }: EditPriceModalProp
               placeholder="请输入价格"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              购买数量限制
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">最少购买</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={minQuantity}
+                  onChange={(e) => setMinQuantity(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="1"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">最多购买</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={maxQuantity}
+                  onChange={(e) => setMaxQuantity(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="不限"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">每单可购买的数量范围，最多购买留空表示不限</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              税务分类
+            </label>
+            <input
+              type="text"
+              value={taxCategory}
+              onChange={(e) => setTaxCategory(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="standard"
+            />
+            <p className="text-xs text-gray-500 mt-1">对应税率规则中的分类，留空为 standard</p>
+          </div>
+
+          <CatalogFields
+            categories={categories}
+            categoryId={categoryId}
+            tags={tags}
+            onCategoryChange={setCategoryId}
+            onTagsChange={setTags}
+          />
         </div>
 
         {error && (
@@ -179,6 +365,7 @@ function EditPriceModal({ product, isOpen, onClose, onSave }: EditPriceModalProp
 }
 
 interface CreateProductModalProps {
+  categories: CategoryAdmin[]
   isOpen: boolean
   onClose: () => void
   onCreate: (productData: {
@@ -187,16 +374,26 @@ interface CreateProductModalProps {
     deliveryType: string
     templateText?: string
     prices: { currency: string; price: number; isActive?: boolean }[]
+    minQuantity?: number
+    maxQuantity?: number | null
+    taxCategory?: string
+    categoryId?: number | null
+    tags?: string[]
   }) => Promise<void>
 }
 
-function CreateProductModal({ isOpen, onClose, onCreate }: CreateProductModalProps) {
+function CreateProductModal({ categories, isOpen, onClose, onCreate }: CreateProductModalProps) {
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
   const [deliveryType, setDeliveryType] = useState<'text' | 'download' | 'hybrid'>('text')
   const [templateText, setTemplateText] = useState('')
   const [cnyPrice, setCnyPrice] = useState('')
   const [usdPrice, setUsdPrice] = useState('')
+  const [minQuantity, setMinQuantity] = useState('1')
+  const [maxQuantity, setMaxQuantity] = useState('')
+  const [taxCategory, setTaxCategory] = useState('standard')
+  const [categoryId, setCategoryId] = useState('')
+  const [tags, setTags] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
@@ -207,6 +404,11 @@ function CreateProductModal({ isOpen, onClose, onCreate }: CreateProductModalPro
     setTemplateText('')
     setCnyPrice('')
     setUsdPrice('')
+    setMinQuantity('1')
+    setMaxQuantity('')
+    setTaxCategory('standard')
+    setCategoryId('')
+    setTags('')
     setError('')
   }
 
@@ -257,6 +459,10 @@ function CreateProductModal({ isOpen, onClose, onCreate }: CreateProductModalPro
         deliveryType,
         templateText: templateText.trim() || undefined,
         prices,
+        ...parseQuantityLimits(minQuantity, maxQuantity),
+        taxCategory: parseTaxCategory(taxCategory),
+        categoryId: categoryId ? Number(categoryId) : null,
+        tags: parseTagInput(tags),
       }
 
       await onCreate(productData)
@@ -367,6 +573,62 @@ function CreateProductModal({ isOpen, onClose, onCreate }: CreateProductModalPro
             </div>
             <p className="text-xs text-gray-500 mt-1">至少需要设置一个价格</p>
           </div>
+
+          {/* 购买数量限制 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              购买数量限制
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">最少购买</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={minQuantity}
+                  onChange={(e) => setMinQuantity(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="1"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">最多购买</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={maxQuantity}
+                  onChange={(e) => setMaxQuantity(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="不限"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">每单可购买的数量范围，最多购买留空表示不限</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              税务分类
+            </label>
+            <input
+              type="text"
+              value={taxCategory}
+              onChange={(e) => setTaxCategory(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="standard"
+            />
+            <p className="text-xs text-gray-500 mt-1">对应税率规则中的分类，留空为 standard</p>
+          </div>
+
+          <CatalogFields
+            categories={categories}
+            categoryId={categoryId}
+            tags={tags}
+            onCategoryChange={setCategoryId}
+            onTagsChange={setTags}
+          />
         </div>
 
         {error && (
@@ -406,10 +668,20 @@ export default function AdminProductManagement() {
   const [editingProduct, setEditingProduct] = useState<Product | null>(null)
   const [showEditModal, setShowEditModal] = useState(false)
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [templateProduct, setTemplateProduct] = useState<Product | null>(null)
+  const [scheduleProduct, setScheduleProduct] = useState<Product | null>(null)
+  const [variantProduct, setVariantProduct] = useState<Product | null>(null)
+  const [imageProduct, setImageProduct] = useState<Product | null>(null)
+  const [fileProduct, setFileProduct] = useState<Product | null>(null)
+  const [keySourceProduct, setKeySourceProduct] = useState<Product | null>(null)
   const [page, setPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [searchTerm, setSearchTerm] = useState('')
   const [filterActive, setFilterActive] = useState<'all' | 'active' | 'inactive'>('all')
+  const [filterCategory, setFilterCategory] = useState('')
+  const [categories, setCategories] = useState<CategoryAdmin[]>([])
+  const [showCatalogModal, setShowCatalogModal] = useState(false)
+  const [showTraceModal, setShowTraceModal] = useState(false)
 
   // 状态操作相关状态
   const [statusDialog, setStatusDialog] = useState<{
@@ -457,6 +729,10 @@ export default function AdminProductManagement() {
         params.append('isActive', filterActive === 'active' ? 'true' : 'false')
       }
 
+      if (filterCategory) {
+        params.append('categoryId', filterCategory)
+      }
+
       const response = await fetch(`${ADMIN_API_URL}/products?${params}`, {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -487,10 +763,22 @@ export default function AdminProductManagement() {
     }
   }
 
+  const fetchCategories = async () => {
+    try {
+      setCategories(await getCategories())
+    } catch (err) {
+      console.error('Error fetching categories:', err)
+    }
+  }
+
+  useEffect(() => {
+    fetchCategories()
+  }, [])
+
   // 初始加载和页面/筛选变化时的加载
   useEffect(() => {
     fetchProducts()
-  }, [page, filterActive])
+  }, [page, filterActive, filterCategory])
 
   // 监听搜索词变化，自动触发搜索（带防抖）
   useEffect(() => {
@@ -510,7 +798,7 @@ export default function AdminProductManagement() {
     setShowEditModal(true)
   }
 
-  const handleSavePrice = async (productId: number, prices: { currency: string; price: number; isActive?: boolean }[]) => {
+  const handleSavePrice = async (productId: number, prices: { currency: string; price: number; isActive?: boolean }[], limits: QuantityLimits, taxCategory: string, catalog: ProductCatalog) => {
     try {
       const response = await fetch(`${ADMIN_API_URL}/products/${productId}/prices`, {
         method: 'PUT',
@@ -531,11 +819,59 @@ export default function AdminProductManagement() {
         throw new Error(data.error || '更新价格失败')
       }
 
+      // 更新购买数量限制
+      const limitsResponse = await fetch(`${ADMIN_API_URL}/products/${productId}/quantity-limits`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(limits),
+      })
+
+      const limitsData = await limitsResponse.json()
+
+      if (!limitsResponse.ok || !limitsData.success) {
+        throw new Error(limitsData.error || '更新购买数量限制失败')
+      }
+
+      // 更新税务分类
+      const taxResponse = await fetch(`${ADMIN_API_URL}/products/${productId}/tax-category`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ taxCategory }),
+      })
+
+      const taxData = await taxResponse.json()
+
+      if (!taxResponse.ok || !taxData.success) {
+        throw new Error(taxData.error || '更新税务分类失败')
+      }
+
+      // 更新分类和标签
+      const catalogResponse = await fetch(`${ADMIN_API_URL}/products/${productId}/catalog`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(catalog),
+      })
+
+      const catalogData = await catalogResponse.json()
+
+      if (!catalogResponse.ok || !catalogData.success) {
+        throw new Error(catalogData.error?.message || catalogData.error || '更新分类和标签失败')
+      }
+
       // 刷新商品列表
       fetchProducts()
 
       // 显示成功消息
-      setSuccessMessage('价格更新成功！')
+      setSuccessMessage('商品价格、购买限制、税务分类和分类标签更新成功！')
       setTimeout(() => {
         setSuccessMessage('')
       }, 3000)
@@ -551,6 +887,11 @@ export default function AdminProductManagement() {
     deliveryType: string
     templateText?: string
     prices: { currency: string; price: number; isActive?: boolean }[]
+    minQuantity?: number
+    maxQuantity?: number | null
+    taxCategory?: string
+    categoryId?: number | null
+    tags?: string[]
   }) => {
     try {
       const response = await fetch(`${ADMIN_API_URL}/products`, {
@@ -753,6 +1094,8 @@ export default function AdminProductManagement() {
     }
   }
 
+  const categoryNames = new Map(flattenCategories(categories).map(({ category }) => [category.id, category.name]))
+
   const getInventoryStatusClass = (status: string) => {
     switch (status) {
       case '已售罄':
@@ -832,6 +1175,21 @@ export default function AdminProductManagement() {
                   <option value="active">在售</option>
                   <option value="inactive">停售</option>
                 </select>
+                <select
+                  value={filterCategory}
+                  onChange={(e) => {
+                    setFilterCategory(e.target.value)
+                    setPage(1)
+                  }}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">全部分类</option>
+                  {flattenCategories(categories).map(({ category, depth }) => (
+                    <option key={category.id} value={category.id}>
+                      {`${'　'.repeat(depth)}${category.name}`}
+                    </option>
+                  ))}
+                </select>
                 <button
                   onClick={fetchProducts}
                   className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
@@ -839,13 +1197,27 @@ export default function AdminProductManagement() {
                   搜索
                 </button>
               </div>
-              <button
-                onClick={() => setShowCreateModal(true)}
-                className="px-4 py-2 bg-green-500 text-white rounded-md hover:bg-green-600 flex items-center"
-              >
-                <span className="mr-2">+</span>
-                添加商品
-              </button>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setShowCatalogModal(true)}
+                  className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  分类与标签
+                </button>
+                <button
+                  onClick={() => setShowTraceModal(true)}
+                  className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  追踪泄露文件
+                </button>
+                <button
+                  onClick={() => setShowCreateModal(true)}
+                  className="px-4 py-2 bg-green-500 text-white rounded-md hover:bg-green-600 flex items-center"
+                >
+                  <span className="mr-2">+</span>
+                  添加商品
+                </button>
+              </div>
             </div>
           </div>
 
@@ -956,15 +1328,36 @@ export default function AdminProductManagement() {
                           />
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex flex-col">
-                            <div className="text-sm font-medium text-gray-900">
-                              {product.name}
-                            </div>
-                            <div className="text-sm text-gray-500">
-                              {product.description || '无描述'}
-                            </div>
-                            <div className="text-xs text-gray-400">
-                              {product.deliveryType} · {product.isActive ? '在售' : '停售'}
+                          <div className="flex items-start space-x-3">
+                            {product.coverImage ? (
+                              <img
+                                src={getProductImageUrl(product.coverImage.thumbnailUrl)}
+                                alt={product.name}
+                                className="w-12 h-12 rounded object-cover flex-shrink-0"
+                              />
+                            ) : (
+                              <div className="w-12 h-12 rounded bg-gray-100 flex-shrink-0" />
+                            )}
+                            <div className="flex flex-col">
+                              <div className="text-sm font-medium text-gray-900">
+                                {product.name}
+                              </div>
+                              <div className="text-sm text-gray-500">
+                                {product.description || '无描述'}
+                              </div>
+                              <div className="text-xs text-gray-400">
+                                {product.deliveryType} · {product.isActive ? '在售' : '停售'}
+                                {product.categoryId && ` · ${categoryNames.get(product.categoryId) || '未知分类'}`}
+                              </div>
+                              {product.tags?.length > 0 && (
+                                <div className="mt-1 flex flex-wrap gap-1">
+                                  {product.tags.map((tag) => (
+                                    <span key={tag} className="px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600">
+                                      #{tag}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </td>
@@ -1018,12 +1411,54 @@ export default function AdminProductManagement() {
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <button
-                            onClick={() => handleEditPrice(product)}
-                            className="text-blue-600 hover:text-blue-900"
-                          >
-                            编辑价格
-                          </button>
+                          <div className="flex flex-col space-y-1 items-start">
+                            <button
+                              onClick={() => handleEditPrice(product)}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              编辑
+                            </button>
+                            <button
+                              onClick={() => setScheduleProduct(product)}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              价格计划
+                            </button>
+                            <button
+                              onClick={() => setVariantProduct(product)}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              规格
+                            </button>
+                            <button
+                              onClick={() => setImageProduct(product)}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              图片
+                            </button>
+                            {product.deliveryType !== 'text' && (
+                              <button
+                                onClick={() => setFileProduct(product)}
+                                className="text-blue-600 hover:text-blue-900"
+                              >
+                                文件
+                              </button>
+                            )}
+                            {product.deliveryType !== 'download' && (
+                              <button
+                                onClick={() => setKeySourceProduct(product)}
+                                className="text-blue-600 hover:text-blue-900"
+                              >
+                                卡密来源
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setTemplateProduct(product)}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              邮件模板
+                            </button>
+                          </div>
                         </td>
                       </tr>
                     ))}
@@ -1063,6 +1498,7 @@ export default function AdminProductManagement() {
       {/* 编辑价格模态框 */}
       <EditPriceModal
         product={editingProduct}
+        categories={categories}
         isOpen={showEditModal}
         onClose={() => {
           setShowEditModal(false)
@@ -1071,13 +1507,117 @@ export default function AdminProductManagement() {
         onSave={handleSavePrice}
       />
 
+      {/* 邮件模板模态框 */}
+      <EmailTemplateModal
+        product={templateProduct}
+        isOpen={!!templateProduct}
+        onClose={() => setTemplateProduct(null)}
+        onSaved={(message) => {
+          setSuccessMessage(message)
+          setTimeout(() => {
+            setSuccessMessage('')
+          }, 3000)
+        }}
+      />
+
+      {/* 商品规格模态框 */}
+      <VariantModal
+        product={variantProduct}
+        isOpen={!!variantProduct}
+        onClose={() => setVariantProduct(null)}
+        onSaved={(message) => {
+          setSuccessMessage(message)
+          setTimeout(() => {
+            setSuccessMessage('')
+          }, 3000)
+        }}
+      />
+
+      {/* 价格计划模态框 */}
+      <PriceScheduleModal
+        product={scheduleProduct}
+        isOpen={!!scheduleProduct}
+        onClose={() => setScheduleProduct(null)}
+        onSaved={(message) => {
+          setSuccessMessage(message)
+          setTimeout(() => {
+            setSuccessMessage('')
+          }, 3000)
+        }}
+      />
+
       {/* 创建商品模态框 */}
       <CreateProductModal
+        categories={categories}
         isOpen={showCreateModal}
         onClose={() => setShowCreateModal(false)}
         onCreate={handleCreateProduct}
       />
 
+      {/* 商品图片管理 */}
+      <ImageModal
+        product={imageProduct}
+        isOpen={!!imageProduct}
+        onClose={() => {
+          setImageProduct(null)
+          fetchProducts()
+        }}
+        onSaved={(message) => {
+          setSuccessMessage(message)
+          setTimeout(() => {
+            setSuccessMessage('')
+          }, 3000)
+        }}
+      />
+
+      {/* 下载文件版本管理 */}
+      <FileModal
+        product={fileProduct}
+        isOpen={!!fileProduct}
+        onClose={() => setFileProduct(null)}
+        onSaved={(message) => {
+          setSuccessMessage(message)
+          setTimeout(() => {
+            setSuccessMessage('')
+          }, 3000)
+        }}
+      />
+
+      {/* 卡密来源设置 */}
+      <KeySourceModal
+        product={keySourceProduct}
+        isOpen={!!keySourceProduct}
+        onClose={() => setKeySourceProduct(null)}
+        onSaved={(message) => {
+          setSuccessMessage(message)
+          setTimeout(() => {
+            setSuccessMessage('')
+          }, 3000)
+        }}
+      />
+
+      {/* 追踪泄露文件 */}
+      <TraceFileModal
+        isOpen={showTraceModal}
+        onClose={() => setShowTraceModal(false)}
+      />
+
+      {/* 分类与标签管理 */}
+      <CatalogModal
+        isOpen={showCatalogModal}
+        onClose={() => {
+          setShowCatalogModal(false)
+          fetchCategories()
+          fetchProducts()
+        }}
+        onSaved={(message) => {
+          setSuccessMessage(message)
+          setTimeout(() => {
+            setSuccessMessage('')
+          }, 3000)
+        }}
+      />
+
       {/* 状态确认对话框 */}
       <StatusConfirmDialog
         isOpen={statusDialog.isOpen}
@@ -0,0 +1,527 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { couponApi } from '../../services/couponApi';
+import type { Coupon, CouponDiscountType, CouponInput, CouponUsageReportRow } from '../../types/coupon';
+
+const DISCOUNT_TYPE_LABELS: Record<CouponDiscountType, string> = {
+  percentage: '百分比折扣',
+  fixed: '固定金额',
+};
+
+/**
+ * 优惠码表单（输入框均以字符串保存）
+ */
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: CouponDiscountType;
+  percentOff: string;
+  amountCNY: string;
+  amountUSD: string;
+  productIds: string;
+  maxRedemptions: string;
+  maxRedemptionsPerEmail: string;
+  stackable: boolean;
+  startsAt: string;
+  expiresAt: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: CouponForm = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  percentOff: '',
+  amountCNY: '',
+  amountUSD: '',
+  productIds: '',
+  maxRedemptions: '',
+  maxRedemptionsPerEmail: '',
+  stackable: false,
+  startsAt: '',
+  expiresAt: '',
+  isActive: true,
+};
+
+// ISO 时间与 datetime-local 输入框格式互转
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const toOptionalNumber = (value: string) => value.trim() === '' ? null : Number(value);
+
+const couponToForm = (coupon: Coupon): CouponForm => ({
+  code: coupon.code,
+  description: coupon.description || '',
+  discountType: coupon.discountType,
+  percentOff: coupon.percentOff != null ? String(coupon.percentOff) : '',
+  amountCNY: coupon.amounts?.CNY != null ? String(coupon.amounts.CNY) : '',
+  amountUSD: coupon.amounts?.USD != null ? String(coupon.amounts.USD) : '',
+  productIds: coupon.productIds?.join(',') || '',
+  maxRedemptions: coupon.maxRedemptions != null ? String(coupon.maxRedemptions) : '',
+  maxRedemptionsPerEmail: coupon.maxRedemptionsPerEmail != null ? String(coupon.maxRedemptionsPerEmail) : '',
+  stackable: coupon.stackable,
+  startsAt: toLocalInput(coupon.startsAt),
+  expiresAt: toLocalInput(coupon.expiresAt),
+  isActive: coupon.isActive,
+});
+
+const formToInput = (form: CouponForm): CouponInput => {
+  const amounts: Record<string, number> = {};
+  if (form.amountCNY.trim()) amounts.CNY = Number(form.amountCNY);
+  if (form.amountUSD.trim()) amounts.USD = Number(form.amountUSD);
+
+  const productIds = form.productIds
+    .split(/[,，\s]+/)
+    .filter(Boolean)
+    .map(Number);
+
+  return {
+    code: form.code.trim(),
+    description: form.description.trim() || null,
+    discountType: form.discountType,
+    percentOff: form.discountType === 'percentage' ? toOptionalNumber(form.percentOff) : null,
+    amounts: form.discountType === 'fixed' ? amounts : null,
+    productIds: productIds.length > 0 ? productIds : null,
+    maxRedemptions: toOptionalNumber(form.maxRedemptions),
+    maxRedemptionsPerEmail: toOptionalNumber(form.maxRedemptionsPerEmail),
+    stackable: form.stackable,
+    startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+    expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+    isActive: form.isActive,
+  };
+};
+
+const formatDiscount = (coupon: Coupon) => coupon.discountType === 'percentage'
+  ? `${coupon.percentOff}%`
+  : Object.entries(coupon.amounts || {}).map(([currency, amount]) => `${amount} ${currency}`).join(' / ');
+
+const formatDateTime = (value: string | null) => value ? new Date(value).toLocaleString() : '-';
+
+export function CouponAdmin() {
+  const { admin } = useAuth();
+  const navigate = useNavigate();
+
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [report, setReport] = useState<CouponUsageReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<CouponForm>(EMPTY_FORM);
+  const [reportRange, setReportRange] = useState({ startDate: '', endDate: '' });
+
+  // 加载优惠码列表
+  const loadCoupons = async () => {
+    try {
+      setLoading(true);
+      setCoupons(await couponApi.getCoupons());
+    } catch (error) {
+      console.error('加载优惠码失败:', error);
+      alert('加载优惠码失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 加载使用报表
+  const loadReport = async (range: { startDate: string; endDate: string }) => {
+    try {
+      setReport(await couponApi.getReport(
+        range.startDate || undefined,
+        range.endDate ? `${range.endDate} 23:59:59` : undefined
+      ));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '获取优惠码使用报表失败');
+    }
+  };
+
+  useEffect(() => {
+    loadCoupons();
+    loadReport({ startDate: '', endDate: '' });
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEdit = (coupon: Coupon) => {
+    setEditingId(coupon.id);
+    setForm(couponToForm(coupon));
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim()) {
+      alert('请输入优惠码');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const input = formToInput(form);
+      if (editingId) {
+        await couponApi.updateCoupon(editingId, input);
+      } else {
+        await couponApi.createCoupon(input);
+      }
+      setShowForm(false);
+      await loadCoupons();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '保存优惠码失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`确定要删除优惠码 ${coupon.code} 吗？已被使用过的优惠码将改为停用。`)) {
+      return;
+    }
+
+    try {
+      const result = await couponApi.deleteCoupon(coupon.id);
+      if (!result.deleted) {
+        alert('该优惠码已有使用记录，已改为停用');
+      }
+      await loadCoupons();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '删除优惠码失败');
+    }
+  };
+
+  const updateForm = (patch: Partial<CouponForm>) => setForm(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <nav className="bg-white shadow-md">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => navigate('/admin/dashboard')}
+                className="text-blue-600 hover:text-blue-800 mr-4"
+              >
+                ← 返回
+              </button>
+              <h1 className="text-xl font-semibold">优惠码管理</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-gray-700">
+                {admin!.username}
+              </span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex justify-between items-end">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">优惠码管理</h1>
+              <p className="mt-2 text-gray-600">设置折扣、适用商品、使用次数和有效期</p>
+            </div>
+            <button
+              onClick={openCreate}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              新建优惠码
+            </button>
+          </div>
+
+          {showForm && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">{editingId ? '编辑优惠码' : '新建优惠码'}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">优惠码</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => updateForm({ code: e.target.value.toUpperCase() })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded font-mono"
+                    placeholder="如 SPRING20"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">折扣类型</label>
+                  <select
+                    value={form.discountType}
+                    onChange={(e) => updateForm({ discountType: e.target.value as CouponDiscountType })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                  >
+                    {(Object.keys(DISCOUNT_TYPE_LABELS) as CouponDiscountType[]).map(key => (
+                      <option key={key} value={key}>{DISCOUNT_TYPE_LABELS[key]}</option>
+                    ))}
+                  </select>
+                </div>
+                {form.discountType === 'percentage' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">折扣比例（%）</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={form.percentOff}
+                      onChange={(e) => updateForm({ percentOff: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded"
+                    />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">优惠金额 CNY</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form.amountCNY}
+                        onChange={(e) => updateForm({ amountCNY: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">优惠金额 USD</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form.amountUSD}
+                        onChange={(e) => updateForm({ amountUSD: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded"
+                      />
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">适用商品ID（逗号分隔，留空为全部）</label>
+                  <input
+                    type="text"
+                    value={form.productIds}
+                    onChange={(e) => updateForm({ productIds: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">总使用次数上限</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.maxRedemptions}
+                    onChange={(e) => updateForm({ maxRedemptions: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                    placeholder="不限"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">每个邮箱使用次数上限</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.maxRedemptionsPerEmail}
+                    onChange={(e) => updateForm({ maxRedemptionsPerEmail: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                    placeholder="不限"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">开始时间</label>
+                  <input
+                    type="datetime-local"
+                    value={form.startsAt}
+                    onChange={(e) => updateForm({ startsAt: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">结束时间</label>
+                  <input
+                    type="datetime-local"
+                    value={form.expiresAt}
+                    onChange={(e) => updateForm({ expiresAt: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">描述</label>
+                  <input
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => updateForm({ description: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                  />
+                </div>
+              </div>
+              <div className="mt-4 flex items-center space-x-6">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.stackable}
+                    onChange={(e) => updateForm({ stackable: e.target.checked })}
+                    className="mr-2"
+                  />
+                  可与其他优惠码叠加
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => updateForm({ isActive: e.target.checked })}
+                    className="mr-2"
+                  />
+                  启用
+                </label>
+              </div>
+              <div className="mt-6 flex space-x-3">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? '保存中...' : '保存'}
+                </button>
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  取消
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="text-gray-500">加载中...</div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-left text-gray-500">
+                      <th className="px-4 py-3 font-medium">优惠码</th>
+                      <th className="px-4 py-3 font-medium">折扣</th>
+                      <th className="px-4 py-3 font-medium">适用商品</th>
+                      <th className="px-4 py-3 font-medium">已使用</th>
+                      <th className="px-4 py-3 font-medium">叠加</th>
+                      <th className="px-4 py-3 font-medium">有效期</th>
+                      <th className="px-4 py-3 font-medium">状态</th>
+                      <th className="px-4 py-3 font-medium">操作</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {coupons.length === 0 ? (
+                      <tr>
+                        <td colSpan={8} className="px-4 py-6 text-center text-gray-500">暂无优惠码</td>
+                      </tr>
+                    ) : coupons.map(coupon => (
+                      <tr key={coupon.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 font-mono">{coupon.code}</td>
+                        <td className="px-4 py-3">{formatDiscount(coupon)}</td>
+                        <td className="px-4 py-3">{coupon.productIds?.join(', ') || '全部'}</td>
+                        <td className="px-4 py-3">
+                          {coupon.redemptionCount ?? 0}
+                          {coupon.maxRedemptions != null && ` / ${coupon.maxRedemptions}`}
+                        </td>
+                        <td className="px-4 py-3">{coupon.stackable ? '是' : '否'}</td>
+                        <td className="px-4 py-3 text-xs">
+                          {formatDateTime(coupon.startsAt)} ~ {formatDateTime(coupon.expiresAt)}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-1 rounded text-xs ${coupon.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                            {coupon.isActive ? '启用' : '停用'}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 space-x-3">
+                          <button onClick={() => openEdit(coupon)} className="text-blue-600 hover:text-blue-800">
+                            编辑
+                          </button>
+                          <button onClick={() => handleDelete(coupon)} className="text-red-600 hover:text-red-800">
+                            删除
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+                <div className="flex flex-wrap justify-between items-end gap-4 mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">使用报表</h2>
+                  <div className="flex items-end gap-2">
+                    <input
+                      type="date"
+                      value={reportRange.startDate}
+                      onChange={(e) => setReportRange(prev => ({ ...prev, startDate: e.target.value }))}
+                      className="px-3 py-2 border border-gray-300 rounded text-sm"
+                    />
+                    <span className="text-gray-500 pb-2">~</span>
+                    <input
+                      type="date"
+                      value={reportRange.endDate}
+                      onChange={(e) => setReportRange(prev => ({ ...prev, endDate: e.target.value }))}
+                      className="px-3 py-2 border border-gray-300 rounded text-sm"
+                    />
+                    <button
+                      onClick={() => loadReport(reportRange)}
+                      className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 text-sm"
+                    >
+                      查询
+                    </button>
+                  </div>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-2 pr-4 font-medium">优惠码</th>
+                      <th className="py-2 pr-4 font-medium">有效使用</th>
+                      <th className="py-2 pr-4 font-medium">已释放</th>
+                      <th className="py-2 pr-4 font-medium">使用邮箱数</th>
+                      <th className="py-2 font-medium">优惠总额</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 text-gray-900">
+                    {report.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="py-4 text-center text-gray-500">所选时间段内没有使用记录</td>
+                      </tr>
+                    ) : report.map(row => (
+                      <tr key={row.couponId}>
+                        <td className="py-2 pr-4 font-mono">
+                          {row.code}
+                          {!row.isActive && <span className="ml-2 text-xs text-gray-500">（停用）</span>}
+                        </td>
+                        <td className="py-2 pr-4">{row.appliedCount}</td>
+                        <td className="py-2 pr-4">{row.releasedCount}</td>
+                        <td className="py-2 pr-4">{row.uniqueEmails}</td>
+                        <td className="py-2">
+                          {Object.entries(row.discountByCurrency)
+                            .map(([currency, amount]) => `${amount.toFixed(2)} ${currency}`)
+                            .join(' / ') || '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default CouponAdmin;
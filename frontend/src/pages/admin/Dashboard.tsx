@@ -68,6 +68,72 @@ export default function Dashboard() {
                 进入管理
               </button>
             </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-2">支付网关</h3>
+              <p className="text-gray-600 mb-4">启用支付网关并配置密钥</p>
+              <button
+                onClick={() => navigate('/admin/payment-gateways')}
+                className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
+              >
+                进入管理
+              </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-2">支付对账</h3>
+              <p className="text-gray-600 mb-4">查看待支付订单的网关对账报告</p>
+              <button
+                onClick={() => navigate('/admin/reconciliation')}
+                className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
+              >
+                进入管理
+              </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-2">结算对账</h3>
+              <p className="text-gray-600 mb-4">导入网关结算文件并核对差异</p>
+              <button
+                onClick={() => navigate('/admin/settlements')}
+                className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
+              >
+                进入管理
+              </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-2">优惠码</h3>
+              <p className="text-gray-600 mb-4">创建优惠码并查看使用情况</p>
+              <button
+                onClick={() => navigate('/admin/coupons')}
+                className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
+              >
+                进入管理
+              </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-2">税率</h3>
+              <p className="text-gray-600 mb-4">按国家和商品分类设置税率</p>
+              <button
+                onClick={() => navigate('/admin/tax-rules')}
+                className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
+              >
+                进入管理
+              </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-2">汇率</h3>
+              <p className="text-gray-600 mb-4">按基准货币价格和汇率推算其他货币售价</p>
+              <button
+                onClick={() => navigate('/admin/exchange-rates')}
+                className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
+              >
+                进入管理
+              </button>
+            </div>
           </div>
         </div>
       </main>
@@ -0,0 +1,298 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { exchangeRateApi } from '../../services/exchangeRateApi';
+import type { ExchangeRate, FxSettings, RoundingRule } from '../../types/exchangeRate';
+
+const ROUNDING_OPTIONS: Array<{ value: RoundingRule; label: string }> = [
+  { value: 'none', label: '保留两位小数' },
+  { value: 'integer', label: '取整' },
+  { value: 'charm', label: '.99 结尾' },
+];
+
+export function ExchangeRateAdmin() {
+  const { admin } = useAuth();
+  const navigate = useNavigate();
+
+  const [settings, setSettings] = useState<FxSettings | null>(null);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [currencies, setCurrencies] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+
+  // 加载汇率模式设置和汇率
+  const loadOverview = async () => {
+    try {
+      setLoading(true);
+      const overview = await exchangeRateApi.getOverview();
+      setSettings(overview.settings);
+      setRates(overview.rates);
+      setCurrencies(overview.currencies);
+      setRateInputs(Object.fromEntries(overview.rates.map(rate => [rate.currency, String(rate.rate)])));
+    } catch (error) {
+      console.error('加载汇率失败:', error);
+      alert('加载汇率失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadOverview();
+  }, []);
+
+  const handleSaveSettings = async () => {
+    if (!settings) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await exchangeRateApi.updateSettings({
+        enabled: settings.enabled,
+        baseCurrency: settings.baseCurrency,
+        rounding: settings.rounding,
+      });
+      setSettings(saved);
+      await loadOverview();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '保存汇率模式设置失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRate = async (currency: string) => {
+    const rate = Number(rateInputs[currency]);
+    if (!rateInputs[currency] || isNaN(rate) || rate <= 0) {
+      alert('请输入大于 0 的汇率');
+      return;
+    }
+
+    try {
+      await exchangeRateApi.setRate(currency, rate);
+      await loadOverview();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '设置汇率失败');
+    }
+  };
+
+  const handleDeleteRate = async (rate: ExchangeRate) => {
+    if (!confirm(`确定要删除 ${rate.currency} 汇率吗？删除后该货币不再推算价格`)) {
+      return;
+    }
+
+    try {
+      await exchangeRateApi.deleteRate(rate.id);
+      await loadOverview();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '删除汇率失败');
+    }
+  };
+
+  // 导入本地文件（JSON 或 CSV），不选文件时导入服务器上配置的汇率文件
+  const handleImport = async (file?: File) => {
+    try {
+      const content = file ? await file.text() : undefined;
+      const imported = await exchangeRateApi.importRates(content);
+      alert(`已导入 ${imported} 条汇率`);
+      await loadOverview();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '导入汇率失败');
+    }
+  };
+
+  const updateRounding = (currency: string, rule: RoundingRule) => {
+    setSettings(prev => prev && { ...prev, rounding: { ...prev.rounding, [currency]: rule } });
+  };
+
+  const targetCurrencies = currencies.filter(currency => currency !== settings?.baseCurrency);
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <nav className="bg-white shadow-md">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => navigate('/admin/dashboard')}
+                className="text-blue-600 hover:text-blue-800 mr-4"
+              >
+                ← 返回
+              </button>
+              <h1 className="text-xl font-semibold">汇率管理</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-gray-700">
+                {admin!.username}
+              </span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">汇率管理</h1>
+            <p className="mt-2 text-gray-600">开启后，商品没有单独定价的货币按基准货币价格和汇率推算售价，单独设置的价格始终优先</p>
+          </div>
+
+          {loading || !settings ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="text-gray-500">加载中...</div>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">汇率模式</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={settings.enabled}
+                      onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                      className="mr-2"
+                    />
+                    按汇率推算价格
+                  </label>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">基准货币</label>
+                    <select
+                      value={settings.baseCurrency}
+                      onChange={(e) => setSettings({ ...settings, baseCurrency: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded"
+                    >
+                      {currencies.map(currency => (
+                        <option key={currency} value={currency}>{currency}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">默认取整规则</label>
+                    <select
+                      value={settings.rounding.default ?? 'none'}
+                      onChange={(e) => updateRounding('default', e.target.value as RoundingRule)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded"
+                    >
+                      {ROUNDING_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="mt-6 flex space-x-3">
+                  <button
+                    onClick={handleSaveSettings}
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? '保存中...' : '保存设置'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-md overflow-x-auto mb-6">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-left text-gray-500">
+                      <th className="px-4 py-3 font-medium">货币</th>
+                      <th className="px-4 py-3 font-medium">汇率（1 {settings.baseCurrency} =）</th>
+                      <th className="px-4 py-3 font-medium">取整规则</th>
+                      <th className="px-4 py-3 font-medium">来源</th>
+                      <th className="px-4 py-3 font-medium">更新时间</th>
+                      <th className="px-4 py-3 font-medium">操作</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {targetCurrencies.map(currency => {
+                      const rate = rates.find(item => item.currency === currency);
+                      return (
+                        <tr key={currency} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 font-mono">{currency}</td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.000001"
+                              value={rateInputs[currency] ?? ''}
+                              onChange={(e) => setRateInputs(prev => ({ ...prev, [currency]: e.target.value }))}
+                              className="w-32 px-2 py-1 border border-gray-300 rounded"
+                              placeholder="未设置"
+                            />
+                          </td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={settings.rounding[currency] ?? ''}
+                              onChange={(e) => updateRounding(currency, e.target.value as RoundingRule)}
+                              className="px-2 py-1 border border-gray-300 rounded"
+                            >
+                              {settings.rounding[currency] === undefined && <option value="">跟随默认</option>}
+                              {ROUNDING_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-4 py-3 text-gray-600">
+                            {rate ? (rate.source === 'file' ? '文件导入' : '手动') : '-'}
+                          </td>
+                          <td className="px-4 py-3 text-gray-600">
+                            {rate?.updatedAt ? new Date(rate.updatedAt).toLocaleString('zh-CN') : '-'}
+                          </td>
+                          <td className="px-4 py-3 space-x-3">
+                            <button onClick={() => handleSaveRate(currency)} className="text-blue-600 hover:text-blue-800">
+                              保存
+                            </button>
+                            {rate && (
+                              <button onClick={() => handleDeleteRate(rate)} className="text-red-600 hover:text-red-800">
+                                删除
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className="px-4 py-3 text-xs text-gray-500">取整规则修改后需点击上方「保存设置」生效</p>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">导入汇率</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  支持 JSON（{'{"base": "CNY", "rates": {"USD": 0.14}}'}）或 CSV（每行 currency,rate）。
+                  服务器汇率文件路径：<span className="font-mono">{settings.ratesFile}</span>
+                </p>
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="file"
+                    accept=".json,.csv,.txt"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) {
+                        handleImport(file);
+                      }
+                      e.target.value = '';
+                    }}
+                    className="text-sm"
+                  />
+                  <button
+                    onClick={() => handleImport()}
+                    className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    导入服务器汇率文件
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default ExchangeRateAdmin;
@@ -129,18 +129,18 @@ export function OrderAdmin() {
   };
 
   // 执行退款
-  const handleRefund = async (reason?: string) => {
+  const handleRefund = async (reason?: string, amount?: number) => {
     if (!confirmDialog.order) return;
 
     try {
       const refundReason = reason || '管理员手动退款';
-      await orderAdminApi.refundOrder(confirmDialog.order.id, refundReason);
-      alert('退款操作成功');
+      const refund = await orderAdminApi.refundOrder(confirmDialog.order.id, refundReason, amount);
+      alert(refund.status === 'succeeded' ? '退款成功' : '退款已提交，等待支付网关处理');
       handleCloseConfirm();
       loadOrders();
     } catch (error) {
       console.error('退款失败:', error);
-      alert('退款失败，请重试');
+      alert(error instanceof Error ? error.message : '退款失败，请重试');
     }
   };
 
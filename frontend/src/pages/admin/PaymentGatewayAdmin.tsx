@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { paymentGatewayAdminApi } from '../../services/paymentGatewayAdminApi';
+import type { GatewayConfigField, GatewayConfigValue, PaymentGatewayConfig } from '../../types/paymentGatewayAdmin';
+
+/**
+ * 单个网关的配置表单（字段由后端网关插件的配置 schema 生成）
+ */
+function GatewayConfigCard({
+  gateway,
+  onSaved,
+}: {
+  gateway: PaymentGatewayConfig;
+  onSaved: (gateway: PaymentGatewayConfig) => void;
+}) {
+  const [values, setValues] = useState<Record<string, GatewayConfigValue>>(gateway.values);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setValues(gateway.values);
+  }, [gateway]);
+
+  const updateValue = (key: string, value: GatewayConfigValue) => {
+    setValues({ ...values, [key]: value });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = await paymentGatewayAdminApi.updateConfig(gateway.id, values);
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderInput = (field: GatewayConfigField) => {
+    const value = values[field.key];
+    const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+    const placeholder = field.secret && gateway.configuredSecrets.includes(field.key) ? '已设置，留空保持不变' : '';
+
+    if (field.type === 'boolean') {
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => updateValue(field.key, e.target.checked)}
+          className="h-4 w-4"
+        />
+      );
+    }
+
+    if (field.type === 'enum') {
+      return (
+        <select
+          value={String(value ?? '')}
+          onChange={(e) => updateValue(field.key, e.target.value)}
+          className={inputClass}
+        >
+          {field.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (field.type === 'number') {
+      return (
+        <input
+          type="number"
+          value={String(value ?? '')}
+          onChange={(e) => updateValue(field.key, Number(e.target.value))}
+          className={inputClass}
+        />
+      );
+    }
+
+    if (field.multiline) {
+      return (
+        <textarea
+          rows={4}
+          value={String(value ?? '')}
+          placeholder={placeholder}
+          onChange={(e) => updateValue(field.key, e.target.value)}
+          className={`${inputClass} font-mono text-xs`}
+        />
+      );
+    }
+
+    return (
+      <input
+        type={field.secret ? 'password' : 'text'}
+        value={String(value ?? '')}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(e) => updateValue(field.key, e.target.value)}
+        className={inputClass}
+      />
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">{gateway.displayName}</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            支持货币：{gateway.supportedCurrencies.join(', ')}（推荐 {gateway.recommendedCurrency}）
+          </p>
+          <p className="text-sm text-gray-500 mt-1 break-all">回调地址：{gateway.webhookUrl}</p>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs ${gateway.values.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+          {gateway.values.enabled ? '已启用' : '未启用'}
+        </span>
+      </div>
+
+      <div className="space-y-4">
+        {gateway.fields.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {field.label}
+              <span className="ml-2 text-xs text-gray-400">{field.configKey}</span>
+            </label>
+            {renderInput(field)}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      <div className="mt-6 flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? '保存中...' : '保存配置'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function PaymentGatewayAdmin() {
+  const { admin } = useAuth();
+  const navigate = useNavigate();
+
+  const [gateways, setGateways] = useState<PaymentGatewayConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // 加载网关配置
+  const loadGateways = async () => {
+    try {
+      setLoading(true);
+      setGateways(await paymentGatewayAdminApi.getGateways());
+    } catch (error) {
+      console.error('加载支付网关配置失败:', error);
+      alert('加载支付网关配置失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGateways();
+  }, []);
+
+  const handleSaved = (saved: PaymentGatewayConfig) => {
+    setGateways(gateways.map(gateway => (gateway.id === saved.id ? saved : gateway)));
+    alert(`${saved.displayName} 配置已保存`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <nav className="bg-white shadow-md">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => navigate('/admin/dashboard')}
+                className="text-blue-600 hover:text-blue-800 mr-4"
+              >
+                ← 返回
+              </button>
+              <h1 className="text-xl font-semibold">支付网关</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-gray-700">
+                {admin!.username}
+              </span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">支付网关</h1>
+            <p className="mt-2 text-gray-600">启用支付网关并配置密钥，敏感字段不会回显</p>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="text-gray-500">加载中...</div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {gateways.map(gateway => (
+                <GatewayConfigCard key={gateway.id} gateway={gateway} onSaved={handleSaved} />
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default PaymentGatewayAdmin;
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { reconciliationApi } from '../../services/reconciliationApi';
+import type { ReconciliationOutcome, ReconciliationReport, ReconciliationRun } from '../../types/reconciliation';
+
+const OUTCOME_LABELS: Record<ReconciliationOutcome, { label: string; className: string }> = {
+  matched: { label: '一致', className: 'bg-gray-100 text-gray-700' },
+  recovered: { label: '已恢复', className: 'bg-green-100 text-green-800' },
+  mismatched: { label: '金额不一致', className: 'bg-red-100 text-red-800' },
+  error: { label: '查询失败', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+/**
+ * 单次对账的明细表
+ */
+function ReconciliationReportTable({ report }: { report: ReconciliationReport }) {
+  if (report.items.length === 0) {
+    return <p className="text-sm text-gray-500">本次对账没有需要查询的待支付订单</p>;
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-2 pr-4 font-medium">订单ID</th>
+          <th className="py-2 pr-4 font-medium">网关</th>
+          <th className="py-2 pr-4 font-medium">结果</th>
+          <th className="py-2 pr-4 font-medium">网关状态</th>
+          <th className="py-2 pr-4 font-medium">订单金额</th>
+          <th className="py-2 pr-4 font-medium">网关金额</th>
+          <th className="py-2 font-medium">说明</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 text-gray-900">
+        {report.items.map(item => (
+          <tr key={item.id}>
+            <td className="py-2 pr-4 font-mono text-xs">{item.orderId}</td>
+            <td className="py-2 pr-4">{item.gateway}</td>
+            <td className="py-2 pr-4">
+              <span className={`px-2 py-1 rounded text-xs ${OUTCOME_LABELS[item.outcome].className}`}>
+                {OUTCOME_LABELS[item.outcome].label}
+              </span>
+            </td>
+            <td className="py-2 pr-4">{item.gatewayStatus || '-'}</td>
+            <td className="py-2 pr-4">{item.localAmount.toFixed(2)} {item.currency}</td>
+            <td className="py-2 pr-4">{item.gatewayAmount != null ? item.gatewayAmount.toFixed(2) : '-'}</td>
+            <td className="py-2 text-gray-600">{item.message || '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function ReconciliationAdmin() {
+  const { admin } = useAuth();
+  const navigate = useNavigate();
+
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  // 加载对账批次
+  const loadRuns = async () => {
+    try {
+      setLoading(true);
+      setRuns(await reconciliationApi.getRuns());
+    } catch (error) {
+      console.error('加载对账记录失败:', error);
+      alert('加载对账记录失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const handleSelect = async (runId: number) => {
+    try {
+      setReport(await reconciliationApi.getReport(runId));
+    } catch (error) {
+      console.error('加载对账报告失败:', error);
+      alert('加载对账报告失败，请重试');
+    }
+  };
+
+  const handleRunNow = async () => {
+    try {
+      setRunning(true);
+      const run = await reconciliationApi.runNow();
+      await loadRuns();
+      await handleSelect(run.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '执行对账失败');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <nav className="bg-white shadow-md">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => navigate('/admin/dashboard')}
+                className="text-blue-600 hover:text-blue-800 mr-4"
+              >
+                ← 返回
+              </button>
+              <h1 className="text-xl font-semibold">支付对账</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-gray-700">
+                {admin!.username}
+              </span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex justify-between items-end">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">支付对账</h1>
+              <p className="mt-2 text-gray-600">定期向支付网关查询长时间未支付的订单，补偿丢失的支付回调</p>
+            </div>
+            <button
+              onClick={handleRunNow}
+              disabled={running}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {running ? '对账中...' : '立即对账'}
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="text-gray-500">加载中...</div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-left text-gray-500">
+                      <th className="px-4 py-3 font-medium">批次</th>
+                      <th className="px-4 py-3 font-medium">开始时间</th>
+                      <th className="px-4 py-3 font-medium">触发方式</th>
+                      <th className="px-4 py-3 font-medium">状态</th>
+                      <th className="px-4 py-3 font-medium">查询</th>
+                      <th className="px-4 py-3 font-medium">一致</th>
+                      <th className="px-4 py-3 font-medium">已恢复</th>
+                      <th className="px-4 py-3 font-medium">金额不一致</th>
+                      <th className="px-4 py-3 font-medium">失败</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {runs.length === 0 ? (
+                      <tr>
+                        <td colSpan={9} className="px-4 py-6 text-center text-gray-500">暂无对账记录</td>
+                      </tr>
+                    ) : runs.map(run => (
+                      <tr
+                        key={run.id}
+                        onClick={() => handleSelect(run.id)}
+                        className={`cursor-pointer hover:bg-gray-50 ${report?.run.id === run.id ? 'bg-blue-50' : ''}`}
+                      >
+                        <td className="px-4 py-3">#{run.id}</td>
+                        <td className="px-4 py-3">{new Date(run.startedAt).toLocaleString()}</td>
+                        <td className="px-4 py-3">{run.triggeredBy === 'scheduler' ? '定时' : run.triggeredBy}</td>
+                        <td className="px-4 py-3" title={run.errorMessage}>{run.status}</td>
+                        <td className="px-4 py-3">{run.checkedCount}</td>
+                        <td className="px-4 py-3">{run.matchedCount}</td>
+                        <td className="px-4 py-3 text-green-700">{run.recoveredCount}</td>
+                        <td className="px-4 py-3 text-red-700">{run.mismatchedCount}</td>
+                        <td className="px-4 py-3 text-yellow-700">{run.errorCount}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {report && (
+                <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">对账报告 #{report.run.id}</h2>
+                  <ReconciliationReportTable report={report} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default ReconciliationAdmin;
@@ -0,0 +1,284 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { settlementApi } from '../../services/settlementApi';
+import type {
+  SettlementDiscrepancyType,
+  SettlementGateway,
+  SettlementImport,
+  SettlementReport,
+} from '../../types/settlement';
+
+const DISCREPANCY_LABELS: Record<SettlementDiscrepancyType, { label: string; className: string }> = {
+  missing_order: { label: '本地无订单', className: 'bg-red-100 text-red-800' },
+  amount_mismatch: { label: '金额不一致', className: 'bg-red-100 text-red-800' },
+  status_mismatch: { label: '状态不一致', className: 'bg-yellow-100 text-yellow-800' },
+  duplicate: { label: '重复', className: 'bg-purple-100 text-purple-800' },
+  refund_not_reflected: { label: '退款未入账', className: 'bg-orange-100 text-orange-800' },
+};
+
+const GATEWAY_LABELS: Record<SettlementGateway, string> = {
+  alipay: '支付宝账单',
+  creem: 'Creem 结算导出',
+};
+
+/**
+ * 单次导入的差异明细表
+ */
+function SettlementDiscrepancyTable({ report }: { report: SettlementReport }) {
+  if (report.discrepancies.length === 0) {
+    return <p className="text-sm text-gray-500">结算文件与本地记录完全一致</p>;
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-2 pr-4 font-medium">行号</th>
+          <th className="py-2 pr-4 font-medium">差异</th>
+          <th className="py-2 pr-4 font-medium">网关订单号</th>
+          <th className="py-2 pr-4 font-medium">本地订单ID</th>
+          <th className="py-2 pr-4 font-medium">本地金额</th>
+          <th className="py-2 pr-4 font-medium">结算金额</th>
+          <th className="py-2 font-medium">说明</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 text-gray-900">
+        {report.discrepancies.map(discrepancy => (
+          <tr key={discrepancy.id}>
+            <td className="py-2 pr-4">{discrepancy.lineNo}</td>
+            <td className="py-2 pr-4">
+              <span className={`px-2 py-1 rounded text-xs ${DISCREPANCY_LABELS[discrepancy.type].className}`}>
+                {DISCREPANCY_LABELS[discrepancy.type].label}
+              </span>
+            </td>
+            <td className="py-2 pr-4 font-mono text-xs">{discrepancy.gatewayOrderId || '-'}</td>
+            <td className="py-2 pr-4 font-mono text-xs">{discrepancy.orderId || '-'}</td>
+            <td className="py-2 pr-4">{discrepancy.localAmount != null ? discrepancy.localAmount.toFixed(2) : '-'}</td>
+            <td className="py-2 pr-4">{discrepancy.settledAmount.toFixed(2)} {discrepancy.currency}</td>
+            <td className="py-2 text-gray-600">{discrepancy.message}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function SettlementAdmin() {
+  const { admin } = useAuth();
+  const navigate = useNavigate();
+
+  const [imports, setImports] = useState<SettlementImport[]>([]);
+  const [report, setReport] = useState<SettlementReport | null>(null);
+  const [gateway, setGateway] = useState<SettlementGateway>('alipay');
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  // 加载导入记录
+  const loadImports = async () => {
+    try {
+      setLoading(true);
+      setImports(await settlementApi.getImports());
+    } catch (error) {
+      console.error('加载导入记录失败:', error);
+      alert('加载导入记录失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadImports();
+  }, []);
+
+  const handleSelect = async (importId: number) => {
+    try {
+      setReport(await settlementApi.getReport(importId));
+    } catch (error) {
+      console.error('加载结算差异失败:', error);
+      alert('加载结算差异失败，请重试');
+    }
+  };
+
+  // 支付宝账单为 GBK 编码，其余按 UTF-8 读取
+  const readFile = (selected: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(new Error('读取文件失败'));
+    reader.readAsText(selected, gateway === 'alipay' ? 'GBK' : 'UTF-8');
+  });
+
+  const handleImport = async () => {
+    if (!file) {
+      alert('请选择结算文件');
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      alert('文件大小不能超过 5MB');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const settlement = await settlementApi.importFile(gateway, file.name, await readFile(file));
+      setFile(null);
+      await loadImports();
+      await handleSelect(settlement.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '导入结算文件失败');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDownload = async (settlement: SettlementImport) => {
+    try {
+      const blob = await settlementApi.downloadReport(settlement.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `settlement_${settlement.gateway}_${settlement.id}_discrepancies.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '下载差异报告失败');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <nav className="bg-white shadow-md">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => navigate('/admin/dashboard')}
+                className="text-blue-600 hover:text-blue-800 mr-4"
+              >
+                ← 返回
+              </button>
+              <h1 className="text-xl font-semibold">结算对账</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-gray-700">
+                {admin!.username}
+              </span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">结算对账</h1>
+            <p className="mt-2 text-gray-600">导入网关结算文件，与本地订单和退款记录逐笔核对</p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6 flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">文件类型</label>
+              <select
+                value={gateway}
+                onChange={(e) => setGateway(e.target.value as SettlementGateway)}
+                className="px-3 py-2 border border-gray-300 rounded"
+              >
+                {(Object.keys(GATEWAY_LABELS) as SettlementGateway[]).map(key => (
+                  <option key={key} value={key}>{GATEWAY_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">结算文件（CSV）</label>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="text-sm"
+              />
+            </div>
+            <button
+              onClick={handleImport}
+              disabled={importing || !file}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {importing ? '导入中...' : '导入并核对'}
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="text-gray-500">加载中...</div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-left text-gray-500">
+                      <th className="px-4 py-3 font-medium">批次</th>
+                      <th className="px-4 py-3 font-medium">导入时间</th>
+                      <th className="px-4 py-3 font-medium">网关</th>
+                      <th className="px-4 py-3 font-medium">文件</th>
+                      <th className="px-4 py-3 font-medium">明细行</th>
+                      <th className="px-4 py-3 font-medium">一致</th>
+                      <th className="px-4 py-3 font-medium">差异</th>
+                      <th className="px-4 py-3 font-medium">收款合计</th>
+                      <th className="px-4 py-3 font-medium">退款合计</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {imports.length === 0 ? (
+                      <tr>
+                        <td colSpan={9} className="px-4 py-6 text-center text-gray-500">暂无导入记录</td>
+                      </tr>
+                    ) : imports.map(settlement => (
+                      <tr
+                        key={settlement.id}
+                        onClick={() => handleSelect(settlement.id)}
+                        className={`cursor-pointer hover:bg-gray-50 ${report?.settlement.id === settlement.id ? 'bg-blue-50' : ''}`}
+                      >
+                        <td className="px-4 py-3">#{settlement.id}</td>
+                        <td className="px-4 py-3">{new Date(settlement.createdAt).toLocaleString()}</td>
+                        <td className="px-4 py-3">{settlement.gateway}</td>
+                        <td className="px-4 py-3">{settlement.fileName}</td>
+                        <td className="px-4 py-3">{settlement.lineCount}</td>
+                        <td className="px-4 py-3 text-green-700">{settlement.matchedCount}</td>
+                        <td className="px-4 py-3 text-red-700">{settlement.discrepancyCount}</td>
+                        <td className="px-4 py-3">{settlement.paymentAmount.toFixed(2)}</td>
+                        <td className="px-4 py-3">{settlement.refundAmount.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {report && (
+                <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold text-gray-900">差异明细 #{report.settlement.id}</h2>
+                    {report.discrepancies.length > 0 && (
+                      <button
+                        onClick={() => handleDownload(report.settlement)}
+                        className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 text-sm"
+                      >
+                        下载差异报告
+                      </button>
+                    )}
+                  </div>
+                  <SettlementDiscrepancyTable report={report} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default SettlementAdmin;
@@ -0,0 +1,293 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { taxApi } from '../../services/taxApi';
+import type { TaxRule, TaxRuleInput } from '../../types/tax';
+
+/**
+ * 税率规则表单（输入框均以字符串保存）
+ */
+interface TaxRuleForm {
+  country: string;
+  taxCategory: string;
+  name: string;
+  rate: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: TaxRuleForm = {
+  country: '',
+  taxCategory: '',
+  name: 'VAT',
+  rate: '',
+  isActive: true,
+};
+
+const ruleToForm = (rule: TaxRule): TaxRuleForm => ({
+  country: rule.country,
+  taxCategory: rule.taxCategory || '',
+  name: rule.name,
+  rate: String(rule.rate),
+  isActive: rule.isActive,
+});
+
+const formToInput = (form: TaxRuleForm): TaxRuleInput => ({
+  country: form.country.trim().toUpperCase(),
+  taxCategory: form.taxCategory.trim() || null,
+  name: form.name.trim() || undefined,
+  rate: Number(form.rate),
+  isActive: form.isActive,
+});
+
+export function TaxRuleAdmin() {
+  const { admin } = useAuth();
+  const navigate = useNavigate();
+
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<TaxRuleForm>(EMPTY_FORM);
+
+  // 加载税率规则
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      setRules(await taxApi.getRules());
+    } catch (error) {
+      console.error('加载税率规则失败:', error);
+      alert('加载税率规则失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEdit = (rule: TaxRule) => {
+    setEditingId(rule.id);
+    setForm(ruleToForm(rule));
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!/^[A-Za-z]{2}$/.test(form.country.trim())) {
+      alert('请输入两位国家代码，如 DE');
+      return;
+    }
+    if (form.rate.trim() === '' || isNaN(Number(form.rate))) {
+      alert('请输入税率');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const input = formToInput(form);
+      if (editingId) {
+        await taxApi.updateRule(editingId, input);
+      } else {
+        await taxApi.createRule(input);
+      }
+      setShowForm(false);
+      await loadRules();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '保存税率规则失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: TaxRule) => {
+    if (!confirm(`确定要删除 ${rule.country} ${rule.taxCategory || '默认'} 税率规则吗？`)) {
+      return;
+    }
+
+    try {
+      await taxApi.deleteRule(rule.id);
+      await loadRules();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '删除税率规则失败');
+    }
+  };
+
+  const updateForm = (patch: Partial<TaxRuleForm>) => setForm(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <nav className="bg-white shadow-md">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => navigate('/admin/dashboard')}
+                className="text-blue-600 hover:text-blue-800 mr-4"
+              >
+                ← 返回
+              </button>
+              <h1 className="text-xl font-semibold">税率管理</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-gray-700">
+                {admin!.username}
+              </span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex justify-between items-end">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">税率管理</h1>
+              <p className="mt-2 text-gray-600">按买家国家和商品税务分类设置税率，分类留空为该国家的默认税率</p>
+            </div>
+            <button
+              onClick={openCreate}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              新建税率规则
+            </button>
+          </div>
+
+          {showForm && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">{editingId ? '编辑税率规则' : '新建税率规则'}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">国家代码</label>
+                  <input
+                    type="text"
+                    maxLength={2}
+                    value={form.country}
+                    onChange={(e) => updateForm({ country: e.target.value.toUpperCase() })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded font-mono"
+                    placeholder="如 DE"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">税务分类（留空为默认）</label>
+                  <input
+                    type="text"
+                    value={form.taxCategory}
+                    onChange={(e) => updateForm({ taxCategory: e.target.value.toLowerCase() })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded font-mono"
+                    placeholder="如 ebook"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">税种名称</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">税率（%）</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={form.rate}
+                    onChange={(e) => updateForm({ rate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded"
+                  />
+                </div>
+              </div>
+              <div className="mt-4">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => updateForm({ isActive: e.target.checked })}
+                    className="mr-2"
+                  />
+                  启用
+                </label>
+              </div>
+              <div className="mt-6 flex space-x-3">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? '保存中...' : '保存'}
+                </button>
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  取消
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="text-gray-500">加载中...</div>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-gray-500">
+                    <th className="px-4 py-3 font-medium">国家</th>
+                    <th className="px-4 py-3 font-medium">税务分类</th>
+                    <th className="px-4 py-3 font-medium">税种</th>
+                    <th className="px-4 py-3 font-medium">税率</th>
+                    <th className="px-4 py-3 font-medium">状态</th>
+                    <th className="px-4 py-3 font-medium">操作</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rules.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-6 text-center text-gray-500">暂无税率规则，所有订单不收税</td>
+                    </tr>
+                  ) : rules.map(rule => (
+                    <tr key={rule.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 font-mono">{rule.country}</td>
+                      <td className="px-4 py-3 font-mono">{rule.taxCategory || '默认'}</td>
+                      <td className="px-4 py-3">{rule.name}</td>
+                      <td className="px-4 py-3">{rule.rate}%</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded text-xs ${rule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                          {rule.isActive ? '启用' : '停用'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 space-x-3">
+                        <button onClick={() => openEdit(rule)} className="text-blue-600 hover:text-blue-800">
+                          编辑
+                        </button>
+                        <button onClick={() => handleDelete(rule)} className="text-red-600 hover:text-red-800">
+                          删除
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default TaxRuleAdmin;
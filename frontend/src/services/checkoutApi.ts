@@ -1,5 +1,8 @@
 import type {
   OrderCreateRequest,
+  CartOrderCreateRequest,
+  QuoteRequest,
+  OrderQuote,
   OrderCreateResponse,
   Order,
   ApiResponse
@@ -9,11 +12,11 @@ import { API_FULL_URL } from '../config/api';
 
 /**
  * 创建订单
- * @param orderData 订单创建请求数据
+ * @param orderData 订单创建请求数据（单个商品或购物车）
  * @returns 订单创建响应
  */
 export const createOrder = async (
-  orderData: OrderCreateRequest
+  orderData: OrderCreateRequest | CartOrderCreateRequest
 ): Promise<OrderCreateResponse> => {
   try {
     const response = await fetch(`${API_FULL_URL}/checkout/create`, {
@@ -29,12 +32,12 @@ export const createOrder = async (
       paymentUrl: string;
     }> = await response.json();
 
-    if (!response.ok) {
-      throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
-    }
-
-    if (!data.success) {
-      throw new Error(data.error || '订单创建失败');
+    if (!response.ok || !data.success) {
+      return {
+        success: false,
+        error: data.error || `HTTP ${response.status}: ${response.statusText}`,
+        code: data.code,
+      };
     }
 
     return {
@@ -51,6 +54,29 @@ export const createOrder = async (
   }
 };
 
+/**
+ * 获取订单报价（订单金额由服务端计算）
+ * @param quoteData 购买的商品、货币和优惠码
+ * @returns 带签名令牌的报价，下单时需原样回传
+ */
+export const getQuote = async (quoteData: QuoteRequest): Promise<OrderQuote> => {
+  const response = await fetch(`${API_FULL_URL}/checkout/quote`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(quoteData),
+  });
+
+  const data: ApiResponse<OrderQuote> = await response.json();
+
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error || '获取订单金额失败');
+  }
+
+  return data.data;
+};
+
 /**
  * 获取订单详情
  * @param orderId 订单ID
@@ -118,14 +144,17 @@ export const validateProductForPurchase = async (
  */
 export const buildCheckoutUrl = (params: {
   productId: string;
+  variantId?: number;
   productName: string;
   price: number;
   currency: Currency;
+  quantity?: number;
 }): string => {
-  const { productId, productName, price, currency } = params;
+  const { productId, variantId, productName, price, currency, quantity = 1 } = params;
 
   // URL编码商品名称
   const encodedProductName = encodeURIComponent(productName);
+  const variantParam = variantId ? `&variantId=${variantId}` : '';
 
-  return `/checkout?productId=${productId}&productName=${encodedProductName}&price=${price}&currency=${currency}`;
+  return `/checkout?productId=${productId}${variantParam}&productName=${encodedProductName}&price=${price}&currency=${currency}&quantity=${quantity}`;
 };
\ No newline at end of file
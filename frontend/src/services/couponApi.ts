@@ -0,0 +1,135 @@
+import type { Coupon, CouponInput, CouponRedemption, CouponUsageReportRow } from '../types/coupon';
+import { ADMIN_API_URL } from '../config/api';
+
+/**
+ * 优惠码管理API服务
+ */
+export class CouponApi {
+  private static getAuthHeaders() {
+    const token = localStorage.getItem('admin_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : '',
+    };
+  }
+
+  /**
+   * 获取优惠码列表
+   */
+  static async getCoupons(page = 1, limit = 100): Promise<Coupon[]> {
+    const response = await fetch(`${ADMIN_API_URL}/coupons?page=${page}&limit=${limit}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('未授权访问，请重新登录');
+      }
+      throw new Error(`获取优惠码列表失败: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || '获取优惠码列表失败');
+    }
+
+    return result.data.coupons;
+  }
+
+  /**
+   * 获取优惠码使用报表
+   */
+  static async getReport(startDate?: string, endDate?: string): Promise<CouponUsageReportRow[]> {
+    const params = new URLSearchParams();
+    if (startDate) params.set('startDate', startDate);
+    if (endDate) params.set('endDate', endDate);
+
+    const response = await fetch(`${ADMIN_API_URL}/coupons/report?${params.toString()}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '获取优惠码使用报表失败');
+    }
+
+    return result.data.report;
+  }
+
+  /**
+   * 获取优惠码使用记录
+   */
+  static async getRedemptions(couponId: number, page = 1, limit = 50): Promise<CouponRedemption[]> {
+    const response = await fetch(`${ADMIN_API_URL}/coupons/${couponId}/redemptions?page=${page}&limit=${limit}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '获取优惠码使用记录失败');
+    }
+
+    return result.data.redemptions;
+  }
+
+  /**
+   * 创建优惠码
+   */
+  static async createCoupon(input: CouponInput): Promise<Coupon> {
+    const response = await fetch(`${ADMIN_API_URL}/coupons`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(input),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '创建优惠码失败');
+    }
+
+    return result.data.coupon;
+  }
+
+  /**
+   * 更新优惠码
+   */
+  static async updateCoupon(couponId: number, input: CouponInput): Promise<Coupon> {
+    const response = await fetch(`${ADMIN_API_URL}/coupons/${couponId}`, {
+      method: 'PUT',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(input),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '更新优惠码失败');
+    }
+
+    return result.data.coupon;
+  }
+
+  /**
+   * 删除优惠码（已被使用的优惠码会被停用）
+   */
+  static async deleteCoupon(couponId: number): Promise<{ deleted: boolean; deactivated: boolean }> {
+    const response = await fetch(`${ADMIN_API_URL}/coupons/${couponId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '删除优惠码失败');
+    }
+
+    return result.data;
+  }
+}
+
+export const couponApi = CouponApi;
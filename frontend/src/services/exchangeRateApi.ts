@@ -0,0 +1,114 @@
+import type { ExchangeRate, ExchangeRateOverview, FxSettings, FxSettingsInput } from '../types/exchangeRate';
+import { ADMIN_API_URL } from '../config/api';
+
+/**
+ * 汇率管理API服务
+ */
+export class ExchangeRateApi {
+  private static getAuthHeaders() {
+    const token = localStorage.getItem('admin_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : '',
+    };
+  }
+
+  /**
+   * 获取汇率模式设置和汇率列表
+   */
+  static async getOverview(): Promise<ExchangeRateOverview> {
+    const response = await fetch(`${ADMIN_API_URL}/exchange-rates`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('未授权访问，请重新登录');
+      }
+      throw new Error(`获取汇率失败: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || '获取汇率失败');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * 更新汇率模式设置
+   */
+  static async updateSettings(input: FxSettingsInput): Promise<FxSettings> {
+    const response = await fetch(`${ADMIN_API_URL}/exchange-rates/settings`, {
+      method: 'PUT',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(input),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '更新汇率模式设置失败');
+    }
+
+    return result.data.settings;
+  }
+
+  /**
+   * 设置汇率（已存在时覆盖）
+   */
+  static async setRate(currency: string, rate: number): Promise<ExchangeRate> {
+    const response = await fetch(`${ADMIN_API_URL}/exchange-rates`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ currency, rate }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '设置汇率失败');
+    }
+
+    return result.data.rate;
+  }
+
+  /**
+   * 导入汇率文件，不传内容时导入服务器上配置的汇率文件
+   */
+  static async importRates(content?: string): Promise<number> {
+    const response = await fetch(`${ADMIN_API_URL}/exchange-rates/import`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(content === undefined ? {} : { content }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '导入汇率失败');
+    }
+
+    return result.data.imported;
+  }
+
+  /**
+   * 删除汇率
+   */
+  static async deleteRate(rateId: number): Promise<void> {
+    const response = await fetch(`${ADMIN_API_URL}/exchange-rates/${rateId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '删除汇率失败');
+    }
+  }
+}
+
+export const exchangeRateApi = ExchangeRateApi;
@@ -203,6 +203,7 @@ export const getInventoryDetail = async (
  */
 export const importInventory = async (data: {
   productId: number
+  variantId?: number
   content: string
   batchName?: string
   priority?: number
@@ -224,6 +225,7 @@ export const importInventory = async (data: {
  */
 export const addInventory = async (data: {
   productId: number
+  variantId?: number
   content: string
   batchName?: string
   priority?: number
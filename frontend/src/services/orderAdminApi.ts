@@ -1,4 +1,4 @@
-import type { OrderFilters, FilterOptions } from '../types/orderAdmin';
+import type { OrderFilters, FilterOptions, Refund } from '../types/orderAdmin';
 import { ADMIN_API_URL } from '../config/api';
 
 /**
@@ -96,23 +96,40 @@ export class OrderAdminApi {
   }
 
   /**
-   * 退款
+   * 退款（不传金额时退还全部剩余金额）
    */
-  static async refundOrder(orderId: string, reason: string) {
+  static async refundOrder(orderId: string, reason: string, amount?: number): Promise<Refund> {
     const response = await fetch(`${ADMIN_API_URL}/orders/${orderId}/refund`, {
       method: 'POST',
       headers: this.getAuthHeaders(),
-      body: JSON.stringify({ reason }),
+      body: JSON.stringify({ reason, amount }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || '退款操作失败');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * 获取订单退款记录
+   */
+  static async getRefunds(orderId: string): Promise<{ refunds: Refund[]; refundableAmount: number }> {
+    const response = await fetch(`${ADMIN_API_URL}/orders/${orderId}/refunds`, {
+      headers: this.getAuthHeaders(),
     });
 
     if (!response.ok) {
-      throw new Error('退款操作失败');
+      throw new Error('获取退款记录失败');
     }
 
     const result = await response.json();
 
     if (!result.success) {
-      throw new Error(result.error || '退款操作失败');
+      throw new Error(result.error || '获取退款记录失败');
     }
 
     return result.data;
@@ -37,6 +37,15 @@ export class OrderApiService {
     }
   }
 
+  /**
+   * 获取发票 PDF 下载地址（不指定编号时为订单发票，首次访问时开具）
+   */
+  static getInvoiceUrl(orderId: string, invoiceNumber?: string): string {
+    return invoiceNumber
+      ? `${API_FULL_URL}/orders/${orderId}/invoices/${encodeURIComponent(invoiceNumber)}`
+      : `${API_FULL_URL}/orders/${orderId}/invoice`;
+  }
+
   /**
    * 获取下载链接
    */
@@ -74,4 +83,5 @@ export class OrderApiService {
  * 导出便捷方法
  */
 export const getOrderDetail = OrderApiService.getOrderDetail.bind(OrderApiService);
-export const getDownloadUrl = OrderApiService.getDownloadUrl.bind(OrderApiService);
\ No newline at end of file
+export const getDownloadUrl = OrderApiService.getDownloadUrl.bind(OrderApiService);
+export const getInvoiceUrl = OrderApiService.getInvoiceUrl.bind(OrderApiService);
\ No newline at end of file
@@ -0,0 +1,65 @@
+import type { GatewayConfigValue, PaymentGatewayConfig } from '../types/paymentGatewayAdmin';
+import { ADMIN_API_URL } from '../config/api';
+
+/**
+ * 支付网关配置API服务
+ */
+export class PaymentGatewayAdminApi {
+  private static getAuthHeaders() {
+    const token = localStorage.getItem('admin_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : '',
+    };
+  }
+
+  /**
+   * 获取支付网关列表及配置表单
+   */
+  static async getGateways(): Promise<PaymentGatewayConfig[]> {
+    const response = await fetch(`${ADMIN_API_URL}/payment-gateways`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('未授权访问，请重新登录');
+      }
+      throw new Error(`获取支付网关配置失败: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || '获取支付网关配置失败');
+    }
+
+    return result.data.gateways;
+  }
+
+  /**
+   * 更新支付网关配置（敏感字段留空表示保持原值）
+   */
+  static async updateConfig(
+    gatewayId: string,
+    values: Record<string, GatewayConfigValue>
+  ): Promise<PaymentGatewayConfig> {
+    const response = await fetch(`${ADMIN_API_URL}/payment-gateways/${gatewayId}/config`, {
+      method: 'PUT',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ values }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      // 配置校验失败时显示第一个出错的字段
+      const issue = result.error?.details?.[0];
+      throw new Error(issue ? `${issue.path?.join('.')}: ${issue.message}` : result.error?.message || '保存支付网关配置失败');
+    }
+
+    return result.data.gateway;
+  }
+}
+
+export const paymentGatewayAdminApi = PaymentGatewayAdminApi;
@@ -0,0 +1,731 @@
+import axios, { AxiosError } from 'axios'
+import { ADMIN_API_URL, API_TIMEOUT } from '../config/api'
+
+/**
+ * 创建 Axios 实例
+ */
+const apiClient = axios.create({
+  baseURL: ADMIN_API_URL,
+  timeout: API_TIMEOUT.LONG,
+  withCredentials: true,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+})
+
+/**
+ * 请求拦截器 - 添加认证 token
+ */
+apiClient.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('admin_token')
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`
+    }
+    return config
+  },
+  (error) => {
+    return Promise.reject(error)
+  }
+)
+
+/**
+ * 响应拦截器 - 统一错误处理
+ */
+apiClient.interceptors.response.use(
+  (response) => {
+    return response
+  },
+  (error: AxiosError) => {
+    console.error('API Error:', error)
+
+    if (error.code === 'ECONNABORTED') {
+      return Promise.reject(new Error('请求超时，请稍后重试'))
+    }
+
+    if (!error.response) {
+      return Promise.reject(new Error('网络连接失败，请检查网络'))
+    }
+
+    const data = error.response.data as { error?: string | { message?: string } } | undefined
+    const message = (typeof data?.error === 'string' ? data.error : data?.error?.message) || '请求失败'
+
+    if (error.response.status === 401) {
+      return Promise.reject(new Error('未授权，请重新登录'))
+    }
+
+    return Promise.reject(new Error(message))
+  }
+)
+
+/**
+ * 类型定义
+ */
+export type EmailTemplateType = 'delivery' | 'failure' | 'refund'
+
+export interface EmailTemplateContent {
+  subject: string
+  htmlBody: string
+}
+
+export interface EmailTemplateRecord extends EmailTemplateContent {
+  id: number
+  productId: number | null
+  emailType: EmailTemplateType
+  isActive: boolean
+  updatedAt: string
+  updatedBy?: string
+}
+
+export interface ResolvedEmailTemplate extends EmailTemplateContent {
+  id?: number
+  productId?: number | null
+  emailType: EmailTemplateType
+  source: 'product' | 'default' | 'builtin'
+}
+
+export interface EmailTemplatePreview {
+  subject: string
+  html: string
+  variables: Record<string, string>
+  source: ResolvedEmailTemplate['source'] | 'draft'
+}
+
+/**
+ * 获取商品邮件模板
+ */
+export const getProductEmailTemplate = async (
+  productId: number,
+  emailType: EmailTemplateType = 'delivery'
+): Promise<{
+  override: EmailTemplateRecord | null
+  effective: ResolvedEmailTemplate
+  variables: string[]
+}> => {
+  const response = await apiClient.get(`/products/${productId}/email-template`, {
+    params: { emailType },
+  })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取邮件模板失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 保存商品邮件模板
+ */
+export const saveProductEmailTemplate = async (
+  productId: number,
+  data: EmailTemplateContent & { emailType: EmailTemplateType; isActive?: boolean }
+): Promise<EmailTemplateRecord> => {
+  const response = await apiClient.put(`/products/${productId}/email-template`, data)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '保存邮件模板失败')
+  }
+  return response.data.data.template
+}
+
+/**
+ * 删除商品邮件模板（恢复默认模板）
+ */
+export const deleteProductEmailTemplate = async (
+  productId: number,
+  emailType: EmailTemplateType = 'delivery'
+): Promise<void> => {
+  const response = await apiClient.delete(`/products/${productId}/email-template`, {
+    params: { emailType },
+  })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '删除邮件模板失败')
+  }
+}
+
+/**
+ * 预览邮件模板
+ */
+export const previewEmailTemplate = async (data: {
+  emailType: EmailTemplateType
+  productId?: number
+  orderId?: string
+  currency?: 'CNY' | 'USD'
+  subject?: string
+  htmlBody?: string
+}): Promise<EmailTemplatePreview> => {
+  const response = await apiClient.post('/email-templates/preview', data)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '预览邮件模板失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 计划价格（限时促销或定时改价）
+ */
+export type PriceScheduleStatus = 'scheduled' | 'active' | 'ended' | 'applied'
+
+export interface RegularPrice {
+  id: number
+  currency: string
+  price: number
+  compareAtPrice: number | null
+  isActive: boolean
+}
+
+export interface PriceSchedule extends RegularPrice {
+  startsAt: string
+  endsAt: string | null
+  appliedAt: string | null
+  createdAt: string
+  status: PriceScheduleStatus
+}
+
+export interface PriceScheduleInput {
+  currency: string
+  price: number
+  compareAtPrice?: number | null
+  startsAt: string
+  endsAt?: string | null
+}
+
+/**
+ * 获取商品常规价格和价格变更记录
+ */
+export const getPriceSchedule = async (
+  productId: number
+): Promise<{ prices: RegularPrice[]; schedule: PriceSchedule[] }> => {
+  const response = await apiClient.get(`/products/${productId}/price-schedule`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取价格变更记录失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 创建计划价格
+ */
+export const createPriceSchedule = async (
+  productId: number,
+  data: PriceScheduleInput
+): Promise<PriceSchedule> => {
+  const response = await apiClient.post(`/products/${productId}/price-schedule`, data)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '创建计划价格失败')
+  }
+  return response.data.data.schedule
+}
+
+/**
+ * 取消计划价格（进行中的促销立即结束）
+ */
+export const cancelPriceSchedule = async (productId: number, scheduleId: number): Promise<void> => {
+  const response = await apiClient.delete(`/products/${productId}/price-schedule/${scheduleId}`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '取消计划价格失败')
+  }
+}
+
+/**
+ * 商品规格（独立价格和库存池）
+ */
+export interface ProductVariantAdmin {
+  id: number
+  productId: number
+  name: string
+  templateText: string | null
+  isActive: boolean
+  sortOrder: number
+  prices: RegularPrice[]
+  inventory: { available: number; total: number; used: number }
+  inventoryStatus: string
+}
+
+export interface VariantInput {
+  name: string
+  templateText?: string | null
+  isActive?: boolean
+  sortOrder?: number
+}
+
+export interface VariantPriceInput {
+  currency: string
+  price: number
+  isActive?: boolean
+}
+
+/**
+ * 获取商品规格列表
+ */
+export const getProductVariants = async (productId: number): Promise<ProductVariantAdmin[]> => {
+  const response = await apiClient.get(`/products/${productId}/variants`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取商品规格失败')
+  }
+  return response.data.data.variants
+}
+
+/**
+ * 创建商品规格
+ */
+export const createProductVariant = async (
+  productId: number,
+  data: VariantInput & { prices?: VariantPriceInput[] }
+): Promise<void> => {
+  const response = await apiClient.post(`/products/${productId}/variants`, data)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '创建商品规格失败')
+  }
+}
+
+/**
+ * 更新商品规格
+ */
+export const updateProductVariant = async (
+  productId: number,
+  variantId: number,
+  data: Partial<VariantInput>
+): Promise<void> => {
+  const response = await apiClient.put(`/products/${productId}/variants/${variantId}`, data)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '更新商品规格失败')
+  }
+}
+
+/**
+ * 设置规格价格
+ */
+export const updateVariantPrices = async (
+  productId: number,
+  variantId: number,
+  prices: VariantPriceInput[]
+): Promise<void> => {
+  const response = await apiClient.put(`/products/${productId}/variants/${variantId}/prices`, { prices })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '更新规格价格失败')
+  }
+}
+
+/**
+ * 删除商品规格（已有订单的规格只能停用）
+ */
+export const deleteProductVariant = async (productId: number, variantId: number): Promise<void> => {
+  const response = await apiClient.delete(`/products/${productId}/variants/${variantId}`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '删除商品规格失败')
+  }
+}
+
+/**
+ * 商品分类（树形，productCount 包含子分类商品）
+ */
+export interface CategoryAdmin {
+  id: number
+  parentId: number | null
+  name: string
+  description: string | null
+  isActive: boolean
+  sortOrder: number
+  productCount: number
+  children: CategoryAdmin[]
+}
+
+export interface CategoryInput {
+  name: string
+  parentId?: number | null
+  description?: string | null
+  isActive?: boolean
+  sortOrder?: number
+}
+
+export interface TagAdmin {
+  id: number
+  name: string
+  productCount: number
+}
+
+/**
+ * 获取分类树
+ */
+export const getCategories = async (): Promise<CategoryAdmin[]> => {
+  const response = await apiClient.get('/categories')
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取商品分类失败')
+  }
+  return response.data.data.categories
+}
+
+/**
+ * 创建分类
+ */
+export const createCategory = async (data: CategoryInput): Promise<void> => {
+  const response = await apiClient.post('/categories', data)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '创建商品分类失败')
+  }
+}
+
+/**
+ * 更新分类
+ */
+export const updateCategory = async (categoryId: number, data: Partial<CategoryInput>): Promise<void> => {
+  const response = await apiClient.put(`/categories/${categoryId}`, data)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '更新商品分类失败')
+  }
+}
+
+/**
+ * 删除分类（分类下的商品变为未分类）
+ */
+export const deleteCategory = async (categoryId: number): Promise<void> => {
+  const response = await apiClient.delete(`/categories/${categoryId}`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '删除商品分类失败')
+  }
+}
+
+/**
+ * 获取标签列表
+ */
+export const getTags = async (): Promise<TagAdmin[]> => {
+  const response = await apiClient.get('/tags')
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取商品标签失败')
+  }
+  return response.data.data.tags
+}
+
+/**
+ * 创建标签
+ */
+export const createTag = async (name: string): Promise<void> => {
+  const response = await apiClient.post('/tags', { name })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '创建商品标签失败')
+  }
+}
+
+/**
+ * 删除标签（同时从商品上移除）
+ */
+export const deleteTag = async (tagId: number): Promise<void> => {
+  const response = await apiClient.delete(`/tags/${tagId}`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '删除商品标签失败')
+  }
+}
+
+/**
+ * 把分类树展开为带层级的列表（用于下拉选择）
+ */
+export const flattenCategories = (
+  categories: CategoryAdmin[],
+  depth = 0
+): Array<{ category: CategoryAdmin; depth: number }> =>
+  categories.flatMap((category) => [
+    { category, depth },
+    ...flattenCategories(category.children, depth + 1),
+  ])
+
+/**
+ * 商品图片（url / thumbnailUrl 为相对 API 服务器的路径）
+ */
+export interface ProductImageAdmin {
+  id: number
+  url: string
+  thumbnailUrl: string
+  width: number
+  height: number
+  altText: string | null
+  sortOrder: number
+}
+
+/**
+ * 获取商品图片（第一张为封面）
+ */
+export const getProductImages = async (productId: number): Promise<ProductImageAdmin[]> => {
+  const response = await apiClient.get(`/products/${productId}/images`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取商品图片失败')
+  }
+  return response.data.data.images
+}
+
+/**
+ * 上传商品图片（追加到图库末尾）
+ */
+export const uploadProductImage = async (productId: number, file: File, altText?: string): Promise<ProductImageAdmin> => {
+  const formData = new FormData()
+  formData.append('file', file)
+  if (altText) {
+    formData.append('altText', altText)
+  }
+
+  const response = await apiClient.post(`/products/${productId}/images`, formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '上传商品图片失败')
+  }
+  return response.data.data.image
+}
+
+/**
+ * 更新商品图片说明
+ */
+export const updateProductImage = async (productId: number, imageId: number, altText: string | null): Promise<void> => {
+  const response = await apiClient.patch(`/products/${productId}/images/${imageId}`, { altText })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '更新商品图片失败')
+  }
+}
+
+/**
+ * 调整商品图片顺序（第一张为封面）
+ */
+export const reorderProductImages = async (productId: number, imageIds: number[]): Promise<ProductImageAdmin[]> => {
+  const response = await apiClient.put(`/products/${productId}/images/order`, { imageIds })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '调整图片顺序失败')
+  }
+  return response.data.data.images
+}
+
+/**
+ * 删除商品图片
+ */
+export const deleteProductImage = async (productId: number, imageId: number): Promise<void> => {
+  const response = await apiClient.delete(`/products/${productId}/images/${imageId}`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '删除商品图片失败')
+  }
+}
+
+/**
+ * 已购买客户的文件版本策略：purchased 保持购买时的版本，latest 始终下载当前版本
+ */
+export type FileVersionPolicy = 'purchased' | 'latest'
+
+/**
+ * 商品文件版本（isCurrent 为新订单发货的版本）
+ */
+export interface ProductFileVersion {
+  id: number
+  version: string
+  changelog: string | null
+  isCurrent: boolean
+  fileId: number
+  fileName: string
+  fileSize: number
+  mimeType: string | null
+  checksum: string | null
+  deliveryCount: number
+  createdBy: string | null
+  createdAt: string | null
+}
+
+export interface ProductFiles {
+  versions: ProductFileVersion[]
+  versionPolicy: FileVersionPolicy
+  stampingEnabled: boolean
+}
+
+interface UploadSession {
+  uploadId: string
+  chunkSize: number
+  totalChunks: number
+  receivedChunks: number[]
+}
+
+/**
+ * 获取商品文件版本和版本策略
+ */
+export const getProductFiles = async (productId: number): Promise<ProductFiles> => {
+  const response = await apiClient.get(`/products/${productId}/files`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取商品文件失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 分片上传商品文件，登记为新版本
+ */
+export const uploadProductFile = async (
+  productId: number,
+  file: File,
+  data: { version: string; changelog?: string },
+  onProgress?: (uploaded: number, total: number) => void
+): Promise<ProductFileVersion> => {
+  const created = await apiClient.post(`/products/${productId}/files/uploads`, {
+    fileName: file.name,
+    fileSize: file.size,
+    mimeType: file.type || undefined,
+    version: data.version,
+    changelog: data.changelog || null,
+  })
+  if (!created.data.success) {
+    throw new Error(created.data.error?.message || '创建上传任务失败')
+  }
+
+  const upload: UploadSession = created.data.data.upload
+  const basePath = `/products/${productId}/files/uploads/${upload.uploadId}`
+
+  try {
+    for (let index = 0; index < upload.totalChunks; index++) {
+      const chunk = file.slice(index * upload.chunkSize, (index + 1) * upload.chunkSize)
+      const response = await apiClient.put(`${basePath}/chunks/${index}`, chunk, {
+        headers: { 'Content-Type': 'application/octet-stream' },
+      })
+      if (!response.data.success) {
+        throw new Error(response.data.error?.message || '上传分片失败')
+      }
+      onProgress?.(Math.min((index + 1) * upload.chunkSize, file.size), file.size)
+    }
+
+    const response = await apiClient.post(`${basePath}/complete`)
+    if (!response.data.success) {
+      throw new Error(response.data.error?.message || '完成文件上传失败')
+    }
+    return response.data.data.version
+  } catch (error) {
+    await apiClient.delete(basePath).catch(() => undefined)
+    throw error
+  }
+}
+
+/**
+ * 设置新订单发货的文件版本
+ */
+export const setCurrentProductFile = async (productId: number, versionId: number): Promise<ProductFiles> => {
+  const response = await apiClient.put(`/products/${productId}/files/current`, { versionId })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '设置发货版本失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 设置已购买客户的文件版本策略
+ */
+export const setProductFilePolicy = async (productId: number, policy: FileVersionPolicy): Promise<ProductFiles> => {
+  const response = await apiClient.put(`/products/${productId}/files/policy`, { policy })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '设置版本策略失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 开启或关闭买家专属文件副本（ZIP 内的授权文件、PDF 元数据）
+ */
+export const setProductFileStamping = async (productId: number, enabled: boolean): Promise<ProductFiles> => {
+  const response = await apiClient.put(`/products/${productId}/files/stamping`, { enabled })
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '设置文件授权标记失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 删除文件版本
+ */
+export const deleteProductFile = async (productId: number, versionId: number): Promise<void> => {
+  const response = await apiClient.delete(`/products/${productId}/files/${versionId}`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '删除文件版本失败')
+  }
+}
+
+/**
+ * 泄露文件对应的订单
+ */
+export interface FileTraceMatch {
+  stampId: string
+  deliveryId: number
+  stampedAt: string | null
+  downloadCount: number
+  isActive: boolean
+  order: {
+    id: string
+    email: string
+    status: string | null
+    productId: number
+    productName: string | null
+    createdAt: string | null
+  }
+}
+
+export interface FileTraceResult {
+  stampIds: string[]
+  matches: FileTraceMatch[]
+}
+
+/**
+ * 追踪泄露的文件：上传文件或输入授权编号
+ */
+export const traceLeakedFile = async (source: File | string): Promise<FileTraceResult> => {
+  let response
+  if (typeof source === 'string') {
+    response = await apiClient.post('/files/trace', { stampId: source })
+  } else {
+    const formData = new FormData()
+    formData.append('file', source)
+    response = await apiClient.post('/files/trace', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    })
+  }
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '追踪文件失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 卡密来源：pool 预置库存，generator 自动生成，pool_then_generator 库存不足时自动生成
+ */
+export type KeySource = 'pool' | 'generator' | 'pool_then_generator'
+
+/**
+ * 卡密生成算法：uuid、pattern（按格式生成）、signed_license（Ed25519 签名的离线授权文件）
+ */
+export type KeyGenerator = 'uuid' | 'pattern' | 'signed_license'
+
+export interface KeySourceSettings {
+  keySource: KeySource
+  keyGenerator: KeyGenerator | null
+  keyPattern: string | null
+  licenseValidDays: number | null
+}
+
+/**
+ * 获取商品的卡密来源设置
+ */
+export const getKeySource = async (productId: number): Promise<KeySourceSettings> => {
+  const response = await apiClient.get(`/products/${productId}/key-source`)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取卡密来源失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 更新商品的卡密来源
+ */
+export const saveKeySource = async (productId: number, data: KeySourceSettings): Promise<KeySourceSettings> => {
+  const response = await apiClient.put(`/products/${productId}/key-source`, data)
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '更新卡密来源失败')
+  }
+  return response.data.data
+}
+
+/**
+ * 获取离线授权文件的签名公钥（PEM）
+ */
+export const getLicensePublicKey = async (): Promise<string> => {
+  const response = await apiClient.get('/license-keys/public-key')
+  if (!response.data.success) {
+    throw new Error(response.data.error?.message || '获取签名公钥失败')
+  }
+  return response.data.data.publicKey
+}
@@ -1,6 +1,6 @@
 import axios, { AxiosError } from 'axios';
-import type { ProductListResponse, ProductDetailResponse, ApiErrorResponse } from '../types/product';
-import { API_FULL_URL, API_TIMEOUT } from '../config/api';
+import type { ProductListResponse, ProductListParams, ProductDetailResponse, CatalogResponse, ApiErrorResponse } from '../types/product';
+import { API_BASE_URL, API_FULL_URL, API_TIMEOUT } from '../config/api';
 
 /**
  * 创建 Axios 实例
@@ -64,13 +64,19 @@ interface CustomAxiosError extends AxiosError {
   response?: AxiosError['response'];
 }
 
+/**
+ * 商品图片完整地址（后端返回的是相对路径）
+ */
+export const getProductImageUrl = (path: string): string => `${API_BASE_URL}${path}`;
+
 /**
  * 获取商品列表
+ * @param params 分类/标签筛选、搜索、排序和分页参数
  * @returns Promise<ProductListResponse>
  */
-export const getProducts = async (): Promise<ProductListResponse> => {
+export const getProducts = async (params: ProductListParams = {}): Promise<ProductListResponse> => {
   try {
-    const response = await apiClient.get<ProductListResponse>('/products');
+    const response = await apiClient.get<ProductListResponse>('/products', { params });
     return response.data;
   } catch (error) {
     console.error('获取商品列表失败:', error);
@@ -85,6 +91,26 @@ export const getProducts = async (): Promise<ProductListResponse> => {
   }
 };
 
+/**
+ * 获取商品分类树和标签
+ * @returns Promise<CatalogResponse>
+ */
+export const getCatalog = async (): Promise<CatalogResponse> => {
+  try {
+    const response = await apiClient.get<CatalogResponse>('/products/catalog');
+    return response.data;
+  } catch (error) {
+    console.error('获取商品分类失败:', error);
+
+    if (axios.isAxiosError(error) && error.response?.data) {
+      const errorData = error.response.data as ApiErrorResponse;
+      throw new Error(errorData.error || '获取商品分类失败');
+    }
+
+    throw new Error('网络连接失败，请检查网络设置');
+  }
+};
+
 /**
  * 根据 ID 获取商品详情
  * @param id 商品 ID
@@ -0,0 +1,77 @@
+import type { ReconciliationReport, ReconciliationRun } from '../types/reconciliation';
+import { ADMIN_API_URL } from '../config/api';
+
+/**
+ * 支付对账API服务
+ */
+export class ReconciliationApi {
+  private static getAuthHeaders() {
+    const token = localStorage.getItem('admin_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : '',
+    };
+  }
+
+  /**
+   * 获取对账批次列表
+   */
+  static async getRuns(page = 1, limit = 20): Promise<ReconciliationRun[]> {
+    const response = await fetch(`${ADMIN_API_URL}/reconciliation/runs?page=${page}&limit=${limit}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('未授权访问，请重新登录');
+      }
+      throw new Error(`获取对账记录失败: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || '获取对账记录失败');
+    }
+
+    return result.data.runs;
+  }
+
+  /**
+   * 获取对账报告
+   */
+  static async getReport(runId: number): Promise<ReconciliationReport> {
+    const response = await fetch(`${ADMIN_API_URL}/reconciliation/runs/${runId}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '获取对账报告失败');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * 立即执行一次对账
+   */
+  static async runNow(): Promise<ReconciliationRun> {
+    const response = await fetch(`${ADMIN_API_URL}/reconciliation/runs`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({}),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '执行对账失败');
+    }
+
+    return result.data.run;
+  }
+}
+
+export const reconciliationApi = ReconciliationApi;
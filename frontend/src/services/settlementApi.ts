@@ -0,0 +1,92 @@
+import type { SettlementGateway, SettlementImport, SettlementReport } from '../types/settlement';
+import { ADMIN_API_URL } from '../config/api';
+
+/**
+ * 结算对账API服务
+ */
+export class SettlementApi {
+  private static getAuthHeaders() {
+    const token = localStorage.getItem('admin_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : '',
+    };
+  }
+
+  /**
+   * 获取结算文件导入记录
+   */
+  static async getImports(page = 1, limit = 20): Promise<SettlementImport[]> {
+    const response = await fetch(`${ADMIN_API_URL}/settlements?page=${page}&limit=${limit}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('未授权访问，请重新登录');
+      }
+      throw new Error(`获取导入记录失败: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || '获取导入记录失败');
+    }
+
+    return result.data.imports;
+  }
+
+  /**
+   * 获取导入记录及差异明细
+   */
+  static async getReport(importId: number): Promise<SettlementReport> {
+    const response = await fetch(`${ADMIN_API_URL}/settlements/${importId}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '获取结算差异失败');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * 导入结算文件
+   */
+  static async importFile(gateway: SettlementGateway, fileName: string, content: string): Promise<SettlementImport> {
+    const response = await fetch(`${ADMIN_API_URL}/settlements/import`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ gateway, fileName, content }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '导入结算文件失败');
+    }
+
+    return result.data.settlement;
+  }
+
+  /**
+   * 下载差异报告（CSV）
+   */
+  static async downloadReport(importId: number): Promise<Blob> {
+    const response = await fetch(`${ADMIN_API_URL}/settlements/${importId}/report`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`下载差异报告失败: ${response.statusText}`);
+    }
+
+    return response.blob();
+  }
+}
+
+export const settlementApi = SettlementApi;
@@ -0,0 +1,95 @@
+import type { TaxRule, TaxRuleInput } from '../types/tax';
+import { ADMIN_API_URL } from '../config/api';
+
+/**
+ * 税率规则管理API服务
+ */
+export class TaxApi {
+  private static getAuthHeaders() {
+    const token = localStorage.getItem('admin_token');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': token ? `Bearer ${token}` : '',
+    };
+  }
+
+  /**
+   * 获取税率规则列表
+   */
+  static async getRules(): Promise<TaxRule[]> {
+    const response = await fetch(`${ADMIN_API_URL}/tax-rules`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('未授权访问，请重新登录');
+      }
+      throw new Error(`获取税率规则失败: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || '获取税率规则失败');
+    }
+
+    return result.data.rules;
+  }
+
+  /**
+   * 创建税率规则
+   */
+  static async createRule(input: TaxRuleInput): Promise<TaxRule> {
+    const response = await fetch(`${ADMIN_API_URL}/tax-rules`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(input),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '创建税率规则失败');
+    }
+
+    return result.data.rule;
+  }
+
+  /**
+   * 更新税率规则
+   */
+  static async updateRule(ruleId: number, input: TaxRuleInput): Promise<TaxRule> {
+    const response = await fetch(`${ADMIN_API_URL}/tax-rules/${ruleId}`, {
+      method: 'PUT',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(input),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '更新税率规则失败');
+    }
+
+    return result.data.rule;
+  }
+
+  /**
+   * 删除税率规则
+   */
+  static async deleteRule(ruleId: number): Promise<void> {
+    const response = await fetch(`${ADMIN_API_URL}/tax-rules/${ruleId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || '删除税率规则失败');
+    }
+  }
+}
+
+export const taxApi = TaxApi;
@@ -0,0 +1,61 @@
+export type CouponDiscountType = 'percentage' | 'fixed';
+
+export type CouponRedemptionStatus = 'applied' | 'released';
+
+export interface Coupon {
+  id: number;
+  code: string;
+  description: string | null;
+  discountType: CouponDiscountType;
+  percentOff: number | null;
+  amounts: Record<string, number> | null;
+  productIds: number[] | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerEmail: number | null;
+  stackable: boolean;
+  startsAt: string | null;
+  expiresAt: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  redemptionCount?: number;
+}
+
+export interface CouponInput {
+  code: string;
+  description?: string | null;
+  discountType: CouponDiscountType;
+  percentOff?: number | null;
+  amounts?: Record<string, number> | null;
+  productIds?: number[] | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerEmail?: number | null;
+  stackable?: boolean;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  isActive?: boolean;
+}
+
+export interface CouponRedemption {
+  id: number;
+  couponId: number;
+  orderId: string;
+  code: string;
+  email: string;
+  currency: string;
+  discountAmount: number;
+  status: CouponRedemptionStatus;
+  createdAt: string;
+  releasedAt: string | null;
+}
+
+export interface CouponUsageReportRow {
+  couponId: number;
+  code: string;
+  isActive: boolean;
+  appliedCount: number;
+  releasedCount: number;
+  uniqueEmails: number;
+  discountByCurrency: Record<string, number>;
+}
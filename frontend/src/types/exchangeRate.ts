@@ -0,0 +1,33 @@
+/**
+ * 推算价格的取整规则：none 保留两位小数，integer 取整，charm 以 .99 结尾
+ */
+export type RoundingRule = 'none' | 'integer' | 'charm';
+
+export interface FxSettings {
+  enabled: boolean;
+  baseCurrency: string;
+  rounding: Record<string, RoundingRule>; // default 为未单独设置货币的规则
+  ratesFile: string; // 服务器上的汇率文件路径
+}
+
+export interface ExchangeRate {
+  id: number;
+  baseCurrency: string;
+  currency: string;
+  rate: number; // 1 单位基准货币 = rate 单位该货币
+  source: 'manual' | 'file';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FxSettingsInput {
+  enabled?: boolean;
+  baseCurrency?: string;
+  rounding?: Record<string, RoundingRule>;
+}
+
+export interface ExchangeRateOverview {
+  settings: FxSettings;
+  rates: ExchangeRate[];
+  currencies: string[];
+}
@@ -8,7 +8,7 @@ export type OrderStatus = 'pending' | 'paid' | 'delivered' | 'cancelled' | 'refu
 /**
  * 支付网关类型
  */
-export type PaymentGateway = 'alipay' | 'creem';
+export type PaymentGateway = 'alipay' | 'creem' | 'stripe' | 'paypal' | 'wechat';
 
 /**
  * 订单创建请求接口
@@ -16,10 +16,121 @@ export type PaymentGateway = 'alipay' | 'creem';
 export interface OrderCreateRequest {
   productId: string;           // 商品 ID
   productName: string;         // 商品名称
-  price: number;              // 价格
+  variantId?: number;         // 商品规格 ID
   currency: Currency;         // 货币类型
   email: string;              // 邮箱地址
   gateway: PaymentGateway;    // 支付网关
+  quantity?: number;          // 购买数量（默认1）
+  couponCodes?: string[];     // 优惠码
+  country?: string;           // 买家国家（用于计税，未填写时按IP识别）
+  buyerCompany?: string;      // 发票抬头（公司名称）
+  buyerTaxId?: string;        // 买家税号
+  quoteToken: string;         // 订单报价令牌
+}
+
+/**
+ * 购物车商品接口（保存在浏览器本地）
+ */
+export interface CartItem {
+  productId: string;          // 商品 ID
+  variantId?: number;         // 商品规格 ID
+  productName: string;        // 商品名称（含规格名称）
+  price: number;              // 单价
+  currency: Currency;         // 货币类型
+  quantity: number;           // 购买数量
+}
+
+/**
+ * 购物车订单创建请求接口
+ */
+export interface CartOrderCreateRequest {
+  items: QuoteItem[];
+  currency: Currency;         // 货币类型
+  email: string;              // 邮箱地址
+  gateway: PaymentGateway;    // 支付网关
+  couponCodes?: string[];     // 优惠码
+  country?: string;           // 买家国家（用于计税，未填写时按IP识别）
+  buyerCompany?: string;      // 发票抬头（公司名称）
+  buyerTaxId?: string;        // 买家税号
+  quoteToken: string;         // 订单报价令牌
+}
+
+/**
+ * 订单使用的优惠码
+ */
+export interface OrderCoupon {
+  code: string;               // 优惠码
+  discountAmount: number;     // 优惠金额
+}
+
+/**
+ * 订单发票（红字发票金额为负数）
+ */
+export interface OrderInvoice {
+  invoiceNumber: string;      // 发票编号
+  type: 'invoice' | 'credit_note'; // 发票或红字发票
+  totalAmount: number;        // 发票金额
+  issuedAt: string;           // 开具时间
+}
+
+/**
+ * 报价商品（价格由服务端计算）
+ */
+export interface QuoteItem {
+  productId: string;          // 商品 ID
+  variantId?: number;         // 商品规格 ID
+  quantity: number;           // 购买数量
+}
+
+/**
+ * 订单报价请求接口
+ */
+export interface QuoteRequest {
+  items: QuoteItem[];
+  currency: Currency;         // 货币类型
+  email?: string;             // 邮箱地址（用于校验每个邮箱的优惠码使用次数）
+  couponCodes?: string[];     // 优惠码
+  country?: string;           // 买家国家（用于计税，未填写时按IP识别）
+}
+
+/**
+ * 订单报价接口（金额以服务端计算为准）
+ */
+export interface OrderQuote {
+  quoteToken: string;         // 报价令牌，下单时原样回传
+  expiresAt: string;          // 报价过期时间
+  currency: Currency;         // 货币类型
+  items: Array<{
+    productId: string;        // 商品 ID
+    productName: string;      // 商品名称
+    variantId: number | null; // 商品规格 ID
+    variantName: string | null; // 规格名称
+    quantity: number;         // 购买数量
+    unitPrice: number;        // 单价
+    lineTotal: number;        // 小计
+    taxRate: number;          // 税率（百分比）
+    taxAmount: number;        // 税额
+  }>;
+  subtotal: number;           // 商品小计
+  discountAmount: number;     // 优惠总额
+  netAmount: number;          // 税前金额（已扣除优惠）
+  taxAmount: number;          // 税额
+  taxCountry: string | null;  // 计税国家
+  total: number;              // 应付金额（含税）
+  coupons: OrderCoupon[];     // 各优惠码的优惠金额
+}
+
+/**
+ * 订单商品明细接口
+ */
+export interface OrderItem {
+  productId: string;          // 商品 ID
+  productName: string;        // 商品名称
+  variantName?: string | null; // 规格名称
+  quantity: number;           // 购买数量
+  unitPrice: number;          // 单价
+  taxRate?: number;           // 税率（百分比）
+  taxAmount?: number;         // 税额
 }
 
 /**
@@ -30,10 +141,16 @@ export interface Order {
   productId: string;         // 商品 ID
   email: string;             // 邮箱地址
   gateway: PaymentGateway;   // 支付网关
-  amount: number;            // 订单金额
+  amount: number;            // 订单金额（含税）
+  netAmount?: number | null; // 税前金额
+  taxAmount?: number | null; // 税额
+  taxCountry?: string | null; // 计税国家
   currency: Currency;        // 货币类型
   status: OrderStatus;       // 订单状态
   gatewayOrderId?: string;   // 支付网关订单 ID
+  items?: OrderItem[];       // 商品明细
+  coupons?: OrderCoupon[];   // 使用的优惠码
+  invoices?: OrderInvoice[]; // 已开具的发票
   createdAt: string;         // 创建时间
   updatedAt: string;         // 更新时间
 }
@@ -46,6 +163,7 @@ export interface OrderCreateResponse {
   order?: Order;             // 订单信息
   paymentUrl?: string;       // 支付页面 URL
   error?: string;            // 错误信息
+  code?: string;             // 错误代码
 }
 
 /**
@@ -55,6 +173,7 @@ export interface ApiResponse<T = any> {
   success: boolean;          // 请求是否成功
   data?: T;                 // 响应数据
   error?: string;           // 错误信息
+  code?: string;            // 错误代码
   message?: string;         // 响应消息
 }
 
@@ -83,9 +202,11 @@ export interface CheckoutPageState {
  */
 export interface ProductQueryParams {
   productId: string;        // 商品 ID
+  variantId?: number;       // 商品规格 ID
   productName: string;      // 商品名称
   price: string;            // 价格（字符串格式）
   currency: Currency;       // 货币类型
+  quantity: number;         // 购买数量
 }
 
 /**
@@ -99,6 +220,7 @@ export type DeliveryType = 'text' | 'download';
 export interface DeliveryContent {
   type: DeliveryType;       // 发货类型
   content?: string;         // 文本内容（激活码、许可证等）
+  codes?: string[];         // 分配的卡密列表（购买多份时逐条展示）
   fileName?: string;        // 文件名
   fileSize?: number;        // 文件大小（字节）
   downloadUrl?: string;     // 下载链接
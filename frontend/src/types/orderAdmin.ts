@@ -17,6 +17,22 @@ export interface Order {
   };
 }
 
+export interface Refund {
+  id: number;
+  refundNo: string;
+  orderId: string;
+  gateway: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  gatewayRefundId?: string;
+  errorMessage?: string;
+  requestedBy?: string;
+  completedAt?: string;
+  createdAt: string;
+}
+
 export interface OrderFilters {
   page?: number;
   limit?: number;
@@ -5,7 +5,7 @@
 /**
  * 支付网关类型
  */
-export type PaymentGateway = 'alipay' | 'creem';
+export type PaymentGateway = 'alipay' | 'creem' | 'stripe' | 'paypal' | 'wechat';
 
 /**
  * 订单状态
@@ -26,6 +26,9 @@ export interface OrderInfo {
   productName: string;
   email: string;
   price: number;
+  netAmount?: number | null;
+  taxAmount?: number | null;
+  taxCountry?: string | null;
   currency: string;
   status: OrderStatus;
   gateway: string;
@@ -0,0 +1,23 @@
+export type GatewayConfigValue = string | number | boolean;
+
+export interface GatewayConfigField {
+  key: string;
+  configKey: string;
+  type: 'string' | 'number' | 'boolean' | 'enum';
+  label: string;
+  secret: boolean;
+  multiline: boolean;
+  options?: string[];
+  defaultValue?: GatewayConfigValue;
+}
+
+export interface PaymentGatewayConfig {
+  id: string;
+  displayName: string;
+  supportedCurrencies: string[];
+  recommendedCurrency: string;
+  webhookUrl: string;
+  fields: GatewayConfigField[];
+  values: Record<string, GatewayConfigValue>;
+  configuredSecrets: string[];
+}
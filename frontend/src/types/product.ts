@@ -15,6 +15,9 @@ export interface ProductPrice {
   currency: Currency;
   price: number;
   isActive: boolean;
+  compareAtPrice?: number;       // 划线原价（促销期间）
+  saleEndsAt?: string;           // 促销结束时间
+  derived?: boolean;             // 由基准货币价格按汇率推算
 }
 
 /**
@@ -26,6 +29,30 @@ export interface Inventory {
   used: number;
 }
 
+/**
+ * 商品规格（如授权时长、版本），有独立的价格和库存
+ */
+export interface ProductVariant {
+  id: number;                    // 规格 ID
+  name: string;                  // 规格名称
+  prices: ProductPrice[];        // 规格价格列表
+  inventory: Inventory;          // 规格库存
+  inventoryStatus: string;       // 库存状态文本
+}
+
+/**
+ * 商品图片（url / thumbnailUrl 为相对 API 服务器的路径）
+ */
+export interface ProductImage {
+  id: number;
+  url: string;                   // 原图
+  thumbnailUrl: string;          // 缩略图
+  width: number;
+  height: number;
+  altText: string | null;        // 图片说明
+  sortOrder: number;
+}
+
 /**
  * 商品接口（匹配后端数据结构）
  */
@@ -36,14 +63,39 @@ export interface Product {
   deliveryType: DeliveryType;   // 发货类型
   templateText?: string;         // 模板文本
   prices: ProductPrice[];        // 价格列表
+  variants?: ProductVariant[];   // 启用的规格（有规格时需选择规格下单）
+  categoryId?: number | null;    // 所属分类 ID
+  category?: { id: number; name: string } | null; // 所属分类（商品详情返回）
+  tags?: string[];               // 商品标签
   inventory: Inventory;          // 库存信息
   inventoryStatus: string;       // 库存状态文本
+  minQuantity?: number;          // 单次最少购买数量
+  maxQuantity?: number | null;   // 单次最多购买数量（为空表示不限）
   isActive: boolean;             // 是否激活
-  image?: string;                // 商品图片 URL
+  coverImage?: ProductImage | null; // 封面图片（商品列表返回）
+  images?: ProductImage[];       // 商品图库（商品详情返回，第一张为封面）
   createdAt: string;             // 创建时间
   updatedAt: string;             // 更新时间
 }
 
+/**
+ * 商品列表排序方式
+ */
+export type ProductSort = 'default' | 'price_asc' | 'price_desc' | 'newest' | 'popular';
+
+/**
+ * 商品列表筛选参数
+ */
+export interface ProductListParams {
+  categoryId?: number;
+  tag?: string;
+  search?: string;
+  sort?: ProductSort;
+  currency?: Currency;           // 按价格排序时使用的货币
+  page?: number;
+  limit?: number;
+}
+
 /**
  * 商品列表响应接口
  */
@@ -52,6 +104,46 @@ export interface ProductListResponse {
   data: {
     products: Product[];
     total: number;
+    pagination?: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+      hasNext: boolean;
+      hasPrev: boolean;
+    };
+  };
+}
+
+/**
+ * 商品分类（树形，productCount 包含子分类商品）
+ */
+export interface Category {
+  id: number;
+  parentId: number | null;
+  name: string;
+  description: string | null;
+  productCount: number;
+  children: Category[];
+}
+
+/**
+ * 商品标签
+ */
+export interface ProductTag {
+  id: number;
+  name: string;
+  productCount: number;
+}
+
+/**
+ * 商品分类和标签响应接口
+ */
+export interface CatalogResponse {
+  success: boolean;
+  data: {
+    categories: Category[];
+    tags: ProductTag[];
   };
 }
 
@@ -64,12 +156,13 @@ export interface ProductDetailResponse {
 }
 
 /**
- * 货币转换选项
+ * 服务端汇率（1 单位基准货币 = rates[currency] 单位该货币）
  */
-export interface CurrencyConversion {
-  from: Currency;
-  to: Currency;
-  rate: number;  // 汇率（1 CNY = ? USD）
+export interface ExchangeRates {
+  enabled: boolean;              // 是否开启汇率推算价格
+  baseCurrency: string;
+  rates: Record<string, number>;
+  updatedAt: string | null;
 }
 
 /**
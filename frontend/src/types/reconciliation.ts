@@ -0,0 +1,35 @@
+export type ReconciliationOutcome = 'matched' | 'recovered' | 'mismatched' | 'error';
+
+export interface ReconciliationRun {
+  id: number;
+  status: 'running' | 'completed' | 'failed';
+  triggeredBy: string;
+  checkedCount: number;
+  matchedCount: number;
+  recoveredCount: number;
+  mismatchedCount: number;
+  errorCount: number;
+  errorMessage?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface ReconciliationItem {
+  id: number;
+  runId: number;
+  orderId: string;
+  gateway: string;
+  outcome: ReconciliationOutcome;
+  localStatus: string;
+  gatewayStatus?: string;
+  localAmount: number;
+  gatewayAmount?: number;
+  currency: string;
+  message?: string;
+  createdAt: string;
+}
+
+export interface ReconciliationReport {
+  run: ReconciliationRun;
+  items: ReconciliationItem[];
+}
@@ -0,0 +1,41 @@
+export type SettlementGateway = 'alipay' | 'creem';
+
+export type SettlementDiscrepancyType =
+  | 'missing_order'
+  | 'amount_mismatch'
+  | 'status_mismatch'
+  | 'duplicate'
+  | 'refund_not_reflected';
+
+export interface SettlementImport {
+  id: number;
+  gateway: SettlementGateway;
+  fileName: string;
+  lineCount: number;
+  matchedCount: number;
+  discrepancyCount: number;
+  paymentAmount: number;
+  refundAmount: number;
+  importedBy: string;
+  createdAt: string;
+}
+
+export interface SettlementDiscrepancy {
+  id: number;
+  importId: number;
+  type: SettlementDiscrepancyType;
+  lineNo: number;
+  gatewayOrderId?: string;
+  transactionId?: string;
+  orderId?: string;
+  localAmount?: number;
+  settledAmount: number;
+  currency?: string;
+  message: string;
+  createdAt: string;
+}
+
+export interface SettlementReport {
+  settlement: SettlementImport;
+  discrepancies: SettlementDiscrepancy[];
+}
@@ -0,0 +1,18 @@
+export interface TaxRule {
+  id: number;
+  country: string;
+  taxCategory: string | null; // 为空表示该国家的默认税率
+  name: string;
+  rate: number; // 百分比
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaxRuleInput {
+  country: string;
+  taxCategory?: string | null;
+  name?: string;
+  rate: number;
+  isActive?: boolean;
+}
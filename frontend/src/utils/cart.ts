@@ -0,0 +1,73 @@
+/**
+ * 购物车本地存储工具函数
+ */
+import type { CartItem } from '../types/order';
+
+const CART_STORAGE_KEY = 'autoship_cart';
+
+/**
+ * 读取购物车
+ * @returns 购物车商品列表
+ */
+export const getCart = (): CartItem[] => {
+  try {
+    const stored = localStorage.getItem(CART_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 保存购物车
+ * @param items 购物车商品列表
+ */
+export const saveCart = (items: CartItem[]): void => {
+  localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+};
+
+/**
+ * 是否为同一商品规格
+ * @param a 购物车商品
+ * @param b 购物车商品
+ */
+export const isSameCartItem = (
+  a: { productId: string; variantId?: number | null },
+  b: { productId: string; variantId?: number | null }
+): boolean => a.productId === b.productId && (a.variantId ?? null) === (b.variantId ?? null);
+
+/**
+ * 加入购物车
+ * 购物车只支持同一种货币，货币不同时会清空原有商品
+ * @param item 要加入的商品
+ * @returns 更新后的购物车
+ */
+export const addToCart = (item: CartItem): CartItem[] => {
+  const cart = getCart().filter(cartItem => cartItem.currency === item.currency);
+  const existing = cart.find(cartItem => isSameCartItem(cartItem, item));
+
+  const updated = existing
+    ? cart.map(cartItem => isSameCartItem(cartItem, item)
+      ? { ...cartItem, price: item.price, quantity: cartItem.quantity + item.quantity }
+      : cartItem)
+    : [...cart, item];
+
+  saveCart(updated);
+  return updated;
+};
+
+/**
+ * 清空购物车
+ */
+export const clearCart = (): void => {
+  localStorage.removeItem(CART_STORAGE_KEY);
+};
+
+/**
+ * 计算购物车商品总数
+ * @param items 购物车商品列表
+ * @returns 商品总件数
+ */
+export const getCartCount = (items: CartItem[] = getCart()): number => {
+  return items.reduce((sum, item) => sum + item.quantity, 0);
+};
@@ -1,10 +1,4 @@
-import type { CurrencyDisplay, Currency } from '../types/product';
-
-/**
- * 货币汇率（1 CNY = ? USD）
- * 这里使用固定汇率，实际应该从 API 获取
- */
-const CNY_TO_USD_RATE = 0.14;
+import type { CurrencyDisplay, Currency, ExchangeRates } from '../types/product';
 
 /**
  * 货币常量
@@ -36,37 +30,31 @@ const CURRENCY_DISPLAYS: Record<Currency, CurrencyDisplay> = {
 export const currencyDisplayMap: Record<Currency, CurrencyDisplay> = CURRENCY_DISPLAYS;
 
 /**
- * 转换货币
+ * 转换货币（汇率来自服务端 /checkout/exchange-rates）
  * @param amount 金额
  * @param fromCurrency 源货币
  * @param toCurrency 目标货币
- * @returns 转换后的金额
+ * @param exchangeRates 服务端汇率
+ * @returns 转换后的金额，缺少汇率时返回 null
  */
 export const convertCurrency = (
   amount: number,
   fromCurrency: Currency,
-  toCurrency: Currency
-): number => {
+  toCurrency: Currency,
+  exchangeRates: ExchangeRates | null
+): number | null => {
   if (fromCurrency === toCurrency) {
     return amount;
   }
 
-  // 转换为以 CNY 为基准
-  let baseAmount: number;
-  if (fromCurrency === CURRENCY_VALUES.CNY) {
-    baseAmount = amount;
-  } else {
-    // USD -> CNY
-    baseAmount = amount / CNY_TO_USD_RATE;
+  const fromRate = exchangeRates?.rates[fromCurrency];
+  const toRate = exchangeRates?.rates[toCurrency];
+  if (!fromRate || !toRate) {
+    return null;
   }
 
-  // 从 CNY 转换为目标货币
-  if (toCurrency === CURRENCY_VALUES.CNY) {
-    return baseAmount;
-  } else {
-    // CNY -> USD
-    return baseAmount * CNY_TO_USD_RATE;
-  }
+  // 先换算为基准货币，再换算为目标货币
+  return Math.round(amount / fromRate * toRate * 100) / 100;
 };
 
 /**
@@ -3,7 +3,7 @@
  */
 
 import type { OrderInfo, PaymentInitRequest, PaymentInitResponse, PaymentStatusResponse } from '../types/payment';
-import type { Currency } from '../types/product';
+import type { Currency, ExchangeRates } from '../types/product';
 import { API_FULL_URL } from '../config/api';
 
 /**
@@ -160,6 +160,13 @@ export function formatCurrency(amount: number, currency: string): string {
   return formatter.format(amount);
 }
 
+/**
+ * 是否为需要扫码的支付链接（微信支付 Native 返回 weixin:// 协议的二维码内容）
+ */
+export function isQrCodePaymentUrl(paymentUrl: string): boolean {
+  return paymentUrl.trim().startsWith('weixin://');
+}
+
 /**
  * 生成支付窗口名称
  */
@@ -252,4 +259,18 @@ export function getGatewaysByCurrency(
 
   console.log(`[payment-api] 货币 ${currency} 匹配 ${matchingGateways.length} 个网关:`, matchingGateways.map(g => g.id));
   return matchingGateways;
-}
\ No newline at end of file
+}
+
+/**
+ * 获取服务端汇率
+ * @returns 汇率信息，如果失败返回 null（调用方不做金额换算）
+ */
+export async function getExchangeRates(): Promise<ExchangeRates | null> {
+  try {
+    const response = await apiRequest<{ success: boolean; data: ExchangeRates }>('/checkout/exchange-rates');
+    return response.success ? response.data : null;
+  } catch (error) {
+    console.error('[payment-api] 获取汇率失败:', error);
+    return null;
+  }
+}